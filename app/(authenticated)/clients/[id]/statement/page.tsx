@@ -0,0 +1,6 @@
+import { ClientStatement } from '@/components/mui/client-statement'
+
+export default async function ClientStatementPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <ClientStatement clientId={id} />
+}
@@ -0,0 +1,18 @@
+import { MUIEstimates } from '@/components/mui/estimates'
+import { Box, Typography } from '@mui/material'
+
+export default function EstimatesPage() {
+  return (
+    <Box>
+      <Box mb={4}>
+        <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+          Estimates
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Send quotations to clients and turn accepted ones into invoices
+        </Typography>
+      </Box>
+      <MUIEstimates />
+    </Box>
+  )
+}
@@ -23,6 +23,9 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material'
 import {
   ArrowBack as BackIcon,
@@ -30,12 +33,19 @@ import {
   Warning as WarningIcon,
   CheckCircle as CheckIcon,
   Refresh as RefreshIcon,
+  Download as DownloadIcon,
+  PictureAsPdf as PdfIcon,
 } from '@mui/icons-material'
 import { FilingItemTable } from '@/components/mui/gst-filings/filing-item-table'
+import { HsnSummaryTable, DocumentsIssuedTable } from '@/components/mui/gst-filings/gstr1-summary-tables'
 import { api } from '@/lib/trpc/client'
 import { formatCurrency } from '@/lib/invoice-utils'
 import { FilingStatus } from '@prisma/client'
 import { format } from 'date-fns'
+import { enqueueSnackbar } from 'notistack'
+import type { DocumentSeriesSummary, GSTR1JsonError } from '@/lib/gst-filing'
+import { FILING_TYPE_LABELS } from '@/lib/gst-filing/qrmp'
+import { isFiledStatus } from '@/lib/gst-filing/amendments'
 
 function StatusChip({ status }: { status: FilingStatus }) {
   const statusConfig: Record<
@@ -82,11 +92,19 @@ export default function FilingPeriodDetailPage() {
     message: string
   }>({ open: false, status: null, title: '', message: '' })
 
+  const [exportErrors, setExportErrors] = useState<GSTR1JsonError[]>([])
+  const [isExporting, setIsExporting] = useState(false)
+
+  const utils = api.useUtils()
   const { data: period, isLoading, refetch } = api.gstFiling.getFilingPeriod.useQuery({ periodId })
   const { data: tableSummary } = api.gstFiling.getTableSummary.useQuery(
     { periodId },
     { enabled: !!period && period.status !== 'DRAFT' }
   )
+  const { data: hsnSummary } = api.gstFiling.getHsnSummary.useQuery(
+    { periodId },
+    { enabled: !!period && period.filingType === 'GSTR1' && period.status !== 'DRAFT' }
+  )
   const { data: flaggedItems } = api.gstFiling.getFlaggedItems.useQuery(
     { periodId },
     { enabled: !!period && period.status !== 'DRAFT' }
@@ -128,6 +146,30 @@ export default function FilingPeriodDetailPage() {
     })
   }
 
+  const handleExportJson = async () => {
+    setIsExporting(true)
+    try {
+      const file = period?.filingType === 'GSTR3B'
+        ? await utils.gstFiling.exportGSTR3BJson.fetch({ periodId })
+        : await utils.gstFiling.exportGSTR1Json.fetch({ periodId })
+      if (!file.content) {
+        setExportErrors('errors' in file ? file.errors : [])
+        return
+      }
+      const blob = new Blob([file.content], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = file.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      enqueueSnackbar(err instanceof Error ? err.message : 'Export failed', { variant: 'error' })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const confirmStatusChange = () => {
     if (confirmDialog.status) {
       updateStatus.mutate({ periodId, status: confirmDialog.status })
@@ -153,7 +195,9 @@ export default function FilingPeriodDetailPage() {
     )
   }
 
-  const isGSTR3B = period.filingType === 'GSTR3B'
+  // PMT-06 is self-assessed like GSTR-3B; IFF reports B2B invoices like GSTR-1 without Tables 12 and 13
+  const isGSTR3B = period.filingType === 'GSTR3B' || period.filingType === 'PMT06'
+  const hasSummaryTables = period.filingType === 'GSTR1'
 
   // Type guard for flags
   type FlagType = { severity: string; code: string; message: string }
@@ -179,7 +223,7 @@ export default function FilingPeriodDetailPage() {
         <Box flex={1}>
           <Stack direction="row" alignItems="center" spacing={2}>
             <Typography variant="h4" fontWeight="bold">
-              {period.filingType === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B'}
+              {FILING_TYPE_LABELS[period.filingType]}
             </Typography>
             <StatusChip status={period.status} />
           </Stack>
@@ -187,6 +231,25 @@ export default function FilingPeriodDetailPage() {
             {period.formattedPeriod} (FY {period.fiscalYear})
           </Typography>
         </Box>
+        {period.filingType === 'GSTR3B' && period.status !== 'DRAFT' && (
+          <Button
+            variant="outlined"
+            startIcon={<PdfIcon />}
+            href={`/api/gst-filings/${periodId}/computation/download`}
+          >
+            Computation Sheet
+          </Button>
+        )}
+        {period.filingType !== 'PMT06' && period.status !== 'DRAFT' && (
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExportJson}
+            disabled={isExporting}
+          >
+            {isExporting ? 'Exporting...' : 'Export JSON'}
+          </Button>
+        )}
         <Tooltip title="Refresh">
           <IconButton onClick={() => refetch()}>
             <RefreshIcon />
@@ -195,7 +258,7 @@ export default function FilingPeriodDetailPage() {
       </Stack>
 
       {/* Due Date Alert */}
-      {period.isOverdue && period.status !== 'FILED' && (
+      {period.isOverdue && !isFiledStatus(period.status) && (
         <Alert severity="error" sx={{ mb: 3 }}>
           This filing is overdue by {Math.abs(period.daysUntilDue)} days. The due date was{' '}
           {format(new Date(period.dueDate), 'dd MMM yyyy')}.
@@ -223,7 +286,7 @@ export default function FilingPeriodDetailPage() {
                 Due Date
               </Typography>
               <Stack direction="row" alignItems="center" spacing={1}>
-                {period.status === 'FILED' ? (
+                {isFiledStatus(period.status) ? (
                   <CheckIcon fontSize="small" color="success" />
                 ) : period.isOverdue ? (
                   <WarningIcon fontSize="small" color="error" />
@@ -234,7 +297,7 @@ export default function FilingPeriodDetailPage() {
                   {format(new Date(period.dueDate), 'dd MMM yyyy')}
                 </Typography>
               </Stack>
-              {period.status !== 'FILED' && (
+              {!isFiledStatus(period.status) && (
                 <Typography
                   variant="caption"
                   color={period.isOverdue ? 'error.main' : 'text.secondary'}
@@ -390,6 +453,8 @@ export default function FilingPeriodDetailPage() {
         >
           <Tab label={`All Items (${period.planItems.length})`} />
           <Tab label={`Flagged (${flaggedItems?.length || 0})`} />
+          {hasSummaryTables && <Tab label="HSN Summary (Table 12)" />}
+          {hasSummaryTables && <Tab label="Documents Issued (Table 13)" />}
         </Tabs>
 
         <TabPanel value={tabValue} index={0}>
@@ -403,7 +468,7 @@ export default function FilingPeriodDetailPage() {
               sgstAmount: Number(item.sgstAmount),
               flags: item.flags as { code: string; message: string; severity: 'error' | 'warning' | 'info' }[] | null,
             }))}
-            onToggleInclude={handleToggleInclude}
+            onToggleInclude={isFiledStatus(period.status) ? undefined : handleToggleInclude}
             onViewInvoice={handleViewInvoice}
             isUpdating={updatePlanItem.isPending}
           />
@@ -421,7 +486,7 @@ export default function FilingPeriodDetailPage() {
                 sgstAmount: Number(item.sgstAmount),
                 flags: item.flags as { code: string; message: string; severity: 'error' | 'warning' | 'info' }[] | null,
               }))}
-              onToggleInclude={handleToggleInclude}
+              onToggleInclude={isFiledStatus(period.status) ? undefined : handleToggleInclude}
               onViewInvoice={handleViewInvoice}
               isUpdating={updatePlanItem.isPending}
             />
@@ -432,6 +497,20 @@ export default function FilingPeriodDetailPage() {
             </Box>
           )}
         </TabPanel>
+
+        {hasSummaryTables && (
+          <TabPanel value={tabValue} index={2}>
+            <HsnSummaryTable rows={hsnSummary || []} />
+          </TabPanel>
+        )}
+
+        {hasSummaryTables && (
+          <TabPanel value={tabValue} index={3}>
+            <DocumentsIssuedTable
+              rows={(period.documentSummary as unknown as DocumentSeriesSummary[] | null) || []}
+            />
+          </TabPanel>
+        )}
       </Paper>
 
       {/* Workflow Actions */}
@@ -510,6 +589,29 @@ export default function FilingPeriodDetailPage() {
         )}
       </Paper>
 
+      {/* Export Errors Dialog */}
+      <Dialog open={exportErrors.length > 0} onClose={() => setExportErrors([])} maxWidth="sm" fullWidth>
+        <DialogTitle>{FILING_TYPE_LABELS[period.filingType]} JSON not ready</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary">
+            The portal would reject this file. Fix these items, regenerate the plan and export again.
+          </Typography>
+          <List dense>
+            {exportErrors.map((error, index) => (
+              <ListItem key={index} disableGutters>
+                <ListItemText
+                  primary={error.message}
+                  secondary={`${error.section}${error.reference ? ` · ${error.reference}` : ''}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setExportErrors([])}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Confirmation Dialog */}
       <Dialog
         open={confirmDialog.open}
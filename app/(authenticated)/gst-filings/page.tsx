@@ -15,16 +15,11 @@ import {
   Tab,
 } from '@mui/material'
 import { FilingPeriodCard } from '@/components/mui/gst-filings/filing-period-card'
+import { AmendmentsLog } from '@/components/mui/gst-filings/amendments-log'
 import { api } from '@/lib/trpc/client'
 import { useRouter } from 'next/navigation'
 import { FilingType } from '@prisma/client'
-import { format, parseISO } from 'date-fns'
-
-function formatPeriod(period: string): string {
-  // period is in YYYY-MM format
-  const date = parseISO(`${period}-01`)
-  return format(date, 'MMMM yyyy')
-}
+import { isFiledStatus } from '@/lib/gst-filing/amendments'
 
 export default function GSTFilingsPage() {
   const router = useRouter()
@@ -45,8 +40,12 @@ export default function GSTFilingsPage() {
     onSuccess: () => refetch(),
   })
 
+  // IFF and PMT-06 plans are generated for months 1-2 of a QRMP quarter by the
+  // GSTR-1 and GSTR-3B generators
+  const isGSTR1Plan = (type: FilingType) => type === 'GSTR1' || type === 'IFF'
+
   const handleGenerate = (periodId: string, type: FilingType) => {
-    if (type === 'GSTR1') {
+    if (isGSTR1Plan(type)) {
       generateGSTR1.mutate({ period: periodId })
     } else {
       generateGSTR3B.mutate({ period: periodId })
@@ -60,24 +59,24 @@ export default function GSTFilingsPage() {
   const filteredPeriods = filingPeriods?.filter((period) => {
     if (statusFilter === 1) {
       // Pending - not filed
-      return period.status !== 'FILED'
+      return !isFiledStatus(period.status)
     }
     if (statusFilter === 2) {
       // Filed
-      return period.status === 'FILED'
+      return isFiledStatus(period.status)
     }
     return true
   })
 
-  // Flatten the upcoming due dates to check for overdue filings
+  // Flatten the upcoming due dates to check for overdue filings (a missed IFF is not overdue,
+  // its invoices go in the quarterly GSTR-1)
   const overdueFilings: { filingType: string; period: string }[] = []
   upcomingDueDates?.forEach((d) => {
-    if (d.gstr1.isOverdue && d.gstr1.status !== 'FILED') {
-      overdueFilings.push({ filingType: 'GSTR-1', period: d.period })
-    }
-    if (d.gstr3b.isOverdue && d.gstr3b.status !== 'FILED') {
-      overdueFilings.push({ filingType: 'GSTR-3B', period: d.period })
-    }
+    d.returns.forEach((r) => {
+      if (r.isOverdue && !r.isOptional && !(r.status && isFiledStatus(r.status))) {
+        overdueFilings.push({ filingType: r.label, period: r.formattedPeriod })
+      }
+    })
   })
 
   return (
@@ -86,13 +85,13 @@ export default function GSTFilingsPage() {
         GST Filings
       </Typography>
       <Typography variant="body1" color="text.secondary" paragraph>
-        Generate and manage your GSTR-1 and GSTR-3B filing plans.
+        Generate and manage your GSTR-1 and GSTR-3B filing plans, and IFF and PMT-06 under QRMP.
       </Typography>
 
       {overdueFilings.length > 0 && (
         <Alert severity="error" sx={{ mb: 3 }}>
           You have {overdueFilings.length} overdue filing(s):{' '}
-          {overdueFilings.map((f) => `${f.filingType} for ${formatPeriod(f.period)}`).join(', ')}
+          {overdueFilings.map((f) => `${f.filingType} for ${f.period}`).join(', ')}
         </Alert>
       )}
 
@@ -113,6 +112,8 @@ export default function GSTFilingsPage() {
             <ToggleButton value="ALL">All</ToggleButton>
             <ToggleButton value="GSTR1">GSTR-1</ToggleButton>
             <ToggleButton value="GSTR3B">GSTR-3B</ToggleButton>
+            <ToggleButton value="IFF">IFF</ToggleButton>
+            <ToggleButton value="PMT06">PMT-06</ToggleButton>
           </ToggleButtonGroup>
 
           <Tabs
@@ -123,11 +124,14 @@ export default function GSTFilingsPage() {
             <Tab label="All" sx={{ minHeight: 'auto', py: 1 }} />
             <Tab label="Pending" sx={{ minHeight: 'auto', py: 1 }} />
             <Tab label="Filed" sx={{ minHeight: 'auto', py: 1 }} />
+            <Tab label="Amendments" sx={{ minHeight: 'auto', py: 1 }} />
           </Tabs>
         </Stack>
       </Paper>
 
-      {isLoading ? (
+      {statusFilter === 3 ? (
+        <AmendmentsLog />
+      ) : isLoading ? (
         <Box display="flex" justifyContent="center" py={4}>
           <CircularProgress />
         </Box>
@@ -139,7 +143,7 @@ export default function GSTFilingsPage() {
                 id={period.id}
                 filingType={period.filingType}
                 period={period.period}
-                formattedPeriod={formatPeriod(period.period)}
+                formattedPeriod={period.formattedPeriod}
                 fiscalYear={period.fiscalYear}
                 status={period.status}
                 dueDate={new Date(period.dueDate)}
@@ -151,8 +155,8 @@ export default function GSTFilingsPage() {
                 onGenerate={() => handleGenerate(period.period, period.filingType)}
                 onView={() => handleView(period.id)}
                 isGenerating={
-                  (generateGSTR1.isPending && period.filingType === 'GSTR1') ||
-                  (generateGSTR3B.isPending && period.filingType === 'GSTR3B')
+                  (generateGSTR1.isPending && isGSTR1Plan(period.filingType)) ||
+                  (generateGSTR3B.isPending && !isGSTR1Plan(period.filingType))
                 }
               />
             </Grid>
@@ -4,22 +4,31 @@ import { useState, use, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { api } from '@/lib/trpc/client'
 import { InvoiceForm } from '@/components/invoices/invoice-form'
+import { AmendmentReasonDialog } from '@/components/mui/amendment-reason-dialog'
 import { enqueueSnackbar } from 'notistack'
 import { toSafeNumber } from '@/lib/utils/decimal'
+import { getStateCodeFromGSTIN } from '@/lib/validations/gst'
+import type { DiscountType } from '@prisma/client'
 
 // Type for the form data that matches what InvoiceForm expects
 interface InvoiceFormData {
   clientId: string
   lutId: string
+  exportWithPayment: boolean
   issueDate: string
   dueDate: string
   currency: string
   paymentTerms: number
+  invoiceType: 'EXPORT' | 'DOMESTIC'
+  gstRate: number
   lineItems: Array<{
     description: string
     sacCode: string
     quantity: number
     rate: number
+    discountType?: DiscountType
+    discountValue?: number
+    gstRate?: number
   }>
   bankDetails: string
   notes: string
@@ -29,6 +38,12 @@ interface InvoiceFormData {
 
 function EditInvoiceContent({ id }: { id: string }) {
   const router = useRouter()
+  const utils = api.useUtils()
+  // Changes to an invoice dated in a filed period wait for an amendment reason
+  const [pendingAmendment, setPendingAmendment] = useState<{
+    formData: InvoiceFormData
+    filedReturns: string | null
+  } | null>(null)
   
   // Fetch invoice data with error handling
   const {
@@ -41,6 +56,7 @@ function EditInvoiceContent({ id }: { id: string }) {
   // Fetch clients and LUTs
   const { data: clients, isLoading: clientsLoading } = api.clients.list.useQuery()
   const { data: luts, isLoading: lutsLoading } = api.luts.list.useQuery()
+  const { data: profile } = api.users.getProfile.useQuery()
   
   // Get exchange rate query
   const [selectedCurrency, setSelectedCurrency] = useState(invoice?.currency || 'USD')
@@ -60,6 +76,8 @@ function EditInvoiceContent({ id }: { id: string }) {
   // Update mutation
   const updateMutation = api.invoices.update.useMutation({
     onSuccess: () => {
+      utils.gstFiling.invalidate()
+      utils.filingAmendments.invalidate()
       enqueueSnackbar('Invoice updated successfully', { variant: 'success' })
       router.push(`/invoices/${id}`)
     },
@@ -80,24 +98,44 @@ function EditInvoiceContent({ id }: { id: string }) {
     },
   })
   
-  // Add submit handler
-  const handleSubmit = useCallback((formData: InvoiceFormData) => {
+  const saveInvoice = useCallback((formData: InvoiceFormData, amendmentReason?: string) => {
     if (!invoice?.id) return
 
     updateMutation.mutate({
       id: invoice.id,
       clientId: formData.clientId,
       lutId: formData.lutId,
+      exportWithPayment: formData.invoiceType === 'EXPORT' ? formData.exportWithPayment : undefined,
       issueDate: new Date(formData.issueDate),
       dueDate: new Date(formData.dueDate),
       currency: formData.currency,
       paymentTerms: formData.paymentTerms,
+      gstRate: formData.invoiceType === 'DOMESTIC' ? formData.gstRate : undefined,
       lineItems: formData.lineItems,
       bankDetails: formData.bankDetails,
       notes: formData.notes,
       exchangeRate: formData.currency !== 'INR' ? (manualExchangeRate || exchangeRateData?.rate || formData.exchangeRate) : 1,
+      amendmentReason,
     })
   }, [invoice, updateMutation, manualExchangeRate, exchangeRateData?.rate])
+
+  // Add submit handler
+  const handleSubmit = useCallback(async (formData: InvoiceFormData) => {
+    if (!invoice?.id) return
+
+    // Issued invoices dated in a filed period, before or after the change, are amended
+    if (invoice.status !== 'DRAFT') {
+      const lock = await utils.filingAmendments.getLock.fetch({
+        dates: [invoice.invoiceDate, new Date(formData.issueDate)],
+      })
+      if (lock.returns.length > 0) {
+        setPendingAmendment({ formData, filedReturns: lock.description })
+        return
+      }
+    }
+
+    saveInvoice(formData)
+  }, [invoice, utils, saveInvoice])
   
   if (isLoading || clientsLoading || lutsLoading) {
     return (
@@ -131,15 +169,20 @@ function EditInvoiceContent({ id }: { id: string }) {
     quantity: toSafeNumber(item.quantity),
     rate: toSafeNumber(item.rate),
     amount: toSafeNumber(item.amount),
+    discountType: item.discountType ?? ('' as const),
+    discountValue: toSafeNumber(item.discountValue),
+    gstRate: invoice.invoiceType === 'DOMESTIC' ? toSafeNumber(item.gstRate) : undefined,
   }))
   
   const initialData = {
     clientId: invoice.clientId ?? undefined,  // Convert null to undefined for form compatibility
     lutId: invoice.lutId || '',
+    exportWithPayment: invoice.exportWithPayment,
     issueDate: invoice.invoiceDate.toISOString().split('T')[0],
     dueDate: invoice.dueDate.toISOString().split('T')[0],
     currency: invoice.currency,
     paymentTerms: 30, // Default to 30 days
+    gstRate: toSafeNumber(invoice.igstRate) + toSafeNumber(invoice.cgstRate) + toSafeNumber(invoice.sgstRate),
     lineItems,
     bankDetails: invoice.bankDetails || '',
     notes: invoice.notes || '',
@@ -175,6 +218,18 @@ function EditInvoiceContent({ id }: { id: string }) {
         exchangeRate={exchangeRateInfo}
         manualExchangeRate={manualExchangeRate}
         onManualExchangeRateChange={setManualExchangeRate}
+        supplierStateCode={profile?.gstin ? getStateCodeFromGSTIN(profile.gstin) : null}
+      />
+      <AmendmentReasonDialog
+        open={!!pendingAmendment}
+        document={`Invoice ${invoice.invoiceNumber}`}
+        filedReturns={pendingAmendment?.filedReturns ?? null}
+        isSubmitting={updateMutation.isPending}
+        onClose={() => setPendingAmendment(null)}
+        onConfirm={(reason) => {
+          if (pendingAmendment) saveInvoice(pendingAmendment.formData, reason)
+          setPendingAmendment(null)
+        }}
       />
     </div>
   )
@@ -0,0 +1,5 @@
+import { InvoiceImport } from '@/components/mui/invoice-import'
+
+export default function ImportInvoicesPage() {
+  return <InvoiceImport />
+}
@@ -3,6 +3,9 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { api } from '@/lib/trpc/client'
+import { getStateCodeFromGSTIN } from '@/lib/validations/gst'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
+import type { DiscountType } from '@prisma/client'
 import { InvoiceForm } from '@/components/invoices/invoice-form'
 import {
   Box,
@@ -23,14 +26,21 @@ export default function NewInvoicePage() {
   // Fetch clients and LUTs
   const { data: clients, isLoading: clientsLoading } = api.clients.list.useQuery()
   const { data: luts, isLoading: lutsLoading } = api.luts.list.useQuery()
-
-  // Get next invoice number
-  const { data: nextInvoiceNumber } = api.invoices.getNextInvoiceNumber.useQuery()
+  const { data: profile } = api.users.getProfile.useQuery()
 
   // Get exchange rate query
   // Start with null currency - will be set when client is selected
   const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null)
   const [selectedIssueDate, setSelectedIssueDate] = useState(new Date().toISOString().split('T')[0])
+  const [selectedClientId, setSelectedClientId] = useState<string | null>(null)
+
+  // Get next invoice number from the series that applies to the client
+  const selectedClient = clients?.find((c) => c.id === selectedClientId)
+  const { data: nextInvoiceNumber } = api.invoices.getNextInvoiceNumber.useQuery({
+    clientId: selectedClientId ?? undefined,
+    invoiceType: selectedClient && isIndianCountry(selectedClient.country) ? 'DOMESTIC' : 'EXPORT',
+    issueDate: new Date(selectedIssueDate),
+  })
   const [manualExchangeRate, setManualExchangeRate] = useState<number | null>(null)
   const { data: exchangeRateData } = api.invoices.getCurrentExchangeRate.useQuery({
     currency: selectedCurrency || 'USD',
@@ -62,15 +72,21 @@ export default function NewInvoicePage() {
   const handleSubmit = async (data: {
     clientId: string
     lutId: string
+    exportWithPayment: boolean
     issueDate: string
     dueDate: string
     currency: string
     paymentTerms: number
+    invoiceType: 'EXPORT' | 'DOMESTIC'
+    gstRate: number
     lineItems: Array<{
       description: string
       sacCode: string
       quantity: number
       rate: number
+      discountType?: DiscountType
+      discountValue?: number
+      gstRate?: number
     }>
     bankDetails: string
     notes: string
@@ -83,9 +99,10 @@ export default function NewInvoicePage() {
         await new Promise(resolve => setTimeout(resolve, 100))
       }
       
-      // Get exchange rate from fetched data or manual entry
-      const exchangeRate = exchangeRateData?.rate || manualExchangeRate
-      const exchangeRateSource = exchangeRateData?.source || 'Manual'
+      // Get exchange rate from fetched data or manual entry (INR invoices need no conversion)
+      const isINR = data.currency === 'INR'
+      const exchangeRate = isINR ? 1 : exchangeRateData?.rate || manualExchangeRate
+      const exchangeRateSource = isINR ? 'INR' : exchangeRateData?.source || 'Manual'
       
       if (!exchangeRate) {
         enqueueSnackbar('Please enter an exchange rate before creating the invoice', { variant: 'warning' })
@@ -95,12 +112,15 @@ export default function NewInvoicePage() {
       await createInvoiceMutation.mutateAsync({
         clientId: data.clientId,
         lutId: data.lutId || undefined,
+        exportWithPayment: data.exportWithPayment,
         issueDate: new Date(data.issueDate),
         dueDate: new Date(data.dueDate),
         currency: data.currency,
         exchangeRate,
         exchangeRateSource,
         paymentTerms: data.paymentTerms,
+        invoiceType: data.invoiceType,
+        gstRate: data.invoiceType === 'DOMESTIC' ? data.gstRate : undefined,
         bankDetails: data.bankDetails,
         notes: data.notes,
         lineItems: data.lineItems.map((item) => ({
@@ -108,6 +128,9 @@ export default function NewInvoicePage() {
           sacCode: item.sacCode,
           quantity: item.quantity,
           rate: item.rate,
+          discountType: item.discountType,
+          discountValue: item.discountValue,
+          gstRate: data.invoiceType === 'DOMESTIC' ? item.gstRate : undefined,
         })),
       })
     } catch {
@@ -178,9 +201,11 @@ export default function NewInvoicePage() {
             onCancel={handleCancel}
             onCurrencyChange={setSelectedCurrency}
             onIssueDateChange={setSelectedIssueDate}
+            onClientChange={setSelectedClientId}
             exchangeRate={exchangeRateData}
             manualExchangeRate={manualExchangeRate}
             onManualExchangeRateChange={setManualExchangeRate}
+            supplierStateCode={profile?.gstin ? getStateCodeFromGSTIN(profile.gstin) : null}
           />
         </Paper>
       </Box>
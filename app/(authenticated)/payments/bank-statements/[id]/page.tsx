@@ -0,0 +1,6 @@
+import { BankStatementReview } from '@/components/mui/bank-statement-review'
+
+export default async function BankStatementPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <BankStatementReview uploadId={id} />
+}
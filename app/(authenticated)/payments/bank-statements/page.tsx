@@ -0,0 +1,5 @@
+import { BankStatements } from '@/components/mui/bank-statements'
+
+export default function BankStatementsPage() {
+  return <BankStatements />
+}
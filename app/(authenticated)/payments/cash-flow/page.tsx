@@ -0,0 +1,5 @@
+import { CashFlowForecast } from '@/components/mui/cash-flow-forecast'
+
+export default function CashFlowForecastPage() {
+  return <CashFlowForecast />
+}
@@ -0,0 +1,5 @@
+import { ForexGainLossReport } from '@/components/mui/forex-gain-loss-report'
+
+export default function ForexGainLossPage() {
+  return <ForexGainLossReport />
+}
@@ -0,0 +1,6 @@
+import { ForexRevaluationDetail } from '@/components/mui/forex-revaluation-detail'
+
+export default async function ForexRevaluationPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return <ForexRevaluationDetail revaluationId={id} />
+}
@@ -0,0 +1,5 @@
+import { ForexRevaluations } from '@/components/mui/forex-revaluations'
+
+export default function ForexRevaluationsPage() {
+  return <ForexRevaluations />
+}
@@ -0,0 +1,5 @@
+import { RealisationRegister } from '@/components/mui/realisation-register'
+
+export default function RealisationRegisterPage() {
+  return <RealisationRegister />
+}
@@ -0,0 +1,5 @@
+import { AgedReceivables } from '@/components/mui/aged-receivables'
+
+export default function AgedReceivablesPage() {
+  return <AgedReceivables />
+}
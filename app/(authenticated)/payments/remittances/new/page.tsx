@@ -0,0 +1,5 @@
+import { RemittanceForm } from '@/components/mui/remittance-form'
+
+export default function NewRemittancePage() {
+  return <RemittanceForm />
+}
@@ -0,0 +1,5 @@
+import { Remittances } from '@/components/mui/remittances'
+
+export default function RemittancesPage() {
+  return <Remittances />
+}
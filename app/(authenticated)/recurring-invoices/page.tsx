@@ -0,0 +1,18 @@
+import { MUIRecurringInvoices } from '@/components/mui/recurring-invoices'
+import { Box, Typography } from '@mui/material'
+
+export default function RecurringInvoicesPage() {
+  return (
+    <Box>
+      <Box mb={4}>
+        <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+          Recurring Invoices
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Raise invoices for retainer clients automatically on a schedule
+        </Typography>
+      </Box>
+      <MUIRecurringInvoices />
+    </Box>
+  )
+}
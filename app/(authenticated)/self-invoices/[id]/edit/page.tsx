@@ -19,18 +19,22 @@ import { api } from '@/lib/trpc/client'
 import { format } from 'date-fns'
 import { formatCurrency } from '@/lib/invoice-utils'
 import { toSafeNumber } from '@/lib/utils/decimal'
+import { AmendmentReasonDialog } from '@/components/mui/amendment-reason-dialog'
 
 export default function EditSelfInvoicePage() {
   const params = useParams()
   const router = useRouter()
   const id = params.id as string
 
+  const utils = api.useUtils()
   const { data: invoice, isLoading, error } = api.selfInvoices.getById.useQuery({ id })
 
   const [invoiceDate, setInvoiceDate] = useState('')
   const [dateOfReceiptOfSupply, setDateOfReceiptOfSupply] = useState('')
   const [notes, setNotes] = useState('')
   const [initialized, setInitialized] = useState(false)
+  // Filed returns covering the self-invoice, while waiting for an amendment reason
+  const [filedReturns, setFiledReturns] = useState<string | null>(null)
 
   // Initialize form data when invoice loads
   if (invoice && !initialized) {
@@ -46,18 +50,36 @@ export default function EditSelfInvoicePage() {
 
   const updateSelfInvoice = api.selfInvoices.update.useMutation({
     onSuccess: () => {
+      utils.gstFiling.invalidate()
+      utils.filingAmendments.invalidate()
       router.push(`/self-invoices/${id}`)
     },
   })
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    await updateSelfInvoice.mutateAsync({
+  const saveSelfInvoice = (amendmentReason?: string) => {
+    updateSelfInvoice.mutate({
       id,
       invoiceDate: invoiceDate ? new Date(invoiceDate) : undefined,
       dateOfReceiptOfSupply: dateOfReceiptOfSupply ? new Date(dateOfReceiptOfSupply) : undefined,
       notes,
+      amendmentReason,
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!invoice) return
+
+    // Self-invoices dated in a filed period, before or after the change, are amended
+    const lock = await utils.filingAmendments.getLock.fetch({
+      dates: invoiceDate ? [invoice.invoiceDate, new Date(invoiceDate)] : [invoice.invoiceDate],
     })
+    if (lock.returns.length > 0) {
+      setFiledReturns(lock.description ?? '')
+      return
+    }
+
+    saveSelfInvoice()
   }
 
   if (isLoading) {
@@ -223,6 +245,18 @@ export default function EditSelfInvoicePage() {
           </Stack>
         </form>
       </Paper>
+
+      <AmendmentReasonDialog
+        open={filedReturns !== null}
+        document={`Self-invoice ${invoice.invoiceNumber}`}
+        filedReturns={filedReturns}
+        isSubmitting={updateSelfInvoice.isPending}
+        onClose={() => setFiledReturns(null)}
+        onConfirm={(reason) => {
+          setFiledReturns(null)
+          saveSelfInvoice(reason)
+        }}
+      />
     </Container>
   )
 }
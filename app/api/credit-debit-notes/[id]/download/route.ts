@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateCreditDebitNotePDF } from '@/lib/pdf-generator'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // Check authentication
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    // Get credit/debit note with the original invoice
+    const note = await prisma.creditDebitNote.findFirst({
+      where: {
+        id: id,
+        userId: session.user.id,
+      },
+      include: {
+        invoice: {
+          include: {
+            client: true,
+          },
+        },
+      },
+    })
+
+    if (!note) {
+      return new NextResponse('Credit/debit note not found', { status: 404 })
+    }
+
+    // Get user data
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+
+    if (!user) {
+      return new NextResponse('User not found', { status: 404 })
+    }
+
+    // Generate PDF
+    try {
+      const pdfBuffer = await generateCreditDebitNotePDF(note, user)
+
+      // Create a safe filename
+      const safeNoteNumber = note.noteNumber.replace(/\//g, '-')
+      const noteLabel = note.noteType === 'CREDIT' ? 'Credit_Note' : 'Debit_Note'
+      const downloadFilename = `${safeNoteNumber}_${noteLabel}_${new Date(note.noteDate).toISOString().split('T')[0]}.pdf`
+
+      // Set appropriate headers for download
+      const headers = new Headers()
+      headers.set('Content-Type', 'application/pdf')
+      headers.set('Content-Disposition', `attachment; filename="${downloadFilename}"`)
+      headers.set('Content-Length', pdfBuffer.length.toString())
+
+      // Convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(pdfBuffer), { headers })
+    } catch (error) {
+      console.error('Error generating credit/debit note PDF:', error)
+      return new NextResponse('Failed to generate PDF', { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error downloading credit/debit note PDF:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getQueueService } from '@/lib/queue'
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+    
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+    
+    // Queue a scan for export invoices nearing the realisation deadline; the worker emails the alerts
+    const job = await getQueueService().enqueue('REALISATION_ALERT', { mode: 'scan' })
+    
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('Cron job error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Also support POST for some cron services
+export async function POST(request: NextRequest) {
+  return GET(request)
+}
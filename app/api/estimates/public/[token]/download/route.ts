@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isTokenExpired } from '@/lib/utils/token'
+import { generateEstimatePDF } from '@/lib/pdf-generator'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    if (!token) {
+      return new NextResponse('Token is required', { status: 400 })
+    }
+
+    // Find estimate by public access token
+    const estimate = await prisma.estimate.findUnique({
+      where: {
+        publicAccessToken: token,
+      },
+      include: {
+        client: true,
+        lineItems: true,
+        user: true,
+      },
+    })
+
+    if (!estimate) {
+      return new NextResponse('Invalid or expired link', { status: 404 })
+    }
+
+    // Check if token has expired
+    if (isTokenExpired(estimate.tokenExpiresAt)) {
+      return new NextResponse('This link has expired', { status: 410 })
+    }
+
+    try {
+      const { user, ...estimateWithRelations } = estimate
+      const pdfBuffer = await generateEstimatePDF(estimateWithRelations, user)
+
+      // Create a safe filename
+      const safeEstimateNumber = estimate.estimateNumber.replace(/\//g, '-')
+      const safeClientName = estimate.client.name.replace(/[^a-zA-Z0-9]/g, '_')
+      const downloadFilename = `${safeEstimateNumber}_${safeClientName}_${new Date(estimate.estimateDate).toISOString().split('T')[0]}.pdf`
+
+      // Set appropriate headers for download
+      const headers = new Headers()
+      headers.set('Content-Type', 'application/pdf')
+      headers.set('Content-Disposition', `attachment; filename="${downloadFilename}"`)
+      headers.set('Content-Length', pdfBuffer.length.toString())
+
+      // Convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(pdfBuffer), { headers })
+    } catch (error) {
+      console.error('Error generating estimate PDF:', error)
+      return new NextResponse('Failed to generate PDF', { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error downloading public estimate PDF:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { isTokenExpired } from '@/lib/utils/token'
+import { getEstimateResponseError } from '@/lib/estimates'
+
+const respondSchema = z.object({
+  action: z.enum(['accept', 'decline']),
+  reason: z.string().max(1000).optional(),
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = respondSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid response' },
+        { status: 400 }
+      )
+    }
+
+    const estimate = await prisma.estimate.findUnique({
+      where: {
+        publicAccessToken: token,
+      },
+      select: {
+        id: true,
+        status: true,
+        validUntil: true,
+        tokenExpiresAt: true,
+      },
+    })
+
+    if (!estimate) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 404 }
+      )
+    }
+
+    if (isTokenExpired(estimate.tokenExpiresAt)) {
+      return NextResponse.json(
+        { error: 'This link has expired. Please contact the sender for a new link.' },
+        { status: 410 }
+      )
+    }
+
+    const responseError = getEstimateResponseError(estimate)
+    if (responseError) {
+      return NextResponse.json(
+        { error: responseError },
+        { status: 409 }
+      )
+    }
+
+    const { action, reason } = parsed.data
+
+    // Only update if nobody responded in the meantime
+    const { count } = await prisma.estimate.updateMany({
+      where: {
+        id: estimate.id,
+        status: 'SENT',
+      },
+      data: {
+        status: action === 'accept' ? 'ACCEPTED' : 'DECLINED',
+        respondedAt: new Date(),
+        declineReason: action === 'decline' ? reason || null : null,
+      },
+    })
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'This estimate has already been responded to' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: action === 'accept' ? 'ACCEPTED' : 'DECLINED',
+    })
+  } catch (error) {
+    console.error('Error responding to public estimate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
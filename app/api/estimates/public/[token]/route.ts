@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { isTokenExpired } from '@/lib/utils/token'
+import { isEstimateExpired } from '@/lib/estimates'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      )
+    }
+
+    // Find estimate by public access token
+    const estimate = await prisma.estimate.findUnique({
+      where: {
+        publicAccessToken: token,
+      },
+      include: {
+        client: true,
+        lineItems: true,
+        user: {
+          select: {
+            name: true,
+            email: true,
+            gstin: true,
+            pan: true,
+            address: true,
+          }
+        }
+      }
+    })
+
+    if (!estimate) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 404 }
+      )
+    }
+
+    // Check if token has expired
+    if (isTokenExpired(estimate.tokenExpiresAt)) {
+      return NextResponse.json(
+        { error: 'This link has expired. Please contact the sender for a new link.' },
+        { status: 410 } // 410 Gone
+      )
+    }
+
+    // Return estimate data for public viewing
+    return NextResponse.json({
+      estimate: {
+        id: estimate.id,
+        estimateNumber: estimate.estimateNumber,
+        estimateDate: estimate.estimateDate,
+        validUntil: estimate.validUntil,
+        isExpired: isEstimateExpired(estimate.validUntil),
+        status: estimate.status,
+        currency: estimate.currency,
+        subtotal: estimate.subtotal,
+        totalAmount: estimate.totalAmount,
+        notes: estimate.notes,
+        terms: estimate.terms,
+        respondedAt: estimate.respondedAt,
+        declineReason: estimate.declineReason,
+        client: estimate.client,
+        lineItems: estimate.lineItems,
+        supplier: {
+          name: estimate.user.name,
+          email: estimate.user.email,
+          gstin: estimate.user.gstin,
+          pan: estimate.user.pan,
+          address: estimate.user.address,
+        }
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching public estimate:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
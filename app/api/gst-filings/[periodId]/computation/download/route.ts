@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { TRPCError } from '@trpc/server'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateGSTR3BComputationPDF } from '@/lib/pdf-generator'
+import { createCallerFactory } from '@/server/api/trpc'
+import { gstFilingRouter } from '@/server/api/routers/gstFiling'
+
+const createGstFilingCaller = createCallerFactory(gstFilingRouter)
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ periodId: string }> }
+) {
+  try {
+    const { periodId } = await params
+
+    // Check authentication
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const caller = createGstFilingCaller({ session, prisma, req: request })
+    const sheet = await caller.getGSTR3BComputation({ periodId })
+
+    // Get user data
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+
+    if (!user) {
+      return new NextResponse('User not found', { status: 404 })
+    }
+
+    // Generate PDF
+    try {
+      const pdfBuffer = await generateGSTR3BComputationPDF(sheet, user)
+      const downloadFilename = `GSTR3B_Computation_${sheet.period}.pdf`
+
+      // Set appropriate headers for download
+      const headers = new Headers()
+      headers.set('Content-Type', 'application/pdf')
+      headers.set('Content-Disposition', `attachment; filename="${downloadFilename}"`)
+      headers.set('Content-Length', pdfBuffer.length.toString())
+
+      // Convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(pdfBuffer), { headers })
+    } catch (error) {
+      console.error('Error generating GSTR-3B computation PDF:', error)
+      return new NextResponse('Failed to generate PDF', { status: 500 })
+    }
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === 'NOT_FOUND') {
+      return new NextResponse('Filing period not found', { status: 404 })
+    }
+    if (error instanceof TRPCError && error.code === 'PRECONDITION_FAILED') {
+      return new NextResponse(error.message, { status: 400 })
+    }
+    console.error('Error downloading GSTR-3B computation PDF:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
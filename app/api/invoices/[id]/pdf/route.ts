@@ -40,13 +40,38 @@ export async function GET(
       return new NextResponse('Invoice not found', { status: 404 })
     }
 
-    if (!invoice.pdfUrl) {
+    // ?version=N serves the PDF of an earlier revision
+    let pdfUrl = invoice.pdfUrl
+    let downloadName = invoice.invoiceNumber
+    const version = request.nextUrl.searchParams.get('version')
+    if (version) {
+      const revision = await prisma.invoiceRevision.findUnique({
+        where: {
+          invoiceId_version: { invoiceId: invoice.id, version: parseInt(version, 10) || 0 },
+        },
+      })
+
+      if (!revision) {
+        return new NextResponse('Invoice version not found', { status: 404 })
+      }
+
+      // The latest version's PDF is recorded on the revision once it is superseded
+      const latest = await prisma.invoiceRevision.findFirst({
+        where: { invoiceId: invoice.id },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      })
+      pdfUrl = revision.pdfUrl ?? (latest?.version === revision.version ? invoice.pdfUrl : null)
+      downloadName = `${invoice.invoiceNumber} (v${revision.version})`
+    }
+
+    if (!pdfUrl) {
       return new NextResponse('PDF not generated yet', { status: 404 })
     }
 
     // For now, we're serving from local filesystem
     // In production, this would redirect to S3/CDN URL
-    const filename = path.basename(invoice.pdfUrl)
+    const filename = path.basename(pdfUrl)
     const filePath = path.join(process.cwd(), 'uploads', 'invoices', filename)
 
     try {
@@ -55,7 +80,7 @@ export async function GET(
       // Set appropriate headers
       const headers = new Headers()
       headers.set('Content-Type', 'application/pdf')
-      headers.set('Content-Disposition', `inline; filename="${invoice.invoiceNumber}.pdf"`)
+      headers.set('Content-Disposition', `inline; filename="${downloadName}.pdf"`)
       headers.set('Cache-Control', 'private, max-age=3600')
 
       // Convert Buffer to Uint8Array for NextResponse
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateReceiptVoucherPDF } from '@/lib/pdf-generator'
+import { lutCoversDate } from '@/lib/lut-utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // Check authentication
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    // Get the advance with its client
+    const credit = await prisma.clientCredit.findFirst({
+      where: {
+        id: id,
+        userId: session.user.id,
+      },
+      include: {
+        client: true,
+      },
+    })
+
+    if (!credit || !credit.voucherNumber || !credit.voucherDate) {
+      return new NextResponse('Receipt voucher not found', { status: 404 })
+    }
+
+    // Get user data and the LUT in force on the voucher date
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      include: {
+        luts: {
+          orderBy: { validFrom: 'desc' },
+        },
+      },
+    })
+
+    if (!user) {
+      return new NextResponse('User not found', { status: 404 })
+    }
+
+    // Generate PDF
+    try {
+      // A renewed LUT still covers vouchers dated within its period
+      const lut = user.luts.find((candidate) => lutCoversDate(candidate, credit.voucherDate!)) ?? null
+      const pdfBuffer = await generateReceiptVoucherPDF({ ...credit, lut }, user)
+
+      // Create a safe filename
+      const safeVoucherNumber = credit.voucherNumber.replace(/\//g, '-')
+      const downloadFilename = `${safeVoucherNumber}_Receipt_Voucher_${new Date(credit.voucherDate).toISOString().split('T')[0]}.pdf`
+
+      // Set appropriate headers for download
+      const headers = new Headers()
+      headers.set('Content-Type', 'application/pdf')
+      headers.set('Content-Disposition', `attachment; filename="${downloadFilename}"`)
+      headers.set('Content-Length', pdfBuffer.length.toString())
+
+      // Convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(pdfBuffer), { headers })
+    } catch (error) {
+      console.error('Error generating receipt voucher PDF:', error)
+      return new NextResponse('Failed to generate PDF', { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error downloading receipt voucher PDF:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { generateAgedReceivablesPDF } from '@/lib/pdf-generator'
+import { createCallerFactory } from '@/server/api/trpc'
+import { receivablesRouter } from '@/server/api/routers/receivables'
+
+const createReceivablesCaller = createCallerFactory(receivablesRouter)
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return new NextResponse('Unauthorized', { status: 401 })
+    }
+
+    const basis = request.nextUrl.searchParams.get('basis') === 'INVOICE_DATE' ? 'INVOICE_DATE' : 'DUE_DATE'
+    const caller = createReceivablesCaller({ session, prisma, req: request })
+    const report = await caller.getAgedReceivables({ basis })
+
+    // Get user data
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+
+    if (!user) {
+      return new NextResponse('User not found', { status: 404 })
+    }
+
+    // Generate PDF
+    try {
+      const pdfBuffer = await generateAgedReceivablesPDF(report, user)
+      const downloadFilename = `Aged_Receivables_${report.asOf.toISOString().split('T')[0]}.pdf`
+
+      // Set appropriate headers for download
+      const headers = new Headers()
+      headers.set('Content-Type', 'application/pdf')
+      headers.set('Content-Disposition', `attachment; filename="${downloadFilename}"`)
+      headers.set('Content-Length', pdfBuffer.length.toString())
+
+      // Convert Buffer to Uint8Array for NextResponse
+      return new NextResponse(new Uint8Array(pdfBuffer), { headers })
+    } catch (error) {
+      console.error('Error generating aged receivables PDF:', error)
+      return new NextResponse('Failed to generate PDF', { status: 500 })
+    }
+  } catch (error) {
+    console.error('Error downloading aged receivables PDF:', error)
+    return new NextResponse('Internal server error', { status: 500 })
+  }
+}
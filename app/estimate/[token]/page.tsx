@@ -0,0 +1,453 @@
+'use client'
+
+import { useEffect, useState, use } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+  Alert,
+  Button,
+  Chip,
+  Divider,
+  CircularProgress,
+  Container,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  useTheme
+} from '@mui/material'
+import Grid from '@mui/material/Grid'
+import {
+  Download as DownloadIcon,
+  Print as PrintIcon,
+  CheckCircle as AcceptIcon,
+  Cancel as DeclineIcon,
+} from '@mui/icons-material'
+import { format } from 'date-fns'
+
+interface PublicEstimatePageProps {
+  params: Promise<{ token: string }>
+}
+
+type EstimateStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'CONVERTED'
+
+const statusLabels: Record<EstimateStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' }> = {
+  DRAFT: { label: 'Awaiting Response', color: 'info' },
+  SENT: { label: 'Awaiting Response', color: 'info' },
+  ACCEPTED: { label: 'Accepted', color: 'success' },
+  DECLINED: { label: 'Declined', color: 'error' },
+  CONVERTED: { label: 'Accepted', color: 'success' },
+}
+
+export default function PublicEstimatePage({ params }: PublicEstimatePageProps) {
+  const { token } = use(params)
+  const [estimate, setEstimate] = useState<{
+    id: string
+    estimateNumber: string
+    estimateDate: string
+    validUntil: string
+    isExpired: boolean
+    status: EstimateStatus
+    currency: string
+    subtotal: string
+    totalAmount: string
+    notes: string | null
+    terms: string | null
+    respondedAt: string | null
+    declineReason: string | null
+    client: {
+      name: string
+      email: string
+      company: string | null
+      address: string
+      country: string
+      taxId: string | null
+    }
+    lineItems: Array<{
+      id: string
+      description: string
+      quantity: string
+      rate: string
+      amount: string
+      serviceCode: string
+    }>
+    supplier: {
+      name: string | null
+      email: string
+      gstin: string | null
+      pan: string | null
+      address: string | null
+    }
+  } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [responding, setResponding] = useState(false)
+  const [responseError, setResponseError] = useState<string | null>(null)
+  const [declineDialogOpen, setDeclineDialogOpen] = useState(false)
+  const [declineReason, setDeclineReason] = useState('')
+  const theme = useTheme()
+
+  useEffect(() => {
+    const fetchEstimate = async () => {
+      try {
+        const response = await fetch(`/api/estimates/public/${token}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load estimate')
+          return
+        }
+
+        setEstimate(data.estimate)
+      } catch {
+        setError('Failed to load estimate')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEstimate()
+  }, [token])
+
+  const handleDownload = () => {
+    window.location.href = `/api/estimates/public/${token}/download`
+  }
+
+  const handlePrint = () => {
+    window.print()
+  }
+
+  const handleRespond = async (action: 'accept' | 'decline') => {
+    setResponding(true)
+    setResponseError(null)
+    try {
+      const response = await fetch(`/api/estimates/public/${token}/respond`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          reason: action === 'decline' && declineReason.trim() ? declineReason.trim() : undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setResponseError(data.error || 'Failed to record your response')
+        return
+      }
+
+      setEstimate((current) => current && {
+        ...current,
+        status: data.status,
+        respondedAt: new Date().toISOString(),
+        declineReason: action === 'decline' ? declineReason.trim() || null : null,
+      })
+      setDeclineDialogOpen(false)
+    } catch {
+      setResponseError('Failed to record your response')
+    } finally {
+      setResponding(false)
+    }
+  }
+
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: currency,
+    }).format(amount)
+  }
+
+  if (loading) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="60vh">
+          <CircularProgress />
+        </Box>
+      </Container>
+    )
+  }
+
+  if (error) {
+    return (
+      <Container maxWidth="lg" sx={{ py: 4 }}>
+        <Alert severity="error" sx={{ mt: 4 }}>
+          <Typography variant="h6" gutterBottom>Error</Typography>
+          <Typography>{error}</Typography>
+        </Alert>
+      </Container>
+    )
+  }
+
+  if (!estimate) {
+    return null
+  }
+
+  const awaitingResponse = estimate.status === 'DRAFT' || estimate.status === 'SENT'
+  const canRespond = estimate.status === 'SENT' && !estimate.isExpired
+  const statusInfo = awaitingResponse && estimate.isExpired
+    ? { label: 'Expired', color: 'default' as const }
+    : statusLabels[estimate.status]
+
+  return (
+    <Container maxWidth="lg" sx={{ py: 4 }}>
+      {/* Header with actions */}
+      <Box mb={4} display="flex" justifyContent="space-between" alignItems="center" className="no-print">
+        <Typography variant="h4" component="h1">
+          Estimate #{estimate.estimateNumber}
+        </Typography>
+        <Box display="flex" gap={2}>
+          <Button
+            variant="outlined"
+            startIcon={<PrintIcon />}
+            onClick={handlePrint}
+          >
+            Print
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<DownloadIcon />}
+            onClick={handleDownload}
+          >
+            Download PDF
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Accept / Decline */}
+      <Box mb={4} className="no-print">
+        {responseError && (
+          <Alert severity="error" sx={{ mb: 2 }}>{responseError}</Alert>
+        )}
+        {canRespond && (
+          <Paper variant="outlined" sx={{ p: 3, display: 'flex', flexWrap: 'wrap', gap: 2, alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant="body1">
+              This estimate is valid until {format(new Date(estimate.validUntil), 'dd MMM yyyy')}.
+            </Typography>
+            <Box display="flex" gap={2}>
+              <Button
+                variant="outlined"
+                color="error"
+                startIcon={<DeclineIcon />}
+                onClick={() => setDeclineDialogOpen(true)}
+                disabled={responding}
+              >
+                Decline
+              </Button>
+              <Button
+                variant="contained"
+                color="success"
+                startIcon={<AcceptIcon />}
+                onClick={() => handleRespond('accept')}
+                disabled={responding}
+              >
+                Accept Estimate
+              </Button>
+            </Box>
+          </Paper>
+        )}
+        {awaitingResponse && estimate.isExpired && (
+          <Alert severity="warning">
+            This estimate expired on {format(new Date(estimate.validUntil), 'dd MMM yyyy')}. Please contact the sender for a revised estimate.
+          </Alert>
+        )}
+        {!awaitingResponse && (
+          <Alert severity={estimate.status === 'DECLINED' ? 'info' : 'success'}>
+            {estimate.status === 'DECLINED' ? 'You declined this estimate' : 'You accepted this estimate'}
+            {estimate.respondedAt && ` on ${format(new Date(estimate.respondedAt), 'dd MMM yyyy')}`}.
+            {estimate.declineReason && ` Reason: ${estimate.declineReason}`}
+          </Alert>
+        )}
+      </Box>
+
+      <Card>
+        <CardContent sx={{ p: 4 }}>
+          {/* Estimate Header */}
+          <Grid container spacing={4} sx={{ mb: 4 }}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <Typography variant="h6" gutterBottom color="primary">From</Typography>
+              <Typography variant="h6" fontWeight={600}>
+                {estimate.supplier.name}
+              </Typography>
+              {estimate.supplier.gstin && (
+                <Typography variant="body2" color="text.secondary">
+                  GSTIN: {estimate.supplier.gstin}
+                </Typography>
+              )}
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-line', mt: 1 }}>
+                {estimate.supplier.address}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {estimate.supplier.email}
+              </Typography>
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <Box textAlign={{ xs: 'left', md: 'right' }}>
+                <Typography variant="h3" gutterBottom sx={{ color: theme.palette.primary.main }}>
+                  ESTIMATE
+                </Typography>
+                <Typography variant="h6" gutterBottom>
+                  {estimate.estimateNumber}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Date: {format(new Date(estimate.estimateDate), 'dd MMM yyyy')}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Valid Until: {format(new Date(estimate.validUntil), 'dd MMM yyyy')}
+                </Typography>
+                <Box mt={2}>
+                  <Chip label={statusInfo.label} color={statusInfo.color} size="small" />
+                </Box>
+              </Box>
+            </Grid>
+          </Grid>
+
+          <Divider sx={{ my: 3 }} />
+
+          {/* Prepared For */}
+          <Box sx={{ mb: 4 }}>
+            <Typography variant="h6" gutterBottom color="primary">Prepared For</Typography>
+            <Typography variant="h6" fontWeight={600}>
+              {estimate.client.name}
+            </Typography>
+            {estimate.client.company && (
+              <Typography variant="body2">{estimate.client.company}</Typography>
+            )}
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-line', mt: 1 }}>
+              {estimate.client.address}
+            </Typography>
+            <Typography variant="body2">{estimate.client.country}</Typography>
+          </Box>
+
+          {/* Line Items */}
+          <TableContainer sx={{ mb: 4 }}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Description</TableCell>
+                  <TableCell>SAC</TableCell>
+                  <TableCell align="right">Qty</TableCell>
+                  <TableCell align="right">Rate</TableCell>
+                  <TableCell align="right">Amount ({estimate.currency})</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {estimate.lineItems.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell>{item.serviceCode}</TableCell>
+                    <TableCell align="right">{Number(item.quantity)}</TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(Number(item.rate), estimate.currency)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(Number(item.amount), estimate.currency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {/* Totals */}
+          <Box display="flex" justifyContent="flex-end">
+            <Box width={{ xs: '100%', sm: 400 }}>
+              <Paper variant="outlined" sx={{ p: 3 }}>
+                <Grid container spacing={2}>
+                  <Grid size={6}>
+                    <Typography variant="body2" color="text.secondary">Subtotal:</Typography>
+                  </Grid>
+                  <Grid size={6} sx={{ textAlign: "right" }}>
+                    <Typography variant="body2">
+                      {formatCurrency(Number(estimate.subtotal), estimate.currency)}
+                    </Typography>
+                  </Grid>
+                  <Grid size={12}>
+                    <Divider sx={{ my: 1 }} />
+                  </Grid>
+                  <Grid size={6}>
+                    <Typography variant="h6">Estimated Total:</Typography>
+                  </Grid>
+                  <Grid size={6} sx={{ textAlign: "right" }}>
+                    <Typography variant="h6">
+                      {formatCurrency(Number(estimate.totalAmount), estimate.currency)}
+                    </Typography>
+                  </Grid>
+                </Grid>
+              </Paper>
+            </Box>
+          </Box>
+
+          {/* Notes */}
+          {estimate.notes && (
+            <Box mt={4}>
+              <Typography variant="h6" gutterBottom>Notes</Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                {estimate.notes}
+              </Typography>
+            </Box>
+          )}
+
+          {/* Terms */}
+          {estimate.terms && (
+            <Box mt={4}>
+              <Typography variant="h6" gutterBottom>Terms</Typography>
+              <Typography variant="body2" sx={{ whiteSpace: 'pre-line' }}>
+                {estimate.terms}
+              </Typography>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Decline Dialog */}
+      <Dialog open={declineDialogOpen} onClose={() => setDeclineDialogOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Decline Estimate</DialogTitle>
+        <DialogContent>
+          <TextField
+            fullWidth
+            multiline
+            rows={3}
+            label="Reason (optional)"
+            value={declineReason}
+            onChange={(e) => setDeclineReason(e.target.value)}
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeclineDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={() => handleRespond('decline')}
+            disabled={responding}
+          >
+            Decline Estimate
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Print Styles */}
+      <style jsx global>{`
+        @media print {
+          .no-print {
+            display: none !important;
+          }
+          body {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+          }
+        }
+      `}</style>
+    </Container>
+  )
+}
@@ -1,11 +1,19 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
-import type { Client, LUT } from '@prisma/client'
-import { formatCurrency, validateHSNCode, calculateLineAmount, calculateSubtotal, calculateTotal, getPaymentTermOptions, getSupportedCurrencies } from '@/lib/invoice-utils'
+import type { Client, DiscountType, LUT } from '@prisma/client'
+import { formatCurrency, validateHSNCode, calculateLineAmount, calculateLineDiscount, calculateTotal, getPaymentTermOptions, getSupportedCurrencies } from '@/lib/invoice-utils'
 import { SAC_HSN_CODES, GST_CONSTANTS } from '@/lib/constants'
 import { validateGSTInvoice, getLUTExpiryStatus } from '@/lib/validations/gst'
 import { generateUUID } from '@/lib/utils/uuid'
+import {
+  getClientStateCode,
+  isIndianCountry,
+  DOMESTIC_GST_RATES,
+  DEFAULT_DOMESTIC_GST_RATE,
+} from '@/lib/domestic-gst-calculator'
+import { calculateExportGST, EXPORT_WITH_PAYMENT_IGST_RATE } from '@/lib/export-gst-calculator'
+import { calculateLineItemTaxes, hasMixedGstRates } from '@/lib/line-item-tax'
 import { 
   getInputClassName, 
   selectClassName, 
@@ -24,15 +32,20 @@ interface LineItem {
   quantity: number
   rate: number
   amount: number
+  discountType?: DiscountType | ''
+  discountValue?: number
+  gstRate?: number // Domestic only; falls back to the invoice GST rate
 }
 
 interface InvoiceFormData {
   clientId: string
   lutId: string
+  exportWithPayment: boolean
   issueDate: string
   dueDate: string
   currency: string
   paymentTerms: number
+  gstRate: number
   lineItems: LineItem[]
   bankDetails: string
   notes: string
@@ -41,15 +54,21 @@ interface InvoiceFormData {
 interface InvoiceFormSubmitData {
   clientId: string
   lutId: string
+  exportWithPayment: boolean
   issueDate: string
   dueDate: string
   currency: string
   paymentTerms: number
+  invoiceType: 'EXPORT' | 'DOMESTIC'
+  gstRate: number
   lineItems: Array<{
     description: string
     sacCode: string
     quantity: number
     rate: number
+    discountType?: DiscountType
+    discountValue?: number
+    gstRate?: number
   }>
   bankDetails: string
   notes: string
@@ -62,6 +81,7 @@ interface InvoiceFormProps {
   onCancel: () => void
   onCurrencyChange?: (currency: string) => void
   onIssueDateChange?: (date: string) => void
+  onClientChange?: (clientId: string) => void
   exchangeRate?: {
     rate: number
     source: string
@@ -69,6 +89,7 @@ interface InvoiceFormProps {
   } | null
   manualExchangeRate?: number | null
   onManualExchangeRateChange?: (rate: number | null) => void
+  supplierStateCode?: string | null // From the user's GSTIN, used to preview CGST/SGST vs IGST
   initialData?: Partial<InvoiceFormData>
   invoiceStatus?: string // Add status to determine button text
   autoSave?: boolean
@@ -90,9 +111,11 @@ export function InvoiceForm({
   onCancel, 
   onCurrencyChange,
   onIssueDateChange,
+  onClientChange,
   exchangeRate, 
   manualExchangeRate, 
   onManualExchangeRateChange, 
+  supplierStateCode,
   initialData,
   invoiceStatus,
   autoSave = false,
@@ -107,10 +130,12 @@ export function InvoiceForm({
     return {
       clientId: initialData?.clientId || '',
       lutId: initialData?.lutId || '',
+      exportWithPayment: initialData?.exportWithPayment ?? false,
       issueDate: initialData?.issueDate || new Date().toISOString().split('T')[0],
       dueDate: initialData?.dueDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       currency: defaultCurrency,
       paymentTerms: initialData?.paymentTerms || 30,
+      gstRate: initialData?.gstRate ?? DEFAULT_DOMESTIC_GST_RATE,
       lineItems: initialData?.lineItems || [
         {
           id: generateUUID(),
@@ -143,30 +168,56 @@ export function InvoiceForm({
   const selectedLut = useMemo(() => luts.find(l => l.id === formData.lutId), [luts, formData.lutId])
   const paymentTermOptions = useMemo(() => getPaymentTermOptions(), [])
   const currencyOptions = useMemo(() => getSupportedCurrencies(), [])
+  // Indian clients are billed with a domestic tax invoice instead of an export invoice
+  const isDomestic = useMemo(() => isIndianCountry(selectedClient?.country), [selectedClient])
 
-  // Calculate totals with memoization
-  const { subtotal, gstAmount, total } = useMemo(() => {
-    const subtotal = calculateSubtotal(formData.lineItems)
-    const gstAmount = 0 // Always 0 for exports under LUT
+  const effectiveExchangeRate = manualExchangeRate || exchangeRate?.rate || 0
+
+  // Calculate totals with memoization; discounts and tax are worked out per line
+  const { lineTax, subtotal, domesticTax, exportTax, gstAmount, total } = useMemo(() => {
+    const clientStateCode = selectedClient ? getClientStateCode(selectedClient) : null
+    // Tax split needs both states; falls back to a CGST/SGST preview until they are known
+    const isInterstate = (supplierStateCode || '') !== (clientStateCode || '')
+    const lineTax = calculateLineItemTaxes(
+      formData.lineItems.map((item) => ({
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        discountType: item.discountType || null,
+        discountValue: Number(item.discountValue || 0),
+        gstRate: isDomestic ? item.gstRate : undefined,
+      })),
+      isDomestic
+        ? { gstRate: formData.gstRate, isInterstate }
+        // IGST on exports only applies when paid under the refund route instead of a LUT
+        : { gstRate: formData.exportWithPayment ? EXPORT_WITH_PAYMENT_IGST_RATE : 0, isInterstate: true, forceGstRate: true }
+    )
+    const subtotal = lineTax.subtotal
+    const domesticTax = isDomestic ? { ...lineTax, isInterstate } : null
+    const exportTax = !isDomestic && formData.exportWithPayment
+      ? calculateExportGST({ amount: subtotal, exchangeRate: effectiveExchangeRate, withPayment: true })
+      : null
+    const gstAmount = lineTax.totalTax
     const total = calculateTotal(subtotal, gstAmount)
-    return { subtotal, gstAmount, total }
-  }, [formData.lineItems])
+    return { lineTax, subtotal, domesticTax, exportTax, gstAmount, total }
+  }, [formData.lineItems, formData.gstRate, formData.exportWithPayment, isDomestic, selectedClient, supplierStateCode, effectiveExchangeRate])
+  const mixedRates = hasMixedGstRates(lineTax.lines.map((line) => line.gstRate))
 
   // GST validation with memoization
   const gstValidation = useMemo(() => {
-    if (formData.lineItems.length === 0 || (!exchangeRate && !manualExchangeRate)) {
+    if (isDomestic || formData.lineItems.length === 0 || (!exchangeRate && !manualExchangeRate)) {
       return null
     }
     return validateGSTInvoice({
       placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
       serviceCode: formData.lineItems[0].sacCode,
-      igstRate: 0,
-      lutId: formData.lutId || null,
+      igstRate: formData.exportWithPayment ? EXPORT_WITH_PAYMENT_IGST_RATE : 0,
+      lutId: formData.exportWithPayment ? null : formData.lutId || null,
+      exportWithPayment: formData.exportWithPayment,
       currency: formData.currency,
       exchangeRate: manualExchangeRate || exchangeRate?.rate || 0,
       exchangeSource: exchangeRate ? exchangeRate.source : 'Manual',
     })
-  }, [formData.lineItems, formData.lutId, formData.currency, exchangeRate, manualExchangeRate])
+  }, [isDomestic, formData.lineItems, formData.lutId, formData.exportWithPayment, formData.currency, exchangeRate, manualExchangeRate])
 
   // LUT expiry status with memoization
   const lutExpiryStatus = useMemo(() => {
@@ -208,14 +259,16 @@ export function InvoiceForm({
   // Update currency when client is selected
   useEffect(() => {
     if (formData.clientId && selectedClient?.currency) {
+      // Domestic invoices are always raised in INR
+      const clientCurrency = isIndianCountry(selectedClient.country) ? 'INR' : selectedClient.currency
       setFormData(prev => {
-        if (prev.currency !== selectedClient.currency) {
+        if (prev.currency !== clientCurrency) {
           const newData = {
             ...prev,
-            currency: selectedClient.currency,
+            currency: clientCurrency,
           }
           // Notify parent component about currency change
-          onCurrencyChange?.(selectedClient.currency)
+          onCurrencyChange?.(clientCurrency)
           triggerAutoSave(newData)
           return newData
         }
@@ -270,7 +323,7 @@ export function InvoiceForm({
     })
   }, [triggerAutoSave])
 
-  const handleLineItemChange = useCallback((id: string, field: keyof LineItem, value: string | number) => {
+  const handleLineItemChange = useCallback((id: string, field: keyof LineItem, value: string | number | undefined) => {
     setFormData(prev => {
       const updatedItems = prev.lineItems.map(item => {
         if (item.id === id) {
@@ -335,6 +388,15 @@ export function InvoiceForm({
       if (item.rate <= 0) {
         itemErrors.rate = 'Rate must be greater than 0'
       }
+
+      const discountValue = Number(item.discountValue || 0)
+      if (item.discountType && discountValue < 0) {
+        itemErrors.discountValue = 'Discount cannot be negative'
+      } else if (item.discountType === 'PERCENT' && discountValue > 100) {
+        itemErrors.discountValue = 'Discount percentage cannot exceed 100'
+      } else if (item.discountType === 'AMOUNT' && discountValue > calculateLineAmount(Number(item.quantity), Number(item.rate))) {
+        itemErrors.discountValue = 'Discount cannot exceed the line amount'
+      }
       
       if (Object.keys(itemErrors).length > 0) {
         lineItemErrors[item.id] = itemErrors
@@ -360,17 +422,26 @@ export function InvoiceForm({
     try {
       await onSubmit({
         ...formData,
+        invoiceType: isDomestic ? 'DOMESTIC' : 'EXPORT',
+        // LUT only applies to zero-rated exports
+        lutId: isDomestic || formData.exportWithPayment ? '' : formData.lutId,
+        exportWithPayment: !isDomestic && formData.exportWithPayment,
         lineItems: formData.lineItems.map((item) => ({
           description: item.description,
           sacCode: item.sacCode,
           quantity: Number(item.quantity),
           rate: Number(item.rate),
+          ...(item.discountType && {
+            discountType: item.discountType,
+            discountValue: Number(item.discountValue || 0),
+          }),
+          ...(isDomestic && item.gstRate !== undefined && { gstRate: item.gstRate }),
         })),
       })
     } finally {
       setIsSubmitting(false)
     }
-  }, [formData, onSubmit, validateForm])
+  }, [formData, isDomestic, onSubmit, validateForm])
 
   // Cleanup auto-save timeout on unmount
   useEffect(() => {
@@ -419,6 +490,7 @@ export function InvoiceForm({
                     type="button"
                     onClick={() => {
                       setFormData(prev => ({ ...prev, clientId: client.id }))
+                      onClientChange?.(client.id)
                       setShowClientDropdown(false)
                     }}
                     className={dropdownItemClassName}
@@ -438,42 +510,80 @@ export function InvoiceForm({
           )}
         </div>
 
-        <div>
-          <label htmlFor="lut" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-            LUT
-          </label>
-          <div className="relative">
-            <button
-              type="button"
-              id="lut"
-              onClick={() => setShowLutDropdown(!showLutDropdown)}
-              className={getDropdownButtonClassName(!!errors.lutId)}
-              aria-expanded={showLutDropdown}
-              aria-haspopup="listbox"
+        {isDomestic ? (
+          <div>
+            <label htmlFor="gstRate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              GST Rate <span className="text-red-500" aria-hidden="true">*</span>
+            </label>
+            <select
+              id="gstRate"
+              value={formData.gstRate}
+              onChange={(e) => setFormData(prev => ({ ...prev, gstRate: Number(e.target.value) }))}
+              className={selectClassName}
+              required
+              aria-required="true"
             >
-              {selectedLut ? selectedLut.lutNumber : 'Select a LUT'}
-            </button>
-            {showLutDropdown && (
-              <div className={dropdownContainerClassName} role="listbox">
-                {luts.map(lut => (
-                  <button
-                    key={lut.id}
-                    type="button"
-                    onClick={() => {
-                      setFormData(prev => ({ ...prev, lutId: lut.id }))
-                      setShowLutDropdown(false)
-                    }}
-                    className={dropdownItemClassName}
-                    role="option"
-                    aria-selected={formData.lutId === lut.id}
-                  >
-                    {lut.lutNumber}
-                  </button>
-                ))}
-              </div>
-            )}
+              {DOMESTIC_GST_RATES.map(rate => (
+                <option key={rate} value={rate}>
+                  {rate}%
+                </option>
+              ))}
+            </select>
           </div>
-        </div>
+        ) : (
+          <div>
+            <label htmlFor="lut" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              LUT
+            </label>
+            <div className="relative">
+              <button
+                type="button"
+                id="lut"
+                onClick={() => setShowLutDropdown(!showLutDropdown)}
+                className={getDropdownButtonClassName(!!errors.lutId)}
+                aria-expanded={showLutDropdown}
+                aria-haspopup="listbox"
+                disabled={formData.exportWithPayment}
+              >
+                {formData.exportWithPayment
+                  ? 'Not applicable (IGST paid)'
+                  : selectedLut ? selectedLut.lutNumber : 'Select a LUT'}
+              </button>
+              {showLutDropdown && (
+                <div className={dropdownContainerClassName} role="listbox">
+                  {luts.map(lut => (
+                    <button
+                      key={lut.id}
+                      type="button"
+                      onClick={() => {
+                        setFormData(prev => ({ ...prev, lutId: lut.id }))
+                        setShowLutDropdown(false)
+                      }}
+                      className={dropdownItemClassName}
+                      role="option"
+                      aria-selected={formData.lutId === lut.id}
+                    >
+                      {lut.lutNumber}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.exportWithPayment}
+                onChange={(e) => {
+                  const checked = e.target.checked
+                  setShowLutDropdown(false)
+                  setFormData(prev => ({ ...prev, exportWithPayment: checked }))
+                }}
+                className="mr-2"
+              />
+              Export with payment of IGST (refund route)
+            </label>
+          </div>
+        )}
       </div>
 
       {/* Date and Payment Terms */}
@@ -813,7 +923,7 @@ export function InvoiceForm({
                       Amount
                     </label>
                     <div className="mt-1 text-sm font-medium text-gray-900 dark:text-white">
-                      {formatCurrency(item.amount, formData.currency).replace(/[^\d,.-]/g, '')}
+                      {formatCurrency(item.amount - calculateLineDiscount(item.amount, item.discountType || null, Number(item.discountValue || 0)), formData.currency).replace(/[^\d,.-]/g, '')}
                     </div>
                   </div>
                   {formData.lineItems.length > 1 && (
@@ -828,6 +938,73 @@ export function InvoiceForm({
                   )}
                 </div>
               </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mt-4">
+                <div>
+                  <label htmlFor={`discountType-${item.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Discount
+                  </label>
+                  <select
+                    id={`discountType-${item.id}`}
+                    value={item.discountType || ''}
+                    onChange={(e) => handleLineItemChange(item.id, 'discountType', e.target.value)}
+                    className={selectClassName}
+                  >
+                    <option value="">None</option>
+                    <option value="PERCENT">Percent (%)</option>
+                    <option value="AMOUNT">Amount ({formData.currency})</option>
+                  </select>
+                </div>
+
+                {item.discountType && (
+                  <div>
+                    <label htmlFor={`discountValue-${item.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Discount {item.discountType === 'PERCENT' ? '%' : 'value'}
+                    </label>
+                    <input
+                      type="number"
+                      id={`discountValue-${item.id}`}
+                      value={item.discountValue ?? 0}
+                      onChange={(e) => handleLineItemChange(item.id, 'discountValue', e.target.value)}
+                      className={getInputClassName(!!errors.lineItems?.[item.id]?.discountValue)}
+                      min="0"
+                      step="0.01"
+                      aria-invalid={!!errors.lineItems?.[item.id]?.discountValue}
+                      aria-describedby={errors.lineItems?.[item.id]?.discountValue ? `discountValue-${item.id}-error` : undefined}
+                    />
+                    {errors.lineItems?.[item.id]?.discountValue && (
+                      <p
+                        id={`discountValue-${item.id}-error`}
+                        className="mt-1 text-sm text-red-600 dark:text-red-400"
+                        role="alert"
+                      >
+                        {errors.lineItems[item.id].discountValue}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {isDomestic && (
+                  <div>
+                    <label htmlFor={`lineGstRate-${item.id}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Line GST
+                    </label>
+                    <select
+                      id={`lineGstRate-${item.id}`}
+                      value={item.gstRate ?? ''}
+                      onChange={(e) => handleLineItemChange(item.id, 'gstRate', e.target.value === '' ? undefined : Number(e.target.value))}
+                      className={selectClassName}
+                    >
+                      <option value="">Invoice rate ({formData.gstRate}%)</option>
+                      {DOMESTIC_GST_RATES.map(rate => (
+                        <option key={rate} value={rate}>
+                          {rate}%
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -843,14 +1020,39 @@ export function InvoiceForm({
       {/* Totals */}
       <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
         <div className="space-y-2 text-sm">
+          {lineTax.discountAmount > 0 && (
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <span>Discount:</span>
+              <span>-{formatCurrency(lineTax.discountAmount, formData.currency)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span>Subtotal:</span>
             <span>{formatCurrency(subtotal, formData.currency)}</span>
           </div>
-          <div className="flex justify-between">
-            <span>IGST (0%):</span>
-            <span>{formatCurrency(gstAmount, formData.currency)}</span>
-          </div>
+          {domesticTax && !domesticTax.isInterstate ? (
+            <>
+              <div className="flex justify-between">
+                <span>CGST ({mixedRates ? 'per line' : `${domesticTax.cgstRate}%`}):</span>
+                <span>{formatCurrency(domesticTax.cgstAmount, formData.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>SGST ({mixedRates ? 'per line' : `${domesticTax.sgstRate}%`}):</span>
+                <span>{formatCurrency(domesticTax.sgstAmount, formData.currency)}</span>
+              </div>
+            </>
+          ) : (
+            <div className="flex justify-between">
+              <span>IGST ({mixedRates ? 'per line' : `${lineTax.igstRate}%`}):</span>
+              <span>{formatCurrency(gstAmount, formData.currency)}</span>
+            </div>
+          )}
+          {exportTax && formData.currency !== 'INR' && (
+            <div className="flex justify-between text-gray-600 dark:text-gray-400">
+              <span>IGST payable (INR):</span>
+              <span>{formatCurrency(exportTax.igstINR, 'INR')}</span>
+            </div>
+          )}
           <div className="flex justify-between font-medium text-lg">
             <span>Total:</span>
             <span>{formatCurrency(total, formData.currency)}</span>
@@ -858,8 +1060,20 @@ export function InvoiceForm({
         </div>
       </div>
 
+      {/* Export with payment declaration */}
+      {formData.exportWithPayment && !isDomestic && (
+        <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
+          <p className="text-sm text-blue-900 dark:text-blue-200">
+            SUPPLY MEANT FOR EXPORT ON PAYMENT OF INTEGRATED TAX
+          </p>
+          <p className="text-sm mt-2 text-blue-800 dark:text-blue-300">
+            IGST is reported in GSTR-1 Table 6A (with payment) and GSTR-3B 3.1(b). Claim the refund once the return is filed.
+          </p>
+        </div>
+      )}
+
       {/* LUT Declaration */}
-      {selectedLut && (
+      {selectedLut && !isDomestic && !formData.exportWithPayment && (
         <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
           <p className="text-sm text-blue-900 dark:text-blue-200">
             SUPPLY MEANT FOR EXPORT UNDER LUT NO {selectedLut.lutNumber} DATED{' '}
@@ -39,6 +39,8 @@ import {
   Inbox as InboxIcon,
   CompareArrows as ReconcileIcon,
   Assignment as FilingIcon,
+  EventRepeat as RecurringIcon,
+  RequestQuote as EstimateIcon,
 } from "@mui/icons-material";
 import { signOut } from "next-auth/react";
 import { useTheme as useAppTheme } from "@/components/theme-provider";
@@ -60,7 +62,9 @@ interface MUILayoutProps {
 const menuItems = [
   { text: "Dashboard", icon: <DashboardIcon />, href: "/dashboard" },
   { text: "Inbox", icon: <InboxIcon />, href: "/inbox" },
+  { text: "Estimates", icon: <EstimateIcon />, href: "/estimates" },
   { text: "Invoices", icon: <InvoiceIcon />, href: "/invoices" },
+  { text: "Recurring Invoices", icon: <RecurringIcon />, href: "/recurring-invoices" },
   { text: "Self Invoices", icon: <SelfInvoiceIcon />, href: "/self-invoices" },
   { text: "Clients", icon: <ClientsIcon />, href: "/clients" },
   { text: "Suppliers", icon: <SupplierIcon />, href: "/suppliers" },
@@ -0,0 +1,323 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Collapse,
+  Grid,
+  IconButton,
+  MenuItem,
+  Skeleton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material'
+import {
+  ArrowBack as BackIcon,
+  Download as DownloadIcon,
+  PictureAsPdf as PdfIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material'
+import { format } from 'date-fns'
+import { enqueueSnackbar } from 'notistack'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { AGEING_BUCKETS, type AgeingBasis, type AgedReceivablesGroup } from '@/lib/aged-receivables'
+
+interface GroupRowProps {
+  group: AgedReceivablesGroup
+  buckets: typeof AGEING_BUCKETS
+}
+
+function GroupRow({ group, buckets }: GroupRowProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <TableRow hover sx={{ '& > td': { borderBottom: open ? 'none' : undefined } }}>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)} aria-label="Show invoices">
+            {open ? <CollapseIcon /> : <ExpandIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2" fontWeight={500}>
+            {group.clientName}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {group.invoices.length} invoice(s)
+          </Typography>
+        </TableCell>
+        <TableCell>{group.currency}</TableCell>
+        {buckets.map((bucket) => (
+          <TableCell key={bucket.key} align="right">
+            {group.buckets[bucket.key] ? formatCurrency(group.buckets[bucket.key], group.currency) : '—'}
+          </TableCell>
+        ))}
+        <TableCell align="right">{formatCurrency(group.balanceDue, group.currency)}</TableCell>
+        <TableCell align="right">{formatCurrency(group.bookedInr, 'INR')}</TableCell>
+        <TableCell align="right">{group.currentInr !== null ? formatCurrency(group.currentInr, 'INR') : '—'}</TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={buckets.length + 6}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Table size="small" sx={{ my: 1 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Invoice</TableCell>
+                  <TableCell>Invoice Date</TableCell>
+                  <TableCell>Due Date</TableCell>
+                  <TableCell align="right">Days</TableCell>
+                  <TableCell align="right">Balance Due</TableCell>
+                  <TableCell align="right">INR (Invoice Rate)</TableCell>
+                  <TableCell align="right">INR (Current Rate)</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {group.invoices.map((invoice) => (
+                  <TableRow
+                    key={invoice.invoiceId}
+                    hover
+                    sx={{ cursor: 'pointer' }}
+                    onClick={() => router.push(`/invoices/${invoice.invoiceId}`)}
+                  >
+                    <TableCell>{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{format(new Date(invoice.invoiceDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{format(new Date(invoice.dueDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell align="right">
+                      {invoice.bucket === 'NOT_DUE' ? `Due in ${-invoice.daysOutstanding}` : invoice.daysOutstanding}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(invoice.balanceDue, invoice.currency)}</TableCell>
+                    <TableCell align="right">{formatCurrency(invoice.bookedInr, 'INR')}</TableCell>
+                    <TableCell align="right">
+                      {invoice.currentInr !== null ? formatCurrency(invoice.currentInr, 'INR') : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  )
+}
+
+export function AgedReceivables() {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [basis, setBasis] = useState<AgeingBasis>('DUE_DATE')
+
+  const { data, isLoading, error } = api.receivables.getAgedReceivables.useQuery({ basis })
+
+  // Aged from the invoice date, nothing is "not due"
+  const buckets = basis === 'DUE_DATE' ? AGEING_BUCKETS : AGEING_BUCKETS.filter((bucket) => bucket.key !== 'NOT_DUE')
+
+  const handleExportCsv = async () => {
+    try {
+      const file = await utils.receivables.exportAgedReceivablesCsv.fetch({ basis })
+      const blob = new Blob([file.content], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = file.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      enqueueSnackbar(err instanceof Error ? err.message : 'Export failed', { variant: 'error' })
+    }
+  }
+
+  return (
+    <Box>
+      <Button startIcon={<BackIcon />} onClick={() => router.push('/payments')} sx={{ mb: 2 }}>
+        Payments
+      </Button>
+
+      <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+            Aged Receivables
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Outstanding invoice balances by how long they have been open
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2}>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExportCsv}
+            disabled={!data || data.groups.length === 0}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<PdfIcon />}
+            onClick={() => window.open(`/api/receivables/aged/download?basis=${basis}`, '_blank')}
+            disabled={!data || data.groups.length === 0}
+          >
+            Export PDF
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <TextField
+          select
+          size="small"
+          label="Age from"
+          value={basis}
+          onChange={(e) => setBasis(e.target.value as AgeingBasis)}
+          sx={{ minWidth: 220 }}
+        >
+          <MenuItem value="DUE_DATE">Due date</MenuItem>
+          <MenuItem value="INVOICE_DATE">Invoice date</MenuItem>
+        </TextField>
+      </Paper>
+
+      {isLoading || !data ? (
+        <Skeleton variant="rectangular" height={400} />
+      ) : (
+        <>
+          <Grid container spacing={3} mb={3}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Outstanding (at invoice rate)
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600}>
+                    {formatCurrency(data.totals.bookedInr.total, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Outstanding (at current rate)
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600}>
+                    {formatCurrency(data.totals.currentInr.total, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Over 90 days
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color="error.main">
+                    {formatCurrency(data.totals.currentInr.DAYS_90_PLUS, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Open invoices
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600}>
+                    {data.totals.invoiceCount}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {data.missingRates.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              No current rate is available for {data.missingRates.join(', ')}. These balances are included in the
+              current-rate totals at the invoice rate.
+            </Alert>
+          )}
+
+          <Paper>
+            {data.groups.length === 0 ? (
+              <Box p={6} textAlign="center">
+                <Typography color="text.secondary">No outstanding invoices</Typography>
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell padding="checkbox" />
+                      <TableCell>Client</TableCell>
+                      <TableCell>Currency</TableCell>
+                      {buckets.map((bucket) => (
+                        <TableCell key={bucket.key} align="right">
+                          {bucket.label}
+                        </TableCell>
+                      ))}
+                      <TableCell align="right">Balance Due</TableCell>
+                      <TableCell align="right">INR (Invoice Rate)</TableCell>
+                      <TableCell align="right">INR (Current Rate)</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {data.groups.map((group) => (
+                      <GroupRow key={`${group.clientId}:${group.currency}`} group={group} buckets={buckets} />
+                    ))}
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={2}>
+                        <Typography variant="body2" fontWeight={600}>
+                          Total in INR (current rate)
+                        </Typography>
+                      </TableCell>
+                      {buckets.map((bucket) => (
+                        <TableCell key={bucket.key} align="right">
+                          <Typography variant="body2" fontWeight={600}>
+                            {formatCurrency(data.totals.currentInr[bucket.key], 'INR')}
+                          </Typography>
+                        </TableCell>
+                      ))}
+                      <TableCell />
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight={600}>
+                          {formatCurrency(data.totals.bookedInr.total, 'INR')}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Typography variant="body2" fontWeight={600}>
+                          {formatCurrency(data.totals.currentInr.total, 'INR')}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material'
+
+interface AmendmentReasonDialogProps {
+  open: boolean
+  document: string // e.g. "Invoice INV-001"
+  filedReturns: string | null // Filed returns covering the document's date
+  isDeletion?: boolean
+  isSubmitting?: boolean
+  onClose: () => void
+  onConfirm: (reason: string) => void
+}
+
+/**
+ * Ask for the reason behind a change to a document dated in a filed period.
+ * The change is then recorded in the amendments log, and invoices and notes
+ * filed in GSTR-1 are reported again in the next one (Table 9A/9C).
+ */
+export function AmendmentReasonDialog({
+  open,
+  document,
+  filedReturns,
+  isDeletion = false,
+  isSubmitting = false,
+  onClose,
+  onConfirm,
+}: AmendmentReasonDialogProps) {
+  const [reason, setReason] = useState('')
+
+  const handleClose = () => {
+    setReason('')
+    onClose()
+  }
+
+  const handleConfirm = () => {
+    onConfirm(reason.trim())
+    setReason('')
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{isDeletion ? 'Delete from a filed period' : 'Amend a filed period'}</DialogTitle>
+      <DialogContent>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {document} is dated in a filed period{filedReturns ? ` (${filedReturns})` : ''}. The change is recorded
+          as an amendment and the filed returns are marked amended.
+        </Alert>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Invoices and notes reported in GSTR-1 are reported again with their new details in the next GSTR-1.
+        </Typography>
+        <TextField
+          autoFocus
+          label="Reason for amendment"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          multiline
+          rows={3}
+          fullWidth
+          required
+          inputProps={{ maxLength: 500 }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="warning"
+          onClick={handleConfirm}
+          disabled={reason.trim().length < 3 || isSubmitting}
+        >
+          {isDeletion ? 'Delete and record amendment' : 'Save as amendment'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,276 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Skeleton,
+  Alert,
+  TextField,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Tooltip,
+} from '@mui/material'
+import { ArrowBack as BackIcon, Check as ConfirmIcon, Close as RejectIcon } from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { suggestPayment } from '@/lib/bank-statement/matching'
+
+const statusColors: Record<string, 'default' | 'primary' | 'success' | 'error'> = {
+  UNMATCHED: 'default',
+  PROPOSED: 'primary',
+  CONFIRMED: 'success',
+  REJECTED: 'error',
+}
+
+interface ConfirmState {
+  entryId: string
+  invoiceId: string
+  invoiceCurrency: string
+  amount: string
+  creditedAmount: string
+  actualExchangeRate: string
+}
+
+export function BankStatementReview({ uploadId }: { uploadId: string }) {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [selectedInvoices, setSelectedInvoices] = useState<Record<string, string>>({})
+  const [confirmState, setConfirmState] = useState<ConfirmState | null>(null)
+
+  const { data: upload, isLoading, error } = api.bankStatements.getById.useQuery({ id: uploadId })
+
+  const onSettled = () => {
+    utils.bankStatements.getById.invalidate({ id: uploadId })
+    utils.bankStatements.list.invalidate()
+  }
+
+  const confirmMutation = api.bankStatements.confirmMatch.useMutation({
+    onSuccess: () => {
+      enqueueSnackbar('Payment recorded', { variant: 'success' })
+      setConfirmState(null)
+      utils.payments.getHistory.invalidate()
+      utils.invoices.list.invalidate()
+      onSettled()
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const rejectMutation = api.bankStatements.rejectMatch.useMutation({
+    onSuccess: onSettled,
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  if (isLoading) {
+    return <Skeleton variant="rectangular" height={400} />
+  }
+
+  if (error || !upload) {
+    return <Alert severity="error">{error?.message ?? 'Bank statement not found'}</Alert>
+  }
+
+  const openInvoice = (invoiceId: string) => upload.openInvoices.find((invoice) => invoice.id === invoiceId)
+
+  const startConfirm = (entry: (typeof upload.entries)[number], invoiceId: string) => {
+    const invoice = openInvoice(invoiceId)
+    if (!invoice) return
+
+    const suggestion = suggestPayment(
+      { amount: Number(entry.amount), currency: entry.currency, description: entry.description },
+      invoice
+    )
+    setConfirmState({
+      entryId: entry.id,
+      invoiceId,
+      invoiceCurrency: invoice.currency,
+      amount: String(suggestion.amount),
+      creditedAmount: suggestion.creditedAmount?.toString() ?? '',
+      actualExchangeRate: suggestion.actualExchangeRate?.toString() ?? '',
+    })
+  }
+
+  const submitConfirm = () => {
+    if (!confirmState) return
+    confirmMutation.mutate({
+      entryId: confirmState.entryId,
+      invoiceId: confirmState.invoiceId,
+      amount: Number(confirmState.amount),
+      creditedAmount: confirmState.creditedAmount ? Number(confirmState.creditedAmount) : undefined,
+      actualExchangeRate: confirmState.actualExchangeRate ? Number(confirmState.actualExchangeRate) : undefined,
+    })
+  }
+
+  return (
+    <Box>
+      <Button startIcon={<BackIcon />} onClick={() => router.push('/payments/bank-statements')} sx={{ mb: 2 }}>
+        Bank Statements
+      </Button>
+
+      <Box mb={3}>
+        <Typography variant="h4" fontWeight={600}>
+          {upload.fileName}
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          {upload.accountNumber ? `Account ${upload.accountNumber} · ` : ''}
+          {upload.entriesCount} credit(s)
+        </Typography>
+      </Box>
+
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>Narration</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell>Invoice</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {upload.entries.map((entry) => {
+                const isOpen = entry.matchStatus === 'PROPOSED' || entry.matchStatus === 'UNMATCHED'
+                const invoiceId = selectedInvoices[entry.id] ?? entry.matchedInvoiceId ?? ''
+
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell>{format(new Date(entry.entryDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell sx={{ maxWidth: 320 }}>
+                      <Typography variant="body2">{entry.description}</Typography>
+                      {entry.reference && (
+                        <Typography variant="caption" color="text.secondary">
+                          Ref: {entry.reference}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(Number(entry.amount), entry.currency)}</TableCell>
+                    <TableCell sx={{ minWidth: 240 }}>
+                      {isOpen ? (
+                        <TextField
+                          select
+                          size="small"
+                          fullWidth
+                          label="Pays invoice"
+                          value={invoiceId}
+                          onChange={(e) => setSelectedInvoices({ ...selectedInvoices, [entry.id]: e.target.value })}
+                        >
+                          {upload.openInvoices.map((invoice) => (
+                            <MenuItem key={invoice.id} value={invoice.id}>
+                              {invoice.invoiceNumber} · {invoice.clientName} ·{' '}
+                              {formatCurrency(invoice.balanceDue, invoice.currency)} due
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      ) : entry.matchedInvoice ? (
+                        <Typography variant="body2">
+                          {entry.matchedInvoice.invoiceNumber} · {entry.matchedInvoice.client?.name}
+                        </Typography>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title={entry.matchReasons.join(', ')}>
+                        <Chip
+                          label={
+                            entry.matchStatus === 'PROPOSED'
+                              ? `Proposed (${entry.matchScore}%)`
+                              : entry.matchStatus.charAt(0) + entry.matchStatus.slice(1).toLowerCase()
+                          }
+                          size="small"
+                          color={statusColors[entry.matchStatus]}
+                          variant={entry.matchStatus === 'UNMATCHED' ? 'outlined' : 'filled'}
+                        />
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell align="right">
+                      {isOpen && (
+                        <Stack direction="row" spacing={1} justifyContent="flex-end">
+                          <Button
+                            size="small"
+                            variant="contained"
+                            startIcon={<ConfirmIcon />}
+                            disabled={!invoiceId || !openInvoice(invoiceId)}
+                            onClick={() => startConfirm(entry, invoiceId)}
+                          >
+                            Confirm
+                          </Button>
+                          <Button
+                            size="small"
+                            color="inherit"
+                            startIcon={<RejectIcon />}
+                            disabled={rejectMutation.isPending}
+                            onClick={() => rejectMutation.mutate({ entryId: entry.id })}
+                          >
+                            {entry.matchStatus === 'PROPOSED' ? 'Reject' : 'Ignore'}
+                          </Button>
+                        </Stack>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={!!confirmState} onClose={() => setConfirmState(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Record Payment</DialogTitle>
+        {confirmState && (
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label={`Amount (${confirmState.invoiceCurrency})`}
+                type="number"
+                value={confirmState.amount}
+                onChange={(e) => setConfirmState({ ...confirmState, amount: e.target.value })}
+                helperText="Amount applied to the invoice"
+              />
+              <TextField
+                label="INR Credited"
+                type="number"
+                value={confirmState.creditedAmount}
+                onChange={(e) => setConfirmState({ ...confirmState, creditedAmount: e.target.value })}
+              />
+              <TextField
+                label="Actual Exchange Rate"
+                type="number"
+                value={confirmState.actualExchangeRate}
+                onChange={(e) => setConfirmState({ ...confirmState, actualExchangeRate: e.target.value })}
+              />
+            </Stack>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setConfirmState(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={submitConfirm}
+            disabled={!confirmState || !(Number(confirmState.amount) > 0) || confirmMutation.isPending}
+          >
+            Record Payment
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
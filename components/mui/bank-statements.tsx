@@ -0,0 +1,230 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Stack,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Tooltip,
+  Skeleton,
+} from '@mui/material'
+import {
+  CloudUpload as UploadIcon,
+  Delete as DeleteIcon,
+  Visibility as ViewIcon,
+} from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+
+const formatLabels: Record<string, string> = {
+  CSV: 'CSV',
+  OFX: 'OFX',
+  MT940: 'MT940',
+  CAMT053: 'CAMT.053',
+}
+
+async function readAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function BankStatements() {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: uploads, isLoading } = api.bankStatements.list.useQuery()
+
+  const uploadMutation = api.bankStatements.upload.useMutation({
+    onSuccess: (data) => {
+      utils.bankStatements.list.invalidate()
+      const skipped = data.duplicatesSkipped > 0 ? `, ${data.duplicatesSkipped} already imported` : ''
+      enqueueSnackbar(`Read ${data.entriesCount} credit(s), ${data.proposedCount} matched${skipped}`, {
+        variant: 'success',
+      })
+      router.push(`/payments/bank-statements/${data.id}`)
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const deleteMutation = api.bankStatements.delete.useMutation({
+    onSuccess: () => {
+      utils.bankStatements.list.invalidate()
+      enqueueSnackbar('Bank statement deleted', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!selectedFile) return
+
+    setError(null)
+    if (selectedFile.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB')
+      return
+    }
+
+    uploadMutation.mutate({ fileName: selectedFile.name, content: await readAsBase64(selectedFile) })
+  }
+
+  return (
+    <Box>
+      <Box mb={3}>
+        <Typography variant="h4" fontWeight={600}>
+          Bank Statements
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Import a statement to find the invoices your bank credits pay
+        </Typography>
+      </Box>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Supported formats are CSV exports, OFX/QFX, MT940 and CAMT.053. Only credits are read, and credits already
+          imported from an earlier statement are skipped. You review every proposed match before a payment is
+          recorded.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box
+          component="label"
+          sx={{
+            display: 'block',
+            border: '2px dashed',
+            borderColor: 'divider',
+            borderRadius: 2,
+            p: 4,
+            textAlign: 'center',
+            cursor: 'pointer',
+            '&:hover': { borderColor: 'primary.main', bgcolor: 'action.hover' },
+          }}
+        >
+          <input
+            type="file"
+            accept=".csv,.txt,.ofx,.qfx,.sta,.mt940,.940,.xml"
+            hidden
+            onChange={handleFileChange}
+            disabled={uploadMutation.isPending}
+          />
+          <Stack spacing={1} alignItems="center">
+            <UploadIcon sx={{ fontSize: 48, color: 'text.secondary' }} />
+            <Typography variant="subtitle1">Choose a bank statement</Typography>
+          </Stack>
+        </Box>
+
+        {uploadMutation.isPending && <LinearProgress sx={{ mt: 2 }} />}
+      </Paper>
+
+      <Paper>
+        <Box p={2}>
+          <Typography variant="h6">Imported statements</Typography>
+        </Box>
+        {isLoading ? (
+          <Box p={2}>
+            <Skeleton variant="rectangular" height={120} />
+          </Box>
+        ) : !uploads || uploads.length === 0 ? (
+          <Box p={2}>
+            <Typography variant="body2" color="text.secondary">
+              No bank statements imported yet
+            </Typography>
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>File</TableCell>
+                  <TableCell>Format</TableCell>
+                  <TableCell>Period</TableCell>
+                  <TableCell align="right">Credits</TableCell>
+                  <TableCell>To Review</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {uploads.map((upload) => {
+                  const counts = upload.statusCounts as Partial<Record<string, number>>
+                  return (
+                    <TableRow key={upload.id} hover>
+                      <TableCell>{upload.fileName}</TableCell>
+                      <TableCell>{formatLabels[upload.format] ?? upload.format}</TableCell>
+                      <TableCell>
+                        {upload.periodStart && upload.periodEnd
+                          ? `${format(new Date(upload.periodStart), 'dd MMM yyyy')} – ${format(
+                              new Date(upload.periodEnd),
+                              'dd MMM yyyy'
+                            )}`
+                          : '—'}
+                      </TableCell>
+                      <TableCell align="right">{upload.entriesCount}</TableCell>
+                      <TableCell>
+                        <Stack direction="row" spacing={1}>
+                          {(counts.PROPOSED ?? 0) > 0 && (
+                            <Chip label={`${counts.PROPOSED} proposed`} size="small" color="primary" />
+                          )}
+                          {(counts.UNMATCHED ?? 0) > 0 && (
+                            <Chip label={`${counts.UNMATCHED} unmatched`} size="small" variant="outlined" />
+                          )}
+                          {!counts.PROPOSED && !counts.UNMATCHED && (
+                            <Chip label="Done" size="small" color="success" />
+                          )}
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Review">
+                          <IconButton
+                            size="small"
+                            onClick={() => router.push(`/payments/bank-statements/${upload.id}`)}
+                          >
+                            <ViewIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            onClick={() => {
+                              if (confirm('Delete this statement? Payments already recorded from it are kept.')) {
+                                deleteMutation.mutate({ id: upload.id })
+                              }
+                            }}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+    </Box>
+  )
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  Grid,
+  IconButton,
+  Skeleton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  useTheme,
+} from '@mui/material'
+import {
+  ArrowBack as BackIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material'
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import type { CashFlowCategory, CashFlowWeek } from '@/lib/cash-flow-forecast'
+
+const categoryLabels: Record<CashFlowCategory, string> = {
+  INVOICE: 'Open invoices',
+  RETAINER: 'Retainers',
+  GST: 'GST',
+  RCM: 'Reverse charge',
+  PAYMENT_VOUCHER: 'Supplier payments',
+}
+
+const compactInr = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  notation: 'compact',
+  maximumFractionDigits: 1,
+})
+
+function WeekRow({ week }: { week: CashFlowWeek }) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <TableRow hover sx={{ '& > td': { borderBottom: open ? 'none' : undefined } }}>
+        <TableCell padding="checkbox">
+          {week.items.length > 0 && (
+            <IconButton size="small" onClick={() => setOpen(!open)} aria-label="Show items">
+              {open ? <CollapseIcon /> : <ExpandIcon />}
+            </IconButton>
+          )}
+        </TableCell>
+        <TableCell>
+          {format(new Date(week.weekStart), 'dd MMM')} – {format(new Date(week.weekEnd), 'dd MMM yyyy')}
+        </TableCell>
+        <TableCell align="right">{week.inflows ? formatCurrency(week.inflows, 'INR') : '—'}</TableCell>
+        <TableCell align="right">{week.outflows ? formatCurrency(week.outflows, 'INR') : '—'}</TableCell>
+        <TableCell align="right">
+          <Typography variant="body2" color={week.net < 0 ? 'error.main' : 'text.primary'}>
+            {formatCurrency(week.net, 'INR')}
+          </Typography>
+        </TableCell>
+        <TableCell align="right">
+          <Typography variant="body2" fontWeight={500} color={week.cumulative < 0 ? 'error.main' : 'text.primary'}>
+            {formatCurrency(week.cumulative, 'INR')}
+          </Typography>
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={6}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Table size="small" sx={{ my: 1 }}>
+              <TableBody>
+                {week.items.map((item, index) => (
+                  <TableRow
+                    key={index}
+                    hover={!!item.invoiceId}
+                    sx={{ cursor: item.invoiceId ? 'pointer' : 'default' }}
+                    onClick={() => item.invoiceId && router.push(`/invoices/${item.invoiceId}`)}
+                  >
+                    <TableCell>{format(new Date(item.date), 'dd MMM')}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={categoryLabels[item.category]}
+                        size="small"
+                        color={item.direction === 'IN' ? 'success' : 'error'}
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell align="right">
+                      {item.currency !== 'INR' ? formatCurrency(item.amount, item.currency) : ''}
+                    </TableCell>
+                    <TableCell align="right">
+                      {item.direction === 'OUT' ? '−' : ''}
+                      {formatCurrency(item.amountInr, 'INR')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  )
+}
+
+export function CashFlowForecast() {
+  const router = useRouter()
+  const theme = useTheme()
+  const [fxRates, setFxRates] = useState<Record<string, number>>({})
+  const [rateInputs, setRateInputs] = useState<Record<string, string>>({})
+
+  const { data, isLoading, error } = api.cashFlow.getForecast.useQuery({ fxRates })
+
+  const handleApplyRates = () => {
+    const assumed: Record<string, number> = {}
+    for (const [currency, value] of Object.entries(rateInputs)) {
+      const rate = Number(value)
+      if (value && rate > 0) assumed[currency] = rate
+    }
+    setFxRates(assumed)
+  }
+
+  const chartData = data?.weeks.map((week) => ({
+    label: format(new Date(week.weekStart), 'dd MMM'),
+    inflows: week.inflows,
+    outflows: -week.outflows,
+    cumulative: week.cumulative,
+  }))
+
+  return (
+    <Box>
+      <Button startIcon={<BackIcon />} onClick={() => router.push('/payments')} sx={{ mb: 2 }}>
+        Payments
+      </Button>
+
+      <Box mb={4}>
+        <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+          Cash-Flow Forecast
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Expected receipts and payments for the next 90 days, week by week
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      {isLoading || !data ? (
+        <Skeleton variant="rectangular" height={400} />
+      ) : (
+        <>
+          <Grid container spacing={3} mb={3}>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Expected inflows
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color="success.main">
+                    {formatCurrency(data.totals.inflows, 'INR')}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Invoices {formatCurrency(data.totals.byCategory.INVOICE, 'INR')} · Retainers{' '}
+                    {formatCurrency(data.totals.byCategory.RETAINER, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Expected outflows
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color="error.main">
+                    {formatCurrency(data.totals.outflows, 'INR')}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    GST {formatCurrency(data.totals.byCategory.GST, 'INR')} · RCM{' '}
+                    {formatCurrency(data.totals.byCategory.RCM, 'INR')} · Suppliers{' '}
+                    {formatCurrency(data.totals.byCategory.PAYMENT_VOUCHER, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Net over 90 days
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color={data.totals.net < 0 ? 'error.main' : 'text.primary'}>
+                    {formatCurrency(data.totals.net, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {data.rates.length > 0 && (
+            <Paper sx={{ p: 2, mb: 3 }}>
+              <Typography variant="subtitle1" fontWeight={600} gutterBottom>
+                Exchange rate assumption
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Foreign currency receipts are valued at the current rate. Enter a rate to see the forecast at a
+                different one.
+              </Typography>
+              <Box display="flex" gap={2} flexWrap="wrap" alignItems="flex-start">
+                {data.rates.map((rate) => (
+                  <TextField
+                    key={rate.currency}
+                    size="small"
+                    type="number"
+                    label={`INR per ${rate.currency}`}
+                    placeholder={rate.rate && rate.source === 'CURRENT' ? rate.rate.toFixed(2) : undefined}
+                    value={rateInputs[rate.currency] ?? ''}
+                    onChange={(e) => setRateInputs({ ...rateInputs, [rate.currency]: e.target.value })}
+                    helperText={
+                      rate.source === 'ASSUMED'
+                        ? 'Assumed'
+                        : rate.rate
+                          ? `Current ${rate.rate.toFixed(2)}`
+                          : 'No current rate'
+                    }
+                    error={rate.rate === null}
+                    sx={{ width: 160 }}
+                  />
+                ))}
+                <Button variant="outlined" onClick={handleApplyRates}>
+                  Apply
+                </Button>
+                {Object.keys(fxRates).length > 0 && (
+                  <Button
+                    onClick={() => {
+                      setRateInputs({})
+                      setFxRates({})
+                    }}
+                  >
+                    Use current rates
+                  </Button>
+                )}
+              </Box>
+              {data.rates.some((rate) => rate.rate === null) && (
+                <Alert severity="warning" sx={{ mt: 2 }}>
+                  Without a rate, open invoices are valued at their invoice rate and retainers are left out.
+                </Alert>
+              )}
+            </Paper>
+          )}
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Box sx={{ height: 300 }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke={theme.palette.divider} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(value: number) => compactInr.format(value)} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value) => formatCurrency(Math.abs(Number(value)), 'INR')} />
+                  <Legend />
+                  <Bar dataKey="inflows" name="Inflows" fill={theme.palette.success.main} stackId="flow" />
+                  <Bar dataKey="outflows" name="Outflows" fill={theme.palette.error.main} stackId="flow" />
+                  <Line
+                    type="monotone"
+                    dataKey="cumulative"
+                    name="Cumulative net"
+                    stroke={theme.palette.primary.main}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </Box>
+          </Paper>
+
+          <Paper>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Week</TableCell>
+                    <TableCell align="right">Inflows</TableCell>
+                    <TableCell align="right">Outflows</TableCell>
+                    <TableCell align="right">Net</TableCell>
+                    <TableCell align="right">Cumulative</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {data.weeks.map((week) => (
+                    <WeekRow key={new Date(week.weekStart).toISOString()} week={week} />
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 2 }}>
+            Receipts are expected on each client&apos;s average days-to-pay over the last year, or on the due date
+            for clients without payment history; late invoices are expected this week. GST for returns not yet
+            generated is estimated from output tax before input tax credit.
+          </Typography>
+        </>
+      )}
+    </Box>
+  )
+}
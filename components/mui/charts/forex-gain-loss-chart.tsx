@@ -0,0 +1,168 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Skeleton,
+  useTheme,
+  Chip,
+} from '@mui/material'
+import { ResponsiveContainer, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts'
+
+interface ForexGainLossChartProps {
+  data: Array<{
+    key: string
+    label: string
+    exchangeGainLoss: number
+    platformFeesInr: number
+    bankChargesInr: number
+    netGainLoss: number
+    paymentCount: number
+  }>
+  totals?: {
+    exchangeGainLoss: number
+    netGainLoss: number
+  }
+  loading?: boolean
+}
+
+const currencyFormatter = new Intl.NumberFormat('en-IN', {
+  style: 'currency',
+  currency: 'INR',
+  minimumFractionDigits: 0,
+  maximumFractionDigits: 0,
+})
+
+interface TooltipProps {
+  active?: boolean
+  payload?: Array<{
+    payload: ForexGainLossChartProps['data'][number]
+  }>
+}
+
+const CustomTooltip = React.memo(({ active, payload }: TooltipProps) => {
+  const theme = useTheme()
+
+  if (active && payload && payload.length && payload[0]) {
+    const month = payload[0].payload
+
+    return (
+      <Box
+        sx={{
+          backgroundColor: theme.palette.background.paper,
+          p: 2,
+          borderRadius: 1,
+          border: 1,
+          borderColor: 'divider',
+          boxShadow: theme.shadows[4],
+        }}
+        role="tooltip"
+      >
+        <Typography variant="body2" fontWeight={600} gutterBottom>
+          {month.label}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Exchange gain/loss: {currencyFormatter.format(month.exchangeGainLoss)}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Fees &amp; charges: {currencyFormatter.format(month.platformFeesInr + month.bankChargesInr)}
+        </Typography>
+        <Typography variant="body2" fontWeight={500}>
+          Net: {currencyFormatter.format(month.netGainLoss)}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Payments: {month.paymentCount}
+        </Typography>
+      </Box>
+    )
+  }
+  return null
+})
+
+CustomTooltip.displayName = 'CustomTooltip'
+
+export function MUIForexGainLossChart({ data, totals, loading = false }: ForexGainLossChartProps) {
+  const theme = useTheme()
+
+  const chartData = useMemo(() => [...data].sort((a, b) => a.key.localeCompare(b.key)), [data])
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent>
+          <Skeleton variant="text" width={200} height={32} sx={{ mb: 2 }} />
+          <Skeleton variant="rectangular" height={300} />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (chartData.length === 0) {
+    return (
+      <Card>
+        <CardContent>
+          <Box sx={{ textAlign: 'center', py: 8 }}>
+            <Typography variant="h6" gutterBottom>
+              No Forex Gain/Loss Yet
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Record payments on foreign currency invoices to see realised gain/loss
+            </Typography>
+          </Box>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const net = totals?.netGainLoss ?? 0
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6" fontWeight={600}>
+            Forex Gain/Loss (This FY)
+          </Typography>
+          <Chip
+            label={`Net ${currencyFormatter.format(net)}`}
+            color={net >= 0 ? 'success' : 'error'}
+            size="small"
+            variant="outlined"
+          />
+        </Box>
+        <Box sx={{ width: '100%', height: 300, mt: 2 }} role="img" aria-label="Forex gain and loss by month">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke={theme.palette.divider} strokeOpacity={0.3} />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: theme.palette.text.secondary, fontSize: 12 }}
+                axisLine={{ stroke: theme.palette.divider, opacity: 0.3 }}
+                tickLine={{ stroke: theme.palette.divider, opacity: 0.3 }}
+              />
+              <YAxis
+                tick={{ fill: theme.palette.text.secondary, fontSize: 12 }}
+                axisLine={{ stroke: theme.palette.divider, opacity: 0.3 }}
+                tickLine={{ stroke: theme.palette.divider, opacity: 0.3 }}
+                tickFormatter={(value) => `₹${(value / 1000).toFixed(1)}k`}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <ReferenceLine y={0} stroke={theme.palette.divider} />
+              <Bar dataKey="netGainLoss" radius={[4, 4, 0, 0]}>
+                {chartData.map((month) => (
+                  <Cell
+                    key={month.key}
+                    fill={month.netGainLoss >= 0 ? theme.palette.success.main : theme.palette.error.main}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </Box>
+      </CardContent>
+    </Card>
+  )
+}
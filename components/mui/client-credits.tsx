@@ -0,0 +1,484 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Grid,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Tooltip,
+  Switch,
+  FormControlLabel,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  PlaylistAddCheck as ApplyIcon,
+  Receipt as VoucherIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import type { Client } from '@prisma/client'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
+import type { PaymentMethod } from './enhanced-payment-modal'
+
+const paymentMethodLabels: Record<PaymentMethod, string> = {
+  BANK_TRANSFER: 'Bank Transfer',
+  CREDIT_CARD: 'Credit Card',
+  DEBIT_CARD: 'Debit Card',
+  UPI: 'UPI',
+  PAYPAL: 'PayPal',
+  PAYONEER: 'Payoneer',
+  WISE: 'Wise',
+  OTHER: 'Other',
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) ? amount : undefined
+}
+
+interface ClientCreditsProps {
+  client: Client
+}
+
+export function ClientCredits({ client }: ClientCreditsProps) {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const isExportClient = !isIndianCountry(client.country)
+
+  const [advanceOpen, setAdvanceOpen] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [currency, setCurrency] = useState(client.currency)
+  const [receivedDate, setReceivedDate] = useState<Date | null>(new Date())
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('BANK_TRANSFER')
+  const [reference, setReference] = useState('')
+  const [description, setDescription] = useState('')
+  const [serviceCode, setServiceCode] = useState('')
+  const [creditedAmount, setCreditedAmount] = useState('')
+  const [fircNumber, setFircNumber] = useState('')
+
+  const [applyOpen, setApplyOpen] = useState(false)
+  const [applyInvoiceId, setApplyInvoiceId] = useState('')
+  const [applyAmount, setApplyAmount] = useState('')
+
+  const { data: credits } = api.clientCredits.list.useQuery({ clientId: client.id })
+  const { data: invoices } = api.invoices.list.useQuery()
+
+  const balances = useMemo(() => {
+    const totals = new Map<string, number>()
+    for (const credit of credits ?? []) {
+      totals.set(credit.currency, (totals.get(credit.currency) ?? 0) + credit.balance)
+    }
+    // Negative when credit was applied beyond what was received
+    return [...totals.entries()].filter(([, balance]) => balance !== 0)
+  }, [credits])
+
+  // Open invoices of the client in a currency the client has credit in
+  const openInvoices = useMemo(
+    () =>
+      (invoices ?? []).filter(
+        (invoice) =>
+          invoice.clientId === client.id &&
+          !['DRAFT', 'CANCELLED'].includes(invoice.status) &&
+          Number(invoice.balanceDue) > 0 &&
+          balances.some(([balanceCurrency, balance]) => balanceCurrency === invoice.currency && balance > 0)
+      ),
+    [invoices, client.id, balances]
+  )
+
+  const invalidate = () => {
+    utils.clientCredits.list.invalidate()
+    utils.clientCredits.getBalances.invalidate()
+    utils.clientCredits.getStatement.invalidate()
+  }
+
+  const resetAdvance = () => {
+    setAdvanceOpen(false)
+    setAmount('')
+    setReference('')
+    setDescription('')
+    setServiceCode('')
+    setCreditedAmount('')
+    setFircNumber('')
+  }
+
+  const recordAdvanceMutation = api.clientCredits.recordAdvance.useMutation({
+    onSuccess: () => {
+      invalidate()
+      resetAdvance()
+      enqueueSnackbar('Advance recorded as client credit', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const applyMutation = api.clientCredits.applyToInvoice.useMutation({
+    onSuccess: (result) => {
+      invalidate()
+      utils.invoices.list.invalidate()
+      utils.payments.getHistory.invalidate()
+      setApplyOpen(false)
+      setApplyInvoiceId('')
+      setApplyAmount('')
+      enqueueSnackbar(`Applied ${result.applied.toFixed(2)} of credit`, { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const issueVoucherMutation = api.clientCredits.issueReceiptVoucher.useMutation({
+    onSuccess: (credit) => {
+      invalidate()
+      enqueueSnackbar(`Receipt voucher ${credit.voucherNumber} issued`, { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const deleteMutation = api.clientCredits.delete.useMutation({
+    onSuccess: () => {
+      invalidate()
+      enqueueSnackbar('Advance deleted', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const autoApplyMutation = api.clientCredits.setAutoApply.useMutation({
+    onSuccess: () => {
+      utils.clientCredits.getStatement.invalidate()
+      utils.clients.list.invalidate()
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const handleRecordAdvance = () => {
+    const parsedAmount = parseAmount(amount)
+    if (!parsedAmount || parsedAmount <= 0 || !receivedDate) {
+      enqueueSnackbar('Enter the amount and date received', { variant: 'error' })
+      return
+    }
+
+    const parsedCredited = parseAmount(creditedAmount)
+    recordAdvanceMutation.mutate({
+      clientId: client.id,
+      amount: parsedAmount,
+      currency,
+      receivedDate,
+      paymentMethod,
+      reference: reference || undefined,
+      description: description || undefined,
+      serviceCode: serviceCode || undefined,
+      creditedAmount: parsedCredited,
+      actualExchangeRate: parsedCredited ? Math.round((parsedCredited / parsedAmount) * 10000) / 10000 : undefined,
+      fircNumber: fircNumber || undefined,
+    })
+  }
+
+  return (
+    <Paper sx={{ p: 3, mb: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2} flexWrap="wrap" gap={2}>
+        <Box>
+          <Typography variant="h6" fontWeight={600}>
+            Credit Balance
+          </Typography>
+          <Box display="flex" gap={1} mt={1} flexWrap="wrap">
+            {balances.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No unapplied credit
+              </Typography>
+            ) : (
+              balances.map(([balanceCurrency, balance]) => (
+                <Chip
+                  key={balanceCurrency}
+                  color={balance < 0 ? 'error' : 'info'}
+                  label={formatCurrency(balance, balanceCurrency)}
+                />
+              ))
+            )}
+          </Box>
+          <FormControlLabel
+            sx={{ mt: 1 }}
+            control={
+              <Switch
+                checked={client.autoApplyCredit}
+                onChange={(e) => autoApplyMutation.mutate({ clientId: client.id, autoApplyCredit: e.target.checked })}
+                disabled={autoApplyMutation.isPending}
+              />
+            }
+            label="Apply credit automatically when an invoice is issued"
+          />
+        </Box>
+        <Box display="flex" gap={1}>
+          <Button
+            variant="outlined"
+            startIcon={<ApplyIcon />}
+            onClick={() => setApplyOpen(true)}
+            disabled={openInvoices.length === 0}
+          >
+            Apply to Invoice
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setAdvanceOpen(true)}>
+            Record Advance
+          </Button>
+        </Box>
+      </Box>
+
+      {credits && credits.length > 0 && (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Received</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell align="right">Amount</TableCell>
+                <TableCell align="right">Balance</TableCell>
+                <TableCell>Applied To</TableCell>
+                <TableCell>Receipt Voucher</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {credits.map((credit) => (
+                <TableRow key={credit.id} hover>
+                  <TableCell>{format(new Date(credit.receivedDate), 'dd MMM yyyy')}</TableCell>
+                  <TableCell>
+                    {credit.source === 'ADVANCE' ? (
+                      <Chip size="small" label="Advance" />
+                    ) : (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`Overpayment on ${credit.payment?.invoice.invoiceNumber ?? 'invoice'}`}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(Number(credit.amount), credit.currency)}</TableCell>
+                  <TableCell align="right" sx={credit.balance < 0 ? { color: 'error.main' } : undefined}>
+                    {formatCurrency(credit.balance, credit.currency)}
+                  </TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={0.5} flexWrap="wrap">
+                      {credit.applications.map((application) => (
+                        <Chip
+                          key={application.id}
+                          size="small"
+                          variant="outlined"
+                          label={`${application.payment.invoice.invoiceNumber}: ${formatCurrency(Number(application.amount), credit.currency)}`}
+                          onClick={() => router.push(`/invoices/${application.payment.invoice.id}`)}
+                        />
+                      ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    {credit.voucherNumber ? (
+                      <Button
+                        size="small"
+                        startIcon={<DownloadIcon />}
+                        href={`/api/receipt-vouchers/${credit.id}/download`}
+                      >
+                        {credit.voucherNumber}
+                      </Button>
+                    ) : credit.source === 'ADVANCE' && isExportClient ? (
+                      <Button
+                        size="small"
+                        startIcon={<VoucherIcon />}
+                        onClick={() => issueVoucherMutation.mutate({ id: credit.id })}
+                        disabled={issueVoucherMutation.isPending}
+                      >
+                        Issue
+                      </Button>
+                    ) : (
+                      '-'
+                    )}
+                  </TableCell>
+                  <TableCell align="right">
+                    {credit.source === 'ADVANCE' && credit.applications.length === 0 && (
+                      <Tooltip title="Delete">
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => deleteMutation.mutate({ id: credit.id })}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={advanceOpen} onClose={resetAdvance} maxWidth="sm" fullWidth>
+        <DialogTitle>Record Advance</DialogTitle>
+        <DialogContent>
+          <LocalizationProvider dateAdapter={AdapterDateFns}>
+            <Grid container spacing={2} sx={{ mt: 0.5 }}>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  label="Amount Received"
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  fullWidth
+                  required
+                  inputProps={{ step: '0.01', min: '0.01' }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  label="Currency"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+                  fullWidth
+                  required
+                  inputProps={{ maxLength: 3 }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <DatePicker
+                  label="Date Received"
+                  value={receivedDate}
+                  onChange={(newValue) => setReceivedDate(newValue)}
+                  slotProps={{ textField: { fullWidth: true, required: true } }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  select
+                  label="Payment Method"
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                  fullWidth
+                >
+                  {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                    <MenuItem key={value} value={value}>
+                      {label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  label="Description of Services"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  fullWidth
+                  helperText="Shown on the receipt voucher"
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  label="SAC Code"
+                  value={serviceCode}
+                  onChange={(e) => setServiceCode(e.target.value)}
+                  fullWidth
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  label="Reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  fullWidth
+                />
+              </Grid>
+              {currency !== 'INR' && (
+                <>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <TextField
+                      label="INR Credited"
+                      type="number"
+                      value={creditedAmount}
+                      onChange={(e) => setCreditedAmount(e.target.value)}
+                      fullWidth
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <TextField
+                      label="FIRC Number"
+                      value={fircNumber}
+                      onChange={(e) => setFircNumber(e.target.value)}
+                      fullWidth
+                    />
+                  </Grid>
+                </>
+              )}
+            </Grid>
+          </LocalizationProvider>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={resetAdvance}>Cancel</Button>
+          <Button variant="contained" onClick={handleRecordAdvance} disabled={recordAdvanceMutation.isPending}>
+            Record Advance
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={applyOpen} onClose={() => setApplyOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Apply Credit to Invoice</DialogTitle>
+        <DialogContent>
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Credit is used oldest first, up to the balance due on the invoice.
+          </Alert>
+          <TextField
+            select
+            label="Invoice"
+            value={applyInvoiceId}
+            onChange={(e) => setApplyInvoiceId(e.target.value)}
+            fullWidth
+            sx={{ mb: 2 }}
+          >
+            {openInvoices.map((invoice) => (
+              <MenuItem key={invoice.id} value={invoice.id}>
+                {invoice.invoiceNumber} - {formatCurrency(Number(invoice.balanceDue), invoice.currency)} due
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            label="Amount (optional)"
+            type="number"
+            value={applyAmount}
+            onChange={(e) => setApplyAmount(e.target.value)}
+            fullWidth
+            helperText="Leave empty to apply as much as possible"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setApplyOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => applyMutation.mutate({ invoiceId: applyInvoiceId, amount: parseAmount(applyAmount) })}
+            disabled={!applyInvoiceId || applyMutation.isPending}
+          >
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  )
+}
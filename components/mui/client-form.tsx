@@ -12,6 +12,8 @@ import {
 } from '@mui/material'
 import type { Client } from '@prisma/client'
 import { getCurrencyFromCountry, getSupportedCurrencies } from '@/lib/invoice-utils'
+import { GST_STATE_CODES, validateGSTIN, getStateCodeFromGSTIN } from '@/lib/validations/gst'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
 
 interface ClientFormProps {
   client?: Partial<Client>
@@ -29,6 +31,8 @@ export interface ClientFormData {
   currency: string
   phone: string
   taxId: string
+  gstin: string
+  stateCode: string
 }
 
 interface FormErrors {
@@ -36,6 +40,8 @@ interface FormErrors {
   email?: string
   address?: string
   country?: string
+  gstin?: string
+  stateCode?: string
 }
 
 export function ClientForm({ client, onSubmit, onCancel, isSubmitting = false }: ClientFormProps) {
@@ -48,10 +54,13 @@ export function ClientForm({ client, onSubmit, onCancel, isSubmitting = false }:
     currency: client?.currency || 'USD',
     phone: client?.phone || '',
     taxId: client?.taxId || '',
+    gstin: client?.gstin || '',
+    stateCode: client?.stateCode || '',
   })
 
   const [errors, setErrors] = useState<FormErrors>({})
   const currencyOptions = getSupportedCurrencies()
+  const isDomestic = isIndianCountry(formData.country)
 
   // Auto-update currency when country changes
   useEffect(() => {
@@ -82,6 +91,16 @@ export function ClientForm({ client, onSubmit, onCancel, isSubmitting = false }:
     if (!formData.country.trim()) {
       newErrors.country = 'Country is required'
     }
+
+    // Indian clients need a state for place of supply; GSTIN is optional (B2C)
+    if (isDomestic) {
+      if (formData.gstin && !validateGSTIN(formData.gstin)) {
+        newErrors.gstin = 'Invalid GSTIN format'
+      }
+      if (!formData.gstin && !formData.stateCode) {
+        newErrors.stateCode = 'State is required for Indian clients without GSTIN'
+      }
+    }
     
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
@@ -94,7 +113,16 @@ export function ClientForm({ client, onSubmit, onCancel, isSubmitting = false }:
       return
     }
     
-    await onSubmit(formData)
+    await onSubmit(
+      isDomestic
+        ? {
+            ...formData,
+            gstin: formData.gstin.toUpperCase(),
+            // State is derived from GSTIN for registered clients
+            stateCode: (formData.gstin && getStateCodeFromGSTIN(formData.gstin)) || formData.stateCode,
+          }
+        : { ...formData, gstin: '', stateCode: '' }
+    )
   }
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -245,6 +273,52 @@ export function ClientForm({ client, onSubmit, onCancel, isSubmitting = false }:
             disabled={isSubmitting}
           />
         </Grid>
+
+        {isDomestic && (
+          <>
+            <Grid
+              size={{
+                xs: 12,
+                sm: 4
+              }}>
+              <TextField
+                fullWidth
+                label="GSTIN"
+                name="gstin"
+                value={formData.gstin}
+                onChange={handleChange}
+                error={!!errors.gstin}
+                helperText={errors.gstin || 'Leave blank for unregistered (B2C) clients'}
+                disabled={isSubmitting}
+                slotProps={{ htmlInput: { maxLength: 15 } }}
+              />
+            </Grid>
+
+            <Grid
+              size={{
+                xs: 12,
+                sm: 4
+              }}>
+              <TextField
+                fullWidth
+                select
+                label="State"
+                name="stateCode"
+                value={formData.stateCode}
+                onChange={handleChange}
+                error={!!errors.stateCode}
+                helperText={errors.stateCode || 'Determines CGST/SGST vs IGST'}
+                disabled={isSubmitting || !!formData.gstin}
+              >
+                {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                  <MenuItem key={code} value={code}>
+                    {code} - {name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+          </>
+        )}
       </Grid>
 
       <Box display="flex" justifyContent="flex-end" gap={2} mt={4}>
@@ -0,0 +1,192 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Skeleton,
+} from '@mui/material'
+import { ArrowBack as BackIcon, GetApp as ExportIcon } from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { ClientCredits } from './client-credits'
+
+const entryTypeLabels: Record<string, string> = {
+  INVOICE: 'Invoice',
+  DEBIT_NOTE: 'Debit Note',
+  CREDIT_NOTE: 'Credit Note',
+  PAYMENT: 'Payment',
+  CREDIT: 'Credit',
+}
+
+interface ClientStatementProps {
+  clientId: string
+}
+
+export function ClientStatement({ clientId }: ClientStatementProps) {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [dateFrom, setDateFrom] = useState<Date | null>(null)
+  const [dateTo, setDateTo] = useState<Date | null>(null)
+
+  const period = { clientId, dateFrom: dateFrom ?? undefined, dateTo: dateTo ?? undefined }
+  const { data: statement, isLoading, error } = api.clientCredits.getStatement.useQuery(period)
+
+  const handleExport = async () => {
+    try {
+      const file = await utils.clientCredits.exportStatementCsv.fetch(period)
+      const blob = new Blob([file.content], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = file.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      enqueueSnackbar(err instanceof Error ? err.message : 'Export failed', { variant: 'error' })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="text" width={300} height={40} />
+        <Skeleton variant="rectangular" height={400} sx={{ mt: 2 }} />
+      </Box>
+    )
+  }
+
+  if (error || !statement) {
+    return <Alert severity="error">{error?.message ?? 'Client not found'}</Alert>
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Button startIcon={<BackIcon />} onClick={() => router.push('/clients')} sx={{ mb: 2 }}>
+          Clients
+        </Button>
+
+        <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+          <Box>
+            <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+              Statement of Account
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              {statement.client.name}
+              {statement.client.company ? ` - ${statement.client.company}` : ''}
+            </Typography>
+          </Box>
+          <Button variant="outlined" startIcon={<ExportIcon />} onClick={handleExport}>
+            Export CSV
+          </Button>
+        </Box>
+
+        <ClientCredits client={statement.client} />
+
+        <Paper sx={{ p: 2, mb: 3 }}>
+          <Box display="flex" gap={2} flexWrap="wrap">
+            <DatePicker
+              label="From"
+              value={dateFrom}
+              onChange={(newValue) => setDateFrom(newValue)}
+              slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+            />
+            <DatePicker
+              label="To"
+              value={dateTo}
+              onChange={(newValue) => setDateTo(newValue)}
+              slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+            />
+          </Box>
+        </Paper>
+
+        {statement.sections.length === 0 ? (
+          <Paper sx={{ p: 6, textAlign: 'center' }}>
+            <Typography color="text.secondary">No transactions with this client yet</Typography>
+          </Paper>
+        ) : (
+          statement.sections.map((section) => (
+            <Paper key={section.currency} sx={{ mb: 3 }}>
+              <Box p={2}>
+                <Typography variant="h6" fontWeight={600}>
+                  {section.currency}
+                </Typography>
+              </Box>
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Type</TableCell>
+                      <TableCell>Reference</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Debit</TableCell>
+                      <TableCell align="right">Credit</TableCell>
+                      <TableCell align="right">Balance</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell colSpan={6}>
+                        <strong>Opening balance</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{formatCurrency(section.openingBalance, section.currency)}</strong>
+                      </TableCell>
+                    </TableRow>
+                    {section.lines.map((line, index) => (
+                      <TableRow key={`${line.reference}-${index}`} hover>
+                        <TableCell>{format(new Date(line.date), 'dd MMM yyyy')}</TableCell>
+                        <TableCell>{entryTypeLabels[line.type] ?? line.type}</TableCell>
+                        <TableCell>{line.reference || '-'}</TableCell>
+                        <TableCell>{line.description}</TableCell>
+                        <TableCell align="right">{line.debit ? formatCurrency(line.debit, section.currency) : ''}</TableCell>
+                        <TableCell align="right">{line.credit ? formatCurrency(line.credit, section.currency) : ''}</TableCell>
+                        <TableCell align="right">{formatCurrency(line.balance, section.currency)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={4}>
+                        <strong>Closing balance</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{formatCurrency(section.totalDebits, section.currency)}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{formatCurrency(section.totalCredits, section.currency)}</strong>
+                      </TableCell>
+                      <TableCell align="right">
+                        <strong>{formatCurrency(section.closingBalance, section.currency)}</strong>
+                      </TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {section.closingBalance < 0 && (
+                <Alert severity="info" sx={{ m: 2 }}>
+                  The client is in credit by {formatCurrency(-section.closingBalance, section.currency)}
+                </Alert>
+              )}
+            </Paper>
+          ))
+        )}
+      </Box>
+    </LocalizationProvider>
+  )
+}
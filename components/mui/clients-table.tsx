@@ -16,16 +16,20 @@ import {
 import {
   Edit as EditIcon,
   Delete as DeleteIcon,
+  ReceiptLong as StatementIcon,
 } from '@mui/icons-material'
 import type { Client } from '@prisma/client'
+import { formatCurrency } from '@/lib/invoice-utils'
 
 interface ClientsTableProps {
   clients: Client[]
+  creditBalances?: { clientId: string; currency: string; balance: number }[]
   onEdit?: (client: Client) => void
   onDelete?: (client: Client) => void
+  onViewStatement?: (client: Client) => void
 }
 
-export function ClientsTable({ clients, onEdit, onDelete }: ClientsTableProps) {
+export function ClientsTable({ clients, creditBalances, onEdit, onDelete, onViewStatement }: ClientsTableProps) {
   return (
     <TableContainer>
       <Table>
@@ -35,6 +39,7 @@ export function ClientsTable({ clients, onEdit, onDelete }: ClientsTableProps) {
             <TableCell>Email</TableCell>
             <TableCell>Country</TableCell>
             <TableCell>Status</TableCell>
+            <TableCell>Credit</TableCell>
             <TableCell align="right">Actions</TableCell>
           </TableRow>
         </TableHead>
@@ -61,8 +66,31 @@ export function ClientsTable({ clients, onEdit, onDelete }: ClientsTableProps) {
                   variant={client.isActive ? 'filled' : 'outlined'}
                 />
               </TableCell>
+              <TableCell>
+                <Box display="flex" gap={0.5} flexWrap="wrap">
+                  {creditBalances
+                    ?.filter((credit) => credit.clientId === client.id)
+                    .map((credit) => (
+                      <Chip
+                        key={credit.currency}
+                        label={formatCurrency(credit.balance, credit.currency)}
+                        size="small"
+                        color={credit.balance < 0 ? 'error' : 'info'}
+                        variant="outlined"
+                      />
+                    ))}
+                </Box>
+              </TableCell>
               <TableCell align="right">
                 <Box display="flex" gap={1} justifyContent="flex-end">
+                  <Tooltip title="Statement">
+                    <IconButton
+                      size="small"
+                      onClick={() => onViewStatement?.(client)}
+                    >
+                      <StatementIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
                   <Tooltip title="Edit">
                     <IconButton
                       size="small"
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
 import {
   Box,
   Button,
@@ -25,6 +26,7 @@ import type { Client } from '@prisma/client'
 import { enqueueSnackbar } from 'notistack'
 
 export function MUIClients() {
+  const router = useRouter()
   const [showForm, setShowForm] = useState(false)
   const [editingClient, setEditingClient] = useState<Client | null>(null)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
@@ -32,6 +34,7 @@ export function MUIClients() {
   
   const utils = api.useUtils()
   const { data: clients, isLoading } = api.clients.list.useQuery()
+  const { data: creditBalances } = api.clientCredits.getBalances.useQuery()
   
   const createMutation = api.clients.create.useMutation({
     onSuccess: () => {
@@ -160,8 +163,10 @@ export function MUIClients() {
           {clients && clients.length > 0 ? (
             <ClientsTable
               clients={clients}
+              creditBalances={creditBalances}
               onEdit={handleEdit}
               onDelete={handleDeleteClick}
+              onViewStatement={(client) => router.push(`/clients/${client.id}/statement`)}
             />
           ) : (
             <CardContent>
@@ -0,0 +1,385 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Chip,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
+  LinearProgress,
+} from '@mui/material'
+import Grid from '@mui/material/Grid'
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { AmendmentReasonDialog } from './amendment-reason-dialog'
+
+type NoteType = 'CREDIT' | 'DEBIT'
+
+interface CreditDebitNotesProps {
+  invoiceId: string
+  invoiceStatus: string
+  currency: string
+  onChange: () => void
+}
+
+export function CreditDebitNotes({ invoiceId, invoiceStatus, currency, onChange }: CreditDebitNotesProps) {
+  const [open, setOpen] = useState(false)
+  const [noteType, setNoteType] = useState<NoteType>('CREDIT')
+  const [noteDate, setNoteDate] = useState<Date | null>(new Date())
+  const [reason, setReason] = useState('')
+  const [description, setDescription] = useState('')
+  const [taxableAmount, setTaxableAmount] = useState('')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  // Note being edited; its type and date stay as issued
+  const [editingNote, setEditingNote] = useState<{ id: string; noteNumber: string; noteDate: Date } | null>(null)
+  // Filed returns covering the edited note, while waiting for an amendment reason
+  const [filedReturns, setFiledReturns] = useState<string | null>(null)
+
+  const utils = api.useUtils()
+  const { data: notes, refetch } = api.creditDebitNotes.list.useQuery({ invoiceId })
+
+  const canIssueNote = invoiceStatus !== 'DRAFT' && invoiceStatus !== 'CANCELLED'
+
+  const resetForm = () => {
+    setNoteType('CREDIT')
+    setNoteDate(new Date())
+    setReason('')
+    setDescription('')
+    setTaxableAmount('')
+    setErrors({})
+    setEditingNote(null)
+  }
+
+  const handleClose = () => {
+    setOpen(false)
+    resetForm()
+  }
+
+  const createNoteMutation = api.creditDebitNotes.create.useMutation({
+    onSuccess: (note) => {
+      enqueueSnackbar(`${note.noteType === 'CREDIT' ? 'Credit' : 'Debit'} note ${note.noteNumber} issued`, { variant: 'success' })
+      refetch()
+      onChange()
+      handleClose()
+    },
+    onError: (error) => {
+      enqueueSnackbar(`Failed to issue note: ${error.message}`, { variant: 'error' })
+    },
+  })
+
+  const updateNoteMutation = api.creditDebitNotes.update.useMutation({
+    onSuccess: (note) => {
+      enqueueSnackbar(`Note ${note.noteNumber} updated`, { variant: 'success' })
+      refetch()
+      utils.gstFiling.invalidate()
+      utils.filingAmendments.invalidate()
+      onChange()
+      handleClose()
+    },
+    onError: (error) => {
+      enqueueSnackbar(`Failed to update note: ${error.message}`, { variant: 'error' })
+    },
+  })
+
+  const deleteNoteMutation = api.creditDebitNotes.delete.useMutation({
+    onSuccess: () => {
+      enqueueSnackbar('Note deleted', { variant: 'success' })
+      refetch()
+      onChange()
+    },
+    onError: (error) => {
+      enqueueSnackbar(`Failed to delete note: ${error.message}`, { variant: 'error' })
+    },
+  })
+
+  const handleEdit = (note: NonNullable<typeof notes>[number]) => {
+    setEditingNote({ id: note.id, noteNumber: note.noteNumber, noteDate: new Date(note.noteDate) })
+    setNoteType(note.noteType)
+    setNoteDate(new Date(note.noteDate))
+    setReason(note.reason)
+    setDescription(note.description || '')
+    setTaxableAmount(String(Number(note.taxableAmount)))
+    setErrors({})
+    setOpen(true)
+  }
+
+  const saveNote = (amendmentReason?: string) => {
+    if (!editingNote) return
+
+    updateNoteMutation.mutate({
+      id: editingNote.id,
+      reason: reason.trim(),
+      description: description.trim() || null,
+      taxableAmount: parseFloat(taxableAmount),
+      amendmentReason,
+    })
+  }
+
+  const handleSubmit = async () => {
+    const newErrors: Record<string, string> = {}
+    const amount = parseFloat(taxableAmount)
+
+    if (!taxableAmount || isNaN(amount) || amount <= 0) {
+      newErrors.taxableAmount = 'Please enter a valid amount'
+    }
+    if (!noteDate) {
+      newErrors.noteDate = 'Note date is required'
+    }
+    if (!reason.trim()) {
+      newErrors.reason = 'Reason is required'
+    }
+
+    setErrors(newErrors)
+    if (Object.keys(newErrors).length > 0 || !noteDate) {
+      return
+    }
+
+    if (editingNote) {
+      // Notes dated in a filed period are amended
+      const lock = await utils.filingAmendments.getLock.fetch({ dates: [editingNote.noteDate] })
+      if (lock.returns.length > 0) {
+        setFiledReturns(lock.description ?? '')
+        return
+      }
+      saveNote()
+      return
+    }
+
+    createNoteMutation.mutate({
+      invoiceId,
+      noteType,
+      noteDate,
+      reason: reason.trim(),
+      description: description.trim() || undefined,
+      taxableAmount: amount,
+    })
+  }
+
+  const handleDelete = (id: string, noteNumber: string) => {
+    if (confirm(`Delete note ${noteNumber}? The invoice balance will be recalculated.`)) {
+      deleteNoteMutation.mutate({ id })
+    }
+  }
+
+  if (!canIssueNote && (!notes || notes.length === 0)) {
+    return null
+  }
+
+  return (
+    <Box mt={4}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h6">Credit/Debit Notes</Typography>
+        {canIssueNote && (
+          <Button size="small" startIcon={<AddIcon />} onClick={() => setOpen(true)}>
+            Issue Credit/Debit Note
+          </Button>
+        )}
+      </Box>
+
+      {notes && notes.length > 0 ? (
+        <Grid container spacing={2}>
+          {notes.map((note) => (
+            <Grid size={12} key={note.id}>
+              <Paper variant="outlined" sx={{ p: 2 }}>
+                <Box display="flex" justifyContent="space-between" alignItems="flex-start">
+                  <Box flex={1}>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      <Typography variant="body1" fontWeight={500}>
+                        {note.noteNumber}
+                      </Typography>
+                      <Chip
+                        label={note.noteType === 'CREDIT' ? 'Credit' : 'Debit'}
+                        color={note.noteType === 'CREDIT' ? 'error' : 'info'}
+                        size="small"
+                      />
+                    </Box>
+                    <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
+                      {format(new Date(note.noteDate), 'dd MMM yyyy')} · {note.reason}
+                    </Typography>
+                    {note.description && (
+                      <Typography variant="body2" color="text.secondary">
+                        {note.description}
+                      </Typography>
+                    )}
+                  </Box>
+                  <Box display="flex" alignItems="center" gap={0.5} sx={{ ml: 2 }}>
+                    <Typography variant="body1" fontWeight={500} sx={{ mr: 1 }}>
+                      {note.noteType === 'CREDIT' ? '−' : '+'}
+                      {formatCurrency(Number(note.totalAmount), note.currency)}
+                    </Typography>
+                    <Tooltip title="Download PDF">
+                      <IconButton
+                        size="small"
+                        onClick={() => window.open(`/api/credit-debit-notes/${note.id}/download`, '_blank')}
+                        aria-label="Download note"
+                      >
+                        <DownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <IconButton
+                        size="small"
+                        onClick={() => handleEdit(note)}
+                        disabled={updateNoteMutation.isPending}
+                        aria-label="Edit note"
+                      >
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => handleDelete(note.id, note.noteNumber)}
+                      disabled={deleteNoteMutation.isPending}
+                      aria-label="Delete note"
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                </Box>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          No credit or debit notes issued against this invoice.
+        </Typography>
+      )}
+
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <Dialog
+          open={open}
+          onClose={handleClose}
+          maxWidth="sm"
+          fullWidth
+          aria-labelledby="credit-debit-note-dialog-title"
+        >
+          <DialogTitle id="credit-debit-note-dialog-title">
+            {editingNote ? `Edit ${editingNote.noteNumber}` : 'Issue Credit/Debit Note'}
+          </DialogTitle>
+          <DialogContent>
+            {(createNoteMutation.isPending || updateNoteMutation.isPending) && <LinearProgress sx={{ mb: 2 }} />}
+            <Grid container spacing={3} sx={{ mt: 0.5 }}>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <FormControl fullWidth required>
+                  <InputLabel>Note Type</InputLabel>
+                  <Select
+                    value={noteType}
+                    onChange={(e) => setNoteType(e.target.value as NoteType)}
+                    label="Note Type"
+                    disabled={!!editingNote}
+                  >
+                    <MenuItem value="CREDIT">Credit Note (reduce amount)</MenuItem>
+                    <MenuItem value="DEBIT">Debit Note (increase amount)</MenuItem>
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <DatePicker
+                  label="Note Date"
+                  value={noteDate}
+                  onChange={(newValue) => setNoteDate(newValue)}
+                  disabled={!!editingNote}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      error: !!errors.noteDate,
+                      helperText: errors.noteDate,
+                      required: true,
+                    },
+                  }}
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Taxable Amount"
+                  type="number"
+                  value={taxableAmount}
+                  onChange={(e) => setTaxableAmount(e.target.value)}
+                  error={!!errors.taxableAmount}
+                  helperText={errors.taxableAmount || 'Value before tax; GST is applied at the original invoice rates'}
+                  InputProps={{
+                    startAdornment: <InputAdornment position="start">{currency}</InputAdornment>,
+                  }}
+                  inputProps={{ step: '0.01', min: '0' }}
+                  required
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  error={!!errors.reason}
+                  helperText={errors.reason || 'e.g. Discount, deficiency in service, revised scope'}
+                  required
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  multiline
+                  rows={2}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleClose} disabled={createNoteMutation.isPending || updateNoteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              variant="contained"
+              disabled={createNoteMutation.isPending || updateNoteMutation.isPending}
+            >
+              {editingNote ? 'Save Changes' : 'Issue Note'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </LocalizationProvider>
+
+      <AmendmentReasonDialog
+        open={filedReturns !== null}
+        document={`Note ${editingNote?.noteNumber ?? ''}`}
+        filedReturns={filedReturns}
+        isSubmitting={updateNoteMutation.isPending}
+        onClose={() => setFiledReturns(null)}
+        onConfirm={(amendmentReason) => {
+          setFiledReturns(null)
+          saveNote(amendmentReason)
+        }}
+      />
+    </Box>
+  )
+}
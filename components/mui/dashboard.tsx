@@ -1,6 +1,6 @@
 'use client'
 
-import React from 'react'
+import React, { useMemo } from 'react'
 import {
   Box,
   Grid,
@@ -25,6 +25,7 @@ import {
 import { api } from '@/lib/trpc/client'
 import { MUIRevenueChart } from './charts/revenue-chart'
 import { MUIPaymentStatusChart } from './charts/payment-status-chart'
+import { MUIForexGainLossChart } from './charts/forex-gain-loss-chart'
 import { MUIRecentInvoices } from './recent-invoices'
 import { LUTExpiryBanner } from './lut/lut-expiry-banner'
 import { ComplianceHealthCard } from './dashboard/compliance-health'
@@ -141,6 +142,17 @@ export function MUIDashboard() {
   const { data: paymentStatus, isLoading: statusLoading } = api.dashboard.getPaymentStatusBreakdown.useQuery()
   const { data: revenueByMonth, isLoading: revenueLoading } = api.dashboard.getRevenueByMonth.useQuery({ months: 6 })
 
+  // Realised forex gain/loss for the current financial year (April to March)
+  const forexPeriod = useMemo(() => {
+    const today = new Date()
+    const startYear = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1
+    return {
+      dateFrom: new Date(startYear, 3, 1),
+      dateTo: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999),
+    }
+  }, [])
+  const { data: forexGainLoss, isLoading: forexLoading } = api.payments.getForexGainLoss.useQuery(forexPeriod)
+
 
   return (
     <Box>
@@ -311,6 +323,18 @@ export function MUIDashboard() {
             loading={statusLoading}
           />
         </Grid>
+
+        <Grid
+          size={{
+            xs: 12,
+            lg: 6
+          }}>
+          <MUIForexGainLossChart
+            data={forexGainLoss?.byMonth || []}
+            totals={forexGainLoss?.totals}
+            loading={forexLoading}
+          />
+        </Grid>
       </Grid>
       {/* Recent Invoices */}
       <MUIRecentInvoices
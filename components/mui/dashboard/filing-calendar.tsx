@@ -20,13 +20,22 @@ import {
   Schedule as PendingIcon,
   Warning as OverdueIcon,
 } from '@mui/icons-material'
+import type { FilingType } from '@prisma/client'
 import { api } from '@/lib/trpc/client'
+import { isFiledStatus } from '@/lib/gst-filing/amendments'
+
+const AVATAR_LABELS: Record<FilingType, string> = {
+  GSTR1: '1',
+  GSTR3B: '3B',
+  IFF: 'IFF',
+  PMT06: 'P6',
+}
 
 // Display status for the calendar (simplified from FilingStatus)
 type DisplayStatus = 'FILED' | 'PENDING' | 'OVERDUE'
 
 function getDisplayStatus(status: string, isOverdue: boolean): DisplayStatus {
-  if (status === 'FILED' || status === 'APPROVED') return 'FILED'
+  if (isFiledStatus(status) || status === 'APPROVED') return 'FILED'
   if (isOverdue) return 'OVERDUE'
   return 'PENDING'
 }
@@ -84,7 +93,7 @@ export function FilingCalendarCard() {
 
   if (!data) return null
 
-  const { calendar, nextDeadlines, overdueCount } = data
+  const { calendar, nextDeadlines, overdueCount, frequency, stateCategory } = data
 
   // Count upcoming (non-overdue pending)
   const upcomingCount = calendar.filter(
@@ -155,22 +164,28 @@ export function FilingCalendarCard() {
                     sx={{
                       width: 32,
                       height: 32,
-                      bgcolor: filing.filingType === 'GSTR1' ? 'primary.main' : 'secondary.main',
+                      bgcolor:
+                        filing.filingType === 'GSTR1' || filing.filingType === 'IFF'
+                          ? 'primary.main'
+                          : 'secondary.main',
                       fontSize: '0.75rem',
                     }}
                   >
-                    {filing.filingType === 'GSTR1' ? '1' : '3B'}
+                    {AVATAR_LABELS[filing.filingType]}
                   </Avatar>
                 </ListItemIcon>
                 <ListItemText
                   primary={
                     <Stack direction="row" spacing={1} alignItems="center">
                       <Typography variant="body2" fontWeight="medium">
-                        {filing.filingType}
+                        {filing.filingLabel}
                       </Typography>
                       <Typography variant="body2" color="text.secondary">
                         {filing.periodLabel}
                       </Typography>
+                      {filing.isOptional && (
+                        <Chip label="Optional" size="small" variant="outlined" sx={{ height: 20, fontSize: '0.7rem' }} />
+                      )}
                     </Stack>
                   }
                   secondary={
@@ -213,7 +228,9 @@ export function FilingCalendarCard() {
       {/* Quick reference */}
       <Box sx={{ mt: 2, pt: 2, borderTop: 1, borderColor: 'divider' }}>
         <Typography variant="caption" color="text.secondary">
-          Due dates: GSTR-1 (11th) | GSTR-3B (20th) of following month
+          {frequency === 'QUARTERLY'
+            ? `QRMP: IFF (13th, optional) | PMT-06 (25th) of following month; GSTR-1 (13th) | GSTR-3B (${stateCategory === 1 ? '22nd' : '24th'}) after the quarter`
+            : 'Due dates: GSTR-1 (11th) | GSTR-3B (20th) of following month'}
         </Typography>
       </Box>
     </Paper>
@@ -0,0 +1,248 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Typography,
+  Tooltip,
+  Paper,
+  Skeleton,
+  Switch,
+  Stack,
+} from '@mui/material'
+import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material'
+import { api } from '@/lib/trpc/client'
+import { DEFAULT_DUNNING_STEPS, type DunningSteps } from '@/lib/dunning'
+import { enqueueSnackbar } from 'notistack'
+
+interface ScheduleFormData {
+  clientId: string | null
+  clientName: string | null
+  offsetDays: string
+  repeatEveryDays: string
+  maxReminders: string
+}
+
+function toFormData(clientId: string | null, clientName: string | null, steps: DunningSteps): ScheduleFormData {
+  return {
+    clientId,
+    clientName,
+    offsetDays: [...steps.offsetDays].sort((a, b) => a - b).join(', '),
+    repeatEveryDays: steps.repeatEveryDays?.toString() ?? '',
+    maxReminders: steps.maxReminders?.toString() ?? '',
+  }
+}
+
+export function DunningSettings() {
+  const utils = api.useUtils()
+  const [form, setForm] = useState<ScheduleFormData | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading } = api.dunning.list.useQuery()
+
+  const saveMutation = api.dunning.save.useMutation({
+    onSuccess: () => {
+      utils.dunning.list.invalidate()
+      enqueueSnackbar('Reminder schedule saved', { variant: 'success' })
+      setForm(null)
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const deleteMutation = api.dunning.delete.useMutation({
+    onSuccess: () => {
+      utils.dunning.list.invalidate()
+      enqueueSnackbar('Reminder schedule removed', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const optOutMutation = api.dunning.setClientOptOut.useMutation({
+    onSuccess: () => utils.dunning.list.invalidate(),
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const openForm = (clientId: string | null, clientName: string | null, steps: DunningSteps | null) => {
+    setError(null)
+    setForm(toFormData(clientId, clientName, steps ?? data?.defaultSchedule ?? DEFAULT_DUNNING_STEPS))
+  }
+
+  const handleSave = () => {
+    if (!form) return
+
+    const offsetDays = form.offsetDays
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean)
+      .map(Number)
+    if (offsetDays.some((offset) => !Number.isInteger(offset))) {
+      setError('Reminder days must be whole numbers, e.g. -3, 0, 7')
+      return
+    }
+
+    saveMutation.mutate({
+      clientId: form.clientId,
+      offsetDays,
+      repeatEveryDays: form.repeatEveryDays ? Number(form.repeatEveryDays) : null,
+      maxReminders: form.maxReminders ? Number(form.maxReminders) : null,
+    })
+  }
+
+  if (isLoading || !data) {
+    return <Skeleton variant="rectangular" height={300} />
+  }
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Unpaid invoices are followed up automatically by email on the days below, counted from the due date.
+        Reminders stop once an invoice is paid, and every reminder is listed in the invoice&apos;s email history.
+      </Typography>
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="subtitle1" fontWeight={600}>
+              Default schedule
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {data.defaultSchedule
+                ? `Remind ${data.defaultSchedule.description}`
+                : 'No automatic reminders. Clients with their own schedule are still reminded.'}
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <Button variant="outlined" onClick={() => openForm(null, null, data.defaultSchedule)}>
+              {data.defaultSchedule ? 'Edit' : 'Set up reminders'}
+            </Button>
+            {data.defaultSchedule && (
+              <Button color="error" onClick={() => deleteMutation.mutate({ clientId: null })}>
+                Turn off
+              </Button>
+            )}
+          </Stack>
+        </Box>
+      </Paper>
+
+      {data.clients.length > 0 && (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Client</TableCell>
+                <TableCell>Schedule</TableCell>
+                <TableCell>Reminders</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.clients.map((client) => (
+                <TableRow key={client.id}>
+                  <TableCell>
+                    {client.name}
+                    {client.company && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        {client.company}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {client.remindersOptOut
+                      ? '—'
+                      : client.schedule
+                        ? client.schedule.description
+                        : data.defaultSchedule
+                          ? 'Default'
+                          : 'None'}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={client.remindersOptOut ? 'Opted out of reminders' : 'Send reminders'}>
+                      <Switch
+                        size="small"
+                        checked={!client.remindersOptOut}
+                        disabled={optOutMutation.isPending}
+                        onChange={(e) => optOutMutation.mutate({ clientId: client.id, optOut: !e.target.checked })}
+                      />
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Custom schedule">
+                      <IconButton size="small" onClick={() => openForm(client.id, client.name, client.schedule)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    {client.schedule && (
+                      <Tooltip title="Use default schedule">
+                        <IconButton size="small" onClick={() => deleteMutation.mutate({ clientId: client.id })}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!form} onClose={() => setForm(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>{form?.clientName ? `Reminders for ${form.clientName}` : 'Default reminder schedule'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="Reminder days"
+                value={form.offsetDays}
+                onChange={(e) => setForm({ ...form, offsetDays: e.target.value })}
+                helperText="Days from the due date, comma separated. -3 = 3 days before, 0 = on the due date"
+                fullWidth
+              />
+              <TextField
+                label="Then repeat every (days)"
+                type="number"
+                value={form.repeatEveryDays}
+                onChange={(e) => setForm({ ...form, repeatEveryDays: e.target.value })}
+                helperText="Leave empty to stop after the last reminder day"
+                fullWidth
+              />
+              <TextField
+                label="Maximum reminders per invoice"
+                type="number"
+                value={form.maxReminders}
+                onChange={(e) => setForm({ ...form, maxReminders: e.target.value })}
+                helperText="Leave empty for no limit"
+                fullWidth
+              />
+            </Stack>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saveMutation.isPending}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
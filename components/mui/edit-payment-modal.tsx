@@ -33,6 +33,7 @@ import { api } from '@/lib/trpc/client'
 import { enqueueSnackbar } from 'notistack'
 import { toSafeNumber } from '@/lib/utils/decimal'
 import { FileUpload } from './file-upload'
+import { AmendmentReasonDialog } from './amendment-reason-dialog'
 
 type PaymentMethod = 'BANK_TRANSFER' | 'CREDIT_CARD' | 'DEBIT_CARD' | 'UPI' | 'PAYPAL' | 'PAYONEER' | 'WISE' | 'OTHER'
 
@@ -135,6 +136,9 @@ export function EditPaymentModal({
   // Form validation
   const [errors, setErrors] = useState<Record<string, string>>({})
 
+  // Filed returns covering the payment, while waiting for an amendment reason
+  const [filedReturns, setFiledReturns] = useState<string | null>(null)
+
   // Initialize form with payment data
   useEffect(() => {
     if (payment && open) {
@@ -188,6 +192,8 @@ export function EditPaymentModal({
       enqueueSnackbar('Payment updated successfully', { variant: 'success' })
       utils.invoices.getById.invalidate()
       utils.payments.getByInvoice.invalidate()
+      utils.gstFiling.invalidate()
+      utils.filingAmendments.invalidate()
       onSuccess()
       handleClose()
     },
@@ -223,10 +229,10 @@ export function EditPaymentModal({
     return Object.keys(newErrors).length === 0
   }, [amount, paymentDate, creditedAmount, actualExchangeRate])
 
-  const handleSubmit = useCallback(async () => {
-    if (!validateForm() || !payment) return
-    
-    await updatePaymentMutation.mutateAsync({
+  const savePayment = useCallback((amendmentReason?: string) => {
+    if (!payment) return
+
+    updatePaymentMutation.mutate({
       id: payment.id,
       amount: parseFloat(amount),
       paymentDate: paymentDate!,
@@ -241,9 +247,9 @@ export function EditPaymentModal({
       fircNumber: fircNumber || undefined,
       fircDate: fircDate || undefined,
       fircDocumentUrl: fircDocumentUrl || undefined,
+      amendmentReason,
     })
   }, [
-    validateForm,
     payment,
     updatePaymentMutation,
     amount,
@@ -261,6 +267,21 @@ export function EditPaymentModal({
     fircDocumentUrl,
   ])
 
+  const handleSubmit = useCallback(async () => {
+    if (!validateForm() || !payment) return
+
+    // Payments dated in a filed period, before or after the change, are amended
+    const lock = await utils.filingAmendments.getLock.fetch({
+      dates: [new Date(payment.paymentDate), paymentDate!],
+    })
+    if (lock.returns.length > 0) {
+      setFiledReturns(lock.description ?? '')
+      return
+    }
+
+    savePayment()
+  }, [validateForm, payment, paymentDate, utils, savePayment])
+
   const handleClose = useCallback(() => {
     if (!updatePaymentMutation.isPending) {
       onClose()
@@ -610,6 +631,18 @@ export function EditPaymentModal({
           </Button>
         </DialogActions>
       </Dialog>
+
+      <AmendmentReasonDialog
+        open={filedReturns !== null}
+        document={`The payment against ${invoiceNumber}`}
+        filedReturns={filedReturns}
+        isSubmitting={updatePaymentMutation.isPending}
+        onClose={() => setFiledReturns(null)}
+        onConfirm={(reason) => {
+          setFiledReturns(null)
+          savePayment(reason)
+        }}
+      />
     </LocalizationProvider>
   )
 }
\ No newline at end of file
@@ -24,6 +24,8 @@ import {
   Tabs,
   Tab,
   Divider,
+  Checkbox,
+  FormControlLabel,
 } from '@mui/material'
 import { Stack } from '@mui/material'
 import {
@@ -38,7 +40,7 @@ import { api } from '@/lib/trpc/client'
 import { enqueueSnackbar } from 'notistack'
 import { FileUpload } from './file-upload'
 
-type PaymentMethod = 'BANK_TRANSFER' | 'CREDIT_CARD' | 'DEBIT_CARD' | 'UPI' | 'PAYPAL' | 'PAYONEER' | 'WISE' | 'OTHER'
+export type PaymentMethod = 'BANK_TRANSFER' | 'CREDIT_CARD' | 'DEBIT_CARD' | 'UPI' | 'PAYPAL' | 'PAYONEER' | 'WISE' | 'OTHER'
 
 interface PaymentModalProps {
   invoiceId: string
@@ -50,6 +52,20 @@ interface PaymentModalProps {
   open: boolean
   onClose: () => void
   onSuccess?: () => void
+  // Values read from a payment platform export
+  prefill?: PaymentPrefill
+}
+
+export interface PaymentPrefill {
+  amount?: number
+  paymentDate?: Date
+  paymentMethod?: PaymentMethod
+  reference?: string
+  notes?: string
+  amountReceivedBeforeFees?: number
+  platformFeesInCurrency?: number
+  creditedAmount?: number
+  actualExchangeRate?: number
 }
 
 const paymentMethods = [
@@ -90,21 +106,27 @@ export function EnhancedPaymentModal({
   open,
   onClose,
   onSuccess,
+  prefill,
 }: PaymentModalProps) {
   const [tabValue, setTabValue] = useState(0)
-  const [amount, setAmount] = useState<string>(balanceDue.toString())
-  const [paymentDate, setPaymentDate] = useState<Date | null>(new Date())
-  const [paymentMethod, setPaymentMethod] = useState<string>('BANK_TRANSFER')
-  const [reference, setReference] = useState<string>('')
-  const [notes, setNotes] = useState<string>('')
+  const [amount, setAmount] = useState<string>((prefill?.amount ?? balanceDue).toString())
+  const [paymentDate, setPaymentDate] = useState<Date | null>(prefill?.paymentDate ?? new Date())
+  const [paymentMethod, setPaymentMethod] = useState<string>(prefill?.paymentMethod ?? 'BANK_TRANSFER')
+  const [reference, setReference] = useState<string>(prefill?.reference ?? '')
+  const [notes, setNotes] = useState<string>(prefill?.notes ?? '')
+  const [excessAsCredit, setExcessAsCredit] = useState(false)
   
   // Payment flow details
-  const [amountReceivedBeforeFees, setAmountReceivedBeforeFees] = useState<string>('')
-  const [platformFeesInCurrency, setPlatformFeesInCurrency] = useState<string>('')
+  const [amountReceivedBeforeFees, setAmountReceivedBeforeFees] = useState<string>(
+    prefill?.amountReceivedBeforeFees?.toString() ?? ''
+  )
+  const [platformFeesInCurrency, setPlatformFeesInCurrency] = useState<string>(
+    prefill?.platformFeesInCurrency ? prefill.platformFeesInCurrency.toString() : ''
+  )
   
   // Bank credit details
-  const [creditedAmount, setCreditedAmount] = useState<string>('')
-  const [actualExchangeRate, setActualExchangeRate] = useState<string>('')
+  const [creditedAmount, setCreditedAmount] = useState<string>(prefill?.creditedAmount?.toString() ?? '')
+  const [actualExchangeRate, setActualExchangeRate] = useState<string>(prefill?.actualExchangeRate?.toString() ?? '')
   const [bankChargesInr, setBankChargesInr] = useState<string>('')
   const [fircNumber, setFircNumber] = useState<string>('')
   const [fircDate, setFircDate] = useState<Date | null>(null)
@@ -131,8 +153,8 @@ export function EnhancedPaymentModal({
     const parsedAmount = parseFloat(amount)
     if (isNaN(parsedAmount) || parsedAmount <= 0) {
       newErrors.amount = 'Please enter a valid amount'
-    } else if (parsedAmount > balanceDue) {
-      newErrors.amount = `Amount cannot exceed balance due (${currency} ${balanceDue.toFixed(2)})`
+    } else if (parsedAmount > balanceDue && !excessAsCredit) {
+      newErrors.amount = `Amount cannot exceed balance due (${currency} ${balanceDue.toFixed(2)}) unless the excess is held as client credit`
     }
 
     // Validate payment date
@@ -201,6 +223,7 @@ export function EnhancedPaymentModal({
   }, [
     amount, 
     balanceDue, 
+    excessAsCredit,
     currency, 
     paymentDate, 
     paymentMethod, 
@@ -242,12 +265,14 @@ export function EnhancedPaymentModal({
       fircNumber: fircNumber || undefined,
       fircDate: fircDate || undefined,
       fircDocumentUrl: fircDocumentUrl || undefined,
+      excessAsCredit: excessAsCredit || undefined,
     })
   }, [
     validateForm,
     recordPaymentMutation,
     invoiceId,
     amount,
+    excessAsCredit,
     currency,
     paymentDate,
     paymentMethod,
@@ -385,6 +410,18 @@ export function EnhancedPaymentModal({
                   </Grid>
                 </Grid>
 
+                {parseFloat(amount) > balanceDue && (
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={excessAsCredit}
+                        onChange={(e) => setExcessAsCredit(e.target.checked)}
+                      />
+                    }
+                    label={`Hold the excess of ${currency} ${(parseFloat(amount) - balanceDue).toFixed(2)} as client credit`}
+                  />
+                )}
+
                 <Grid container spacing={2}>
                   <Grid size={{ xs: 12, sm: 6 }}>
                     <FormControl fullWidth error={!!errors.paymentMethod} required size="medium">
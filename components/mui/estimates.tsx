@@ -0,0 +1,638 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Typography,
+  Tooltip,
+  LinearProgress,
+  Paper,
+  Skeleton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material'
+import Grid from '@mui/material/Grid'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+  Link as LinkIcon,
+  Send as SendIcon,
+  Transform as ConvertIcon,
+  RemoveCircleOutline as RemoveLineIcon,
+} from '@mui/icons-material'
+import { useRouter } from 'next/navigation'
+import { api } from '@/lib/trpc/client'
+import { addDays, format } from 'date-fns'
+import { enqueueSnackbar } from 'notistack'
+import { CURRENCY_CODES } from '@/lib/constants'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
+import { isEstimateEditable, isEstimateExpired } from '@/lib/estimates'
+
+type EstimateStatus = 'DRAFT' | 'SENT' | 'ACCEPTED' | 'DECLINED' | 'CONVERTED'
+
+const STATUS_CHIPS: Record<EstimateStatus, { label: string; color: 'default' | 'info' | 'success' | 'error' | 'primary' }> = {
+  DRAFT: { label: 'Draft', color: 'default' },
+  SENT: { label: 'Sent', color: 'info' },
+  ACCEPTED: { label: 'Accepted', color: 'success' },
+  DECLINED: { label: 'Declined', color: 'error' },
+  CONVERTED: { label: 'Invoiced', color: 'primary' },
+}
+
+interface LineItemFormData {
+  description: string
+  quantity: string
+  rate: string
+  sacCode: string
+}
+
+interface EstimateFormData {
+  clientId: string
+  currency: string
+  estimateDate: Date | null
+  validUntil: Date | null
+  notes: string
+  terms: string
+  lineItems: LineItemFormData[]
+}
+
+const emptyLineItem: LineItemFormData = { description: '', quantity: '1', rate: '', sacCode: '' }
+
+const getEmptyForm = (): EstimateFormData => ({
+  clientId: '',
+  currency: 'USD',
+  estimateDate: new Date(),
+  validUntil: addDays(new Date(), 30),
+  notes: '',
+  terms: '',
+  lineItems: [emptyLineItem],
+})
+
+export function MUIEstimates() {
+  const router = useRouter()
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [convertId, setConvertId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<EstimateFormData>(getEmptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const utils = api.useUtils()
+  const { data: estimates, isLoading } = api.estimates.list.useQuery()
+  const { data: clients } = api.clients.list.useQuery()
+
+  // Estimates convert into export invoices, so only offer export clients
+  const exportClients = clients?.filter((client) => !isIndianCountry(client.country))
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setFormData(getEmptyForm())
+    setErrors({})
+  }
+
+  const onSaved = (message: string) => {
+    utils.estimates.list.invalidate()
+    closeForm()
+    enqueueSnackbar(message, { variant: 'success' })
+  }
+
+  const createMutation = api.estimates.create.useMutation({
+    onSuccess: () => onSaved('Estimate created'),
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const updateMutation = api.estimates.update.useMutation({
+    onSuccess: () => onSaved('Estimate updated'),
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const markAsSentMutation = api.estimates.markAsSent.useMutation({
+    onSuccess: async ({ shareUrl }) => {
+      utils.estimates.list.invalidate()
+      await copyToClipboard(shareUrl)
+      enqueueSnackbar('Estimate marked as sent. Share link copied to clipboard', { variant: 'success' })
+    },
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const convertMutation = api.estimates.convertToInvoice.useMutation({
+    onSuccess: ({ invoiceId, invoiceNumber }) => {
+      utils.estimates.list.invalidate()
+      utils.invoices.list.invalidate()
+      setConvertId(null)
+      enqueueSnackbar(`Draft invoice ${invoiceNumber} created`, { variant: 'success' })
+      router.push(`/invoices/${invoiceId}`)
+    },
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const deleteMutation = api.estimates.delete.useMutation({
+    onSuccess: () => {
+      utils.estimates.list.invalidate()
+      setDeleteId(null)
+      enqueueSnackbar('Estimate deleted', { variant: 'success' })
+    },
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  type Estimate = NonNullable<typeof estimates>[number]
+
+  const copyToClipboard = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+    } catch {
+      enqueueSnackbar(url, { variant: 'info' })
+    }
+  }
+
+  const handleCopyLink = async (estimate: Estimate) => {
+    if (!estimate.publicAccessToken) {
+      return
+    }
+    await copyToClipboard(`${window.location.origin}/estimate/${estimate.publicAccessToken}`)
+    enqueueSnackbar('Share link copied to clipboard', { variant: 'success' })
+  }
+
+  const handleEdit = (estimate: Estimate) => {
+    setEditingId(estimate.id)
+    setFormData({
+      clientId: estimate.clientId,
+      currency: estimate.currency,
+      estimateDate: new Date(estimate.estimateDate),
+      validUntil: new Date(estimate.validUntil),
+      notes: estimate.notes ?? '',
+      terms: estimate.terms ?? '',
+      lineItems: estimate.lineItems.map((item) => ({
+        description: item.description,
+        quantity: Number(item.quantity).toString(),
+        rate: Number(item.rate).toString(),
+        sacCode: item.serviceCode,
+      })),
+    })
+    setShowForm(true)
+  }
+
+  const updateLineItem = (index: number, field: keyof LineItemFormData, value: string) => {
+    setFormData({
+      ...formData,
+      lineItems: formData.lineItems.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    })
+  }
+
+  const handleSubmit = () => {
+    const localErrors: Record<string, string> = {}
+
+    if (!formData.clientId) localErrors.clientId = 'Client is required'
+    if (!formData.estimateDate) localErrors.estimateDate = 'Estimate date is required'
+    if (!formData.validUntil) localErrors.validUntil = 'Valid until date is required'
+    if (formData.estimateDate && formData.validUntil && formData.validUntil < formData.estimateDate) {
+      localErrors.validUntil = 'Valid until date must be on or after the estimate date'
+    }
+    formData.lineItems.forEach((item, index) => {
+      if (!item.description.trim() || !(parseFloat(item.quantity) > 0) || !(parseFloat(item.rate) > 0) || !item.sacCode.trim()) {
+        localErrors[`lineItems.${index}`] = 'Description, quantity, rate and SAC code are required'
+      }
+    })
+
+    setErrors(localErrors)
+    if (Object.keys(localErrors).length > 0 || !formData.estimateDate || !formData.validUntil) {
+      return
+    }
+
+    const data = {
+      clientId: formData.clientId,
+      estimateDate: formData.estimateDate,
+      validUntil: formData.validUntil,
+      currency: formData.currency,
+      notes: formData.notes || undefined,
+      terms: formData.terms || undefined,
+      lineItems: formData.lineItems.map((item) => ({
+        description: item.description.trim(),
+        quantity: parseFloat(item.quantity),
+        rate: parseFloat(item.rate),
+        sacCode: item.sacCode.trim(),
+      })),
+    }
+
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, data })
+    } else {
+      createMutation.mutate(data)
+    }
+  }
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="rectangular" height={400} />
+      </Box>
+    )
+  }
+
+  const getStatusChip = (estimate: Estimate) => {
+    if (isEstimateEditable(estimate.status) && isEstimateExpired(new Date(estimate.validUntil))) {
+      return <Chip label="Expired" size="small" color="warning" />
+    }
+    const chip = STATUS_CHIPS[estimate.status]
+    const label = <Chip label={chip.label} size="small" color={chip.color} />
+    return estimate.declineReason ? <Tooltip title={estimate.declineReason}>{label}</Tooltip> : label
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Box display="flex" justifyContent="flex-end" alignItems="center" mb={3}>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setShowForm(true)}
+          >
+            New Estimate
+          </Button>
+        </Box>
+
+        {estimates?.length === 0 ? (
+          <Paper sx={{ p: 6, textAlign: 'center' }}>
+            <Typography variant="h6" color="text.secondary" gutterBottom>
+              No estimates yet
+            </Typography>
+            <Typography variant="body2" color="text.secondary" mb={3}>
+              Quote your work upfront and let clients accept it online
+            </Typography>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setShowForm(true)}
+            >
+              Create Your First Estimate
+            </Button>
+          </Paper>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Estimate #</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Valid Until</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {estimates?.map((estimate) => (
+                  <TableRow key={estimate.id}>
+                    <TableCell>
+                      {estimate.estimateNumber}
+                      {estimate.convertedInvoice && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Invoice {estimate.convertedInvoice.invoiceNumber}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{estimate.client.company || estimate.client.name}</TableCell>
+                    <TableCell>{format(new Date(estimate.estimateDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{format(new Date(estimate.validUntil), 'dd MMM yyyy')}</TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(Number(estimate.totalAmount), estimate.currency)}
+                    </TableCell>
+                    <TableCell>{getStatusChip(estimate)}</TableCell>
+                    <TableCell align="right">
+                      <Box display="flex" gap={1} justifyContent="flex-end">
+                        {estimate.status === 'ACCEPTED' && (
+                          <Tooltip title="Convert to invoice">
+                            <IconButton
+                              size="small"
+                              onClick={() => setConvertId(estimate.id)}
+                              color="primary"
+                            >
+                              <ConvertIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {estimate.status === 'CONVERTED' && estimate.convertedInvoice && (
+                          <Tooltip title="View invoice">
+                            <IconButton
+                              size="small"
+                              onClick={() => router.push(`/invoices/${estimate.convertedInvoice!.id}`)}
+                              color="primary"
+                            >
+                              <ConvertIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {isEstimateEditable(estimate.status) && (
+                          <Tooltip title={estimate.status === 'DRAFT' ? 'Mark as sent & copy link' : 'Copy share link'}>
+                            <IconButton
+                              size="small"
+                              onClick={() => estimate.status === 'DRAFT'
+                                ? markAsSentMutation.mutate({ id: estimate.id })
+                                : handleCopyLink(estimate)}
+                              disabled={markAsSentMutation.isPending}
+                            >
+                              {estimate.status === 'DRAFT' ? <SendIcon fontSize="small" /> : <LinkIcon fontSize="small" />}
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        <Tooltip title="Download PDF">
+                          <IconButton
+                            size="small"
+                            component="a"
+                            href={`/api/estimates/${estimate.id}/download`}
+                          >
+                            <DownloadIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        {isEstimateEditable(estimate.status) && (
+                          <Tooltip title="Edit">
+                            <IconButton
+                              size="small"
+                              onClick={() => handleEdit(estimate)}
+                              color="primary"
+                            >
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        {estimate.status !== 'CONVERTED' && (
+                          <Tooltip title="Delete">
+                            <IconButton
+                              size="small"
+                              onClick={() => setDeleteId(estimate.id)}
+                              color="error"
+                            >
+                              <DeleteIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Estimate Form Dialog */}
+        <Dialog open={showForm} onClose={closeForm} maxWidth="md" fullWidth>
+          {isSubmitting && <LinearProgress />}
+          <DialogTitle>
+            {editingId ? 'Edit Estimate' : 'New Estimate'}
+          </DialogTitle>
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 1 }}>
+              <Grid size={{ xs: 12, sm: 8 }}>
+                <FormControl fullWidth error={!!errors.clientId}>
+                  <InputLabel>Client</InputLabel>
+                  <Select
+                    value={formData.clientId}
+                    label="Client"
+                    onChange={(e) => {
+                      const client = exportClients?.find((c) => c.id === e.target.value)
+                      setFormData({ ...formData, clientId: e.target.value, currency: client?.currency ?? formData.currency })
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    {exportClients?.map((client) => (
+                      <MenuItem key={client.id} value={client.id}>
+                        {client.name}{client.company ? ` (${client.company})` : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <FormControl fullWidth>
+                  <InputLabel>Currency</InputLabel>
+                  <Select
+                    value={formData.currency}
+                    label="Currency"
+                    onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                    disabled={isSubmitting}
+                  >
+                    {Object.values(CURRENCY_CODES).map((code) => (
+                      <MenuItem key={code} value={code}>{code}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <DatePicker
+                  label="Estimate Date"
+                  value={formData.estimateDate}
+                  onChange={(newValue) => setFormData({ ...formData, estimateDate: newValue })}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      error: !!errors.estimateDate,
+                      helperText: errors.estimateDate,
+                      disabled: isSubmitting,
+                    },
+                  }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <DatePicker
+                  label="Valid Until"
+                  value={formData.validUntil}
+                  onChange={(newValue) => setFormData({ ...formData, validUntil: newValue })}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      error: !!errors.validUntil,
+                      helperText: errors.validUntil,
+                      disabled: isSubmitting,
+                    },
+                  }}
+                />
+              </Grid>
+
+              <Grid size={12}>
+                <Typography variant="subtitle2" sx={{ mt: 1 }}>Line Items</Typography>
+              </Grid>
+              {formData.lineItems.map((item, index) => (
+                <React.Fragment key={index}>
+                  <Grid size={{ xs: 12, sm: 5 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Description"
+                      value={item.description}
+                      onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                      error={!!errors[`lineItems.${index}`]}
+                      helperText={errors[`lineItems.${index}`]}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 4, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Qty"
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) => updateLineItem(index, 'quantity', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 4, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Rate"
+                      type="number"
+                      value={item.rate}
+                      onChange={(e) => updateLineItem(index, 'rate', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 3, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="SAC Code"
+                      value={item.sacCode}
+                      onChange={(e) => updateLineItem(index, 'sacCode', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 1 }} display="flex" alignItems="center">
+                    <IconButton
+                      size="small"
+                      onClick={() => setFormData({
+                        ...formData,
+                        lineItems: formData.lineItems.filter((_, i) => i !== index),
+                      })}
+                      disabled={isSubmitting || formData.lineItems.length === 1}
+                      aria-label="Remove line item"
+                    >
+                      <RemoveLineIcon fontSize="small" />
+                    </IconButton>
+                  </Grid>
+                </React.Fragment>
+              ))}
+              <Grid size={12}>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => setFormData({ ...formData, lineItems: [...formData.lineItems, emptyLineItem] })}
+                  disabled={isSubmitting}
+                >
+                  Add Line Item
+                </Button>
+              </Grid>
+
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  multiline
+                  rows={2}
+                  helperText="Carried over to the invoice on conversion"
+                  disabled={isSubmitting}
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Terms"
+                  value={formData.terms}
+                  onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                  multiline
+                  rows={2}
+                  disabled={isSubmitting}
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={closeForm} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={isSubmitting}>
+              {editingId ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Convert Confirmation Dialog */}
+        <Dialog open={!!convertId} onClose={() => setConvertId(null)} maxWidth="sm" fullWidth>
+          {convertMutation.isPending && <LinearProgress />}
+          <DialogTitle>Convert to Invoice</DialogTitle>
+          <DialogContent>
+            <Alert severity="info">
+              A draft export invoice dated today will be created with this client, line items and SAC codes,
+              using today&apos;s exchange rate and your current LUT.
+            </Alert>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setConvertId(null)} disabled={convertMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => convertId && convertMutation.mutate({ id: convertId })}
+              variant="contained"
+              disabled={convertMutation.isPending}
+            >
+              Create Invoice
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Delete Confirmation Dialog */}
+        <Dialog open={!!deleteId} onClose={() => setDeleteId(null)} maxWidth="sm" fullWidth>
+          {deleteMutation.isPending && <LinearProgress />}
+          <DialogTitle>Delete Estimate</DialogTitle>
+          <DialogContent>
+            <Typography>
+              The share link will stop working. This cannot be undone.
+            </Typography>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDeleteId(null)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => deleteId && deleteMutation.mutate({ id: deleteId })}
+              color="error"
+              variant="contained"
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  )
+}
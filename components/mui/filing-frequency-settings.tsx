@@ -0,0 +1,214 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+  Typography,
+  Tooltip,
+  Paper,
+  Skeleton,
+  Stack,
+  Chip,
+} from '@mui/material'
+import { Delete as DeleteIcon } from '@mui/icons-material'
+import type { FilingFrequency } from '@prisma/client'
+import { addMonths, format, parseISO } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatQuarter, getQuarterPeriods } from '@/lib/gst-filing/due-dates'
+import { enqueueSnackbar } from 'notistack'
+
+const FREQUENCY_LABELS: Record<FilingFrequency, string> = {
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly (QRMP)',
+}
+
+/**
+ * First months of the quarters from a year back to half a year ahead
+ */
+function getQuarterStartOptions(): string[] {
+  const currentQuarterStart = parseISO(`${getQuarterPeriods(format(new Date(), 'yyyy-MM'))[0]}-01`)
+  return [-12, -9, -6, -3, 0, 3, 6].map((months) => format(addMonths(currentQuarterStart, months), 'yyyy-MM'))
+}
+
+export function FilingFrequencySettings() {
+  const utils = api.useUtils()
+  const [form, setForm] = useState<{ frequency: FilingFrequency; effectiveFrom: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data, isLoading } = api.gstFiling.getFilingFrequency.useQuery()
+
+  const invalidate = () => {
+    utils.gstFiling.getFilingFrequency.invalidate()
+    utils.gstFiling.listFilingPeriods.invalidate()
+    utils.gstFiling.getUpcomingDueDates.invalidate()
+    utils.dashboard.getFilingCalendar.invalidate()
+  }
+
+  const saveMutation = api.gstFiling.setFilingFrequency.useMutation({
+    onSuccess: () => {
+      invalidate()
+      enqueueSnackbar('Filing frequency saved', { variant: 'success' })
+      setForm(null)
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const deleteMutation = api.gstFiling.deleteFilingFrequencyChange.useMutation({
+    onSuccess: () => {
+      invalidate()
+      enqueueSnackbar('Filing frequency change removed', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const openForm = () => {
+    if (!data) return
+    setError(null)
+    setForm({
+      frequency: data.frequency === 'MONTHLY' ? 'QUARTERLY' : 'MONTHLY',
+      effectiveFrom: getQuarterStartOptions()[5], // Next quarter
+    })
+  }
+
+  if (isLoading || !data) {
+    return <Skeleton variant="rectangular" height={300} />
+  }
+
+  return (
+    <Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Monthly filers file GSTR-1 by the 11th and GSTR-3B by the 20th of the following month. Under the QRMP
+        scheme, GSTR-1 and GSTR-3B are filed for the quarter, B2B invoices of the first two months can be
+        reported early through the IFF, and each month&apos;s tax is paid by PMT-06. The frequency can only
+        change from the start of a quarter.
+      </Typography>
+
+      <Paper variant="outlined" sx={{ p: 2, mb: 3 }}>
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Box>
+            <Typography variant="subtitle1" fontWeight={600}>
+              {FREQUENCY_LABELS[data.frequency]}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {data.frequency === 'QUARTERLY'
+                ? `Quarterly GSTR-3B due on the ${data.stateCategory === 1 ? '22nd' : '24th'} after the quarter (Category ${data.stateCategory === 1 ? 'I' : 'II'} state)`
+                : 'GSTR-1 and GSTR-3B every month'}
+            </Typography>
+          </Box>
+          <Button variant="outlined" onClick={openForm}>
+            Change frequency
+          </Button>
+        </Box>
+      </Paper>
+
+      {data.history.length > 0 && (
+        <TableContainer component={Paper} variant="outlined">
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>From quarter</TableCell>
+                <TableCell>Frequency</TableCell>
+                <TableCell>Recorded</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.history.map((change) => (
+                <TableRow key={change.id}>
+                  <TableCell>{formatQuarter(change.effectiveFrom)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={FREQUENCY_LABELS[change.frequency]}
+                      size="small"
+                      color={change.frequency === 'QUARTERLY' ? 'primary' : 'default'}
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  <TableCell>{format(new Date(change.createdAt), 'dd MMM yyyy')}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Remove">
+                      <IconButton
+                        size="small"
+                        onClick={() => deleteMutation.mutate({ id: change.id })}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={!!form} onClose={() => setForm(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Change filing frequency</DialogTitle>
+        {form && (
+          <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                select
+                label="Frequency"
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as FilingFrequency })}
+                fullWidth
+              >
+                {(Object.keys(FREQUENCY_LABELS) as FilingFrequency[]).map((frequency) => (
+                  <MenuItem key={frequency} value={frequency}>
+                    {FREQUENCY_LABELS[frequency]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="From quarter"
+                value={form.effectiveFrom}
+                onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                helperText="Unfiled plans from this quarter on are removed and can be generated again"
+                fullWidth
+              >
+                {getQuarterStartOptions().map((period) => (
+                  <MenuItem key={period} value={period}>
+                    {formatQuarter(period)}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Stack>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => form && saveMutation.mutate(form)}
+            disabled={saveMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
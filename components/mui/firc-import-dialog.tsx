@@ -0,0 +1,263 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Alert,
+  Stack,
+  LinearProgress,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material'
+import { CloudUpload as UploadIcon } from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+
+async function readAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+interface FircImportDialogProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function FircImportDialog({ open, onClose }: FircImportDialogProps) {
+  const utils = api.useUtils()
+  const [error, setError] = useState<string | null>(null)
+  const [selectedPayments, setSelectedPayments] = useState<Record<number, string>>({})
+  const [included, setIncluded] = useState<Record<number, boolean>>({})
+
+  const previewMutation = api.realisation.previewFircImport.useMutation({
+    onSuccess: (data) => {
+      setSelectedPayments(
+        Object.fromEntries(
+          data.records.flatMap((record) => (record.proposal ? [[record.rowNumber, record.proposal.paymentId]] : []))
+        )
+      )
+      setIncluded(Object.fromEntries(data.records.map((record) => [record.rowNumber, !!record.proposal])))
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const applyMutation = api.realisation.applyFircMatches.useMutation({
+    onSuccess: (data) => {
+      enqueueSnackbar(`Recorded ${data.updated} certificate(s)`, { variant: 'success' })
+      utils.realisation.getRegister.invalidate()
+      utils.payments.getHistory.invalidate()
+      handleClose()
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const preview = previewMutation.data
+
+  const handleClose = () => {
+    setError(null)
+    previewMutation.reset()
+    setSelectedPayments({})
+    setIncluded({})
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!selectedFile) return
+
+    setError(null)
+    if (selectedFile.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB')
+      return
+    }
+
+    previewMutation.mutate({ fileName: selectedFile.name, content: await readAsBase64(selectedFile) })
+  }
+
+  const matches = (preview?.records ?? [])
+    .filter((record) => included[record.rowNumber] && selectedPayments[record.rowNumber])
+    .map((record) => ({
+      paymentId: selectedPayments[record.rowNumber],
+      fircNumber: record.documentNumber,
+      fircDate: record.documentDate,
+      inrAmount: record.inrAmount,
+    }))
+  const hasDuplicatePayment = new Set(matches.map((match) => match.paymentId)).size !== matches.length
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth={preview ? 'lg' : 'sm'} fullWidth>
+      <DialogTitle>Upload FIRC / e-BRC</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {!preview ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Upload the e-BRC list downloaded from the DGFT portal, or your bank&apos;s FIRC / IRM report, as CSV or
+              XLSX. Each certificate is matched to a payment without a FIRC by invoice number, amount, remitter and
+              date. You review the matches before anything is saved.
+            </Typography>
+            <Box
+              component="label"
+              sx={{
+                display: 'block',
+                border: '2px dashed',
+                borderColor: 'divider',
+                borderRadius: 2,
+                p: 4,
+                textAlign: 'center',
+                cursor: 'pointer',
+                '&:hover': { borderColor: 'primary.main', bgcolor: 'action.hover' },
+              }}
+            >
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                hidden
+                onChange={handleFileChange}
+                disabled={previewMutation.isPending}
+              />
+              <Stack spacing={1} alignItems="center">
+                <UploadIcon sx={{ fontSize: 48, color: 'text.secondary' }} />
+                <Typography variant="subtitle1">Choose a certificate file</Typography>
+              </Stack>
+            </Box>
+            {previewMutation.isPending && <LinearProgress sx={{ mt: 2 }} />}
+          </>
+        ) : (
+          <>
+            {hasDuplicatePayment && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                The same payment is selected for more than one certificate
+              </Alert>
+            )}
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Certificate</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell>Remitter / Reference</TableCell>
+                    <TableCell>Payment</TableCell>
+                    <TableCell>Match</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.records.map((record) => (
+                    <TableRow key={record.rowNumber}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={!!included[record.rowNumber]}
+                          disabled={record.alreadyRecorded || !selectedPayments[record.rowNumber]}
+                          onChange={(e) => setIncluded({ ...included, [record.rowNumber]: e.target.checked })}
+                        />
+                      </TableCell>
+                      <TableCell>{record.documentNumber}</TableCell>
+                      <TableCell>
+                        {record.documentDate ? format(new Date(record.documentDate), 'dd MMM yyyy') : '—'}
+                      </TableCell>
+                      <TableCell align="right">
+                        {record.foreignAmount && record.currency
+                          ? formatCurrency(record.foreignAmount, record.currency)
+                          : record.foreignAmount ?? '—'}
+                        {record.inrAmount && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            {formatCurrency(record.inrAmount, 'INR')}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 240 }}>
+                        <Typography variant="body2">{record.remitter ?? '—'}</Typography>
+                        {record.reference && (
+                          <Typography variant="caption" color="text.secondary">
+                            {record.reference}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell sx={{ minWidth: 260 }}>
+                        {record.alreadyRecorded ? (
+                          <Typography variant="body2" color="text.secondary">
+                            Already recorded
+                          </Typography>
+                        ) : (
+                          <TextField
+                            select
+                            size="small"
+                            fullWidth
+                            label="Evidences payment"
+                            value={selectedPayments[record.rowNumber] ?? ''}
+                            onChange={(e) => {
+                              setSelectedPayments({ ...selectedPayments, [record.rowNumber]: e.target.value })
+                              setIncluded({ ...included, [record.rowNumber]: true })
+                            }}
+                          >
+                            {preview.payments.map((payment) => (
+                              <MenuItem key={payment.id} value={payment.id}>
+                                {payment.invoiceNumber} · {payment.clientName} ·{' '}
+                                {formatCurrency(payment.amount, payment.currency)} on{' '}
+                                {format(new Date(payment.paymentDate), 'dd MMM yyyy')}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {record.proposal ? (
+                          <Tooltip title={record.proposal.reasons.join(', ')}>
+                            <Chip label={`${record.proposal.score}%`} size="small" color="primary" />
+                          </Tooltip>
+                        ) : (
+                          !record.alreadyRecorded && <Chip label="Unmatched" size="small" variant="outlined" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        {preview && (
+          <Button
+            variant="contained"
+            disabled={matches.length === 0 || hasDuplicatePayment || applyMutation.isPending}
+            onClick={() => applyMutation.mutate({ matches })}
+          >
+            Record {matches.length} certificate(s)
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,288 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Grid,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Tooltip,
+  Skeleton,
+  Tabs,
+  Tab,
+  Button,
+} from '@mui/material'
+import { WarningAmber as WarningIcon, EventRepeat as RevaluationIcon } from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { endOfDay, format, startOfDay } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import type { ForexGainLossGroup } from '@/lib/forex-gain-loss'
+
+function currentFiscalYearStart(): Date {
+  const today = new Date()
+  return new Date(today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, 3, 1)
+}
+
+function GainLoss({ value, bold = false }: { value: number; bold?: boolean }) {
+  return (
+    <Typography
+      component="span"
+      variant="body2"
+      fontWeight={bold ? 600 : undefined}
+      color={value > 0 ? 'success.main' : value < 0 ? 'error.main' : 'text.secondary'}
+    >
+      {formatCurrency(value, 'INR')}
+    </Typography>
+  )
+}
+
+function MissingRate({ count }: { count: number }) {
+  if (count === 0) return null
+  return (
+    <Tooltip title={`${count} payment(s) have no exchange rate or INR amount credited, and are valued at the invoice rate`}>
+      <WarningIcon fontSize="small" color="warning" sx={{ ml: 0.5, verticalAlign: 'middle' }} />
+    </Tooltip>
+  )
+}
+
+function GroupTable({ groups, labelHeader }: { groups: ForexGainLossGroup[]; labelHeader: string }) {
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>{labelHeader}</TableCell>
+            <TableCell>Currency</TableCell>
+            <TableCell align="right">Payments</TableCell>
+            <TableCell align="right">Amount</TableCell>
+            <TableCell align="right">Booked (INR)</TableCell>
+            <TableCell align="right">Settled (INR)</TableCell>
+            <TableCell align="right">Exchange Gain/Loss</TableCell>
+            <TableCell align="right">Fees &amp; Charges</TableCell>
+            <TableCell align="right">Net Gain/Loss</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {groups.map((group) => (
+            <TableRow key={group.key} hover>
+              <TableCell>
+                {group.label}
+                <MissingRate count={group.missingRateCount} />
+              </TableCell>
+              <TableCell>{group.currency ?? 'Mixed'}</TableCell>
+              <TableCell align="right">{group.paymentCount}</TableCell>
+              <TableCell align="right">
+                {group.currency && group.amount !== undefined ? formatCurrency(group.amount, group.currency) : '-'}
+              </TableCell>
+              <TableCell align="right">{formatCurrency(group.bookedInr, 'INR')}</TableCell>
+              <TableCell align="right">{formatCurrency(group.settledInr, 'INR')}</TableCell>
+              <TableCell align="right">
+                <GainLoss value={group.exchangeGainLoss} />
+              </TableCell>
+              <TableCell align="right">{formatCurrency(group.platformFeesInr + group.bankChargesInr, 'INR')}</TableCell>
+              <TableCell align="right">
+                <GainLoss value={group.netGainLoss} bold />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  )
+}
+
+export function ForexGainLossReport() {
+  const router = useRouter()
+  const [dateFrom, setDateFrom] = useState<Date | null>(currentFiscalYearStart)
+  const [dateTo, setDateTo] = useState<Date | null>(() => new Date())
+  const [view, setView] = useState<'clientCurrency' | 'invoice' | 'payment'>('clientCurrency')
+
+  const { data, isLoading, error } = api.payments.getForexGainLoss.useQuery(
+    {
+      dateFrom: startOfDay(dateFrom ?? new Date()),
+      dateTo: endOfDay(dateTo ?? new Date()),
+    },
+    { enabled: !!dateFrom && !!dateTo }
+  )
+
+  const totals = data?.totals
+  const summaryCards = totals
+    ? [
+        { title: 'Exchange Gain/Loss', value: totals.exchangeGainLoss },
+        { title: 'Platform Fees', value: -totals.platformFeesInr },
+        { title: 'Bank Charges', value: -totals.bankChargesInr },
+        { title: 'Net Gain/Loss', value: totals.netGainLoss },
+      ]
+    : []
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+          <Box>
+            <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+              Forex Gain/Loss
+            </Typography>
+            <Typography variant="body1" color="text.secondary">
+              Realised exchange gain or loss on payments received, against the rate each invoice was booked at
+            </Typography>
+          </Box>
+          <Button
+            variant="outlined"
+            startIcon={<RevaluationIcon />}
+            onClick={() => router.push('/payments/forex/revaluations')}
+          >
+            Year-end Revaluation
+          </Button>
+        </Box>
+
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <DatePicker
+                label="From Date"
+                value={dateFrom}
+                onChange={(newValue) => setDateFrom(newValue)}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <DatePicker
+                label="To Date"
+                value={dateTo}
+                onChange={(newValue) => setDateTo(newValue)}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error.message}
+          </Alert>
+        )}
+
+        {totals && totals.missingRateCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            {totals.missingRateCount} payment(s) have no exchange rate or INR amount credited recorded. They are valued at
+            the invoice rate, so their gain/loss shows as zero until the payment is updated.
+          </Alert>
+        )}
+
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          {isLoading
+            ? [0, 1, 2, 3].map((index) => (
+                <Grid key={index} size={{ xs: 12, sm: 6, lg: 3 }}>
+                  <Skeleton variant="rectangular" height={96} />
+                </Grid>
+              ))
+            : summaryCards.map((card) => (
+                <Grid key={card.title} size={{ xs: 12, sm: 6, lg: 3 }}>
+                  <Card>
+                    <CardContent>
+                      <Typography color="text.secondary" variant="body2" gutterBottom>
+                        {card.title}
+                      </Typography>
+                      <Typography
+                        variant="h5"
+                        fontWeight={600}
+                        color={card.value > 0 ? 'success.main' : card.value < 0 ? 'error.main' : 'text.primary'}
+                      >
+                        {formatCurrency(card.value, 'INR')}
+                      </Typography>
+                    </CardContent>
+                  </Card>
+                </Grid>
+              ))}
+        </Grid>
+
+        <Paper>
+          <Tabs value={view} onChange={(_, value) => setView(value)} sx={{ borderBottom: 1, borderColor: 'divider', px: 2 }}>
+            <Tab value="clientCurrency" label="By Client & Currency" />
+            <Tab value="invoice" label="By Invoice" />
+            <Tab value="payment" label="Payments" />
+          </Tabs>
+
+          {isLoading ? (
+            <Box p={3}>
+              <Skeleton variant="rectangular" height={200} />
+            </Box>
+          ) : !data || data.payments.length === 0 ? (
+            <Box p={6} textAlign="center">
+              <Typography color="text.secondary">No payments received in this period</Typography>
+            </Box>
+          ) : view === 'clientCurrency' ? (
+            <GroupTable groups={data.byClientCurrency} labelHeader="Client" />
+          ) : view === 'invoice' ? (
+            <GroupTable groups={data.byInvoice} labelHeader="Invoice" />
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Invoice</TableCell>
+                    <TableCell>Client</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell align="right">Invoice Rate</TableCell>
+                    <TableCell align="right">Settlement Rate</TableCell>
+                    <TableCell align="right">Exchange Gain/Loss</TableCell>
+                    <TableCell align="right">Platform Fees</TableCell>
+                    <TableCell align="right">Bank Charges</TableCell>
+                    <TableCell align="right">Net Gain/Loss</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {data.payments.map((payment) => (
+                    <TableRow
+                      key={payment.paymentId}
+                      hover
+                      sx={{ cursor: 'pointer' }}
+                      onClick={() => router.push(`/invoices/${payment.invoiceId}`)}
+                    >
+                      <TableCell>{format(new Date(payment.paymentDate), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>{payment.invoiceNumber}</TableCell>
+                      <TableCell>{payment.clientName}</TableCell>
+                      <TableCell align="right">{formatCurrency(payment.amount, payment.currency)}</TableCell>
+                      <TableCell align="right">{payment.bookingRate.toFixed(4)}</TableCell>
+                      <TableCell align="right">
+                        {payment.settlementRate !== null ? (
+                          payment.settlementRate.toFixed(4)
+                        ) : (
+                          <Chip label="Not recorded" size="small" color="warning" variant="outlined" />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        <GainLoss value={payment.exchangeGainLoss} />
+                      </TableCell>
+                      <TableCell align="right">{formatCurrency(payment.platformFeesInr, 'INR')}</TableCell>
+                      <TableCell align="right">{formatCurrency(payment.bankChargesInr, 'INR')}</TableCell>
+                      <TableCell align="right">
+                        <GainLoss value={payment.netGainLoss} bold />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+    </LocalizationProvider>
+  )
+}
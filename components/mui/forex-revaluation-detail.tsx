@@ -0,0 +1,276 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Grid,
+  Card,
+  CardContent,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Skeleton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material'
+import {
+  ArrowBack as BackIcon,
+  GetApp as ExportIcon,
+  Undo as ReverseIcon,
+} from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+
+interface ForexRevaluationDetailProps {
+  revaluationId: string
+}
+
+export function ForexRevaluationDetail({ revaluationId }: ForexRevaluationDetailProps) {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [reverseOpen, setReverseOpen] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const { data: revaluation, isLoading, error } = api.forexRevaluations.getById.useQuery({ id: revaluationId })
+
+  const reverseMutation = api.forexRevaluations.reverse.useMutation({
+    onSuccess: () => {
+      utils.forexRevaluations.getById.invalidate({ id: revaluationId })
+      utils.forexRevaluations.list.invalidate()
+      setReverseOpen(false)
+      enqueueSnackbar('Revaluation reversed', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const handleExport = async () => {
+    try {
+      const file = await utils.forexRevaluations.exportCsv.fetch({ id: revaluationId })
+      const blob = new Blob([file.content], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = file.fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      enqueueSnackbar(err instanceof Error ? err.message : 'Export failed', { variant: 'error' })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="text" width={300} height={40} />
+        <Skeleton variant="rectangular" height={400} sx={{ mt: 2 }} />
+      </Box>
+    )
+  }
+
+  if (error || !revaluation) {
+    return <Alert severity="error">{error?.message ?? 'Revaluation not found'}</Alert>
+  }
+
+  const summaryCards = [
+    { title: 'Open Invoices', value: String(revaluation.invoiceCount) },
+    { title: 'At Invoice Rates', value: formatCurrency(revaluation.bookedInr, 'INR') },
+    { title: 'At Closing Rates', value: formatCurrency(revaluation.revaluedInr, 'INR') },
+    {
+      title: 'Unrealised Gain/Loss',
+      value: formatCurrency(revaluation.gainLoss, 'INR'),
+      color: revaluation.gainLoss > 0 ? 'success.main' : revaluation.gainLoss < 0 ? 'error.main' : undefined,
+    },
+  ]
+
+  return (
+    <Box>
+      <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+        <Box>
+          <Button startIcon={<BackIcon />} onClick={() => router.push('/payments/forex/revaluations')} sx={{ mb: 1 }}>
+            Revaluations
+          </Button>
+          <Box display="flex" alignItems="center" gap={2}>
+            <Typography variant="h4" component="h1" fontWeight={600}>
+              Revaluation as of {format(new Date(revaluation.revaluationDate), 'dd MMM yyyy')}
+            </Typography>
+            <Chip
+              label={revaluation.status === 'POSTED' ? 'Posted' : 'Reversed'}
+              color={revaluation.status === 'POSTED' ? 'primary' : 'default'}
+            />
+          </Box>
+          {revaluation.notes && (
+            <Typography variant="body1" color="text.secondary" sx={{ mt: 1 }}>
+              {revaluation.notes}
+            </Typography>
+          )}
+        </Box>
+        <Box display="flex" gap={2}>
+          <Button variant="outlined" startIcon={<ExportIcon />} onClick={handleExport}>
+            Export CSV
+          </Button>
+          {revaluation.status === 'POSTED' && (
+            <Button variant="outlined" color="warning" startIcon={<ReverseIcon />} onClick={() => setReverseOpen(true)}>
+              Reverse
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {revaluation.status === 'REVERSED' && revaluation.reversedAt && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          Reversed on {format(new Date(revaluation.reversedAt), 'dd MMM yyyy')}
+          {revaluation.reversalReason ? `: ${revaluation.reversalReason}` : ''}
+        </Alert>
+      )}
+
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        {summaryCards.map((card) => (
+          <Grid key={card.title} size={{ xs: 12, sm: 6, lg: 3 }}>
+            <Card>
+              <CardContent>
+                <Typography color="text.secondary" variant="body2" gutterBottom>
+                  {card.title}
+                </Typography>
+                <Typography variant="h5" fontWeight={600} color={card.color}>
+                  {card.value}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Paper sx={{ mb: 3 }}>
+        <Box p={2}>
+          <Typography variant="h6">By Currency</Typography>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Currency</TableCell>
+                <TableCell align="right">Invoices</TableCell>
+                <TableCell align="right">Balance Due</TableCell>
+                <TableCell align="right">At Invoice Rates</TableCell>
+                <TableCell align="right">At Closing Rate</TableCell>
+                <TableCell align="right">Unrealised Gain/Loss</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {revaluation.summary.byCurrency.map((group) => (
+                <TableRow key={group.currency}>
+                  <TableCell>{group.currency}</TableCell>
+                  <TableCell align="right">{group.invoiceCount}</TableCell>
+                  <TableCell align="right">{formatCurrency(group.balanceDue, group.currency)}</TableCell>
+                  <TableCell align="right">{formatCurrency(group.bookedInr, 'INR')}</TableCell>
+                  <TableCell align="right">{formatCurrency(group.revaluedInr, 'INR')}</TableCell>
+                  <TableCell align="right">{formatCurrency(group.gainLoss, 'INR')}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Paper>
+        <Box p={2}>
+          <Typography variant="h6">Invoices</Typography>
+        </Box>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Invoice</TableCell>
+                <TableCell>Date</TableCell>
+                <TableCell>Client</TableCell>
+                <TableCell align="right">Balance Due</TableCell>
+                <TableCell align="right">Invoice Rate</TableCell>
+                <TableCell align="right">Closing Rate</TableCell>
+                <TableCell align="right">At Invoice Rate</TableCell>
+                <TableCell align="right">At Closing Rate</TableCell>
+                <TableCell align="right">Gain/Loss</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {revaluation.lines.map((line) => (
+                <TableRow
+                  key={line.id}
+                  hover={!!line.invoiceId}
+                  sx={{ cursor: line.invoiceId ? 'pointer' : undefined }}
+                  onClick={() => line.invoiceId && router.push(`/invoices/${line.invoiceId}`)}
+                >
+                  <TableCell>{line.invoiceNumber}</TableCell>
+                  <TableCell>{format(new Date(line.invoiceDate), 'dd MMM yyyy')}</TableCell>
+                  <TableCell>{line.clientName}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.balanceDue, line.currency)}</TableCell>
+                  <TableCell align="right">{line.bookingRate.toFixed(4)}</TableCell>
+                  <TableCell align="right">
+                    {line.closingRate.toFixed(4)}
+                    <Typography variant="caption" display="block" color="text.secondary">
+                      {line.rateSource}, {format(new Date(line.rateDate), 'dd MMM yyyy')}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(line.bookedInr, 'INR')}</TableCell>
+                  <TableCell align="right">{formatCurrency(line.revaluedInr, 'INR')}</TableCell>
+                  <TableCell align="right">
+                    <Typography
+                      variant="body2"
+                      fontWeight={600}
+                      color={line.gainLoss > 0 ? 'success.main' : line.gainLoss < 0 ? 'error.main' : 'text.secondary'}
+                    >
+                      {formatCurrency(line.gainLoss, 'INR')}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={reverseOpen} onClose={() => setReverseOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Reverse Revaluation</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            The unrealised gain/loss of {formatCurrency(revaluation.gainLoss, 'INR')} is reversed. The snapshot is kept
+            for your records, and a new revaluation can be posted for the same date.
+          </Typography>
+          <TextField
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            fullWidth
+            multiline
+            rows={2}
+            placeholder="e.g. Opening reversal for the new financial year"
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReverseOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={() => reverseMutation.mutate({ id: revaluationId, reason: reason.trim() || undefined })}
+            disabled={reverseMutation.isPending}
+          >
+            Reverse
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
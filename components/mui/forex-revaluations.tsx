@@ -0,0 +1,224 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Grid,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Tooltip,
+  Skeleton,
+} from '@mui/material'
+import { Visibility as ViewIcon, PlayArrow as RunIcon } from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { enqueueSnackbar } from 'notistack'
+import { format, startOfDay } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+
+/**
+ * 31 March of the last completed financial year
+ */
+function lastFiscalYearEnd(): Date {
+  const today = new Date()
+  return new Date(today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1, 2, 31)
+}
+
+function GainLoss({ value }: { value: number }) {
+  return (
+    <Typography
+      component="span"
+      variant="body2"
+      fontWeight={600}
+      color={value > 0 ? 'success.main' : value < 0 ? 'error.main' : 'text.secondary'}
+    >
+      {formatCurrency(value, 'INR')}
+    </Typography>
+  )
+}
+
+export function ForexRevaluations() {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [revaluationDate, setRevaluationDate] = useState<Date | null>(lastFiscalYearEnd)
+  const [notes, setNotes] = useState('')
+
+  const { data: revaluations, isLoading } = api.forexRevaluations.list.useQuery()
+  const { data: preview, isFetching: previewLoading } = api.forexRevaluations.preview.useQuery(
+    { revaluationDate: startOfDay(revaluationDate ?? new Date()) },
+    { enabled: !!revaluationDate }
+  )
+
+  const createMutation = api.forexRevaluations.create.useMutation({
+    onSuccess: (data) => {
+      utils.forexRevaluations.list.invalidate()
+      enqueueSnackbar(`Revaluation posted for ${data.invoiceCount} invoice(s)`, { variant: 'success' })
+      router.push(`/payments/forex/revaluations/${data.id}`)
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const handleRun = () => {
+    if (!revaluationDate) return
+    createMutation.mutate({ revaluationDate: startOfDay(revaluationDate), notes: notes.trim() || undefined })
+  }
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Box mb={4}>
+          <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+            Forex Revaluation
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Restate unpaid foreign currency invoices at the closing rate for your accounts
+          </Typography>
+        </Box>
+
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            New Revaluation
+          </Typography>
+          <Grid container spacing={2} alignItems="center">
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <DatePicker
+                label="Revaluation Date"
+                value={revaluationDate}
+                onChange={(newValue) => setRevaluationDate(newValue)}
+                disableFuture
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 6 }}>
+              <TextField
+                label="Notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                fullWidth
+                placeholder="e.g. FY 2024-25 year-end"
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <Button
+                variant="contained"
+                startIcon={<RunIcon />}
+                onClick={handleRun}
+                disabled={
+                  !revaluationDate ||
+                  createMutation.isPending ||
+                  previewLoading ||
+                  !preview ||
+                  preview.lines.length === 0 ||
+                  preview.missingRates.length > 0
+                }
+                fullWidth
+              >
+                Post Revaluation
+              </Button>
+            </Grid>
+          </Grid>
+
+          {previewLoading ? (
+            <Skeleton variant="rectangular" height={80} sx={{ mt: 2 }} />
+          ) : preview ? (
+            <Box mt={2}>
+              {preview.missingRates.length > 0 && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  No exchange rate available for {preview.missingRates.join(', ')} on this date
+                </Alert>
+              )}
+              {preview.lines.length === 0 ? (
+                <Alert severity="info">No foreign currency invoices had a balance due on this date</Alert>
+              ) : (
+                <Alert severity={preview.summary.gainLoss >= 0 ? 'success' : 'warning'}>
+                  {preview.summary.invoiceCount} open invoice(s) worth{' '}
+                  {preview.summary.byCurrency.map((group) => formatCurrency(group.balanceDue, group.currency)).join(' + ')}{' '}
+                  restate from {formatCurrency(preview.summary.bookedInr, 'INR')} to{' '}
+                  {formatCurrency(preview.summary.revaluedInr, 'INR')}, an unrealised gain/loss of{' '}
+                  {formatCurrency(preview.summary.gainLoss, 'INR')}
+                </Alert>
+              )}
+            </Box>
+          ) : null}
+        </Paper>
+
+        <Paper>
+          <Box p={2}>
+            <Typography variant="h6">Revaluation Runs</Typography>
+          </Box>
+          {isLoading ? (
+            <Box p={3}>
+              <Skeleton variant="rectangular" height={160} />
+            </Box>
+          ) : !revaluations || revaluations.length === 0 ? (
+            <Box p={6} textAlign="center">
+              <Typography color="text.secondary">No revaluations posted yet</Typography>
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Invoices</TableCell>
+                    <TableCell align="right">At Invoice Rates</TableCell>
+                    <TableCell align="right">At Closing Rates</TableCell>
+                    <TableCell align="right">Unrealised Gain/Loss</TableCell>
+                    <TableCell>Notes</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {revaluations.map((revaluation) => (
+                    <TableRow key={revaluation.id} hover>
+                      <TableCell>{format(new Date(revaluation.revaluationDate), 'dd MMM yyyy')}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={revaluation.status === 'POSTED' ? 'Posted' : 'Reversed'}
+                          color={revaluation.status === 'POSTED' ? 'primary' : 'default'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell align="right">{revaluation.invoiceCount}</TableCell>
+                      <TableCell align="right">{formatCurrency(revaluation.bookedInr, 'INR')}</TableCell>
+                      <TableCell align="right">{formatCurrency(revaluation.revaluedInr, 'INR')}</TableCell>
+                      <TableCell align="right">
+                        <GainLoss value={revaluation.gainLoss} />
+                      </TableCell>
+                      <TableCell>{revaluation.notes}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="View">
+                          <IconButton
+                            size="small"
+                            onClick={() => router.push(`/payments/forex/revaluations/${revaluation.id}`)}
+                          >
+                            <ViewIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+    </LocalizationProvider>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import React from 'react'
+import {
+  Alert,
+  Box,
+  Chip,
+  Paper,
+  Skeleton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import type { SnapshotChange } from '@/lib/invoice-revisions'
+import { AMENDED_DOCUMENT_LABELS } from '@/lib/gst-filing/amendments'
+import { FILING_TYPE_LABELS, formatReturnPeriod } from '@/lib/gst-filing/qrmp'
+
+const DATE_FIELDS = ['invoiceDate', 'dueDate', 'paymentDate', 'fircDate', 'noteDate']
+
+/**
+ * Show a changed value; dates are stored as ISO strings in snapshots
+ */
+function formatChangeValue(change: SnapshotChange, value: SnapshotChange['to']): string {
+  if (value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (DATE_FIELDS.includes(change.field) && typeof value === 'string') {
+    return format(new Date(value), 'dd MMM yyyy')
+  }
+  return String(value)
+}
+
+/**
+ * Changes made to documents dated in filed periods, latest first, with the
+ * GSTR-1 each invoice or note amendment is reported in (Table 9A/9C)
+ */
+export function AmendmentsLog() {
+  const { data: amendments, isLoading } = api.filingAmendments.list.useQuery()
+
+  if (isLoading) {
+    return <Skeleton variant="rectangular" height={200} />
+  }
+
+  if (!amendments || amendments.length === 0) {
+    return (
+      <Alert severity="info">
+        No amendments recorded. Changes to invoices, payments and notes dated in a filed period are listed here.
+      </Alert>
+    )
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {amendments.map((amendment) => (
+        <Paper key={amendment.id} variant="outlined" sx={{ p: 2 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={2}>
+            <Box>
+              <Box display="flex" alignItems="center" gap={1}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  {AMENDED_DOCUMENT_LABELS[amendment.documentType]} {amendment.documentNumber}
+                </Typography>
+                {amendment.isDeletion && <Chip label="Deleted" size="small" color="error" />}
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                Dated {format(new Date(amendment.documentDate), 'dd MMM yyyy')}
+                {' · '}
+                Amended {format(new Date(amendment.createdAt), 'dd MMM yyyy, HH:mm')}
+              </Typography>
+              <Typography variant="body2" sx={{ mt: 0.5 }}>
+                {amendment.reason}
+              </Typography>
+            </Box>
+            {amendment.amendmentTable && (
+              <Chip
+                label={
+                  amendment.reportedInPeriod
+                    ? `Table ${amendment.amendmentTable} · ${FILING_TYPE_LABELS[amendment.reportedInPeriod.filingType]} ${formatReturnPeriod(
+                        amendment.reportedInPeriod.period,
+                        amendment.reportedInPeriod.frequency,
+                        amendment.reportedInPeriod.filingType
+                      )}`
+                    : `Table ${amendment.amendmentTable} · next GSTR-1`
+                }
+                size="small"
+                color={amendment.reportedInPeriod ? 'primary' : 'warning'}
+                variant="outlined"
+              />
+            )}
+          </Box>
+
+          {amendment.changes.length > 0 && (
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>As filed</TableCell>
+                  <TableCell>Amended</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {amendment.changes.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell>{change.label}</TableCell>
+                    <TableCell sx={{ color: 'error.main', whiteSpace: 'pre-line' }}>
+                      {formatChangeValue(change, change.from)}
+                    </TableCell>
+                    <TableCell sx={{ color: 'success.main', whiteSpace: 'pre-line' }}>
+                      {formatChangeValue(change, change.to)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Paper>
+      ))}
+    </Box>
+  )
+}
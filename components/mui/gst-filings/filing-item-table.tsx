@@ -111,6 +111,7 @@ function TableCodeChip({ tableCode }: { tableCode: string }) {
     if (tableCode === '3.1(b)') return 'success' // Zero-rated
     if (tableCode === '3.1(d)') return 'warning' // Inward RCM
     if (tableCode === '3.1(a)') return 'info' // Outward taxable
+    if (tableCode === '9A' || tableCode === '9C') return 'warning' // Amendments
     return 'default'
   }
 
@@ -183,7 +184,7 @@ export function FilingItemTable({
                   <Switch
                     checked={item.isIncluded}
                     onChange={(e) => onToggleInclude?.(item.id, e.target.checked)}
-                    disabled={isUpdating}
+                    disabled={isUpdating || !onToggleInclude}
                     size="small"
                   />
                 </TableCell>
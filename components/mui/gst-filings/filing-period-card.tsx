@@ -19,6 +19,8 @@ import {
 } from '@mui/icons-material'
 import { formatCurrency } from '@/lib/invoice-utils'
 import { FilingStatus, FilingType } from '@prisma/client'
+import { FILING_TYPE_LABELS } from '@/lib/gst-filing/qrmp'
+import { isFiledStatus } from '@/lib/gst-filing/amendments'
 
 interface FilingPeriodCardProps {
   id: string
@@ -80,7 +82,7 @@ export function FilingPeriodCard({
   }
 
   const getDueDateIcon = () => {
-    if (status === 'FILED') return <CheckIcon fontSize="small" color="success" />
+    if (isFiledStatus(status)) return <CheckIcon fontSize="small" color="success" />
     if (isOverdue) return <WarningIcon fontSize="small" color="error" />
     return <CalendarIcon fontSize="small" />
   }
@@ -92,7 +94,7 @@ export function FilingPeriodCard({
         display: 'flex',
         flexDirection: 'column',
         borderTop: 3,
-        borderColor: filingType === 'GSTR1' ? 'primary.main' : 'secondary.main',
+        borderColor: filingType === 'GSTR1' || filingType === 'IFF' ? 'primary.main' : 'secondary.main',
       }}
     >
       {isGenerating && <LinearProgress />}
@@ -100,7 +102,7 @@ export function FilingPeriodCard({
         <Stack direction="row" justifyContent="space-between" alignItems="flex-start" mb={2}>
           <Box>
             <Typography variant="h6" fontWeight="bold">
-              {filingType === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B'}
+              {FILING_TYPE_LABELS[filingType]}
             </Typography>
             <Typography variant="body2" color="text.secondary">
               {formattedPeriod}
@@ -113,7 +115,7 @@ export function FilingPeriodCard({
           <Stack direction="row" alignItems="center" spacing={1}>
             {getDueDateIcon()}
             <Typography variant="body2" color={getDueDateColor()}>
-              {status === 'FILED'
+              {isFiledStatus(status)
                 ? 'Filed'
                 : isOverdue
                   ? `Overdue by ${Math.abs(daysUntilDue)} days`
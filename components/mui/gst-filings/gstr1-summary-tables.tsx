@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react'
+import {
+  Box,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material'
+import { formatCurrency } from '@/lib/invoice-utils'
+import {
+  DOCUMENT_NATURE_LABELS,
+  DOCUMENT_NATURE_NUMBERS,
+  type DocumentSeriesSummary,
+} from '@/lib/gst-filing/documents'
+import type { HsnSummaryRow } from '@/lib/gst-filing/hsn-summary'
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <Box textAlign="center" py={4}>
+      <Typography color="text.secondary">{message}</Typography>
+    </Box>
+  )
+}
+
+/**
+ * GSTR-1 Table 12: HSN/SAC-wise summary, B2B rows first
+ */
+export function HsnSummaryTable({ rows }: { rows: HsnSummaryRow[] }) {
+  if (rows.length === 0) {
+    return <EmptyState message="No invoices with line items are included in this return." />
+  }
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Supply</TableCell>
+            <TableCell>HSN/SAC</TableCell>
+            <TableCell>Description</TableCell>
+            <TableCell>UQC</TableCell>
+            <TableCell align="right">Quantity</TableCell>
+            <TableCell align="right">Rate</TableCell>
+            <TableCell align="right">Taxable Value</TableCell>
+            <TableCell align="right">IGST</TableCell>
+            <TableCell align="right">CGST</TableCell>
+            <TableCell align="right">SGST</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={`${row.supplyType}-${row.serviceCode}-${row.gstRate}`}>
+              <TableCell>
+                <Chip label={row.supplyType} size="small" variant="outlined" />
+              </TableCell>
+              <TableCell>{row.serviceCode}</TableCell>
+              <TableCell>{row.description || '—'}</TableCell>
+              <TableCell>{row.uqc}</TableCell>
+              <TableCell align="right">{row.uqc === 'NA' ? '—' : row.quantity}</TableCell>
+              <TableCell align="right">{row.gstRate}%</TableCell>
+              <TableCell align="right">{formatCurrency(row.taxableValue, 'INR')}</TableCell>
+              <TableCell align="right">{formatCurrency(row.igst, 'INR')}</TableCell>
+              <TableCell align="right">{formatCurrency(row.cgst, 'INR')}</TableCell>
+              <TableCell align="right">{formatCurrency(row.sgst, 'INR')}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  )
+}
+
+/**
+ * GSTR-1 Table 13: number range per document series with total and cancelled counts
+ */
+export function DocumentsIssuedTable({ rows }: { rows: DocumentSeriesSummary[] }) {
+  if (rows.length === 0) {
+    return <EmptyState message="No documents were issued in this period." />
+  }
+
+  const sorted = [...rows].sort((a, b) => DOCUMENT_NATURE_NUMBERS[a.nature] - DOCUMENT_NATURE_NUMBERS[b.nature])
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Nature of Document</TableCell>
+            <TableCell>From</TableCell>
+            <TableCell>To</TableCell>
+            <TableCell align="right">Total Issued</TableCell>
+            <TableCell align="right">Cancelled</TableCell>
+            <TableCell align="right">Net Issued</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {sorted.map((row) => (
+            <TableRow key={`${row.nature}-${row.from}`}>
+              <TableCell>
+                {DOCUMENT_NATURE_NUMBERS[row.nature]}. {DOCUMENT_NATURE_LABELS[row.nature]}
+              </TableCell>
+              <TableCell>{row.from}</TableCell>
+              <TableCell>{row.to}</TableCell>
+              <TableCell align="right">{row.totalIssued}</TableCell>
+              <TableCell align="right">{row.cancelled}</TableCell>
+              <TableCell align="right">{row.netIssued}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  )
+}
@@ -25,6 +25,11 @@ import {
   Stack,
   Tooltip,
   Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
 } from '@mui/material'
 import {
   CheckCircle as ApproveIcon,
@@ -37,11 +42,14 @@ import {
   Edit as EditIcon,
   AutoAwesome as AIIcon,
   Warning as WarningIcon,
+  Payment as PaymentIcon,
 } from '@mui/icons-material'
 import { DocumentSourceType, DocumentStatus, DocumentClassification, ReviewStatus } from '@prisma/client'
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import { enqueueSnackbar } from 'notistack'
 import { api } from '@/lib/trpc/client'
+import { EnhancedPaymentModal, type PaymentMethod } from '@/components/mui/enhanced-payment-modal'
+import { toPaymentPrefill, type StoredPlatformPayment } from '@/lib/inbox/parsers/platform-payments'
 
 interface DocumentReviewCardProps {
   documentId: string
@@ -51,6 +59,9 @@ interface DocumentReviewCardProps {
 const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
   [DocumentSourceType.UPWORK]: 'Upwork',
   [DocumentSourceType.TOPTAL]: 'Toptal',
+  [DocumentSourceType.PAYONEER]: 'Payoneer',
+  [DocumentSourceType.WISE]: 'Wise',
+  [DocumentSourceType.PAYPAL]: 'PayPal',
   [DocumentSourceType.CLIENT_INVOICE]: 'Client Invoice',
   [DocumentSourceType.VENDOR_BILL]: 'Vendor Bill',
   [DocumentSourceType.BANK_STATEMENT]: 'Bank Statement',
@@ -78,6 +89,13 @@ const CLASSIFICATION_COLORS: Record<DocumentClassification, 'success' | 'info' |
   [DocumentClassification.UNKNOWN]: 'default',
 }
 
+// Payment method for payments read from a platform export
+const PLATFORM_PAYMENT_METHODS: Partial<Record<DocumentSourceType, PaymentMethod>> = {
+  [DocumentSourceType.PAYONEER]: 'PAYONEER',
+  [DocumentSourceType.WISE]: 'WISE',
+  [DocumentSourceType.PAYPAL]: 'PAYPAL',
+}
+
 function getFileIcon(mimeType: string) {
   if (mimeType === 'text/csv') return <CsvIcon />
   if (mimeType.startsWith('image/')) return <ImageIcon />
@@ -105,8 +123,12 @@ export function DocumentReviewCard({ documentId, onActionComplete }: DocumentRev
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [rejectReason, setRejectReason] = useState('')
   const [newClassification, setNewClassification] = useState<DocumentClassification | ''>('')
+  const [paymentToRecord, setPaymentToRecord] = useState<StoredPlatformPayment | null>(null)
+  const [invoiceIdToPay, setInvoiceIdToPay] = useState('')
+  const [paymentModalOpen, setPaymentModalOpen] = useState(false)
 
   const { data: document, isLoading, refetch } = api.inbox.getById.useQuery({ id: documentId })
+  const { data: invoices } = api.invoices.list.useQuery(undefined, { enabled: !!paymentToRecord })
 
   const approveMutation = api.inbox.approve.useMutation({
     onSuccess: () => {
@@ -187,8 +209,24 @@ export function DocumentReviewCard({ documentId, onActionComplete }: DocumentRev
   const extractedData = document.extractedData as {
     classificationReasons?: string[]
     error?: string
+    platformPayments?: StoredPlatformPayment[]
   } | null
 
+  const openInvoices = (invoices ?? []).filter(
+    (invoice) =>
+      invoice.currency === paymentToRecord?.currency &&
+      Number(invoice.balanceDue) > 0 &&
+      invoice.status !== 'DRAFT' &&
+      invoice.status !== 'CANCELLED'
+  )
+  const invoiceToPay = openInvoices.find((invoice) => invoice.id === invoiceIdToPay)
+
+  const closePaymentDialogs = () => {
+    setPaymentModalOpen(false)
+    setPaymentToRecord(null)
+    setInvoiceIdToPay('')
+  }
+
   return (
     <>
       <Card>
@@ -340,6 +378,47 @@ export function DocumentReviewCard({ documentId, onActionComplete }: DocumentRev
             </Grid>
           </Grid>
 
+          {/* Payments read from a platform export */}
+          {extractedData?.platformPayments && extractedData.platformPayments.length > 0 && (
+            <Box mt={3}>
+              <Typography variant="subtitle2" color="text.secondary" gutterBottom>
+                Received Payments
+              </Typography>
+              <Paper variant="outlined">
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Payer</TableCell>
+                      <TableCell align="right">Gross</TableCell>
+                      <TableCell align="right">Fee</TableCell>
+                      <TableCell align="right">Rate</TableCell>
+                      <TableCell align="right">INR Credited</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {extractedData.platformPayments.map((payment, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{format(parseISO(payment.date), 'dd MMM yyyy')}</TableCell>
+                        <TableCell>{payment.payerName || payment.description || '-'}</TableCell>
+                        <TableCell align="right">{formatCurrency(payment.grossAmount, payment.currency)}</TableCell>
+                        <TableCell align="right">{formatCurrency(payment.fee, payment.currency)}</TableCell>
+                        <TableCell align="right">{payment.exchangeRate ?? '-'}</TableCell>
+                        <TableCell align="right">{formatCurrency(payment.inrCredited, 'INR')}</TableCell>
+                        <TableCell align="right">
+                          <Button size="small" startIcon={<PaymentIcon />} onClick={() => setPaymentToRecord(payment)}>
+                            Record
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Paper>
+            </Box>
+          )}
+
           <Divider sx={{ my: 2 }} />
 
           {/* Review Status */}
@@ -433,6 +512,59 @@ export function DocumentReviewCard({ documentId, onActionComplete }: DocumentRev
         </DialogActions>
       </Dialog>
 
+      {/* Choose the invoice a platform payment pays */}
+      <Dialog open={!!paymentToRecord && !paymentModalOpen} onClose={closePaymentDialogs} maxWidth="sm" fullWidth>
+        <DialogTitle>Record Payment Against Invoice</DialogTitle>
+        <DialogContent>
+          {paymentToRecord && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {formatCurrency(paymentToRecord.grossAmount, paymentToRecord.currency)} received on{' '}
+              {format(parseISO(paymentToRecord.date), 'dd MMM yyyy')}
+              {paymentToRecord.payerName ? ` from ${paymentToRecord.payerName}` : ''}
+            </Typography>
+          )}
+          {openInvoices.length === 0 ? (
+            <Alert severity="info">No unpaid {paymentToRecord?.currency} invoices</Alert>
+          ) : (
+            <FormControl fullWidth>
+              <InputLabel>Invoice</InputLabel>
+              <Select value={invoiceIdToPay} label="Invoice" onChange={(e) => setInvoiceIdToPay(e.target.value)}>
+                {openInvoices.map((invoice) => (
+                  <MenuItem key={invoice.id} value={invoice.id}>
+                    {invoice.invoiceNumber} · {invoice.client?.name ?? 'Self invoice'} ·{' '}
+                    {formatCurrency(Number(invoice.balanceDue), invoice.currency)} due
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closePaymentDialogs}>Cancel</Button>
+          <Button variant="contained" disabled={!invoiceToPay} onClick={() => setPaymentModalOpen(true)}>
+            Continue
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {paymentToRecord && invoiceToPay && paymentModalOpen && (
+        <EnhancedPaymentModal
+          invoiceId={invoiceToPay.id}
+          invoiceNumber={invoiceToPay.invoiceNumber}
+          currency={invoiceToPay.currency}
+          totalAmount={Number(invoiceToPay.totalAmount)}
+          amountPaid={Number(invoiceToPay.amountPaid)}
+          balanceDue={Number(invoiceToPay.balanceDue)}
+          open
+          onClose={closePaymentDialogs}
+          prefill={{
+            ...toPaymentPrefill(paymentToRecord),
+            paymentMethod: PLATFORM_PAYMENT_METHODS[document.sourceType],
+            notes: `From ${document.originalFilename}`,
+          }}
+        />
+      )}
+
       {/* Edit Classification Dialog */}
       <Dialog open={editDialogOpen} onClose={() => setEditDialogOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Update Classification</DialogTitle>
@@ -42,6 +42,9 @@ interface DocumentUploadZoneProps {
 const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
   [DocumentSourceType.UPWORK]: 'Upwork',
   [DocumentSourceType.TOPTAL]: 'Toptal',
+  [DocumentSourceType.PAYONEER]: 'Payoneer',
+  [DocumentSourceType.WISE]: 'Wise',
+  [DocumentSourceType.PAYPAL]: 'PayPal',
   [DocumentSourceType.CLIENT_INVOICE]: 'Client Invoice',
   [DocumentSourceType.VENDOR_BILL]: 'Vendor Bill',
   [DocumentSourceType.BANK_STATEMENT]: 'Bank Statement',
@@ -52,6 +55,9 @@ const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
 const SOURCE_TYPE_HINTS: Record<DocumentSourceType, string> = {
   [DocumentSourceType.UPWORK]: 'Upload Upwork CSV transaction history or receipt',
   [DocumentSourceType.TOPTAL]: 'Upload Toptal payment receipt PDF',
+  [DocumentSourceType.PAYONEER]: 'Upload Payoneer transactions CSV or payment receipt',
+  [DocumentSourceType.WISE]: 'Upload Wise statement or transaction history CSV',
+  [DocumentSourceType.PAYPAL]: 'Upload PayPal activity download CSV',
   [DocumentSourceType.CLIENT_INVOICE]: 'Upload invoice sent to client',
   [DocumentSourceType.VENDOR_BILL]: 'Upload bill/invoice from vendor',
   [DocumentSourceType.BANK_STATEMENT]: 'Upload bank statement for reconciliation',
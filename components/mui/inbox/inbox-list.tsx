@@ -49,6 +49,9 @@ interface InboxListProps {
 const SOURCE_TYPE_LABELS: Record<DocumentSourceType, string> = {
   [DocumentSourceType.UPWORK]: 'Upwork',
   [DocumentSourceType.TOPTAL]: 'Toptal',
+  [DocumentSourceType.PAYONEER]: 'Payoneer',
+  [DocumentSourceType.WISE]: 'Wise',
+  [DocumentSourceType.PAYPAL]: 'PayPal',
   [DocumentSourceType.CLIENT_INVOICE]: 'Client Invoice',
   [DocumentSourceType.VENDOR_BILL]: 'Vendor Bill',
   [DocumentSourceType.BANK_STATEMENT]: 'Bank Statement',
@@ -30,6 +30,9 @@ import {
   DialogContent,
   DialogContentText,
   DialogActions,
+  TextField,
+  Tabs,
+  Tab,
 } from '@mui/material'
 import Grid from '@mui/material/Grid'
 import {
@@ -47,6 +50,9 @@ import { formatCurrency, formatINR } from '@/lib/invoice-utils'
 import { MUIInvoiceActions } from './invoice-actions'
 import { EnhancedPaymentModal as MUIPaymentModal } from './enhanced-payment-modal'
 import { EditPaymentModal } from './edit-payment-modal'
+import { AmendmentReasonDialog } from './amendment-reason-dialog'
+import { CreditDebitNotes } from './credit-debit-notes'
+import { InvoiceHistory } from './invoice-history'
 import { format } from 'date-fns'
 import { toSafeNumber } from '@/lib/utils/decimal'
 
@@ -58,6 +64,8 @@ interface InvoiceWithRelations {
   invoiceDate: Date
   dueDate: Date
   status: string
+  cancelledAt: Date | null
+  cancellationReason: string | null
   paymentStatus: string
   pdfUrl: string | null
   pdfStatus?: string | null
@@ -71,11 +79,13 @@ interface InvoiceWithRelations {
   totalAmount: number
   amountPaid: number
   balanceDue: number
+  noteAdjustment: number
   notes: string | null
   bankDetails: string | null
   placeOfSupply: string
   serviceCode: string
   igstRate: number
+  exportWithPayment: boolean
   client: {
     id: string
     name: string
@@ -97,6 +107,12 @@ interface InvoiceWithRelations {
     amount: {
       toNumber: () => number
     }
+    discountAmount: {
+      toNumber: () => number
+    }
+    gstRate: {
+      toNumber: () => number
+    }
     serviceCode: string
   }>
   lut: {
@@ -113,11 +129,17 @@ interface InvoiceDetailProps {
 
 export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
   const router = useRouter()
+  const utils = api.useUtils()
   const [showPaymentModal, setShowPaymentModal] = useState(false)
   const [showEditPaymentModal, setShowEditPaymentModal] = useState(false)
   const [statusMenuAnchor, setStatusMenuAnchor] = useState<null | HTMLElement>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [showCancelDialog, setShowCancelDialog] = useState(false)
+  const [cancellationReason, setCancellationReason] = useState('')
+  const [activeTab, setActiveTab] = useState(0)
   const [paymentToDelete, setPaymentToDelete] = useState<string | null>(null)
+  // Filed returns covering the payment to delete, while waiting for an amendment reason
+  const [deleteFiledReturns, setDeleteFiledReturns] = useState<string | null>(null)
   const [selectedPayment, setSelectedPayment] = useState<{
     id: string
     amount: number | { toNumber: () => number }
@@ -174,6 +196,14 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
     },
   })
 
+  const cancelInvoiceMutation = api.invoices.cancel.useMutation({
+    onSuccess: () => {
+      refetch()
+      setShowCancelDialog(false)
+      setCancellationReason('')
+    },
+  })
+
   const regeneratePDFMutation = api.invoices.regeneratePDF.useMutation({
     onSuccess: () => {
       console.log('PDF regeneration triggered successfully')
@@ -191,6 +221,8 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
   const deletePaymentMutation = api.payments.delete.useMutation({
     onSuccess: () => {
       refetch()
+      utils.gstFiling.invalidate()
+      utils.filingAmendments.invalidate()
       setShowDeleteConfirm(false)
       setPaymentToDelete(null)
     },
@@ -222,7 +254,16 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
     if (invoice) {
       updateStatusMutation.mutate({
         id: invoice.id,
-        status: newStatus as 'DRAFT' | 'SENT' | 'CANCELLED',
+        status: newStatus as 'DRAFT' | 'SENT',
+      })
+    }
+  }
+
+  const handleCancelInvoice = () => {
+    if (invoice) {
+      cancelInvoiceMutation.mutate({
+        id: invoice.id,
+        reason: cancellationReason,
       })
     }
   }
@@ -262,10 +303,19 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
     setShowDeleteConfirm(true)
   }
 
-  const confirmDeletePayment = () => {
-    if (paymentToDelete) {
-      deletePaymentMutation.mutate({ id: paymentToDelete })
+  const confirmDeletePayment = async () => {
+    const payment = payments?.find((p) => p.id === paymentToDelete)
+    if (!payment) return
+
+    // Payments dated in a filed period are deleted as amendments
+    const lock = await utils.filingAmendments.getLock.fetch({ dates: [new Date(payment.paymentDate)] })
+    if (lock.returns.length > 0) {
+      setShowDeleteConfirm(false)
+      setDeleteFiledReturns(lock.description ?? '')
+      return
     }
+
+    deletePaymentMutation.mutate({ id: payment.id })
   }
 
   if (isLoading) {
@@ -411,8 +461,18 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
     return paymentStatus
   }
 
+  const isCancelled = typedInvoice.status === 'CANCELLED'
+
   return (
     <Box>
+      {isCancelled && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          This invoice was cancelled
+          {typedInvoice.cancelledAt && ` on ${format(new Date(typedInvoice.cancelledAt), 'dd MMM yyyy')}`}.
+          {typedInvoice.cancellationReason && ` Reason: ${typedInvoice.cancellationReason}`}
+        </Alert>
+      )}
+
       {/* Header */}
       <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
         <Box>
@@ -428,6 +488,7 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
             variant="outlined"
             startIcon={<EditIcon />}
             onClick={() => router.push(`/invoices/${typedInvoice.id}/edit`)}
+            disabled={isCancelled}
             aria-label="Edit invoice"
           >
             Edit
@@ -472,7 +533,12 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
         </Box>
       </Box>
 
-      <Card>
+      <Tabs value={activeTab} onChange={(_, value) => setActiveTab(value)} sx={{ mb: 3 }}>
+        <Tab label="Details" />
+        <Tab label="History" />
+      </Tabs>
+
+      <Card hidden={activeTab !== 0}>
         <CardContent sx={{ p: 4 }}>
           {/* Invoice Header Info */}
           <Grid container spacing={4} sx={{ mb: 4 }}>
@@ -581,6 +647,13 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
                   </Typography>
                 </Grid>
               )}
+              {typedInvoice.exportWithPayment && (
+                <Grid size={12}>
+                  <Typography variant="body2" color="text.secondary">
+                    Export with payment of IGST: <strong>refund claimable</strong>
+                  </Typography>
+                </Grid>
+              )}
             </Grid>
           </Box>
 
@@ -601,28 +674,42 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
               <TableHead>
                 <TableRow>
                   <TableCell>Description</TableCell>
+                  <TableCell>SAC</TableCell>
                   <TableCell align="right">Qty</TableCell>
                   <TableCell align="right">Rate</TableCell>
+                  <TableCell align="right">Discount</TableCell>
+                  <TableCell align="right">GST %</TableCell>
                   <TableCell align="right">Amount ({typedInvoice.currency})</TableCell>
                   <TableCell align="right">Amount (INR)</TableCell>
                 </TableRow>
               </TableHead>
               <TableBody>
-                {typedInvoice.lineItems.map((item) => (
-                  <TableRow key={item.id}>
-                    <TableCell>{item.description}</TableCell>
-                    <TableCell align="right">{toSafeNumber(item.quantity)}</TableCell>
-                    <TableCell align="right">
-                      {formatCurrency(toSafeNumber(item.rate), typedInvoice.currency)}
-                    </TableCell>
-                    <TableCell align="right">
-                      {formatCurrency(toSafeNumber(item.amount), typedInvoice.currency)}
-                    </TableCell>
-                    <TableCell align="right">
-                      {formatINR(toSafeNumber(item.amount) * Number(typedInvoice.exchangeRate))}
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {typedInvoice.lineItems.map((item) => {
+                  // Amounts are shown net of the line discount (taxable value)
+                  const taxableValue = toSafeNumber(item.amount) - toSafeNumber(item.discountAmount)
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.description}</TableCell>
+                      <TableCell>{item.serviceCode}</TableCell>
+                      <TableCell align="right">{toSafeNumber(item.quantity)}</TableCell>
+                      <TableCell align="right">
+                        {formatCurrency(toSafeNumber(item.rate), typedInvoice.currency)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {toSafeNumber(item.discountAmount) > 0
+                          ? `-${formatCurrency(toSafeNumber(item.discountAmount), typedInvoice.currency)}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell align="right">{toSafeNumber(item.gstRate)}%</TableCell>
+                      <TableCell align="right">
+                        {formatCurrency(taxableValue, typedInvoice.currency)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatINR(taxableValue * Number(typedInvoice.exchangeRate))}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
               </TableBody>
             </Table>
           </TableContainer>
@@ -665,6 +752,21 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
                     </Typography>
                   </Grid>
 
+                  {/* Credit/Debit Note Adjustment */}
+                  {Number(typedInvoice.noteAdjustment) !== 0 && (
+                    <>
+                      <Grid size={6}>
+                        <Typography variant="body2" color="text.secondary">Credit/Debit Notes:</Typography>
+                      </Grid>
+                      <Grid size={6} sx={{ textAlign: "right" }}>
+                        <Typography variant="body2">
+                          {Number(typedInvoice.noteAdjustment) > 0 ? '+' : '−'}
+                          {formatCurrency(Math.abs(Number(typedInvoice.noteAdjustment)), typedInvoice.currency)}
+                        </Typography>
+                      </Grid>
+                    </>
+                  )}
+
                   {/* Payment Information */}
                   {(typedInvoice.paymentStatus === 'PARTIALLY_PAID' || typedInvoice.paymentStatus === 'PAID') && (
                     <>
@@ -698,7 +800,7 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
                   )}
 
                   {/* Record Payment Button */}
-                  {typedInvoice.paymentStatus !== 'PAID' && (
+                  {typedInvoice.paymentStatus !== 'PAID' && !isCancelled && (
                     <Grid size={12}>
                       <Button
                         fullWidth
@@ -842,9 +944,19 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
               </Grid>
             </Box>
           )}
+
+          {/* Credit/Debit Notes */}
+          <CreditDebitNotes
+            invoiceId={typedInvoice.id}
+            invoiceStatus={typedInvoice.status}
+            currency={typedInvoice.currency}
+            onChange={() => refetch()}
+          />
         </CardContent>
       </Card>
 
+      {activeTab === 1 && <InvoiceHistory invoiceId={typedInvoice.id} />}
+
       {/* Payment Modal */}
       <MUIPaymentModal
         invoiceId={typedInvoice.id}
@@ -919,6 +1031,22 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
         </DialogActions>
       </Dialog>
       
+      <AmendmentReasonDialog
+        open={deleteFiledReturns !== null}
+        document={`The payment against ${typedInvoice.invoiceNumber}`}
+        filedReturns={deleteFiledReturns}
+        isDeletion
+        isSubmitting={deletePaymentMutation.isPending}
+        onClose={() => {
+          setDeleteFiledReturns(null)
+          setPaymentToDelete(null)
+        }}
+        onConfirm={(reason) => {
+          if (paymentToDelete) deletePaymentMutation.mutate({ id: paymentToDelete, amendmentReason: reason })
+          setDeleteFiledReturns(null)
+        }}
+      />
+
       {/* Status Update Menu */}
       <Menu
         anchorEl={statusMenuAnchor}
@@ -927,7 +1055,7 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
       >
         <MenuItem 
           onClick={() => handleStatusUpdate('DRAFT')}
-          disabled={typedInvoice.status === 'DRAFT'}
+          disabled={typedInvoice.status === 'DRAFT' || isCancelled}
         >
           <ListItemIcon>
             <DraftIcon fontSize="small" />
@@ -936,7 +1064,7 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
         </MenuItem>
         <MenuItem 
           onClick={() => handleStatusUpdate('SENT')}
-          disabled={typedInvoice.status === 'SENT'}
+          disabled={typedInvoice.status === 'SENT' || typedInvoice.status === 'OVERDUE' || isCancelled}
         >
           <ListItemIcon>
             <SendIcon fontSize="small" />
@@ -944,8 +1072,11 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
           <ListItemText>Sent</ListItemText>
         </MenuItem>
         <MenuItem 
-          onClick={() => handleStatusUpdate('CANCELLED')}
-          disabled={typedInvoice.status === 'CANCELLED'}
+          onClick={() => {
+            setStatusMenuAnchor(null)
+            setShowCancelDialog(true)
+          }}
+          disabled={isCancelled}
         >
           <ListItemIcon>
             <CancelIcon fontSize="small" color="error" />
@@ -953,6 +1084,55 @@ export function MUIInvoiceDetail({ invoiceId }: InvoiceDetailProps) {
           <ListItemText>Cancelled</ListItemText>
         </MenuItem>
       </Menu>
+
+      {/* Cancel Invoice Dialog */}
+      <Dialog
+        open={showCancelDialog}
+        onClose={() => setShowCancelDialog(false)}
+        aria-labelledby="cancel-dialog-title"
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle id="cancel-dialog-title">
+          Cancel Invoice #{typedInvoice.invoiceNumber}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            The invoice keeps its number and is reported as cancelled in the GSTR-1 documents summary.
+            Its share link stops working and the PDF is marked CANCELLED. This cannot be undone.
+          </DialogContentText>
+          {cancelInvoiceMutation.error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {cancelInvoiceMutation.error.message}
+            </Alert>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            rows={2}
+            label="Reason for cancellation"
+            value={cancellationReason}
+            onChange={(e) => setCancellationReason(e.target.value)}
+            disabled={cancelInvoiceMutation.isPending}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => setShowCancelDialog(false)}
+            disabled={cancelInvoiceMutation.isPending}
+          >
+            Keep Invoice
+          </Button>
+          <Button
+            onClick={handleCancelInvoice}
+            color="error"
+            variant="contained"
+            disabled={cancelInvoiceMutation.isPending || cancellationReason.trim().length < 3}
+          >
+            {cancelInvoiceMutation.isPending ? 'Cancelling...' : 'Cancel Invoice'}
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   )
 }
@@ -0,0 +1,114 @@
+'use client'
+
+import React from 'react'
+import {
+  Box,
+  Typography,
+  Paper,
+  Chip,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Alert,
+  Skeleton,
+} from '@mui/material'
+import { PictureAsPdf as PdfIcon } from '@mui/icons-material'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import type { SnapshotChange } from '@/lib/invoice-revisions'
+
+interface InvoiceHistoryProps {
+  invoiceId: string
+}
+
+/**
+ * Show a changed value; dates are stored as ISO strings in snapshots
+ */
+function formatChangeValue(change: SnapshotChange, value: SnapshotChange['to']): string {
+  if (value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if ((change.field === 'invoiceDate' || change.field === 'dueDate') && typeof value === 'string') {
+    return format(new Date(value), 'dd MMM yyyy')
+  }
+  return String(value)
+}
+
+export function InvoiceHistory({ invoiceId }: InvoiceHistoryProps) {
+  const { data: revisions, isLoading } = api.invoices.getRevisionHistory.useQuery({ invoiceId })
+
+  if (isLoading) {
+    return <Skeleton variant="rectangular" height={200} />
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return (
+      <Alert severity="info">
+        No changes recorded yet. A version is saved every time the invoice is edited.
+      </Alert>
+    )
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap={2}>
+      {revisions.map((revision) => (
+        <Paper key={revision.id} variant="outlined" sx={{ p: 2 }}>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={revision.changes.length > 0 ? 2 : 0}>
+            <Box>
+              <Box display="flex" alignItems="center" gap={1}>
+                <Typography variant="subtitle1" fontWeight={600}>
+                  Version {revision.version}
+                </Typography>
+                {revision.isLatest && <Chip label="Current" size="small" color="primary" />}
+              </Box>
+              <Typography variant="body2" color="text.secondary">
+                {format(new Date(revision.createdAt), 'dd MMM yyyy, HH:mm')}
+                {' · '}
+                {revision.changedBy
+                  ? `Changed by ${revision.changedBy.name || revision.changedBy.email}`
+                  : 'Recorded when history started'}
+              </Typography>
+            </Box>
+            {revision.hasPdf && (
+              <Button
+                size="small"
+                startIcon={<PdfIcon />}
+                href={`/api/invoices/${invoiceId}/pdf?version=${revision.version}`}
+                target="_blank"
+              >
+                PDF
+              </Button>
+            )}
+          </Box>
+
+          {revision.changes.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Field</TableCell>
+                  <TableCell>Before</TableCell>
+                  <TableCell>After</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {revision.changes.map((change) => (
+                  <TableRow key={change.field}>
+                    <TableCell>{change.label}</TableCell>
+                    <TableCell sx={{ color: 'error.main', whiteSpace: 'pre-line' }}>
+                      {formatChangeValue(change, change.from)}
+                    </TableCell>
+                    <TableCell sx={{ color: 'success.main', whiteSpace: 'pre-line' }}>
+                      {formatChangeValue(change, change.to)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Paper>
+      ))}
+    </Box>
+  )
+}
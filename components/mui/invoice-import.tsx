@@ -0,0 +1,270 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Alert,
+  Stack,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+} from '@mui/material'
+import {
+  CloudUpload as UploadIcon,
+  Description as FileIcon,
+  Download as DownloadIcon,
+  FactCheck as PreviewIcon,
+} from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { INVOICE_IMPORT_COLUMNS } from '@/lib/invoice-import'
+
+const TEMPLATE_EXAMPLE_ROW: Record<string, string> = {
+  invoice_number: 'FY24-25/001',
+  invoice_date: '2024-04-15',
+  client_email: 'billing@acme.com',
+  currency: 'USD',
+  description: 'Software development services',
+  sac_code: '99831190',
+  quantity: '40',
+  rate: '50',
+}
+
+/**
+ * Download an empty import template with one example row
+ */
+function downloadTemplate() {
+  const header = INVOICE_IMPORT_COLUMNS.map((column) => column.label).join(',')
+  const example = INVOICE_IMPORT_COLUMNS.map((column) => TEMPLATE_EXAMPLE_ROW[column.key] ?? '').join(',')
+  const blob = new Blob([`${header}\n${example}\n`], { type: 'text/csv' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = 'invoice-import-template.csv'
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+async function readAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function InvoiceImport() {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [file, setFile] = useState<{ fileName: string; content: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const previewMutation = api.invoices.previewImport.useMutation({
+    onError: (err) => setError(err.message),
+  })
+
+  const importMutation = api.invoices.importInvoices.useMutation({
+    onSuccess: (data) => {
+      utils.invoices.list.invalidate()
+      enqueueSnackbar(`Imported ${data.count} invoice(s)`, { variant: 'success' })
+      router.push('/invoices')
+    },
+    onError: (err) => setError(err.message),
+  })
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!selectedFile) return
+
+    setError(null)
+    previewMutation.reset()
+
+    if (!/\.(csv|xlsx)$/i.test(selectedFile.name)) {
+      setError('Please upload a .csv or .xlsx file')
+      return
+    }
+    if (selectedFile.size > 5 * 1024 * 1024) {
+      setError('File size must be less than 5MB')
+      return
+    }
+
+    const nextFile = { fileName: selectedFile.name, content: await readAsBase64(selectedFile) }
+    setFile(nextFile)
+    previewMutation.mutate(nextFile)
+  }
+
+  const preview = previewMutation.data
+  const canImport = !!file && !!preview && preview.invoices.length > 0 && preview.errors.length === 0
+  const isBusy = previewMutation.isPending || importMutation.isPending
+
+  return (
+    <Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h4" fontWeight={600}>
+            Import Invoices
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Bring in invoices issued before you started using the app from a CSV or Excel file
+          </Typography>
+        </Box>
+        <Button variant="outlined" startIcon={<DownloadIcon />} onClick={downloadTemplate}>
+          Download Template
+        </Button>
+      </Stack>
+
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Put each line item on its own row. Rows with the same invoice number become one invoice and keep that
+          number. Clients are matched by email, or by name when no email is given. Exchange rates are looked up for
+          each invoice date unless the file has an Exchange Rate column.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Box
+          component="label"
+          sx={{
+            display: 'block',
+            border: '2px dashed',
+            borderColor: 'divider',
+            borderRadius: 2,
+            p: 4,
+            textAlign: 'center',
+            cursor: 'pointer',
+            '&:hover': { borderColor: 'primary.main', bgcolor: 'action.hover' },
+          }}
+        >
+          <input type="file" accept=".csv,.xlsx" hidden onChange={handleFileChange} disabled={isBusy} />
+          <Stack spacing={1} alignItems="center">
+            {file ? (
+              <>
+                <FileIcon sx={{ fontSize: 48, color: 'primary.main' }} />
+                <Typography variant="subtitle1">{file.fileName}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Click to choose a different file
+                </Typography>
+              </>
+            ) : (
+              <>
+                <UploadIcon sx={{ fontSize: 48, color: 'text.secondary' }} />
+                <Typography variant="subtitle1">Choose a .csv or .xlsx file</Typography>
+              </>
+            )}
+          </Stack>
+        </Box>
+
+        {isBusy && <LinearProgress sx={{ mt: 2 }} />}
+
+        {file && (
+          <Stack direction="row" spacing={2} sx={{ mt: 3 }}>
+            <Button
+              variant="outlined"
+              startIcon={<PreviewIcon />}
+              onClick={() => previewMutation.mutate(file)}
+              disabled={isBusy}
+            >
+              Check Again
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<UploadIcon />}
+              onClick={() => importMutation.mutate(file)}
+              disabled={!canImport || isBusy}
+            >
+              {preview && canImport ? `Import ${preview.invoices.length} Invoice(s)` : 'Import'}
+            </Button>
+          </Stack>
+        )}
+      </Paper>
+
+      {preview && preview.errors.length > 0 && (
+        <Paper sx={{ mb: 3 }}>
+          <Box p={2}>
+            <Typography variant="h6">Problems to fix</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Nothing is imported until every row is valid. Fix the file and choose it again.
+            </Typography>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Row</TableCell>
+                  <TableCell>Invoice #</TableCell>
+                  <TableCell>Problem</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.errors.map((rowError, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{rowError.rowNumber}</TableCell>
+                    <TableCell>{rowError.invoiceNumber ?? '—'}</TableCell>
+                    <TableCell>{rowError.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+
+      {preview && preview.invoices.length > 0 && (
+        <Paper>
+          <Box p={2}>
+            <Typography variant="h6">Ready to import</Typography>
+          </Box>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Invoice #</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Exchange Rate</TableCell>
+                  <TableCell align="right">Lines</TableCell>
+                  <TableCell align="right">Subtotal</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {preview.invoices.map((invoice) => (
+                  <TableRow key={invoice.invoiceNumber}>
+                    <TableCell>{invoice.invoiceNumber}</TableCell>
+                    <TableCell>{invoice.clientName}</TableCell>
+                    <TableCell>{format(new Date(invoice.issueDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      <Chip label={invoice.invoiceType} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell>
+                      {invoice.currency === 'INR' ? '—' : `${invoice.exchangeRate} (${invoice.exchangeRateSource})`}
+                    </TableCell>
+                    <TableCell align="right">{invoice.lineCount}</TableCell>
+                    <TableCell align="right">{formatCurrency(invoice.subtotal, invoice.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </Box>
+  )
+}
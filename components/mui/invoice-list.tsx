@@ -34,6 +34,7 @@ import {
   Payment as PaymentIcon,
   ContentCopy as CopyIcon,
   OpenInNew as OpenInNewIcon,
+  Upload as UploadIcon,
 } from '@mui/icons-material'
 import { api } from '@/lib/trpc/client'
 import { formatCurrency } from '@/lib/invoice-utils'
@@ -275,13 +276,22 @@ export function InvoiceList() {
             <Typography variant="h4" fontWeight={600}>
               Invoices
             </Typography>
-            <Button
-              variant="contained"
-              startIcon={<AddIcon />}
-              onClick={() => router.push('/invoices/new')}
-            >
-              Create Invoice
-            </Button>
+            <Stack direction="row" spacing={2}>
+              <Button
+                variant="outlined"
+                startIcon={<UploadIcon />}
+                onClick={() => router.push('/invoices/import')}
+              >
+                Import
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<AddIcon />}
+                onClick={() => router.push('/invoices/new')}
+              >
+                Create Invoice
+              </Button>
+            </Stack>
           </Stack>
           <Paper sx={{ p: 8, textAlign: 'center' }}>
             <Typography variant="h6" color="text.secondary" gutterBottom>
@@ -310,13 +320,22 @@ export function InvoiceList() {
           <Typography variant="h4" fontWeight={600}>
             Invoices
           </Typography>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon />}
-            onClick={() => router.push('/invoices/new')}
-          >
-            Create Invoice
-          </Button>
+          <Stack direction="row" spacing={2}>
+            <Button
+              variant="outlined"
+              startIcon={<UploadIcon />}
+              onClick={() => router.push('/invoices/import')}
+            >
+              Import
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => router.push('/invoices/new')}
+            >
+              Create Invoice
+            </Button>
+          </Stack>
         </Stack>
 
         <Paper>
@@ -0,0 +1,489 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Alert,
+  Typography,
+  Tooltip,
+  LinearProgress,
+  Paper,
+  Skeleton,
+  FormControlLabel,
+  Switch,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material'
+import type { SeriesResetRule } from '@prisma/client'
+import { api } from '@/lib/trpc/client'
+import { getCurrentFiscalYear } from '@/lib/invoice-utils'
+import { DEFAULT_NUMBER_SERIES, formatSeriesNumber } from '@/lib/number-series'
+import { zodErrorsToFormErrors } from '@/lib/utils/zod-error-handler'
+import { enqueueSnackbar } from 'notistack'
+
+interface SeriesFormData {
+  name: string
+  prefix: string
+  suffix: string
+  padding: number
+  resetRule: SeriesResetRule
+  clientId: string
+  invoiceType: '' | 'EXPORT' | 'DOMESTIC'
+  isActive: boolean
+  [key: string]: unknown
+}
+
+const emptyForm: SeriesFormData = {
+  name: '',
+  prefix: 'INV/{FY}/',
+  suffix: '',
+  padding: 3,
+  resetRule: 'FISCAL_YEAR',
+  clientId: '',
+  invoiceType: '',
+  isActive: true,
+}
+
+/**
+ * Previous fiscal years to offer in the gap report
+ */
+function getRecentFiscalYears(count: number): string[] {
+  const startYear = parseInt(getCurrentFiscalYear().slice(0, 4), 10)
+  return Array.from({ length: count }, (_, i) => {
+    const year = startYear - i
+    return `${year}-${String(year + 1).slice(-2)}`
+  })
+}
+
+export function MUINumberSeries() {
+  const [showForm, setShowForm] = useState(false)
+  const [editingSeries, setEditingSeries] = useState<string | null>(null)
+  const [formData, setFormData] = useState<SeriesFormData>(emptyForm)
+  const [errors, setErrors] = useState<Partial<Record<keyof SeriesFormData, string>>>({})
+  const [gapFiscalYear, setGapFiscalYear] = useState(getCurrentFiscalYear())
+
+  const utils = api.useUtils()
+  const { data: seriesList, isLoading } = api.numberSeries.list.useQuery()
+  const { data: clients } = api.clients.list.useQuery()
+  const { data: gapReport, isLoading: gapReportLoading } = api.numberSeries.getGapReport.useQuery({
+    fiscalYear: gapFiscalYear,
+  })
+  const { data: preview } = api.numberSeries.previewNext.useQuery(
+    {
+      prefix: formData.prefix,
+      suffix: formData.suffix,
+      padding: formData.padding,
+      resetRule: formData.resetRule,
+    },
+    { enabled: showForm && formData.padding >= 1 && formData.padding <= 8 }
+  )
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingSeries(null)
+    setFormData(emptyForm)
+    setErrors({})
+  }
+
+  const createMutation = api.numberSeries.create.useMutation({
+    onSuccess: () => {
+      utils.numberSeries.list.invalidate()
+      closeForm()
+      enqueueSnackbar('Number series created successfully', { variant: 'success' })
+    },
+    onError: (error) => {
+      if (error.data?.zodError) {
+        const formErrors = zodErrorsToFormErrors<SeriesFormData>(error.data.zodError)
+        setErrors(formErrors)
+      }
+      enqueueSnackbar(error.message, { variant: 'error' })
+    },
+  })
+
+  const updateMutation = api.numberSeries.update.useMutation({
+    onSuccess: () => {
+      utils.numberSeries.list.invalidate()
+      closeForm()
+      enqueueSnackbar('Number series updated successfully', { variant: 'success' })
+    },
+    onError: (error) => {
+      if (error.data?.zodError) {
+        const formErrors = zodErrorsToFormErrors<SeriesFormData>(error.data.zodError)
+        setErrors(formErrors)
+      }
+      enqueueSnackbar(error.message, { variant: 'error' })
+    },
+  })
+
+  const deleteMutation = api.numberSeries.delete.useMutation({
+    onSuccess: () => {
+      utils.numberSeries.list.invalidate()
+      enqueueSnackbar('Number series deleted successfully', { variant: 'success' })
+    },
+    onError: (error) => {
+      enqueueSnackbar(error.message, { variant: 'error' })
+    },
+  })
+
+  type SeriesRow = NonNullable<typeof seriesList>[number]
+
+  const handleEdit = (series: SeriesRow) => {
+    setEditingSeries(series.id)
+    setFormData({
+      name: series.name,
+      prefix: series.prefix,
+      suffix: series.suffix,
+      padding: series.padding,
+      resetRule: series.resetRule,
+      clientId: series.clientId ?? '',
+      invoiceType: series.invoiceType === 'EXPORT' || series.invoiceType === 'DOMESTIC' ? series.invoiceType : '',
+      isActive: series.isActive,
+    })
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrors({})
+
+    const data = {
+      name: formData.name,
+      prefix: formData.prefix,
+      suffix: formData.suffix,
+      padding: formData.padding,
+      resetRule: formData.resetRule,
+      clientId: formData.clientId || null,
+      invoiceType: formData.invoiceType || null,
+    }
+
+    if (editingSeries) {
+      await updateMutation.mutateAsync({ id: editingSeries, isActive: formData.isActive, ...data })
+    } else {
+      await createMutation.mutateAsync(data)
+    }
+  }
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending
+  const currentFY = getCurrentFiscalYear()
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="rectangular" height={400} />
+      </Box>
+    )
+  }
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Invoice Numbering
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Without a series, invoices are numbered {formatSeriesNumber(DEFAULT_NUMBER_SERIES, currentFY, 1)},{' '}
+            {formatSeriesNumber(DEFAULT_NUMBER_SERIES, currentFY, 2)}, ... restarting every fiscal year.
+            Use {'{FY}'} or {'{FYYYY}'} in the prefix or suffix for the fiscal year.
+          </Typography>
+        </Box>
+        <Button
+          variant="contained"
+          startIcon={<AddIcon />}
+          onClick={() => setShowForm(true)}
+        >
+          Add Series
+        </Button>
+      </Box>
+
+      {seriesList && seriesList.length > 0 && (
+        <TableContainer component={Paper} sx={{ mb: 4 }}>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Example</TableCell>
+                <TableCell>Resets</TableCell>
+                <TableCell>Applies To</TableCell>
+                <TableCell align="right">Invoices</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {seriesList.map((series) => (
+                <TableRow key={series.id}>
+                  <TableCell>{series.name}</TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{series.example}</TableCell>
+                  <TableCell>{series.resetRule === 'FISCAL_YEAR' ? 'Every fiscal year' : 'Never'}</TableCell>
+                  <TableCell>
+                    {[
+                      series.client ? (series.client.company || series.client.name) : null,
+                      series.invoiceType === 'DOMESTIC' ? 'Domestic invoices' : series.invoiceType === 'EXPORT' ? 'Export invoices' : null,
+                    ].filter(Boolean).join(' · ') || 'All invoices'}
+                  </TableCell>
+                  <TableCell align="right">{series._count.invoices}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={series.isActive ? 'Active' : 'Inactive'}
+                      size="small"
+                      color={series.isActive ? 'success' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Box display="flex" gap={1} justifyContent="flex-end">
+                      <Tooltip title="Edit">
+                        <IconButton
+                          size="small"
+                          onClick={() => handleEdit(series)}
+                          color="primary"
+                        >
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title={series._count.invoices > 0 ? 'Series with invoices can only be deactivated' : 'Delete'}>
+                        <span>
+                          <IconButton
+                            size="small"
+                            onClick={() => deleteMutation.mutate({ id: series.id })}
+                            color="error"
+                            disabled={series._count.invoices > 0 || deleteMutation.isPending}
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Gap Report */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Missing Numbers
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Breaks in each series, to explain during a GST audit
+          </Typography>
+        </Box>
+        <TextField
+          select
+          size="small"
+          label="Fiscal Year"
+          value={gapFiscalYear}
+          onChange={(e) => setGapFiscalYear(e.target.value)}
+          sx={{ minWidth: 140 }}
+        >
+          {getRecentFiscalYears(5).map((fy) => (
+            <MenuItem key={fy} value={fy}>FY {fy}</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      {gapReportLoading ? (
+        <Skeleton variant="rectangular" height={120} />
+      ) : !gapReport || gapReport.length === 0 ? (
+        <Alert severity="info">No invoices were issued in FY {gapFiscalYear}</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Series</TableCell>
+                <TableCell align="right">Issued</TableCell>
+                <TableCell align="right">Last Number</TableCell>
+                <TableCell>Missing</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {gapReport.map((report) => (
+                <TableRow key={report.id ?? 'default'}>
+                  <TableCell>
+                    {report.name}
+                    {report.resetRule === 'NEVER' && (
+                      <Typography variant="caption" color="text.secondary" display="block">
+                        All years (series does not reset)
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right">{report.issued}</TableCell>
+                  <TableCell align="right">{report.last}</TableCell>
+                  <TableCell>
+                    {report.missingNumbers.length === 0 ? (
+                      <Chip label="No gaps" size="small" color="success" />
+                    ) : (
+                      <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                        {report.missingNumbers.join(', ')}
+                      </Typography>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Series Form Dialog */}
+      <Dialog
+        open={showForm}
+        onClose={closeForm}
+        maxWidth="sm"
+        fullWidth
+      >
+        {isSubmitting && <LinearProgress />}
+        <DialogTitle>
+          {editingSeries ? 'Edit Number Series' : 'Add Number Series'}
+        </DialogTitle>
+        <DialogContent>
+          <Box component="form" onSubmit={handleSubmit} sx={{ mt: 2 }}>
+            <TextField
+              fullWidth
+              label="Series Name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              error={!!errors.name}
+              helperText={errors.name}
+              disabled={isSubmitting}
+              sx={{ mb: 3 }}
+            />
+
+            <Box display="flex" gap={2} mb={3}>
+              <TextField
+                fullWidth
+                label="Prefix"
+                value={formData.prefix}
+                onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+                error={!!errors.prefix}
+                helperText={errors.prefix}
+                disabled={isSubmitting}
+              />
+              <TextField
+                fullWidth
+                label="Suffix"
+                value={formData.suffix}
+                onChange={(e) => setFormData({ ...formData, suffix: e.target.value })}
+                error={!!errors.suffix}
+                helperText={errors.suffix}
+                disabled={isSubmitting}
+              />
+            </Box>
+
+            <Box display="flex" gap={2} mb={3}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Digits"
+                value={formData.padding}
+                onChange={(e) => setFormData({ ...formData, padding: parseInt(e.target.value, 10) || 1 })}
+                inputProps={{ min: 1, max: 8 }}
+                error={!!errors.padding}
+                helperText={errors.padding}
+                disabled={isSubmitting}
+              />
+              <TextField
+                select
+                fullWidth
+                label="Restart Numbering"
+                value={formData.resetRule}
+                onChange={(e) => setFormData({ ...formData, resetRule: e.target.value as SeriesResetRule })}
+                disabled={isSubmitting}
+              >
+                <MenuItem value="FISCAL_YEAR">Every fiscal year</MenuItem>
+                <MenuItem value="NEVER">Never</MenuItem>
+              </TextField>
+            </Box>
+
+            <Box display="flex" gap={2} mb={3}>
+              <TextField
+                select
+                fullWidth
+                label="Client"
+                value={formData.clientId}
+                onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                helperText="Use this series only for one client"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="">All clients</MenuItem>
+                {clients?.map((client) => (
+                  <MenuItem key={client.id} value={client.id}>
+                    {client.company || client.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                fullWidth
+                label="Invoice Type"
+                value={formData.invoiceType}
+                onChange={(e) => setFormData({ ...formData, invoiceType: e.target.value as SeriesFormData['invoiceType'] })}
+                helperText="Use this series only for one type"
+                disabled={isSubmitting}
+              >
+                <MenuItem value="">All types</MenuItem>
+                <MenuItem value="EXPORT">Export</MenuItem>
+                <MenuItem value="DOMESTIC">Domestic</MenuItem>
+              </TextField>
+            </Box>
+
+            {editingSeries && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    disabled={isSubmitting}
+                  />
+                }
+                label="Active"
+                sx={{ mb: 2 }}
+              />
+            )}
+
+            {preview && (
+              <Alert severity={preview.error ? 'warning' : 'info'}>
+                {preview.error ?? `Next invoice number: ${preview.invoiceNumber}`}
+              </Alert>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeForm} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            disabled={isSubmitting}
+          >
+            {editingSeries ? 'Update' : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
@@ -33,6 +33,12 @@ import {
   ExpandMore as ExpandMoreIcon,
   FilterList as FilterIcon,
   GetApp as ExportIcon,
+  AccountBalance as BankIcon,
+  CurrencyExchange as ForexIcon,
+  CallSplit as RemittanceIcon,
+  EventAvailable as RealisationIcon,
+  HourglassBottom as AgeingIcon,
+  Timeline as CashFlowIcon,
 } from '@mui/icons-material'
 import { DatePicker } from '@mui/x-date-pickers/DatePicker'
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
@@ -51,6 +57,7 @@ const paymentMethodLabels: Record<string, string> = {
   PAYONEER: 'Payoneer',
   WISE: 'Wise',
   OTHER: 'Other',
+  CLIENT_CREDIT: 'Client Credit',
 }
 
 export function MUIPayments() {
@@ -197,7 +204,49 @@ export function MUIPayments() {
               View and manage all payment records
             </Typography>
           </Box>
-          <Box display="flex" gap={2}>
+          <Box display="flex" gap={2} flexWrap="wrap" justifyContent="flex-end">
+            <Button
+              variant="outlined"
+              startIcon={<RemittanceIcon />}
+              onClick={() => router.push('/payments/remittances')}
+            >
+              Remittances
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<BankIcon />}
+              onClick={() => router.push('/payments/bank-statements')}
+            >
+              Import Bank Statement
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<ForexIcon />}
+              onClick={() => router.push('/payments/forex')}
+            >
+              Forex Gain/Loss
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<RealisationIcon />}
+              onClick={() => router.push('/payments/realisation')}
+            >
+              Realisation
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<AgeingIcon />}
+              onClick={() => router.push('/payments/receivables')}
+            >
+              Aged Receivables
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<CashFlowIcon />}
+              onClick={() => router.push('/payments/cash-flow')}
+            >
+              Cash Flow
+            </Button>
             <Button
               variant="outlined"
               startIcon={<ExportIcon />}
@@ -0,0 +1,246 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  MenuItem,
+  Skeleton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+} from '@mui/material'
+import { ArrowBack as BackIcon, CloudUpload as UploadIcon } from '@mui/icons-material'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { FircImportDialog } from './firc-import-dialog'
+
+type RealisationStatus = 'REALISED' | 'PARTIALLY_REALISED' | 'UNREALISED' | 'OVERDUE'
+
+const statusLabels: Record<RealisationStatus, string> = {
+  REALISED: 'Realised',
+  PARTIALLY_REALISED: 'Partially realised',
+  UNREALISED: 'Unrealised',
+  OVERDUE: 'Overdue',
+}
+
+const statusColors: Record<RealisationStatus, 'success' | 'warning' | 'default' | 'error'> = {
+  REALISED: 'success',
+  PARTIALLY_REALISED: 'warning',
+  UNREALISED: 'default',
+  OVERDUE: 'error',
+}
+
+export function RealisationRegister() {
+  const router = useRouter()
+  const [status, setStatus] = useState<RealisationStatus | ''>('')
+  const [importOpen, setImportOpen] = useState(false)
+
+  const { data, isLoading, error } = api.realisation.getRegister.useQuery({ status: status || undefined })
+
+  return (
+    <Box>
+      <Button startIcon={<BackIcon />} onClick={() => router.push('/payments')} sx={{ mb: 2 }}>
+        Payments
+      </Button>
+
+      <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+            Export Realisation
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Export proceeds must be realised within nine months of the invoice date under FEMA
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<UploadIcon />} onClick={() => setImportOpen(true)}>
+          Upload FIRC / e-BRC
+        </Button>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }}>
+          {error.message}
+        </Alert>
+      )}
+
+      {isLoading || !data ? (
+        <Skeleton variant="rectangular" height={400} />
+      ) : (
+        <>
+          <Grid container spacing={3} mb={3}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Unrealised (at invoice rate)
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600}>
+                    {formatCurrency(data.summary.unrealisedInr, 'INR')}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Deadline within 60 days
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color="warning.main">
+                    {data.summary.dueWithin60Days}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Overdue
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600} color="error.main">
+                    {data.summary.statusCounts.OVERDUE}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <Card>
+                <CardContent>
+                  <Typography variant="body2" color="text.secondary">
+                    Payments without FIRC / e-BRC
+                  </Typography>
+                  <Typography variant="h5" fontWeight={600}>
+                    {data.summary.missingFircCount}
+                  </Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          {data.summary.statusCounts.OVERDUE > 0 && (
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {data.summary.statusCounts.OVERDUE} export invoice(s) are past the nine-month limit. Apply to your AD
+              bank for an extension or write-off; unrealised exports can lead to withdrawal of your LUT.
+            </Alert>
+          )}
+
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={status}
+              onChange={(e) => setStatus(e.target.value as RealisationStatus | '')}
+              sx={{ minWidth: 220 }}
+            >
+              <MenuItem value="">All ({Object.values(data.summary.statusCounts).reduce((a, b) => a + b, 0)})</MenuItem>
+              {(Object.keys(statusLabels) as RealisationStatus[]).map((key) => (
+                <MenuItem key={key} value={key}>
+                  {statusLabels[key]} ({data.summary.statusCounts[key]})
+                </MenuItem>
+              ))}
+            </TextField>
+          </Paper>
+
+          <Paper>
+            {data.rows.length === 0 ? (
+              <Box p={6} textAlign="center">
+                <Typography color="text.secondary">No export invoices to show</Typography>
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Invoice</TableCell>
+                      <TableCell>Client</TableCell>
+                      <TableCell>Invoice Date</TableCell>
+                      <TableCell align="right">Amount</TableCell>
+                      <TableCell align="right">Realised</TableCell>
+                      <TableCell align="right">Unrealised</TableCell>
+                      <TableCell>Realise By</TableCell>
+                      <TableCell align="right">Days Outstanding</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>FIRC / e-BRC</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {data.rows.map((row) => (
+                      <TableRow
+                        key={row.id}
+                        hover
+                        sx={{ cursor: 'pointer' }}
+                        onClick={() => router.push(`/invoices/${row.id}`)}
+                      >
+                        <TableCell>{row.invoiceNumber}</TableCell>
+                        <TableCell>{row.client?.name ?? '—'}</TableCell>
+                        <TableCell>{format(new Date(row.invoiceDate), 'dd MMM yyyy')}</TableCell>
+                        <TableCell align="right">{formatCurrency(row.amountReceivable, row.currency)}</TableCell>
+                        <TableCell align="right">{formatCurrency(row.realisedAmount, row.currency)}</TableCell>
+                        <TableCell align="right">
+                          {row.unrealisedAmount > 0 ? formatCurrency(row.unrealisedAmount, row.currency) : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(row.deadline), 'dd MMM yyyy')}
+                          {row.status !== 'REALISED' && (
+                            <Typography
+                              variant="caption"
+                              display="block"
+                              color={row.daysRemaining < 0 ? 'error.main' : row.daysRemaining <= 60 ? 'warning.main' : 'text.secondary'}
+                            >
+                              {row.daysRemaining < 0 ? `${-row.daysRemaining} days overdue` : `${row.daysRemaining} days left`}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{row.daysOutstanding}</TableCell>
+                        <TableCell>
+                          <Chip
+                            label={statusLabels[row.status]}
+                            size="small"
+                            color={statusColors[row.status]}
+                            variant={row.status === 'UNREALISED' ? 'outlined' : 'filled'}
+                          />
+                          {row.realisedLate && (
+                            <Typography variant="caption" color="error.main" display="block">
+                              Realised late
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.fircNumbers.length > 0 ? row.fircNumbers.join(', ') : '—'}
+                          {row.missingFirc && (
+                            <Tooltip title="Part of the realised amount has no FIRC or e-BRC recorded">
+                              <Chip label="Missing" size="small" color="warning" variant="outlined" sx={{ ml: 1 }} />
+                            </Tooltip>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Paper>
+        </>
+      )}
+
+      <FircImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+    </Box>
+  )
+}
@@ -0,0 +1,780 @@
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+  Typography,
+  Tooltip,
+  LinearProgress,
+  Paper,
+  Skeleton,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+} from '@mui/material'
+import Grid from '@mui/material/Grid'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Pause as PauseIcon,
+  PlayArrow as ResumeIcon,
+  Bolt as GenerateIcon,
+  RemoveCircleOutline as RemoveLineIcon,
+} from '@mui/icons-material'
+import type { DiscountType } from '@prisma/client'
+import { api } from '@/lib/trpc/client'
+import { format } from 'date-fns'
+import { enqueueSnackbar } from 'notistack'
+import { CURRENCY_CODES } from '@/lib/constants'
+import { calculateLineAmount, calculateLineDiscount, formatCurrency } from '@/lib/invoice-utils'
+import {
+  DEFAULT_DOMESTIC_GST_RATE,
+  DOMESTIC_GST_RATES,
+  isIndianCountry,
+} from '@/lib/domestic-gst-calculator'
+
+type Frequency = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY'
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly',
+}
+
+interface LineItemFormData {
+  description: string
+  quantity: string
+  rate: string
+  sacCode: string
+  discountType: DiscountType | ''
+  discountValue: string
+  gstRate: number | '' // Domestic only; '' uses the schedule rate
+}
+
+interface RecurringInvoiceFormData {
+  name: string
+  clientId: string
+  currency: string
+  gstRate: number
+  exportWithPayment: boolean
+  frequency: Frequency
+  startDate: Date | null
+  endDate: Date | null
+  paymentTerms: string
+  bankDetails: string
+  notes: string
+  autoSend: boolean
+  sendTo: string
+  lineItems: LineItemFormData[]
+}
+
+const emptyLineItem: LineItemFormData = {
+  description: '',
+  quantity: '1',
+  rate: '',
+  sacCode: '',
+  discountType: '',
+  discountValue: '',
+  gstRate: '',
+}
+
+const emptyForm: RecurringInvoiceFormData = {
+  name: '',
+  clientId: '',
+  currency: 'USD',
+  gstRate: DEFAULT_DOMESTIC_GST_RATE,
+  exportWithPayment: false,
+  frequency: 'MONTHLY',
+  startDate: null,
+  endDate: null,
+  paymentTerms: '30',
+  bankDetails: '',
+  notes: '',
+  autoSend: false,
+  sendTo: '',
+  lineItems: [emptyLineItem],
+}
+
+export function MUIRecurringInvoices() {
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<RecurringInvoiceFormData>(emptyForm)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const utils = api.useUtils()
+  const { data: schedules, isLoading } = api.recurringInvoices.list.useQuery()
+  const { data: clients } = api.clients.list.useQuery()
+
+  const selectedClient = clients?.find((client) => client.id === formData.clientId)
+  const isDomestic = isIndianCountry(selectedClient?.country)
+
+  const closeForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setFormData(emptyForm)
+    setErrors({})
+  }
+
+  const onSaved = (message: string) => {
+    utils.recurringInvoices.list.invalidate()
+    closeForm()
+    enqueueSnackbar(message, { variant: 'success' })
+  }
+
+  const createMutation = api.recurringInvoices.create.useMutation({
+    onSuccess: () => onSaved('Recurring invoice created'),
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const updateMutation = api.recurringInvoices.update.useMutation({
+    onSuccess: () => onSaved('Recurring invoice updated'),
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const setActiveMutation = api.recurringInvoices.setActive.useMutation({
+    onSuccess: () => utils.recurringInvoices.list.invalidate(),
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const generateNowMutation = api.recurringInvoices.generateNow.useMutation({
+    onSuccess: () => {
+      enqueueSnackbar('Invoice generation queued', { variant: 'success' })
+      setTimeout(() => utils.recurringInvoices.list.invalidate(), 3000)
+    },
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  const deleteMutation = api.recurringInvoices.delete.useMutation({
+    onSuccess: () => {
+      utils.recurringInvoices.list.invalidate()
+      setDeleteId(null)
+      enqueueSnackbar('Recurring invoice deleted', { variant: 'success' })
+    },
+    onError: (error) => enqueueSnackbar(error.message, { variant: 'error' }),
+  })
+
+  type Schedule = NonNullable<typeof schedules>[number]
+
+  const handleEdit = (schedule: Schedule) => {
+    setEditingId(schedule.id)
+    setFormData({
+      name: schedule.name,
+      clientId: schedule.clientId,
+      currency: schedule.currency,
+      gstRate: schedule.gstRate !== null ? Number(schedule.gstRate) : DEFAULT_DOMESTIC_GST_RATE,
+      exportWithPayment: schedule.exportWithPayment,
+      frequency: schedule.frequency,
+      startDate: new Date(schedule.startDate),
+      endDate: schedule.endDate ? new Date(schedule.endDate) : null,
+      paymentTerms: schedule.paymentTerms.toString(),
+      bankDetails: schedule.bankDetails ?? '',
+      notes: schedule.notes ?? '',
+      autoSend: schedule.autoSend,
+      sendTo: schedule.sendTo ?? '',
+      lineItems: schedule.lineItems.map((item) => ({
+        description: item.description,
+        quantity: Number(item.quantity).toString(),
+        rate: Number(item.rate).toString(),
+        sacCode: item.serviceCode,
+        discountType: item.discountType ?? '',
+        discountValue: item.discountType ? Number(item.discountValue).toString() : '',
+        gstRate: item.gstRate !== null ? Number(item.gstRate) : '',
+      })),
+    })
+    setShowForm(true)
+  }
+
+  const updateLineItem = <K extends keyof LineItemFormData>(index: number, field: K, value: LineItemFormData[K]) => {
+    setFormData({
+      ...formData,
+      lineItems: formData.lineItems.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    })
+  }
+
+  const handleSubmit = () => {
+    const localErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) localErrors.name = 'Name is required'
+    if (!formData.clientId) localErrors.clientId = 'Client is required'
+    if (!formData.startDate) localErrors.startDate = 'Start date is required'
+    if (formData.startDate && formData.endDate && formData.endDate < formData.startDate) {
+      localErrors.endDate = 'End date must be on or after the start date'
+    }
+    formData.lineItems.forEach((item, index) => {
+      if (!item.description.trim() || !(parseFloat(item.quantity) > 0) || !(parseFloat(item.rate) > 0) || !item.sacCode.trim()) {
+        localErrors[`lineItems.${index}`] = 'Description, quantity, rate and SAC code are required'
+      }
+      const discountValue = parseFloat(item.discountValue) || 0
+      if (item.discountType === 'PERCENT' && discountValue > 100) {
+        localErrors[`lineItems.${index}.discountValue`] = 'Discount percentage cannot exceed 100'
+      } else if (
+        item.discountType === 'AMOUNT' &&
+        discountValue > calculateLineAmount(parseFloat(item.quantity) || 0, parseFloat(item.rate) || 0)
+      ) {
+        localErrors[`lineItems.${index}.discountValue`] = 'Discount cannot exceed the line amount'
+      }
+    })
+
+    setErrors(localErrors)
+    if (Object.keys(localErrors).length > 0 || !formData.startDate) {
+      return
+    }
+
+    const data = {
+      name: formData.name.trim(),
+      clientId: formData.clientId,
+      invoiceType: isDomestic ? 'DOMESTIC' as const : 'EXPORT' as const,
+      gstRate: isDomestic ? formData.gstRate : undefined,
+      exportWithPayment: !isDomestic && formData.exportWithPayment,
+      currency: isDomestic ? 'INR' : formData.currency,
+      frequency: formData.frequency,
+      startDate: formData.startDate,
+      endDate: formData.endDate ?? undefined,
+      paymentTerms: parseInt(formData.paymentTerms, 10) || 0,
+      bankDetails: formData.bankDetails || undefined,
+      notes: formData.notes || undefined,
+      autoSend: formData.autoSend,
+      sendTo: formData.sendTo.trim() || undefined,
+      lineItems: formData.lineItems.map((item) => ({
+        description: item.description.trim(),
+        quantity: parseFloat(item.quantity),
+        rate: parseFloat(item.rate),
+        sacCode: item.sacCode.trim(),
+        ...(item.discountType && {
+          discountType: item.discountType,
+          discountValue: parseFloat(item.discountValue) || 0,
+        }),
+        ...(isDomestic && item.gstRate !== '' && { gstRate: item.gstRate }),
+      })),
+    }
+
+    if (editingId) {
+      updateMutation.mutate({ id: editingId, data })
+    } else {
+      createMutation.mutate(data)
+    }
+  }
+
+  const isSubmitting = createMutation.isPending || updateMutation.isPending
+
+  if (isLoading) {
+    return (
+      <Box>
+        <Skeleton variant="rectangular" height={400} />
+      </Box>
+    )
+  }
+
+  const getScheduleTotal = (schedule: Schedule) =>
+    schedule.lineItems.reduce((sum, item) => {
+      const amount = calculateLineAmount(Number(item.quantity), Number(item.rate))
+      return sum + amount - calculateLineDiscount(amount, item.discountType, Number(item.discountValue))
+    }, 0)
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Box display="flex" justifyContent="flex-end" alignItems="center" mb={3}>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => setShowForm(true)}
+          >
+            New Recurring Invoice
+          </Button>
+        </Box>
+
+        {schedules?.length === 0 ? (
+          <Paper sx={{ p: 6, textAlign: 'center' }}>
+            <Typography variant="h6" color="text.secondary" gutterBottom>
+              No recurring invoices yet
+            </Typography>
+            <Typography variant="body2" color="text.secondary" mb={3}>
+              Set up a schedule for retainer clients and invoices will be raised automatically
+            </Typography>
+            <Button
+              variant="contained"
+              startIcon={<AddIcon />}
+              onClick={() => setShowForm(true)}
+            >
+              Create Your First Schedule
+            </Button>
+          </Paper>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Name</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell>Frequency</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Next Invoice</TableCell>
+                  <TableCell>Generated</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {schedules?.map((schedule) => (
+                  <TableRow key={schedule.id}>
+                    <TableCell>
+                      {schedule.name}
+                      {schedule.autoSend && (
+                        <Typography variant="caption" display="block" color="text.secondary">
+                          Auto-send
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{schedule.client.company || schedule.client.name}</TableCell>
+                    <TableCell>{FREQUENCY_LABELS[schedule.frequency]}</TableCell>
+                    <TableCell align="right">
+                      {formatCurrency(getScheduleTotal(schedule), schedule.currency)}
+                    </TableCell>
+                    <TableCell>
+                      {schedule.isActive ? format(new Date(schedule.nextRunDate), 'dd MMM yyyy') : '—'}
+                    </TableCell>
+                    <TableCell>{schedule._count.invoices}</TableCell>
+                    <TableCell>
+                      {schedule.lastError ? (
+                        <Tooltip title={schedule.lastError}>
+                          <Chip label="Error" size="small" color="error" />
+                        </Tooltip>
+                      ) : (
+                        <Chip
+                          label={schedule.isActive ? 'Active' : 'Paused'}
+                          size="small"
+                          color={schedule.isActive ? 'success' : 'default'}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Box display="flex" gap={1} justifyContent="flex-end">
+                        {schedule.isActive && new Date(schedule.nextRunDate) <= new Date() && (
+                          <Tooltip title="Generate now">
+                            <IconButton
+                              size="small"
+                              onClick={() => generateNowMutation.mutate({ id: schedule.id })}
+                              disabled={generateNowMutation.isPending}
+                              color="primary"
+                            >
+                              <GenerateIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                        <Tooltip title={schedule.isActive ? 'Pause' : 'Resume'}>
+                          <IconButton
+                            size="small"
+                            onClick={() => setActiveMutation.mutate({ id: schedule.id, isActive: !schedule.isActive })}
+                            disabled={setActiveMutation.isPending}
+                          >
+                            {schedule.isActive ? <PauseIcon fontSize="small" /> : <ResumeIcon fontSize="small" />}
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Edit">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleEdit(schedule)}
+                            color="primary"
+                          >
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Tooltip title="Delete">
+                          <IconButton
+                            size="small"
+                            onClick={() => setDeleteId(schedule.id)}
+                            color="error"
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+
+        {/* Recurring Invoice Form Dialog */}
+        <Dialog open={showForm} onClose={closeForm} maxWidth="md" fullWidth>
+          {isSubmitting && <LinearProgress />}
+          <DialogTitle>
+            {editingId ? 'Edit Recurring Invoice' : 'New Recurring Invoice'}
+          </DialogTitle>
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 1 }}>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  fullWidth
+                  label="Name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  error={!!errors.name}
+                  helperText={errors.name || 'e.g. Acme monthly retainer'}
+                  disabled={isSubmitting}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <FormControl fullWidth error={!!errors.clientId}>
+                  <InputLabel>Client</InputLabel>
+                  <Select
+                    value={formData.clientId}
+                    label="Client"
+                    onChange={(e) => {
+                      const client = clients?.find((c) => c.id === e.target.value)
+                      setFormData({ ...formData, clientId: e.target.value, currency: client?.currency ?? formData.currency })
+                    }}
+                    disabled={isSubmitting}
+                  >
+                    {clients?.map((client) => (
+                      <MenuItem key={client.id} value={client.id}>
+                        {client.name}{client.company ? ` (${client.company})` : ''}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <FormControl fullWidth>
+                  <InputLabel>Frequency</InputLabel>
+                  <Select
+                    value={formData.frequency}
+                    label="Frequency"
+                    onChange={(e) => setFormData({ ...formData, frequency: e.target.value as Frequency })}
+                    disabled={isSubmitting}
+                  >
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <MenuItem key={value} value={value}>{label}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <DatePicker
+                  label="Start Date"
+                  value={formData.startDate}
+                  onChange={(newValue) => setFormData({ ...formData, startDate: newValue })}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      error: !!errors.startDate,
+                      helperText: errors.startDate || 'Date of the first invoice',
+                      disabled: isSubmitting,
+                    },
+                  }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <DatePicker
+                  label="End Date (optional)"
+                  value={formData.endDate}
+                  onChange={(newValue) => setFormData({ ...formData, endDate: newValue })}
+                  slotProps={{
+                    textField: {
+                      fullWidth: true,
+                      error: !!errors.endDate,
+                      helperText: errors.endDate,
+                      disabled: isSubmitting,
+                    },
+                  }}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                {isDomestic ? (
+                  <FormControl fullWidth>
+                    <InputLabel>GST Rate</InputLabel>
+                    <Select
+                      value={formData.gstRate}
+                      label="GST Rate"
+                      onChange={(e) => setFormData({ ...formData, gstRate: Number(e.target.value) })}
+                      disabled={isSubmitting}
+                    >
+                      {DOMESTIC_GST_RATES.map((rate) => (
+                        <MenuItem key={rate} value={rate}>{rate}%</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ) : (
+                  <FormControl fullWidth>
+                    <InputLabel>Currency</InputLabel>
+                    <Select
+                      value={formData.currency}
+                      label="Currency"
+                      onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                      disabled={isSubmitting}
+                    >
+                      {Object.values(CURRENCY_CODES).map((code) => (
+                        <MenuItem key={code} value={code}>{code}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                )}
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  fullWidth
+                  label="Payment Terms (days)"
+                  type="number"
+                  value={formData.paymentTerms}
+                  onChange={(e) => setFormData({ ...formData, paymentTerms: e.target.value })}
+                  inputProps={{ min: 0 }}
+                  disabled={isSubmitting}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={formData.autoSend}
+                      onChange={(e) => setFormData({ ...formData, autoSend: e.target.checked })}
+                      disabled={isSubmitting}
+                    />
+                  }
+                  label="Email to client automatically"
+                />
+              </Grid>
+              {!isDomestic && (
+                <Grid size={{ xs: 12, sm: 4 }}>
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={formData.exportWithPayment}
+                        onChange={(e) => setFormData({ ...formData, exportWithPayment: e.target.checked })}
+                        disabled={isSubmitting}
+                      />
+                    }
+                    label="Export with payment of IGST"
+                  />
+                </Grid>
+              )}
+              {formData.autoSend && (
+                <Grid size={12}>
+                  <TextField
+                    fullWidth
+                    label="Send To (optional)"
+                    type="email"
+                    value={formData.sendTo}
+                    onChange={(e) => setFormData({ ...formData, sendTo: e.target.value })}
+                    helperText={`Defaults to ${selectedClient?.email ?? 'the client email'}`}
+                    disabled={isSubmitting}
+                  />
+                </Grid>
+              )}
+
+              <Grid size={12}>
+                <Typography variant="subtitle2" sx={{ mt: 1 }}>Line Items</Typography>
+              </Grid>
+              {formData.lineItems.map((item, index) => (
+                <React.Fragment key={index}>
+                  <Grid size={{ xs: 12, sm: 5 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Description"
+                      value={item.description}
+                      onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                      error={!!errors[`lineItems.${index}`]}
+                      helperText={errors[`lineItems.${index}`]}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 4, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Qty"
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) => updateLineItem(index, 'quantity', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 4, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Rate"
+                      type="number"
+                      value={item.rate}
+                      onChange={(e) => updateLineItem(index, 'rate', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 3, sm: 2 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="SAC Code"
+                      value={item.sacCode}
+                      onChange={(e) => updateLineItem(index, 'sacCode', e.target.value)}
+                      disabled={isSubmitting}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 1 }} display="flex" alignItems="center">
+                    <IconButton
+                      size="small"
+                      onClick={() => setFormData({
+                        ...formData,
+                        lineItems: formData.lineItems.filter((_, i) => i !== index),
+                      })}
+                      disabled={isSubmitting || formData.lineItems.length === 1}
+                      aria-label="Remove line item"
+                    >
+                      <RemoveLineIcon fontSize="small" />
+                    </IconButton>
+                  </Grid>
+                  <Grid size={{ xs: 6, sm: 3 }}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Discount</InputLabel>
+                      <Select
+                        value={item.discountType}
+                        label="Discount"
+                        onChange={(e) => updateLineItem(index, 'discountType', e.target.value as DiscountType | '')}
+                        disabled={isSubmitting}
+                      >
+                        <MenuItem value="">None</MenuItem>
+                        <MenuItem value="PERCENT">Percentage</MenuItem>
+                        <MenuItem value="AMOUNT">Amount</MenuItem>
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                  {item.discountType && (
+                    <Grid size={{ xs: 6, sm: 3 }}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        label={item.discountType === 'PERCENT' ? 'Discount %' : 'Discount value'}
+                        type="number"
+                        value={item.discountValue}
+                        onChange={(e) => updateLineItem(index, 'discountValue', e.target.value)}
+                        error={!!errors[`lineItems.${index}.discountValue`]}
+                        helperText={errors[`lineItems.${index}.discountValue`]}
+                        inputProps={{ min: 0 }}
+                        disabled={isSubmitting}
+                      />
+                    </Grid>
+                  )}
+                  {isDomestic && (
+                    <Grid size={{ xs: 6, sm: 3 }}>
+                      <FormControl fullWidth size="small">
+                        <InputLabel>Line GST Rate</InputLabel>
+                        <Select
+                          value={item.gstRate}
+                          label="Line GST Rate"
+                          onChange={(e) => updateLineItem(index, 'gstRate', e.target.value as number | '')}
+                          disabled={isSubmitting}
+                        >
+                          <MenuItem value="">Schedule rate ({formData.gstRate}%)</MenuItem>
+                          {DOMESTIC_GST_RATES.map((rate) => (
+                            <MenuItem key={rate} value={rate}>{rate}%</MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
+                    </Grid>
+                  )}
+                </React.Fragment>
+              ))}
+              <Grid size={12}>
+                <Button
+                  size="small"
+                  startIcon={<AddIcon />}
+                  onClick={() => setFormData({ ...formData, lineItems: [...formData.lineItems, emptyLineItem] })}
+                  disabled={isSubmitting}
+                >
+                  Add Line Item
+                </Button>
+              </Grid>
+
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Bank Details"
+                  value={formData.bankDetails}
+                  onChange={(e) => setFormData({ ...formData, bankDetails: e.target.value })}
+                  multiline
+                  rows={2}
+                  disabled={isSubmitting}
+                />
+              </Grid>
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  label="Notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  multiline
+                  rows={2}
+                  disabled={isSubmitting}
+                />
+              </Grid>
+            </Grid>
+            {!isDomestic && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                Each invoice uses the exchange rate of its invoice date and your LUT valid on that date.
+              </Alert>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={closeForm} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} variant="contained" disabled={isSubmitting}>
+              {editingId ? 'Update' : 'Create'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Delete Confirmation Dialog */}
+        <Dialog open={!!deleteId} onClose={() => setDeleteId(null)} maxWidth="sm" fullWidth>
+          {deleteMutation.isPending && <LinearProgress />}
+          <DialogTitle>Delete Recurring Invoice</DialogTitle>
+          <DialogContent>
+            <Typography>
+              No further invoices will be generated. Invoices already created are kept.
+            </Typography>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDeleteId(null)} disabled={deleteMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => deleteId && deleteMutation.mutate({ id: deleteId })}
+              color="error"
+              variant="contained"
+              disabled={deleteMutation.isPending}
+            >
+              Delete
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </LocalizationProvider>
+  )
+}
@@ -0,0 +1,429 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Alert,
+  Button,
+  Grid,
+  TextField,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Checkbox,
+  InputAdornment,
+} from '@mui/material'
+import { AutoFixHigh as AutoAllocateIcon } from '@mui/icons-material'
+import { DatePicker } from '@mui/x-date-pickers/DatePicker'
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider'
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { allocateRemittance, apportionRemittance } from '@/lib/remittance'
+import type { PaymentMethod } from './enhanced-payment-modal'
+
+const paymentMethodLabels: Record<PaymentMethod, string> = {
+  BANK_TRANSFER: 'Bank Transfer',
+  CREDIT_CARD: 'Credit Card',
+  DEBIT_CARD: 'Debit Card',
+  UPI: 'UPI',
+  PAYPAL: 'PayPal',
+  PAYONEER: 'Payoneer',
+  WISE: 'Wise',
+  OTHER: 'Other',
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = parseFloat(value)
+  return Number.isFinite(amount) ? amount : undefined
+}
+
+export function RemittanceForm() {
+  const router = useRouter()
+  const utils = api.useUtils()
+
+  const [clientId, setClientId] = useState('')
+  const [currency, setCurrency] = useState('')
+  const [remittanceDate, setRemittanceDate] = useState<Date | null>(new Date())
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('BANK_TRANSFER')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [amount, setAmount] = useState('')
+  const [platformFees, setPlatformFees] = useState('')
+  const [creditedAmount, setCreditedAmount] = useState('')
+  const [exchangeRate, setExchangeRate] = useState('')
+  const [bankCharges, setBankCharges] = useState('')
+  const [fircNumber, setFircNumber] = useState('')
+  const [fircDate, setFircDate] = useState<Date | null>(null)
+  const [allocations, setAllocations] = useState<Record<string, string>>({})
+
+  const { data: clients } = api.clients.list.useQuery()
+  const { data: invoices } = api.invoices.list.useQuery()
+
+  // Invoices of the client that still have a balance due, oldest first
+  const clientInvoices = useMemo(
+    () =>
+      (invoices ?? [])
+        .filter(
+          (invoice) =>
+            invoice.clientId === clientId &&
+            !['DRAFT', 'CANCELLED'].includes(invoice.status) &&
+            Number(invoice.balanceDue) > 0
+        )
+        .sort((a, b) => new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime()),
+    [invoices, clientId]
+  )
+  const currencies = useMemo(() => [...new Set(clientInvoices.map((invoice) => invoice.currency))], [clientInvoices])
+  const activeCurrency = currencies.includes(currency) ? currency : (currencies[0] ?? '')
+  const openInvoices = clientInvoices.filter((invoice) => invoice.currency === activeCurrency)
+
+  const remittanceAmount = parseAmount(amount) ?? 0
+  const selectedAllocations = openInvoices
+    .map((invoice) => ({ invoiceId: invoice.id, amount: parseAmount(allocations[invoice.id] ?? '') ?? 0 }))
+    .filter((allocation) => allocation.amount > 0)
+  const allocatedTotal = Math.round(selectedAllocations.reduce((sum, allocation) => sum + allocation.amount, 0) * 100) / 100
+  const unallocated = Math.round((remittanceAmount - allocatedTotal) * 100) / 100
+
+  const apportioned = apportionRemittance(
+    {
+      amount: remittanceAmount,
+      platformFeesInCurrency: parseAmount(platformFees),
+      creditedAmount: parseAmount(creditedAmount),
+      bankChargesInr: parseAmount(bankCharges),
+    },
+    selectedAllocations
+  )
+
+  const createMutation = api.remittances.create.useMutation({
+    onSuccess: () => {
+      utils.remittances.list.invalidate()
+      utils.payments.getHistory.invalidate()
+      utils.invoices.list.invalidate()
+      enqueueSnackbar(`Remittance recorded on ${selectedAllocations.length} invoice(s)`, { variant: 'success' })
+      router.push('/payments/remittances')
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const handleClientChange = (value: string) => {
+    setClientId(value)
+    setCurrency('')
+    setAllocations({})
+  }
+
+  const handleAutoAllocate = () => {
+    const result = allocateRemittance(
+      remittanceAmount,
+      openInvoices.map((invoice) => ({ invoiceId: invoice.id, balanceDue: Number(invoice.balanceDue) }))
+    )
+    setAllocations(Object.fromEntries(result.map((allocation) => [allocation.invoiceId, allocation.amount.toFixed(2)])))
+  }
+
+  const handleToggle = (invoiceId: string, balanceDue: number) => {
+    setAllocations((current) => {
+      if (current[invoiceId] !== undefined) {
+        const next = { ...current }
+        delete next[invoiceId]
+        return next
+      }
+      // Allocate what is left of the remittance, up to the balance due
+      const allocatedElsewhere = Object.values(current).reduce((sum, value) => sum + (parseAmount(value) ?? 0), 0)
+      const remaining = Math.max(0, remittanceAmount - allocatedElsewhere)
+      return { ...current, [invoiceId]: Math.min(balanceDue, remaining).toFixed(2) }
+    })
+  }
+
+  const handleSubmit = () => {
+    if (!remittanceDate) return
+    createMutation.mutate({
+      clientId,
+      amount: remittanceAmount,
+      currency: activeCurrency,
+      remittanceDate,
+      paymentMethod,
+      reference: reference || undefined,
+      notes: notes || undefined,
+      platformFeesInCurrency: parseAmount(platformFees),
+      creditedAmount: parseAmount(creditedAmount),
+      actualExchangeRate: parseAmount(exchangeRate),
+      bankChargesInr: parseAmount(bankCharges),
+      fircNumber: fircNumber || undefined,
+      fircDate: fircDate ?? undefined,
+      allocations: selectedAllocations,
+    })
+  }
+
+  const canSubmit =
+    !!clientId &&
+    !!activeCurrency &&
+    !!remittanceDate &&
+    remittanceAmount > 0 &&
+    selectedAllocations.length > 0 &&
+    Math.abs(unallocated) < 0.01 &&
+    !createMutation.isPending
+
+  return (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box>
+        <Box mb={4}>
+          <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+            Record Remittance
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Split one payment from a client across several invoices. Fees, the INR credited and bank charges are shared
+            in proportion to the amount allocated to each invoice.
+          </Typography>
+        </Box>
+
+        <Paper sx={{ p: 3, mb: 3 }}>
+          <Typography variant="h6" gutterBottom>
+            Payment
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                select
+                label="Client"
+                value={clientId}
+                onChange={(e) => handleClientChange(e.target.value)}
+                fullWidth
+                required
+              >
+                {(clients ?? []).map((client) => (
+                  <MenuItem key={client.id} value={client.id}>
+                    {client.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                label="Currency"
+                value={activeCurrency}
+                onChange={(e) => {
+                  setCurrency(e.target.value)
+                  setAllocations({})
+                }}
+                fullWidth
+                disabled={currencies.length <= 1}
+              >
+                {currencies.map((code) => (
+                  <MenuItem key={code} value={code}>
+                    {code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <DatePicker
+                label="Date Received"
+                value={remittanceDate}
+                onChange={(newValue) => setRemittanceDate(newValue)}
+                slotProps={{ textField: { fullWidth: true, required: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                label="Amount Sent by Client"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                fullWidth
+                required
+                InputProps={{
+                  startAdornment: activeCurrency ? <InputAdornment position="start">{activeCurrency}</InputAdornment> : undefined,
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                label="Platform / Intermediary Fees"
+                type="number"
+                value={platformFees}
+                onChange={(e) => setPlatformFees(e.target.value)}
+                fullWidth
+                helperText="Deducted before the money reached you"
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                label="Payment Method"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                fullWidth
+              >
+                {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField label="Reference" value={reference} onChange={(e) => setReference(e.target.value)} fullWidth />
+            </Grid>
+          </Grid>
+
+          <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+            Bank Credit &amp; FIRC
+          </Typography>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                label="Amount Credited to Bank"
+                type="number"
+                value={creditedAmount}
+                onChange={(e) => setCreditedAmount(e.target.value)}
+                fullWidth
+                InputProps={{ startAdornment: <InputAdornment position="start">₹</InputAdornment> }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                label="Actual Exchange Rate"
+                type="number"
+                value={exchangeRate}
+                onChange={(e) => setExchangeRate(e.target.value)}
+                fullWidth
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                label="Bank Charges"
+                type="number"
+                value={bankCharges}
+                onChange={(e) => setBankCharges(e.target.value)}
+                fullWidth
+                InputProps={{ startAdornment: <InputAdornment position="start">₹</InputAdornment> }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField label="FIRC Number" value={fircNumber} onChange={(e) => setFircNumber(e.target.value)} fullWidth />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <DatePicker
+                label="FIRC Date"
+                value={fircDate}
+                onChange={(newValue) => setFircDate(newValue)}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12 }}>
+              <TextField
+                label="Notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                fullWidth
+                multiline
+                rows={2}
+              />
+            </Grid>
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ mb: 3 }}>
+          <Box p={2} display="flex" justifyContent="space-between" alignItems="center">
+            <Typography variant="h6">Invoices</Typography>
+            <Button
+              startIcon={<AutoAllocateIcon />}
+              onClick={handleAutoAllocate}
+              disabled={remittanceAmount <= 0 || openInvoices.length === 0}
+            >
+              Allocate Oldest First
+            </Button>
+          </Box>
+          {!clientId ? (
+            <Box p={4} textAlign="center">
+              <Typography color="text.secondary">Select a client to see their open invoices</Typography>
+            </Box>
+          ) : openInvoices.length === 0 ? (
+            <Box p={4} textAlign="center">
+              <Typography color="text.secondary">This client has no open invoices</Typography>
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Invoice</TableCell>
+                    <TableCell>Date</TableCell>
+                    <TableCell align="right">Balance Due</TableCell>
+                    <TableCell align="right" sx={{ width: 180 }}>
+                      Allocated
+                    </TableCell>
+                    <TableCell align="right">Share of Fees</TableCell>
+                    <TableCell align="right">Share of INR Credited</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {openInvoices.map((invoice) => {
+                    const balanceDue = Number(invoice.balanceDue)
+                    const share = apportioned.find((payment) => payment.invoiceId === invoice.id)
+                    return (
+                      <TableRow key={invoice.id}>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            checked={allocations[invoice.id] !== undefined}
+                            onChange={() => handleToggle(invoice.id, balanceDue)}
+                          />
+                        </TableCell>
+                        <TableCell>{invoice.invoiceNumber}</TableCell>
+                        <TableCell>{format(new Date(invoice.invoiceDate), 'dd MMM yyyy')}</TableCell>
+                        <TableCell align="right">{formatCurrency(balanceDue, invoice.currency)}</TableCell>
+                        <TableCell align="right">
+                          <TextField
+                            size="small"
+                            type="number"
+                            value={allocations[invoice.id] ?? ''}
+                            onChange={(e) => setAllocations((current) => ({ ...current, [invoice.id]: e.target.value }))}
+                            error={(parseAmount(allocations[invoice.id] ?? '') ?? 0) > balanceDue + 0.005}
+                            inputProps={{ min: 0, step: '0.01', style: { textAlign: 'right' } }}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          {share?.platformFeesInCurrency != null
+                            ? formatCurrency(share.platformFeesInCurrency, invoice.currency)
+                            : '-'}
+                        </TableCell>
+                        <TableCell align="right">
+                          {share?.creditedAmount != null ? formatCurrency(share.creditedAmount, 'INR') : '-'}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+
+        {remittanceAmount > 0 && selectedAllocations.length > 0 && Math.abs(unallocated) >= 0.01 && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            {unallocated > 0
+              ? `${formatCurrency(unallocated, activeCurrency)} of the remittance is not allocated to an invoice`
+              : `Allocations exceed the remittance by ${formatCurrency(-unallocated, activeCurrency)}`}
+          </Alert>
+        )}
+
+        <Box display="flex" justifyContent="flex-end" gap={2}>
+          <Button onClick={() => router.push('/payments/remittances')}>Cancel</Button>
+          <Button variant="contained" onClick={handleSubmit} disabled={!canSubmit}>
+            Record Remittance
+          </Button>
+        </Box>
+      </Box>
+    </LocalizationProvider>
+  )
+}
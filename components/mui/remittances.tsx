@@ -0,0 +1,182 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Tooltip,
+  Skeleton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material'
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material'
+import { enqueueSnackbar } from 'notistack'
+import { format } from 'date-fns'
+import { api } from '@/lib/trpc/client'
+import { formatCurrency } from '@/lib/invoice-utils'
+import { AmendmentReasonDialog } from './amendment-reason-dialog'
+
+export function Remittances() {
+  const router = useRouter()
+  const utils = api.useUtils()
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  // Filed returns covering the remittance to delete, while waiting for an amendment reason
+  const [deleteFiledReturns, setDeleteFiledReturns] = useState<string | null>(null)
+
+  const { data: remittances, isLoading } = api.remittances.list.useQuery()
+
+  const deleteMutation = api.remittances.delete.useMutation({
+    onSuccess: () => {
+      utils.remittances.list.invalidate()
+      utils.payments.getHistory.invalidate()
+      utils.invoices.list.invalidate()
+      utils.filingAmendments.invalidate()
+      setDeleteId(null)
+      setDeleteFiledReturns(null)
+      enqueueSnackbar('Remittance and its payments deleted', { variant: 'success' })
+    },
+    onError: (err) => enqueueSnackbar(err.message, { variant: 'error' }),
+  })
+
+  const remittanceToDelete = remittances?.find((remittance) => remittance.id === deleteId)
+
+  const confirmDelete = async () => {
+    if (!remittanceToDelete) return
+
+    // Remittances dated in a filed period are deleted as amendments
+    const lock = await utils.filingAmendments.getLock.fetch({ dates: [new Date(remittanceToDelete.remittanceDate)] })
+    if (lock.returns.length > 0) {
+      setDeleteFiledReturns(lock.description ?? '')
+      return
+    }
+
+    deleteMutation.mutate({ id: remittanceToDelete.id })
+  }
+
+  return (
+    <Box>
+      <Box mb={4} display="flex" justifyContent="space-between" alignItems="flex-start">
+        <Box>
+          <Typography variant="h4" component="h1" fontWeight={600} gutterBottom>
+            Remittances
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            Payments from clients that settled several invoices at once
+          </Typography>
+        </Box>
+        <Button variant="contained" startIcon={<AddIcon />} onClick={() => router.push('/payments/remittances/new')}>
+          Record Remittance
+        </Button>
+      </Box>
+
+      <Paper>
+        {isLoading ? (
+          <Box p={3}>
+            <Skeleton variant="rectangular" height={200} />
+          </Box>
+        ) : !remittances || remittances.length === 0 ? (
+          <Box p={6} textAlign="center">
+            <Typography color="text.secondary">No remittances recorded yet</Typography>
+          </Box>
+        ) : (
+          <TableContainer>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Client</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell align="right">Credited (INR)</TableCell>
+                  <TableCell>FIRC</TableCell>
+                  <TableCell>Invoices</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {remittances.map((remittance) => (
+                  <TableRow key={remittance.id} hover>
+                    <TableCell>{format(new Date(remittance.remittanceDate), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>{remittance.client.name}</TableCell>
+                    <TableCell align="right">{formatCurrency(Number(remittance.amount), remittance.currency)}</TableCell>
+                    <TableCell align="right">
+                      {remittance.creditedAmount ? formatCurrency(Number(remittance.creditedAmount), 'INR') : '-'}
+                    </TableCell>
+                    <TableCell>{remittance.fircNumber ?? '-'}</TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={0.5} flexWrap="wrap">
+                        {remittance.payments.map((payment) => (
+                          <Chip
+                            key={payment.id}
+                            size="small"
+                            variant="outlined"
+                            label={`${payment.invoice.invoiceNumber}: ${formatCurrency(Number(payment.amount), remittance.currency)}`}
+                            onClick={() => router.push(`/invoices/${payment.invoice.id}`)}
+                          />
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => setDeleteId(remittance.id)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      <Dialog open={!!deleteId && deleteFiledReturns === null} onClose={() => setDeleteId(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Remittance</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            The payment recorded on each invoice is deleted and their balances are restored.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeleteId(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={confirmDelete}
+            disabled={deleteMutation.isPending}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <AmendmentReasonDialog
+        open={deleteFiledReturns !== null}
+        document={`The remittance from ${remittanceToDelete?.client.name ?? 'the client'}`}
+        filedReturns={deleteFiledReturns}
+        isDeletion
+        isSubmitting={deleteMutation.isPending}
+        onClose={() => {
+          setDeleteFiledReturns(null)
+          setDeleteId(null)
+        }}
+        onConfirm={(reason) => {
+          if (deleteId) deleteMutation.mutate({ id: deleteId, amendmentReason: reason })
+        }}
+      />
+    </Box>
+  )
+}
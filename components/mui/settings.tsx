@@ -18,6 +18,9 @@ import {
   Person as PersonIcon,
   Description as LUTIcon,
   CurrencyExchange as ExchangeIcon,
+  FormatListNumbered as NumberingIcon,
+  NotificationsActive as RemindersIcon,
+  EventRepeat as ReturnsIcon,
   Save as SaveIcon,
 } from '@mui/icons-material'
 import { api } from '@/lib/trpc/client'
@@ -25,6 +28,9 @@ import { isValidGSTIN, isValidPAN, getStateFromGSTIN, getPANFromGSTIN } from '@/
 import { zodErrorsToFormErrors } from '@/lib/utils/zod-error-handler'
 import { MUILUTManagement } from './lut-management'
 import { MUIExchangeRates } from './exchange-rates'
+import { MUINumberSeries } from './number-series'
+import { DunningSettings } from './dunning-settings'
+import { FilingFrequencySettings } from './filing-frequency-settings'
 import { enqueueSnackbar } from 'notistack'
 
 interface TabPanelProps {
@@ -51,7 +57,7 @@ function TabPanel(props: TabPanelProps) {
 
 export function MUISettings() {
   const searchParams = useSearchParams()
-  const tabFromUrl = searchParams.get('tab') as 'profile' | 'lut' | 'exchange-rates' | null
+  const tabFromUrl = searchParams.get('tab') as 'profile' | 'lut' | 'exchange-rates' | 'numbering' | 'reminders' | 'gst-returns' | null
   const [activeTab, setActiveTab] = useState(0)
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
   
@@ -87,6 +93,12 @@ export function MUISettings() {
       setTimeout(() => setActiveTab(1), 0)
     } else if (tabFromUrl === 'exchange-rates') {
       setTimeout(() => setActiveTab(2), 0)
+    } else if (tabFromUrl === 'numbering') {
+      setTimeout(() => setActiveTab(3), 0)
+    } else if (tabFromUrl === 'reminders') {
+      setTimeout(() => setActiveTab(4), 0)
+    } else if (tabFromUrl === 'gst-returns') {
+      setTimeout(() => setActiveTab(5), 0)
     }
   }, [tabFromUrl])
 
@@ -182,6 +194,27 @@ export function MUISettings() {
               id="settings-tab-2"
               aria-controls="settings-tabpanel-2"
             />
+            <Tab 
+              icon={<NumberingIcon />} 
+              iconPosition="start" 
+              label="Invoice Numbering" 
+              id="settings-tab-3"
+              aria-controls="settings-tabpanel-3"
+            />
+            <Tab 
+              icon={<RemindersIcon />} 
+              iconPosition="start" 
+              label="Payment Reminders" 
+              id="settings-tab-4"
+              aria-controls="settings-tabpanel-4"
+            />
+            <Tab 
+              icon={<ReturnsIcon />} 
+              iconPosition="start" 
+              label="GST Returns" 
+              id="settings-tab-5"
+              aria-controls="settings-tabpanel-5"
+            />
           </Tabs>
         </Box>
 
@@ -267,6 +300,18 @@ export function MUISettings() {
           <TabPanel value={activeTab} index={2}>
             <MUIExchangeRates />
           </TabPanel>
+
+          <TabPanel value={activeTab} index={3}>
+            <MUINumberSeries />
+          </TabPanel>
+
+          <TabPanel value={activeTab} index={4}>
+            <DunningSettings />
+          </TabPanel>
+
+          <TabPanel value={activeTab} index={5}>
+            <FilingFrequencySettings />
+          </TabPanel>
         </CardContent>
       </Card>
     </Box>
@@ -0,0 +1,265 @@
+/**
+ * Aged Receivables
+ *
+ * Open invoice balances grouped by client and currency and split into
+ * ageing buckets, measured in days from the invoice date or the due date.
+ * Balances are valued in INR at the invoice rate (as booked) and at the
+ * current rate (what they would bring in today).
+ */
+
+import { differenceInCalendarDays, format, startOfDay } from 'date-fns'
+
+export type AgeingBasis = 'INVOICE_DATE' | 'DUE_DATE'
+
+export type AgeingBucket = 'NOT_DUE' | 'DAYS_0_30' | 'DAYS_31_60' | 'DAYS_61_90' | 'DAYS_90_PLUS'
+
+export const AGEING_BUCKETS: Array<{ key: AgeingBucket; label: string }> = [
+  { key: 'NOT_DUE', label: 'Not due' },
+  { key: 'DAYS_0_30', label: '0-30 days' },
+  { key: 'DAYS_31_60', label: '31-60 days' },
+  { key: 'DAYS_61_90', label: '61-90 days' },
+  { key: 'DAYS_90_PLUS', label: '90+ days' },
+]
+
+export type BucketAmounts = Record<AgeingBucket, number>
+
+/**
+ * An open invoice to age
+ */
+export interface ReceivableInvoice {
+  invoiceId: string
+  invoiceNumber: string
+  invoiceDate: Date
+  dueDate: Date
+  clientId: string
+  clientName: string
+  currency: string
+  balanceDue: number // In the invoice currency
+  bookingRate: number // Exchange rate of the invoice
+}
+
+/**
+ * An invoice placed in its bucket
+ */
+export interface AgedInvoice extends ReceivableInvoice {
+  daysOutstanding: number // Negative when the due date is still ahead
+  bucket: AgeingBucket
+  bookedInr: number
+  currentInr: number | null // Null when no current rate is available
+}
+
+/**
+ * Balances of one client in one currency
+ */
+export interface AgedReceivablesGroup {
+  clientId: string
+  clientName: string
+  currency: string
+  currentRate: number | null
+  buckets: BucketAmounts // In the invoice currency
+  balanceDue: number
+  bookedInr: number
+  currentInr: number | null
+  invoices: AgedInvoice[]
+}
+
+export interface AgedReceivablesReport {
+  basis: AgeingBasis
+  asOf: Date
+  groups: AgedReceivablesGroup[]
+  totals: {
+    invoiceCount: number
+    bookedInr: BucketAmounts & { total: number }
+    currentInr: BucketAmounts & { total: number }
+  }
+  missingRates: string[] // Currencies valued at the invoice rate for want of a current rate
+}
+
+/**
+ * Bucket for a number of days outstanding
+ */
+export function getAgeingBucket(daysOutstanding: number): AgeingBucket {
+  if (daysOutstanding < 0) return 'NOT_DUE'
+  if (daysOutstanding <= 30) return 'DAYS_0_30'
+  if (daysOutstanding <= 60) return 'DAYS_31_60'
+  if (daysOutstanding <= 90) return 'DAYS_61_90'
+  return 'DAYS_90_PLUS'
+}
+
+/**
+ * Age open invoices and group them by client and currency
+ *
+ * @param invoices - Invoices with a balance due
+ * @param basis - Date the age is measured from
+ * @param currentRates - Current INR rate per currency; a missing currency
+ *   is valued at the invoice rate in the totals and reported as missing
+ * @param asOf - Date the age is measured to
+ */
+export function buildAgedReceivables(
+  invoices: ReceivableInvoice[],
+  basis: AgeingBasis,
+  currentRates: Map<string, number>,
+  asOf: Date = new Date()
+): AgedReceivablesReport {
+  const groups = new Map<string, AgedReceivablesGroup>()
+  const totals = {
+    invoiceCount: 0,
+    bookedInr: { ...emptyBuckets(), total: 0 },
+    currentInr: { ...emptyBuckets(), total: 0 },
+  }
+  const missingRates = new Set<string>()
+
+  const sorted = [...invoices].sort(
+    (a, b) =>
+      a.clientName.localeCompare(b.clientName) ||
+      a.currency.localeCompare(b.currency) ||
+      a.invoiceDate.getTime() - b.invoiceDate.getTime()
+  )
+
+  for (const invoice of sorted) {
+    if (invoice.balanceDue <= 0) continue
+
+    const from = basis === 'DUE_DATE' ? invoice.dueDate : invoice.invoiceDate
+    const daysOutstanding = differenceInCalendarDays(startOfDay(asOf), startOfDay(from))
+    // Measured from the invoice date, an invoice is never "not due"
+    const bucket = getAgeingBucket(basis === 'DUE_DATE' ? daysOutstanding : Math.max(0, daysOutstanding))
+    const currentRate = invoice.currency === 'INR' ? 1 : currentRates.get(invoice.currency) ?? null
+    if (currentRate === null) missingRates.add(invoice.currency)
+
+    const aged: AgedInvoice = {
+      ...invoice,
+      daysOutstanding,
+      bucket,
+      bookedInr: roundTo2Decimals(invoice.balanceDue * invoice.bookingRate),
+      currentInr: currentRate === null ? null : roundTo2Decimals(invoice.balanceDue * currentRate),
+    }
+
+    const key = `${invoice.clientId}:${invoice.currency}`
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        clientId: invoice.clientId,
+        clientName: invoice.clientName,
+        currency: invoice.currency,
+        currentRate,
+        buckets: emptyBuckets(),
+        balanceDue: 0,
+        bookedInr: 0,
+        currentInr: currentRate === null ? null : 0,
+        invoices: [],
+      }
+      groups.set(key, group)
+    }
+
+    group.invoices.push(aged)
+    group.buckets[bucket] = roundTo2Decimals(group.buckets[bucket] + aged.balanceDue)
+    group.balanceDue = roundTo2Decimals(group.balanceDue + aged.balanceDue)
+    group.bookedInr = roundTo2Decimals(group.bookedInr + aged.bookedInr)
+    if (group.currentInr !== null && aged.currentInr !== null) {
+      group.currentInr = roundTo2Decimals(group.currentInr + aged.currentInr)
+    }
+
+    const currentInr = aged.currentInr ?? aged.bookedInr
+    totals.invoiceCount++
+    totals.bookedInr[bucket] = roundTo2Decimals(totals.bookedInr[bucket] + aged.bookedInr)
+    totals.bookedInr.total = roundTo2Decimals(totals.bookedInr.total + aged.bookedInr)
+    totals.currentInr[bucket] = roundTo2Decimals(totals.currentInr[bucket] + currentInr)
+    totals.currentInr.total = roundTo2Decimals(totals.currentInr.total + currentInr)
+  }
+
+  return {
+    basis,
+    asOf,
+    groups: [...groups.values()],
+    totals,
+    missingRates: [...missingRates].sort(),
+  }
+}
+
+/**
+ * Build the CSV export: each invoice under its client and currency, a
+ * subtotal row per group and the INR totals at the end
+ */
+export function agedReceivablesToCSV(report: AgedReceivablesReport): string {
+  const header = [
+    'Client',
+    'Currency',
+    'Invoice Number',
+    'Invoice Date',
+    'Due Date',
+    'Days Outstanding',
+    ...AGEING_BUCKETS.map((bucket) => bucket.label),
+    'Balance Due',
+    'INR at Invoice Rate',
+    'INR at Current Rate',
+  ]
+
+  const rows: string[][] = []
+  for (const group of report.groups) {
+    for (const invoice of group.invoices) {
+      rows.push([
+        group.clientName,
+        group.currency,
+        invoice.invoiceNumber,
+        format(invoice.invoiceDate, 'yyyy-MM-dd'),
+        format(invoice.dueDate, 'yyyy-MM-dd'),
+        String(invoice.daysOutstanding),
+        ...AGEING_BUCKETS.map((bucket) => (bucket.key === invoice.bucket ? invoice.balanceDue.toFixed(2) : '')),
+        invoice.balanceDue.toFixed(2),
+        invoice.bookedInr.toFixed(2),
+        invoice.currentInr?.toFixed(2) ?? '',
+      ])
+    }
+    rows.push([
+      group.clientName,
+      group.currency,
+      'Subtotal',
+      '',
+      '',
+      '',
+      ...AGEING_BUCKETS.map((bucket) => group.buckets[bucket.key].toFixed(2)),
+      group.balanceDue.toFixed(2),
+      group.bookedInr.toFixed(2),
+      group.currentInr?.toFixed(2) ?? '',
+    ])
+  }
+
+  rows.push([
+    'Total (INR at invoice rate)',
+    'INR',
+    '',
+    '',
+    '',
+    '',
+    ...AGEING_BUCKETS.map((bucket) => report.totals.bookedInr[bucket.key].toFixed(2)),
+    report.totals.bookedInr.total.toFixed(2),
+    report.totals.bookedInr.total.toFixed(2),
+    '',
+  ])
+  rows.push([
+    'Total (INR at current rate)',
+    'INR',
+    '',
+    '',
+    '',
+    '',
+    ...AGEING_BUCKETS.map((bucket) => report.totals.currentInr[bucket.key].toFixed(2)),
+    report.totals.currentInr.total.toFixed(2),
+    '',
+    report.totals.currentInr.total.toFixed(2),
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCSVField).join(',')).join('\n') + '\n'
+}
+
+function emptyBuckets(): BucketAmounts {
+  return { NOT_DUE: 0, DAYS_0_30: 0, DAYS_31_60: 0, DAYS_61_90: 0, DAYS_90_PLUS: 0 }
+}
+
+function escapeCSVField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,79 @@
+/**
+ * CAMT.053 Bank Statement Parser
+ *
+ * ISO 20022 BankToCustomerStatement XML. Namespace prefixes are ignored.
+ */
+
+import type { BankStatementParseResult, StatementTransaction } from './types'
+
+/**
+ * Parse a CAMT.053 statement
+ */
+export function parseCAMT053(content: string): BankStatementParseResult {
+  const xml = content.replace(/<(\/?)[\w-]+:/g, '<$1')
+  if (!/<BkToCstmrStmt>/.test(xml)) {
+    return { success: false, error: 'Not a CAMT.053 statement' }
+  }
+
+  const account = readElement(xml, 'Acct') ?? ''
+  const accountNumber = readElement(account, 'IBAN') ?? readElement(readElement(account, 'Othr') ?? '', 'Id')
+  const currency = readElement(account, 'Ccy') ?? /<Amt Ccy="([A-Z]{3})"/.exec(xml)?.[1] ?? 'INR'
+
+  const transactions: StatementTransaction[] = []
+  for (const match of xml.matchAll(/<Ntry>([\s\S]*?)<\/Ntry>/g)) {
+    const entry = match[1]
+    const amountMatch = /<Amt Ccy="([A-Z]{3})">([\d.]+)<\/Amt>/.exec(entry)
+    const date = parseISODate(
+      readElement(readElement(entry, 'BookgDt') ?? '', 'Dt') ?? readElement(readElement(entry, 'ValDt') ?? '', 'Dt')
+    )
+    if (!amountMatch || !date) continue
+
+    const isCredit = readElement(entry, 'CdtDbtInd') === 'CRDT'
+    const parties = readElement(entry, 'RltdPties') ?? ''
+    const counterparty = readElement(readElement(parties, isCredit ? 'Dbtr' : 'Cdtr') ?? '', 'Nm')
+    const remittance = Array.from(entry.matchAll(/<Ustrd>([\s\S]*?)<\/Ustrd>/g), (ustrd) => decodeXml(ustrd[1].trim()))
+    const structuredReference = readElement(readElement(entry, 'CdtrRefInf') ?? '', 'Ref')
+
+    transactions.push({
+      date,
+      amount: Number(amountMatch[2]),
+      isCredit,
+      currency: amountMatch[1],
+      description: [counterparty, ...remittance, readElement(entry, 'AddtlNtryInf')].filter(Boolean).join(' '),
+      reference:
+        structuredReference ??
+        [readElement(entry, 'EndToEndId'), readElement(entry, 'AcctSvcrRef')].find(
+          (reference) => reference && reference !== 'NOTPROVIDED'
+        ),
+      counterparty,
+    })
+  }
+
+  return {
+    success: true,
+    format: 'CAMT053',
+    accountNumber,
+    currency,
+    transactions,
+  }
+}
+
+function readElement(xml: string, name: string): string | undefined {
+  const value = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`).exec(xml)?.[1].trim()
+  return value ? decodeXml(value) : undefined
+}
+
+function parseISODate(value: string | undefined): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value ?? '')
+  if (!match) return undefined
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
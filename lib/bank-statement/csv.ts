@@ -0,0 +1,108 @@
+/**
+ * CSV Bank Statement Parser
+ *
+ * Bank CSV exports differ in column names and often start with account
+ * details above the transaction table, so the header row is located by
+ * looking for a date column next to a credit or amount column.
+ */
+
+import { normalizeHeader, parseCSV } from '@/lib/spreadsheet'
+import { parseImportDate } from '@/lib/invoice-import'
+import type { BankStatementParseResult, StatementTransaction } from './types'
+
+// Normalized header names used by common Indian and international banks
+const DATE_COLUMNS = ['date', 'txn_date', 'transaction_date', 'value_date', 'posting_date', 'booking_date', 'value_dt']
+const DESCRIPTION_COLUMNS = ['description', 'narration', 'particulars', 'remarks', 'details', 'transaction_details']
+const REFERENCE_COLUMNS = ['reference', 'ref_no', 'reference_no', 'ref_no_cheque_no', 'chq_ref_no', 'cheque_no', 'utr', 'utr_no']
+const CREDIT_COLUMNS = ['credit', 'credit_amount', 'deposit', 'deposit_amt', 'deposits', 'cr_amount', 'amount_cr']
+const DEBIT_COLUMNS = ['debit', 'debit_amount', 'withdrawal', 'withdrawal_amt', 'withdrawals', 'dr_amount', 'amount_dr']
+const AMOUNT_COLUMNS = ['amount', 'transaction_amount']
+const CURRENCY_COLUMNS = ['currency', 'ccy']
+const COUNTERPARTY_COLUMNS = ['counterparty', 'remitter', 'payer', 'name']
+
+/**
+ * Parse a bank statement CSV
+ *
+ * @param content - CSV text
+ * @param defaultCurrency - Currency of the account when the file has no currency column
+ */
+export function parseBankStatementCSV(content: string, defaultCurrency = 'INR'): BankStatementParseResult {
+  const rows = parseCSV(content)
+
+  const headerIndex = rows.findIndex((row) => {
+    const columns = row.map(normalizeHeader)
+    return (
+      findColumn(columns, DATE_COLUMNS) !== -1 &&
+      (findColumn(columns, CREDIT_COLUMNS) !== -1 || findColumn(columns, AMOUNT_COLUMNS) !== -1)
+    )
+  })
+
+  if (headerIndex === -1) {
+    return {
+      success: false,
+      error: 'Could not find the transaction table. Expected a Date column and a Credit or Amount column',
+    }
+  }
+
+  const columns = rows[headerIndex].map(normalizeHeader)
+  const dateColumn = findColumn(columns, DATE_COLUMNS)
+  const descriptionColumn = findColumn(columns, DESCRIPTION_COLUMNS)
+  const referenceColumn = findColumn(columns, REFERENCE_COLUMNS)
+  const creditColumn = findColumn(columns, CREDIT_COLUMNS)
+  const debitColumn = findColumn(columns, DEBIT_COLUMNS)
+  const amountColumn = findColumn(columns, AMOUNT_COLUMNS)
+  const currencyColumn = findColumn(columns, CURRENCY_COLUMNS)
+  const counterpartyColumn = findColumn(columns, COUNTERPARTY_COLUMNS)
+
+  const transactions: StatementTransaction[] = []
+  for (const row of rows.slice(headerIndex + 1)) {
+    const date = parseImportDate(row[dateColumn])
+    // Footer lines such as closing balance have no transaction date
+    if (!date) continue
+
+    let amount: number
+    if (creditColumn !== -1) {
+      const credit = parseAmount(row[creditColumn])
+      const debit = debitColumn !== -1 ? parseAmount(row[debitColumn]) : 0
+      amount = credit > 0 ? credit : -debit
+    } else {
+      amount = parseAmount(row[amountColumn])
+    }
+    if (amount === 0) continue
+
+    transactions.push({
+      date,
+      amount: Math.abs(amount),
+      isCredit: amount > 0,
+      currency: (currencyColumn !== -1 && row[currencyColumn]?.toUpperCase()) || defaultCurrency,
+      description: descriptionColumn !== -1 ? row[descriptionColumn] ?? '' : '',
+      reference: (referenceColumn !== -1 && row[referenceColumn]) || undefined,
+      counterparty: (counterpartyColumn !== -1 && row[counterpartyColumn]) || undefined,
+    })
+  }
+
+  return {
+    success: true,
+    format: 'CSV',
+    currency: transactions[0]?.currency ?? defaultCurrency,
+    transactions,
+  }
+}
+
+function findColumn(columns: string[], candidates: string[]): number {
+  return columns.findIndex((column) => candidates.includes(column))
+}
+
+/**
+ * Read an amount such as "1,23,456.78", "(500.00)" or "500.00 Cr"
+ */
+function parseAmount(value: string | undefined): number {
+  const text = value?.trim() ?? ''
+  if (!text) return 0
+
+  const negative = /^\(.*\)$/.test(text) || /^-/.test(text) || /\bDr\.?$/i.test(text)
+  const number = Number(text.replace(/[^0-9.]/g, ''))
+  if (!Number.isFinite(number)) return 0
+
+  return negative ? -number : number
+}
@@ -0,0 +1,43 @@
+/**
+ * Bank Statement Import
+ *
+ * Reads bank statements and proposes which open invoices their credits pay.
+ */
+
+import { parseBankStatementCSV } from './csv'
+import { parseOFX } from './ofx'
+import { parseMT940 } from './mt940'
+import { parseCAMT053 } from './camt053'
+import type { BankStatementParseResult } from './types'
+
+export * from './types'
+export * from './matching'
+export { parseBankStatementCSV, parseOFX, parseMT940, parseCAMT053 }
+
+/**
+ * Parse a bank statement, picking the format from the file name and contents
+ *
+ * @param fileName - Original file name
+ * @param content - File contents as text
+ */
+export function parseBankStatement(fileName: string, content: string): BankStatementParseResult {
+  const extension = fileName.toLowerCase().split('.').pop()
+
+  if (extension === 'ofx' || extension === 'qfx' || /<OFX>/i.test(content)) {
+    return parseOFX(content)
+  }
+  if (/BkToCstmrStmt/.test(content)) {
+    return parseCAMT053(content)
+  }
+  if (extension === 'sta' || extension === 'mt940' || extension === '940' || /^:20:/m.test(content)) {
+    return parseMT940(content)
+  }
+  if (extension === 'csv' || extension === 'txt') {
+    return parseBankStatementCSV(content)
+  }
+
+  return {
+    success: false,
+    error: 'Unsupported statement format. Upload a CSV, OFX, MT940 or CAMT.053 file',
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Bank Credit Matching
+ *
+ * Proposes which open invoice a bank credit pays, scored on the invoice
+ * number in the narration, the amount, the client name and the date.
+ * Credits to an INR account for a foreign currency invoice are compared at
+ * the invoice's exchange rate, or by the foreign amount when the bank
+ * prints it in the narration.
+ */
+
+import { addDays, subDays } from 'date-fns'
+
+/**
+ * A bank credit to match
+ */
+export interface CreditForMatching {
+  date: Date
+  amount: number
+  currency: string
+  description: string
+  reference?: string | null
+  counterparty?: string | null
+}
+
+/**
+ * An invoice with a balance still due
+ */
+export interface OpenInvoiceForMatching {
+  id: string
+  invoiceNumber: string
+  clientName: string
+  currency: string
+  invoiceDate: Date
+  dueDate: Date
+  balanceDue: number
+  exchangeRate: number
+}
+
+/**
+ * Payment values for recording a credit against an invoice
+ */
+export interface SuggestedPayment {
+  amount: number // In invoice currency
+  creditedAmount: number | null // INR credited to the bank
+  actualExchangeRate: number | null // INR per unit of invoice currency
+}
+
+/**
+ * Proposed match for a credit
+ */
+export interface PaymentMatchProposal {
+  invoiceId: string
+  score: number // 0-100
+  reasons: string[]
+}
+
+// Minimum score for a match to be proposed
+export const MIN_MATCH_SCORE = 40
+
+// Credits may arrive a little before the invoice date and well after it is due
+const DAYS_BEFORE_INVOICE = 7
+const DAYS_AFTER_DUE = 90
+
+// Platform and correspondent bank fees reduce the amount received
+const FEE_TOLERANCE = 0.05
+
+/**
+ * Score how likely a credit is to be a payment of an invoice
+ *
+ * @returns Score from 0-100 and the reasons behind it, or null if the
+ *          credit cannot be a payment of the invoice
+ */
+export function scoreCreditAgainstInvoice(
+  credit: CreditForMatching,
+  invoice: OpenInvoiceForMatching
+): PaymentMatchProposal | null {
+  const narration = `${credit.description} ${credit.reference ?? ''} ${credit.counterparty ?? ''}`
+  const reasons: string[] = []
+  let score = 0
+
+  // Foreign currency credits must be in the invoice currency; INR credits can pay any invoice
+  if (credit.currency !== invoice.currency && credit.currency !== 'INR') {
+    return null
+  }
+
+  const hasReference = normalizeReference(narration).includes(normalizeReference(invoice.invoiceNumber))
+  if (hasReference) {
+    score += 50
+    reasons.push('Invoice number in narration')
+  }
+
+  const amountInInvoiceCurrency = getAmountInInvoiceCurrency(credit, invoice)
+  const expectedAmount = amountInInvoiceCurrency ?? credit.amount / invoice.exchangeRate
+  const shortfall = (invoice.balanceDue - expectedAmount) / invoice.balanceDue
+
+  if (amountInInvoiceCurrency !== null && Math.abs(invoice.balanceDue - expectedAmount) <= 0.01) {
+    score += 35
+    reasons.push('Amount equals balance due')
+  } else if (amountInInvoiceCurrency !== null && shortfall >= 0 && shortfall <= FEE_TOLERANCE) {
+    score += 25
+    reasons.push('Amount within fees of balance due')
+  } else if (amountInInvoiceCurrency === null && Math.abs(shortfall) <= FEE_TOLERANCE) {
+    // The rate moves between invoicing and receipt, so allow either side
+    score += 15
+    reasons.push('INR amount close to balance due at invoice rate')
+  } else if (!hasReference) {
+    return null
+  }
+
+  if (mentionsClient(narration, invoice.clientName)) {
+    score += 15
+    reasons.push('Client name in narration')
+  }
+
+  const windowStart = subDays(invoice.invoiceDate, DAYS_BEFORE_INVOICE)
+  const windowEnd = addDays(invoice.dueDate, DAYS_AFTER_DUE)
+  if (credit.date >= windowStart && credit.date <= windowEnd) {
+    score += 10
+    reasons.push('Received within the payment window')
+  } else if (!hasReference) {
+    return null
+  }
+
+  return {
+    invoiceId: invoice.id,
+    score: Math.min(score, 100),
+    reasons,
+  }
+}
+
+/**
+ * Propose a match for each credit. Each invoice is proposed for at most
+ * one credit, best scores first.
+ *
+ * @returns Proposal per credit index (credits without a match are absent)
+ */
+export function proposePaymentMatches(
+  credits: CreditForMatching[],
+  invoices: OpenInvoiceForMatching[]
+): Map<number, PaymentMatchProposal> {
+  const candidates: Array<{ creditIndex: number; proposal: PaymentMatchProposal }> = []
+  credits.forEach((credit, creditIndex) => {
+    for (const invoice of invoices) {
+      const proposal = scoreCreditAgainstInvoice(credit, invoice)
+      if (proposal && proposal.score >= MIN_MATCH_SCORE) {
+        candidates.push({ creditIndex, proposal })
+      }
+    }
+  })
+
+  candidates.sort((a, b) => b.proposal.score - a.proposal.score)
+
+  const proposals = new Map<number, PaymentMatchProposal>()
+  const usedInvoices = new Set<string>()
+  for (const { creditIndex, proposal } of candidates) {
+    if (proposals.has(creditIndex) || usedInvoices.has(proposal.invoiceId)) continue
+    proposals.set(creditIndex, proposal)
+    usedInvoices.add(proposal.invoiceId)
+  }
+
+  return proposals
+}
+
+/**
+ * Work out the payment to record when a credit is matched to an invoice
+ */
+export function suggestPayment(
+  credit: Pick<CreditForMatching, 'amount' | 'currency' | 'description'>,
+  invoice: Pick<OpenInvoiceForMatching, 'currency' | 'balanceDue'>
+): SuggestedPayment {
+  if (credit.currency === invoice.currency) {
+    return {
+      amount: round(credit.amount, 2),
+      creditedAmount: invoice.currency === 'INR' ? round(credit.amount, 2) : null,
+      actualExchangeRate: invoice.currency === 'INR' ? 1 : null,
+    }
+  }
+
+  // INR credit for a foreign currency invoice: without the remitted amount
+  // in the narration, assume the balance due was settled in full
+  const amount = getAmountInInvoiceCurrency(credit, invoice) ?? invoice.balanceDue
+  return {
+    amount: round(amount, 2),
+    creditedAmount: round(credit.amount, 2),
+    actualExchangeRate: round(credit.amount / amount, 4),
+  }
+}
+
+/**
+ * Amount of the credit in the invoice currency, when known: the credit
+ * amount itself, or a foreign amount printed in the narration such as
+ * "USD 1,000.00"
+ */
+function getAmountInInvoiceCurrency(
+  credit: Pick<CreditForMatching, 'amount' | 'currency' | 'description'>,
+  invoice: Pick<OpenInvoiceForMatching, 'currency'>
+): number | null {
+  if (credit.currency === invoice.currency) return credit.amount
+
+  const match = new RegExp(`\\b${invoice.currency}\\s?([\\d,]+(?:\\.\\d+)?)`, 'i').exec(credit.description)
+  if (!match) return null
+
+  const amount = Number(match[1].replace(/,/g, ''))
+  return Number.isFinite(amount) && amount > 0 ? amount : null
+}
+
+function normalizeReference(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Check whether the narration mentions the client by the first
+ * distinctive word of their name
+ */
+function mentionsClient(narration: string, clientName: string): boolean {
+  const word = clientName
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .find((part) => part.length >= 4 && !['THE', 'INC', 'LTD', 'LLC', 'CORP', 'GMBH'].includes(part))
+  return !!word && narration.toUpperCase().includes(word)
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
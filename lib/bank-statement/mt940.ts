@@ -0,0 +1,70 @@
+/**
+ * MT940 Bank Statement Parser
+ *
+ * SWIFT customer statement message. Each :61: statement line is followed
+ * by an optional :86: line with the narrative (remitter, remittance info).
+ */
+
+import type { BankStatementParseResult, StatementTransaction } from './types'
+
+/**
+ * Parse an MT940 statement
+ */
+export function parseMT940(content: string): BankStatementParseResult {
+  if (!/:20:/.test(content) || !/:61:/.test(content)) {
+    return { success: false, error: 'Not an MT940 statement' }
+  }
+
+  // Join continuation lines onto their field
+  const fields: Array<{ tag: string; value: string }> = []
+  for (const line of content.split(/\r?\n/)) {
+    const field = /^:(\d{2}[A-Z]?):(.*)$/.exec(line)
+    if (field) {
+      fields.push({ tag: field[1], value: field[2] })
+    } else if (fields.length > 0 && line.trim() !== '' && !/^-}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+
+  const accountNumber = fields.find((field) => field.tag === '25')?.value.trim()
+  const openingBalance = fields.find((field) => field.tag === '60F' || field.tag === '60M')?.value
+  const currency = openingBalance ? /^[CD]\d{6}([A-Z]{3})/.exec(openingBalance)?.[1] ?? 'INR' : 'INR'
+
+  const transactions: StatementTransaction[] = []
+  fields.forEach((field, index) => {
+    if (field.tag !== '61') return
+
+    // YYMMDD [MMDD] C|D|RC|RD [funds code] amount Nxxx reference [//bank reference]
+    const line = /^(\d{2})(\d{2})(\d{2})(?:\d{4})?(R?[CD])[A-Z]?([\d,]+)([NSF][A-Z0-9]{3})([^\n/]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/.exec(
+      field.value
+    )
+    if (!line) return
+
+    const [, yy, mm, dd, mark, amountText, , customerReference, bankReference, supplementary] = line
+    const amount = Number(amountText.replace(',', '.'))
+    // RC (reversal of credit) is a debit and RD a credit
+    const isCredit = mark === 'C' || mark === 'RD'
+
+    const next = fields[index + 1]
+    const narrative = next?.tag === '86' ? next.value.replace(/\n/g, ' ').trim() : ''
+
+    transactions.push({
+      date: new Date(2000 + Number(yy), Number(mm) - 1, Number(dd)),
+      amount,
+      isCredit,
+      currency,
+      description: narrative || supplementary?.trim() || '',
+      reference: [customerReference, bankReference]
+        .map((reference) => reference?.trim())
+        .find((reference) => reference && reference !== 'NONREF'),
+    })
+  })
+
+  return {
+    success: true,
+    format: 'MT940',
+    accountNumber,
+    currency,
+    transactions,
+  }
+}
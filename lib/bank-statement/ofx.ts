@@ -0,0 +1,69 @@
+/**
+ * OFX Bank Statement Parser
+ *
+ * Handles both OFX 1.x (SGML, closing tags optional) and OFX 2.x (XML).
+ */
+
+import type { BankStatementParseResult, StatementTransaction } from './types'
+
+/**
+ * Parse an OFX statement download
+ */
+export function parseOFX(content: string): BankStatementParseResult {
+  if (!/<OFX>/i.test(content)) {
+    return { success: false, error: 'Not an OFX file' }
+  }
+
+  const currency = readTag(content, 'CURDEF') ?? 'INR'
+  const transactions: StatementTransaction[] = []
+
+  for (const match of content.matchAll(/<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi)) {
+    const block = match[1]
+    const date = parseOFXDate(readTag(block, 'DTPOSTED'))
+    const amount = Number(readTag(block, 'TRNAMT')?.replace(',', '.'))
+    if (!date || !Number.isFinite(amount) || amount === 0) continue
+
+    const name = readTag(block, 'NAME')
+    const memo = readTag(block, 'MEMO')
+
+    transactions.push({
+      date,
+      amount: Math.abs(amount),
+      isCredit: amount > 0,
+      currency: readTag(block, 'CURSYM') ?? currency,
+      description: [name, memo].filter(Boolean).join(' ') || (readTag(block, 'TRNTYPE') ?? ''),
+      reference: readTag(block, 'REFNUM') ?? readTag(block, 'CHECKNUM') ?? readTag(block, 'FITID'),
+      counterparty: name,
+    })
+  }
+
+  return {
+    success: true,
+    format: 'OFX',
+    accountNumber: readTag(content, 'ACCTID'),
+    currency,
+    transactions,
+  }
+}
+
+/**
+ * Value of the first element with this name; text runs to the next tag
+ * since OFX 1.x leaves leaf elements unclosed
+ */
+function readTag(content: string, tag: string): string | undefined {
+  const value = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(content)?.[1].trim()
+  return value ? decodeEntities(value) : undefined
+}
+
+/**
+ * Read an OFX date such as 20240415 or 20240415120000.000[+5.5:IST]
+ */
+function parseOFXDate(value: string | undefined): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value ?? '')
+  if (!match) return undefined
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&')
+}
@@ -0,0 +1,29 @@
+/**
+ * Bank statement formats we can read
+ */
+export type BankStatementFormat = 'CSV' | 'OFX' | 'MT940' | 'CAMT053'
+
+/**
+ * A transaction line from a bank statement
+ */
+export interface StatementTransaction {
+  date: Date
+  amount: number // Always positive; see isCredit
+  isCredit: boolean
+  currency: string
+  description: string
+  reference?: string
+  counterparty?: string // Remitter name, when the format carries it
+}
+
+/**
+ * Parse result
+ */
+export interface BankStatementParseResult {
+  success: boolean
+  format?: BankStatementFormat
+  accountNumber?: string
+  currency?: string
+  transactions?: StatementTransaction[]
+  error?: string
+}
@@ -0,0 +1,174 @@
+/**
+ * Cash-Flow Forecast
+ *
+ * Projects cash in and out over the coming weeks. Inflows are open
+ * invoices and upcoming recurring (retainer) invoices, expected on the
+ * client's historical days-to-pay. Outflows are GST payable with GSTR-3B,
+ * tax under reverse charge and dated payment vouchers.
+ */
+
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns'
+import type { RecurringFrequency } from '@prisma/client'
+import { getOccurrenceDate } from '@/lib/recurring-invoices'
+
+export const FORECAST_DAYS = 90
+
+export type CashFlowCategory = 'INVOICE' | 'RETAINER' | 'GST' | 'RCM' | 'PAYMENT_VOUCHER'
+
+/**
+ * An expected receipt or payment
+ */
+export interface CashFlowItem {
+  date: Date
+  category: CashFlowCategory
+  direction: 'IN' | 'OUT'
+  description: string
+  currency: string
+  amount: number // In the currency
+  amountInr: number
+  invoiceId?: string
+}
+
+export interface CashFlowWeek {
+  weekStart: Date
+  weekEnd: Date
+  inflows: number
+  outflows: number
+  net: number
+  cumulative: number // Running net from the start of the forecast
+  items: CashFlowItem[]
+}
+
+export interface CashFlowForecast {
+  from: Date
+  to: Date
+  weeks: CashFlowWeek[]
+  totals: {
+    inflows: number
+    outflows: number
+    net: number
+    byCategory: Record<CashFlowCategory, number>
+  }
+}
+
+/**
+ * Average days from invoice date to final payment, or null without history
+ *
+ * @param paidInvoices - Fully paid invoices with the date of their last payment
+ */
+export function getAverageDaysToPay(paidInvoices: Array<{ invoiceDate: Date; paidDate: Date }>): number | null {
+  if (paidInvoices.length === 0) return null
+
+  const total = paidInvoices.reduce(
+    (sum, invoice) => sum + Math.max(0, differenceInCalendarDays(invoice.paidDate, invoice.invoiceDate)),
+    0
+  )
+  return Math.round(total / paidInvoices.length)
+}
+
+/**
+ * When an invoice is expected to be paid: the invoice date plus the
+ * client's average days-to-pay, or the due date when the client has no
+ * history. Invoices already past that date are expected today.
+ */
+export function getExpectedPaymentDate(
+  invoice: { invoiceDate: Date; dueDate: Date },
+  averageDaysToPay: number | null,
+  today: Date
+): Date {
+  const expected = startOfDay(
+    averageDaysToPay === null ? invoice.dueDate : addDays(invoice.invoiceDate, averageDaysToPay)
+  )
+  const day = startOfDay(today)
+  return expected < day ? day : expected
+}
+
+/**
+ * Invoice dates a recurring schedule will still generate up to a date
+ *
+ * @param schedule - Start date, frequency, invoices generated so far and end date
+ * @param to - Last invoice date to include
+ */
+export function getUpcomingOccurrences(
+  schedule: { startDate: Date; frequency: RecurringFrequency; occurrences: number; endDate: Date | null },
+  to: Date
+): Date[] {
+  const dates: Date[] = []
+  for (let occurrence = schedule.occurrences; ; occurrence++) {
+    const date = getOccurrenceDate(schedule.startDate, schedule.frequency, occurrence)
+    if (date > to || (schedule.endDate && date > schedule.endDate)) break
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Group expected receipts and payments into weeks starting today
+ *
+ * @param items - Receipts and payments; those outside the forecast window are left out
+ * @param today - First day of the forecast
+ * @param days - Length of the forecast
+ */
+export function buildCashFlowForecast(
+  items: CashFlowItem[],
+  today: Date = new Date(),
+  days: number = FORECAST_DAYS
+): CashFlowForecast {
+  const from = startOfDay(today)
+  const to = addDays(from, days - 1)
+
+  const weeks: CashFlowWeek[] = []
+  for (let weekStart = from; weekStart <= to; weekStart = addDays(weekStart, 7)) {
+    const weekEnd = addDays(weekStart, 6) > to ? to : addDays(weekStart, 6)
+    weeks.push({ weekStart, weekEnd, inflows: 0, outflows: 0, net: 0, cumulative: 0, items: [] })
+  }
+
+  const byCategory: Record<CashFlowCategory, number> = {
+    INVOICE: 0,
+    RETAINER: 0,
+    GST: 0,
+    RCM: 0,
+    PAYMENT_VOUCHER: 0,
+  }
+
+  const sorted = [...items].sort((a, b) => a.date.getTime() - b.date.getTime())
+  for (const item of sorted) {
+    const offset = differenceInCalendarDays(item.date, from)
+    if (offset < 0 || offset >= days) continue
+
+    const week = weeks[Math.floor(offset / 7)]
+    week.items.push(item)
+    if (item.direction === 'IN') {
+      week.inflows = roundTo2Decimals(week.inflows + item.amountInr)
+    } else {
+      week.outflows = roundTo2Decimals(week.outflows + item.amountInr)
+    }
+    byCategory[item.category] = roundTo2Decimals(byCategory[item.category] + item.amountInr)
+  }
+
+  let cumulative = 0
+  for (const week of weeks) {
+    week.net = roundTo2Decimals(week.inflows - week.outflows)
+    cumulative = roundTo2Decimals(cumulative + week.net)
+    week.cumulative = cumulative
+  }
+
+  const inflows = roundTo2Decimals(weeks.reduce((total, week) => total + week.inflows, 0))
+  const outflows = roundTo2Decimals(weeks.reduce((total, week) => total + week.outflows, 0))
+
+  return {
+    from,
+    to,
+    weeks,
+    totals: {
+      inflows,
+      outflows,
+      net: roundTo2Decimals(inflows - outflows),
+      byCategory,
+    },
+  }
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,204 @@
+/**
+ * Client Credit Balances and Statements
+ *
+ * Money a client sends beyond what is due on an invoice (an overpayment) or
+ * before the work is invoiced (an advance) is held as a credit in the
+ * client's currency. Credits are used up oldest first when applied to
+ * invoices. The client statement is a running ledger per currency of
+ * invoices and notes (debits) against payments and credits received.
+ */
+
+/**
+ * A credit with the balance still available to apply
+ */
+export interface CreditForAllocation {
+  creditId: string
+  balance: number
+}
+
+/**
+ * Amount of a credit applied to an invoice
+ */
+export interface CreditAllocation {
+  creditId: string
+  amount: number
+}
+
+export type StatementEntryType = 'INVOICE' | 'DEBIT_NOTE' | 'CREDIT_NOTE' | 'PAYMENT' | 'CREDIT'
+
+/**
+ * A transaction on the client statement. Debits increase what the client
+ * owes, credits reduce it.
+ */
+export interface StatementEntry {
+  date: Date
+  type: StatementEntryType
+  reference: string
+  description: string
+  currency: string
+  debit: number
+  credit: number
+}
+
+export interface StatementLine extends StatementEntry {
+  balance: number // Running balance after this line; negative when the client is in credit
+}
+
+/**
+ * Statement lines in one currency
+ */
+export interface StatementSection {
+  currency: string
+  openingBalance: number
+  lines: StatementLine[]
+  totalDebits: number
+  totalCredits: number
+  closingBalance: number
+}
+
+// Same-day entries list invoices and notes before the money against them
+const ENTRY_ORDER: Record<StatementEntryType, number> = {
+  INVOICE: 0,
+  DEBIT_NOTE: 1,
+  CREDIT_NOTE: 2,
+  PAYMENT: 3,
+  CREDIT: 4,
+}
+
+/**
+ * Balance left on a credit after its applications. Negative when more has
+ * been applied than was received, so over-application shows up.
+ */
+export function getCreditBalance(amount: number, applications: { amount: number }[]): number {
+  const applied = applications.reduce((sum, application) => sum + application.amount, 0)
+  return roundTo2Decimals(amount - applied)
+}
+
+/**
+ * Split a payment into the part that settles the invoice and the excess
+ * to hold as client credit
+ *
+ * @param amount - Amount the client sent
+ * @param balanceDue - Balance due on the invoice before this payment
+ */
+export function splitOverpayment(amount: number, balanceDue: number): { applied: number; excess: number } {
+  const applied = roundTo2Decimals(Math.min(amount, Math.max(0, balanceDue)))
+  return { applied, excess: roundTo2Decimals(amount - applied) }
+}
+
+/**
+ * Use credits, in the order given, towards an invoice balance
+ *
+ * @param balanceDue - Balance due on the invoice
+ * @param credits - Available credits, oldest first
+ * @param limit - Optional cap on the total amount to apply
+ * @returns The amount to take from each credit
+ */
+export function allocateClientCredit(
+  balanceDue: number,
+  credits: CreditForAllocation[],
+  limit?: number
+): CreditAllocation[] {
+  const allocations: CreditAllocation[] = []
+  let remaining = roundTo2Decimals(limit !== undefined ? Math.min(balanceDue, limit) : balanceDue)
+
+  for (const credit of credits) {
+    if (remaining <= 0) break
+    const applied = Math.min(remaining, roundTo2Decimals(credit.balance))
+    if (applied <= 0) continue
+
+    allocations.push({ creditId: credit.creditId, amount: applied })
+    remaining = roundTo2Decimals(remaining - applied)
+  }
+
+  return allocations
+}
+
+/**
+ * Build the client statement: entries grouped by currency in date order
+ * with a running balance. Entries before the start date roll into the
+ * opening balance.
+ *
+ * @param entries - All transactions with the client
+ * @param from - Optional statement start date
+ * @param to - Optional statement end date; later entries are left out
+ */
+export function buildClientStatement(entries: StatementEntry[], from?: Date, to?: Date): StatementSection[] {
+  const sorted = entries
+    .filter((entry) => !to || entry.date <= to)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type])
+
+  const sections = new Map<string, StatementSection>()
+
+  for (const entry of sorted) {
+    let section = sections.get(entry.currency)
+    if (!section) {
+      section = {
+        currency: entry.currency,
+        openingBalance: 0,
+        lines: [],
+        totalDebits: 0,
+        totalCredits: 0,
+        closingBalance: 0,
+      }
+      sections.set(entry.currency, section)
+    }
+
+    section.closingBalance = roundTo2Decimals(section.closingBalance + entry.debit - entry.credit)
+
+    if (from && entry.date < from) {
+      section.openingBalance = section.closingBalance
+      continue
+    }
+
+    section.totalDebits = roundTo2Decimals(section.totalDebits + entry.debit)
+    section.totalCredits = roundTo2Decimals(section.totalCredits + entry.credit)
+    section.lines.push({ ...entry, balance: section.closingBalance })
+  }
+
+  return [...sections.values()].sort((a, b) => a.currency.localeCompare(b.currency))
+}
+
+/**
+ * Render a client statement as CSV, one block per currency
+ */
+export function statementToCSV(sections: StatementSection[]): string {
+  const header = ['Date', 'Type', 'Reference', 'Description', 'Currency', 'Debit', 'Credit', 'Balance']
+  const rows: string[][] = [header]
+
+  for (const section of sections) {
+    rows.push(['', 'Opening balance', '', '', section.currency, '', '', section.openingBalance.toFixed(2)])
+    for (const line of section.lines) {
+      rows.push([
+        line.date.toISOString().split('T')[0],
+        line.type,
+        line.reference,
+        line.description,
+        line.currency,
+        line.debit ? line.debit.toFixed(2) : '',
+        line.credit ? line.credit.toFixed(2) : '',
+        line.balance.toFixed(2),
+      ])
+    }
+    rows.push([
+      '',
+      'Closing balance',
+      '',
+      '',
+      section.currency,
+      section.totalDebits.toFixed(2),
+      section.totalCredits.toFixed(2),
+      section.closingBalance.toFixed(2),
+    ])
+  }
+
+  return rows.map((row) => row.map(escapeCSV).join(',')).join('\n')
+}
+
+function escapeCSV(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,159 @@
+import { Prisma, type NoteType } from '@prisma/client'
+
+/**
+ * Tax rates of the original invoice, reused by notes issued against it
+ */
+export interface NoteTaxRates {
+  igstRate: number
+  cgstRate: number
+  sgstRate: number
+}
+
+/**
+ * Calculated amounts of a credit/debit note (in the invoice currency)
+ */
+export interface NoteAmounts {
+  igstAmount: number
+  cgstAmount: number
+  sgstAmount: number
+  totalAmount: number
+  totalInINR: number
+}
+
+/**
+ * Calculate tax and totals for a credit/debit note (Section 34 CGST Act)
+ *
+ * A note adjusts the original supply, so it is taxed at the same rates as
+ * the original invoice and converted at the original exchange rate.
+ *
+ * @param taxableAmount - Taxable value being credited/debited (invoice currency)
+ * @param rates - Tax rates of the original invoice
+ * @param exchangeRate - Exchange rate of the original invoice
+ * @returns Tax amounts and totals
+ */
+export function calculateNoteAmounts(
+  taxableAmount: number,
+  rates: NoteTaxRates,
+  exchangeRate: number
+): NoteAmounts {
+  const igstAmount = roundTo2Decimals(taxableAmount * (rates.igstRate / 100))
+  const cgstAmount = roundTo2Decimals(taxableAmount * (rates.cgstRate / 100))
+  const sgstAmount = roundTo2Decimals(taxableAmount * (rates.sgstRate / 100))
+  const totalAmount = roundTo2Decimals(taxableAmount + igstAmount + cgstAmount + sgstAmount)
+
+  return {
+    igstAmount,
+    cgstAmount,
+    sgstAmount,
+    totalAmount,
+    totalInINR: roundTo2Decimals(totalAmount * exchangeRate),
+  }
+}
+
+/**
+ * Get the signed effect of a note on the original invoice
+ * Credit notes reduce the amount receivable, debit notes increase it.
+ *
+ * @param noteType - CREDIT or DEBIT
+ * @param amount - Unsigned note amount
+ * @returns Signed amount
+ */
+export function getNoteSign(noteType: NoteType, amount: number): number {
+  return noteType === 'CREDIT' ? -amount : amount
+}
+
+/**
+ * Get the remaining taxable value that can still be credited on an invoice
+ *
+ * @param invoiceSubtotal - Taxable value of the original invoice
+ * @param notes - Notes already issued against the invoice
+ * @returns Maximum taxable amount for a new credit note
+ */
+export function getCreditableAmount(
+  invoiceSubtotal: number,
+  notes: Array<{ noteType: NoteType; taxableAmount: number }>
+): number {
+  const netAdjustment = notes.reduce(
+    (sum, note) => sum + getNoteSign(note.noteType, note.taxableAmount),
+    0
+  )
+  return Math.max(0, roundTo2Decimals(invoiceSubtotal + netAdjustment))
+}
+
+/**
+ * Get the amount receivable on an invoice after credit/debit notes
+ *
+ * @param invoice - Invoice total and net note adjustment (invoice currency)
+ * @returns Invoice total plus debit notes minus credit notes
+ */
+export function getAmountReceivable(invoice: {
+  totalAmount: Prisma.Decimal | number
+  noteAdjustment?: Prisma.Decimal | number | null
+}): Prisma.Decimal {
+  return new Prisma.Decimal(invoice.totalAmount).add(invoice.noteAdjustment ?? 0)
+}
+
+// Epsilon tolerance for decimal comparisons (0.01 = 1 cent)
+const PAYMENT_EPSILON = new Prisma.Decimal(0.01)
+
+/**
+ * Amount paid, balance due and payment status of an invoice from what has
+ * been paid against it. A paid invoice goes back to SENT once it no longer is.
+ *
+ * @param invoice - Invoice total, net note adjustment and current status
+ * @param amountPaid - Total of the invoice's payments
+ * @returns Fields to write to the invoice
+ */
+export function getInvoicePaymentState(
+  invoice: {
+    totalAmount: Prisma.Decimal | number
+    noteAdjustment?: Prisma.Decimal | number | null
+    status: string
+  },
+  amountPaid: Prisma.Decimal | number
+) {
+  const paid = new Prisma.Decimal(amountPaid)
+  const rawBalanceDue = getAmountReceivable(invoice).minus(paid)
+
+  // Clamp balance due to 0 if it's negative or within epsilon
+  const isFullyPaid = rawBalanceDue.lessThanOrEqualTo(PAYMENT_EPSILON)
+  const balanceDue = isFullyPaid ? new Prisma.Decimal(0) : rawBalanceDue
+
+  let paymentStatus: string
+  if (isFullyPaid) {
+    paymentStatus = 'PAID'
+  } else if (paid.greaterThan(0)) {
+    paymentStatus = 'PARTIALLY_PAID'
+  } else {
+    paymentStatus = 'UNPAID'
+  }
+
+  const status = paymentStatus === 'PAID' ? 'PAID' : invoice.status === 'PAID' ? 'SENT' : invoice.status
+
+  return { amountPaid: paid, balanceDue, paymentStatus, status }
+}
+
+/**
+ * Recompute amount paid, balance due and payment status of an invoice from
+ * its payments
+ */
+export async function updateInvoicePaymentStatus(tx: Prisma.TransactionClient, invoiceId: string): Promise<void> {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: { payments: { select: { amount: true } } },
+  })
+
+  const amountPaid = invoice.payments.reduce((sum, payment) => sum.add(payment.amount), new Prisma.Decimal(0))
+
+  await tx.invoice.update({
+    where: { id: invoiceId },
+    data: getInvoicePaymentState(invoice, amountPaid),
+  })
+}
+
+/**
+ * Round a number to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -2,45 +2,64 @@
  * Filing Calendar Utilities
  *
  * Generates filing calendar data for dashboard display:
- * - Upcoming GSTR-1 and GSTR-3B deadlines
+ * - Upcoming GSTR-1 and GSTR-3B deadlines, or IFF, PMT-06 and quarterly
+ *   returns for months under QRMP
  * - Filed/pending status
  * - Overdue alerts
  */
 
 import { format, subMonths, differenceInDays } from 'date-fns'
-import { FilingType, FilingStatus } from '@prisma/client'
+import { FilingFrequency, FilingType, FilingStatus } from '@prisma/client'
+import { getReturnDueDate } from '@/lib/gst-filing/due-dates'
+import {
+  FILING_TYPE_LABELS,
+  formatReturnPeriod,
+  getFilingFrequency,
+  getReturnsForPeriod,
+  type FilingFrequencyChange,
+} from '@/lib/gst-filing/qrmp'
+import { isFiledStatus } from '@/lib/gst-filing/amendments'
 
 export interface FilingPeriodData {
   period: string      // YYYY-MM format
-  filingType: FilingType | 'GSTR1' | 'GSTR3B'
+  filingType: FilingType
   status: FilingStatus | 'FILED' | 'PENDING'
   filedAt?: Date | null
 }
 
 export interface FilingCalendarEntry {
   period: string          // YYYY-MM
-  periodLabel: string     // "December 2025"
-  filingType: 'GSTR1' | 'GSTR3B'
-  filingLabel: string     // "GSTR-1" or "GSTR-3B"
+  periodLabel: string     // "December 2025", or "October–December 2025" for quarterly returns
+  filingType: FilingType
+  filingLabel: string     // "GSTR-1", "GSTR-3B", "IFF" or "PMT-06"
+  frequency: FilingFrequency
   dueDate: Date
   daysUntilDue: number
-  isOverdue: boolean
+  isOverdue: boolean      // Never set for the optional IFF
+  isOptional: boolean
   status: 'FILED' | 'PENDING' | 'IN_REVIEW' | 'APPROVED'
   filedAt?: Date | null
 }
 
+// The user's filing frequency history and GST state, for QRMP returns and due dates
+export interface FilingCalendarOptions {
+  frequencyHistory?: FilingFrequencyChange[]
+  stateCode?: string | null
+}
+
 /**
  * Get the due date for a filing based on return period
- * GSTR-1: 11th of following month
- * GSTR-3B: 20th of following month
+ * GSTR-1: 11th of following month (13th after the quarter under QRMP)
+ * GSTR-3B: 20th of following month (22nd/24th after the quarter under QRMP)
+ * IFF: 13th of following month
+ * PMT-06: 25th of following month
  */
-export function getFilingDueDate(period: string, filingType: 'GSTR1' | 'GSTR3B'): Date {
-  const [year, month] = period.split('-').map(Number)
-  const nextMonth = month === 12 ? 1 : month + 1
-  const dueYear = month === 12 ? year + 1 : year
-  const dueDay = filingType === 'GSTR1' ? 11 : 20
-
-  return new Date(dueYear, nextMonth - 1, dueDay)
+export function getFilingDueDate(
+  period: string,
+  filingType: FilingType,
+  options: { frequency?: FilingFrequency; stateCode?: string | null } = {}
+): Date {
+  return getReturnDueDate(filingType, period, options)
 }
 
 /**
@@ -48,7 +67,8 @@ export function getFilingDueDate(period: string, filingType: 'GSTR1' | 'GSTR3B')
  */
 export function generateFilingCalendar(
   filingData: FilingPeriodData[],
-  monthsAhead: number = 3
+  monthsAhead: number = 3,
+  options: FilingCalendarOptions = {}
 ): FilingCalendarEntry[] {
   const now = new Date()
   const entries: FilingCalendarEntry[] = []
@@ -65,30 +85,34 @@ export function generateFilingCalendar(
     // If we're in January, we need Dec returns (due in Jan)
     // and Jan returns (due in Feb)
     const returnPeriod = format(subMonths(now, 1 - i), 'yyyy-MM')
-    const periodDate = subMonths(now, 1 - i)
-    const periodLabel = format(periodDate, 'MMMM yyyy')
+    const frequency = getFilingFrequency(options.frequencyHistory ?? [], returnPeriod)
 
-    for (const filingType of ['GSTR1', 'GSTR3B'] as const) {
+    for (const { filingType, dueDate, isOptional } of getReturnsForPeriod(
+      returnPeriod,
+      frequency,
+      options.stateCode ?? null
+    )) {
       const key = `${returnPeriod}-${filingType}`
       const existing = filingMap.get(key)
-      const dueDate = getFilingDueDate(returnPeriod, filingType)
       const daysUntilDue = differenceInDays(dueDate, now)
 
       let status: FilingCalendarEntry['status'] = 'PENDING'
       if (existing) {
-        if (existing.status === 'FILED') status = 'FILED'
+        if (isFiledStatus(existing.status)) status = 'FILED'
         else if (existing.status === 'IN_REVIEW') status = 'IN_REVIEW'
         else if (existing.status === 'APPROVED') status = 'APPROVED'
       }
 
       entries.push({
         period: returnPeriod,
-        periodLabel,
+        periodLabel: formatReturnPeriod(returnPeriod, frequency, filingType),
         filingType,
-        filingLabel: filingType === 'GSTR1' ? 'GSTR-1' : 'GSTR-3B',
+        filingLabel: FILING_TYPE_LABELS[filingType],
+        frequency,
         dueDate,
         daysUntilDue,
-        isOverdue: status !== 'FILED' && daysUntilDue < 0,
+        isOverdue: !isOptional && status !== 'FILED' && daysUntilDue < 0,
+        isOptional,
         status,
         filedAt: existing?.filedAt,
       })
@@ -103,14 +127,16 @@ export function generateFilingCalendar(
  */
 export function getNextFilingDeadlines(
   filingData: FilingPeriodData[],
-  count: number = 4
+  count: number = 4,
+  options: FilingCalendarOptions = {}
 ): FilingCalendarEntry[] {
   // Generate calendar for next 6 months to ensure we have enough entries
-  const calendar = generateFilingCalendar(filingData, 6)
+  const calendar = generateFilingCalendar(filingData, 6, options)
 
-  // Filter out filed entries and sort by due date
+  // Filter out filed entries and missed IFFs (no longer fileable), and sort by due date
   return calendar
     .filter((entry) => entry.status !== 'FILED')
+    .filter((entry) => !(entry.isOptional && entry.daysUntilDue < 0))
     .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
     .slice(0, count)
 }
@@ -118,7 +144,10 @@ export function getNextFilingDeadlines(
 /**
  * Get overdue filings
  */
-export function getOverdueFilings(filingData: FilingPeriodData[]): FilingCalendarEntry[] {
-  const calendar = generateFilingCalendar(filingData, 6)
+export function getOverdueFilings(
+  filingData: FilingPeriodData[],
+  options: FilingCalendarOptions = {}
+): FilingCalendarEntry[] {
+  const calendar = generateFilingCalendar(filingData, 6, options)
   return calendar.filter((entry) => entry.isOverdue)
 }
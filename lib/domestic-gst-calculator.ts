@@ -0,0 +1,135 @@
+import { getStateCodeFromGSTIN, getStateNameFromCode } from '@/lib/validations/gst'
+
+/**
+ * GST rates applicable to domestic supplies of services
+ */
+export const DOMESTIC_GST_RATES = [0, 5, 12, 18, 28] as const
+export type DomesticGSTRate = typeof DOMESTIC_GST_RATES[number]
+
+/**
+ * Standard rate for IT and professional services
+ */
+export const DEFAULT_DOMESTIC_GST_RATE: DomesticGSTRate = 18
+
+/**
+ * Result of a domestic GST calculation
+ */
+export interface DomesticGSTResult {
+  isInterstate: boolean
+  igstRate: number
+  igst: number
+  cgstRate: number
+  cgst: number
+  sgstRate: number
+  sgst: number
+  totalTax: number
+}
+
+/**
+ * Input for a domestic (forward charge) GST calculation
+ */
+export interface DomesticGSTInput {
+  /** Taxable value (invoice subtotal) */
+  amount: number
+  /** GST rate percentage (e.g., 18) */
+  gstRate: number
+  /** Supplier's state code, taken from the user's GSTIN (e.g., '29') */
+  supplierStateCode: string
+  /** Place of supply state code, i.e. the client's state (e.g., '27') */
+  placeOfSupplyStateCode: string
+}
+
+/**
+ * Calculate GST for a domestic supply of services (Section 12 IGST Act)
+ *
+ * Key characteristics:
+ * - CGST + SGST (half rate each) when supplier and place of supply are in the same state
+ * - IGST at the full rate when they are in different states
+ * - Tax is payable by the supplier (forward charge)
+ *
+ * @param input - Domestic supply calculation input
+ * @returns Tax split with rates and amounts
+ */
+export function calculateDomesticGST(input: DomesticGSTInput): DomesticGSTResult {
+  const isInterstate = input.supplierStateCode !== input.placeOfSupplyStateCode
+
+  if (isInterstate) {
+    const igst = roundTo2Decimals(input.amount * (input.gstRate / 100))
+
+    return {
+      isInterstate,
+      igstRate: input.gstRate,
+      igst,
+      cgstRate: 0,
+      cgst: 0,
+      sgstRate: 0,
+      sgst: 0,
+      totalTax: igst,
+    }
+  }
+
+  const halfRate = input.gstRate / 2
+  const cgst = roundTo2Decimals(input.amount * (halfRate / 100))
+  const sgst = roundTo2Decimals(input.amount * (halfRate / 100))
+
+  return {
+    isInterstate,
+    igstRate: 0,
+    igst: 0,
+    cgstRate: halfRate,
+    cgst,
+    sgstRate: halfRate,
+    sgst,
+    totalTax: roundTo2Decimals(cgst + sgst),
+  }
+}
+
+/**
+ * Check if a client country is India
+ */
+export function isIndianCountry(country: string | null | undefined): boolean {
+  if (!country) return false
+  const normalized = country.toUpperCase().trim()
+  return normalized === 'IN' || normalized === 'IND' || normalized === 'INDIA'
+}
+
+/**
+ * Determine the place of supply state code for a domestic client.
+ * A registered client's GSTIN takes precedence over the state they selected.
+ *
+ * @param client - Client GSTIN and/or state code
+ * @returns 2-digit GST state code or null if it cannot be determined
+ */
+export function getClientStateCode(client: {
+  gstin?: string | null
+  stateCode?: string | null
+}): string | null {
+  if (client.gstin) {
+    const fromGstin = getStateCodeFromGSTIN(client.gstin)
+    if (fromGstin) return fromGstin
+  }
+
+  if (client.stateCode && getStateNameFromCode(client.stateCode)) {
+    return client.stateCode
+  }
+
+  return null
+}
+
+/**
+ * Format the place of supply for a domestic invoice (e.g., "27 - Maharashtra")
+ *
+ * @param stateCode - 2-digit GST state code
+ * @returns Formatted place of supply
+ */
+export function getDomesticPlaceOfSupply(stateCode: string): string {
+  const stateName = getStateNameFromCode(stateCode)
+  return stateName ? `${stateCode} - ${stateName}` : stateCode
+}
+
+/**
+ * Round a number to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,117 @@
+/**
+ * Payment Reminder (Dunning) Schedules
+ *
+ * A schedule lists reminder days relative to the invoice due date, for
+ * example 3 days before, on the due date, and then every 7 days while the
+ * invoice is unpaid. A user has one default schedule and may override it
+ * per client.
+ */
+
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns'
+
+/**
+ * When reminders go out for an invoice
+ */
+export interface DunningSteps {
+  offsetDays: number[] // Days relative to the due date; negative = before
+  repeatEveryDays: number | null // Interval after the last offset until paid
+  maxReminders: number | null // Stop after this many reminders
+}
+
+/**
+ * Reminder that is due to be sent
+ */
+export interface DueReminder {
+  reminderNumber: number // 1 for the first reminder of the invoice
+  scheduledFor: Date
+}
+
+export const DEFAULT_DUNNING_STEPS: DunningSteps = {
+  offsetDays: [-3, 0],
+  repeatEveryDays: 7,
+  maxReminders: null,
+}
+
+/**
+ * Check a schedule for mistakes
+ *
+ * @returns Error message, or null if the schedule is valid
+ */
+export function validateDunningSteps(steps: DunningSteps): string | null {
+  if (steps.offsetDays.length === 0 && !steps.repeatEveryDays) {
+    return 'Add at least one reminder day or a repeat interval'
+  }
+  if (new Set(steps.offsetDays).size !== steps.offsetDays.length) {
+    return 'Reminder days must be different'
+  }
+  if (steps.repeatEveryDays !== null && steps.repeatEveryDays < 1) {
+    return 'Repeat interval must be at least one day'
+  }
+  return null
+}
+
+/**
+ * Date of the latest reminder step on or before a day, or null if the
+ * first step is still ahead. Repeats start after the last offset, or on
+ * the due date when there are no offsets.
+ */
+export function getLatestReminderDate(dueDate: Date, steps: DunningSteps, today: Date): Date | null {
+  const due = startOfDay(dueDate)
+  const day = startOfDay(today)
+  const offsets = [...steps.offsetDays].sort((a, b) => a - b)
+
+  const lastOffset = offsets.length > 0 ? offsets[offsets.length - 1] : 0
+  const repeatStart = addDays(due, lastOffset)
+  if (steps.repeatEveryDays && day > repeatStart) {
+    const repeats = Math.floor(differenceInCalendarDays(day, repeatStart) / steps.repeatEveryDays)
+    if (repeats > 0) return addDays(repeatStart, repeats * steps.repeatEveryDays)
+  }
+
+  const passed = offsets.map((offset) => addDays(due, offset)).filter((date) => date <= day)
+  if (passed.length > 0) return passed[passed.length - 1]
+
+  return steps.repeatEveryDays && offsets.length === 0 && day >= repeatStart ? repeatStart : null
+}
+
+/**
+ * Work out whether a reminder is due today. Only the latest step is sent
+ * when several have passed since the last reminder, so a missed run never
+ * sends a burst of reminders.
+ *
+ * @param sentCount - Reminders already sent for the invoice
+ * @param lastSentAt - When the last reminder was sent
+ */
+export function getDueReminder(
+  dueDate: Date,
+  steps: DunningSteps,
+  sentCount: number,
+  lastSentAt: Date | null,
+  today: Date = new Date()
+): DueReminder | null {
+  if (steps.maxReminders !== null && sentCount >= steps.maxReminders) return null
+
+  const scheduledFor = getLatestReminderDate(dueDate, steps, today)
+  if (!scheduledFor) return null
+  if (lastSentAt && startOfDay(lastSentAt) >= scheduledFor) return null
+
+  return { reminderNumber: sentCount + 1, scheduledFor }
+}
+
+/**
+ * Describe a schedule, e.g. "3 days before, on the due date, then every 7 days"
+ */
+export function describeDunningSteps(steps: DunningSteps): string {
+  const parts = [...steps.offsetDays]
+    .sort((a, b) => a - b)
+    .map((offset) => {
+      if (offset === 0) return 'on the due date'
+      const days = `${Math.abs(offset)} day${Math.abs(offset) === 1 ? '' : 's'}`
+      return offset < 0 ? `${days} before` : `${days} after`
+    })
+  if (steps.repeatEveryDays) {
+    parts.push(`${parts.length > 0 ? 'then ' : ''}every ${steps.repeatEveryDays} days`)
+  }
+
+  const description = parts.join(', ')
+  return steps.maxReminders ? `${description} (at most ${steps.maxReminders})` : description
+}
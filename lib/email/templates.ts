@@ -34,6 +34,10 @@ export interface EmailTemplateData {
   userName?: string
   renewalUrl?: string
 
+  // Export realisation specific
+  realisationInvoices?: RealisationAlertInvoice[]
+  registerUrl?: string
+
   // Bank details for email
   bankDetails?: string
 
@@ -41,6 +45,16 @@ export interface EmailTemplateData {
   customMessage?: string
 }
 
+export interface RealisationAlertInvoice {
+  invoiceNumber: string
+  clientName: string
+  invoiceDate: string
+  deadline: string
+  currency: string
+  unrealisedAmount: number
+  daysRemaining: number
+}
+
 const baseStyles = `
   <style>
     body {
@@ -776,6 +790,110 @@ This is an automated reminder. Please do not reply directly to this message.`
     return { html, text }
   },
   
+  'realisation-deadline': (data: EmailTemplateData) => {
+    const invoices = data.realisationInvoices ?? []
+    const overdueCount = invoices.filter((invoice) => invoice.daysRemaining < 0).length
+    const describeDeadline = (invoice: RealisationAlertInvoice) =>
+      invoice.daysRemaining < 0
+        ? `${-invoice.daysRemaining} days overdue`
+        : `${invoice.daysRemaining} days remaining`
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        ${baseStyles}
+      </head>
+      <body>
+        <div class="email-container">
+          <div class="header" style="background-color: ${overdueCount > 0 ? '#dc2626' : '#f59e0b'};">
+            <h1>Export Realisation Deadline</h1>
+          </div>
+
+          <div class="content">
+            <p>Dear ${data.userName || 'User'},</p>
+
+            <p>
+              The following export invoices have not been fully realised and are approaching or past the
+              nine-month realisation limit under FEMA.
+              ${overdueCount > 0 ? `<span class="warning">${overdueCount} ${overdueCount === 1 ? 'invoice is' : 'invoices are'} overdue.</span>` : ''}
+            </p>
+
+            ${invoices.map((invoice) => `
+            <div class="invoice-details">
+              <div class="detail-row">
+                <span class="detail-label">Invoice:</span>
+                <span class="detail-value">${invoice.invoiceNumber} - ${invoice.clientName}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Invoice Date:</span>
+                <span class="detail-value">${invoice.invoiceDate}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Unrealised:</span>
+                <span class="detail-value">${formatCurrency(invoice.unrealisedAmount, invoice.currency)}</span>
+              </div>
+              <div class="detail-row">
+                <span class="detail-label">Realise By:</span>
+                <span class="detail-value${invoice.daysRemaining < 0 ? ' warning' : ''}">${invoice.deadline} (${describeDeadline(invoice)})</span>
+              </div>
+            </div>`).join('')}
+
+            <p><strong>What you need to do:</strong></p>
+
+            <ul>
+              <li>Follow up with the client for the outstanding amount</li>
+              <li>Record payments received and upload the FIRC or e-BRC against them</li>
+              <li>If realisation will take longer, apply to your AD bank for an extension before the deadline</li>
+            </ul>
+
+            <p>Unrealised export proceeds can lead to withdrawal of your LUT and a demand for IGST on the exports.</p>
+
+            ${data.registerUrl ? `<div style="text-align: center; margin: 30px 0;"><a href="${data.registerUrl}" class="button">Open Realisation Register</a></div>` : ''}
+
+            <p>Best regards,<br>
+            TaxHive Team</p>
+          </div>
+
+          <div class="footer">
+            <p><strong>TaxHive</strong></p>
+            <p>GST-Compliant Invoice Management for Indian Freelancers</p>
+            <p style="margin-top: 20px; font-size: 12px;">
+              This is an automated reminder. Please do not reply directly to this message.
+            </p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+
+    const text = `Export Realisation Deadline
+
+Dear ${data.userName || 'User'},
+
+The following export invoices have not been fully realised and are approaching or past the nine-month realisation limit under FEMA.${overdueCount > 0 ? ` ${overdueCount} ${overdueCount === 1 ? 'invoice is' : 'invoices are'} overdue.` : ''}
+
+${invoices.map((invoice) => `- ${invoice.invoiceNumber} (${invoice.clientName}), dated ${invoice.invoiceDate}: ${formatCurrency(invoice.unrealisedAmount, invoice.currency)} unrealised, realise by ${invoice.deadline} (${describeDeadline(invoice)})`).join('\n')}
+
+What you need to do:
+- Follow up with the client for the outstanding amount
+- Record payments received and upload the FIRC or e-BRC against them
+- If realisation will take longer, apply to your AD bank for an extension before the deadline
+
+Unrealised export proceeds can lead to withdrawal of your LUT and a demand for IGST on the exports.
+
+${data.registerUrl ? `Open Realisation Register: ${data.registerUrl}` : ''}
+
+Best regards,
+TaxHive Team
+
+This is an automated reminder. Please do not reply directly to this message.`
+
+    return { html, text }
+  },
+  
   'payment-received': (data: EmailTemplateData) => {
     const formattedAmount = data.amount && data.currency 
       ? formatCurrency(data.amount, data.currency)
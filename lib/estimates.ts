@@ -0,0 +1,48 @@
+import type { EstimateStatus } from '@prisma/client'
+
+/**
+ * Check whether an estimate can still be edited or deleted
+ * Once the client has responded the quoted terms are frozen.
+ *
+ * @param status - Current estimate status
+ * @returns true for DRAFT and SENT estimates
+ */
+export function isEstimateEditable(status: EstimateStatus): boolean {
+  return status === 'DRAFT' || status === 'SENT'
+}
+
+/**
+ * Check whether an estimate has passed its validity date
+ *
+ * @param validUntil - Last day the estimate is valid
+ * @param now - Reference time (defaults to current time)
+ * @returns true if the estimate has expired
+ */
+export function isEstimateExpired(validUntil: Date, now: Date = new Date()): boolean {
+  const endOfValidity = new Date(validUntil)
+  endOfValidity.setHours(23, 59, 59, 999)
+  return now > endOfValidity
+}
+
+/**
+ * Get the reason a client can't accept or decline an estimate
+ *
+ * @param estimate - Status and validity of the estimate
+ * @param now - Reference time (defaults to current time)
+ * @returns Error message, or null if the client can respond (sent and still valid)
+ */
+export function getEstimateResponseError(
+  estimate: { status: EstimateStatus; validUntil: Date },
+  now: Date = new Date()
+): string | null {
+  if (estimate.status === 'DRAFT') {
+    return 'This estimate has not been sent yet'
+  }
+  if (estimate.status !== 'SENT') {
+    return 'This estimate has already been responded to'
+  }
+  if (isEstimateExpired(estimate.validUntil, now)) {
+    return 'This estimate has expired. Please contact the sender for a revised estimate.'
+  }
+  return null
+}
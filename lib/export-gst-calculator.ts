@@ -0,0 +1,87 @@
+import { GST_CONSTANTS } from '@/lib/constants'
+
+/**
+ * Standard IGST rate for exports with payment of tax (IT and professional services)
+ */
+export const EXPORT_WITH_PAYMENT_IGST_RATE = 18
+
+/**
+ * Result of an export IGST calculation
+ */
+export interface ExportGSTResult {
+  igstRate: number
+  /** IGST in the invoice currency */
+  igst: number
+  /** Taxable value in INR at the invoice exchange rate */
+  taxableValueINR: number
+  /** IGST in INR, as paid to the government and claimed as refund */
+  igstINR: number
+  totalTax: number
+}
+
+/**
+ * Input for an export IGST calculation
+ */
+export interface ExportGSTInput {
+  /** Taxable value (invoice subtotal) in the invoice currency */
+  amount: number
+  /** INR per unit of invoice currency (Rule 34 CGST Rules) */
+  exchangeRate: number
+  /** Export with payment of IGST (refund route) instead of under LUT */
+  withPayment: boolean
+}
+
+/**
+ * Calculate IGST for an export of services (Section 16 IGST Act)
+ *
+ * Key characteristics:
+ * - Under LUT the supply is zero-rated and no IGST is charged
+ * - With payment of tax, IGST is levied at 18% on the INR taxable value
+ *   and the exporter claims it back as a refund
+ *
+ * @param input - Export calculation input
+ * @returns IGST rate and amounts in the invoice currency and INR
+ */
+export function calculateExportGST(input: ExportGSTInput): ExportGSTResult {
+  const taxableValueINR = roundTo2Decimals(input.amount * input.exchangeRate)
+
+  if (!input.withPayment) {
+    return {
+      igstRate: GST_CONSTANTS.IGST_RATE_EXPORT,
+      igst: 0,
+      taxableValueINR,
+      igstINR: 0,
+      totalTax: 0,
+    }
+  }
+
+  const igst = roundTo2Decimals(input.amount * (EXPORT_WITH_PAYMENT_IGST_RATE / 100))
+
+  return {
+    igstRate: EXPORT_WITH_PAYMENT_IGST_RATE,
+    igst,
+    taxableValueINR,
+    igstINR: roundTo2Decimals(taxableValueINR * (EXPORT_WITH_PAYMENT_IGST_RATE / 100)),
+    totalTax: igst,
+  }
+}
+
+/**
+ * Get the mandatory export declaration printed on the invoice (Rule 46 CGST Rules)
+ *
+ * @param lut - LUT the invoice is issued under, if any
+ * @returns Declaration text
+ */
+export function getExportDeclaration(lut: { lutNumber: string; lutDate: Date } | null): string {
+  if (lut) {
+    return `SUPPLY MEANT FOR EXPORT UNDER LUT NO ${lut.lutNumber} DATED ${new Date(lut.lutDate).toLocaleDateString('en-IN')} – TAX NOT PAYABLE`
+  }
+  return 'SUPPLY MEANT FOR EXPORT ON PAYMENT OF INTEGRATED TAX'
+}
+
+/**
+ * Round a number to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
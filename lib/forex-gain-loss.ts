@@ -0,0 +1,188 @@
+/**
+ * Realised Forex Gain/Loss
+ *
+ * A foreign currency invoice is booked at its invoice exchange rate. When a
+ * payment is received it is settled at the rate the bank actually applied,
+ * and the difference on the amount settled is a realised exchange gain or
+ * loss (AS 11 / Ind AS 21). Platform fees and bank charges are shown next
+ * to it, as they also reduce the INR realised against the invoice.
+ */
+
+import { format } from 'date-fns'
+
+/**
+ * Payment amounts needed for the calculation (invoice currency unless noted)
+ */
+export interface PaymentForForex {
+  amount: number // Amount settled against the invoice
+  amountReceivedBeforeFees: number | null // Amount left after platform fees
+  platformFeesInCurrency: number | null
+  creditedAmount: number | null // INR credited to the bank
+  actualExchangeRate: number | null // INR per unit
+  bankChargesInr: number | null
+}
+
+/**
+ * Realised gain/loss of one payment, in INR
+ */
+export interface PaymentForexResult {
+  bookingRate: number
+  settlementRate: number | null // Null when neither the rate nor the INR credited is recorded
+  bookedInr: number // Amount at the invoice rate
+  settledInr: number // Amount at the settlement rate (booked value when unknown)
+  exchangeGainLoss: number // Settled less booked
+  platformFeesInr: number
+  bankChargesInr: number
+  creditedInr: number | null
+  netGainLoss: number // Exchange gain/loss less fees and charges
+}
+
+/**
+ * A payment with its invoice and client, for reporting
+ */
+export interface ForexReportRow extends PaymentForexResult {
+  paymentId: string
+  paymentDate: Date
+  invoiceId: string
+  invoiceNumber: string
+  clientId: string | null
+  clientName: string
+  currency: string
+  amount: number
+}
+
+/**
+ * Totals for a group of payments
+ */
+export interface ForexGainLossTotals {
+  paymentCount: number
+  bookedInr: number
+  settledInr: number
+  exchangeGainLoss: number
+  platformFeesInr: number
+  bankChargesInr: number
+  netGainLoss: number
+  missingRateCount: number // Payments valued at the booking rate for lack of a settlement rate
+}
+
+export interface ForexGainLossGroup extends ForexGainLossTotals {
+  key: string
+  label: string
+  currency?: string
+  amount?: number // In the group currency, when the group has one currency
+}
+
+/**
+ * Calculate the realised gain/loss of a payment
+ *
+ * The settlement rate is the recorded actual rate, or else the INR credited
+ * plus bank charges divided by the amount received after platform fees.
+ *
+ * @param payment - Payment amounts
+ * @param bookingRate - Exchange rate of the invoice
+ * @param currency - Invoice currency
+ */
+export function calculatePaymentForexGainLoss(
+  payment: PaymentForForex,
+  bookingRate: number,
+  currency: string
+): PaymentForexResult {
+  const bankChargesInr = payment.bankChargesInr ?? 0
+  const platformFees = payment.platformFeesInCurrency ?? 0
+  const amountAfterFees = payment.amountReceivedBeforeFees ?? payment.amount - platformFees
+
+  let settlementRate: number | null
+  if (currency === 'INR') {
+    settlementRate = 1
+  } else if (payment.actualExchangeRate) {
+    settlementRate = payment.actualExchangeRate
+  } else if (payment.creditedAmount && amountAfterFees > 0) {
+    settlementRate = (payment.creditedAmount + bankChargesInr) / amountAfterFees
+  } else {
+    settlementRate = null
+  }
+
+  const effectiveBookingRate = currency === 'INR' ? 1 : bookingRate
+  const bookedInr = roundTo2Decimals(payment.amount * effectiveBookingRate)
+  const settledInr = settlementRate !== null ? roundTo2Decimals(payment.amount * settlementRate) : bookedInr
+  const exchangeGainLoss = roundTo2Decimals(settledInr - bookedInr)
+  const platformFeesInr = roundTo2Decimals(platformFees * (settlementRate ?? effectiveBookingRate))
+
+  return {
+    bookingRate: effectiveBookingRate,
+    settlementRate: settlementRate !== null ? roundTo4Decimals(settlementRate) : null,
+    bookedInr,
+    settledInr,
+    exchangeGainLoss,
+    platformFeesInr,
+    bankChargesInr: roundTo2Decimals(bankChargesInr),
+    creditedInr:
+      payment.creditedAmount ??
+      (settlementRate !== null ? roundTo2Decimals(amountAfterFees * settlementRate - bankChargesInr) : null),
+    netGainLoss: roundTo2Decimals(exchangeGainLoss - platformFeesInr - bankChargesInr),
+  }
+}
+
+/**
+ * Total a set of report rows
+ */
+export function totalForexGainLoss(rows: ForexReportRow[]): ForexGainLossTotals {
+  return {
+    paymentCount: rows.length,
+    bookedInr: sum(rows, (row) => row.bookedInr),
+    settledInr: sum(rows, (row) => row.settledInr),
+    exchangeGainLoss: sum(rows, (row) => row.exchangeGainLoss),
+    platformFeesInr: sum(rows, (row) => row.platformFeesInr),
+    bankChargesInr: sum(rows, (row) => row.bankChargesInr),
+    netGainLoss: sum(rows, (row) => row.netGainLoss),
+    missingRateCount: rows.filter((row) => row.settlementRate === null).length,
+  }
+}
+
+/**
+ * Group report rows by invoice, by client and currency, or by month
+ */
+export function groupForexGainLoss(
+  rows: ForexReportRow[],
+  by: 'invoice' | 'clientCurrency' | 'month'
+): ForexGainLossGroup[] {
+  const groups = new Map<string, { label: string; rows: ForexReportRow[] }>()
+
+  for (const row of rows) {
+    const [key, label] =
+      by === 'invoice'
+        ? [row.invoiceId, row.invoiceNumber]
+        : by === 'clientCurrency'
+          ? [`${row.clientId ?? ''}|${row.currency}`, row.clientName]
+          : [format(row.paymentDate, 'yyyy-MM'), format(row.paymentDate, 'MMM yyyy')]
+
+    const group = groups.get(key) ?? { label, rows: [] }
+    group.rows.push(row)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const currencies = new Set(group.rows.map((row) => row.currency))
+    const currency = currencies.size === 1 ? group.rows[0].currency : undefined
+
+    return {
+      key,
+      label: group.label,
+      currency,
+      amount: currency ? sum(group.rows, (row) => row.amount) : undefined,
+      ...totalForexGainLoss(group.rows),
+    }
+  })
+}
+
+function sum(rows: ForexReportRow[], value: (row: ForexReportRow) => number): number {
+  return roundTo2Decimals(rows.reduce((total, row) => total + value(row), 0))
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function roundTo4Decimals(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -0,0 +1,181 @@
+/**
+ * Forex Revaluation of Open Receivables
+ *
+ * At the end of a reporting period, foreign currency receivables still
+ * outstanding are restated at the closing rate (AS 11 / Ind AS 21). The
+ * difference from the value at the invoice rate is an unrealised gain or
+ * loss, which is reversed at the start of the next period so that the
+ * realised gain/loss is measured against the invoice rate when paid.
+ */
+
+import { format } from 'date-fns'
+import { getNoteSign } from '@/lib/credit-debit-notes'
+
+/**
+ * An invoice with the payments and notes that affect its balance
+ */
+export interface InvoiceForRevaluation {
+  totalAmount: number
+  payments: Array<{ amount: number; paymentDate: Date }>
+  creditDebitNotes: Array<{ noteType: 'CREDIT' | 'DEBIT'; totalAmount: number; noteDate: Date }>
+}
+
+/**
+ * Restated value of one invoice's balance due
+ */
+export interface RevaluationAmounts {
+  bookedInr: number // Balance due at the invoice rate
+  revaluedInr: number // Balance due at the closing rate
+  gainLoss: number // Revalued less booked
+}
+
+/**
+ * A revaluation line as stored and exported
+ */
+export interface RevaluationLine extends RevaluationAmounts {
+  invoiceNumber: string
+  invoiceDate: Date
+  clientName: string
+  currency: string
+  balanceDue: number
+  bookingRate: number
+  closingRate: number
+  rateSource: string
+  rateDate: Date
+}
+
+/**
+ * Totals of a revaluation, overall and by currency
+ */
+export interface RevaluationSummary extends RevaluationAmounts {
+  invoiceCount: number
+  byCurrency: Array<RevaluationAmounts & { currency: string; invoiceCount: number; balanceDue: number }>
+}
+
+/**
+ * Get the balance due on an invoice at the end of a date, counting only
+ * the payments received and notes issued up to then
+ *
+ * @param invoice - Invoice total with its payments and notes
+ * @param date - Revaluation date
+ * @returns Balance due in the invoice currency
+ */
+export function getBalanceDueOn(invoice: InvoiceForRevaluation, date: Date): number {
+  const notes = invoice.creditDebitNotes
+    .filter((note) => note.noteDate <= date)
+    .reduce((total, note) => total + getNoteSign(note.noteType, note.totalAmount), 0)
+  const paid = invoice.payments
+    .filter((payment) => payment.paymentDate <= date)
+    .reduce((total, payment) => total + payment.amount, 0)
+
+  return roundTo2Decimals(invoice.totalAmount + notes - paid)
+}
+
+/**
+ * Restate a balance due at the closing rate
+ *
+ * @param balanceDue - Balance due in the invoice currency
+ * @param bookingRate - Exchange rate of the invoice
+ * @param closingRate - Exchange rate on the revaluation date
+ */
+export function calculateRevaluation(balanceDue: number, bookingRate: number, closingRate: number): RevaluationAmounts {
+  const bookedInr = roundTo2Decimals(balanceDue * bookingRate)
+  const revaluedInr = roundTo2Decimals(balanceDue * closingRate)
+
+  return {
+    bookedInr,
+    revaluedInr,
+    gainLoss: roundTo2Decimals(revaluedInr - bookedInr),
+  }
+}
+
+/**
+ * Total revaluation lines, overall and by currency
+ */
+export function summarizeRevaluation(lines: RevaluationLine[]): RevaluationSummary {
+  const currencies = [...new Set(lines.map((line) => line.currency))].sort()
+
+  return {
+    invoiceCount: lines.length,
+    ...sumAmounts(lines),
+    byCurrency: currencies.map((currency) => {
+      const inCurrency = lines.filter((line) => line.currency === currency)
+      return {
+        currency,
+        invoiceCount: inCurrency.length,
+        balanceDue: roundTo2Decimals(inCurrency.reduce((total, line) => total + line.balanceDue, 0)),
+        ...sumAmounts(inCurrency),
+      }
+    }),
+  }
+}
+
+/**
+ * Build the CSV the accountant posts the revaluation entry from, with a
+ * total row at the end
+ */
+export function revaluationToCSV(lines: RevaluationLine[]): string {
+  const header = [
+    'Invoice Number',
+    'Invoice Date',
+    'Client',
+    'Currency',
+    'Balance Due',
+    'Invoice Rate',
+    'Closing Rate',
+    'Rate Date',
+    'Rate Source',
+    'Value at Invoice Rate (INR)',
+    'Value at Closing Rate (INR)',
+    'Unrealised Gain/Loss (INR)',
+  ]
+
+  const rows = lines.map((line) => [
+    line.invoiceNumber,
+    format(line.invoiceDate, 'yyyy-MM-dd'),
+    line.clientName,
+    line.currency,
+    line.balanceDue.toFixed(2),
+    line.bookingRate.toFixed(4),
+    line.closingRate.toFixed(4),
+    format(line.rateDate, 'yyyy-MM-dd'),
+    line.rateSource,
+    line.bookedInr.toFixed(2),
+    line.revaluedInr.toFixed(2),
+    line.gainLoss.toFixed(2),
+  ])
+
+  const totals = sumAmounts(lines)
+  rows.push([
+    'Total',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    '',
+    totals.bookedInr.toFixed(2),
+    totals.revaluedInr.toFixed(2),
+    totals.gainLoss.toFixed(2),
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCSVField).join(',')).join('\n') + '\n'
+}
+
+function sumAmounts(lines: RevaluationAmounts[]): RevaluationAmounts {
+  return {
+    bookedInr: roundTo2Decimals(lines.reduce((total, line) => total + line.bookedInr, 0)),
+    revaluedInr: roundTo2Decimals(lines.reduce((total, line) => total + line.revaluedInr, 0)),
+    gainLoss: roundTo2Decimals(lines.reduce((total, line) => total + line.gainLoss, 0)),
+  }
+}
+
+function escapeCSVField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
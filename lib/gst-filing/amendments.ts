@@ -0,0 +1,276 @@
+/**
+ * Filed Period Locking and Amendments
+ *
+ * Once a return is filed, the invoices, payments, self-invoices and notes
+ * dated in the months it covers are locked. A change to one of them is an
+ * amendment: it needs a reason, is kept in the amendments log, and marks the
+ * filed returns AMENDED. Invoices and notes filed in GSTR-1 are reported
+ * again in the next GSTR-1:
+ * - Table 9A: amended B2B (4A), B2C large (5) and export (6A) invoices
+ * - Table 9C: amended credit/debit notes (9B)
+ *
+ * B2C small supplies (Table 7) are reported in consolidated form, so their
+ * amendments are kept in the log but not carried into a return.
+ */
+
+import type { AmendedDocumentType, CreditDebitNote, FilingFrequency, FilingStatus, FilingType, Payment } from '@prisma/client'
+import { diffInvoiceSnapshots, type InvoiceSnapshot, type SnapshotChange } from '@/lib/invoice-revisions'
+import { getFilingPeriodFromDate, getQuarterEndPeriod, getQuarterPeriods } from './due-dates'
+import { FILING_TYPE_LABELS, formatReturnPeriod } from './qrmp'
+
+// Statuses of a return that has been filed on the portal
+export const FILED_STATUSES: FilingStatus[] = ['FILED', 'AMENDED']
+
+// GSTR-1 tables whose documents are amended in Table 9A or 9C
+export const AMENDABLE_GSTR1_TABLES = ['4A', '5', '6A', '9B']
+
+export const AMENDED_DOCUMENT_LABELS: Record<AmendedDocumentType, string> = {
+  INVOICE: 'Invoice',
+  SELF_INVOICE: 'Self-invoice',
+  PAYMENT: 'Payment',
+  CREDIT_DEBIT_NOTE: 'Credit/debit note',
+}
+
+// A return, as needed to work out the months it locks
+export interface FiledReturn {
+  filingType: FilingType
+  period: string
+  frequency: FilingFrequency
+  status: FilingStatus
+}
+
+/**
+ * Payment fields as stored in the amendments log
+ */
+export interface PaymentSnapshot {
+  amount: number
+  currency: string
+  paymentDate: string
+  paymentMethod: string
+  reference: string | null
+  notes: string | null
+  creditedAmount: number | null
+  actualExchangeRate: number | null
+  bankChargesInr: number | null
+  fircNumber: string | null
+  fircDate: string | null
+}
+
+/**
+ * Credit/debit note fields as stored in the amendments log
+ */
+export interface NoteSnapshot {
+  noteType: string
+  noteNumber: string
+  noteDate: string
+  reason: string
+  description: string | null
+  currency: string
+  exchangeRate: number
+  taxableAmount: number
+  igstAmount: number
+  cgstAmount: number
+  sgstAmount: number
+  totalAmount: number
+  totalInINR: number
+}
+
+// Snapshot kept in the amendments log, by document type
+export type AmendmentSnapshot = InvoiceSnapshot | NoteSnapshot | PaymentSnapshot
+
+const PAYMENT_FIELD_LABELS: Record<keyof PaymentSnapshot, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  paymentDate: 'Payment date',
+  paymentMethod: 'Payment method',
+  reference: 'Reference',
+  notes: 'Notes',
+  creditedAmount: 'Amount credited (INR)',
+  actualExchangeRate: 'Exchange rate applied',
+  bankChargesInr: 'Bank charges (INR)',
+  fircNumber: 'FIRC number',
+  fircDate: 'FIRC date',
+}
+
+const NOTE_FIELD_LABELS: Record<keyof NoteSnapshot, string> = {
+  noteType: 'Note type',
+  noteNumber: 'Note number',
+  noteDate: 'Note date',
+  reason: 'Reason',
+  description: 'Description',
+  currency: 'Currency',
+  exchangeRate: 'Exchange rate',
+  taxableAmount: 'Taxable amount',
+  igstAmount: 'IGST amount',
+  cgstAmount: 'CGST amount',
+  sgstAmount: 'SGST amount',
+  totalAmount: 'Total amount',
+  totalInINR: 'Total in INR',
+}
+
+/**
+ * Check if a return has been filed, including filed returns amended since
+ */
+export function isFiledStatus(status: FilingStatus | string): boolean {
+  return (FILED_STATUSES as string[]).includes(status)
+}
+
+/**
+ * Get the months a return covers: the quarter for quarterly GSTR-1 and
+ * GSTR-3B, otherwise its own month
+ */
+export function getReturnMonths(filing: Pick<FiledReturn, 'filingType' | 'period' | 'frequency'>): string[] {
+  if (filing.frequency === 'QUARTERLY' && (filing.filingType === 'GSTR1' || filing.filingType === 'GSTR3B')) {
+    return getQuarterPeriods(filing.period)
+  }
+  return [filing.period]
+}
+
+/**
+ * Get the periods of the returns that can cover any of the dates: each
+ * date's month, and the quarter's last month for quarterly returns
+ */
+export function getCoveringReturnPeriods(dates: Date[]): string[] {
+  const months = dates.map(getFilingPeriodFromDate)
+  return Array.from(new Set([...months, ...months.map(getQuarterEndPeriod)]))
+}
+
+/**
+ * Find the filed returns covering any of the dates
+ *
+ * @param returns - The user's returns, in any status
+ * @param dates - Document dates, e.g. before and after a change
+ */
+export function findLockingReturns<T extends FiledReturn>(returns: T[], dates: Date[]): T[] {
+  const months = dates.map(getFilingPeriodFromDate)
+  return returns.filter(
+    (filing) => isFiledStatus(filing.status) && getReturnMonths(filing).some((month) => months.includes(month))
+  )
+}
+
+/**
+ * Describe returns for messages, e.g. "GSTR-1 for October–December 2024, GSTR-3B for October 2024"
+ */
+export function describeReturns(returns: Array<Pick<FiledReturn, 'filingType' | 'period' | 'frequency'>>): string {
+  return returns
+    .map(
+      (filing) =>
+        `${FILING_TYPE_LABELS[filing.filingType]} for ${formatReturnPeriod(filing.period, filing.frequency, filing.filingType)}`
+    )
+    .join(', ')
+}
+
+/**
+ * Message for a change refused because the document is dated in filed returns
+ *
+ * @param document - The document, e.g. "Invoice INV-001"
+ * @param returns - Filed returns covering its date
+ */
+export function getFiledPeriodMessage(document: string, returns: FiledReturn[]): string {
+  return `${document} is dated in a filed period (${describeReturns(returns)}). Give a reason to record the change as an amendment.`
+}
+
+/**
+ * Get the GSTR-1 table an amendment is reported in, from the table the
+ * document was filed in
+ *
+ * @returns "9A" for invoices, "9C" for notes, or null when not reported
+ */
+export function getAmendmentTable(originalTable: string | null): '9A' | '9C' | null {
+  switch (originalTable) {
+    case '4A':
+    case '5':
+    case '6A':
+      return '9A'
+    case '9B':
+      return '9C'
+    default:
+      return null
+  }
+}
+
+/**
+ * Get the number and date a document was filed with, from the snapshot
+ * taken before its first amendment
+ */
+export function getOriginalDocument(
+  documentType: AmendedDocumentType,
+  original: AmendmentSnapshot
+): { number: string; date: Date } | null {
+  if (documentType === 'INVOICE' || documentType === 'SELF_INVOICE') {
+    const invoice = original as InvoiceSnapshot
+    return { number: invoice.invoiceNumber, date: new Date(invoice.invoiceDate) }
+  }
+  if (documentType === 'CREDIT_DEBIT_NOTE') {
+    const note = original as NoteSnapshot
+    return { number: note.noteNumber, date: new Date(note.noteDate) }
+  }
+  return null
+}
+
+/**
+ * Build the snapshot of a payment kept in the amendments log
+ */
+export function toPaymentSnapshot(payment: Payment): PaymentSnapshot {
+  return {
+    amount: Number(payment.amount),
+    currency: payment.currency,
+    paymentDate: new Date(payment.paymentDate).toISOString(),
+    paymentMethod: payment.paymentMethod,
+    reference: payment.reference,
+    notes: payment.notes,
+    creditedAmount: payment.creditedAmount !== null ? Number(payment.creditedAmount) : null,
+    actualExchangeRate: payment.actualExchangeRate !== null ? Number(payment.actualExchangeRate) : null,
+    bankChargesInr: payment.bankChargesInr !== null ? Number(payment.bankChargesInr) : null,
+    fircNumber: payment.fircNumber,
+    fircDate: payment.fircDate ? new Date(payment.fircDate).toISOString() : null,
+  }
+}
+
+/**
+ * Build the snapshot of a credit/debit note kept in the amendments log
+ */
+export function toNoteSnapshot(note: CreditDebitNote): NoteSnapshot {
+  return {
+    noteType: note.noteType,
+    noteNumber: note.noteNumber,
+    noteDate: new Date(note.noteDate).toISOString(),
+    reason: note.reason,
+    description: note.description,
+    currency: note.currency,
+    exchangeRate: Number(note.exchangeRate),
+    taxableAmount: Number(note.taxableAmount),
+    igstAmount: Number(note.igstAmount),
+    cgstAmount: Number(note.cgstAmount),
+    sgstAmount: Number(note.sgstAmount),
+    totalAmount: Number(note.totalAmount),
+    totalInINR: Number(note.totalInINR),
+  }
+}
+
+/**
+ * List the fields an amendment changed. Deletions have no changed fields.
+ *
+ * @param documentType - Type of the document amended
+ * @param original - Snapshot before the change
+ * @param amended - Snapshot after the change, null when deleted
+ */
+export function diffAmendment(
+  documentType: AmendedDocumentType,
+  original: AmendmentSnapshot,
+  amended: AmendmentSnapshot | null
+): SnapshotChange[] {
+  if (!amended) return []
+
+  if (documentType === 'INVOICE' || documentType === 'SELF_INVOICE') {
+    return diffInvoiceSnapshots(original as InvoiceSnapshot, amended as InvoiceSnapshot)
+  }
+
+  const labels: Record<string, string> = documentType === 'PAYMENT' ? PAYMENT_FIELD_LABELS : NOTE_FIELD_LABELS
+  const before = original as unknown as Record<string, string | number | null>
+  const after = amended as unknown as Record<string, string | number | null>
+
+  return Object.entries(labels)
+    .filter(([field]) => (before[field] ?? null) !== (after[field] ?? null))
+    .map(([field, label]) => ({ field, label, from: before[field] ?? null, to: after[field] ?? null }))
+}
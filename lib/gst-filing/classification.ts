@@ -9,11 +9,11 @@
  * - 5: B2C large (>₹2.5L inter-state supplies to unregistered)
  * - 6A: Exports with/without payment
  * - 7: B2C others (small B2C)
- * - 9B: Credit/Debit notes (not yet implemented)
+ * - 9B: Credit/Debit notes (CDNR for registered, CDNUR for B2C large and exports)
  *
  * GSTR-3B Sections:
  * - 3.1(a): Outward taxable supplies + Import RCM
- * - 3.1(b): Zero-rated supplies (exports with LUT)
+ * - 3.1(b): Zero-rated supplies (exports under LUT or with payment of IGST)
  * - 3.1(d): Inward supplies under RCM (Indian unregistered)
  * - 4A(3): ITC from RCM
  * - 4A(5): ITC from registered purchases (from GSTR-2B)
@@ -28,7 +28,8 @@ export enum GSTR1Table {
   B2C_SMALL = 'B2C_SMALL', // Table 7 - B2C Others
   EXPORTS_WITH_LUT = 'EXPORTS_WITH_LUT', // Table 6A - Export with LUT
   EXPORTS_WITH_PAYMENT = 'EXPORTS_WITH_PAYMENT', // Table 6A - Export with payment
-  CREDIT_DEBIT_NOTES = 'CREDIT_DEBIT_NOTES', // Table 9B
+  CREDIT_DEBIT_NOTES = 'CREDIT_DEBIT_NOTES', // Table 9B - CDNR (registered recipients)
+  CREDIT_DEBIT_NOTES_UNREGISTERED = 'CREDIT_DEBIT_NOTES_UNREGISTERED', // Table 9B - CDNUR
   NOT_APPLICABLE = 'NOT_APPLICABLE', // Not reported in GSTR-1 (e.g., RCM self-invoices)
 }
 
@@ -48,9 +49,11 @@ export interface InvoiceForClassification {
   isRCM: boolean
   rcmType: RcmType | null
   lutId: string | null
+  exportWithPayment?: boolean // Export with payment of IGST (refund route)
   clientGstin: string | null
   clientCountry: string | null
   totalInINR: number
+  taxableValue?: number // Taxable value in INR (defaults to totalInINR, exports carry no tax)
   igstAmount: number
   cgstAmount: number
   sgstAmount: number
@@ -81,6 +84,38 @@ export interface GSTR3BClassification {
   itcSgst: number
 }
 
+// INR amounts used for filing
+export interface INRTaxAmounts {
+  taxableValue: number
+  igst: number
+  cgst: number
+  sgst: number
+}
+
+/**
+ * Convert an invoice's taxable value and tax amounts to INR.
+ * Outward invoices store amounts in the invoice currency, while
+ * self-invoices already store them in INR.
+ */
+export function getINRTaxAmounts(invoice: {
+  invoiceType: InvoiceType
+  subtotal: number
+  exchangeRate: number
+  igstAmount: number
+  cgstAmount: number
+  sgstAmount: number
+}): INRTaxAmounts {
+  const rate = invoice.invoiceType === 'SELF_INVOICE' ? 1 : invoice.exchangeRate
+  const toINR = (amount: number) => Math.round(amount * rate * 100) / 100
+
+  return {
+    taxableValue: toINR(invoice.subtotal),
+    igst: toINR(invoice.igstAmount),
+    cgst: toINR(invoice.cgstAmount),
+    sgst: toINR(invoice.sgstAmount),
+  }
+}
+
 /**
  * Check if a country is India
  */
@@ -97,6 +132,9 @@ function isExport(invoice: InvoiceForClassification): boolean {
   // RCM self-invoices are not exports even if supplier is foreign
   if (invoice.invoiceType === 'SELF_INVOICE') return false
 
+  // Domestic tax invoices are never exports
+  if (invoice.invoiceType === 'DOMESTIC') return false
+
   // If there's a client GSTIN, it's domestic
   if (invoice.clientGstin) return false
 
@@ -112,7 +150,7 @@ function isExport(invoice: InvoiceForClassification): boolean {
  */
 export function classifyForGSTR1(invoice: InvoiceForClassification): GSTR1Classification {
   const baseTaxes = {
-    taxableValue: invoice.totalInINR,
+    taxableValue: invoice.taxableValue ?? invoice.totalInINR,
     igst: invoice.igstAmount,
     cgst: invoice.cgstAmount,
     sgst: invoice.sgstAmount,
@@ -131,7 +169,7 @@ export function classifyForGSTR1(invoice: InvoiceForClassification): GSTR1Classi
   // Export invoices
   if (isExport(invoice)) {
     // Exports with LUT (zero-rated)
-    if (invoice.lutId) {
+    if (invoice.lutId && !invoice.exportWithPayment) {
       return {
         table: GSTR1Table.EXPORTS_WITH_LUT,
         tableCode: '6A',
@@ -175,12 +213,38 @@ export function classifyForGSTR1(invoice: InvoiceForClassification): GSTR1Classi
   }
 }
 
+/**
+ * Classify a credit/debit note for GSTR-1 filing based on its original invoice
+ *
+ * - Notes against B2B invoices go to 9B CDNR
+ * - Notes against B2C large invoices and exports go to 9B CDNUR
+ * - Notes against B2C small invoices are netted in Table 7
+ */
+export function classifyNoteForGSTR1(
+  originalInvoice: InvoiceForClassification
+): Pick<GSTR1Classification, 'table' | 'tableCode'> {
+  const original = classifyForGSTR1(originalInvoice)
+
+  switch (original.table) {
+    case GSTR1Table.B2B:
+      return { table: GSTR1Table.CREDIT_DEBIT_NOTES, tableCode: '9B' }
+    case GSTR1Table.B2C_LARGE:
+    case GSTR1Table.EXPORTS_WITH_LUT:
+    case GSTR1Table.EXPORTS_WITH_PAYMENT:
+      return { table: GSTR1Table.CREDIT_DEBIT_NOTES_UNREGISTERED, tableCode: '9B' }
+    case GSTR1Table.B2C_SMALL:
+      return { table: GSTR1Table.B2C_SMALL, tableCode: '7' }
+    default:
+      return { table: GSTR1Table.NOT_APPLICABLE, tableCode: null }
+  }
+}
+
 /**
  * Classify invoice for GSTR-3B filing
  */
 export function classifyForGSTR3B(invoice: InvoiceForClassification): GSTR3BClassification {
   const baseTaxes = {
-    taxableValue: invoice.totalInINR,
+    taxableValue: invoice.taxableValue ?? invoice.totalInINR,
     igst: invoice.igstAmount,
     cgst: invoice.cgstAmount,
     sgst: invoice.sgstAmount,
@@ -225,7 +289,7 @@ export function classifyForGSTR3B(invoice: InvoiceForClassification): GSTR3BClas
     }
   }
 
-  // Export invoices - Zero-rated supplies 3.1(b)
+  // Export invoices - Zero-rated supplies 3.1(b), with IGST when paid under the refund route
   if (isExport(invoice)) {
     return {
       section: GSTR3BSection.ZERO_RATED,
@@ -255,7 +319,8 @@ export function getGSTR1TableDescription(table: GSTR1Table): string {
     [GSTR1Table.B2C_SMALL]: 'B2C Others - Supplies to unregistered persons',
     [GSTR1Table.EXPORTS_WITH_LUT]: 'Exports with LUT - Zero-rated exports under bond',
     [GSTR1Table.EXPORTS_WITH_PAYMENT]: 'Exports with Payment - Exports with IGST payment',
-    [GSTR1Table.CREDIT_DEBIT_NOTES]: 'Credit/Debit Notes',
+    [GSTR1Table.CREDIT_DEBIT_NOTES]: 'Credit/Debit Notes (Registered)',
+    [GSTR1Table.CREDIT_DEBIT_NOTES_UNREGISTERED]: 'Credit/Debit Notes (Unregistered) - B2C large and exports',
     [GSTR1Table.NOT_APPLICABLE]: 'Not applicable for GSTR-1',
   }
   return descriptions[table]
@@ -268,7 +333,7 @@ export function getGSTR3BSectionDescription(section: GSTR3BSection): string {
   const descriptions: Record<GSTR3BSection, string> = {
     [GSTR3BSection.OUTWARD_TAXABLE]:
       'Outward taxable supplies (including import of services)',
-    [GSTR3BSection.ZERO_RATED]: 'Zero-rated supplies (exports with LUT)',
+    [GSTR3BSection.ZERO_RATED]: 'Zero-rated supplies (exports under LUT or with IGST payment)',
     [GSTR3BSection.INWARD_RCM]: 'Inward supplies under reverse charge',
   }
   return descriptions[section]
@@ -0,0 +1,98 @@
+/**
+ * Documents Issued Summary (GSTR-1 Table 13)
+ *
+ * Number ranges per document series with total and cancelled counts.
+ * Cancelled documents keep their numbers and are reported here instead
+ * of in the supply tables.
+ */
+
+// Nature of document as listed in GSTR-1 Table 13
+export enum DocumentNature {
+  OUTWARD_INVOICES = 'OUTWARD_INVOICES', // 1. Invoices for outward supply
+  SELF_INVOICES = 'SELF_INVOICES', // 2. Invoices for inward supply from unregistered person
+  DEBIT_NOTES = 'DEBIT_NOTES', // 4. Debit note
+  CREDIT_NOTES = 'CREDIT_NOTES', // 5. Credit note
+  PAYMENT_VOUCHERS = 'PAYMENT_VOUCHERS', // 7. Payment voucher
+}
+
+export const DOCUMENT_NATURE_LABELS: Record<DocumentNature, string> = {
+  [DocumentNature.OUTWARD_INVOICES]: 'Invoices for outward supply',
+  [DocumentNature.SELF_INVOICES]: 'Invoices for inward supply from unregistered person',
+  [DocumentNature.DEBIT_NOTES]: 'Debit note',
+  [DocumentNature.CREDIT_NOTES]: 'Credit note',
+  [DocumentNature.PAYMENT_VOUCHERS]: 'Payment voucher',
+}
+
+// Serial number of each nature in Table 13 (doc_num in the portal JSON)
+export const DOCUMENT_NATURE_NUMBERS: Record<DocumentNature, number> = {
+  [DocumentNature.OUTWARD_INVOICES]: 1,
+  [DocumentNature.SELF_INVOICES]: 2,
+  [DocumentNature.DEBIT_NOTES]: 4,
+  [DocumentNature.CREDIT_NOTES]: 5,
+  [DocumentNature.PAYMENT_VOUCHERS]: 7,
+}
+
+// A document issued in the period
+export interface DocumentForSummary {
+  documentNumber: string
+  // Documents with the same key belong to one number series
+  seriesKey: string
+  cancelled: boolean
+}
+
+// One row of Table 13
+export interface DocumentSeriesSummary {
+  nature: DocumentNature
+  from: string
+  to: string
+  totalIssued: number
+  cancelled: number
+  netIssued: number
+}
+
+/**
+ * Summarise documents of one nature into a row per number series
+ *
+ * @param nature - Nature of document (Table 13 row group)
+ * @param documents - Documents issued in the period, including cancelled ones
+ * @returns One row per series, ordered by the first number
+ */
+export function summarizeDocuments(nature: DocumentNature, documents: DocumentForSummary[]): DocumentSeriesSummary[] {
+  const bySeries = new Map<string, DocumentForSummary[]>()
+  for (const document of documents) {
+    bySeries.set(document.seriesKey, [...(bySeries.get(document.seriesKey) ?? []), document])
+  }
+
+  return Array.from(bySeries.values())
+    .map((series) => {
+      const numbers = series
+        .map((document) => document.documentNumber)
+        .sort(compareDocumentNumbers)
+      const cancelled = series.filter((document) => document.cancelled).length
+
+      return {
+        nature,
+        from: numbers[0],
+        to: numbers[numbers.length - 1],
+        totalIssued: series.length,
+        cancelled,
+        netIssued: series.length - cancelled,
+      }
+    })
+    .sort((a, b) => compareDocumentNumbers(a.from, b.from))
+}
+
+/**
+ * Series key of a document numbered without a number series: its number
+ * without the trailing sequence, so CN/2025-26/0001 belongs to "CN/2025-26/"
+ */
+export function getSeriesKey(documentNumber: string): string {
+  return documentNumber.replace(/\d+$/, '')
+}
+
+/**
+ * Order document numbers so that FY24-25/010 comes after FY24-25/9
+ */
+function compareDocumentNumbers(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true })
+}
@@ -5,9 +5,26 @@
  * - GSTR-1: 11th of the following month
  * - GSTR-3B: 20th of the following month
  *
+ * Under QRMP (quarterly return, monthly payment):
+ * - IFF (optional, months 1-2 of the quarter): 13th of the following month
+ * - PMT-06 (months 1-2 of the quarter): 25th of the following month
+ * - GSTR-1: 13th of the month after the quarter
+ * - GSTR-3B: 22nd or 24th of the month after the quarter, by state category
+ *
  * Fiscal Year: April to March (e.g., FY 2024-25 is April 2024 to March 2025)
  */
 
+import type { FilingFrequency, FilingType } from '@prisma/client'
+
+// States and UTs whose quarterly GSTR-3B is due on the 22nd (Category I):
+// Chhattisgarh, Madhya Pradesh, Gujarat, Daman & Diu, Dadra & Nagar Haveli,
+// Maharashtra, Karnataka, Goa, Lakshadweep, Kerala, Tamil Nadu, Puducherry,
+// Andaman & Nicobar Islands, Telangana and Andhra Pradesh. All other states
+// and UTs are Category II, due on the 24th.
+const QRMP_CATEGORY_1_STATE_CODES = new Set([
+  '22', '23', '24', '25', '26', '27', '29', '30', '31', '32', '33', '34', '35', '36', '37',
+])
+
 /**
  * Parse period string (YYYY-MM) into year and month
  */
@@ -20,51 +37,152 @@ function parsePeriod(period: string): { year: number; month: number } {
 }
 
 /**
- * Get the GSTR-1 due date for a given period
- * GSTR-1 is due on 11th of the following month
+ * Get the date of a given day in the month after a period
+ */
+function getFollowingMonthDate(period: string, day: number): Date {
+  const { year, month } = parsePeriod(period)
+
+  // Month is 0-indexed in JS Date, so `month` is already the following month;
+  // December rolls over to January of the next year
+  return new Date(year, month, day)
+}
+
+/**
+ * Get the last month of the quarter (April-June, July-September,
+ * October-December, January-March) containing a period
  *
- * @param period - Period in YYYY-MM format (e.g., "2024-01")
- * @returns Due date
+ * @param period - Period in YYYY-MM format
+ * @returns Quarter-end period in YYYY-MM format (e.g., "2024-06")
  */
-export function getGSTR1DueDate(period: string): Date {
+export function getQuarterEndPeriod(period: string): string {
   const { year, month } = parsePeriod(period)
+  const quarterEndMonth = Math.ceil(month / 3) * 3
+  return `${year}-${quarterEndMonth.toString().padStart(2, '0')}`
+}
+
+/**
+ * Get the three months of the quarter containing a period
+ *
+ * @param period - Period in YYYY-MM format
+ * @returns Periods in YYYY-MM format, in order
+ */
+export function getQuarterPeriods(period: string): string[] {
+  const { year, month } = parsePeriod(getQuarterEndPeriod(period))
+  return [month - 2, month - 1, month].map((m) => `${year}-${m.toString().padStart(2, '0')}`)
+}
 
-  // Due date is 11th of the following month
-  let dueYear = year
-  let dueMonth = month + 1 // Following month (1-13)
+/**
+ * Check if a period is the last month of its quarter
+ */
+export function isQuarterEndPeriod(period: string): boolean {
+  return getQuarterEndPeriod(period) === period
+}
 
-  // Handle December -> January rollover
-  if (dueMonth > 12) {
-    dueMonth = 1
-    dueYear += 1
+/**
+ * Check if a period is the first month of its quarter
+ */
+export function isQuarterStartPeriod(period: string): boolean {
+  return getQuarterPeriods(period)[0] === period
+}
+
+/**
+ * Get the QRMP state category of a state, which sets the quarterly GSTR-3B due date.
+ * An unknown state gets Category I, the earlier of the two dates.
+ *
+ * @param stateCode - Two-digit GST state code (first two digits of the GSTIN)
+ * @returns 1 (due on the 22nd) or 2 (due on the 24th)
+ */
+export function getQRMPStateCategory(stateCode: string | null): 1 | 2 {
+  if (!stateCode || QRMP_CATEGORY_1_STATE_CODES.has(stateCode)) return 1
+  return 2
+}
+
+/**
+ * Get the GSTR-1 due date for a given period
+ * Monthly GSTR-1 is due on 11th of the following month, quarterly GSTR-1
+ * on 13th of the month after the quarter
+ *
+ * @param period - Period in YYYY-MM format (e.g., "2024-01")
+ * @param frequency - Filing frequency (defaults to monthly)
+ * @returns Due date
+ */
+export function getGSTR1DueDate(period: string, frequency: FilingFrequency = 'MONTHLY'): Date {
+  if (frequency === 'QUARTERLY') {
+    return getFollowingMonthDate(getQuarterEndPeriod(period), 13)
   }
 
-  // Create date (month is 0-indexed in JS Date)
-  return new Date(dueYear, dueMonth - 1, 11)
+  return getFollowingMonthDate(period, 11)
 }
 
 /**
  * Get the GSTR-3B due date for a given period
- * GSTR-3B is due on 20th of the following month
+ * Monthly GSTR-3B is due on 20th of the following month, quarterly GSTR-3B
+ * on 22nd (Category I states) or 24th (Category II) of the month after the quarter
  *
  * @param period - Period in YYYY-MM format (e.g., "2024-01")
+ * @param frequency - Filing frequency (defaults to monthly)
+ * @param stateCode - Two-digit GST state code, for quarterly returns
  * @returns Due date
  */
-export function getGSTR3BDueDate(period: string): Date {
-  const { year, month } = parsePeriod(period)
+export function getGSTR3BDueDate(
+  period: string,
+  frequency: FilingFrequency = 'MONTHLY',
+  stateCode: string | null = null
+): Date {
+  if (frequency === 'QUARTERLY') {
+    const dueDay = getQRMPStateCategory(stateCode) === 1 ? 22 : 24
+    return getFollowingMonthDate(getQuarterEndPeriod(period), dueDay)
+  }
 
-  // Due date is 20th of the following month
-  let dueYear = year
-  let dueMonth = month + 1 // Following month
+  return getFollowingMonthDate(period, 20)
+}
 
-  // Handle December -> January rollover
-  if (dueMonth > 12) {
-    dueMonth = 1
-    dueYear += 1
-  }
+/**
+ * Get the IFF due date for a month of a QRMP quarter
+ * IFF is due on 13th of the following month
+ *
+ * @param period - Period in YYYY-MM format
+ * @returns Due date
+ */
+export function getIFFDueDate(period: string): Date {
+  return getFollowingMonthDate(period, 13)
+}
 
-  // Create date (month is 0-indexed in JS Date)
-  return new Date(dueYear, dueMonth - 1, 20)
+/**
+ * Get the PMT-06 due date for a month of a QRMP quarter
+ * PMT-06 is due on 25th of the following month
+ *
+ * @param period - Period in YYYY-MM format
+ * @returns Due date
+ */
+export function getPMT06DueDate(period: string): Date {
+  return getFollowingMonthDate(period, 25)
+}
+
+/**
+ * Get the due date of any return
+ *
+ * @param filingType - Return type
+ * @param period - Period in YYYY-MM format
+ * @param options.frequency - Filing frequency (defaults to monthly)
+ * @param options.stateCode - Two-digit GST state code, for quarterly GSTR-3B
+ * @returns Due date
+ */
+export function getReturnDueDate(
+  filingType: FilingType,
+  period: string,
+  options: { frequency?: FilingFrequency; stateCode?: string | null } = {}
+): Date {
+  switch (filingType) {
+    case 'GSTR1':
+      return getGSTR1DueDate(period, options.frequency)
+    case 'GSTR3B':
+      return getGSTR3BDueDate(period, options.frequency, options.stateCode)
+    case 'IFF':
+      return getIFFDueDate(period)
+    case 'PMT06':
+      return getPMT06DueDate(period)
+  }
 }
 
 /**
@@ -227,6 +345,18 @@ export function formatPeriod(period: string): string {
   return `${monthNames[month - 1]} ${year}`
 }
 
+/**
+ * Format the quarter containing a period for display
+ *
+ * @param period - Period in YYYY-MM format
+ * @returns Formatted string (e.g., "April–June 2024")
+ */
+export function formatQuarter(period: string): string {
+  const [first, , last] = getQuarterPeriods(period)
+  const [firstMonth] = formatPeriod(first).split(' ')
+  return `${firstMonth}–${formatPeriod(last)}`
+}
+
 /**
  * Format a fiscal year for display
  *
@@ -0,0 +1,151 @@
+/**
+ * Filed Period Lock
+ *
+ * Database side of the filed period lock. The invoice, payment, self-invoice,
+ * note and remittance routers run these on the transaction client of the
+ * change they guard, so the lock check, the change and its amendment record
+ * commit together.
+ */
+
+import { TRPCError } from '@trpc/server'
+import { FilingStatus, FilingType, Prisma, type AmendedDocumentType } from '@prisma/client'
+import {
+  FILED_STATUSES,
+  describeReturns,
+  findLockingReturns,
+  getCoveringReturnPeriods,
+  getFiledPeriodMessage,
+  type AmendmentSnapshot,
+} from './amendments'
+
+export type LockingReturn = Awaited<ReturnType<typeof findFiledReturns>>[number]
+
+export interface FiledPeriodCheck {
+  userId: string
+  document: string // e.g. "Invoice INV-001", named in the error
+  dates: Date[] // Date as filed first, then the new date if it moves
+  amendmentReason?: string
+}
+
+export interface AmendmentRecord {
+  userId: string
+  returns: LockingReturn[]
+  documentType: AmendedDocumentType
+  documentId: string
+  documentNumber: string
+  dates: Date[]
+  reason: string
+  original: AmendmentSnapshot
+  amended: AmendmentSnapshot | null // null for a deletion
+  invoiceId?: string
+  creditDebitNoteId?: string
+}
+
+/**
+ * Find the filed returns covering any of the dates
+ */
+export async function findFiledReturns(db: Prisma.TransactionClient, userId: string, dates: Date[]) {
+  const returns = await db.gSTFilingPeriod.findMany({
+    where: {
+      userId,
+      status: { in: FILED_STATUSES },
+      period: { in: getCoveringReturnPeriods(dates) },
+    },
+    select: { id: true, filingType: true, period: true, frequency: true, status: true },
+    orderBy: [{ period: 'asc' }, { filingType: 'asc' }],
+  })
+
+  return findLockingReturns(returns, dates)
+}
+
+/**
+ * Check a change to a document against the returns filed for its dates.
+ * Without an amendment reason the change is refused; with one, the locking
+ * returns are returned for `recordAmendment`. Null when nothing is filed.
+ */
+export async function checkFiledPeriod(
+  tx: Prisma.TransactionClient,
+  { userId, document, dates, amendmentReason }: FiledPeriodCheck
+): Promise<LockingReturn[] | null> {
+  const returns = await findFiledReturns(tx, userId, dates)
+  if (returns.length === 0) return null
+
+  if (!amendmentReason) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: getFiledPeriodMessage(document, returns),
+    })
+  }
+
+  return returns
+}
+
+/**
+ * Refuse a change that cannot be recorded as an amendment, such as adding a
+ * payment on a filed date or cancelling a filed invoice
+ */
+export async function assertPeriodNotFiled(
+  db: Prisma.TransactionClient,
+  { userId, document, dates, instead }: { userId: string; document: string; dates: Date[]; instead: string }
+): Promise<void> {
+  const returns = await findFiledReturns(db, userId, dates)
+  if (returns.length === 0) return
+
+  throw new TRPCError({
+    code: 'PRECONDITION_FAILED',
+    message: `${document} is dated in a filed period (${describeReturns(returns)}). ${instead}`,
+  })
+}
+
+/**
+ * Record a change to a document dated in filed returns and mark those
+ * returns AMENDED. Invoices and notes filed in GSTR-1 are picked up by the
+ * next GSTR-1 plan as Table 9A/9C rows.
+ */
+export async function recordAmendment(tx: Prisma.TransactionClient, input: AmendmentRecord) {
+  // The GSTR-1 table the invoice or note was filed in decides whether
+  // the amendment is reported in Table 9A/9C
+  const filedItem =
+    input.invoiceId || input.creditDebitNoteId
+      ? await tx.filingPlanItem.findFirst({
+          where: {
+            ...(input.invoiceId ? { invoiceId: input.invoiceId } : { creditDebitNoteId: input.creditDebitNoteId }),
+            isIncluded: true,
+            gstrTable: { notIn: ['9A', '9C'] },
+            filingPeriod: {
+              userId: input.userId,
+              filingType: { in: [FilingType.GSTR1, FilingType.IFF] },
+              status: { in: FILED_STATUSES },
+            },
+          },
+          select: { gstrTable: true, invoiceId: true, creditDebitNoteId: true },
+          orderBy: { createdAt: 'asc' },
+        })
+      : null
+
+  const amendment = await tx.filingAmendment.create({
+    data: {
+      userId: input.userId,
+      documentType: input.documentType,
+      documentId: input.documentId,
+      documentNumber: input.documentNumber,
+      documentDate: input.dates[0],
+      reason: input.reason,
+      original: input.original as unknown as Prisma.InputJsonValue,
+      amended: input.amended ? (input.amended as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+      originalTable: filedItem?.gstrTable ?? null,
+      invoiceId: filedItem?.invoiceId ?? null,
+      creditDebitNoteId: filedItem?.creditDebitNoteId ?? null,
+    },
+  })
+
+  await tx.gSTFilingPeriod.updateMany({
+    where: {
+      id: { in: input.returns.map((filing) => filing.id) },
+      status: FilingStatus.FILED,
+    },
+    data: { status: FilingStatus.AMENDED },
+  })
+
+  return amendment
+}
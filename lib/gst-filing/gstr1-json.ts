@@ -0,0 +1,711 @@
+/**
+ * GSTR-1 JSON Export
+ *
+ * Builds the GSTR-1 return in the JSON format accepted by the GST portal
+ * upload and the GSTN offline tool, and checks it against the schema rules
+ * the portal enforces before the file is handed over.
+ *
+ * Sections:
+ * - b2b: Invoices to registered persons (Table 4A), grouped by recipient GSTIN
+ * - b2cl: Inter-state B2C large invoices (Table 5), grouped by place of supply
+ * - b2cs: B2C others (Table 7), net of notes, per place of supply and rate
+ * - exp: Exports (Table 6A), with or without payment of IGST
+ * - cdnr / cdnur: Credit/debit notes (Table 9B)
+ * - b2ba / b2cla / expa: Amended invoices of earlier returns (Table 9A)
+ * - cdnra / cdnura: Amended credit/debit notes of earlier returns (Table 9C)
+ * - hsn: HSN/SAC summary (Table 12), split into B2B and B2C
+ * - doc_issue: Documents issued (Table 13)
+ */
+
+import { GSTIN_REGEX } from '@/lib/validations/indian-tax'
+import {
+  DOCUMENT_NATURE_LABELS,
+  DOCUMENT_NATURE_NUMBERS,
+  type DocumentNature,
+  type DocumentSeriesSummary,
+} from './documents'
+import type { RateWiseAmounts } from './line-items'
+import type { HsnSummaryRow, HsnSupplyType } from './hsn-summary'
+
+// Tax rates the portal accepts
+const VALID_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28, 40]
+
+// Invoice and note numbers: up to 16 characters, letters, digits, '/' and '-'
+const DOCUMENT_NUMBER_REGEX = /^[a-zA-Z0-9/-]{1,16}$/
+
+// A document reported in GSTR-1, built from an included plan item
+export interface GSTR1Document {
+  table: string // Plan item gstrTable: "4A", "5", "6A", "7", "9A", "9B", "9C"
+  type: 'INVOICE' | 'CREDIT_NOTE' | 'DEBIT_NOTE'
+  number: string
+  date: Date
+  recipientGstin: string | null
+  placeOfSupply: string | null // 2-digit state code of the recipient
+  value: number // Document value in INR
+  rates: RateWiseAmounts[] // Rate-wise INR amounts, negative for credit notes
+  exportWithPayment?: boolean // Exports, and notes against exports
+  originalTable?: string // Notes: table of the original invoice; amended invoices: their own ("4A", "5", "6A")
+  original?: { number: string; date: Date } // Amendments (9A/9C): number and date as filed
+}
+
+export interface GSTR1ItemDetail {
+  txval: number
+  rt: number
+  iamt: number
+  camt?: number
+  samt?: number
+  csamt: number
+}
+
+export interface GSTR1Item {
+  num: number
+  itm_det: GSTR1ItemDetail
+}
+
+export interface GSTR1Invoice {
+  inum: string
+  idt: string
+  val: number
+  pos?: string
+  rchrg?: 'N'
+  inv_typ?: 'R'
+  itms: GSTR1Item[]
+}
+
+export interface GSTR1ExportInvoice {
+  inum: string
+  idt: string
+  val: number
+  itms: Array<Pick<GSTR1ItemDetail, 'txval' | 'rt' | 'iamt' | 'csamt'>>
+}
+
+export interface GSTR1Note {
+  ntty: 'C' | 'D'
+  nt_num: string
+  nt_dt: string
+  val: number
+  pos?: string
+  rchrg?: 'N'
+  inv_typ?: 'R'
+  typ?: 'B2CL' | 'EXPWP' | 'EXPWOP'
+  itms: GSTR1Item[]
+}
+
+export interface GSTR1AmendedInvoice extends GSTR1Invoice {
+  oinum: string
+  oidt: string
+}
+
+export interface GSTR1AmendedExportInvoice extends GSTR1ExportInvoice {
+  oinum: string
+  oidt: string
+}
+
+export interface GSTR1AmendedNote extends GSTR1Note {
+  ont_num: string
+  ont_dt: string
+}
+
+export interface GSTR1B2CS {
+  sply_ty: 'INTER' | 'INTRA'
+  pos: string
+  typ: 'OE'
+  rt: number
+  txval: number
+  iamt: number
+  camt: number
+  samt: number
+  csamt: number
+}
+
+export interface GSTR1Hsn {
+  num: number
+  hsn_sc: string
+  desc: string
+  uqc: string
+  qty: number
+  rt: number
+  txval: number
+  iamt: number
+  camt: number
+  samt: number
+  csamt: number
+}
+
+export interface GSTR1DocumentIssue {
+  doc_num: number
+  doc_typ: string
+  docs: Array<{ num: number; from: string; to: string; totnum: number; cancel: number; net_issue: number }>
+}
+
+export interface GSTR1Json {
+  gstin: string
+  fp: string // Filing period as MMYYYY
+  version: string
+  hash: string
+  b2b?: Array<{ ctin: string; inv: GSTR1Invoice[] }>
+  b2cl?: Array<{ pos: string; inv: GSTR1Invoice[] }>
+  b2cs?: GSTR1B2CS[]
+  exp?: Array<{ exp_typ: 'WPAY' | 'WOPAY'; inv: GSTR1ExportInvoice[] }>
+  cdnr?: Array<{ ctin: string; nt: GSTR1Note[] }>
+  cdnur?: GSTR1Note[]
+  b2ba?: Array<{ ctin: string; inv: GSTR1AmendedInvoice[] }>
+  b2cla?: Array<{ pos: string; inv: GSTR1AmendedInvoice[] }>
+  expa?: Array<{ exp_typ: 'WPAY' | 'WOPAY'; inv: GSTR1AmendedExportInvoice[] }>
+  cdnra?: Array<{ ctin: string; nt: GSTR1AmendedNote[] }>
+  cdnura?: GSTR1AmendedNote[]
+  hsn?: { hsn_b2b?: GSTR1Hsn[]; hsn_b2c?: GSTR1Hsn[] }
+  doc_issue?: { doc_det: GSTR1DocumentIssue[] }
+}
+
+// A schema rule the return breaks, pointing at the section and document
+export interface GSTR1JsonError {
+  section: string
+  reference: string | null
+  message: string
+}
+
+export const GSTR1_JSON_VERSION = 'GST3.2.1'
+
+/**
+ * Round to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Format a date as dd-mm-yyyy
+ */
+function formatDocumentDate(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0')
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  return `${day}-${month}-${date.getFullYear()}`
+}
+
+/**
+ * Convert a YYYY-MM period to the MMYYYY return period
+ */
+export function toReturnPeriod(period: string): string {
+  const [year, month] = period.split('-')
+  return `${month}${year}`
+}
+
+/**
+ * Rate-wise items of a document, with positive amounts
+ */
+function toItems(document: GSTR1Document): GSTR1Item[] {
+  return document.rates.map((rate, index) => ({
+    num: index + 1,
+    itm_det: {
+      txval: roundTo2Decimals(Math.abs(rate.taxableValue)),
+      rt: rate.gstRate,
+      iamt: roundTo2Decimals(Math.abs(rate.igst)),
+      camt: roundTo2Decimals(Math.abs(rate.cgst)),
+      samt: roundTo2Decimals(Math.abs(rate.sgst)),
+      csamt: 0,
+    },
+  }))
+}
+
+function toInvoice(document: GSTR1Document, withPos: boolean): GSTR1Invoice {
+  return {
+    inum: document.number,
+    idt: formatDocumentDate(document.date),
+    val: roundTo2Decimals(document.value),
+    ...(withPos && { pos: document.placeOfSupply ?? '', rchrg: 'N' as const, inv_typ: 'R' as const }),
+    itms: toItems(document),
+  }
+}
+
+function toExportInvoice(document: GSTR1Document): GSTR1ExportInvoice {
+  return {
+    inum: document.number,
+    idt: formatDocumentDate(document.date),
+    val: roundTo2Decimals(document.value),
+    itms: toItems(document).map(({ itm_det }) => ({
+      txval: itm_det.txval,
+      rt: itm_det.rt,
+      iamt: itm_det.iamt,
+      csamt: itm_det.csamt,
+    })),
+  }
+}
+
+function toNote(document: GSTR1Document): GSTR1Note {
+  return {
+    ntty: document.type === 'CREDIT_NOTE' ? 'C' : 'D',
+    nt_num: document.number,
+    nt_dt: formatDocumentDate(document.date),
+    val: roundTo2Decimals(Math.abs(document.value)),
+    itms: toItems(document),
+  }
+}
+
+// Notes to registered persons (cdnr)
+function toRegisteredNote(document: GSTR1Document): GSTR1Note {
+  return { ...toNote(document), pos: document.placeOfSupply ?? '', rchrg: 'N', inv_typ: 'R' }
+}
+
+// Notes against B2C large invoices and exports (cdnur)
+function toUnregisteredNote(document: GSTR1Document): GSTR1Note {
+  const note = toNote(document)
+  if (document.originalTable === '5') {
+    return { ...note, typ: 'B2CL', pos: document.placeOfSupply ?? '' }
+  }
+  return { ...note, typ: document.exportWithPayment ? 'EXPWP' : 'EXPWOP' }
+}
+
+/**
+ * Number and date an amended invoice was filed with
+ */
+function toOriginalInvoice(document: GSTR1Document): { oinum: string; oidt: string } {
+  return {
+    oinum: document.original?.number ?? document.number,
+    oidt: formatDocumentDate(document.original?.date ?? document.date),
+  }
+}
+
+/**
+ * Number and date an amended note was filed with
+ */
+function toOriginalNote(document: GSTR1Document): { ont_num: string; ont_dt: string } {
+  return {
+    ont_num: document.original?.number ?? document.number,
+    ont_dt: formatDocumentDate(document.original?.date ?? document.date),
+  }
+}
+
+/**
+ * Group entries by a key, keeping first-seen order
+ */
+function groupBy<T>(entries: T[], keyOf: (entry: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const entry of entries) {
+    const key = keyOf(entry)
+    groups.set(key, [...(groups.get(key) ?? []), entry])
+  }
+  return groups
+}
+
+/**
+ * Sum B2C others by place of supply and rate. Notes against B2C small
+ * invoices carry signed amounts and net off here.
+ */
+function buildB2CS(documents: GSTR1Document[], supplierStateCode: string): GSTR1B2CS[] {
+  const rows = new Map<string, GSTR1B2CS>()
+
+  for (const document of documents) {
+    const pos = document.placeOfSupply ?? supplierStateCode
+    for (const rate of document.rates) {
+      const sply_ty = pos === supplierStateCode ? 'INTRA' : 'INTER'
+      const key = `${pos}|${rate.gstRate}|${sply_ty}`
+      const row = rows.get(key) ?? { sply_ty, pos, typ: 'OE', rt: rate.gstRate, txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 }
+
+      row.txval = roundTo2Decimals(row.txval + rate.taxableValue)
+      row.iamt = roundTo2Decimals(row.iamt + rate.igst)
+      row.camt = roundTo2Decimals(row.camt + rate.cgst)
+      row.samt = roundTo2Decimals(row.samt + rate.sgst)
+      rows.set(key, row)
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.pos.localeCompare(b.pos) || a.rt - b.rt)
+}
+
+/**
+ * Table 12 rows of one supply type, numbered from 1
+ */
+function toHsnRows(hsnSummary: HsnSummaryRow[], supplyType: HsnSupplyType): GSTR1Hsn[] {
+  return hsnSummary
+    .filter((row) => row.supplyType === supplyType)
+    .map((row, index) => ({
+      num: index + 1,
+      hsn_sc: row.serviceCode,
+      desc: row.description,
+      uqc: row.uqc,
+      qty: row.quantity,
+      rt: row.gstRate,
+      txval: row.taxableValue,
+      iamt: row.igst,
+      camt: row.cgst,
+      samt: row.sgst,
+      csamt: 0,
+    }))
+}
+
+/**
+ * Build the GSTR-1 JSON for a return period
+ *
+ * @param params.gstin - Supplier GSTIN
+ * @param params.period - Return period (YYYY-MM)
+ * @param params.documents - Documents from the included plan items
+ * @param params.hsnSummary - Table 12 rows of the included invoices
+ * @param params.documentSummary - Table 13 rows stored on the filing period
+ * @returns The return with empty sections left out
+ */
+export function buildGSTR1Json(params: {
+  gstin: string
+  period: string
+  documents: GSTR1Document[]
+  hsnSummary: HsnSummaryRow[]
+  documentSummary: DocumentSeriesSummary[]
+}): GSTR1Json {
+  const { gstin, period, documents, hsnSummary, documentSummary } = params
+  const supplierStateCode = gstin.slice(0, 2)
+  const byTable = groupBy(documents, (document) => document.table)
+  const invoicesIn = (table: string) => (byTable.get(table) ?? []).filter((document) => document.type === 'INVOICE')
+  const notes = byTable.get('9B') ?? []
+
+  const json: GSTR1Json = {
+    gstin,
+    fp: toReturnPeriod(period),
+    version: GSTR1_JSON_VERSION,
+    hash: 'hash',
+  }
+
+  const b2b = invoicesIn('4A')
+  if (b2b.length > 0) {
+    json.b2b = Array.from(groupBy(b2b, (document) => document.recipientGstin ?? '')).map(([ctin, group]) => ({
+      ctin,
+      inv: group.map((document) => toInvoice(document, true)),
+    }))
+  }
+
+  const b2cl = invoicesIn('5')
+  if (b2cl.length > 0) {
+    json.b2cl = Array.from(groupBy(b2cl, (document) => document.placeOfSupply ?? '')).map(([pos, group]) => ({
+      pos,
+      inv: group.map((document) => toInvoice(document, false)),
+    }))
+  }
+
+  const b2cs = buildB2CS(byTable.get('7') ?? [], supplierStateCode)
+  if (b2cs.length > 0) {
+    json.b2cs = b2cs
+  }
+
+  const exports = invoicesIn('6A')
+  if (exports.length > 0) {
+    json.exp = Array.from(groupBy(exports, (document) => (document.exportWithPayment ? 'WPAY' : 'WOPAY'))).map(
+      ([exp_typ, group]) => ({
+        exp_typ: exp_typ as 'WPAY' | 'WOPAY',
+        inv: group.map(toExportInvoice),
+      })
+    )
+  }
+
+  const cdnr = notes.filter((document) => document.originalTable === '4A')
+  if (cdnr.length > 0) {
+    json.cdnr = Array.from(groupBy(cdnr, (document) => document.recipientGstin ?? '')).map(([ctin, group]) => ({
+      ctin,
+      nt: group.map(toRegisteredNote),
+    }))
+  }
+
+  const cdnur = notes.filter((document) => document.originalTable !== '4A')
+  if (cdnur.length > 0) {
+    json.cdnur = cdnur.map(toUnregisteredNote)
+  }
+
+  // Table 9A: amended invoices, in the section of the table they are reported in
+  const amendedInvoices = byTable.get('9A') ?? []
+
+  const b2ba = amendedInvoices.filter((document) => document.originalTable === '4A')
+  if (b2ba.length > 0) {
+    json.b2ba = Array.from(groupBy(b2ba, (document) => document.recipientGstin ?? '')).map(([ctin, group]) => ({
+      ctin,
+      inv: group.map((document) => ({ ...toOriginalInvoice(document), ...toInvoice(document, true) })),
+    }))
+  }
+
+  const b2cla = amendedInvoices.filter((document) => document.originalTable === '5')
+  if (b2cla.length > 0) {
+    json.b2cla = Array.from(groupBy(b2cla, (document) => document.placeOfSupply ?? '')).map(([pos, group]) => ({
+      pos,
+      inv: group.map((document) => ({ ...toOriginalInvoice(document), ...toInvoice(document, false) })),
+    }))
+  }
+
+  const expa = amendedInvoices.filter((document) => document.originalTable === '6A')
+  if (expa.length > 0) {
+    json.expa = Array.from(groupBy(expa, (document) => (document.exportWithPayment ? 'WPAY' : 'WOPAY'))).map(
+      ([exp_typ, group]) => ({
+        exp_typ: exp_typ as 'WPAY' | 'WOPAY',
+        inv: group.map((document) => ({ ...toOriginalInvoice(document), ...toExportInvoice(document) })),
+      })
+    )
+  }
+
+  // Table 9C: amended notes
+  const amendedNotes = byTable.get('9C') ?? []
+
+  const cdnra = amendedNotes.filter((document) => document.originalTable === '4A')
+  if (cdnra.length > 0) {
+    json.cdnra = Array.from(groupBy(cdnra, (document) => document.recipientGstin ?? '')).map(([ctin, group]) => ({
+      ctin,
+      nt: group.map((document) => ({ ...toOriginalNote(document), ...toRegisteredNote(document) })),
+    }))
+  }
+
+  const cdnura = amendedNotes.filter((document) => document.originalTable !== '4A')
+  if (cdnura.length > 0) {
+    json.cdnura = cdnura.map((document) => ({ ...toOriginalNote(document), ...toUnregisteredNote(document) }))
+  }
+
+  const hsnB2B = toHsnRows(hsnSummary, 'B2B')
+  const hsnB2C = toHsnRows(hsnSummary, 'B2C')
+  if (hsnB2B.length > 0 || hsnB2C.length > 0) {
+    json.hsn = {
+      ...(hsnB2B.length > 0 && { hsn_b2b: hsnB2B }),
+      ...(hsnB2C.length > 0 && { hsn_b2c: hsnB2C }),
+    }
+  }
+
+  if (documentSummary.length > 0) {
+    const byNature = groupBy(documentSummary, (row) => row.nature)
+    json.doc_issue = {
+      doc_det: Array.from(byNature)
+        .map(([nature, rows]) => ({
+          doc_num: DOCUMENT_NATURE_NUMBERS[nature as DocumentNature],
+          doc_typ: DOCUMENT_NATURE_LABELS[nature as DocumentNature],
+          docs: rows.map((row, index) => ({
+            num: index + 1,
+            from: row.from,
+            to: row.to,
+            totnum: row.totalIssued,
+            cancel: row.cancelled,
+            net_issue: row.netIssued,
+          })),
+        }))
+        .sort((a, b) => a.doc_num - b.doc_num),
+    }
+  }
+
+  return json
+}
+
+/**
+ * Check that a place of supply is a valid state code (01-38 or 97 for other territory)
+ */
+function isValidStateCode(pos: string | undefined): boolean {
+  if (!pos || !/^\d{2}$/.test(pos)) return false
+  const code = Number(pos)
+  return (code >= 1 && code <= 38) || code === 97
+}
+
+/**
+ * Check the tax split of an item: IGST for inter-state supplies,
+ * equal CGST and SGST for intra-state ones
+ */
+function checkTaxSplit(
+  detail: { iamt: number; camt?: number; samt?: number },
+  interState: boolean,
+  addError: (message: string) => void
+) {
+  const camt = detail.camt ?? 0
+  const samt = detail.samt ?? 0
+  if (interState && (camt !== 0 || samt !== 0)) {
+    addError('Inter-state supply must carry IGST only')
+  }
+  if (!interState && detail.iamt !== 0) {
+    addError('Intra-state supply must carry CGST and SGST, not IGST')
+  }
+  if (camt !== samt) {
+    addError('CGST and SGST must be equal')
+  }
+}
+
+/**
+ * Validate a GSTR-1 JSON against the portal's upload rules
+ *
+ * @returns Every rule broken; an empty list means the file can be uploaded
+ */
+export function validateGSTR1Json(json: GSTR1Json): GSTR1JsonError[] {
+  const errors: GSTR1JsonError[] = []
+  const supplierStateCode = json.gstin.slice(0, 2)
+  const seenNumbers = new Set<string>()
+
+  const error = (section: string, reference: string | null) => (message: string) =>
+    errors.push({ section, reference, message })
+
+  if (!GSTIN_REGEX.test(json.gstin)) {
+    error('header', null)('Supplier GSTIN is not valid')
+  }
+  if (!/^(0[1-9]|1[0-2])\d{4}$/.test(json.fp)) {
+    error('header', null)('Return period must be in MMYYYY format')
+  }
+
+  const checkDocument = (section: string, number: string, items: Array<{ rt: number; txval: number }>) => {
+    const addError = error(section, number)
+    if (!DOCUMENT_NUMBER_REGEX.test(number)) {
+      addError('Document number must be up to 16 letters, digits, "/" or "-"')
+    }
+    if (seenNumbers.has(number)) {
+      addError('Document number is reported more than once')
+    }
+    seenNumbers.add(number)
+    if (items.length === 0) {
+      addError('Document has no rate-wise items')
+    }
+    for (const item of items) {
+      if (!VALID_RATES.includes(item.rt)) {
+        addError(`${item.rt}% is not a valid GST rate`)
+      }
+      if (item.txval < 0) {
+        addError('Taxable value cannot be negative')
+      }
+    }
+  }
+
+  // Amended documents are checked like the originals, plus the number they were filed with
+  const checkOriginalNumber = (section: string, number: string, originalNumber: string) => {
+    if (!DOCUMENT_NUMBER_REGEX.test(originalNumber)) {
+      error(section, number)('Original document number must be up to 16 letters, digits, "/" or "-"')
+    }
+  }
+
+  const b2bSections = [
+    ['b2b', json.b2b],
+    ['b2ba', json.b2ba],
+  ] as const
+  for (const [section, recipients] of b2bSections) {
+    for (const recipient of recipients ?? []) {
+      if (!GSTIN_REGEX.test(recipient.ctin)) {
+        error(section, recipient.ctin || null)('Recipient GSTIN is not valid')
+      }
+      if (recipient.ctin === json.gstin) {
+        error(section, recipient.ctin)('Recipient GSTIN cannot be the supplier GSTIN')
+      }
+      for (const invoice of recipient.inv) {
+        const addError = error(section, invoice.inum)
+        checkDocument(section, invoice.inum, invoice.itms.map((item) => item.itm_det))
+        if (!isValidStateCode(invoice.pos)) {
+          addError('Place of supply is missing or not a valid state code')
+        }
+        for (const item of invoice.itms) {
+          checkTaxSplit(item.itm_det, invoice.pos !== supplierStateCode, addError)
+        }
+      }
+    }
+  }
+
+  const b2clSections = [
+    ['b2cl', json.b2cl],
+    ['b2cla', json.b2cla],
+  ] as const
+  for (const [section, groups] of b2clSections) {
+    for (const group of groups ?? []) {
+      if (!isValidStateCode(group.pos)) {
+        error(section, group.pos || null)('Place of supply is missing or not a valid state code')
+      }
+      if (group.pos === supplierStateCode) {
+        error(section, group.pos)('B2C large invoices must be inter-state supplies')
+      }
+      for (const invoice of group.inv) {
+        checkDocument(section, invoice.inum, invoice.itms.map((item) => item.itm_det))
+        for (const item of invoice.itms) {
+          checkTaxSplit(item.itm_det, true, error(section, invoice.inum))
+        }
+      }
+    }
+  }
+
+  for (const row of json.b2cs ?? []) {
+    const addError = error('b2cs', `${row.pos} @ ${row.rt}%`)
+    if (!isValidStateCode(row.pos)) {
+      addError('Place of supply is not a valid state code')
+    }
+    if (!VALID_RATES.includes(row.rt)) {
+      addError(`${row.rt}% is not a valid GST rate`)
+    }
+    checkTaxSplit(row, row.sply_ty === 'INTER', addError)
+  }
+
+  const exportSections = [
+    ['exp', json.exp],
+    ['expa', json.expa],
+  ] as const
+  for (const [section, groups] of exportSections) {
+    for (const group of groups ?? []) {
+      for (const invoice of group.inv) {
+        checkDocument(section, invoice.inum, invoice.itms)
+        if (group.exp_typ === 'WOPAY' && invoice.itms.some((item) => item.iamt !== 0)) {
+          error(section, invoice.inum)('Exports without payment cannot carry IGST')
+        }
+      }
+    }
+  }
+
+  for (const [section, invoices] of [
+    ['b2ba', (json.b2ba ?? []).flatMap((recipient) => recipient.inv)],
+    ['b2cla', (json.b2cla ?? []).flatMap((group) => group.inv)],
+    ['expa', (json.expa ?? []).flatMap((group) => group.inv)],
+  ] as const) {
+    for (const invoice of invoices) {
+      checkOriginalNumber(section, invoice.inum, invoice.oinum)
+    }
+  }
+
+  const cdnrSections = [
+    ['cdnr', json.cdnr],
+    ['cdnra', json.cdnra],
+  ] as const
+  for (const [section, recipients] of cdnrSections) {
+    for (const recipient of recipients ?? []) {
+      if (!GSTIN_REGEX.test(recipient.ctin)) {
+        error(section, recipient.ctin || null)('Recipient GSTIN is not valid')
+      }
+      for (const note of recipient.nt) {
+        const addError = error(section, note.nt_num)
+        checkDocument(section, note.nt_num, note.itms.map((item) => item.itm_det))
+        if (!isValidStateCode(note.pos)) {
+          addError('Place of supply is missing or not a valid state code')
+        }
+        for (const item of note.itms) {
+          checkTaxSplit(item.itm_det, note.pos !== supplierStateCode, addError)
+        }
+      }
+    }
+  }
+
+  const cdnurSections = [
+    ['cdnur', json.cdnur],
+    ['cdnura', json.cdnura],
+  ] as const
+  for (const [section, notes] of cdnurSections) {
+    for (const note of notes ?? []) {
+      checkDocument(section, note.nt_num, note.itms.map((item) => item.itm_det))
+      if (note.typ === 'B2CL' && !isValidStateCode(note.pos)) {
+        error(section, note.nt_num)('Place of supply is missing or not a valid state code')
+      }
+    }
+  }
+
+  for (const [section, notes] of [
+    ['cdnra', (json.cdnra ?? []).flatMap((recipient) => recipient.nt)],
+    ['cdnura', json.cdnura ?? []],
+  ] as const) {
+    for (const note of notes) {
+      checkOriginalNumber(section, note.nt_num, note.ont_num)
+    }
+  }
+
+  for (const row of [...(json.hsn?.hsn_b2b ?? []), ...(json.hsn?.hsn_b2c ?? [])]) {
+    if (!/^\d{4,8}$/.test(row.hsn_sc)) {
+      error('hsn', row.hsn_sc || null)('HSN/SAC code must be 4 to 8 digits')
+    }
+    if (!VALID_RATES.includes(row.rt)) {
+      error('hsn', row.hsn_sc)(`${row.rt}% is not a valid GST rate`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * File name for the downloaded return, e.g. GSTR1_042025_29ABCDE1234F1Z5.json
+ */
+export function getGSTR1JsonFileName(json: Pick<GSTR1Json, 'gstin' | 'fp'>): string {
+  return `GSTR1_${json.fp}_${json.gstin}.json`
+}
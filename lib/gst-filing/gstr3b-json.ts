@@ -0,0 +1,264 @@
+/**
+ * GSTR-3B Computation and JSON Export
+ *
+ * Totals the GSTR-3B plan items into the return's tables, works out
+ * interest and late fee for returns filed after the due date, and builds
+ * the JSON accepted by the GST portal and offline utility.
+ *
+ * Tables:
+ * - 3.1(a): Outward taxable supplies (including import of services under RCM)
+ * - 3.1(b): Zero-rated supplies
+ * - 3.1(d): Inward supplies liable to reverse charge
+ * - 4A(3): ITC on tax paid under reverse charge
+ * - 5.1: Interest and late fee
+ */
+
+import { differenceInCalendarDays, startOfDay } from 'date-fns'
+import { toReturnPeriod } from './gstr1-json'
+
+// A document behind a GSTR-3B figure, built from an included plan item
+export interface GSTR3BDocument {
+  section: string // Plan item gstrTable: "3.1(a)", "3.1(b)", "3.1(d)"
+  number: string
+  date: Date
+  partyName: string | null
+  isReverseCharge: boolean // Self-invoices: tax paid under RCM, claimed back as ITC
+  taxableValue: number
+  igst: number
+  cgst: number
+  sgst: number
+}
+
+export interface GSTR3BAmounts {
+  taxableValue: number
+  igst: number
+  cgst: number
+  sgst: number
+}
+
+export interface GSTR3BTable {
+  code: string
+  label: string
+  totals: GSTR3BAmounts
+  documents: GSTR3BDocument[]
+}
+
+export interface GSTR3BComputation {
+  supplies: GSTR3BTable[] // 3.1(a), 3.1(b), 3.1(d)
+  itc: GSTR3BTable // 4A(3)
+  netTaxPayable: { igst: number; cgst: number; sgst: number; total: number }
+  daysLate: number
+  interest: { igst: number; cgst: number; sgst: number }
+  lateFee: { cgst: number; sgst: number }
+}
+
+type TaxDetails = { txval: number; iamt: number; camt: number; samt: number; csamt: number }
+type TaxOnly = Omit<TaxDetails, 'txval'>
+
+export interface GSTR3BJson {
+  gstin: string
+  ret_period: string // MMYYYY
+  sup_details: {
+    osup_det: TaxDetails
+    osup_zero: Pick<TaxDetails, 'txval' | 'iamt' | 'csamt'>
+    osup_nil_exmp: Pick<TaxDetails, 'txval'>
+    isup_rev: TaxDetails
+    osup_nongst: Pick<TaxDetails, 'txval'>
+  }
+  itc_elg: {
+    itc_avl: Array<{ ty: 'IMPG' | 'IMPS' | 'ISRC' | 'ISD' | 'OTH' } & TaxOnly>
+    itc_rev: Array<{ ty: 'RUL' | 'OTH' } & TaxOnly>
+    itc_net: TaxOnly
+    itc_inelg: Array<{ ty: 'RUL' | 'OTH' } & TaxOnly>
+  }
+  inward_sup: {
+    isup_details: Array<{ ty: 'GST' | 'NONGST'; inter: number; intra: number }>
+  }
+  intr_ltfee: {
+    intr_details: TaxOnly
+    ltfee_details: TaxOnly
+  }
+}
+
+export const GSTR3B_SUPPLY_TABLES = [
+  { code: '3.1(a)', label: 'Outward taxable supplies (other than zero rated, nil rated and exempted)' },
+  { code: '3.1(b)', label: 'Outward taxable supplies (zero rated)' },
+  { code: '3.1(d)', label: 'Inward supplies (liable to reverse charge)' },
+]
+
+export const GSTR3B_ITC_TABLE = { code: '4A(3)', label: 'ITC on inward supplies liable to reverse charge' }
+
+// Interest on tax paid late, per annum (Section 50)
+const INTEREST_RATE = 0.18
+
+// Late fee per day under each of CGST and SGST, capped for taxpayers with
+// turnover up to ₹1.5 crore; lower for returns with no tax liability
+const LATE_FEE_PER_DAY = 25
+const LATE_FEE_PER_DAY_NIL = 10
+const LATE_FEE_CAP = 1000
+const LATE_FEE_CAP_NIL = 250
+
+const EMPTY_TAX: TaxOnly = { iamt: 0, camt: 0, samt: 0, csamt: 0 }
+
+/**
+ * Round to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function sumAmounts(documents: GSTR3BAmounts[]): GSTR3BAmounts {
+  return documents.reduce(
+    (total, document) => ({
+      taxableValue: roundTo2Decimals(total.taxableValue + document.taxableValue),
+      igst: roundTo2Decimals(total.igst + document.igst),
+      cgst: roundTo2Decimals(total.cgst + document.cgst),
+      sgst: roundTo2Decimals(total.sgst + document.sgst),
+    }),
+    { taxableValue: 0, igst: 0, cgst: 0, sgst: 0 }
+  )
+}
+
+/**
+ * Interest at 18% p.a. on the tax payable for each day after the due date
+ */
+function getInterest(tax: number, daysLate: number): number {
+  return roundTo2Decimals((Math.max(0, tax) * INTEREST_RATE * daysLate) / 365)
+}
+
+/**
+ * Late fee under one of CGST or SGST for the days after the due date
+ */
+function getLateFee(daysLate: number, isNil: boolean): number {
+  return isNil
+    ? Math.min(daysLate * LATE_FEE_PER_DAY_NIL, LATE_FEE_CAP_NIL)
+    : Math.min(daysLate * LATE_FEE_PER_DAY, LATE_FEE_CAP)
+}
+
+/**
+ * Compute the GSTR-3B tables from the documents in the plan
+ *
+ * @param documents - Documents from the included plan items
+ * @param dueDate - Due date of the return
+ * @param filingDate - Date the return is (or will be) filed, for interest and late fee
+ */
+export function buildGSTR3BComputation(
+  documents: GSTR3BDocument[],
+  dueDate: Date,
+  filingDate: Date
+): GSTR3BComputation {
+  const supplies = GSTR3B_SUPPLY_TABLES.map((table) => {
+    const tableDocuments = documents.filter((document) => document.section === table.code)
+    return { ...table, totals: sumAmounts(tableDocuments), documents: tableDocuments }
+  })
+
+  // Tax paid under reverse charge is claimed back as ITC in the same return
+  const rcmDocuments = documents.filter((document) => document.isReverseCharge)
+  const itc = { ...GSTR3B_ITC_TABLE, totals: sumAmounts(rcmDocuments), documents: rcmDocuments }
+
+  const liability = sumAmounts(supplies.map((table) => table.totals))
+  const net = {
+    igst: roundTo2Decimals(Math.max(0, liability.igst - itc.totals.igst)),
+    cgst: roundTo2Decimals(Math.max(0, liability.cgst - itc.totals.cgst)),
+    sgst: roundTo2Decimals(Math.max(0, liability.sgst - itc.totals.sgst)),
+  }
+  const netTotal = roundTo2Decimals(net.igst + net.cgst + net.sgst)
+
+  const daysLate = Math.max(0, differenceInCalendarDays(startOfDay(filingDate), startOfDay(dueDate)))
+  const isNil = liability.igst + liability.cgst + liability.sgst === 0
+  const lateFee = daysLate > 0 ? getLateFee(daysLate, isNil) : 0
+
+  return {
+    supplies,
+    itc,
+    netTaxPayable: { ...net, total: netTotal },
+    daysLate,
+    interest: {
+      igst: getInterest(net.igst, daysLate),
+      cgst: getInterest(net.cgst, daysLate),
+      sgst: getInterest(net.sgst, daysLate),
+    },
+    lateFee: { cgst: lateFee, sgst: lateFee },
+  }
+}
+
+/**
+ * Build the GSTR-3B JSON for a return period
+ *
+ * @param params.gstin - Supplier GSTIN
+ * @param params.period - Return period (YYYY-MM)
+ * @param params.computation - Computed tables of the return
+ */
+export function buildGSTR3BJson(params: {
+  gstin: string
+  period: string
+  computation: GSTR3BComputation
+}): GSTR3BJson {
+  const { gstin, period, computation } = params
+  const table = (code: string) =>
+    computation.supplies.find((supply) => supply.code === code)?.totals ?? sumAmounts([])
+  const toDetails = (amounts: GSTR3BAmounts): TaxDetails => ({
+    txval: amounts.taxableValue,
+    iamt: amounts.igst,
+    camt: amounts.cgst,
+    samt: amounts.sgst,
+    csamt: 0,
+  })
+
+  const outward = table('3.1(a)')
+  const zeroRated = table('3.1(b)')
+  const itc = computation.itc.totals
+  const reverseChargeItc: TaxOnly = { iamt: itc.igst, camt: itc.cgst, samt: itc.sgst, csamt: 0 }
+
+  return {
+    gstin,
+    ret_period: toReturnPeriod(period),
+    sup_details: {
+      osup_det: toDetails(outward),
+      osup_zero: { txval: zeroRated.taxableValue, iamt: zeroRated.igst, csamt: 0 },
+      osup_nil_exmp: { txval: 0 },
+      isup_rev: toDetails(table('3.1(d)')),
+      osup_nongst: { txval: 0 },
+    },
+    itc_elg: {
+      itc_avl: [
+        { ty: 'IMPG', ...EMPTY_TAX },
+        { ty: 'IMPS', ...EMPTY_TAX },
+        { ty: 'ISRC', ...reverseChargeItc },
+        { ty: 'ISD', ...EMPTY_TAX },
+        { ty: 'OTH', ...EMPTY_TAX },
+      ],
+      itc_rev: [
+        { ty: 'RUL', ...EMPTY_TAX },
+        { ty: 'OTH', ...EMPTY_TAX },
+      ],
+      itc_net: reverseChargeItc,
+      itc_inelg: [
+        { ty: 'RUL', ...EMPTY_TAX },
+        { ty: 'OTH', ...EMPTY_TAX },
+      ],
+    },
+    inward_sup: {
+      isup_details: [
+        { ty: 'GST', inter: 0, intra: 0 },
+        { ty: 'NONGST', inter: 0, intra: 0 },
+      ],
+    },
+    intr_ltfee: {
+      intr_details: {
+        iamt: computation.interest.igst,
+        camt: computation.interest.cgst,
+        samt: computation.interest.sgst,
+        csamt: 0,
+      },
+      ltfee_details: { iamt: 0, camt: computation.lateFee.cgst, samt: computation.lateFee.sgst, csamt: 0 },
+    },
+  }
+}
+
+/**
+ * File name for the downloaded return, e.g. GSTR3B_042025_29ABCDE1234F1Z5.json
+ */
+export function getGSTR3BJsonFileName(json: Pick<GSTR3BJson, 'gstin' | 'ret_period'>): string {
+  return `GSTR3B_${json.ret_period}_${json.gstin}.json`
+}
@@ -0,0 +1,93 @@
+/**
+ * HSN/SAC Summary (GSTR-1 Table 12)
+ *
+ * HSN/SAC-wise totals of outward supplies by tax rate, reported separately
+ * for supplies to registered persons (B2B) and everyone else (B2C).
+ */
+
+import { SAC_HSN_CODES } from '@/lib/constants'
+import type { HsnWiseAmounts } from './line-items'
+
+// Table 12 tab: B2B for Table 4A invoices, B2C for all other supplies
+export type HsnSupplyType = 'B2B' | 'B2C'
+
+// One row of Table 12
+export interface HsnSummaryRow {
+  supplyType: HsnSupplyType
+  serviceCode: string
+  description: string
+  uqc: string // Unique Quantity Code
+  quantity: number
+  gstRate: number
+  taxableValue: number
+  igst: number
+  cgst: number
+  sgst: number
+}
+
+/**
+ * Round to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Get the Unique Quantity Code for a code. Services (SAC, chapter 99)
+ * are reported without a quantity; goods are reported as "others".
+ */
+export function getUQC(serviceCode: string): string {
+  return serviceCode.startsWith('99') ? 'NA' : 'OTH'
+}
+
+/**
+ * Get the description of an HSN/SAC code from the code list
+ */
+function getCodeDescription(serviceCode: string): string {
+  return SAC_HSN_CODES.find((entry) => entry.code === serviceCode)?.description ?? ''
+}
+
+/**
+ * Summarise HSN/SAC-wise invoice amounts into Table 12 rows
+ *
+ * @param invoices - Each invoice's supply type and HSN/SAC-wise INR amounts
+ * @returns One row per supply type, code and rate, B2B first, then by code and rate
+ */
+export function summarizeHsn(
+  invoices: Array<{ supplyType: HsnSupplyType; amounts: HsnWiseAmounts[] }>
+): HsnSummaryRow[] {
+  const rows = new Map<string, HsnSummaryRow>()
+
+  for (const invoice of invoices) {
+    for (const entry of invoice.amounts) {
+      const key = `${invoice.supplyType}|${entry.serviceCode}|${entry.gstRate}`
+      const uqc = getUQC(entry.serviceCode)
+      const row = rows.get(key) ?? {
+        supplyType: invoice.supplyType,
+        serviceCode: entry.serviceCode,
+        description: getCodeDescription(entry.serviceCode),
+        uqc,
+        quantity: 0,
+        gstRate: entry.gstRate,
+        taxableValue: 0,
+        igst: 0,
+        cgst: 0,
+        sgst: 0,
+      }
+
+      row.quantity = uqc === 'NA' ? 0 : roundTo2Decimals(row.quantity + entry.quantity)
+      row.taxableValue = roundTo2Decimals(row.taxableValue + entry.taxableValue)
+      row.igst = roundTo2Decimals(row.igst + entry.igst)
+      row.cgst = roundTo2Decimals(row.cgst + entry.cgst)
+      row.sgst = roundTo2Decimals(row.sgst + entry.sgst)
+      rows.set(key, row)
+    }
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.supplyType.localeCompare(b.supplyType) ||
+      a.serviceCode.localeCompare(b.serviceCode) ||
+      a.gstRate - b.gstRate
+  )
+}
@@ -7,3 +7,10 @@
 export * from './classification'
 export * from './due-dates'
 export * from './validation'
+export * from './line-items'
+export * from './documents'
+export * from './gstr1-json'
+export * from './gstr3b-json'
+export * from './hsn-summary'
+export * from './qrmp'
+export * from './amendments'
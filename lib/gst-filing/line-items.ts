@@ -0,0 +1,120 @@
+/**
+ * Line Item Aggregation for Filing
+ *
+ * Groups invoice line items by GST rate (GSTR-1 invoice-level rate items)
+ * and by HSN/SAC code and rate (HSN summary), with amounts converted to INR.
+ */
+
+// Line item values needed for filing, in the invoice currency
+export interface FilingLineItem {
+  serviceCode: string
+  quantity: number
+  amount: number
+  discountAmount: number
+  gstRate: number
+  igstAmount: number
+  cgstAmount: number
+  sgstAmount: number
+}
+
+// Rate-wise taxable value and tax in INR
+export interface RateWiseAmounts {
+  gstRate: number
+  taxableValue: number
+  igst: number
+  cgst: number
+  sgst: number
+}
+
+// HSN/SAC and rate-wise quantity, taxable value and tax in INR
+export interface HsnWiseAmounts extends RateWiseAmounts {
+  serviceCode: string
+  quantity: number
+}
+
+/**
+ * Round to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Sum line values per key in the invoice currency, then convert each group to INR
+ */
+function groupLineItems<K extends object>(
+  lineItems: FilingLineItem[],
+  exchangeRate: number,
+  keyOf: (item: FilingLineItem) => K
+): Array<K & RateWiseAmounts & { quantity: number }> {
+  const groups = new Map<string, K & RateWiseAmounts & { quantity: number }>()
+
+  for (const item of lineItems) {
+    const key = keyOf(item)
+    const id = JSON.stringify(key)
+    const group = groups.get(id) ?? {
+      ...key,
+      gstRate: item.gstRate,
+      quantity: 0,
+      taxableValue: 0,
+      igst: 0,
+      cgst: 0,
+      sgst: 0,
+    }
+
+    group.quantity += item.quantity
+    group.taxableValue += item.amount - item.discountAmount
+    group.igst += item.igstAmount
+    group.cgst += item.cgstAmount
+    group.sgst += item.sgstAmount
+    groups.set(id, group)
+  }
+
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    taxableValue: roundTo2Decimals(group.taxableValue * exchangeRate),
+    igst: roundTo2Decimals(group.igst * exchangeRate),
+    cgst: roundTo2Decimals(group.cgst * exchangeRate),
+    sgst: roundTo2Decimals(group.sgst * exchangeRate),
+  }))
+}
+
+/**
+ * Group an invoice's line items by GST rate, in INR
+ *
+ * @param lineItems - Line items of a single invoice
+ * @param exchangeRate - Invoice exchange rate (1 for INR invoices)
+ * @returns One entry per rate, ordered by rate
+ */
+export function getRateWiseAmounts(lineItems: FilingLineItem[], exchangeRate: number): RateWiseAmounts[] {
+  return groupLineItems(lineItems, exchangeRate, (item) => ({ gstRate: item.gstRate }))
+    .map(({ gstRate, taxableValue, igst, cgst, sgst }) => ({ gstRate, taxableValue, igst, cgst, sgst }))
+    .sort((a, b) => a.gstRate - b.gstRate)
+}
+
+/**
+ * Group line items by HSN/SAC code and GST rate, in INR, for the HSN summary
+ *
+ * @param lineItems - Line items of a single invoice
+ * @param exchangeRate - Invoice exchange rate (1 for INR invoices)
+ * @returns One entry per code and rate, ordered by code then rate
+ */
+export function getHsnWiseAmounts(lineItems: FilingLineItem[], exchangeRate: number): HsnWiseAmounts[] {
+  return groupLineItems(lineItems, exchangeRate, (item) => ({ serviceCode: item.serviceCode, gstRate: item.gstRate }))
+    .sort((a, b) => a.serviceCode.localeCompare(b.serviceCode) || a.gstRate - b.gstRate)
+}
+
+/**
+ * Total a rate-wise breakdown into invoice-level INR amounts
+ */
+export function sumRateWiseAmounts(amounts: RateWiseAmounts[]): Omit<RateWiseAmounts, 'gstRate'> {
+  return amounts.reduce(
+    (total, entry) => ({
+      taxableValue: roundTo2Decimals(total.taxableValue + entry.taxableValue),
+      igst: roundTo2Decimals(total.igst + entry.igst),
+      cgst: roundTo2Decimals(total.cgst + entry.cgst),
+      sgst: roundTo2Decimals(total.sgst + entry.sgst),
+    }),
+    { taxableValue: 0, igst: 0, cgst: 0, sgst: 0 }
+  )
+}
@@ -0,0 +1,105 @@
+/**
+ * QRMP (Quarterly Return, Monthly Payment) Scheme
+ *
+ * Works out which returns a taxpayer files for a month from their filing
+ * frequency history:
+ * - Monthly: GSTR-1 and GSTR-3B every month
+ * - Quarterly, months 1-2 of the quarter: optional IFF for B2B invoices and
+ *   PMT-06 for the month's tax
+ * - Quarterly, last month of the quarter: GSTR-1 and GSTR-3B for the quarter
+ *
+ * The frequency can only change from the start of a quarter, so each
+ * change in the history takes effect from a quarter's first month.
+ */
+
+import type { FilingFrequency, FilingType } from '@prisma/client'
+import { getReturnDueDate, isQuarterEndPeriod, formatPeriod, formatQuarter } from './due-dates'
+
+// A change of filing frequency, from the history kept per user
+export interface FilingFrequencyChange {
+  frequency: FilingFrequency
+  effectiveFrom: string // YYYY-MM, first month of a quarter
+}
+
+// A return to be filed for a month
+export interface ScheduledReturn {
+  filingType: FilingType
+  period: string // YYYY-MM; the quarter's last month for quarterly GSTR-1/GSTR-3B
+  frequency: FilingFrequency
+  dueDate: Date
+  isOptional: boolean // IFF can be skipped; its invoices then go in the quarterly GSTR-1
+}
+
+export const FILING_TYPE_LABELS: Record<FilingType, string> = {
+  GSTR1: 'GSTR-1',
+  GSTR3B: 'GSTR-3B',
+  IFF: 'IFF',
+  PMT06: 'PMT-06',
+}
+
+/**
+ * Get the filing frequency in effect for a period: the latest change
+ * effective on or before it, or monthly when there is none
+ *
+ * @param history - The user's frequency changes, in any order
+ * @param period - Period in YYYY-MM format
+ */
+export function getFilingFrequency(history: FilingFrequencyChange[], period: string): FilingFrequency {
+  const effective = history
+    .filter((change) => change.effectiveFrom <= period)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0]
+
+  return effective?.frequency ?? 'MONTHLY'
+}
+
+/**
+ * Get the return type filed for a period in place of GSTR-1 or GSTR-3B.
+ * Quarterly filers report months 1-2 of a quarter by IFF and PMT-06.
+ *
+ * @param filingType - GSTR1 or GSTR3B
+ * @param period - Period in YYYY-MM format
+ * @param frequency - Filing frequency in effect for the period
+ */
+export function getReturnTypeForPeriod(
+  filingType: 'GSTR1' | 'GSTR3B',
+  period: string,
+  frequency: FilingFrequency
+): FilingType {
+  if (frequency === 'MONTHLY' || isQuarterEndPeriod(period)) return filingType
+  return filingType === 'GSTR1' ? 'IFF' : 'PMT06'
+}
+
+/**
+ * Get the returns to be filed for a month
+ *
+ * @param period - Period in YYYY-MM format
+ * @param frequency - Filing frequency in effect for the period
+ * @param stateCode - Two-digit GST state code, for the quarterly GSTR-3B due date
+ */
+export function getReturnsForPeriod(
+  period: string,
+  frequency: FilingFrequency,
+  stateCode: string | null
+): ScheduledReturn[] {
+  return (['GSTR1', 'GSTR3B'] as const).map((type) => {
+    const filingType = getReturnTypeForPeriod(type, period, frequency)
+    return {
+      filingType,
+      period,
+      frequency,
+      dueDate: getReturnDueDate(filingType, period, { frequency, stateCode }),
+      isOptional: filingType === 'IFF',
+    }
+  })
+}
+
+/**
+ * Format the period a return covers for display: the quarter for
+ * quarterly GSTR-1 and GSTR-3B, otherwise the month
+ */
+export function formatReturnPeriod(period: string, frequency: FilingFrequency, filingType: FilingType): string {
+  if (frequency === 'QUARTERLY' && (filingType === 'GSTR1' || filingType === 'GSTR3B')) {
+    return formatQuarter(period)
+  }
+  return formatPeriod(period)
+}
@@ -57,6 +57,7 @@ function isIndianCountry(country: string | null): boolean {
  */
 function isExport(invoice: InvoiceForValidation): boolean {
   if (invoice.invoiceType === 'SELF_INVOICE') return false
+  if (invoice.invoiceType === 'DOMESTIC') return false
   if (invoice.clientGstin) return false
   if (isIndianCountry(invoice.clientCountry)) return false
   return true
@@ -74,28 +75,31 @@ function parsePeriod(period: string): { year: number; month: number } {
 }
 
 /**
- * Check if invoice date is within the filing period
+ * Check if invoice date is within one of the filing period's months
  */
-function isInvoiceInPeriod(invoiceDate: Date, period: string): boolean {
-  const { year, month } = parsePeriod(period)
+function isInvoiceInPeriod(invoiceDate: Date, periods: string[]): boolean {
   const invoiceYear = invoiceDate.getFullYear()
   const invoiceMonth = invoiceDate.getMonth() + 1 // 1-indexed
 
-  return invoiceYear === year && invoiceMonth === month
+  return periods.some((period) => {
+    const { year, month } = parsePeriod(period)
+    return invoiceYear === year && invoiceMonth === month
+  })
 }
 
 /**
  * Validate an invoice for filing and return any flags
  *
  * @param invoice - Invoice to validate
- * @param period - Filing period in YYYY-MM format
+ * @param period - Filing period in YYYY-MM format, or the months of a quarterly return
  * @returns Array of validation flags
  */
 export function validateFilingItem(
   invoice: InvoiceForValidation,
-  period: string
+  period: string | string[]
 ): ValidationFlag[] {
   const flags: ValidationFlag[] = []
+  const periods = Array.isArray(period) ? period : [period]
 
   // LUT Validation for exports
   if (isExport(invoice)) {
@@ -132,10 +136,10 @@ export function validateFilingItem(
   }
 
   // Period Validation
-  if (!isInvoiceInPeriod(invoice.invoiceDate, period)) {
+  if (!isInvoiceInPeriod(invoice.invoiceDate, periods)) {
     flags.push({
       code: 'INVOICE_OUTSIDE_PERIOD',
-      message: `Invoice date is outside the filing period ${period}.`,
+      message: `Invoice date is outside the filing period ${periods.join(', ')}.`,
       severity: FlagSeverity.WARNING,
     })
   }
@@ -54,6 +54,15 @@ const GSTIN_PATTERN = /\b([0-9]{2}[A-Z]{5}[0-9]{4}[A-Z]{1}[A-Z0-9]{1}Z[A-Z0-9]{1
 // Foreign currency codes
 const FOREIGN_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'SGD', 'JPY', 'CHF', 'AED']
 
+// Freelance and payment platforms whose receipts are export earnings
+const PLATFORM_SOURCE_TYPES: DocumentSourceType[] = [
+  DocumentSourceType.UPWORK,
+  DocumentSourceType.TOPTAL,
+  DocumentSourceType.PAYONEER,
+  DocumentSourceType.WISE,
+  DocumentSourceType.PAYPAL,
+]
+
 // Export platform keywords
 const EXPORT_PLATFORM_KEYWORDS = [
   'upwork',
@@ -118,7 +127,7 @@ export function classifyDocument(content: DocumentContent): ClassificationResult
   })
 
   // Priority 1: Source type specific classification
-  if (sourceType === DocumentSourceType.UPWORK || sourceType === DocumentSourceType.TOPTAL) {
+  if (PLATFORM_SOURCE_TYPES.includes(sourceType)) {
     classification = DocumentClassification.EXPORT_WITH_LUT
     reasons.push(`Source type ${sourceType} indicates export earnings`)
     confidence = 90
@@ -174,6 +174,19 @@ This is a Toptal payment document. Focus on:
 Currency is typically USD.`
       break
 
+    case DocumentSourceType.PAYONEER:
+    case DocumentSourceType.WISE:
+    case DocumentSourceType.PAYPAL:
+      contextHint = `
+This is a Payoneer, Wise or PayPal receipt for money received from a foreign client. Focus on:
+- Gross amount the client paid (use as amount)
+- Payer name (use as clientName)
+- Payment date
+- Platform fees deducted
+- Exchange rate and INR amount if converted
+Currency is typically USD, EUR or GBP.`
+      break
+
     case DocumentSourceType.CLIENT_INVOICE:
       contextHint = `
 This is a client invoice. Focus on:
@@ -0,0 +1,144 @@
+/**
+ * Payoneer Activity CSV Parser
+ *
+ * Parses the Payoneer transactions CSV. Received payments are credits with
+ * the payer in the description ("Payment from Acme Corp"). Fees are either
+ * a Fee column on the payment row or a separate "Fee for payment from ..."
+ * debit. Withdrawals to an Indian bank account carry the exchange rate or
+ * the INR amount received, which is used to value the payments withdrawn.
+ */
+
+import { normalizeHeader, parseCSV } from '@/lib/spreadsheet'
+import {
+  applyConversions,
+  findColumn,
+  parsePlatformAmount,
+  parsePlatformDate,
+  round,
+  type PlatformConversion,
+  type PlatformParseResult,
+  type PlatformPayment,
+} from './platform-payments'
+
+const WITHDRAWAL_PATTERN = /withdraw|transfer to|sent to bank/i
+// Credits that are not client payments
+const NON_PAYMENT_PATTERN = /refund|reversal|cancel|load|transfer from/i
+// Fees not related to a received payment
+const ACCOUNT_FEE_PATTERN = /withdraw|annual|card|inactivity|atm|transfer/i
+
+const PAYER_PATTERNS = [/payment from (.+?)(?:\s+-\s+|\s*\(|$)/i, /received from (.+?)(?:\s+-\s+|\s*\(|$)/i]
+
+/**
+ * Parse Payoneer activity CSV content
+ */
+export function parsePayoneerCSV(csvContent: string): PlatformParseResult {
+  const rows = parseCSV(csvContent)
+  if (rows.length === 0) {
+    return { success: false, error: 'Empty CSV content' }
+  }
+
+  const columns = rows[0].map(normalizeHeader)
+  const column = {
+    date: findColumn(columns, ['transaction_date', 'date']),
+    id: findColumn(columns, ['transaction_id', 'reference_id', 'id']),
+    description: findColumn(columns, ['description', 'transaction_description', 'details']),
+    amount: findColumn(columns, ['amount', 'gross_amount', 'transaction_amount']),
+    currency: findColumn(columns, ['currency', 'transaction_currency']),
+    fee: findColumn(columns, ['fee', 'fees', 'transaction_fee']),
+    net: findColumn(columns, ['net_amount', 'net']),
+    status: findColumn(columns, ['status']),
+    payer: findColumn(columns, ['payer', 'payer_name', 'from', 'source']),
+    exchangeRate: findColumn(columns, ['exchange_rate', 'fx_rate', 'conversion_rate']),
+    targetAmount: findColumn(columns, ['target_amount', 'amount_received', 'received_amount']),
+    targetCurrency: findColumn(columns, ['target_currency', 'received_currency']),
+  }
+
+  if (column.date === -1 || column.amount === -1 || column.description === -1) {
+    return {
+      success: false,
+      error: 'Required columns (Date, Description, Amount) not found. Upload the Payoneer transactions CSV',
+    }
+  }
+
+  const payments: PlatformPayment[] = []
+  const feeRows: Array<{ date: Date; currency: string; description: string; fee: number }> = []
+  const conversions: PlatformConversion[] = []
+  let skippedRows = 0
+
+  for (const row of rows.slice(1)) {
+    const value = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim())
+    const date = parsePlatformDate(value(column.date))
+    const amount = parsePlatformAmount(value(column.amount))
+    const description = value(column.description)
+    const currency = (value(column.currency) || 'USD').toUpperCase()
+
+    if (!date || amount === 0) {
+      skippedRows++
+      continue
+    }
+    if (value(column.status) && /fail|cancel|declin|pending/i.test(value(column.status))) continue
+
+    if (amount > 0 && !NON_PAYMENT_PATTERN.test(description) && !/fee/i.test(description)) {
+      const fee = Math.abs(parsePlatformAmount(value(column.fee)))
+      const net = column.net !== -1 && value(column.net) ? parsePlatformAmount(value(column.net)) : amount - fee
+
+      payments.push({
+        date,
+        description,
+        payerName: value(column.payer) || extractPayer(description),
+        reference: value(column.id) || undefined,
+        currency,
+        grossAmount: round(amount, 2),
+        fee: round(fee, 2),
+        netAmount: round(net, 2),
+      })
+    } else if (amount < 0 && WITHDRAWAL_PATTERN.test(description)) {
+      const targetAmount = parsePlatformAmount(value(column.targetAmount))
+      const targetCurrency = value(column.targetCurrency).toUpperCase() || (targetAmount > 0 ? 'INR' : '')
+      const exchangeRate =
+        parsePlatformAmount(value(column.exchangeRate)) || (targetAmount > 0 ? targetAmount / Math.abs(amount) : 0)
+
+      if (currency !== 'INR' && targetCurrency === 'INR' && exchangeRate > 0) {
+        conversions.push({ date, currency, amount: Math.abs(amount), exchangeRate: round(exchangeRate, 4) })
+      }
+    } else if (amount < 0 && /fee/i.test(description) && !ACCOUNT_FEE_PATTERN.test(description)) {
+      feeRows.push({ date, currency, description, fee: Math.abs(amount) })
+    }
+  }
+
+  for (const feeRow of feeRows) {
+    const payment = findPaymentForFee(payments, feeRow)
+    if (!payment) continue
+    payment.fee = round(payment.fee + feeRow.fee, 2)
+    payment.netAmount = round(payment.grossAmount - payment.fee, 2)
+  }
+
+  return {
+    success: true,
+    payments: applyConversions(payments, conversions),
+    warnings: skippedRows > 0 ? [`Skipped ${skippedRows} invalid row(s)`] : undefined,
+  }
+}
+
+function extractPayer(description: string): string | undefined {
+  for (const pattern of PAYER_PATTERNS) {
+    const match = pattern.exec(description)
+    if (match?.[1]) return match[1].trim()
+  }
+  return undefined
+}
+
+/**
+ * Find the payment a separate fee row was charged on: a payment in the
+ * same currency on the same day, preferring one whose payer the fee names
+ */
+function findPaymentForFee(
+  payments: PlatformPayment[],
+  feeRow: { date: Date; currency: string; description: string }
+): PlatformPayment | undefined {
+  const sameDay = payments.filter(
+    (payment) => payment.currency === feeRow.currency && payment.date.getTime() === feeRow.date.getTime()
+  )
+  const description = feeRow.description.toLowerCase()
+  return sameDay.find((payment) => payment.payerName && description.includes(payment.payerName.toLowerCase())) ?? sameDay[0]
+}
@@ -0,0 +1,120 @@
+/**
+ * PayPal Activity CSV Parser
+ *
+ * Parses the PayPal "Activity download" CSV. Each received payment has its
+ * gross amount, fee and net amount on one row. Conversions to INR appear
+ * as a pair of "General Currency Conversion" rows, one debiting the
+ * foreign balance and one crediting INR, linked by the reference
+ * transaction ID.
+ */
+
+import { normalizeHeader, parseCSV } from '@/lib/spreadsheet'
+import {
+  applyConversions,
+  findColumn,
+  parsePlatformAmount,
+  parsePlatformDate,
+  round,
+  type PlatformConversion,
+  type PlatformParseResult,
+  type PlatformPayment,
+} from './platform-payments'
+
+// Row types that move money within the account rather than receive it
+const NON_PAYMENT_TYPES = /conversion|withdraw|transfer|hold|reversal|refund|release|reserve|authori[sz]ation/i
+
+/**
+ * Parse PayPal activity CSV content
+ */
+export function parsePayPalCSV(csvContent: string): PlatformParseResult {
+  const rows = parseCSV(csvContent)
+  if (rows.length === 0) {
+    return { success: false, error: 'Empty CSV content' }
+  }
+
+  const columns = rows[0].map(normalizeHeader)
+  const column = {
+    date: findColumn(columns, ['date']),
+    time: findColumn(columns, ['time']),
+    name: findColumn(columns, ['name']),
+    type: findColumn(columns, ['type', 'description']),
+    status: findColumn(columns, ['status']),
+    currency: findColumn(columns, ['currency']),
+    gross: findColumn(columns, ['gross']),
+    fee: findColumn(columns, ['fee']),
+    net: findColumn(columns, ['net']),
+    email: findColumn(columns, ['from_email_address']),
+    transactionId: findColumn(columns, ['transaction_id']),
+    referenceId: findColumn(columns, ['reference_txn_id']),
+    invoiceNumber: findColumn(columns, ['invoice_number']),
+    subject: findColumn(columns, ['subject', 'item_title']),
+  }
+
+  if (column.date === -1 || column.gross === -1 || column.currency === -1) {
+    return {
+      success: false,
+      error: 'Required columns (Date, Currency, Gross) not found. Upload the PayPal activity download CSV',
+    }
+  }
+
+  const payments: PlatformPayment[] = []
+  const conversionRows = new Map<string, Array<{ date: Date; currency: string; gross: number }>>()
+  let skippedRows = 0
+
+  for (const row of rows.slice(1)) {
+    const value = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim())
+    const date = parsePlatformDate(value(column.date))
+    const gross = parsePlatformAmount(value(column.gross))
+    const currency = value(column.currency).toUpperCase()
+    const type = value(column.type)
+
+    if (!date || !currency) {
+      skippedRows++
+      continue
+    }
+
+    if (/currency conversion/i.test(type)) {
+      const key = value(column.referenceId) || `${value(column.date)} ${value(column.time)}`
+      conversionRows.set(key, [...(conversionRows.get(key) ?? []), { date, currency, gross }])
+      continue
+    }
+
+    const status = value(column.status)
+    if (gross <= 0 || NON_PAYMENT_TYPES.test(type) || (status && !/completed/i.test(status))) continue
+
+    const fee = Math.abs(parsePlatformAmount(value(column.fee)))
+    const net = column.net !== -1 ? parsePlatformAmount(value(column.net)) : gross - fee
+    const invoiceNumber = value(column.invoiceNumber)
+
+    payments.push({
+      date,
+      description: [type, value(column.subject), invoiceNumber && `Invoice ${invoiceNumber}`].filter(Boolean).join(' · '),
+      payerName: value(column.name) || value(column.email) || undefined,
+      reference: value(column.transactionId) || undefined,
+      currency,
+      grossAmount: round(gross, 2),
+      fee: round(fee, 2),
+      netAmount: round(net, 2),
+    })
+  }
+
+  const conversions: PlatformConversion[] = []
+  for (const pair of conversionRows.values()) {
+    const from = pair.find((entry) => entry.gross < 0 && entry.currency !== 'INR')
+    const to = pair.find((entry) => entry.gross > 0 && entry.currency === 'INR')
+    if (!from || !to) continue
+
+    conversions.push({
+      date: from.date,
+      currency: from.currency,
+      amount: Math.abs(from.gross),
+      exchangeRate: round(to.gross / Math.abs(from.gross), 4),
+    })
+  }
+
+  return {
+    success: true,
+    payments: applyConversions(payments, conversions),
+    warnings: skippedRows > 0 ? [`Skipped ${skippedRows} invalid row(s)`] : undefined,
+  }
+}
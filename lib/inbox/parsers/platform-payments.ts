@@ -0,0 +1,208 @@
+/**
+ * Payment Platform Exports
+ *
+ * Shared types and helpers for the Payoneer, Wise and PayPal activity
+ * export parsers. Each parser reads the payments received from clients,
+ * with the platform fee taken from each one, and the conversions to INR
+ * that followed. Conversion rates are then applied to the payments they
+ * paid out, oldest first.
+ */
+
+import { parseISO } from 'date-fns'
+import { parseImportDate } from '@/lib/invoice-import'
+
+/**
+ * A payment received from a client on the platform
+ */
+export interface PlatformPayment {
+  date: Date
+  description: string
+  payerName?: string
+  reference?: string
+  currency: string
+  grossAmount: number // Amount the client sent
+  fee: number // Platform fee, in the payment currency
+  netAmount: number // Gross amount less the fee
+  exchangeRate?: number // INR per unit of the payment currency
+  inrCredited?: number // INR paid out for the net amount
+}
+
+/**
+ * A platform payment as stored in a document's extracted data
+ */
+export type StoredPlatformPayment = Omit<PlatformPayment, 'date'> & { date: string } // YYYY-MM-DD
+
+/**
+ * A conversion or withdrawal of a foreign balance to INR
+ */
+export interface PlatformConversion {
+  date: Date
+  currency: string
+  amount: number // Foreign amount converted
+  exchangeRate: number // INR per unit
+}
+
+/**
+ * Parse result
+ */
+export interface PlatformParseResult {
+  success: boolean
+  payments?: PlatformPayment[]
+  error?: string
+  warnings?: string[]
+}
+
+/**
+ * Totals for the payments in an export, in its main currency
+ */
+export interface PlatformPaymentSummary {
+  currency: string
+  totalGross: number
+  totalFees: number
+  totalNet: number
+  totalInrCredited?: number
+  payerNames: string[]
+  startDate?: Date
+  endDate?: Date
+  paymentCount: number
+}
+
+/**
+ * Values to prefill when a platform payment is recorded against an invoice
+ */
+export interface PlatformPaymentPrefill {
+  amount: number
+  paymentDate: Date
+  reference?: string
+  amountReceivedBeforeFees: number
+  platformFeesInCurrency: number
+  creditedAmount?: number
+  actualExchangeRate?: number
+}
+
+/**
+ * Apply conversion rates to the payments whose balance each conversion
+ * paid out. Payments are allocated to conversions of the same currency on
+ * or after their date, oldest first.
+ */
+export function applyConversions(
+  payments: PlatformPayment[],
+  conversions: PlatformConversion[]
+): PlatformPayment[] {
+  const remaining = [...conversions]
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map((conversion) => ({ ...conversion, unallocated: conversion.amount }))
+
+  const sortedPayments = payments
+    .map((payment, index) => ({ payment, index }))
+    .sort((a, b) => a.payment.date.getTime() - b.payment.date.getTime())
+
+  const result = [...payments]
+  for (const { payment, index } of sortedPayments) {
+    if (payment.exchangeRate || payment.currency === 'INR') continue
+
+    const conversion = remaining.find(
+      (candidate) =>
+        candidate.currency === payment.currency &&
+        candidate.date >= payment.date &&
+        candidate.unallocated > 0.005
+    )
+    if (!conversion) continue
+
+    conversion.unallocated -= payment.netAmount
+    result[index] = {
+      ...payment,
+      exchangeRate: conversion.exchangeRate,
+      inrCredited: round(payment.netAmount * conversion.exchangeRate, 2),
+    }
+  }
+
+  return result
+}
+
+/**
+ * Summarize the payments in the currency most of them were received in
+ */
+export function summarizePlatformPayments(payments: PlatformPayment[]): PlatformPaymentSummary {
+  const currencyCounts = new Map<string, number>()
+  for (const payment of payments) {
+    currencyCounts.set(payment.currency, (currencyCounts.get(payment.currency) ?? 0) + 1)
+  }
+  const currency = [...currencyCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'USD'
+  const inCurrency = payments.filter((payment) => payment.currency === currency)
+  const dates = payments.map((payment) => payment.date.getTime())
+
+  return {
+    currency,
+    totalGross: round(sum(inCurrency.map((payment) => payment.grossAmount)), 2),
+    totalFees: round(sum(inCurrency.map((payment) => payment.fee)), 2),
+    totalNet: round(sum(inCurrency.map((payment) => payment.netAmount)), 2),
+    totalInrCredited: inCurrency.some((payment) => payment.inrCredited !== undefined)
+      ? round(sum(inCurrency.map((payment) => payment.inrCredited ?? 0)), 2)
+      : undefined,
+    payerNames: [...new Set(payments.map((payment) => payment.payerName).filter((name): name is string => !!name))],
+    startDate: dates.length > 0 ? new Date(Math.min(...dates)) : undefined,
+    endDate: dates.length > 0 ? new Date(Math.max(...dates)) : undefined,
+    paymentCount: payments.length,
+  }
+}
+
+/**
+ * Payment form values for a platform payment stored on an inbox document
+ */
+export function toPaymentPrefill(payment: StoredPlatformPayment): PlatformPaymentPrefill {
+  return {
+    amount: payment.grossAmount,
+    paymentDate: parseISO(payment.date),
+    reference: payment.reference,
+    amountReceivedBeforeFees: payment.netAmount,
+    platformFeesInCurrency: payment.fee,
+    creditedAmount: payment.inrCredited,
+    actualExchangeRate: payment.exchangeRate,
+  }
+}
+
+/**
+ * Parse an amount, ignoring currency symbols and thousands separators
+ */
+export function parsePlatformAmount(value: string | undefined): number {
+  const text = value?.replace(/[$€£¥₹,\s]/g, '').replace(/^[A-Z]{3}/, '')
+  if (!text) return 0
+  const amount = Number(text.replace(/^\((.*)\)$/, '-$1'))
+  return Number.isFinite(amount) ? amount : 0
+}
+
+/**
+ * Parse a date as printed in platform exports, with or without a time
+ */
+export function parsePlatformDate(value: string | undefined): Date | undefined {
+  const text = value?.trim()
+  if (!text) return undefined
+
+  const date = parseImportDate(text) ?? parseImportDate(text.split(/[T ]/)[0])
+  if (date) return date
+
+  // "Apr 15, 2024"
+  const monthFirst = /^([a-z]{3})[a-z]*\.? (\d{1,2}),? (\d{4})/i.exec(text)
+  return monthFirst ? parseImportDate(`${monthFirst[2]} ${monthFirst[1]} ${monthFirst[3]}`) : undefined
+}
+
+/**
+ * Find the first column matching one of the aliases
+ */
+export function findColumn(columns: string[], aliases: string[]): number {
+  for (const alias of aliases) {
+    const index = columns.indexOf(alias)
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
@@ -0,0 +1,172 @@
+/**
+ * Wise CSV Parser
+ *
+ * Parses both Wise exports:
+ * - Balance statement CSV: one row per balance movement. Received money is
+ *   a credit net of "Total fees"; conversions to INR are debits with
+ *   "Exchange To" INR and the rate applied.
+ * - Business transaction history CSV: one row per transfer with a
+ *   Direction of IN, OUT or NEUTRAL, fees on the source and target side,
+ *   and the exchange rate.
+ */
+
+import { normalizeHeader, parseCSV } from '@/lib/spreadsheet'
+import {
+  applyConversions,
+  findColumn,
+  parsePlatformAmount,
+  parsePlatformDate,
+  round,
+  type PlatformConversion,
+  type PlatformParseResult,
+  type PlatformPayment,
+} from './platform-payments'
+
+/**
+ * Parse Wise CSV content
+ */
+export function parseWiseCSV(csvContent: string): PlatformParseResult {
+  const rows = parseCSV(csvContent)
+  if (rows.length === 0) {
+    return { success: false, error: 'Empty CSV content' }
+  }
+
+  const columns = rows[0].map(normalizeHeader)
+  if (columns.includes('direction')) {
+    return parseTransactionHistory(columns, rows.slice(1))
+  }
+  if (columns.includes('date') && columns.includes('amount') && columns.includes('currency')) {
+    return parseStatement(columns, rows.slice(1))
+  }
+
+  return {
+    success: false,
+    error: 'Unrecognised Wise export. Upload a balance statement or transaction history CSV',
+  }
+}
+
+function parseStatement(columns: string[], rows: string[][]): PlatformParseResult {
+  const column = {
+    id: findColumn(columns, ['transferwise_id', 'wise_id', 'id']),
+    date: findColumn(columns, ['date']),
+    amount: findColumn(columns, ['amount']),
+    currency: findColumn(columns, ['currency']),
+    description: findColumn(columns, ['description']),
+    reference: findColumn(columns, ['payment_reference', 'reference']),
+    exchangeFrom: findColumn(columns, ['exchange_from']),
+    exchangeTo: findColumn(columns, ['exchange_to']),
+    exchangeRate: findColumn(columns, ['exchange_rate']),
+    payerName: findColumn(columns, ['payer_name']),
+    fees: findColumn(columns, ['total_fees']),
+  }
+
+  const payments: PlatformPayment[] = []
+  const conversions: PlatformConversion[] = []
+  let skippedRows = 0
+
+  for (const row of rows) {
+    const value = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim())
+    const date = parsePlatformDate(value(column.date))
+    const amount = parsePlatformAmount(value(column.amount))
+    const currency = value(column.currency).toUpperCase()
+
+    if (!date || !currency || amount === 0) {
+      skippedRows++
+      continue
+    }
+
+    const fee = Math.abs(parsePlatformAmount(value(column.fees)))
+    const exchangeRate = parsePlatformAmount(value(column.exchangeRate))
+
+    if (amount < 0 && value(column.exchangeTo).toUpperCase() === 'INR' && currency !== 'INR' && exchangeRate > 0) {
+      conversions.push({ date, currency, amount: Math.abs(amount) - fee, exchangeRate })
+    } else if (amount > 0 && !value(column.exchangeFrom)) {
+      // Amounts received are credited to the balance net of fees
+      payments.push({
+        date,
+        description: value(column.description),
+        payerName: value(column.payerName) || undefined,
+        reference: value(column.reference) || value(column.id) || undefined,
+        currency,
+        grossAmount: round(amount + fee, 2),
+        fee: round(fee, 2),
+        netAmount: round(amount, 2),
+      })
+    }
+  }
+
+  return {
+    success: true,
+    payments: applyConversions(payments, conversions),
+    warnings: skippedRows > 0 ? [`Skipped ${skippedRows} invalid row(s)`] : undefined,
+  }
+}
+
+function parseTransactionHistory(columns: string[], rows: string[][]): PlatformParseResult {
+  const column = {
+    id: findColumn(columns, ['id']),
+    status: findColumn(columns, ['status']),
+    direction: findColumn(columns, ['direction']),
+    date: findColumn(columns, ['finished_on', 'created_on']),
+    sourceFee: findColumn(columns, ['source_fee_amount']),
+    sourceFeeCurrency: findColumn(columns, ['source_fee_currency']),
+    targetFee: findColumn(columns, ['target_fee_amount']),
+    sourceName: findColumn(columns, ['source_name']),
+    sourceAmount: findColumn(columns, ['source_amount_after_fees']),
+    sourceCurrency: findColumn(columns, ['source_currency']),
+    targetAmount: findColumn(columns, ['target_amount_after_fees']),
+    targetCurrency: findColumn(columns, ['target_currency']),
+    exchangeRate: findColumn(columns, ['exchange_rate']),
+    reference: findColumn(columns, ['reference']),
+  }
+
+  const payments: PlatformPayment[] = []
+  const conversions: PlatformConversion[] = []
+  let skippedRows = 0
+
+  for (const row of rows) {
+    const value = (index: number) => (index === -1 ? '' : (row[index] ?? '').trim())
+    const date = parsePlatformDate(value(column.date))
+    const direction = value(column.direction).toUpperCase()
+
+    if (!date) {
+      skippedRows++
+      continue
+    }
+    if (value(column.status) && !/completed/i.test(value(column.status))) continue
+
+    const sourceCurrency = value(column.sourceCurrency).toUpperCase()
+    const targetCurrency = value(column.targetCurrency).toUpperCase()
+
+    if (direction === 'IN') {
+      const net = parsePlatformAmount(value(column.targetAmount))
+      const fee =
+        parsePlatformAmount(value(column.targetFee)) ||
+        (value(column.sourceFeeCurrency).toUpperCase() === targetCurrency ? parsePlatformAmount(value(column.sourceFee)) : 0)
+      if (net <= 0) continue
+
+      payments.push({
+        date,
+        description: [value(column.sourceName), value(column.reference)].filter(Boolean).join(' · '),
+        payerName: value(column.sourceName) || undefined,
+        reference: value(column.reference) || value(column.id) || undefined,
+        currency: targetCurrency,
+        grossAmount: round(net + fee, 2),
+        fee: round(fee, 2),
+        netAmount: round(net, 2),
+      })
+    } else if (targetCurrency === 'INR' && sourceCurrency && sourceCurrency !== 'INR') {
+      const exchangeRate = parsePlatformAmount(value(column.exchangeRate))
+      const amount = parsePlatformAmount(value(column.sourceAmount))
+      if (exchangeRate > 0 && amount > 0) {
+        conversions.push({ date, currency: sourceCurrency, amount, exchangeRate })
+      }
+    }
+  }
+
+  return {
+    success: true,
+    payments: applyConversions(payments, conversions),
+    warnings: skippedRows > 0 ? [`Skipped ${skippedRows} invalid row(s)`] : undefined,
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Bulk Invoice Import
+ *
+ * Turns spreadsheet rows into invoices. Each row is one line item; rows
+ * with the same invoice number make up one invoice, and the invoice-level
+ * columns are read from its first row.
+ */
+
+import type { Client } from '@prisma/client'
+import { lineItemSchema, type LineItemInput } from '@/lib/validations/invoice'
+import type { SpreadsheetRecord } from '@/lib/spreadsheet'
+
+/**
+ * Columns of the import template, in template order
+ */
+export const INVOICE_IMPORT_COLUMNS = [
+  { key: 'invoice_number', label: 'Invoice Number', required: true },
+  { key: 'invoice_date', label: 'Invoice Date', required: true },
+  { key: 'due_date', label: 'Due Date', required: false },
+  { key: 'client_email', label: 'Client Email', required: false },
+  { key: 'client_name', label: 'Client Name', required: false },
+  { key: 'invoice_type', label: 'Invoice Type', required: false },
+  { key: 'currency', label: 'Currency', required: false },
+  { key: 'exchange_rate', label: 'Exchange Rate', required: false },
+  { key: 'export_with_payment', label: 'Export With Payment', required: false },
+  { key: 'payment_terms', label: 'Payment Terms', required: false },
+  { key: 'notes', label: 'Notes', required: false },
+  { key: 'description', label: 'Description', required: true },
+  { key: 'sac_code', label: 'SAC Code', required: true },
+  { key: 'quantity', label: 'Quantity', required: true },
+  { key: 'rate', label: 'Rate', required: true },
+  { key: 'discount_type', label: 'Discount Type', required: false },
+  { key: 'discount_value', label: 'Discount Value', required: false },
+  { key: 'gst_rate', label: 'GST Rate', required: false },
+] as const
+
+/**
+ * A problem with one row of the file
+ */
+export interface ImportRowError {
+  rowNumber: number
+  invoiceNumber?: string
+  message: string
+}
+
+/**
+ * An invoice read from the file, before the client, LUT and exchange rate
+ * are resolved against the user's records
+ */
+export interface ImportedInvoiceDraft {
+  invoiceNumber: string
+  rowNumbers: number[]
+  clientEmail: string
+  clientName: string
+  invoiceType?: 'EXPORT' | 'DOMESTIC'
+  issueDate: Date
+  dueDate?: Date
+  currency?: string
+  exchangeRate?: number
+  exportWithPayment: boolean
+  paymentTerms?: number
+  notes?: string
+  lineItems: LineItemInput[]
+}
+
+/**
+ * Result of reading an import file
+ */
+export interface InvoiceImportParseResult {
+  invoices: ImportedInvoiceDraft[]
+  errors: ImportRowError[]
+}
+
+// Invoice-level columns that must agree on every row of an invoice
+const INVOICE_LEVEL_COLUMNS = [
+  'invoice_date',
+  'due_date',
+  'client_email',
+  'client_name',
+  'invoice_type',
+  'currency',
+  'exchange_rate',
+  'export_with_payment',
+] as const
+
+/**
+ * Read invoices from spreadsheet records
+ *
+ * Invoices with any row error are left out of the result so they are
+ * never imported half-complete.
+ *
+ * @param records - Data rows keyed by normalized header
+ * @returns Invoices that could be read, and errors per row
+ */
+export function parseInvoiceImport(records: SpreadsheetRecord[]): InvoiceImportParseResult {
+  const errors: ImportRowError[] = []
+
+  const missingColumns = INVOICE_IMPORT_COLUMNS
+    .filter((column) => column.required && records.length > 0 && !(column.key in records[0].values))
+    .map((column) => column.label)
+  if (missingColumns.length > 0) {
+    return {
+      invoices: [],
+      errors: [{ rowNumber: 1, message: `Missing columns: ${missingColumns.join(', ')}` }],
+    }
+  }
+
+  const byInvoiceNumber = new Map<string, SpreadsheetRecord[]>()
+  for (const record of records) {
+    const invoiceNumber = record.values.invoice_number?.trim()
+    if (!invoiceNumber) {
+      errors.push({ rowNumber: record.rowNumber, message: 'Invoice number is required' })
+      continue
+    }
+    byInvoiceNumber.set(invoiceNumber, [...(byInvoiceNumber.get(invoiceNumber) ?? []), record])
+  }
+
+  const invoices: ImportedInvoiceDraft[] = []
+  for (const [invoiceNumber, rows] of byInvoiceNumber) {
+    const rowErrors: ImportRowError[] = []
+    const addError = (rowNumber: number, message: string) => rowErrors.push({ rowNumber, invoiceNumber, message })
+    const [first] = rows
+
+    for (const row of rows.slice(1)) {
+      for (const column of INVOICE_LEVEL_COLUMNS) {
+        const value = row.values[column] ?? ''
+        if (value !== '' && value !== (first.values[column] ?? '')) {
+          addError(row.rowNumber, `${columnLabel(column)} differs from row ${first.rowNumber} of the same invoice`)
+        }
+      }
+    }
+
+    const issueDate = parseImportDate(first.values.invoice_date)
+    if (!issueDate) {
+      addError(first.rowNumber, 'Invoice date must be a date like 2024-04-15 or 15/04/2024')
+    }
+
+    const dueDate = parseImportDate(first.values.due_date)
+    if (first.values.due_date && !dueDate) {
+      addError(first.rowNumber, 'Due date must be a date like 2024-04-15 or 15/04/2024')
+    }
+
+    if (!first.values.client_email && !first.values.client_name) {
+      addError(first.rowNumber, 'Client email or name is required')
+    }
+
+    const invoiceType = first.values.invoice_type?.toUpperCase()
+    if (invoiceType && invoiceType !== 'EXPORT' && invoiceType !== 'DOMESTIC') {
+      addError(first.rowNumber, 'Invoice type must be EXPORT or DOMESTIC')
+    }
+
+    const exchangeRate = parseImportNumber(first.values.exchange_rate)
+    if (first.values.exchange_rate && !(exchangeRate && exchangeRate > 0)) {
+      addError(first.rowNumber, 'Exchange rate must be a positive number')
+    }
+
+    const paymentTerms = parseImportNumber(first.values.payment_terms)
+    if (first.values.payment_terms && (paymentTerms === undefined || paymentTerms < 0)) {
+      addError(first.rowNumber, 'Payment terms must be a number of days')
+    }
+
+    const lineItems: LineItemInput[] = []
+    for (const row of rows) {
+      const result = lineItemSchema.safeParse({
+        description: row.values.description,
+        sacCode: row.values.sac_code,
+        quantity: parseImportNumber(row.values.quantity),
+        rate: parseImportNumber(row.values.rate),
+        discountType: row.values.discount_type ? row.values.discount_type.toUpperCase() : undefined,
+        discountValue: parseImportNumber(row.values.discount_value),
+        gstRate: parseImportNumber(row.values.gst_rate),
+      })
+
+      if (result.success) {
+        lineItems.push(result.data)
+      } else {
+        for (const issue of result.error.issues) {
+          const field = String(issue.path[0] ?? '')
+          addError(row.rowNumber, field ? `${LINE_ITEM_FIELD_LABELS[field] ?? field}: ${issue.message}` : issue.message)
+        }
+      }
+    }
+
+    if (rowErrors.length > 0 || !issueDate) {
+      errors.push(...rowErrors)
+      continue
+    }
+
+    invoices.push({
+      invoiceNumber,
+      rowNumbers: rows.map((row) => row.rowNumber),
+      clientEmail: first.values.client_email ?? '',
+      clientName: first.values.client_name ?? '',
+      invoiceType: invoiceType ? (invoiceType as 'EXPORT' | 'DOMESTIC') : undefined,
+      issueDate,
+      dueDate,
+      currency: first.values.currency ? first.values.currency.toUpperCase() : undefined,
+      exchangeRate,
+      exportWithPayment: parseImportBoolean(first.values.export_with_payment),
+      paymentTerms,
+      notes: first.values.notes || undefined,
+      lineItems,
+    })
+  }
+
+  return {
+    invoices,
+    errors: errors.sort((a, b) => a.rowNumber - b.rowNumber),
+  }
+}
+
+/**
+ * Find the client an imported invoice belongs to, by email first and then by name
+ *
+ * @param clients - The user's clients
+ * @param invoice - Client email and name from the file
+ * @returns The matching client, or an error message
+ */
+export function matchImportClient<T extends Pick<Client, 'id' | 'name' | 'email'>>(
+  clients: T[],
+  invoice: { clientEmail: string; clientName: string }
+): { client: T } | { error: string } {
+  const email = invoice.clientEmail.trim().toLowerCase()
+  const name = invoice.clientName.trim().toLowerCase()
+
+  const candidates = email
+    ? clients.filter((client) => client.email.toLowerCase() === email)
+    : clients.filter((client) => client.name.toLowerCase() === name)
+
+  if (candidates.length === 1) {
+    return { client: candidates[0] }
+  }
+  if (candidates.length > 1) {
+    return { error: `More than one client matches ${email || invoice.clientName}; use the client's email instead` }
+  }
+  return { error: `No client found for ${email || invoice.clientName}. Add the client before importing` }
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+/**
+ * Read a date written as YYYY-MM-DD, DD/MM/YYYY, DD-MM-YY, 15-Apr-2024
+ * or an Excel serial number. Day-first, as used by Indian banks and
+ * spreadsheets.
+ */
+export function parseImportDate(value: string | undefined): Date | undefined {
+  const text = value?.trim()
+  if (!text) return undefined
+
+  let year: number, month: number, day: number
+  const isoMatch = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(text)
+  const numericMatch = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/.exec(text)
+  const namedMatch = /^(\d{1,2})[ -]([a-z]{3})[a-z]*[\s,-]+(\d{4}|\d{2})$/i.exec(text)
+
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])]
+  } else if (numericMatch) {
+    [day, month, year] = [Number(numericMatch[1]), Number(numericMatch[2]), Number(numericMatch[3])]
+  } else if (namedMatch) {
+    [day, month, year] = [
+      Number(namedMatch[1]),
+      MONTH_NAMES.indexOf(namedMatch[2].toLowerCase()) + 1,
+      Number(namedMatch[3]),
+    ]
+  } else if (/^\d{5}$/.test(text)) {
+    // Days since 30 Dec 1899, as stored in XLSX date cells
+    const date = new Date(1899, 11, 30 + Number(text))
+    ;[year, month, day] = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+  } else {
+    return undefined
+  }
+
+  if (year < 100) year += 2000
+
+  const date = new Date(year, month - 1, day)
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return undefined
+  }
+  return date
+}
+
+/**
+ * Read a number, ignoring thousands separators
+ */
+function parseImportNumber(value: string | undefined): number | undefined {
+  const text = value?.trim().replace(/,/g, '')
+  if (!text) return undefined
+  const number = Number(text)
+  return Number.isFinite(number) ? number : undefined
+}
+
+function parseImportBoolean(value: string | undefined): boolean {
+  return ['yes', 'y', 'true', '1'].includes(value?.trim().toLowerCase() ?? '')
+}
+
+function columnLabel(key: string): string {
+  return INVOICE_IMPORT_COLUMNS.find((column) => column.key === key)?.label ?? key
+}
+
+const LINE_ITEM_FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  sacCode: 'SAC Code',
+  quantity: 'Quantity',
+  rate: 'Rate',
+  discountType: 'Discount Type',
+  discountValue: 'Discount Value',
+  gstRate: 'GST Rate',
+}
@@ -121,4 +121,145 @@ export function getNextPaymentVoucherSequence(voucherNumbers: string[]): number
   }
 
   return Math.max(...sequences) + 1
-}
\ No newline at end of file
+}
+
+// ============================================================================
+// Receipt Voucher Number Generation (RV/YYYY-YY/XXXX format)
+// ============================================================================
+
+/**
+ * Generate receipt voucher number in format RV/{YYYY-YY}/{NUMBER}
+ * @param fiscalYear - Format: 2025-26
+ * @param sequenceNumber - The sequence number (1, 2, 3, etc.)
+ * @returns Receipt voucher number like RV/2025-26/0001
+ */
+export function generateReceiptVoucherNumber(fiscalYear: string, sequenceNumber: number): string {
+  const paddedNumber = sequenceNumber.toString().padStart(4, '0')
+  return `RV/${fiscalYear}/${paddedNumber}`
+}
+
+/**
+ * Extract sequence number from receipt voucher number
+ * @param voucherNumber - Format: RV/2025-26/0001
+ * @returns The sequence number or null if invalid format
+ */
+export function extractReceiptVoucherSequence(voucherNumber: string): number | null {
+  const match = voucherNumber.match(/^RV\/\d{4}-\d{2}\/(\d+)$/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Get next receipt voucher sequence from existing voucher numbers
+ * @param voucherNumbers - Array of existing receipt voucher numbers
+ * @returns The next sequence number
+ */
+export function getNextReceiptVoucherSequence(voucherNumbers: string[]): number {
+  const sequences = voucherNumbers
+    .map(num => extractReceiptVoucherSequence(num))
+    .filter((seq): seq is number => seq !== null)
+
+  if (sequences.length === 0) {
+    return 1
+  }
+
+  return Math.max(...sequences) + 1
+}
+
+// ============================================================================
+// Credit/Debit Note Number Generation (CN/YYYY-YY/XXXX and DN/YYYY-YY/XXXX format)
+// ============================================================================
+
+export type CreditDebitNotePrefix = 'CN' | 'DN'
+
+/**
+ * Generate credit/debit note number in format {CN|DN}/{YYYY-YY}/{NUMBER}
+ * @param prefix - CN for credit notes, DN for debit notes
+ * @param fiscalYear - Format: 2025-26
+ * @param sequenceNumber - The sequence number (1, 2, 3, etc.)
+ * @returns Note number like CN/2025-26/0001
+ */
+export function generateCreditDebitNoteNumber(
+  prefix: CreditDebitNotePrefix,
+  fiscalYear: string,
+  sequenceNumber: number
+): string {
+  const paddedNumber = sequenceNumber.toString().padStart(4, '0')
+  return `${prefix}/${fiscalYear}/${paddedNumber}`
+}
+
+/**
+ * Extract sequence number from credit/debit note number
+ * @param noteNumber - Format: CN/2025-26/0001 or DN/2025-26/0001
+ * @returns The sequence number or null if invalid format
+ */
+export function extractCreditDebitNoteSequence(noteNumber: string): number | null {
+  const match = noteNumber.match(/^(?:CN|DN)\/\d{4}-\d{2}\/(\d+)$/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Get next credit/debit note sequence from existing note numbers of one series
+ * @param noteNumbers - Array of existing note numbers with the same prefix
+ * @returns The next sequence number
+ */
+export function getNextCreditDebitNoteSequence(noteNumbers: string[]): number {
+  if (noteNumbers.length === 0) {
+    return 1
+  }
+
+  const sequences = noteNumbers
+    .map(num => extractCreditDebitNoteSequence(num))
+    .filter((seq): seq is number => seq !== null)
+
+  if (sequences.length === 0) {
+    return 1
+  }
+
+  return Math.max(...sequences) + 1
+}
+
+// ============================================================================
+// Estimate Number Generation (EST/YYYY-YY/XXXX format)
+// ============================================================================
+
+/**
+ * Generate estimate number in format EST/{YYYY-YY}/{NUMBER}
+ * @param fiscalYear - Format: 2025-26
+ * @param sequenceNumber - The sequence number (1, 2, 3, etc.)
+ * @returns Estimate number like EST/2025-26/0001
+ */
+export function generateEstimateNumber(fiscalYear: string, sequenceNumber: number): string {
+  const paddedNumber = sequenceNumber.toString().padStart(4, '0')
+  return `EST/${fiscalYear}/${paddedNumber}`
+}
+
+/**
+ * Extract sequence number from estimate number
+ * @param estimateNumber - Format: EST/2025-26/0001
+ * @returns The sequence number or null if invalid format
+ */
+export function extractEstimateSequence(estimateNumber: string): number | null {
+  const match = estimateNumber.match(/^EST\/\d{4}-\d{2}\/(\d+)$/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Get next estimate sequence from existing estimate numbers
+ * @param estimateNumbers - Array of existing estimate numbers
+ * @returns The next sequence number
+ */
+export function getNextEstimateSequence(estimateNumbers: string[]): number {
+  if (estimateNumbers.length === 0) {
+    return 1
+  }
+
+  const sequences = estimateNumbers
+    .map(num => extractEstimateSequence(num))
+    .filter((seq): seq is number => seq !== null)
+
+  if (sequences.length === 0) {
+    return 1
+  }
+
+  return Math.max(...sequences) + 1
+}
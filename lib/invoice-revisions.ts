@@ -0,0 +1,212 @@
+import type { DiscountType, Invoice, InvoiceItem } from '@prisma/client'
+
+/**
+ * Line item as stored in an invoice revision
+ */
+export interface LineItemSnapshot {
+  description: string
+  serviceCode: string
+  quantity: number
+  rate: number
+  amount: number
+  discountType: DiscountType | null
+  discountValue: number
+  discountAmount: number
+  gstRate: number
+}
+
+/**
+ * Invoice fields and line items as stored in an invoice revision.
+ * Dates are ISO strings and amounts plain numbers so the snapshot
+ * survives the JSON column unchanged.
+ */
+export interface InvoiceSnapshot {
+  invoiceNumber: string
+  invoiceDate: string
+  dueDate: string
+  status: string
+  clientId: string | null
+  clientName: string | null
+  currency: string
+  exchangeRate: number
+  exchangeSource: string
+  lutId: string | null
+  exportWithPayment: boolean
+  placeOfSupply: string
+  subtotal: number
+  igstRate: number
+  igstAmount: number
+  cgstRate: number
+  cgstAmount: number
+  sgstRate: number
+  sgstAmount: number
+  totalAmount: number
+  totalInINR: number
+  paymentTerms: string | null
+  bankDetails: string | null
+  notes: string | null
+  cancellationReason: string | null
+  lineItems: LineItemSnapshot[]
+}
+
+type SnapshotValue = string | number | boolean | null
+
+/**
+ * A single field that differs between two versions
+ */
+export interface SnapshotChange {
+  /** Path of the field, e.g. exchangeRate or lineItems.0.quantity */
+  field: string
+  label: string
+  from: SnapshotValue
+  to: SnapshotValue
+}
+
+const FIELD_LABELS: Record<Exclude<keyof InvoiceSnapshot, 'lineItems'>, string> = {
+  invoiceNumber: 'Invoice number',
+  invoiceDate: 'Invoice date',
+  dueDate: 'Due date',
+  status: 'Status',
+  clientId: 'Client ID',
+  clientName: 'Client',
+  currency: 'Currency',
+  exchangeRate: 'Exchange rate',
+  exchangeSource: 'Exchange rate source',
+  lutId: 'LUT',
+  exportWithPayment: 'Export with payment of IGST',
+  placeOfSupply: 'Place of supply',
+  subtotal: 'Subtotal',
+  igstRate: 'IGST rate',
+  igstAmount: 'IGST amount',
+  cgstRate: 'CGST rate',
+  cgstAmount: 'CGST amount',
+  sgstRate: 'SGST rate',
+  sgstAmount: 'SGST amount',
+  totalAmount: 'Total amount',
+  totalInINR: 'Total in INR',
+  paymentTerms: 'Payment terms',
+  bankDetails: 'Bank details',
+  notes: 'Notes',
+  cancellationReason: 'Cancellation reason',
+}
+
+const LINE_ITEM_LABELS: Record<keyof LineItemSnapshot, string> = {
+  description: 'description',
+  serviceCode: 'SAC code',
+  quantity: 'quantity',
+  rate: 'rate',
+  amount: 'amount',
+  discountType: 'discount type',
+  discountValue: 'discount value',
+  discountAmount: 'discount',
+  gstRate: 'GST rate',
+}
+
+// Client ID changes are shown through the client name
+const HIDDEN_FIELDS: Array<keyof InvoiceSnapshot> = ['clientId']
+
+/**
+ * Build the snapshot stored for an invoice version
+ */
+export function toInvoiceSnapshot(
+  invoice: Invoice & { lineItems: InvoiceItem[]; client?: { name: string } | null }
+): InvoiceSnapshot {
+  return {
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: new Date(invoice.invoiceDate).toISOString(),
+    dueDate: new Date(invoice.dueDate).toISOString(),
+    status: invoice.status,
+    clientId: invoice.clientId,
+    clientName: invoice.client?.name ?? null,
+    currency: invoice.currency,
+    exchangeRate: Number(invoice.exchangeRate),
+    exchangeSource: invoice.exchangeSource,
+    lutId: invoice.lutId,
+    exportWithPayment: invoice.exportWithPayment,
+    placeOfSupply: invoice.placeOfSupply,
+    subtotal: Number(invoice.subtotal),
+    igstRate: Number(invoice.igstRate),
+    igstAmount: Number(invoice.igstAmount),
+    cgstRate: Number(invoice.cgstRate),
+    cgstAmount: Number(invoice.cgstAmount),
+    sgstRate: Number(invoice.sgstRate),
+    sgstAmount: Number(invoice.sgstAmount),
+    totalAmount: Number(invoice.totalAmount),
+    totalInINR: Number(invoice.totalInINR),
+    paymentTerms: invoice.paymentTerms,
+    bankDetails: invoice.bankDetails,
+    notes: invoice.notes,
+    cancellationReason: invoice.cancellationReason,
+    lineItems: invoice.lineItems.map((item) => ({
+      description: item.description,
+      serviceCode: item.serviceCode,
+      quantity: Number(item.quantity),
+      rate: Number(item.rate),
+      amount: Number(item.amount),
+      discountType: item.discountType,
+      discountValue: Number(item.discountValue),
+      discountAmount: Number(item.discountAmount),
+      gstRate: Number(item.gstRate),
+    })),
+  }
+}
+
+/**
+ * List the fields that differ between two versions of an invoice.
+ * Line items are compared by position.
+ *
+ * @param before - Earlier version
+ * @param after - Later version
+ * @returns Changed fields, header fields first
+ */
+export function diffInvoiceSnapshots(before: InvoiceSnapshot, after: InvoiceSnapshot): SnapshotChange[] {
+  const changes: SnapshotChange[] = []
+
+  for (const field of Object.keys(FIELD_LABELS) as Array<keyof typeof FIELD_LABELS>) {
+    if (HIDDEN_FIELDS.includes(field)) continue
+    const from = before[field] ?? null
+    const to = after[field] ?? null
+    if (from !== to) {
+      changes.push({ field, label: FIELD_LABELS[field], from, to })
+    }
+  }
+
+  const lineCount = Math.max(before.lineItems.length, after.lineItems.length)
+  for (let index = 0; index < lineCount; index++) {
+    const beforeItem = before.lineItems[index]
+    const afterItem = after.lineItems[index]
+    const lineLabel = `Line ${index + 1}`
+
+    if (!beforeItem || !afterItem) {
+      changes.push({
+        field: `lineItems.${index}`,
+        label: beforeItem ? `${lineLabel} removed` : `${lineLabel} added`,
+        from: beforeItem ? describeLineItem(beforeItem) : null,
+        to: afterItem ? describeLineItem(afterItem) : null,
+      })
+      continue
+    }
+
+    for (const field of Object.keys(LINE_ITEM_LABELS) as Array<keyof LineItemSnapshot>) {
+      const from = beforeItem[field] ?? null
+      const to = afterItem[field] ?? null
+      if (from !== to) {
+        changes.push({
+          field: `lineItems.${index}.${field}`,
+          label: `${lineLabel} ${LINE_ITEM_LABELS[field]}`,
+          from,
+          to,
+        })
+      }
+    }
+  }
+
+  return changes
+}
+
+/**
+ * One-line summary of a line item, e.g. "Consulting (10 x 150)"
+ */
+function describeLineItem(item: LineItemSnapshot): string {
+  return `${item.description} (${item.quantity} x ${item.rate})`
+}
@@ -1,3 +1,4 @@
+import type { DiscountType } from '@prisma/client'
 import { SAC_HSN_CODES } from '@/lib/constants'
 
 /**
@@ -88,10 +89,35 @@ export function calculateLineAmount(quantity: number, rate: number): number {
 }
 
 /**
- * Calculate invoice subtotal from line items
+ * Calculate the discount on a line amount, capped at the amount itself
  */
-export function calculateSubtotal(lineItems: Array<{ quantity: number; rate: number }>): number {
-  return lineItems.reduce((sum, item) => sum + calculateLineAmount(item.quantity, item.rate), 0)
+export function calculateLineDiscount(
+  amount: number,
+  discountType?: DiscountType | null,
+  discountValue?: number | null
+): number {
+  if (!discountType || !discountValue || discountValue <= 0) return 0
+
+  const discount = discountType === 'PERCENT'
+    ? amount * (Math.min(discountValue, 100) / 100)
+    : Math.min(discountValue, amount)
+
+  return Math.round(discount * 100) / 100
+}
+
+/**
+ * Calculate invoice subtotal (taxable value) from line items, net of line discounts
+ */
+export function calculateSubtotal(lineItems: Array<{
+  quantity: number
+  rate: number
+  discountType?: DiscountType | null
+  discountValue?: number | null
+}>): number {
+  return lineItems.reduce((sum, item) => {
+    const amount = calculateLineAmount(item.quantity, item.rate)
+    return sum + amount - calculateLineDiscount(amount, item.discountType, item.discountValue)
+  }, 0)
 }
 
 /**
@@ -162,6 +188,11 @@ export function getSupportedCurrencies() {
 export function getCurrencyFromCountry(country: string): string {
   const normalized = country.toLowerCase().trim()
 
+  // India (domestic clients)
+  if (normalized === 'india' || normalized === 'in' || normalized === 'ind') {
+    return 'INR'
+  }
+
   // United States
   if (normalized.includes('united states') || normalized.includes('usa') || normalized === 'us') {
     return 'USD'
@@ -0,0 +1,138 @@
+import type { DiscountType } from '@prisma/client'
+import { calculateLineAmount, calculateLineDiscount } from '@/lib/invoice-utils'
+
+/**
+ * A line item as entered on the invoice form
+ */
+export interface LineItemTaxInput {
+  quantity: number
+  rate: number
+  discountType?: DiscountType | null
+  discountValue?: number | null
+  /** Line GST rate; falls back to the invoice rate when not set */
+  gstRate?: number | null
+}
+
+/**
+ * Discount and tax worked out for a single line
+ */
+export interface LineItemTax {
+  /** quantity x rate, before discount */
+  amount: number
+  discountAmount: number
+  /** amount - discountAmount */
+  taxableValue: number
+  gstRate: number
+  igstAmount: number
+  cgstAmount: number
+  sgstAmount: number
+  totalTax: number
+}
+
+/**
+ * Line values rolled up into invoice header totals
+ */
+export interface LineItemTaxSummary {
+  lines: LineItemTax[]
+  /** Sum of line taxable values (invoice subtotal) */
+  subtotal: number
+  discountAmount: number
+  /** Header rates: the common line rate, or the highest rate when lines differ */
+  igstRate: number
+  igstAmount: number
+  cgstRate: number
+  cgstAmount: number
+  sgstRate: number
+  sgstAmount: number
+  totalTax: number
+}
+
+/**
+ * How tax applies to the lines of an invoice
+ */
+export interface LineItemTaxOptions {
+  /** Rate for lines without their own rate */
+  gstRate: number
+  /** IGST when true, CGST + SGST (half rate each) when false */
+  isInterstate: boolean
+  /** Apply gstRate to every line, ignoring line rates (exports are LUT 0% or IGST 18%) */
+  forceGstRate?: boolean
+}
+
+/**
+ * Calculate discount and GST per line and roll them up into header totals.
+ * Tax is rounded per line, so the header tax is the sum of the line taxes.
+ *
+ * @param items - Line items with optional discount and GST rate
+ * @param options - Default rate and IGST vs CGST/SGST split
+ * @returns Per-line values and header totals
+ */
+export function calculateLineItemTaxes(
+  items: LineItemTaxInput[],
+  options: LineItemTaxOptions
+): LineItemTaxSummary {
+  const lines = items.map((item): LineItemTax => {
+    const amount = roundTo2Decimals(calculateLineAmount(item.quantity, item.rate))
+    const discountAmount = calculateLineDiscount(amount, item.discountType, item.discountValue)
+    const taxableValue = roundTo2Decimals(amount - discountAmount)
+    const gstRate = options.forceGstRate ? options.gstRate : (item.gstRate ?? options.gstRate)
+
+    const igstAmount = options.isInterstate ? roundTo2Decimals(taxableValue * (gstRate / 100)) : 0
+    const cgstAmount = options.isInterstate ? 0 : roundTo2Decimals(taxableValue * (gstRate / 2 / 100))
+    const sgstAmount = cgstAmount
+
+    return {
+      amount,
+      discountAmount,
+      taxableValue,
+      gstRate,
+      igstAmount,
+      cgstAmount,
+      sgstAmount,
+      totalTax: roundTo2Decimals(igstAmount + cgstAmount + sgstAmount),
+    }
+  })
+
+  const sum = (pick: (line: LineItemTax) => number) =>
+    roundTo2Decimals(lines.reduce((total, line) => total + pick(line), 0))
+
+  const headerRate = getHeaderGstRate(lines.map((line) => line.gstRate)) ?? options.gstRate
+
+  return {
+    lines,
+    subtotal: sum((line) => line.taxableValue),
+    discountAmount: sum((line) => line.discountAmount),
+    igstRate: options.isInterstate ? headerRate : 0,
+    igstAmount: sum((line) => line.igstAmount),
+    cgstRate: options.isInterstate ? 0 : headerRate / 2,
+    cgstAmount: sum((line) => line.cgstAmount),
+    sgstRate: options.isInterstate ? 0 : headerRate / 2,
+    sgstAmount: sum((line) => line.sgstAmount),
+    totalTax: sum((line) => line.totalTax),
+  }
+}
+
+/**
+ * Rate to show on the invoice header: the common rate when all lines
+ * share one, otherwise the highest line rate
+ *
+ * @returns null when there are no lines
+ */
+export function getHeaderGstRate(lineRates: number[]): number | null {
+  if (lineRates.length === 0) return null
+  return Math.max(...lineRates)
+}
+
+/**
+ * Check whether the lines of an invoice carry different GST rates
+ */
+export function hasMixedGstRates(lineRates: number[]): boolean {
+  return new Set(lineRates).size > 1
+}
+
+/**
+ * Round to 2 decimal places
+ */
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
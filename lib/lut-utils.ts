@@ -22,6 +22,14 @@ export function isLUTValid(lut: LUT, invoiceDate: Date): boolean {
     return false
   }
 
+  return lutCoversDate(lut, invoiceDate)
+}
+
+/**
+ * Check if an invoice date falls within the LUT's validity period,
+ * whether or not the LUT has since been renewed
+ */
+export function lutCoversDate(lut: Pick<LUT, 'validFrom' | 'validTill'>, invoiceDate: Date): boolean {
   const invoiceTime = invoiceDate.getTime()
   const validFromTime = lut.validFrom.getTime()
   const validTillTime = lut.validTill.getTime()
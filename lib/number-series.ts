@@ -0,0 +1,219 @@
+import type { InvoiceType, SeriesResetRule } from '@prisma/client'
+
+/**
+ * Format of an invoice numbering series
+ */
+export interface NumberSeriesFormat {
+  /** Text before the sequence number; may contain {FY} or {FYYYY} */
+  prefix: string
+  /** Text after the sequence number; may contain {FY} or {FYYYY} */
+  suffix: string
+  /** Minimum digits in the sequence number (zero padded) */
+  padding: number
+  resetRule: SeriesResetRule
+}
+
+/**
+ * Series used when the user has not configured one: FY24-25/001
+ */
+export const DEFAULT_NUMBER_SERIES: NumberSeriesFormat = {
+  prefix: 'FY{FY}/',
+  suffix: '',
+  padding: 3,
+  resetRule: 'FISCAL_YEAR',
+}
+
+/**
+ * Invoice numbers are limited to 16 characters (Rule 46(b) CGST Rules)
+ */
+export const MAX_INVOICE_NUMBER_LENGTH = 16
+
+/**
+ * Prefixes used by self-invoices, which share the invoice number space
+ */
+const RESERVED_PREFIXES = ['SI/']
+
+const FY_TOKEN_PATTERN = /\{FY\}|\{FYYYY\}/g
+
+/**
+ * Check whether a series format includes the fiscal year
+ */
+export function hasFiscalYearToken(format: Pick<NumberSeriesFormat, 'prefix' | 'suffix'>): boolean {
+  return /\{FY\}|\{FYYYY\}/.test(format.prefix + format.suffix)
+}
+
+/**
+ * Replace {FY} (24-25) and {FYYYY} (2024-25) in a template
+ * @param template - Prefix or suffix of a series
+ * @param fiscalYear - Format: 2024-25
+ */
+export function renderSeriesTemplate(template: string, fiscalYear: string): string {
+  const [startYear, endYear] = fiscalYear.split('-')
+  return template
+    .replace(/\{FYYYY\}/g, fiscalYear)
+    .replace(/\{FY\}/g, `${startYear.slice(-2)}-${endYear}`)
+}
+
+/**
+ * Generate an invoice number from a series
+ * @param format - Series format
+ * @param fiscalYear - Format: 2024-25
+ * @param sequenceNumber - The sequence number (1, 2, 3, etc.)
+ * @returns Invoice number like FY24-25/001
+ */
+export function formatSeriesNumber(format: NumberSeriesFormat, fiscalYear: string, sequenceNumber: number): string {
+  const paddedNumber = sequenceNumber.toString().padStart(format.padding, '0')
+  return `${renderSeriesTemplate(format.prefix, fiscalYear)}${paddedNumber}${renderSeriesTemplate(format.suffix, fiscalYear)}`
+}
+
+/**
+ * Escape a template for use in a regular expression. Series that reset
+ * every fiscal year only match numbers of that year; others match any year.
+ */
+function toPatternSource(template: string, format: NumberSeriesFormat, fiscalYear: string): string {
+  if (format.resetRule === 'FISCAL_YEAR') {
+    return escapeRegExp(renderSeriesTemplate(template, fiscalYear))
+  }
+
+  return template
+    .split(FY_TOKEN_PATTERN)
+    .map(escapeRegExp)
+    .join('(?:\\d{4}-\\d{2}|\\d{2}-\\d{2})')
+}
+
+/**
+ * Extract the sequence number of an invoice number belonging to a series
+ * @returns The sequence number or null if the number is not from this series (or year)
+ */
+export function extractSeriesSequence(
+  format: NumberSeriesFormat,
+  fiscalYear: string,
+  invoiceNumber: string
+): number | null {
+  const pattern = new RegExp(
+    `^${toPatternSource(format.prefix, format, fiscalYear)}(\\d+)${toPatternSource(format.suffix, format, fiscalYear)}$`
+  )
+  const match = invoiceNumber.match(pattern)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * Get the next sequence of a series from existing invoice numbers
+ * @param format - Series format
+ * @param fiscalYear - Fiscal year of the new invoice
+ * @param invoiceNumbers - Existing invoice numbers (others are ignored)
+ * @returns The next sequence number
+ */
+export function getNextSeriesSequence(
+  format: NumberSeriesFormat,
+  fiscalYear: string,
+  invoiceNumbers: string[]
+): number {
+  const sequences = invoiceNumbers
+    .map((num) => extractSeriesSequence(format, fiscalYear, num))
+    .filter((seq): seq is number => seq !== null)
+
+  return sequences.length > 0 ? Math.max(...sequences) + 1 : 1
+}
+
+/**
+ * Fixed leading text of a series, for narrowing database lookups
+ */
+export function getSeriesSearchPrefix(format: NumberSeriesFormat, fiscalYear: string): string {
+  if (format.resetRule === 'FISCAL_YEAR') {
+    return renderSeriesTemplate(format.prefix, fiscalYear)
+  }
+  return format.prefix.split(FY_TOKEN_PATTERN)[0]
+}
+
+/**
+ * Pick the series for an invoice: client and type specific first, then
+ * client specific, then type specific, then the user's general series
+ *
+ * @returns The matching active series or null to use the built-in default
+ */
+export function selectNumberSeries<T extends { clientId: string | null; invoiceType: InvoiceType | null; isActive: boolean }>(
+  series: T[],
+  invoice: { clientId: string | null; invoiceType: InvoiceType }
+): T | null {
+  const candidates = series.filter((s) =>
+    s.isActive &&
+    (s.clientId === null || s.clientId === invoice.clientId) &&
+    (s.invoiceType === null || s.invoiceType === invoice.invoiceType)
+  )
+
+  const specificity = (s: T) => (s.clientId ? 2 : 0) + (s.invoiceType ? 1 : 0)
+  return candidates.sort((a, b) => specificity(b) - specificity(a))[0] ?? null
+}
+
+/**
+ * Check a series format before saving it
+ * @returns An error message or null when the format is valid
+ */
+export function validateSeriesFormat(format: NumberSeriesFormat): string | null {
+  const literal = (format.prefix + format.suffix).replace(FY_TOKEN_PATTERN, '')
+  if (/[^A-Za-z0-9/-]/.test(literal)) {
+    return 'Prefix and suffix may only contain letters, digits, "/" and "-"'
+  }
+
+  if (RESERVED_PREFIXES.some((reserved) => format.prefix.toUpperCase().startsWith(reserved))) {
+    return `Prefixes starting with ${RESERVED_PREFIXES.join(', ')} are reserved for self-invoices`
+  }
+
+  if (/\d$/.test(renderSeriesTemplate(format.prefix, '2024-25')) || /^\d/.test(renderSeriesTemplate(format.suffix, '2024-25'))) {
+    return 'Separate the sequence number from the prefix and suffix with a letter, "/" or "-"'
+  }
+
+  if (format.resetRule === 'FISCAL_YEAR' && !hasFiscalYearToken(format)) {
+    return 'Series that restart every fiscal year must include {FY} or {FYYYY}'
+  }
+
+  const longestNumber = formatSeriesNumber(format, '2024-25', Math.pow(10, format.padding) - 1)
+  if (longestNumber.length > MAX_INVOICE_NUMBER_LENGTH) {
+    return `Invoice numbers cannot exceed ${MAX_INVOICE_NUMBER_LENGTH} characters (e.g. ${longestNumber})`
+  }
+
+  return null
+}
+
+/**
+ * Gaps in a series: numbers between 1 and the highest issued number
+ * that were never used, as required to explain breaks to a GST officer
+ */
+export interface SeriesGapReport {
+  first: number | null
+  last: number | null
+  issued: number
+  missing: number[]
+}
+
+/**
+ * Find missing sequence numbers in a series
+ * @param sequences - Sequence numbers issued in the series (any order)
+ */
+export function findSequenceGaps(sequences: number[]): SeriesGapReport {
+  if (sequences.length === 0) {
+    return { first: null, last: null, issued: 0, missing: [] }
+  }
+
+  const issued = new Set(sequences)
+  const last = Math.max(...sequences)
+  const missing: number[] = []
+  for (let seq = 1; seq < last; seq++) {
+    if (!issued.has(seq)) missing.push(seq)
+  }
+
+  return {
+    first: Math.min(...sequences),
+    last,
+    issued: issued.size,
+    missing,
+  }
+}
+
+/**
+ * Escape special characters for a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
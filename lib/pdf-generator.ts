@@ -2,9 +2,13 @@ import { getGotenbergClient } from './gotenberg-client'
 
 // Re-export for backward compatibility
 export { uploadPDF } from './pdf-uploader'
-import type { Invoice, InvoiceItem, User, Client, LUT, Payment, UnregisteredSupplier } from '@prisma/client'
+import type { Invoice, InvoiceItem, User, Client, LUT, Payment, UnregisteredSupplier, CreditDebitNote, Estimate, EstimateItem, ClientCredit } from '@prisma/client'
 import { SAC_HSN_CODES } from './constants'
 import { numberToWordsIndian, numberToWordsInternational } from './utils/number-to-words'
+import { getExportDeclaration } from './export-gst-calculator'
+import { hasMixedGstRates } from './line-item-tax'
+import { AGEING_BUCKETS, type AgedReceivablesReport } from './aged-receivables'
+import type { GSTR3BComputation, GSTR3BTable } from './gst-filing/gstr3b-json'
 
 type InvoiceWithRelations = Invoice & {
   lineItems: InvoiceItem[]
@@ -67,9 +71,27 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
     }).format(amount)
   }
 
+  // Domestic invoices are raised in INR, so the INR equivalents would only repeat the amounts
+  const isINR = invoice.currency === 'INR'
+  const formatWithINR = (amount: number, currency: string, amountINR: number) => {
+    return isINR ? formatINR(amountINR) : `${formatCurrency(amount, currency)} / ${formatINR(amountINR)}`
+  }
+
   const subtotalINR = Number(invoice.subtotal) * Number(invoice.exchangeRate)
   const igstAmountINR = Number(invoice.igstAmount) * Number(invoice.exchangeRate)
+  const cgstAmountINR = Number(invoice.cgstAmount) * Number(invoice.exchangeRate)
+  const sgstAmountINR = Number(invoice.sgstAmount) * Number(invoice.exchangeRate)
   const totalAmountINR = Number(invoice.totalAmount) * Number(invoice.exchangeRate)
+  const isIntrastate = Number(invoice.cgstAmount) > 0 || Number(invoice.sgstAmount) > 0
+
+  // Line discounts and rates; header rates only make sense when every line shares one
+  const hasDiscounts = invoice.lineItems.some(item => Number(item.discountAmount) > 0)
+  const discountTotal = invoice.lineItems.reduce((sum, item) => sum + Number(item.discountAmount), 0)
+  const grossAmount = Number(invoice.subtotal) + discountTotal
+  const hasLineTax = invoice.lineItems.some(item => Number(item.gstRate) > 0)
+  const mixedRates = hasMixedGstRates(invoice.lineItems.map(item => Number(item.gstRate)))
+  const taxLabel = (tax: string, rate: unknown) => mixedRates ? `${tax} (as per line rates)` : `${tax} @ ${rate}%`
+  const isCancelled = invoice.status === 'CANCELLED'
 
   return `
     <!DOCTYPE html>
@@ -265,6 +287,27 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
           font-size: 10px;
           color: #666;
         }
+
+        .watermark {
+          position: fixed;
+          top: 40%;
+          left: 0;
+          width: 100%;
+          text-align: center;
+          font-size: 110px;
+          font-weight: bold;
+          color: rgba(204, 0, 0, 0.15);
+          transform: rotate(-30deg);
+          z-index: 1000;
+          pointer-events: none;
+        }
+
+        .cancellation-notice {
+          margin-bottom: 20px;
+          padding: 10px;
+          border: 1px solid #cc0000;
+          color: #cc0000;
+        }
         
         @media print {
           body {
@@ -275,7 +318,14 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
       </style>
     </head>
     <body>
+      ${isCancelled ? '<div class="watermark">CANCELLED</div>' : ''}
       <div class="invoice-container">
+        ${isCancelled ? `
+          <div class="cancellation-notice">
+            <strong>This invoice was cancelled${invoice.cancelledAt ? ` on ${new Date(invoice.cancelledAt).toLocaleDateString('en-IN')}` : ''}.</strong>
+            ${invoice.cancellationReason ? `<br>Reason: ${invoice.cancellationReason}` : ''}
+          </div>
+        ` : ''}
         <div class="header">
           <div class="company-details">
             <div class="company-name">${user.name || 'Freelancer'}</div>
@@ -299,6 +349,7 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
                 ${invoice.client.company ? `${invoice.client.company}<br>` : ''}
                 ${invoice.client.address.replace(/\n/g, '<br>')}<br>
                 ${invoice.client.country}<br>
+                ${invoice.client.gstin ? `GSTIN: ${invoice.client.gstin}<br>` : ''}
                 ${invoice.client.taxId ? `Tax ID: ${invoice.client.taxId}<br>` : ''}
                 Email: ${invoice.client.email}<br>
                 ${invoice.client.phone ? `Phone: ${invoice.client.phone}` : ''}
@@ -319,55 +370,85 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
           </div>
         </div>
 
-        ${invoice.lut ? `
+        ${invoice.lut || invoice.exportWithPayment ? `
           <div class="lut-declaration">
-            SUPPLY MEANT FOR EXPORT UNDER LUT NO ${invoice.lut.lutNumber} 
-            DATED ${new Date(invoice.lut.lutDate).toLocaleDateString('en-IN')} – TAX NOT PAYABLE
+            ${getExportDeclaration(invoice.exportWithPayment ? null : invoice.lut)}
           </div>
         ` : ''}
 
-        <div class="exchange-rate">
-          <strong>Exchange Rate:</strong> 1 ${invoice.currency} = ${formatINR(Number(invoice.exchangeRate))} 
-          (${invoice.exchangeSource} as on ${new Date(invoice.invoiceDate).toLocaleDateString('en-IN')})
-        </div>
+        ${!isINR ? `
+          <div class="exchange-rate">
+            <strong>Exchange Rate:</strong> 1 ${invoice.currency} = ${formatINR(Number(invoice.exchangeRate))} 
+            (${invoice.exchangeSource} as on ${new Date(invoice.invoiceDate).toLocaleDateString('en-IN')})
+          </div>
+        ` : ''}
 
         <table class="items-table">
           <thead>
             <tr>
               <th style="width: 50px;">S.No</th>
               <th>Description</th>
-              <th style="width: 80px;">Qty</th>
-              <th style="width: 120px;">Rate (${invoice.currency})</th>
-              <th style="width: 120px;">Amount (${invoice.currency})</th>
-              <th style="width: 120px;">Amount (INR)</th>
+              <th style="width: 80px;">HSN/SAC</th>
+              <th style="width: 60px;">Qty</th>
+              <th style="width: 110px;">Rate (${invoice.currency})</th>
+              ${hasDiscounts ? `<th style="width: 100px;">Discount (${invoice.currency})</th>` : ''}
+              <th style="width: 110px;">${hasDiscounts ? 'Taxable Value' : 'Amount'} (${invoice.currency})</th>
+              ${hasLineTax ? '<th style="width: 60px;">GST %</th>' : ''}
+              ${!isINR ? `<th style="width: 110px;">${hasDiscounts ? 'Taxable Value' : 'Amount'} (INR)</th>` : ''}
             </tr>
           </thead>
           <tbody>
-            ${invoice.lineItems.map((item, index) => `
+            ${invoice.lineItems.map((item, index) => {
+              const taxableValue = Number(item.amount) - Number(item.discountAmount)
+              return `
               <tr>
                 <td class="number">${index + 1}</td>
                 <td>${item.description}</td>
+                <td class="number">${item.serviceCode}</td>
                 <td class="number">${item.quantity}</td>
                 <td class="number">${formatCurrency(Number(item.rate), invoice.currency)}</td>
-                <td class="number">${formatCurrency(Number(item.amount), invoice.currency)}</td>
-                <td class="number">${formatINR(Number(item.amount) * Number(invoice.exchangeRate))}</td>
+                ${hasDiscounts ? `<td class="number">${Number(item.discountAmount) > 0 ? `-${formatCurrency(Number(item.discountAmount), invoice.currency)}` : '-'}</td>` : ''}
+                <td class="number">${formatCurrency(taxableValue, invoice.currency)}</td>
+                ${hasLineTax ? `<td class="number">${Number(item.gstRate)}%</td>` : ''}
+                ${!isINR ? `<td class="number">${formatINR(taxableValue * Number(invoice.exchangeRate))}</td>` : ''}
               </tr>
-            `).join('')}
+            `}).join('')}
           </tbody>
         </table>
 
         <div class="totals">
+          ${hasDiscounts ? `
+            <div class="total-row">
+              <span>Gross Amount:</span>
+              <span>${formatWithINR(grossAmount, invoice.currency, grossAmount * Number(invoice.exchangeRate))}</span>
+            </div>
+            <div class="total-row">
+              <span>Less Discount:</span>
+              <span>${formatWithINR(discountTotal, invoice.currency, discountTotal * Number(invoice.exchangeRate))}</span>
+            </div>
+          ` : ''}
           <div class="total-row">
-            <span>Subtotal:</span>
-            <span>${formatCurrency(Number(invoice.subtotal), invoice.currency)} / ${formatINR(subtotalINR)}</span>
-          </div>
-          <div class="total-row">
-            <span>IGST @ ${invoice.igstRate}%:</span>
-            <span>${formatCurrency(Number(invoice.igstAmount), invoice.currency)} / ${formatINR(igstAmountINR)}</span>
+            <span>${hasDiscounts ? 'Taxable Value' : 'Subtotal'}:</span>
+            <span>${formatWithINR(Number(invoice.subtotal), invoice.currency, subtotalINR)}</span>
           </div>
+          ${isIntrastate ? `
+            <div class="total-row">
+              <span>${taxLabel('CGST', invoice.cgstRate)}:</span>
+              <span>${formatWithINR(Number(invoice.cgstAmount), invoice.currency, cgstAmountINR)}</span>
+            </div>
+            <div class="total-row">
+              <span>${taxLabel('SGST', invoice.sgstRate)}:</span>
+              <span>${formatWithINR(Number(invoice.sgstAmount), invoice.currency, sgstAmountINR)}</span>
+            </div>
+          ` : `
+            <div class="total-row">
+              <span>${taxLabel('IGST', invoice.igstRate)}:</span>
+              <span>${formatWithINR(Number(invoice.igstAmount), invoice.currency, igstAmountINR)}</span>
+            </div>
+          `}
           <div class="total-row grand-total">
             <span>Total Amount:</span>
-            <span>${formatCurrency(Number(invoice.totalAmount), invoice.currency)} / ${formatINR(totalAmountINR)}</span>
+            <span>${formatWithINR(Number(invoice.totalAmount), invoice.currency, totalAmountINR)}</span>
           </div>
           
           ${invoice.payments && invoice.payments.length > 0 ? `
@@ -376,18 +457,20 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
               ${invoice.payments.map((payment, index) => `
                 <div class="total-row" style="font-size: 14px;">
                   <span>Payment ${index + 1} (${new Date(payment.paymentDate).toLocaleDateString('en-IN')}):</span>
-                  <span>-${formatCurrency(Number(payment.amount), payment.currency)} / -${formatINR(Number(payment.creditedAmount || Number(payment.amount) * Number(invoice.exchangeRate)))}</span>
+                  <span>${isINR
+                  ? `-${formatINR(Number(payment.creditedAmount || payment.amount))}`
+                  : `-${formatCurrency(Number(payment.amount), payment.currency)} / -${formatINR(Number(payment.creditedAmount || Number(payment.amount) * Number(invoice.exchangeRate)))}`}</span>
                 </div>
               `).join('')}
               
               <div class="total-row" style="font-weight: bold; margin-top: 10px; border-top: 1px solid #ddd; padding-top: 10px;">
                 <span>Amount Paid:</span>
-                <span>${formatCurrency(Number(invoice.amountPaid), invoice.currency)} / ${formatINR(Number(invoice.amountPaid) * Number(invoice.exchangeRate))}</span>
+                <span>${formatWithINR(Number(invoice.amountPaid), invoice.currency, Number(invoice.amountPaid) * Number(invoice.exchangeRate))}</span>
               </div>
               
               <div class="total-row grand-total" style="background-color: #f8f9fa; padding: 10px; margin-top: 10px;">
                 <span>Balance Due:</span>
-                <span>${formatCurrency(Number(invoice.balanceDue), invoice.currency)} / ${formatINR(Number(invoice.balanceDue) * Number(invoice.exchangeRate))}</span>
+                <span>${formatWithINR(Number(invoice.balanceDue), invoice.currency, Number(invoice.balanceDue) * Number(invoice.exchangeRate))}</span>
               </div>
             </div>
           ` : ''}
@@ -398,10 +481,12 @@ function generateInvoiceHTML(invoice: InvoiceWithRelations, user: User): string
             <span class="meta-label">Amount in Words (INR):</span>
             <span>${numberToWordsIndian(totalAmountINR)} Rupees Only</span>
           </div>
-          <div class="meta-row">
-            <span class="meta-label">Amount in Words (${invoice.currency}):</span>
-            <span>${numberToWordsInternational(Number(invoice.totalAmount))} ${getCurrencyName(invoice.currency)} Only</span>
-          </div>
+          ${!isINR ? `
+            <div class="meta-row">
+              <span class="meta-label">Amount in Words (${invoice.currency}):</span>
+              <span>${numberToWordsInternational(Number(invoice.totalAmount))} ${getCurrencyName(invoice.currency)} Only</span>
+            </div>
+          ` : ''}
         </div>
 
         ${invoice.notes ? `
@@ -1270,4 +1355,1430 @@ function generatePaymentVoucherHTML(voucher: PaymentVoucherWithRelations, user:
     </body>
     </html>
   `
-}
\ No newline at end of file
+}
+
+
+// ============================================================================
+// CREDIT/DEBIT NOTE PDF GENERATION
+// ============================================================================
+
+type CreditDebitNoteWithRelations = CreditDebitNote & {
+  invoice: Invoice & {
+    client: Client | null
+  }
+}
+
+export async function generateCreditDebitNotePDF(
+  note: CreditDebitNoteWithRelations,
+  user: User
+): Promise<Buffer> {
+  try {
+    const gotenberg = getGotenbergClient()
+
+    // Generate HTML for credit/debit note
+    const html = generateCreditDebitNoteHTML(note, user)
+
+    // Convert HTML to PDF using Gotenberg
+    const pdfBuffer = await gotenberg.htmlToPdf(html, {
+      paperWidth: 8.27,
+      paperHeight: 11.7,
+      marginTop: 0.79,
+      marginBottom: 0.79,
+      marginLeft: 0.79,
+      marginRight: 0.79,
+      printBackground: true,
+    })
+
+    return pdfBuffer
+  } catch (error) {
+    console.error('Credit/Debit Note PDF generation error:', error)
+    throw new Error('Failed to generate Credit/Debit Note PDF: ' + (error as Error).message)
+  }
+}
+
+function generateCreditDebitNoteHTML(note: CreditDebitNoteWithRelations, user: User): string {
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  const formatINR = (amount: number) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+  }
+
+  const isCredit = note.noteType === 'CREDIT'
+  const isINR = note.currency === 'INR'
+  const exchangeRate = Number(note.exchangeRate)
+  const formatAmount = (amount: number) => {
+    return isINR ? formatINR(amount) : `${formatCurrency(amount, note.currency)} / ${formatINR(amount * exchangeRate)}`
+  }
+
+  const client = note.invoice.client
+  const isIntrastate = Number(note.cgstAmount) > 0 || Number(note.sgstAmount) > 0
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 12px;
+          line-height: 1.5;
+          color: #333;
+        }
+
+        .note-container {
+          max-width: 800px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+
+        .header {
+          display: flex;
+          justify-content: space-between;
+          margin-bottom: 30px;
+          padding-bottom: 20px;
+          border-bottom: 2px solid #000;
+        }
+
+        .company-name {
+          font-size: 22px;
+          font-weight: bold;
+          margin-bottom: 5px;
+        }
+
+        .note-title {
+          text-align: right;
+        }
+
+        .note-title h1 {
+          font-size: 24px;
+          color: ${isCredit ? '#c0392b' : '#2c5aa0'};
+        }
+
+        .section {
+          margin-bottom: 25px;
+        }
+
+        .section-title {
+          font-size: 14px;
+          font-weight: bold;
+          margin-bottom: 10px;
+          padding-bottom: 5px;
+          border-bottom: 1px solid #ddd;
+        }
+
+        .details-grid {
+          display: grid;
+          grid-template-columns: 170px 1fr;
+          gap: 8px;
+        }
+
+        .details-label {
+          font-weight: bold;
+          color: #555;
+        }
+
+        .linked-invoice {
+          padding: 15px;
+          background-color: #e7f3ff;
+          border: 1px solid #b8daff;
+          border-radius: 4px;
+          margin-bottom: 25px;
+        }
+
+        .totals {
+          margin-left: auto;
+          width: 60%;
+        }
+
+        .total-row {
+          display: flex;
+          justify-content: space-between;
+          padding: 6px 0;
+          border-bottom: 1px solid #eee;
+        }
+
+        .grand-total {
+          font-weight: bold;
+          font-size: 14px;
+          border-top: 2px solid #333;
+        }
+
+        .amount-words {
+          margin-top: 15px;
+          font-style: italic;
+        }
+
+        .footer {
+          margin-top: 40px;
+          text-align: center;
+          font-size: 10px;
+          color: #666;
+          border-top: 1px solid #ddd;
+          padding-top: 15px;
+        }
+
+        @media print {
+          body {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="note-container">
+        <div class="header">
+          <div>
+            <div class="company-name">${user.name || 'Freelancer'}</div>
+            <div>GSTIN: ${user.gstin}</div>
+            <div>PAN: ${user.pan}</div>
+            <div>${user.address?.replace(/\n/g, '<br>') || ''}</div>
+          </div>
+          <div class="note-title">
+            <h1>${isCredit ? 'CREDIT NOTE' : 'DEBIT NOTE'}</h1>
+            <div><strong>${note.noteNumber}</strong></div>
+            <div>Date: ${formatDate(note.noteDate)}</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Issued To</div>
+          ${client ? `
+            <div class="details-grid">
+              <div class="details-label">Name:</div>
+              <div>${client.name}${client.company ? ` (${client.company})` : ''}</div>
+              <div class="details-label">Address:</div>
+              <div>${client.address.replace(/\n/g, ', ')}, ${client.country}</div>
+              ${client.gstin ? `
+                <div class="details-label">GSTIN:</div>
+                <div>${client.gstin}</div>
+              ` : ''}
+            </div>
+          ` : ''}
+        </div>
+
+        <div class="linked-invoice">
+          <div class="details-grid">
+            <div class="details-label">Original Invoice:</div>
+            <div>${note.invoice.invoiceNumber}</div>
+            <div class="details-label">Invoice Date:</div>
+            <div>${formatDate(note.invoice.invoiceDate)}</div>
+            <div class="details-label">Place of Supply:</div>
+            <div>${note.invoice.placeOfSupply}</div>
+            <div class="details-label">Reason:</div>
+            <div>${note.reason}</div>
+            ${note.description ? `
+              <div class="details-label">Description:</div>
+              <div>${note.description.replace(/\n/g, '<br>')}</div>
+            ` : ''}
+          </div>
+        </div>
+
+        ${!isINR ? `
+          <div class="section">
+            <strong>Exchange Rate:</strong> 1 ${note.currency} = ${formatINR(exchangeRate)} (as per original invoice)
+          </div>
+        ` : ''}
+
+        <div class="totals">
+          <div class="total-row">
+            <span>Taxable Value:</span>
+            <span>${formatAmount(Number(note.taxableAmount))}</span>
+          </div>
+          ${isIntrastate ? `
+            <div class="total-row">
+              <span>CGST @ ${note.cgstRate}%:</span>
+              <span>${formatAmount(Number(note.cgstAmount))}</span>
+            </div>
+            <div class="total-row">
+              <span>SGST @ ${note.sgstRate}%:</span>
+              <span>${formatAmount(Number(note.sgstAmount))}</span>
+            </div>
+          ` : `
+            <div class="total-row">
+              <span>IGST @ ${note.igstRate}%:</span>
+              <span>${formatAmount(Number(note.igstAmount))}</span>
+            </div>
+          `}
+          <div class="total-row grand-total">
+            <span>${isCredit ? 'Total Credit:' : 'Total Debit:'}</span>
+            <span>${formatAmount(Number(note.totalAmount))}</span>
+          </div>
+        </div>
+
+        <div class="amount-words">
+          Amount in Words (INR): ${numberToWordsIndian(Number(note.totalInINR))} Rupees Only
+        </div>
+
+        <div class="footer">
+          <p>This ${isCredit ? 'credit' : 'debit'} note is issued under Section 34 of the CGST Act, 2017 against the original invoice referenced above.</p>
+          <p>Generated on ${new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+// ============================================================================
+// ESTIMATE PDF GENERATION
+// ============================================================================
+
+type EstimateWithRelations = Estimate & {
+  client: Client
+  lineItems: EstimateItem[]
+}
+
+export async function generateEstimatePDF(
+  estimate: EstimateWithRelations,
+  user: User
+): Promise<Buffer> {
+  try {
+    const gotenberg = getGotenbergClient()
+
+    // Generate HTML for estimate
+    const html = generateEstimateHTML(estimate, user)
+
+    // Convert HTML to PDF using Gotenberg
+    const pdfBuffer = await gotenberg.htmlToPdf(html, {
+      paperWidth: 8.27,
+      paperHeight: 11.7,
+      marginTop: 0.79,
+      marginBottom: 0.79,
+      marginLeft: 0.79,
+      marginRight: 0.79,
+      printBackground: true,
+    })
+
+    return pdfBuffer
+  } catch (error) {
+    console.error('Estimate PDF generation error:', error)
+    throw new Error('Failed to generate Estimate PDF: ' + (error as Error).message)
+  }
+}
+
+function generateEstimateHTML(estimate: EstimateWithRelations, user: User): string {
+  const formatCurrency = (amount: number, currency: string) => {
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: currency,
+      minimumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  const formatDate = (date: Date) => new Date(date).toLocaleDateString('en-IN')
+
+  const serviceCode = estimate.lineItems[0]?.serviceCode
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 12px;
+          line-height: 1.5;
+          color: #333;
+        }
+
+        .estimate-container {
+          max-width: 800px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+
+        .header {
+          display: flex;
+          justify-content: space-between;
+          margin-bottom: 30px;
+          border-bottom: 2px solid #000;
+          padding-bottom: 20px;
+        }
+
+        .company-details {
+          flex: 1;
+        }
+
+        .company-name {
+          font-size: 24px;
+          font-weight: bold;
+          margin-bottom: 10px;
+        }
+
+        .estimate-title {
+          text-align: right;
+          flex: 1;
+        }
+
+        .estimate-title h1 {
+          font-size: 32px;
+          color: #000;
+          margin-bottom: 10px;
+        }
+
+        .estimate-number {
+          font-size: 14px;
+          font-weight: bold;
+        }
+
+        .parties {
+          display: flex;
+          justify-content: space-between;
+          margin-bottom: 30px;
+        }
+
+        .party {
+          flex: 1;
+        }
+
+        .party h3 {
+          font-size: 14px;
+          margin-bottom: 10px;
+          color: #666;
+        }
+
+        .party-details {
+          line-height: 1.6;
+        }
+
+        .gstin {
+          font-weight: bold;
+          color: #000;
+        }
+
+        .items-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 30px;
+        }
+
+        .items-table th,
+        .items-table td {
+          border: 1px solid #ddd;
+          padding: 10px;
+          text-align: left;
+        }
+
+        .items-table th {
+          background-color: #f5f5f5;
+          font-weight: bold;
+        }
+
+        .items-table td.number {
+          text-align: right;
+        }
+
+        .totals {
+          margin-left: auto;
+          width: 400px;
+          margin-bottom: 30px;
+        }
+
+        .total-row {
+          display: flex;
+          justify-content: space-between;
+          padding: 8px 0;
+          border-bottom: 1px solid #eee;
+        }
+
+        .total-row.grand-total {
+          border-top: 2px solid #000;
+          border-bottom: 2px solid #000;
+          font-size: 16px;
+          font-weight: bold;
+          margin-top: 10px;
+        }
+
+        .estimate-meta {
+          margin-bottom: 30px;
+          padding: 15px;
+          background-color: #f5f5f5;
+          border: 1px solid #ddd;
+        }
+
+        .validity {
+          padding: 10px;
+          background-color: #fff9e6;
+          border: 1px solid #ffeb99;
+          margin-bottom: 20px;
+        }
+
+        .notes {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #ddd;
+        }
+
+        .notes h3 {
+          margin-bottom: 10px;
+        }
+
+        .footer {
+          margin-top: 50px;
+          text-align: center;
+          font-size: 10px;
+          color: #666;
+        }
+
+        @media print {
+          body {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="estimate-container">
+        <div class="header">
+          <div class="company-details">
+            <div class="company-name">${user.name || 'Freelancer'}</div>
+            <div class="gstin">GSTIN: ${user.gstin}</div>
+            <div>PAN: ${user.pan}</div>
+            <div>${user.address?.replace(/\n/g, '<br>') || ''}</div>
+            <div>Email: ${user.email}</div>
+          </div>
+          <div class="estimate-title">
+            <h1>ESTIMATE</h1>
+            <div class="estimate-number">Estimate #${estimate.estimateNumber}</div>
+          </div>
+        </div>
+
+        <div class="parties">
+          <div class="party">
+            <h3>PREPARED FOR</h3>
+            <div class="party-details">
+              <strong>${estimate.client.name}</strong><br>
+              ${estimate.client.company ? `${estimate.client.company}<br>` : ''}
+              ${estimate.client.address.replace(/\n/g, '<br>')}<br>
+              ${estimate.client.country}<br>
+              ${estimate.client.taxId ? `Tax ID: ${estimate.client.taxId}<br>` : ''}
+              Email: ${estimate.client.email}
+            </div>
+          </div>
+          <div class="party">
+            <h3>ESTIMATE DETAILS</h3>
+            <div class="party-details">
+              <strong>Date:</strong> ${formatDate(estimate.estimateDate)}<br>
+              <strong>Valid Until:</strong> ${formatDate(estimate.validUntil)}<br>
+              ${serviceCode ? `
+                <strong>Service Code (HSN/SAC):</strong> ${serviceCode}<br>
+                <strong>Service Type:</strong> ${getServiceTypeDescription(serviceCode)}
+              ` : ''}
+            </div>
+          </div>
+        </div>
+
+        <div class="validity">
+          This estimate is valid until ${formatDate(estimate.validUntil)}. Export of services under LUT – tax not payable.
+        </div>
+
+        <table class="items-table">
+          <thead>
+            <tr>
+              <th style="width: 50px;">S.No</th>
+              <th>Description</th>
+              <th style="width: 90px;">SAC</th>
+              <th style="width: 80px;">Qty</th>
+              <th style="width: 120px;">Rate (${estimate.currency})</th>
+              <th style="width: 120px;">Amount (${estimate.currency})</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${estimate.lineItems.map((item, index) => `
+              <tr>
+                <td class="number">${index + 1}</td>
+                <td>${item.description}</td>
+                <td>${item.serviceCode}</td>
+                <td class="number">${item.quantity}</td>
+                <td class="number">${formatCurrency(Number(item.rate), estimate.currency)}</td>
+                <td class="number">${formatCurrency(Number(item.amount), estimate.currency)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+
+        <div class="totals">
+          <div class="total-row">
+            <span>Subtotal:</span>
+            <span>${formatCurrency(Number(estimate.subtotal), estimate.currency)}</span>
+          </div>
+          <div class="total-row grand-total">
+            <span>Estimated Total:</span>
+            <span>${formatCurrency(Number(estimate.totalAmount), estimate.currency)}</span>
+          </div>
+        </div>
+
+        <div class="estimate-meta">
+          <strong>Amount in Words:</strong>
+          ${numberToWordsInternational(Number(estimate.totalAmount))} ${getCurrencyName(estimate.currency)} Only
+        </div>
+
+        ${estimate.notes ? `
+          <div class="notes">
+            <h3>Notes</h3>
+            <p>${estimate.notes.replace(/\n/g, '<br>')}</p>
+          </div>
+        ` : ''}
+
+        ${estimate.terms ? `
+          <div class="notes">
+            <h3>Terms &amp; Conditions</h3>
+            <p>${estimate.terms.replace(/\n/g, '<br>')}</p>
+          </div>
+        ` : ''}
+
+        <div class="footer">
+          <p>This is an estimate, not a tax invoice. A tax invoice will be issued on acceptance.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+
+// ============================================================================
+// RECEIPT VOUCHER PDF GENERATION
+// ============================================================================
+
+type ReceiptVoucherWithRelations = ClientCredit & {
+  client: Client
+  lut: LUT | null // LUT in force on the voucher date
+}
+
+export async function generateReceiptVoucherPDF(
+  credit: ReceiptVoucherWithRelations,
+  user: User
+): Promise<Buffer> {
+  try {
+    const gotenberg = getGotenbergClient()
+
+    // Generate HTML for receipt voucher
+    const html = generateReceiptVoucherHTML(credit, user)
+
+    // Convert HTML to PDF using Gotenberg
+    const pdfBuffer = await gotenberg.htmlToPdf(html, {
+      paperWidth: 8.27,
+      paperHeight: 11.7,
+      marginTop: 0.79,
+      marginBottom: 0.79,
+      marginLeft: 0.79,
+      marginRight: 0.79,
+      printBackground: true,
+    })
+
+    return pdfBuffer
+  } catch (error) {
+    console.error('Receipt Voucher PDF generation error:', error)
+    throw new Error('Failed to generate Receipt Voucher PDF: ' + (error as Error).message)
+  }
+}
+
+// Receipt voucher for an advance from an export client (Rule 50 of the CGST
+// Rules). Export of services under LUT is zero-rated, so no tax is charged.
+function generateReceiptVoucherHTML(credit: ReceiptVoucherWithRelations, user: User): string {
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+
+  const formatAmount = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+    }).format(amount)
+
+  const amount = Number(credit.amount)
+  const creditedAmount = credit.creditedAmount ? Number(credit.creditedAmount) : null
+  const serviceDescription = credit.serviceCode
+    ? getServiceTypeDescription(credit.serviceCode)
+    : null
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 12px;
+          line-height: 1.5;
+          color: #333;
+        }
+
+        .voucher-container {
+          max-width: 800px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+          padding-bottom: 20px;
+          border-bottom: 2px solid #000;
+        }
+
+        .company-name {
+          font-size: 22px;
+          font-weight: bold;
+          margin-bottom: 5px;
+        }
+
+        .company-details {
+          font-size: 11px;
+          color: #555;
+        }
+
+        .voucher-title {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2c5aa0;
+          margin-top: 15px;
+        }
+
+        .voucher-meta {
+          display: flex;
+          justify-content: space-between;
+          margin-bottom: 30px;
+          padding: 15px;
+          background-color: #f8f9fa;
+          border: 1px solid #ddd;
+          border-radius: 4px;
+        }
+
+        .voucher-meta-item {
+          text-align: center;
+        }
+
+        .voucher-meta-label {
+          font-size: 10px;
+          text-transform: uppercase;
+          color: #666;
+        }
+
+        .voucher-meta-value {
+          font-size: 16px;
+          font-weight: bold;
+        }
+
+        .section {
+          margin-bottom: 25px;
+        }
+
+        .section-title {
+          font-size: 14px;
+          font-weight: bold;
+          margin-bottom: 10px;
+          padding-bottom: 5px;
+          border-bottom: 1px solid #ddd;
+        }
+
+        .details-grid {
+          display: grid;
+          grid-template-columns: 170px 1fr;
+          gap: 8px;
+        }
+
+        .details-label {
+          font-weight: bold;
+          color: #555;
+        }
+
+        .amount-box {
+          text-align: center;
+          padding: 25px;
+          background-color: #e8f4e8;
+          border: 2px solid #28a745;
+          border-radius: 8px;
+          margin: 30px 0;
+        }
+
+        .amount-label {
+          font-size: 14px;
+          color: #155724;
+          margin-bottom: 10px;
+        }
+
+        .amount-value {
+          font-size: 32px;
+          font-weight: bold;
+          color: #155724;
+        }
+
+        .amount-words {
+          font-size: 12px;
+          color: #155724;
+          margin-top: 10px;
+          font-style: italic;
+        }
+
+        .declaration {
+          padding: 15px;
+          background-color: #e7f3ff;
+          border: 1px solid #b8daff;
+          border-radius: 4px;
+          margin-bottom: 25px;
+        }
+
+        .signatures {
+          display: flex;
+          justify-content: flex-end;
+          margin-top: 50px;
+        }
+
+        .signature-box {
+          width: 200px;
+          text-align: center;
+        }
+
+        .signature-line {
+          border-top: 1px solid #333;
+          padding-top: 5px;
+          margin-top: 50px;
+        }
+
+        .footer {
+          margin-top: 40px;
+          text-align: center;
+          font-size: 10px;
+          color: #666;
+          border-top: 1px solid #ddd;
+          padding-top: 15px;
+        }
+
+        @media print {
+          body {
+            print-color-adjust: exact;
+            -webkit-print-color-adjust: exact;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="voucher-container">
+        <div class="header">
+          <div class="company-name">${user.name || 'Business Name'}</div>
+          <div class="company-details">
+            GSTIN: ${user.gstin} | PAN: ${user.pan}<br>
+            ${user.address?.replace(/\n/g, ', ') || ''}<br>
+            ${user.email}
+          </div>
+          <div class="voucher-title">RECEIPT VOUCHER</div>
+        </div>
+
+        <div class="voucher-meta">
+          <div class="voucher-meta-item">
+            <div class="voucher-meta-label">Voucher Number</div>
+            <div class="voucher-meta-value">${credit.voucherNumber}</div>
+          </div>
+          <div class="voucher-meta-item">
+            <div class="voucher-meta-label">Voucher Date</div>
+            <div class="voucher-meta-value">${credit.voucherDate ? formatDate(credit.voucherDate) : ''}</div>
+          </div>
+          <div class="voucher-meta-item">
+            <div class="voucher-meta-label">Advance Received On</div>
+            <div class="voucher-meta-value">${formatDate(credit.receivedDate)}</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Received From</div>
+          <div class="details-grid">
+            <div class="details-label">Name:</div>
+            <div>${credit.client.company || credit.client.name}</div>
+            <div class="details-label">Address:</div>
+            <div>${credit.client.address.replace(/\n/g, ', ')}, ${credit.client.country}</div>
+            ${credit.client.taxId ? `
+              <div class="details-label">Tax ID:</div>
+              <div>${credit.client.taxId}</div>
+            ` : ''}
+            <div class="details-label">Place of Supply:</div>
+            <div>Outside India (Section 2-6)</div>
+          </div>
+        </div>
+
+        <div class="section">
+          <div class="section-title">Advance Details</div>
+          <div class="details-grid">
+            <div class="details-label">Description:</div>
+            <div>${credit.description || serviceDescription || 'Advance against export of services'}</div>
+            ${credit.serviceCode ? `
+              <div class="details-label">SAC:</div>
+              <div>${credit.serviceCode}</div>
+            ` : ''}
+            ${credit.reference ? `
+              <div class="details-label">Payment Reference:</div>
+              <div>${credit.reference}</div>
+            ` : ''}
+            ${creditedAmount ? `
+              <div class="details-label">INR Credited:</div>
+              <div>${formatAmount(creditedAmount, 'INR')}${credit.actualExchangeRate ? ` @ ${Number(credit.actualExchangeRate).toFixed(4)}` : ''}</div>
+            ` : ''}
+            ${credit.fircNumber ? `
+              <div class="details-label">FIRC Number:</div>
+              <div>${credit.fircNumber}</div>
+            ` : ''}
+            <div class="details-label">Rate of Tax (IGST):</div>
+            <div>0%</div>
+            <div class="details-label">Tax Amount:</div>
+            <div>NIL</div>
+            <div class="details-label">Reverse Charge:</div>
+            <div>No</div>
+          </div>
+        </div>
+
+        <div class="amount-box">
+          <div class="amount-label">Advance Received</div>
+          <div class="amount-value">${formatAmount(amount, credit.currency)}</div>
+          <div class="amount-words">${numberToWordsInternational(amount)} ${getCurrencyName(credit.currency)} Only</div>
+        </div>
+
+        <div class="declaration">
+          <strong>SUPPLY MEANT FOR EXPORT UNDER LETTER OF UNDERTAKING WITHOUT PAYMENT OF INTEGRATED TAX</strong>
+          ${credit.lut ? `<br>LUT ARN: ${credit.lut.lutNumber} dated ${formatDate(credit.lut.lutDate)}` : ''}
+        </div>
+
+        <div class="signatures">
+          <div class="signature-box">
+            <div class="signature-line">Authorized Signatory</div>
+          </div>
+        </div>
+
+        <div class="footer">
+          <p>Receipt voucher issued under Section 31(3)(d) of the CGST Act read with Rule 50 of the CGST Rules.</p>
+          <p>Generated on ${new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+
+// ============================================================================
+// AGED RECEIVABLES PDF GENERATION
+// ============================================================================
+
+export async function generateAgedReceivablesPDF(
+  report: AgedReceivablesReport,
+  user: User
+): Promise<Buffer> {
+  try {
+    const gotenberg = getGotenbergClient()
+
+    // Generate HTML for the report
+    const html = generateAgedReceivablesHTML(report, user)
+
+    // Landscape, the bucket columns do not fit across a portrait page
+    const pdfBuffer = await gotenberg.htmlToPdf(html, {
+      paperWidth: 11.7,
+      paperHeight: 8.27,
+      marginTop: 0.5,
+      marginBottom: 0.5,
+      marginLeft: 0.5,
+      marginRight: 0.5,
+      printBackground: true,
+    })
+
+    return pdfBuffer
+  } catch (error) {
+    console.error('Aged Receivables PDF generation error:', error)
+    throw new Error('Failed to generate Aged Receivables PDF: ' + (error as Error).message)
+  }
+}
+
+function generateAgedReceivablesHTML(report: AgedReceivablesReport, user: User): string {
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+
+  const formatAmount = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+    }).format(amount)
+
+  const buckets = report.basis === 'DUE_DATE'
+    ? AGEING_BUCKETS
+    : AGEING_BUCKETS.filter((bucket) => bucket.key !== 'NOT_DUE')
+
+  const groupRows = report.groups.map((group) => `
+    <tr class="group">
+      <td colspan="3">${group.clientName} (${group.currency})</td>
+      ${buckets.map((bucket) => `<td class="number">${group.buckets[bucket.key] ? formatAmount(group.buckets[bucket.key], group.currency) : ''}</td>`).join('')}
+      <td class="number">${formatAmount(group.balanceDue, group.currency)}</td>
+      <td class="number">${formatAmount(group.bookedInr, 'INR')}</td>
+      <td class="number">${group.currentInr !== null ? formatAmount(group.currentInr, 'INR') : '&mdash;'}</td>
+    </tr>
+    ${group.invoices.map((invoice) => `
+      <tr>
+        <td class="indent">${invoice.invoiceNumber}</td>
+        <td>${formatDate(invoice.invoiceDate)}</td>
+        <td>${formatDate(invoice.dueDate)}</td>
+        ${buckets.map((bucket) => `<td class="number">${bucket.key === invoice.bucket ? formatAmount(invoice.balanceDue, invoice.currency) : ''}</td>`).join('')}
+        <td class="number"></td>
+        <td class="number">${formatAmount(invoice.bookedInr, 'INR')}</td>
+        <td class="number">${invoice.currentInr !== null ? formatAmount(invoice.currentInr, 'INR') : '&mdash;'}</td>
+      </tr>
+    `).join('')}
+  `).join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 10px;
+          line-height: 1.4;
+          color: #333;
+        }
+
+        .header {
+          margin-bottom: 16px;
+          padding-bottom: 10px;
+          border-bottom: 2px solid #000;
+        }
+
+        .company-name {
+          font-size: 16px;
+          font-weight: bold;
+        }
+
+        .report-title {
+          font-size: 18px;
+          font-weight: bold;
+          color: #2c5aa0;
+          margin-top: 6px;
+        }
+
+        .report-meta {
+          color: #555;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+
+        th {
+          background: #f0f0f0;
+          text-align: left;
+          padding: 5px;
+          border-bottom: 1px solid #999;
+        }
+
+        td {
+          padding: 4px 5px;
+          border-bottom: 1px solid #eee;
+        }
+
+        .number {
+          text-align: right;
+          white-space: nowrap;
+        }
+
+        tr.group td {
+          font-weight: bold;
+          background: #fafafa;
+          border-top: 1px solid #ccc;
+        }
+
+        td.indent {
+          padding-left: 15px;
+        }
+
+        tr.total td {
+          font-weight: bold;
+          border-top: 2px solid #000;
+        }
+
+        .note {
+          margin-top: 12px;
+          color: #555;
+        }
+
+        .footer {
+          margin-top: 20px;
+          font-size: 9px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="company-name">${user.name || ''}</div>
+        ${user.gstin ? `<div class="report-meta">GSTIN: ${user.gstin}</div>` : ''}
+        <div class="report-title">Aged Receivables</div>
+        <div class="report-meta">
+          As on ${formatDate(report.asOf)}, aged from the ${report.basis === 'DUE_DATE' ? 'due date' : 'invoice date'}
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr>
+            <th>Invoice</th>
+            <th>Invoice Date</th>
+            <th>Due Date</th>
+            ${buckets.map((bucket) => `<th class="number">${bucket.label}</th>`).join('')}
+            <th class="number">Balance Due</th>
+            <th class="number">INR (Invoice Rate)</th>
+            <th class="number">INR (Current Rate)</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${groupRows}
+          <tr class="total">
+            <td colspan="3">Total in INR at invoice rate</td>
+            ${buckets.map((bucket) => `<td class="number">${formatAmount(report.totals.bookedInr[bucket.key], 'INR')}</td>`).join('')}
+            <td class="number"></td>
+            <td class="number">${formatAmount(report.totals.bookedInr.total, 'INR')}</td>
+            <td class="number"></td>
+          </tr>
+          <tr class="total">
+            <td colspan="3">Total in INR at current rate</td>
+            ${buckets.map((bucket) => `<td class="number">${formatAmount(report.totals.currentInr[bucket.key], 'INR')}</td>`).join('')}
+            <td class="number"></td>
+            <td class="number"></td>
+            <td class="number">${formatAmount(report.totals.currentInr.total, 'INR')}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      ${report.missingRates.length > 0 ? `
+        <div class="note">
+          No current rate was available for ${report.missingRates.join(', ')}; these balances are included in the
+          current-rate totals at the invoice rate.
+        </div>
+      ` : ''}
+
+      <div class="footer">
+        <p>Generated on ${new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+type GSTR3BComputationSheet = {
+  formattedPeriod: string
+  fiscalYear: string
+  dueDate: Date
+  computation: GSTR3BComputation
+}
+
+export async function generateGSTR3BComputationPDF(
+  sheet: GSTR3BComputationSheet,
+  user: User
+): Promise<Buffer> {
+  try {
+    const gotenberg = getGotenbergClient()
+
+    // Generate HTML for the computation sheet
+    const html = generateGSTR3BComputationHTML(sheet, user)
+
+    const pdfBuffer = await gotenberg.htmlToPdf(html, {
+      paperWidth: 8.27,
+      paperHeight: 11.7,
+      marginTop: 0.5,
+      marginBottom: 0.5,
+      marginLeft: 0.5,
+      marginRight: 0.5,
+      printBackground: true,
+    })
+
+    return pdfBuffer
+  } catch (error) {
+    console.error('GSTR-3B computation PDF generation error:', error)
+    throw new Error('Failed to generate GSTR-3B computation PDF: ' + (error as Error).message)
+  }
+}
+
+function generateGSTR3BComputationHTML(sheet: GSTR3BComputationSheet, user: User): string {
+  const { computation } = sheet
+
+  const formatDate = (date: Date) =>
+    new Date(date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 2,
+    }).format(amount)
+
+  const tableRows = (table: GSTR3BTable) => `
+    <tr class="group">
+      <td colspan="3">${table.code} &nbsp; ${table.label}</td>
+      <td class="number">${formatAmount(table.totals.taxableValue)}</td>
+      <td class="number">${formatAmount(table.totals.igst)}</td>
+      <td class="number">${formatAmount(table.totals.cgst)}</td>
+      <td class="number">${formatAmount(table.totals.sgst)}</td>
+    </tr>
+    ${table.documents.length === 0 ? `
+      <tr><td class="indent empty" colspan="7">No documents</td></tr>
+    ` : table.documents.map((document) => `
+      <tr>
+        <td class="indent">${document.number}</td>
+        <td>${formatDate(document.date)}</td>
+        <td>${document.partyName || ''}</td>
+        <td class="number">${formatAmount(document.taxableValue)}</td>
+        <td class="number">${formatAmount(document.igst)}</td>
+        <td class="number">${formatAmount(document.cgst)}</td>
+        <td class="number">${formatAmount(document.sgst)}</td>
+      </tr>
+    `).join('')}
+  `
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <style>
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 10px;
+          line-height: 1.4;
+          color: #333;
+        }
+
+        .header {
+          margin-bottom: 16px;
+          padding-bottom: 10px;
+          border-bottom: 2px solid #000;
+        }
+
+        .company-name {
+          font-size: 16px;
+          font-weight: bold;
+        }
+
+        .report-title {
+          font-size: 18px;
+          font-weight: bold;
+          color: #2c5aa0;
+          margin-top: 6px;
+        }
+
+        .report-meta {
+          color: #555;
+        }
+
+        h2 {
+          font-size: 12px;
+          margin: 16px 0 6px;
+        }
+
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+
+        th {
+          background: #f0f0f0;
+          text-align: left;
+          padding: 5px;
+          border-bottom: 1px solid #999;
+        }
+
+        td {
+          padding: 4px 5px;
+          border-bottom: 1px solid #eee;
+        }
+
+        .number {
+          text-align: right;
+          white-space: nowrap;
+        }
+
+        tr.group td {
+          font-weight: bold;
+          background: #fafafa;
+          border-top: 1px solid #ccc;
+        }
+
+        td.indent {
+          padding-left: 15px;
+        }
+
+        td.empty {
+          color: #777;
+        }
+
+        tr.total td {
+          font-weight: bold;
+          border-top: 2px solid #000;
+        }
+
+        .signoff {
+          margin-top: 40px;
+          display: flex;
+          justify-content: space-between;
+        }
+
+        .signoff div {
+          width: 40%;
+          border-top: 1px solid #000;
+          padding-top: 4px;
+        }
+
+        .footer {
+          margin-top: 20px;
+          font-size: 9px;
+          color: #777;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="company-name">${user.name || ''}</div>
+        ${user.gstin ? `<div class="report-meta">GSTIN: ${user.gstin}</div>` : ''}
+        <div class="report-title">GSTR-3B Computation Sheet</div>
+        <div class="report-meta">
+          ${sheet.formattedPeriod} (FY ${sheet.fiscalYear}) &middot; Due ${formatDate(sheet.dueDate)}
+        </div>
+      </div>
+
+      <h2>3.1 Outward and reverse charge inward supplies</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Document</th>
+            <th>Date</th>
+            <th>Party</th>
+            <th class="number">Taxable Value</th>
+            <th class="number">IGST</th>
+            <th class="number">CGST</th>
+            <th class="number">SGST</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${computation.supplies.map(tableRows).join('')}
+        </tbody>
+      </table>
+
+      <h2>4 Eligible ITC</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Document</th>
+            <th>Date</th>
+            <th>Party</th>
+            <th class="number">Taxable Value</th>
+            <th class="number">IGST</th>
+            <th class="number">CGST</th>
+            <th class="number">SGST</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${tableRows(computation.itc)}
+        </tbody>
+      </table>
+
+      <h2>Tax payable</h2>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th class="number">IGST</th>
+            <th class="number">CGST</th>
+            <th class="number">SGST</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Net tax payable in cash</td>
+            <td class="number">${formatAmount(computation.netTaxPayable.igst)}</td>
+            <td class="number">${formatAmount(computation.netTaxPayable.cgst)}</td>
+            <td class="number">${formatAmount(computation.netTaxPayable.sgst)}</td>
+          </tr>
+          <tr>
+            <td>5.1 Interest${computation.daysLate > 0 ? ` (${computation.daysLate} days late)` : ''}</td>
+            <td class="number">${formatAmount(computation.interest.igst)}</td>
+            <td class="number">${formatAmount(computation.interest.cgst)}</td>
+            <td class="number">${formatAmount(computation.interest.sgst)}</td>
+          </tr>
+          <tr>
+            <td>5.1 Late fee</td>
+            <td class="number"></td>
+            <td class="number">${formatAmount(computation.lateFee.cgst)}</td>
+            <td class="number">${formatAmount(computation.lateFee.sgst)}</td>
+          </tr>
+          <tr class="total">
+            <td>Total payable</td>
+            <td class="number" colspan="3">
+              ${formatAmount(
+                computation.netTaxPayable.total +
+                  computation.interest.igst + computation.interest.cgst + computation.interest.sgst +
+                  computation.lateFee.cgst + computation.lateFee.sgst
+              )}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div class="signoff">
+        <div>Prepared by</div>
+        <div>Reviewed and approved by</div>
+      </div>
+
+      <div class="footer">
+        <p>Generated on ${new Date().toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</p>
+      </div>
+    </body>
+    </html>
+  `
+}
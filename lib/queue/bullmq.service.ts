@@ -23,6 +23,9 @@ import {
   ExchangeRateFetchJobSchema,
   PaymentReminderJobSchema,
   DocumentProcessingJobSchema,
+  RecurringInvoiceJobSchema,
+  RealisationAlertJobSchema,
+  InvoiceOverdueJobSchema,
 } from './types'
 
 interface BullMQConfig {
@@ -98,6 +101,15 @@ export class BullMQService implements QueueService {
       case 'DOCUMENT_PROCESSING':
         DocumentProcessingJobSchema.parse(data)
         break
+      case 'RECURRING_INVOICE':
+        RecurringInvoiceJobSchema.parse(data)
+        break
+      case 'REALISATION_ALERT':
+        RealisationAlertJobSchema.parse(data)
+        break
+      case 'INVOICE_OVERDUE':
+        InvoiceOverdueJobSchema.parse(data)
+        break
       case 'LUT_REMINDER':
         // LUT_REMINDER is validated elsewhere or has no specific schema
         break
@@ -7,10 +7,26 @@
 import type { Job, DocumentProcessingJobData } from '../types'
 import { db } from '@/lib/prisma'
 import { DocumentStatus, ReviewStatus, DocumentSourceType } from '@prisma/client'
+import { format } from 'date-fns'
 import { createGeminiClient, extractDocumentData, extractFromImage } from '@/lib/inbox/gemini-client'
 import { classifyDocument, type DocumentContent } from '@/lib/inbox/document-classifier'
 import { calculateConfidenceScore, getReviewStatusFromConfidence, type ExtractionResult } from '@/lib/inbox/confidence-calculator'
 import { parseUpworkCSV, aggregateUpworkEarnings } from '@/lib/inbox/parsers/upwork-csv.parser'
+import { parsePayoneerCSV } from '@/lib/inbox/parsers/payoneer-csv.parser'
+import { parseWiseCSV } from '@/lib/inbox/parsers/wise-csv.parser'
+import { parsePayPalCSV } from '@/lib/inbox/parsers/paypal-csv.parser'
+import {
+  summarizePlatformPayments,
+  type PlatformParseResult,
+  type StoredPlatformPayment,
+} from '@/lib/inbox/parsers/platform-payments'
+
+// Parsers for payment platform activity exports, with the platform name
+const PLATFORM_CSV_PARSERS: Partial<Record<DocumentSourceType, { name: string; parse: (content: string) => PlatformParseResult }>> = {
+  [DocumentSourceType.PAYONEER]: { name: 'Payoneer', parse: parsePayoneerCSV },
+  [DocumentSourceType.WISE]: { name: 'Wise', parse: parseWiseCSV },
+  [DocumentSourceType.PAYPAL]: { name: 'PayPal', parse: parsePayPalCSV },
+}
 
 interface DocumentProcessingResult {
   success: boolean
@@ -54,6 +70,9 @@ export async function documentProcessingHandler(
     if (sourceTypeEnum === DocumentSourceType.UPWORK && mimeType === 'text/csv') {
       // Use specialized Upwork CSV parser
       extractedData = await processUpworkCSV(content)
+    } else if (PLATFORM_CSV_PARSERS[sourceTypeEnum] && mimeType === 'text/csv') {
+      // Use the payment platform's export parser
+      extractedData = processPlatformCSV(content, sourceTypeEnum)
     } else if (isImageOrPdf(mimeType)) {
       // Use Gemini Vision for images/PDFs
       extractedData = await processWithGeminiVision(content, sourceTypeEnum, filename, mimeType)
@@ -167,6 +186,7 @@ interface ExtractedData {
   taxDetails?: object
   lineItems?: object[]
   notes?: string[]
+  platformPayments?: StoredPlatformPayment[]
 }
 
 /**
@@ -231,6 +251,44 @@ async function processUpworkCSV(content: string): Promise<ExtractedData> {
   }
 }
 
+/**
+ * Process a Payoneer, Wise or PayPal export. Each received payment is kept
+ * so it can prefill a payment recorded against an invoice.
+ */
+function processPlatformCSV(content: string, sourceType: DocumentSourceType): ExtractedData {
+  const platform = PLATFORM_CSV_PARSERS[sourceType]!
+  const parseResult = platform.parse(content)
+
+  if (!parseResult.success || !parseResult.payments) {
+    throw new Error(parseResult.error || `Failed to parse ${platform.name} CSV`)
+  }
+  if (parseResult.payments.length === 0) {
+    throw new Error(`No received payments found in ${platform.name} CSV`)
+  }
+
+  const summary = summarizePlatformPayments(parseResult.payments)
+
+  return {
+    amount: summary.totalGross,
+    currency: summary.currency,
+    date: summary.endDate ? format(summary.endDate, 'yyyy-MM-dd') : undefined,
+    vendorName: platform.name,
+    clientName: summary.payerNames.length === 1 ? summary.payerNames[0] : undefined,
+    notes: [
+      `Gross received: ${summary.currency} ${summary.totalGross}`,
+      `Platform fees: ${summary.currency} ${summary.totalFees}`,
+      `Net received: ${summary.currency} ${summary.totalNet}`,
+      ...(summary.totalInrCredited !== undefined ? [`INR credited: ${summary.totalInrCredited}`] : []),
+      `Payments: ${summary.paymentCount}`,
+      ...(parseResult.warnings ?? []),
+    ],
+    platformPayments: parseResult.payments.map((payment) => ({
+      ...payment,
+      date: format(payment.date, 'yyyy-MM-dd'),
+    })),
+  }
+}
+
 /**
  * Process document with Gemini Vision (for images/PDFs)
  */
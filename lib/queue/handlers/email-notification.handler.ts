@@ -1,4 +1,5 @@
 import type { Job, EmailNotificationJobData } from '../types'
+import { prisma } from '@/lib/prisma'
 import { sendEmail, type EmailOptions } from '@/lib/email/service'
 
 interface EmailNotificationResult {
@@ -9,6 +10,34 @@ interface EmailNotificationResult {
   timestamp: Date
 }
 
+/**
+ * Record a send in the email history of the invoice it was for
+ */
+async function recordInvoiceEmail(
+  data: EmailNotificationJobData,
+  status: 'SENT' | 'FAILED',
+  messageId: string,
+  sentAt: Date
+): Promise<void> {
+  if (!data.invoiceId || !data.userId) return
+
+  await prisma.emailHistory.create({
+    data: {
+      userId: data.userId,
+      invoiceId: data.invoiceId,
+      type: data.template,
+      to: data.to,
+      cc: data.cc,
+      bcc: data.bcc,
+      subject: data.subject,
+      template: data.template,
+      messageId,
+      status,
+      sentAt,
+    },
+  })
+}
+
 export async function emailNotificationHandler(job: Job<EmailNotificationJobData>): Promise<EmailNotificationResult> {
   const { 
     to, 
@@ -40,8 +69,16 @@ export async function emailNotificationHandler(job: Job<EmailNotificationJobData
     await updateProgress(50)
   }
 
-  // Send the email
-  const result = await sendEmail(emailOptions)
+  // Send the email. Sends for an invoice are recorded in its history, which
+  // the payment reminder schedule counts its steps from.
+  let result: Awaited<ReturnType<typeof sendEmail>>
+  try {
+    result = await sendEmail(emailOptions)
+  } catch (error) {
+    await recordInvoiceEmail(job.data, 'FAILED', '', new Date())
+    throw error
+  }
+  await recordInvoiceEmail(job.data, 'SENT', result.messageId, result.timestamp)
 
   if (updateProgress) {
     await updateProgress(100)
@@ -2,4 +2,8 @@ export { pdfGenerationHandler } from './pdf-generation.handler'
 export { emailNotificationHandler } from './email-notification.handler'
 export { exchangeRateFetchHandler } from './exchange-rate-fetch.handler'
 export { lutReminderHandler } from './lut-reminder.handler'
-export { documentProcessingHandler } from './document-processing.handler'
\ No newline at end of file
+export { documentProcessingHandler } from './document-processing.handler'
+export { recurringInvoiceHandler } from './recurring-invoice.handler'
+export { realisationAlertHandler } from './realisation-alert.handler'
+export { paymentReminderHandler } from './payment-reminder.handler'
+export { invoiceOverdueHandler } from './invoice-overdue.handler'
@@ -0,0 +1,47 @@
+import type { Job, InvoiceOverdueJobData } from '../types'
+import { startOfDay } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+
+interface InvoiceOverdueResult {
+  success: boolean
+  mode: string
+  markedOverdue: number
+  reopened: number
+}
+
+/**
+ * Handler for invoice overdue jobs
+ *
+ * Moves sent invoices with a balance due, unpaid or partly paid, to
+ * OVERDUE once their due date has passed, and back to SENT when the due
+ * date has since been moved later. Paid invoices are left alone; recording
+ * the final payment sets them to PAID.
+ */
+export async function invoiceOverdueHandler(job: Job<InvoiceOverdueJobData>): Promise<InvoiceOverdueResult> {
+  const { mode } = job.data
+  const today = startOfDay(new Date())
+
+  const { count: markedOverdue } = await prisma.invoice.updateMany({
+    where: {
+      status: 'SENT',
+      balanceDue: { gt: 0 },
+      dueDate: { lt: today },
+    },
+    data: { status: 'OVERDUE' },
+  })
+
+  const { count: reopened } = await prisma.invoice.updateMany({
+    where: {
+      status: 'OVERDUE',
+      dueDate: { gte: today },
+    },
+    data: { status: 'SENT' },
+  })
+
+  return {
+    success: true,
+    mode,
+    markedOverdue,
+    reopened,
+  }
+}
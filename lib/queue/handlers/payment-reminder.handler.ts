@@ -0,0 +1,154 @@
+import type { Job, PaymentReminderJobData } from '../types'
+import { differenceInCalendarDays } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email/service'
+import { getDueReminder, type DunningSteps } from '@/lib/dunning'
+import { generateSecureToken, getTokenExpirationDate } from '@/lib/utils/token'
+
+interface PaymentReminderResult {
+  success: boolean
+  mode: string
+  invoicesChecked: number
+  remindersSent: number
+  errors: Array<{ invoiceId: string; error: string }>
+}
+
+/**
+ * Handler for payment reminder (dunning) jobs
+ *
+ * Scans unpaid invoices of users with a reminder schedule and emails the
+ * client when a reminder step is due. The client's own schedule overrides
+ * the user's default, clients who opted out are skipped, and every send is
+ * recorded in the invoice's email history, which is also what the next
+ * step is counted from. Invoices drop out of the scan once paid.
+ */
+export async function paymentReminderHandler(job: Job<PaymentReminderJobData>): Promise<PaymentReminderResult> {
+  const { mode } = job.data
+  const errors: Array<{ invoiceId: string; error: string }> = []
+  const now = new Date()
+
+  const schedules = await prisma.dunningSchedule.findMany()
+  if (schedules.length === 0) {
+    return { success: true, mode, invoicesChecked: 0, remindersSent: 0, errors }
+  }
+
+  const defaultSchedules = new Map<string, DunningSteps>()
+  const clientSchedules = new Map<string, DunningSteps>()
+  for (const schedule of schedules) {
+    if (schedule.clientId) {
+      clientSchedules.set(schedule.clientId, schedule)
+    } else {
+      defaultSchedules.set(schedule.userId, schedule)
+    }
+  }
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      userId: { in: [...new Set(schedules.map((schedule) => schedule.userId))] },
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      balanceDue: { gt: 0 },
+      client: { remindersOptOut: false },
+    },
+    include: {
+      client: true,
+      user: true,
+      emailHistory: {
+        where: { type: 'payment-reminder', status: 'SENT' },
+        select: { sentAt: true },
+        orderBy: { sentAt: 'desc' },
+      },
+    },
+  })
+
+  let remindersSent = 0
+  for (const invoice of invoices) {
+    const client = invoice.client
+    if (!client) continue
+
+    const steps = clientSchedules.get(client.id) ?? defaultSchedules.get(invoice.userId)
+    if (!steps) continue
+
+    const due = getDueReminder(invoice.dueDate, steps, invoice.emailHistory.length, invoice.emailHistory[0]?.sentAt ?? null, now)
+    if (!due) continue
+
+    const subject = `Payment Reminder: Invoice ${invoice.invoiceNumber}`
+    try {
+      // The reminder links to the public invoice page
+      let publicAccessToken = invoice.publicAccessToken
+      if (!publicAccessToken || !invoice.tokenExpiresAt || now > invoice.tokenExpiresAt) {
+        publicAccessToken = generateSecureToken()
+        await prisma.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            publicAccessToken,
+            tokenExpiresAt: getTokenExpirationDate(90), // 90 days expiration
+          },
+        })
+      }
+
+      const result = await sendEmail({
+        to: client.email,
+        subject,
+        template: 'payment-reminder',
+        data: {
+          clientName: client.name,
+          senderName: invoice.user.name || 'Your Service Provider',
+          senderEmail: invoice.user.email,
+          companyName: invoice.user.name || undefined,
+          companyGSTIN: invoice.user.gstin || undefined,
+          companyAddress: invoice.user.address || undefined,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceDate: new Date(invoice.invoiceDate).toLocaleDateString('en-IN'),
+          dueDate: new Date(invoice.dueDate).toLocaleDateString('en-IN'),
+          amount: Number(invoice.balanceDue),
+          currency: invoice.currency,
+          viewUrl: `${process.env.NEXTAUTH_URL}/invoice/${publicAccessToken}`,
+          downloadUrl: `${process.env.NEXTAUTH_URL}/api/invoices/public/${publicAccessToken}/download`,
+          bankDetails: invoice.bankDetails || undefined,
+          daysOverdue: Math.max(0, differenceInCalendarDays(now, invoice.dueDate)),
+        },
+      })
+
+      await prisma.emailHistory.create({
+        data: {
+          userId: invoice.userId,
+          invoiceId: invoice.id,
+          type: 'payment-reminder',
+          to: client.email,
+          subject,
+          template: 'payment-reminder',
+          messageId: result.messageId,
+          status: 'SENT',
+          sentAt: result.timestamp,
+        },
+      })
+
+      remindersSent++
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      errors.push({ invoiceId: invoice.id, error: errorMessage })
+
+      await prisma.emailHistory.create({
+        data: {
+          userId: invoice.userId,
+          invoiceId: invoice.id,
+          type: 'payment-reminder',
+          to: client.email,
+          subject,
+          template: 'payment-reminder',
+          messageId: '',
+          status: 'FAILED',
+          sentAt: now,
+        },
+      })
+    }
+  }
+
+  return {
+    success: true,
+    mode,
+    invoicesChecked: invoices.length,
+    remindersSent,
+    errors,
+  }
+}
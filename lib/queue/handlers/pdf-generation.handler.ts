@@ -80,9 +80,15 @@ export async function pdfGenerationHandler(job: Job<PdfGenerationJobData>): Prom
       }
 
       // Cleanup old PDF file if it exists (best effort, don't fail job if cleanup fails)
+      // PDFs of earlier invoice versions are kept for the revision history
       if (oldPdfUrl && oldPdfUrl !== pdfUrl) {
         try {
-          await cleanupOldPDF(oldPdfUrl)
+          const revisionsWithPdf = await db.invoiceRevision.count({
+            where: { invoiceId, pdfUrl: oldPdfUrl },
+          })
+          if (revisionsWithPdf === 0) {
+            await cleanupOldPDF(oldPdfUrl)
+          }
         } catch (cleanupError) {
           console.warn(`Failed to cleanup old PDF ${oldPdfUrl}:`, cleanupError)
           // Don't fail the job because of cleanup error
@@ -0,0 +1,147 @@
+import type { Job, RealisationAlertJobData } from '../types'
+import { addDays, format, subMonths } from 'date-fns'
+import { prisma } from '@/lib/prisma'
+import { getQueueService } from '@/lib/queue'
+import { getAmountReceivable } from '@/lib/credit-debit-notes'
+import type { RealisationAlertInvoice } from '@/lib/email/templates'
+import {
+  REALISATION_ALERT_DAYS,
+  REALISATION_OVERDUE_LEVEL,
+  REALISATION_PERIOD_MONTHS,
+  getRealisationAlertLevel,
+  getRealisationSummary,
+  toRealisedPayment,
+} from '@/lib/realisation'
+
+interface RealisationAlertResult {
+  success: boolean
+  mode: string
+  invoicesFound: number
+  alertsSent: number
+  invoicesAlerted: number
+  errors: Array<{ userId: string; error: string }>
+}
+
+/**
+ * Handler for export realisation alert jobs
+ *
+ * Finds export invoices whose nine-month realisation deadline is within
+ * 60 days, within 15 days or past, and sends each user one digest email
+ * through the email queue. An invoice is included again only when it
+ * reaches the next alert level.
+ */
+export async function realisationAlertHandler(job: Job<RealisationAlertJobData>): Promise<RealisationAlertResult> {
+  const { mode } = job.data
+  const errors: Array<{ userId: string; error: string }> = []
+  const now = new Date()
+
+  // Invoices dated on or before this have a deadline within the first alert window
+  const latestInvoiceDate = subMonths(addDays(now, REALISATION_ALERT_DAYS[0]), REALISATION_PERIOD_MONTHS)
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      invoiceType: 'EXPORT',
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      clientId: { not: null },
+      balanceDue: { gt: 0 },
+      realisationAlertLevel: { lt: REALISATION_OVERDUE_LEVEL },
+      invoiceDate: { lte: latestInvoiceDate },
+    },
+    include: {
+      user: { select: { email: true, name: true } },
+      client: { select: { name: true } },
+      payments: {
+        include: { creditApplication: { include: { credit: { select: { receivedDate: true, fircNumber: true } } } } },
+      },
+    },
+    orderBy: { invoiceDate: 'asc' },
+  })
+
+  // Invoices due an alert, grouped by user
+  const alertsByUser = new Map<
+    string,
+    { email: string; name: string | null; invoices: Array<RealisationAlertInvoice & { id: string; level: number }> }
+  >()
+  for (const invoice of invoices) {
+    const summary = getRealisationSummary(
+      {
+        invoiceDate: invoice.invoiceDate,
+        amountReceivable: Number(getAmountReceivable(invoice)),
+        payments: invoice.payments.map(toRealisedPayment),
+      },
+      now
+    )
+    if (summary.status === 'REALISED') continue
+
+    const level = getRealisationAlertLevel(summary.daysRemaining)
+    if (level <= invoice.realisationAlertLevel) continue
+
+    if (!invoice.user.email) {
+      errors.push({ userId: invoice.userId, error: 'User email not found' })
+      continue
+    }
+
+    const userAlerts = alertsByUser.get(invoice.userId) ?? {
+      email: invoice.user.email,
+      name: invoice.user.name,
+      invoices: [],
+    }
+    userAlerts.invoices.push({
+      id: invoice.id,
+      level,
+      invoiceNumber: invoice.invoiceNumber,
+      clientName: invoice.client?.name ?? '',
+      invoiceDate: format(invoice.invoiceDate, 'yyyy-MM-dd'),
+      deadline: format(summary.deadline, 'yyyy-MM-dd'),
+      currency: invoice.currency,
+      unrealisedAmount: summary.unrealisedAmount,
+      daysRemaining: summary.daysRemaining,
+    })
+    alertsByUser.set(invoice.userId, userAlerts)
+  }
+
+  let alertsSent = 0
+  let invoicesAlerted = 0
+  for (const [userId, alerts] of alertsByUser) {
+    try {
+      const overdueCount = alerts.invoices.filter((invoice) => invoice.daysRemaining < 0).length
+      await getQueueService().enqueue('EMAIL_NOTIFICATION', {
+        to: alerts.email,
+        subject:
+          overdueCount > 0
+            ? `Action required: ${overdueCount} export invoice(s) past the realisation deadline`
+            : `Reminder: ${alerts.invoices.length} export invoice(s) nearing the realisation deadline`,
+        template: 'realisation-deadline',
+        data: {
+          userName: alerts.name || 'User',
+          realisationInvoices: alerts.invoices.map(({ id: _id, level: _level, ...invoice }) => invoice),
+          registerUrl: `${process.env.NEXT_PUBLIC_APP_URL}/payments/realisation`,
+        },
+        userId,
+      })
+
+      // Record the level reached so the same alert is not sent again
+      for (const level of new Set(alerts.invoices.map((invoice) => invoice.level))) {
+        await prisma.invoice.updateMany({
+          where: { id: { in: alerts.invoices.filter((invoice) => invoice.level === level).map((invoice) => invoice.id) } },
+          data: { realisationAlertLevel: level, realisationAlertSentAt: now },
+        })
+      }
+
+      alertsSent++
+      invoicesAlerted += alerts.invoices.length
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      errors.push({ userId, error: errorMessage })
+    }
+  }
+
+  return {
+    success: true,
+    mode,
+    invoicesFound: invoices.length,
+    alertsSent,
+    invoicesAlerted,
+    errors,
+  }
+}
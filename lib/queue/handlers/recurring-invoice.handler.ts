@@ -0,0 +1,248 @@
+import { NextRequest } from 'next/server'
+import type { Job, RecurringInvoiceJobData } from '../types'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+import {
+  getOccurrenceDate,
+  getRecurringDueDate,
+  isRecurringInvoiceDue,
+  isScheduleComplete,
+} from '@/lib/recurring-invoices'
+import { createCallerFactory } from '@/server/api/trpc'
+import { invoiceRouter } from '@/server/api/routers/invoice'
+
+type RecurringInvoiceWithRelations = Prisma.RecurringInvoiceGetPayload<{
+  include: { lineItems: true; client: true }
+}>
+
+interface RecurringInvoiceResult {
+  success: boolean
+  mode: string
+  schedulesFound: number
+  invoicesCreated: number
+  invoicesSent: number
+  errors: Array<{ recurringInvoiceId: string; error: string }>
+}
+
+const createInvoiceCaller = createCallerFactory(invoiceRouter)
+
+/**
+ * Build an invoice router caller acting on behalf of the schedule owner,
+ * so generated invoices go through exactly the same path as the invoice form
+ */
+function getInvoiceCaller(userId: string) {
+  return createInvoiceCaller({
+    session: {
+      user: { id: userId },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    },
+    prisma,
+    req: new NextRequest(process.env.NEXTAUTH_URL || 'http://localhost:3000'),
+  })
+}
+
+/**
+ * Generate the next invoice of a recurring schedule
+ * Returns whether the invoice was emailed to the client, or SKIPPED when
+ * another run already generated this occurrence.
+ */
+async function generateRecurringInvoice(
+  schedule: RecurringInvoiceWithRelations
+): Promise<'CREATED' | 'SENT' | 'SKIPPED'> {
+  const invoiceDate = schedule.nextRunDate
+
+  // Exchange rate of the invoice date (Rule 34 CGST Rules)
+  let exchangeRate = 1
+  let exchangeRateSource = 'INR'
+  if (schedule.currency !== 'INR') {
+    const rate = await getOrFetchExchangeRate(schedule.currency, invoiceDate)
+    if (!rate) {
+      throw new Error(`No exchange rate available for ${schedule.currency} on ${invoiceDate.toISOString().split('T')[0]}`)
+    }
+    exchangeRate = rate.rate
+    exchangeRateSource = rate.source
+  }
+
+  // Exports under LUT need one valid on the invoice date; exports with
+  // payment of IGST don't use an LUT
+  const isExport = schedule.invoiceType !== 'DOMESTIC'
+  const exportWithPayment = isExport && schedule.exportWithPayment
+  let lutId: string | undefined
+  if (isExport && !exportWithPayment) {
+    const lut = await prisma.lUT.findFirst({
+      where: {
+        userId: schedule.userId,
+        isActive: true,
+        validFrom: { lte: invoiceDate },
+        validTill: { gte: invoiceDate },
+      },
+      orderBy: { validTill: 'desc' },
+    })
+    if (!lut) {
+      throw new Error('No active LUT valid on the invoice date')
+    }
+    lutId = lut.id
+  }
+
+  // Claim the occurrence by moving the schedule on, so overlapping runs
+  // generate it once
+  const occurrences = schedule.occurrences + 1
+  const nextRunDate = getOccurrenceDate(schedule.startDate, schedule.frequency, occurrences)
+
+  const claimed = await prisma.recurringInvoice.updateMany({
+    where: { id: schedule.id, occurrences: schedule.occurrences },
+    data: {
+      occurrences,
+      nextRunDate,
+      lastRunAt: new Date(),
+      lastError: null,
+      isActive: !isScheduleComplete(nextRunDate, schedule.endDate),
+    },
+  })
+
+  if (claimed.count === 0) {
+    return 'SKIPPED'
+  }
+
+  const caller = getInvoiceCaller(schedule.userId)
+
+  let created
+  try {
+    created = await caller.create({
+      invoiceType: isExport ? 'EXPORT' : 'DOMESTIC',
+      clientId: schedule.clientId,
+      lutId,
+      exportWithPayment: isExport ? exportWithPayment : undefined,
+      gstRate: schedule.gstRate !== null ? Number(schedule.gstRate) : undefined,
+      issueDate: invoiceDate,
+      dueDate: getRecurringDueDate(invoiceDate, schedule.paymentTerms),
+      currency: schedule.currency,
+      exchangeRate,
+      exchangeRateSource,
+      paymentTerms: schedule.paymentTerms,
+      bankDetails: schedule.bankDetails ?? undefined,
+      notes: schedule.notes ?? undefined,
+      lineItems: schedule.lineItems.map((item) => ({
+        description: item.description,
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        sacCode: item.serviceCode,
+        discountType: item.discountType ?? undefined,
+        discountValue: item.discountType ? Number(item.discountValue) : undefined,
+        gstRate: item.gstRate !== null ? Number(item.gstRate) : undefined,
+      })),
+    })
+  } catch (error) {
+    // Release the claim so the next scan retries this occurrence
+    await prisma.recurringInvoice.updateMany({
+      where: { id: schedule.id, occurrences },
+      data: {
+        occurrences: schedule.occurrences,
+        nextRunDate: schedule.nextRunDate,
+        lastRunAt: schedule.lastRunAt,
+        isActive: schedule.isActive,
+      },
+    })
+    throw error
+  }
+
+  const { invoice } = created
+
+  // Link the invoice to its schedule
+  await prisma.invoice.update({
+    where: { id: invoice.id },
+    data: { recurringInvoiceId: schedule.id },
+  })
+
+  if (!schedule.autoSend) {
+    return 'CREATED'
+  }
+
+  // Email failures shouldn't roll back the generated invoice
+  try {
+    await caller.sendInvoiceEmail({
+      id: invoice.id,
+      to: schedule.sendTo || schedule.client.email,
+    })
+    return 'SENT'
+  } catch (error) {
+    console.error(`[RecurringInvoice] Failed to send invoice ${invoice.invoiceNumber}:`, error)
+    return 'CREATED'
+  }
+}
+
+/**
+ * Handler for recurring invoice jobs
+ * Supports two modes:
+ * - 'scan': Generate invoices for every active schedule that is due
+ * - 'single': Generate the next invoice of a specific schedule immediately
+ */
+export async function recurringInvoiceHandler(
+  job: Job<RecurringInvoiceJobData>
+): Promise<RecurringInvoiceResult> {
+  const { mode, recurringInvoiceId } = job.data
+  const errors: Array<{ recurringInvoiceId: string; error: string }> = []
+  let invoicesCreated = 0
+  let invoicesSent = 0
+
+  let schedules: RecurringInvoiceWithRelations[]
+
+  if (mode === 'single') {
+    if (!recurringInvoiceId) {
+      return {
+        success: false,
+        mode,
+        schedulesFound: 0,
+        invoicesCreated: 0,
+        invoicesSent: 0,
+        errors: [{ recurringInvoiceId: 'unknown', error: 'recurringInvoiceId is required for single mode' }],
+      }
+    }
+
+    schedules = await prisma.recurringInvoice.findMany({
+      where: { id: recurringInvoiceId, isActive: true },
+      include: { lineItems: true, client: true },
+    })
+  } else {
+    const now = new Date()
+    schedules = await prisma.recurringInvoice.findMany({
+      where: {
+        isActive: true,
+        nextRunDate: { lte: now },
+      },
+      include: { lineItems: true, client: true },
+    })
+    schedules = schedules.filter((schedule) => isRecurringInvoiceDue(schedule, now))
+  }
+
+  for (const schedule of schedules) {
+    try {
+      const outcome = await generateRecurringInvoice(schedule)
+      if (outcome === 'SKIPPED') continue
+
+      invoicesCreated++
+      if (outcome === 'SENT') {
+        invoicesSent++
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      errors.push({ recurringInvoiceId: schedule.id, error: errorMessage })
+
+      // Keep the schedule where it is so the next scan retries it
+      await prisma.recurringInvoice.update({
+        where: { id: schedule.id },
+        data: { lastError: errorMessage },
+      })
+    }
+  }
+
+  return {
+    success: true,
+    mode,
+    schedulesFound: schedules.length,
+    invoicesCreated,
+    invoicesSent,
+    errors,
+  }
+}
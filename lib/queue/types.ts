@@ -8,6 +8,9 @@ export const JobTypeEnum = z.enum([
   'PAYMENT_REMINDER',
   'LUT_REMINDER',
   'DOCUMENT_PROCESSING',
+  'RECURRING_INVOICE',
+  'REALISATION_ALERT',
+  'INVOICE_OVERDUE',
 ])
 
 export type JobType = z.infer<typeof JobTypeEnum>
@@ -135,6 +138,7 @@ export const EmailNotificationJobSchema = z.object({
   template: z.string(),
   data: z.record(z.string(), z.any()),
   userId: z.string().optional(),
+  invoiceId: z.string().optional(), // Send is recorded in the invoice's email history
 })
 
 export const ExchangeRateFetchJobSchema = z.object({
@@ -144,10 +148,7 @@ export const ExchangeRateFetchJobSchema = z.object({
 })
 
 export const PaymentReminderJobSchema = z.object({
-  invoiceId: z.string(),
-  clientId: z.string(),
-  userId: z.string(),
-  reminderNumber: z.number(),
+  mode: z.enum(['scan']),
 })
 
 export const LutReminderJobSchema = z.object({
@@ -164,6 +165,19 @@ export const DocumentProcessingJobSchema = z.object({
   mimeType: z.string(),
 })
 
+export const RecurringInvoiceJobSchema = z.object({
+  mode: z.enum(['scan', 'single']),
+  recurringInvoiceId: z.string().optional(), // Required when mode is 'single'
+})
+
+export const RealisationAlertJobSchema = z.object({
+  mode: z.enum(['scan']),
+})
+
+export const InvoiceOverdueJobSchema = z.object({
+  mode: z.enum(['scan']),
+})
+
 // Type helpers
 export type PdfGenerationJobData = z.infer<typeof PdfGenerationJobSchema>
 export type EmailNotificationJobData = z.infer<typeof EmailNotificationJobSchema>
@@ -171,6 +185,9 @@ export type ExchangeRateFetchJobData = z.infer<typeof ExchangeRateFetchJobSchema
 export type PaymentReminderJobData = z.infer<typeof PaymentReminderJobSchema>
 export type LutReminderJobData = z.infer<typeof LutReminderJobSchema>
 export type DocumentProcessingJobData = z.infer<typeof DocumentProcessingJobSchema>
+export type RecurringInvoiceJobData = z.infer<typeof RecurringInvoiceJobSchema>
+export type RealisationAlertJobData = z.infer<typeof RealisationAlertJobSchema>
+export type InvoiceOverdueJobData = z.infer<typeof InvoiceOverdueJobSchema>
 
 // Job Events
 export interface QueueEvents {
@@ -0,0 +1,424 @@
+/**
+ * Export Realisation
+ *
+ * FEMA requires the value of exported services to be realised within
+ * nine months of the invoice date, and the jurisdictional officer may
+ * withdraw a LUT while export proceeds remain unrealised. Realisation is
+ * evidenced by the bank's FIRC or the e-BRC generated on the DGFT portal,
+ * so the register tracks both the money received and the documents
+ * held against it.
+ */
+
+import { addDays, addMonths, differenceInCalendarDays, subDays } from 'date-fns'
+import type { Prisma } from '@prisma/client'
+import { normalizeHeader } from '@/lib/spreadsheet'
+import { parseImportDate } from '@/lib/invoice-import'
+
+// Months from the invoice date within which export proceeds must be realised
+export const REALISATION_PERIOD_MONTHS = 9
+
+// Days before the deadline at which an alert is sent, first to last
+export const REALISATION_ALERT_DAYS = [60, 15] as const
+
+// Alert level stored on the invoice once the deadline has passed
+export const REALISATION_OVERDUE_LEVEL = REALISATION_ALERT_DAYS.length + 1
+
+const EPSILON = 0.01
+
+export type RealisationStatus = 'REALISED' | 'PARTIALLY_REALISED' | 'UNREALISED' | 'OVERDUE'
+
+/**
+ * An export invoice with the payments received against it
+ */
+export interface InvoiceForRealisation {
+  invoiceDate: Date
+  amountReceivable: number // Invoice total adjusted by credit and debit notes
+  payments: Array<{
+    amount: number
+    realisedOn: Date // Date the money was received (advance date for credit applied)
+    fircNumber?: string | null
+  }>
+}
+
+/**
+ * A payment as stored, with the client credit it was settled from
+ */
+export interface PaymentWithCreditSource {
+  amount: Prisma.Decimal | number
+  paymentDate: Date
+  fircNumber: string | null
+  creditApplication?: { credit: { receivedDate: Date; fircNumber: string | null } } | null
+}
+
+/**
+ * Realisation position of one invoice
+ */
+export interface RealisationSummary {
+  status: RealisationStatus
+  deadline: Date
+  realisedAmount: number
+  unrealisedAmount: number
+  realisedDate: Date | null // Date of the payment that completed realisation
+  daysOutstanding: number // Invoice date to realisation, or to today while open
+  daysRemaining: number // Days to the deadline; negative once it has passed
+  realisedLate: boolean
+  fircCoveredAmount: number // Realised amount backed by a FIRC or e-BRC
+  missingFirc: boolean
+}
+
+/**
+ * Last day by which an invoice must be realised
+ */
+export function getRealisationDeadline(invoiceDate: Date): Date {
+  return addMonths(invoiceDate, REALISATION_PERIOD_MONTHS)
+}
+
+/**
+ * A payment settled from client credit was realised when the advance or
+ * overpayment was received, and is evidenced by that receipt's FIRC
+ */
+export function toRealisedPayment(payment: PaymentWithCreditSource): InvoiceForRealisation['payments'][number] {
+  const credit = payment.creditApplication?.credit
+  return {
+    amount: Number(payment.amount),
+    realisedOn: credit?.receivedDate ?? payment.paymentDate,
+    fircNumber: payment.fircNumber ?? credit?.fircNumber,
+  }
+}
+
+/**
+ * Work out how much of an invoice has been realised and how close it is
+ * to the deadline
+ *
+ * @param asOf - Date the position is measured at
+ */
+export function getRealisationSummary(invoice: InvoiceForRealisation, asOf: Date = new Date()): RealisationSummary {
+  const deadline = getRealisationDeadline(invoice.invoiceDate)
+  const payments = [...invoice.payments].sort((a, b) => a.realisedOn.getTime() - b.realisedOn.getTime())
+
+  let realisedAmount = 0
+  let fircCoveredAmount = 0
+  let realisedDate: Date | null = null
+  for (const payment of payments) {
+    realisedAmount += payment.amount
+    if (payment.fircNumber) fircCoveredAmount += payment.amount
+    if (!realisedDate && realisedAmount >= invoice.amountReceivable - EPSILON) {
+      realisedDate = payment.realisedOn
+    }
+  }
+
+  // Nothing to realise once credit notes cancel the whole invoice
+  if (!realisedDate && invoice.amountReceivable <= EPSILON) {
+    realisedDate = invoice.invoiceDate
+  }
+
+  const unrealisedAmount = Math.max(round(invoice.amountReceivable - realisedAmount), 0)
+  const daysRemaining = differenceInCalendarDays(deadline, asOf)
+
+  let status: RealisationStatus
+  if (realisedDate) {
+    status = 'REALISED'
+  } else if (daysRemaining < 0) {
+    status = 'OVERDUE'
+  } else if (realisedAmount > EPSILON) {
+    status = 'PARTIALLY_REALISED'
+  } else {
+    status = 'UNREALISED'
+  }
+
+  return {
+    status,
+    deadline,
+    realisedAmount: round(realisedAmount),
+    unrealisedAmount,
+    realisedDate,
+    daysOutstanding: differenceInCalendarDays(realisedDate ?? asOf, invoice.invoiceDate),
+    daysRemaining,
+    realisedLate: !!realisedDate && realisedDate > deadline,
+    fircCoveredAmount: round(fircCoveredAmount),
+    missingFirc: realisedAmount - fircCoveredAmount > EPSILON,
+  }
+}
+
+/**
+ * Alert level an unrealised invoice has reached: 0 while the deadline is
+ * more than 60 days away, 1 within 60 days, 2 within 15 days, 3 once
+ * overdue
+ */
+export function getRealisationAlertLevel(daysRemaining: number): number {
+  if (daysRemaining < 0) return REALISATION_OVERDUE_LEVEL
+  let level = 0
+  REALISATION_ALERT_DAYS.forEach((days, index) => {
+    if (daysRemaining <= days) level = index + 1
+  })
+  return level
+}
+
+/**
+ * A certificate row read from a FIRC or e-BRC register
+ */
+export interface FircRecord {
+  rowNumber: number
+  documentNumber: string // FIRC, IRM or e-BRC number
+  documentDate?: Date
+  currency?: string
+  foreignAmount?: number
+  inrAmount?: number
+  remitter?: string
+  reference: string // Invoice number, shipping bill and remittance details as printed
+}
+
+/**
+ * FIRC register parse result
+ */
+export interface FircParseResult {
+  success: boolean
+  records?: FircRecord[]
+  error?: string
+}
+
+// Normalized header names used by the DGFT e-BRC download and bank FIRC/IRM reports
+const NUMBER_COLUMNS = [
+  'ebrc_no', 'ebrc_number', 'e_brc_no', 'e_brc_number', 'brc_no', 'brc_number', 'firc_no', 'firc_number',
+  'irm_no', 'irm_number', 'certificate_no', 'certificate_number', 'document_no', 'document_number',
+]
+const DATE_COLUMNS = [
+  'ebrc_date', 'e_brc_date', 'brc_date', 'firc_date', 'irm_date', 'certificate_date', 'realisation_date',
+  'remittance_date', 'date',
+]
+const CURRENCY_COLUMNS = ['currency', 'fcc', 'ccy', 'remittance_currency', 'realised_currency', 'fc_currency']
+const FOREIGN_AMOUNT_COLUMNS = [
+  'realised_value_in_fcc', 'realised_value_fcc', 'fcc_amount', 'fcy_amount', 'amount_fcy', 'foreign_amount',
+  'remittance_amount', 'amount',
+]
+const INR_AMOUNT_COLUMNS = ['realised_value_in_inr', 'realised_value_inr', 'inr_amount', 'amount_inr', 'inr_value']
+const REMITTER_COLUMNS = ['remitter', 'remitter_name', 'buyer_name', 'ordering_customer', 'payer', 'client_name']
+const REFERENCE_COLUMNS = [
+  'invoice_no', 'invoice_number', 'shipping_bill_no', 'sb_no', 'reference', 'remittance_info', 'purpose',
+  'remarks', 'narration', 'description',
+]
+
+/**
+ * Read a FIRC or e-BRC register downloaded from the bank or the DGFT portal.
+ * Title rows above the table are skipped by looking for the row with a
+ * certificate number column next to an amount column.
+ *
+ * @param rows - Spreadsheet rows as read by readSpreadsheet
+ */
+export function parseFircRegister(rows: string[][]): FircParseResult {
+  const headerIndex = rows.findIndex((row) => {
+    const columns = row.map(normalizeHeader)
+    return (
+      findColumn(columns, NUMBER_COLUMNS) !== -1 &&
+      (findColumn(columns, FOREIGN_AMOUNT_COLUMNS) !== -1 || findColumn(columns, INR_AMOUNT_COLUMNS) !== -1)
+    )
+  })
+
+  if (headerIndex === -1) {
+    return {
+      success: false,
+      error: 'Could not find the certificate table. Expected a FIRC, IRM or e-BRC number column and an amount column',
+    }
+  }
+
+  const columns = rows[headerIndex].map(normalizeHeader)
+  const numberColumn = findColumn(columns, NUMBER_COLUMNS)
+  const dateColumn = findColumn(columns, DATE_COLUMNS)
+  const currencyColumn = findColumn(columns, CURRENCY_COLUMNS)
+  const foreignAmountColumn = findColumn(columns, FOREIGN_AMOUNT_COLUMNS)
+  const inrAmountColumn = findColumn(columns, INR_AMOUNT_COLUMNS)
+  const remitterColumn = findColumn(columns, REMITTER_COLUMNS)
+  const referenceColumns = columns
+    .map((column, index) => (REFERENCE_COLUMNS.includes(column) ? index : -1))
+    .filter((index) => index !== -1)
+
+  const records: FircRecord[] = []
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    const documentNumber = row[numberColumn]?.trim()
+    // Totals and blank lines have no certificate number
+    if (!documentNumber) return
+
+    const foreignAmount = foreignAmountColumn !== -1 ? parseAmount(row[foreignAmountColumn]) : undefined
+    const inrAmount = inrAmountColumn !== -1 ? parseAmount(row[inrAmountColumn]) : undefined
+    if (!foreignAmount && !inrAmount) return
+
+    records.push({
+      rowNumber: headerIndex + index + 2,
+      documentNumber,
+      documentDate: dateColumn !== -1 ? parseImportDate(row[dateColumn]) : undefined,
+      currency: (currencyColumn !== -1 && row[currencyColumn]?.trim().toUpperCase()) || undefined,
+      foreignAmount,
+      inrAmount,
+      remitter: (remitterColumn !== -1 && row[remitterColumn]?.trim()) || undefined,
+      reference: referenceColumns.map((column) => row[column] ?? '').join(' ').trim(),
+    })
+  })
+
+  if (records.length === 0) {
+    return { success: false, error: 'The file has no certificates' }
+  }
+
+  return { success: true, records }
+}
+
+/**
+ * A payment that has no FIRC or e-BRC recorded yet
+ */
+export interface PaymentForFircMatching {
+  id: string
+  invoiceNumber: string
+  clientName: string
+  currency: string
+  amount: number // In invoice currency
+  creditedAmount: number | null // INR credited to the bank
+  paymentDate: Date
+  reference?: string | null
+}
+
+/**
+ * Proposed payment for a certificate
+ */
+export interface FircMatchProposal {
+  paymentId: string
+  score: number // 0-100
+  reasons: string[]
+}
+
+// Minimum score for a match to be proposed
+export const MIN_FIRC_MATCH_SCORE = 40
+
+// Certificates are issued on or after the credit, sometimes months later for e-BRCs
+const DAYS_BEFORE_PAYMENT = 7
+const DAYS_AFTER_PAYMENT = 180
+
+// Correspondent bank charges reduce the amount certified
+const FEE_TOLERANCE = 0.05
+
+/**
+ * Score how likely a certificate is to evidence a payment
+ *
+ * @returns Score from 0-100 and the reasons behind it, or null if the
+ *          certificate cannot belong to the payment
+ */
+export function scoreFircAgainstPayment(
+  record: FircRecord,
+  payment: PaymentForFircMatching
+): FircMatchProposal | null {
+  if (record.currency && record.currency !== payment.currency) {
+    return null
+  }
+
+  const reasons: string[] = []
+  let score = 0
+
+  const hasReference =
+    normalizeReference(record.reference).includes(normalizeReference(payment.invoiceNumber)) ||
+    (!!payment.reference && normalizeReference(payment.reference) === normalizeReference(record.documentNumber))
+  if (hasReference) {
+    score += 50
+    reasons.push('Invoice or remittance reference matches')
+  }
+
+  const foreignShortfall = record.foreignAmount ? (payment.amount - record.foreignAmount) / payment.amount : null
+  if (foreignShortfall !== null && Math.abs(payment.amount - record.foreignAmount!) <= EPSILON) {
+    score += 35
+    reasons.push('Amount equals payment')
+  } else if (foreignShortfall !== null && foreignShortfall >= 0 && foreignShortfall <= FEE_TOLERANCE) {
+    score += 25
+    reasons.push('Amount within charges of payment')
+  } else if (record.inrAmount && payment.creditedAmount && Math.abs(record.inrAmount - payment.creditedAmount) <= 1) {
+    score += 35
+    reasons.push('INR value equals amount credited')
+  } else if (!hasReference) {
+    return null
+  }
+
+  if (record.remitter && mentionsClient(record.remitter, payment.clientName)) {
+    score += 15
+    reasons.push('Remitter is the client')
+  }
+
+  if (record.documentDate) {
+    const windowStart = subDays(payment.paymentDate, DAYS_BEFORE_PAYMENT)
+    const windowEnd = addDays(payment.paymentDate, DAYS_AFTER_PAYMENT)
+    if (record.documentDate >= windowStart && record.documentDate <= windowEnd) {
+      score += 10
+      reasons.push('Issued after the payment was received')
+    } else if (!hasReference) {
+      return null
+    }
+  }
+
+  return {
+    paymentId: payment.id,
+    score: Math.min(score, 100),
+    reasons,
+  }
+}
+
+/**
+ * Propose a payment for each certificate. Each payment is proposed for at
+ * most one certificate, best scores first.
+ *
+ * @returns Proposal per record index (records without a match are absent)
+ */
+export function proposeFircMatches(
+  records: FircRecord[],
+  payments: PaymentForFircMatching[]
+): Map<number, FircMatchProposal> {
+  const candidates: Array<{ recordIndex: number; proposal: FircMatchProposal }> = []
+  records.forEach((record, recordIndex) => {
+    for (const payment of payments) {
+      const proposal = scoreFircAgainstPayment(record, payment)
+      if (proposal && proposal.score >= MIN_FIRC_MATCH_SCORE) {
+        candidates.push({ recordIndex, proposal })
+      }
+    }
+  })
+
+  candidates.sort((a, b) => b.proposal.score - a.proposal.score)
+
+  const proposals = new Map<number, FircMatchProposal>()
+  const usedPayments = new Set<string>()
+  for (const { recordIndex, proposal } of candidates) {
+    if (proposals.has(recordIndex) || usedPayments.has(proposal.paymentId)) continue
+    proposals.set(recordIndex, proposal)
+    usedPayments.add(proposal.paymentId)
+  }
+
+  return proposals
+}
+
+function findColumn(columns: string[], candidates: string[]): number {
+  return columns.findIndex((column) => candidates.includes(column))
+}
+
+/**
+ * Read an amount such as "1,23,456.78" or "USD 1,000.00"
+ */
+function parseAmount(value: string | undefined): number | undefined {
+  const text = value?.replace(/[^0-9.]/g, '')
+  if (!text) return undefined
+  const number = Number(text)
+  return Number.isFinite(number) && number > 0 ? number : undefined
+}
+
+function normalizeReference(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Check whether the remitter is the client by the first distinctive word
+ * of the client's name
+ */
+function mentionsClient(remitter: string, clientName: string): boolean {
+  const word = clientName
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .find((part) => part.length >= 4 && !['THE', 'INC', 'LTD', 'LLC', 'CORP', 'GMBH'].includes(part))
+  return !!word && remitter.toUpperCase().includes(word)
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,71 @@
+import { addDays, addMonths, addQuarters, addWeeks, addYears } from 'date-fns'
+import type { RecurringFrequency } from '@prisma/client'
+
+/**
+ * Get the invoice date of the nth occurrence of a recurring schedule
+ *
+ * Dates are always derived from the start date rather than the previous run,
+ * so a schedule starting on the 31st stays on month-end instead of drifting
+ * to the 28th after February.
+ *
+ * @param startDate - First invoice date of the schedule
+ * @param frequency - How often invoices are raised
+ * @param occurrence - Zero-based occurrence index
+ * @returns Invoice date of that occurrence
+ */
+export function getOccurrenceDate(
+  startDate: Date,
+  frequency: RecurringFrequency,
+  occurrence: number
+): Date {
+  switch (frequency) {
+    case 'WEEKLY':
+      return addWeeks(startDate, occurrence)
+    case 'MONTHLY':
+      return addMonths(startDate, occurrence)
+    case 'QUARTERLY':
+      return addQuarters(startDate, occurrence)
+    case 'YEARLY':
+      return addYears(startDate, occurrence)
+  }
+}
+
+/**
+ * Check whether a schedule has run past its end date
+ *
+ * @param nextRunDate - Invoice date of the next occurrence
+ * @param endDate - Last possible invoice date (open-ended if null)
+ * @returns true if no further invoices should be generated
+ */
+export function isScheduleComplete(nextRunDate: Date, endDate: Date | null): boolean {
+  return endDate !== null && nextRunDate > endDate
+}
+
+/**
+ * Check whether a recurring invoice is due for generation
+ *
+ * @param schedule - Active flag, next run date and end date of the schedule
+ * @param now - Reference time (defaults to current time)
+ * @returns true if an invoice should be generated now
+ */
+export function isRecurringInvoiceDue(
+  schedule: { isActive: boolean; nextRunDate: Date; endDate: Date | null },
+  now: Date = new Date()
+): boolean {
+  return (
+    schedule.isActive &&
+    schedule.nextRunDate <= now &&
+    !isScheduleComplete(schedule.nextRunDate, schedule.endDate)
+  )
+}
+
+/**
+ * Calculate the due date of a generated invoice from its payment terms
+ *
+ * @param invoiceDate - Invoice date
+ * @param paymentTerms - Days until due
+ * @returns Due date
+ */
+export function getRecurringDueDate(invoiceDate: Date, paymentTerms: number): Date {
+  return addDays(invoiceDate, paymentTerms)
+}
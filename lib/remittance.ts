@@ -0,0 +1,117 @@
+/**
+ * Remittances Across Several Invoices
+ *
+ * A client often settles several invoices with one wire. The remittance
+ * holds what arrived once (amount sent, platform fees, INR credited, bank
+ * charges, FIRC), and each invoice it pays gets a payment for its share.
+ * Fees, the INR credited and bank charges are apportioned in proportion to
+ * the amount allocated to each invoice, with rounding differences on the
+ * last allocation so the parts add up to the remittance.
+ */
+
+/**
+ * Amounts of a remittance that are shared between its invoices
+ */
+export interface RemittanceAmounts {
+  amount: number // Amount the client sent, in the invoice currency
+  platformFeesInCurrency?: number
+  creditedAmount?: number // INR credited to the bank
+  bankChargesInr?: number
+}
+
+/**
+ * An invoice with the balance a remittance can pay
+ */
+export interface InvoiceForAllocation {
+  invoiceId: string
+  balanceDue: number
+}
+
+/**
+ * Amount of a remittance allocated to one invoice
+ */
+export interface RemittanceAllocation {
+  invoiceId: string
+  amount: number
+}
+
+/**
+ * The payment recorded on one invoice for its share of a remittance
+ */
+export interface ApportionedPayment extends RemittanceAllocation {
+  amountReceivedBeforeFees: number | null
+  platformFeesInCurrency: number | null
+  creditedAmount: number | null
+  bankChargesInr: number | null
+}
+
+/**
+ * Allocate an amount to invoices in the order given, paying each in full
+ * and the last one in part
+ *
+ * @param amount - Amount to allocate
+ * @param invoices - Invoices in the order they should be paid
+ * @returns Allocations for the invoices that receive an amount
+ */
+export function allocateRemittance(amount: number, invoices: InvoiceForAllocation[]): RemittanceAllocation[] {
+  const allocations: RemittanceAllocation[] = []
+  let remaining = roundTo2Decimals(amount)
+
+  for (const invoice of invoices) {
+    if (remaining <= 0) break
+    const allocated = Math.min(remaining, roundTo2Decimals(invoice.balanceDue))
+    if (allocated <= 0) continue
+
+    allocations.push({ invoiceId: invoice.invoiceId, amount: allocated })
+    remaining = roundTo2Decimals(remaining - allocated)
+  }
+
+  return allocations
+}
+
+/**
+ * Split the fees, INR credited and bank charges of a remittance across its
+ * allocations, in proportion to the amount allocated to each invoice
+ *
+ * @param remittance - Remittance totals
+ * @param allocations - Amounts allocated to each invoice, adding up to the remittance amount
+ * @returns The payment to record on each invoice
+ */
+export function apportionRemittance(
+  remittance: RemittanceAmounts,
+  allocations: RemittanceAllocation[]
+): ApportionedPayment[] {
+  const fees = apportion(remittance.platformFeesInCurrency, allocations)
+  const credited = apportion(remittance.creditedAmount, allocations)
+  const bankCharges = apportion(remittance.bankChargesInr, allocations)
+
+  return allocations.map((allocation, index) => ({
+    invoiceId: allocation.invoiceId,
+    amount: allocation.amount,
+    platformFeesInCurrency: fees?.[index] ?? null,
+    amountReceivedBeforeFees: fees ? roundTo2Decimals(allocation.amount - fees[index]) : null,
+    creditedAmount: credited?.[index] ?? null,
+    bankChargesInr: bankCharges?.[index] ?? null,
+  }))
+}
+
+/**
+ * Split a total in proportion to the allocations, putting the rounding
+ * difference on the last one
+ */
+function apportion(total: number | undefined, allocations: RemittanceAllocation[]): number[] | null {
+  if (total === undefined || allocations.length === 0) return null
+
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0)
+  const shares = allocations.map((allocation) =>
+    allocated > 0 ? roundTo2Decimals((total * allocation.amount) / allocated) : 0
+  )
+  const difference = roundTo2Decimals(total - shares.reduce((sum, share) => sum + share, 0))
+  shares[shares.length - 1] = roundTo2Decimals(shares[shares.length - 1] + difference)
+
+  return shares
+}
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
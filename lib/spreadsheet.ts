@@ -0,0 +1,274 @@
+/**
+ * Spreadsheet Reader
+ *
+ * Reads CSV and XLSX uploads into rows of cell text. Only the first
+ * worksheet of a workbook is read; formatting is ignored and dates come
+ * through as Excel serial numbers.
+ */
+
+import { inflateRawSync } from 'node:zlib'
+
+/**
+ * A data row keyed by normalized column header
+ */
+export interface SpreadsheetRecord {
+  /** Row number as shown in the spreadsheet (the header is row 1) */
+  rowNumber: number
+  values: Record<string, string>
+}
+
+/**
+ * Parse result
+ */
+export interface SpreadsheetParseResult {
+  success: boolean
+  rows?: string[][]
+  error?: string
+}
+
+/**
+ * Read an uploaded CSV or XLSX file
+ *
+ * @param fileName - Original file name, used to pick the format
+ * @param data - File contents
+ */
+export function readSpreadsheet(fileName: string, data: Buffer): SpreadsheetParseResult {
+  const extension = fileName.toLowerCase().split('.').pop()
+
+  try {
+    if (extension === 'csv') {
+      return { success: true, rows: parseCSV(data.toString('utf8')) }
+    }
+    if (extension === 'xlsx') {
+      return { success: true, rows: parseXLSX(data) }
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read spreadsheet',
+    }
+  }
+
+  return {
+    success: false,
+    error: 'Unsupported file type. Upload a .csv or .xlsx file',
+  }
+}
+
+/**
+ * Parse CSV content, handling quoted values, escaped quotes and line breaks
+ * inside quotes. Blank lines are dropped.
+ */
+export function parseCSV(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let inQuotes = false
+
+  // Strip the byte order mark Excel adds to UTF-8 exports
+  const text = content.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(value.trim())
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(value.trim())
+      rows.push(row)
+      row = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+
+  row.push(value.trim())
+  rows.push(row)
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ''))
+}
+
+/**
+ * Parse the first worksheet of an XLSX workbook
+ */
+export function parseXLSX(data: Buffer): string[][] {
+  const files = readZipEntries(data)
+
+  const sharedStrings = files.has('xl/sharedStrings.xml')
+    ? Array.from(files.get('xl/sharedStrings.xml')!.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => readText(match[1]))
+    : []
+
+  const sheet = files.get(findFirstSheetPath(files))
+  if (!sheet) {
+    throw new Error('The workbook does not contain a worksheet')
+  }
+
+  const rows: string[][] = []
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = []
+    let nextColumn = 0
+
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const content = cellMatch[2] ?? ''
+      const reference = /\br="([A-Z]+)\d+"/.exec(attributes)?.[1]
+      const column = reference ? columnIndex(reference) : nextColumn
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1]
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1]
+
+      let value: string
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = readText(content)
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE'
+      } else {
+        value = rawValue !== undefined ? decodeXml(rawValue) : ''
+      }
+
+      // Empty cells are omitted from the sheet, so pad up to this column
+      while (cells.length < column) cells.push('')
+      cells[column] = value.trim()
+      nextColumn = column + 1
+    }
+
+    rows.push(cells)
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell !== ''))
+}
+
+/**
+ * Turn rows into records keyed by the header row
+ *
+ * @param rows - Spreadsheet rows, header first
+ */
+export function toRecords(rows: string[][]): SpreadsheetRecord[] {
+  const [header, ...dataRows] = rows
+  if (!header) return []
+
+  const columns = header.map(normalizeHeader)
+
+  return dataRows.map((cells, index) => ({
+    rowNumber: index + 2,
+    values: Object.fromEntries(
+      columns
+        .map((column, columnIndex) => [column, cells[columnIndex] ?? ''] as const)
+        .filter(([column]) => column !== '')
+    ),
+  }))
+}
+
+/**
+ * Normalize a column header, e.g. "Invoice Date" → invoice_date
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+}
+
+/**
+ * Read the entries of a ZIP archive as text, keyed by path
+ */
+function readZipEntries(data: Buffer): Map<string, string> {
+  // End of central directory record, searched from the end past any comment
+  let endOffset = -1
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 65557); offset--) {
+    if (data.readUInt32LE(offset) === 0x06054b50) {
+      endOffset = offset
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('The file is not a valid XLSX workbook')
+  }
+
+  const entryCount = data.readUInt16LE(endOffset + 10)
+  let offset = data.readUInt32LE(endOffset + 16)
+  const entries = new Map<string, string>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('The file is not a valid XLSX workbook')
+    }
+
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    if (name.endsWith('.xml') || name.endsWith('.rels')) {
+      const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+      const compressed = data.subarray(dataStart, dataStart + compressedSize)
+      const content = method === 8 ? inflateRawSync(compressed) : compressed
+      entries.set(name, content.toString('utf8'))
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Path of the first worksheet listed in the workbook
+ */
+function findFirstSheetPath(files: Map<string, string>): string {
+  const relationshipId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(files.get('xl/workbook.xml') ?? '')?.[1]
+  const relationships = files.get('xl/_rels/workbook.xml.rels') ?? ''
+
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (match[0].includes(`Id="${relationshipId}"`)) {
+      const target = /Target="([^"]+)"/.exec(match[0])?.[1] ?? ''
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml'
+}
+
+/**
+ * Concatenate the text runs of a shared or inline string
+ */
+function readText(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join('')
+}
+
+/**
+ * Zero-based index of a column reference, e.g. A → 0, AB → 27
+ */
+function columnIndex(reference: string): number {
+  return reference.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
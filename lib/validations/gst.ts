@@ -141,6 +141,7 @@ export function validateGSTInvoice(invoice: {
   serviceCode: string
   igstRate: number
   lutId?: string | null
+  exportWithPayment?: boolean
   currency: string
   exchangeRate: number
   exchangeSource: string
@@ -148,16 +149,27 @@ export function validateGSTInvoice(invoice: {
   const errors: string[] = []
   const warnings: string[] = []
 
-  // For exports under LUT
+  // For exports, either under LUT or with payment of IGST
   if (invoice.placeOfSupply === GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT) {
-    // Must have LUT for 0% IGST
-    if (invoice.igstRate === 0 && !invoice.lutId) {
-      errors.push('LUT is required for zero-rated supplies (0% IGST)')
-    }
+    if (invoice.exportWithPayment) {
+      // IGST is paid and refunded, so a LUT doesn't apply
+      if (invoice.lutId) {
+        errors.push('LUT cannot be used for exports with payment of IGST')
+      }
 
-    // IGST rate should be 0 for exports under LUT
-    if (invoice.lutId && invoice.igstRate !== 0) {
-      warnings.push('IGST rate should be 0% for exports under LUT')
+      if (invoice.igstRate === 0) {
+        errors.push('IGST must be charged on exports with payment of tax')
+      }
+    } else {
+      // Must have LUT for 0% IGST
+      if (invoice.igstRate === 0 && !invoice.lutId) {
+        errors.push('LUT is required for zero-rated supplies (0% IGST)')
+      }
+
+      // IGST rate should be 0 for exports under LUT
+      if (invoice.lutId && invoice.igstRate !== 0) {
+        warnings.push('IGST rate should be 0% for exports under LUT')
+      }
     }
 
     // Service code must exist in the official SAC/HSN codes list
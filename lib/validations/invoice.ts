@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import { DiscountType } from '@prisma/client'
+import { exportHsnSacCodeSchema } from '@/lib/validations/gst'
+
+// Invoice line item as submitted from the invoice form or a bulk import
+export const lineItemSchema = z.object({
+  description: z.string().min(1),
+  quantity: z.number().positive(),
+  rate: z.number().positive(),
+  sacCode: exportHsnSacCodeSchema,
+  discountType: z.nativeEnum(DiscountType).optional(),
+  discountValue: z.number().min(0).optional(),
+  gstRate: z.number().min(0).max(28).optional(), // Domestic invoices only, defaults to the invoice rate
+}).refine(
+  (item) => item.discountType !== 'PERCENT' || (item.discountValue ?? 0) <= 100,
+  { message: 'Discount percentage cannot exceed 100', path: ['discountValue'] }
+).refine(
+  (item) => item.discountType !== 'AMOUNT' || (item.discountValue ?? 0) <= item.quantity * item.rate,
+  { message: 'Discount cannot exceed the line amount', path: ['discountValue'] }
+)
+
+export type LineItemInput = z.infer<typeof lineItemSchema>
+
+// Outward invoice types that can be created from the invoice form
+export const invoiceTypeSchema = z.enum(['EXPORT', 'DOMESTIC'])
+
+// Input for creating an invoice
+export const createInvoiceSchema = z.object({
+  invoiceType: invoiceTypeSchema.default('EXPORT'),
+  clientId: z.string(),
+  lutId: z.string().optional(),
+  exportWithPayment: z.boolean().default(false), // Export with payment of IGST instead of LUT
+  gstRate: z.number().min(0).max(28).optional(), // Domestic invoices only
+  issueDate: z.date(),
+  dueDate: z.date(),
+  currency: z.string().default('USD'),
+  exchangeRate: z.number(),
+  exchangeRateSource: z.string(),
+  paymentTerms: z.number().optional(),
+  bankDetails: z.string().optional(),
+  notes: z.string().optional(),
+  lineItems: z.array(lineItemSchema).min(1),
+}).refine(
+  (invoice) => invoice.invoiceType !== 'DOMESTIC' || invoice.currency === 'INR',
+  { message: 'Domestic invoices must be in INR', path: ['currency'] }
+).refine(
+  (invoice) => invoice.invoiceType !== 'DOMESTIC' || invoice.exchangeRate === 1,
+  { message: 'Domestic invoices must have an exchange rate of 1', path: ['exchangeRate'] }
+)
+
+export type CreateInvoiceInput = z.infer<typeof createInvoiceSchema>
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "InvoiceType" ADD VALUE 'DOMESTIC';
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "gstin" TEXT,
+ADD COLUMN     "stateCode" TEXT;
@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "NoteType" AS ENUM ('CREDIT', 'DEBIT');
+
+-- AlterTable
+ALTER TABLE "FilingPlanItem" ADD COLUMN     "creditDebitNoteId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "noteAdjustment" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "CreditDebitNote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "noteType" "NoteType" NOT NULL,
+    "noteNumber" TEXT NOT NULL,
+    "noteDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "description" TEXT,
+    "currency" TEXT NOT NULL,
+    "exchangeRate" DECIMAL(65,30) NOT NULL,
+    "taxableAmount" DECIMAL(65,30) NOT NULL,
+    "igstRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "igstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "cgstRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "cgstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "sgstRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "sgstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(65,30) NOT NULL,
+    "totalInINR" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditDebitNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CreditDebitNote_userId_noteNumber_key" ON "CreditDebitNote"("userId", "noteNumber");
+
+-- CreateIndex
+CREATE INDEX "CreditDebitNote_userId_idx" ON "CreditDebitNote"("userId");
+
+-- CreateIndex
+CREATE INDEX "CreditDebitNote_invoiceId_idx" ON "CreditDebitNote"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "CreditDebitNote_noteDate_idx" ON "CreditDebitNote"("noteDate");
+
+-- CreateIndex
+CREATE INDEX "FilingPlanItem_creditDebitNoteId_idx" ON "FilingPlanItem"("creditDebitNoteId");
+
+-- AddForeignKey
+ALTER TABLE "CreditDebitNote" ADD CONSTRAINT "CreditDebitNote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditDebitNote" ADD CONSTRAINT "CreditDebitNote_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilingPlanItem" ADD CONSTRAINT "FilingPlanItem_creditDebitNoteId_fkey" FOREIGN KEY ("creditDebitNoteId") REFERENCES "CreditDebitNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
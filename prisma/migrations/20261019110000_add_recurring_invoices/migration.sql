@@ -0,0 +1,72 @@
+-- CreateEnum
+CREATE TYPE "RecurringFrequency" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "recurringInvoiceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RecurringInvoice" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "invoiceType" "InvoiceType" NOT NULL DEFAULT 'EXPORT',
+    "gstRate" DECIMAL(65,30),
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "frequency" "RecurringFrequency" NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "nextRunDate" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "occurrences" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "paymentTerms" INTEGER NOT NULL DEFAULT 30,
+    "bankDetails" TEXT,
+    "notes" TEXT,
+    "autoSend" BOOLEAN NOT NULL DEFAULT false,
+    "sendTo" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecurringInvoiceItem" (
+    "id" TEXT NOT NULL,
+    "recurringInvoiceId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "serviceCode" TEXT NOT NULL,
+
+    CONSTRAINT "RecurringInvoiceItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Invoice_recurringInvoiceId_idx" ON "Invoice"("recurringInvoiceId");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_userId_idx" ON "RecurringInvoice"("userId");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_clientId_idx" ON "RecurringInvoice"("clientId");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoice_isActive_nextRunDate_idx" ON "RecurringInvoice"("isActive", "nextRunDate");
+
+-- CreateIndex
+CREATE INDEX "RecurringInvoiceItem_recurringInvoiceId_idx" ON "RecurringInvoiceItem"("recurringInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoice" ADD CONSTRAINT "RecurringInvoice_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringInvoiceItem" ADD CONSTRAINT "RecurringInvoiceItem_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "RecurringInvoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "EstimateStatus" AS ENUM ('DRAFT', 'SENT', 'ACCEPTED', 'DECLINED', 'CONVERTED');
+
+-- CreateTable
+CREATE TABLE "Estimate" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "estimateNumber" TEXT NOT NULL,
+    "estimateDate" TIMESTAMP(3) NOT NULL,
+    "validUntil" TIMESTAMP(3) NOT NULL,
+    "status" "EstimateStatus" NOT NULL DEFAULT 'DRAFT',
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "subtotal" DECIMAL(65,30) NOT NULL,
+    "totalAmount" DECIMAL(65,30) NOT NULL,
+    "notes" TEXT,
+    "terms" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "declineReason" TEXT,
+    "convertedInvoiceId" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "publicAccessToken" TEXT,
+    "tokenExpiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Estimate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EstimateItem" (
+    "id" TEXT NOT NULL,
+    "estimateId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" DECIMAL(65,30) NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "serviceCode" TEXT NOT NULL,
+
+    CONSTRAINT "EstimateItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Estimate_convertedInvoiceId_key" ON "Estimate"("convertedInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Estimate_publicAccessToken_key" ON "Estimate"("publicAccessToken");
+
+-- CreateIndex
+CREATE INDEX "Estimate_userId_idx" ON "Estimate"("userId");
+
+-- CreateIndex
+CREATE INDEX "Estimate_clientId_idx" ON "Estimate"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Estimate_status_idx" ON "Estimate"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Estimate_userId_estimateNumber_key" ON "Estimate"("userId", "estimateNumber");
+
+-- CreateIndex
+CREATE INDEX "EstimateItem_estimateId_idx" ON "EstimateItem"("estimateId");
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Estimate" ADD CONSTRAINT "Estimate_convertedInvoiceId_fkey" FOREIGN KEY ("convertedInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EstimateItem" ADD CONSTRAINT "EstimateItem_estimateId_fkey" FOREIGN KEY ("estimateId") REFERENCES "Estimate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
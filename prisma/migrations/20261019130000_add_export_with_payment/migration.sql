@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "exportWithPayment" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('PERCENT', 'AMOUNT');
+
+-- AlterTable
+ALTER TABLE "InvoiceItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "discountAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "gstRate" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "igstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "cgstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "sgstAmount" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "FilingPlanItem" ADD COLUMN     "rateBreakdown" JSONB;
+
+-- Backfill line tax on existing outward invoices from the invoice header rates
+UPDATE "InvoiceItem" AS item
+SET "gstRate" = inv."igstRate" + inv."cgstRate" + inv."sgstRate",
+    "igstAmount" = ROUND(item."amount" * inv."igstRate" / 100, 2),
+    "cgstAmount" = ROUND(item."amount" * inv."cgstRate" / 100, 2),
+    "sgstAmount" = ROUND(item."amount" * inv."sgstRate" / 100, 2)
+FROM "Invoice" AS inv
+WHERE item."invoiceId" = inv."id"
+  AND inv."invoiceType" <> 'SELF_INVOICE';
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "SeriesResetRule" AS ENUM ('FISCAL_YEAR', 'NEVER');
+
+-- DropIndex
+DROP INDEX "Invoice_invoiceNumber_key";
+
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "numberSeriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "NumberSeries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "suffix" TEXT NOT NULL DEFAULT '',
+    "padding" INTEGER NOT NULL DEFAULT 3,
+    "resetRule" "SeriesResetRule" NOT NULL DEFAULT 'FISCAL_YEAR',
+    "invoiceType" "InvoiceType",
+    "clientId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NumberSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NumberSeries_userId_idx" ON "NumberSeries"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NumberSeries_userId_prefix_suffix_key" ON "NumberSeries"("userId", "prefix", "suffix");
+
+-- CreateIndex
+CREATE INDEX "Invoice_numberSeriesId_idx" ON "Invoice"("numberSeriesId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_userId_invoiceNumber_key" ON "Invoice"("userId", "invoiceNumber");
+
+-- AddForeignKey
+ALTER TABLE "Invoice" ADD CONSTRAINT "Invoice_numberSeriesId_fkey" FOREIGN KEY ("numberSeriesId") REFERENCES "NumberSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NumberSeries" ADD CONSTRAINT "NumberSeries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NumberSeries" ADD CONSTRAINT "NumberSeries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
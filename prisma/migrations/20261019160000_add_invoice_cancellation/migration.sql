@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "GSTFilingPeriod" ADD COLUMN     "documentSummary" JSONB;
+
+-- Invoices already marked cancelled keep their last update as the cancellation time
+UPDATE "Invoice" SET "cancelledAt" = "updatedAt" WHERE "status" = 'CANCELLED';
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "BankMatchStatus" AS ENUM ('UNMATCHED', 'PROPOSED', 'CONFIRMED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "BankStatementUpload" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "accountNumber" TEXT,
+    "currency" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "entriesCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankStatementUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankStatementEntry" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "entryDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "counterparty" TEXT,
+    "matchStatus" "BankMatchStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "matchedInvoiceId" TEXT,
+    "matchScore" INTEGER,
+    "matchReasons" TEXT[],
+    "paymentId" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankStatementEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BankStatementUpload_userId_idx" ON "BankStatementUpload"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankStatementEntry_paymentId_key" ON "BankStatementEntry"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "BankStatementEntry_uploadId_matchStatus_idx" ON "BankStatementEntry"("uploadId", "matchStatus");
+
+-- CreateIndex
+CREATE INDEX "BankStatementEntry_matchedInvoiceId_idx" ON "BankStatementEntry"("matchedInvoiceId");
+
+-- AddForeignKey
+ALTER TABLE "BankStatementUpload" ADD CONSTRAINT "BankStatementUpload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "BankStatementUpload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_matchedInvoiceId_fkey" FOREIGN KEY ("matchedInvoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankStatementEntry" ADD CONSTRAINT "BankStatementEntry_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterEnum
+ALTER TYPE "DocumentSourceType" ADD VALUE 'PAYONEER';
+ALTER TYPE "DocumentSourceType" ADD VALUE 'WISE';
+ALTER TYPE "DocumentSourceType" ADD VALUE 'PAYPAL';
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "ForexRevaluationStatus" AS ENUM ('POSTED', 'REVERSED');
+
+-- CreateTable
+CREATE TABLE "ForexRevaluation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "revaluationDate" TIMESTAMP(3) NOT NULL,
+    "status" "ForexRevaluationStatus" NOT NULL DEFAULT 'POSTED',
+    "invoiceCount" INTEGER NOT NULL DEFAULT 0,
+    "bookedInr" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "revaluedInr" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "gainLoss" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "reversedAt" TIMESTAMP(3),
+    "reversalReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ForexRevaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ForexRevaluationLine" (
+    "id" TEXT NOT NULL,
+    "revaluationId" TEXT NOT NULL,
+    "invoiceId" TEXT,
+    "invoiceNumber" TEXT NOT NULL,
+    "invoiceDate" TIMESTAMP(3) NOT NULL,
+    "clientName" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "balanceDue" DECIMAL(65,30) NOT NULL,
+    "bookingRate" DECIMAL(65,30) NOT NULL,
+    "closingRate" DECIMAL(65,30) NOT NULL,
+    "rateSource" TEXT NOT NULL,
+    "rateDate" TIMESTAMP(3) NOT NULL,
+    "bookedInr" DECIMAL(65,30) NOT NULL,
+    "revaluedInr" DECIMAL(65,30) NOT NULL,
+    "gainLoss" DECIMAL(65,30) NOT NULL,
+
+    CONSTRAINT "ForexRevaluationLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ForexRevaluation_userId_revaluationDate_idx" ON "ForexRevaluation"("userId", "revaluationDate");
+
+-- CreateIndex
+CREATE INDEX "ForexRevaluationLine_revaluationId_idx" ON "ForexRevaluationLine"("revaluationId");
+
+-- CreateIndex
+CREATE INDEX "ForexRevaluationLine_invoiceId_idx" ON "ForexRevaluationLine"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "ForexRevaluation" ADD CONSTRAINT "ForexRevaluation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForexRevaluationLine" ADD CONSTRAINT "ForexRevaluationLine_revaluationId_fkey" FOREIGN KEY ("revaluationId") REFERENCES "ForexRevaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ForexRevaluationLine" ADD CONSTRAINT "ForexRevaluationLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
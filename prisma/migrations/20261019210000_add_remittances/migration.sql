@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN "remittanceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Remittance" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "remittanceDate" TIMESTAMP(3) NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "platformFeesInCurrency" DECIMAL(65,30),
+    "creditedAmount" DECIMAL(65,30),
+    "actualExchangeRate" DECIMAL(65,30),
+    "bankChargesInr" DECIMAL(65,30),
+    "fircNumber" TEXT,
+    "fircDate" TIMESTAMP(3),
+    "fircDocumentUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Remittance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Payment_remittanceId_idx" ON "Payment"("remittanceId");
+
+-- CreateIndex
+CREATE INDEX "Remittance_userId_remittanceDate_idx" ON "Remittance"("userId", "remittanceDate");
+
+-- CreateIndex
+CREATE INDEX "Remittance_clientId_idx" ON "Remittance"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_remittanceId_fkey" FOREIGN KEY ("remittanceId") REFERENCES "Remittance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Remittance" ADD CONSTRAINT "Remittance_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Remittance" ADD CONSTRAINT "Remittance_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
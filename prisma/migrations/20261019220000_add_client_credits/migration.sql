@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "ClientCreditSource" AS ENUM ('OVERPAYMENT', 'ADVANCE');
+
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN "autoApplyCredit" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "ClientCredit" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "source" "ClientCreditSource" NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "receivedDate" TIMESTAMP(3) NOT NULL,
+    "paymentMethod" TEXT NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "paymentId" TEXT,
+    "description" TEXT,
+    "serviceCode" TEXT,
+    "creditedAmount" DECIMAL(65,30),
+    "actualExchangeRate" DECIMAL(65,30),
+    "bankChargesInr" DECIMAL(65,30),
+    "fircNumber" TEXT,
+    "voucherNumber" TEXT,
+    "voucherDate" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ClientCredit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClientCreditApplication" (
+    "id" TEXT NOT NULL,
+    "creditId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClientCreditApplication_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientCredit_paymentId_key" ON "ClientCredit"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ClientCredit_userId_receivedDate_idx" ON "ClientCredit"("userId", "receivedDate");
+
+-- CreateIndex
+CREATE INDEX "ClientCredit_clientId_idx" ON "ClientCredit"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientCredit_userId_voucherNumber_key" ON "ClientCredit"("userId", "voucherNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClientCreditApplication_paymentId_key" ON "ClientCreditApplication"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ClientCreditApplication_creditId_idx" ON "ClientCreditApplication"("creditId");
+
+-- AddForeignKey
+ALTER TABLE "ClientCredit" ADD CONSTRAINT "ClientCredit_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientCredit" ADD CONSTRAINT "ClientCredit_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientCredit" ADD CONSTRAINT "ClientCredit_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientCreditApplication" ADD CONSTRAINT "ClientCreditApplication_creditId_fkey" FOREIGN KEY ("creditId") REFERENCES "ClientCredit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClientCreditApplication" ADD CONSTRAINT "ClientCreditApplication_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
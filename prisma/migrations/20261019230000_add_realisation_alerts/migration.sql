@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Invoice" ADD COLUMN     "realisationAlertLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "realisationAlertSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Invoice_invoiceType_realisationAlertLevel_idx" ON "Invoice"("invoiceType", "realisationAlertLevel");
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Client" ADD COLUMN     "remindersOptOut" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "DunningSchedule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "offsetDays" INTEGER[],
+    "repeatEveryDays" INTEGER,
+    "maxReminders" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DunningSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningSchedule_clientId_key" ON "DunningSchedule"("clientId");
+
+-- CreateIndex
+CREATE INDEX "DunningSchedule_userId_idx" ON "DunningSchedule"("userId");
+
+-- AddForeignKey
+ALTER TABLE "DunningSchedule" ADD CONSTRAINT "DunningSchedule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DunningSchedule" ADD CONSTRAINT "DunningSchedule_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "Client"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "FilingFrequency" AS ENUM ('MONTHLY', 'QUARTERLY');
+
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "FilingType" ADD VALUE 'IFF';
+ALTER TYPE "FilingType" ADD VALUE 'PMT06';
+
+-- AlterTable
+ALTER TABLE "GSTFilingPeriod" ADD COLUMN     "frequency" "FilingFrequency" NOT NULL DEFAULT 'MONTHLY';
+
+-- CreateTable
+CREATE TABLE "FilingFrequencyChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "frequency" "FilingFrequency" NOT NULL,
+    "effectiveFrom" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FilingFrequencyChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FilingFrequencyChange_userId_effectiveFrom_key" ON "FilingFrequencyChange"("userId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "FilingFrequencyChange" ADD CONSTRAINT "FilingFrequencyChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
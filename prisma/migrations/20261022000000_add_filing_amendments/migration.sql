@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "AmendedDocumentType" AS ENUM ('INVOICE', 'SELF_INVOICE', 'PAYMENT', 'CREDIT_DEBIT_NOTE');
+
+-- CreateTable
+CREATE TABLE "FilingAmendment" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "documentType" "AmendedDocumentType" NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "documentNumber" TEXT NOT NULL,
+    "documentDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "original" JSONB NOT NULL,
+    "amended" JSONB,
+    "originalTable" TEXT,
+    "invoiceId" TEXT,
+    "creditDebitNoteId" TEXT,
+    "reportedInPeriodId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FilingAmendment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FilingAmendment_userId_createdAt_idx" ON "FilingAmendment"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "FilingAmendment_invoiceId_idx" ON "FilingAmendment"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "FilingAmendment_creditDebitNoteId_idx" ON "FilingAmendment"("creditDebitNoteId");
+
+-- CreateIndex
+CREATE INDEX "FilingAmendment_reportedInPeriodId_idx" ON "FilingAmendment"("reportedInPeriodId");
+
+-- AddForeignKey
+ALTER TABLE "FilingAmendment" ADD CONSTRAINT "FilingAmendment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilingAmendment" ADD CONSTRAINT "FilingAmendment_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilingAmendment" ADD CONSTRAINT "FilingAmendment_creditDebitNoteId_fkey" FOREIGN KEY ("creditDebitNoteId") REFERENCES "CreditDebitNote"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FilingAmendment" ADD CONSTRAINT "FilingAmendment_reportedInPeriodId_fkey" FOREIGN KEY ("reportedInPeriodId") REFERENCES "GSTFilingPeriod"("id") ON DELETE SET NULL ON UPDATE CASCADE;
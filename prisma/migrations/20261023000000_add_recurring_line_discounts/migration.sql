@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "RecurringInvoice" ADD COLUMN     "exportWithPayment" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "RecurringInvoiceItem" ADD COLUMN     "discountType" "DiscountType",
+ADD COLUMN     "discountValue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "gstRate" DECIMAL(65,30);
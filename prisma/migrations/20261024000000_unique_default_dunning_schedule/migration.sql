@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "DunningSchedule" ADD COLUMN     "defaultForUserId" TEXT;
+
+-- Keep the most recently updated default schedule of each user
+DELETE FROM "DunningSchedule" AS s
+WHERE s."clientId" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "DunningSchedule" AS newer
+    WHERE newer."userId" = s."userId"
+      AND newer."clientId" IS NULL
+      AND (newer."updatedAt", newer."id") > (s."updatedAt", s."id")
+  );
+
+UPDATE "DunningSchedule" SET "defaultForUserId" = "userId" WHERE "clientId" IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DunningSchedule_defaultForUserId_key" ON "DunningSchedule"("defaultForUserId");
@@ -370,7 +370,7 @@ async function main() {
   const createdInvoices = []
   for (const invoiceData of invoicesData) {
     const existingInvoice = await prisma.invoice.findUnique({
-      where: { invoiceNumber: invoiceData.invoiceNumber },
+      where: { userId_invoiceNumber: { userId: testUser.id, invoiceNumber: invoiceData.invoiceNumber } },
     })
 
     if (existingInvoice) {
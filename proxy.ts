@@ -95,6 +95,8 @@ export const config = {
      * - api/health (health check endpoint)
      * - api/invoices/public (public invoice API endpoints)
      * - invoice/ (public invoice pages - note the trailing slash to not match /invoices)
+     * - api/estimates/public (public estimate API endpoints)
+     * - estimate/ (public estimate pages - note the trailing slash to not match /estimates)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
@@ -106,6 +108,6 @@ export const config = {
      * - *.ico (icon files)
      * - *.webp (WebP images)
      */
-    '/((?!api/auth|api/trpc|api/health|api/invoices/public|invoice/|_next/static|_next/image|favicon.ico|sitemap.xml|robots.txt|.*\\.svg$|.*\\.png$|.*\\.jpg$|.*\\.jpeg$|.*\\.ico$|.*\\.webp$).*)',
+    '/((?!api/auth|api/trpc|api/health|api/invoices/public|invoice/|api/estimates/public|estimate/|_next/static|_next/image|favicon.ico|sitemap.xml|robots.txt|.*\\.svg$|.*\\.png$|.*\\.jpg$|.*\\.jpeg$|.*\\.ico$|.*\\.webp$).*)',
   ],
 }
@@ -6,6 +6,10 @@
  * - PDF generation
  * - Email notifications
  * - Exchange rate fetching
+ * - Recurring invoice generation
+ * - Export realisation deadline alerts
+ * - Automatic payment reminders
+ * - Marking unpaid invoices past their due date as overdue
  *
  * Usage: npm run worker
  */
@@ -14,7 +18,11 @@ import { getQueueService } from '@/lib/queue'
 import {
   pdfGenerationHandler,
   emailNotificationHandler,
-  exchangeRateFetchHandler
+  exchangeRateFetchHandler,
+  recurringInvoiceHandler,
+  realisationAlertHandler,
+  paymentReminderHandler,
+  invoiceOverdueHandler
 } from '@/lib/queue/handlers'
 
 async function startWorker() {
@@ -39,6 +47,26 @@ async function startWorker() {
       concurrency: 1, // Process one at a time
     })
 
+    console.log('🔁 Registering recurring invoice handler...')
+    await queueService.process('RECURRING_INVOICE', recurringInvoiceHandler, {
+      concurrency: 1, // Avoid racing on invoice number sequences
+    })
+
+    console.log('⏰ Registering realisation alert handler...')
+    await queueService.process('REALISATION_ALERT', realisationAlertHandler, {
+      concurrency: 1, // One scan at a time so alerts are not sent twice
+    })
+
+    console.log('🔔 Registering payment reminder handler...')
+    await queueService.process('PAYMENT_REMINDER', paymentReminderHandler, {
+      concurrency: 1, // One scan at a time so reminders are not sent twice
+    })
+
+    console.log('📅 Registering invoice overdue handler...')
+    await queueService.process('INVOICE_OVERDUE', invoiceOverdueHandler, {
+      concurrency: 1, // Process one at a time
+    })
+
     console.log('✅ Queue worker started successfully!')
     console.log('👂 Listening for jobs...')
     console.log('Press CTRL+C to stop\n')
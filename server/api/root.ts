@@ -15,6 +15,19 @@ import { inboxRouter } from '@/server/api/routers/inbox'
 import { gstr2bRouter } from '@/server/api/routers/gstr2b'
 import { itcLedgerRouter } from '@/server/api/routers/itcLedger'
 import { gstFilingRouter } from '@/server/api/routers/gstFiling'
+import { creditDebitNoteRouter } from '@/server/api/routers/creditDebitNote'
+import { recurringInvoiceRouter } from '@/server/api/routers/recurringInvoice'
+import { estimateRouter } from '@/server/api/routers/estimate'
+import { numberSeriesRouter } from '@/server/api/routers/numberSeries'
+import { bankStatementRouter } from '@/server/api/routers/bankStatement'
+import { forexRevaluationRouter } from '@/server/api/routers/forexRevaluation'
+import { remittanceRouter } from '@/server/api/routers/remittance'
+import { clientCreditRouter } from '@/server/api/routers/clientCredit'
+import { realisationRouter } from '@/server/api/routers/realisation'
+import { dunningRouter } from '@/server/api/routers/dunning'
+import { receivablesRouter } from '@/server/api/routers/receivables'
+import { cashFlowRouter } from '@/server/api/routers/cashFlow'
+import { filingAmendmentRouter } from '@/server/api/routers/filingAmendment'
 
 export const appRouter = createTRPCRouter({
   auth: authRouter,
@@ -33,6 +46,19 @@ export const appRouter = createTRPCRouter({
   gstr2b: gstr2bRouter,
   itcLedger: itcLedgerRouter,
   gstFiling: gstFilingRouter,
+  creditDebitNotes: creditDebitNoteRouter,
+  recurringInvoices: recurringInvoiceRouter,
+  estimates: estimateRouter,
+  numberSeries: numberSeriesRouter,
+  bankStatements: bankStatementRouter,
+  forexRevaluations: forexRevaluationRouter,
+  remittances: remittanceRouter,
+  clientCredits: clientCreditRouter,
+  realisation: realisationRouter,
+  dunning: dunningRouter,
+  receivables: receivablesRouter,
+  cashFlow: cashFlowRouter,
+  filingAmendments: filingAmendmentRouter,
 })
 
 export type AppRouter = typeof appRouter
\ No newline at end of file
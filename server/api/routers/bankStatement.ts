@@ -0,0 +1,340 @@
+/**
+ * Bank Statement Router
+ *
+ * Imports bank statements, proposes which open invoices their credits pay,
+ * and records confirmed matches as invoice payments.
+ */
+
+import { z } from 'zod'
+import { createCallerFactory, createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { parseBankStatement, proposePaymentMatches, type OpenInvoiceForMatching } from '@/lib/bank-statement'
+import { paymentRouter } from '@/server/api/routers/payment'
+
+const createPaymentCaller = createCallerFactory(paymentRouter)
+
+/**
+ * Invoices that can still receive a payment, in the shape the matcher expects
+ */
+async function getOpenInvoices(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string
+): Promise<OpenInvoiceForMatching[]> {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      userId,
+      clientId: { not: null },
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      balanceDue: { gt: 0 },
+    },
+    include: { client: { select: { name: true } } },
+    orderBy: { invoiceDate: 'asc' },
+  })
+
+  return invoices.map((invoice) => ({
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    clientName: invoice.client?.name ?? '',
+    currency: invoice.currency,
+    invoiceDate: invoice.invoiceDate,
+    dueDate: invoice.dueDate,
+    balanceDue: Number(invoice.balanceDue),
+    exchangeRate: Number(invoice.exchangeRate),
+  }))
+}
+
+export const bankStatementRouter = createTRPCRouter({
+  /**
+   * Upload a statement, keep its credit lines and propose matches
+   */
+  upload: protectedProcedure
+    .input(
+      z.object({
+        fileName: z.string().min(1),
+        content: z.string().min(1).max(7_000_000, 'File must be smaller than 5MB'), // base64
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const parseResult = parseBankStatement(input.fileName, Buffer.from(input.content, 'base64').toString('utf8'))
+
+      if (!parseResult.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: parseResult.error || 'Failed to read the bank statement',
+        })
+      }
+
+      const credits = parseResult.transactions!.filter((transaction) => transaction.isCredit)
+      if (credits.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The statement has no credit transactions',
+        })
+      }
+
+      // Skip credits already imported from an overlapping statement
+      const dates = credits.map((credit) => credit.date.getTime())
+      const existing = await ctx.prisma.bankStatementEntry.findMany({
+        where: {
+          upload: { userId },
+          entryDate: { gte: new Date(Math.min(...dates)), lte: new Date(Math.max(...dates)) },
+        },
+        select: { entryDate: true, amount: true, currency: true, description: true },
+      })
+      const existingKeys = new Set(
+        existing.map((entry) => `${entry.entryDate.getTime()}|${Number(entry.amount)}|${entry.currency}|${entry.description}`)
+      )
+      const newCredits = credits.filter(
+        (credit) => !existingKeys.has(`${credit.date.getTime()}|${credit.amount}|${credit.currency}|${credit.description}`)
+      )
+
+      const proposals = proposePaymentMatches(newCredits, await getOpenInvoices(ctx.prisma, userId))
+
+      const upload = await ctx.prisma.bankStatementUpload.create({
+        data: {
+          userId,
+          fileName: input.fileName,
+          format: parseResult.format!,
+          accountNumber: parseResult.accountNumber,
+          currency: parseResult.currency ?? 'INR',
+          periodStart: new Date(Math.min(...dates)),
+          periodEnd: new Date(Math.max(...dates)),
+          entriesCount: newCredits.length,
+          entries: {
+            create: newCredits.map((credit, index) => {
+              const proposal = proposals.get(index)
+              return {
+                entryDate: credit.date,
+                amount: credit.amount,
+                currency: credit.currency,
+                description: credit.description,
+                reference: credit.reference,
+                counterparty: credit.counterparty,
+                matchStatus: proposal ? 'PROPOSED' : 'UNMATCHED',
+                matchedInvoiceId: proposal?.invoiceId,
+                matchScore: proposal?.score,
+                matchReasons: proposal?.reasons ?? [],
+              }
+            }),
+          },
+        },
+      })
+
+      return {
+        id: upload.id,
+        format: upload.format,
+        entriesCount: newCredits.length,
+        proposedCount: proposals.size,
+        duplicatesSkipped: credits.length - newCredits.length,
+      }
+    }),
+
+  /**
+   * List statement uploads with review progress
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const uploads = await ctx.prisma.bankStatementUpload.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const statusCounts = await ctx.prisma.bankStatementEntry.groupBy({
+      by: ['uploadId', 'matchStatus'],
+      where: { uploadId: { in: uploads.map((upload) => upload.id) } },
+      _count: true,
+    })
+
+    return uploads.map((upload) => ({
+      ...upload,
+      statusCounts: Object.fromEntries(
+        statusCounts
+          .filter((count) => count.uploadId === upload.id)
+          .map((count) => [count.matchStatus, count._count])
+      ),
+    }))
+  }),
+
+  /**
+   * Get an upload with its credit lines, their proposed invoices, and the
+   * open invoices a line can be matched to instead
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const upload = await ctx.prisma.bankStatementUpload.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        include: {
+          entries: {
+            orderBy: { entryDate: 'asc' },
+            include: {
+              matchedInvoice: {
+                select: {
+                  id: true,
+                  invoiceNumber: true,
+                  currency: true,
+                  balanceDue: true,
+                  client: { select: { name: true } },
+                },
+              },
+            },
+          },
+        },
+      })
+
+      if (!upload) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Bank statement not found',
+        })
+      }
+
+      return {
+        ...upload,
+        openInvoices: await getOpenInvoices(ctx.prisma, ctx.session.user.id),
+      }
+    }),
+
+  /**
+   * Confirm a credit as payment of an invoice. The payment is recorded
+   * through the payment router so the invoice balance and status update
+   * as for a manually entered payment.
+   */
+  confirmMatch: protectedProcedure
+    .input(
+      z.object({
+        entryId: z.string(),
+        invoiceId: z.string(),
+        amount: z.number().positive(), // In invoice currency
+        creditedAmount: z.number().positive().optional(),
+        actualExchangeRate: z.number().positive().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.prisma.bankStatementEntry.findFirst({
+        where: { id: input.entryId, upload: { userId: ctx.session.user.id } },
+      })
+
+      if (!entry) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Bank statement entry not found',
+        })
+      }
+
+      const invoice = await ctx.prisma.invoice.findFirst({
+        where: { id: input.invoiceId, userId: ctx.session.user.id },
+        select: { currency: true },
+      })
+
+      if (!invoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invoice not found',
+        })
+      }
+
+      // Claim the entry first so a double click or retry records one payment
+      const claimed = await ctx.prisma.bankStatementEntry.updateMany({
+        where: { id: entry.id, matchStatus: { not: 'CONFIRMED' } },
+        data: { matchStatus: 'CONFIRMED' },
+      })
+
+      if (claimed.count === 0) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This credit has already been recorded as a payment',
+        })
+      }
+
+      let payment
+      try {
+        payment = await createPaymentCaller(ctx).create({
+          invoiceId: input.invoiceId,
+          amount: input.amount,
+          currency: invoice.currency,
+          paymentDate: entry.entryDate,
+          paymentMethod: 'BANK_TRANSFER',
+          reference: entry.reference ?? undefined,
+          notes: `From bank statement: ${entry.description}`.slice(0, 500),
+          creditedAmount: input.creditedAmount,
+          actualExchangeRate: input.actualExchangeRate,
+        })
+      } catch (error) {
+        // Release the claim so the credit can be matched again
+        await ctx.prisma.bankStatementEntry.update({
+          where: { id: entry.id },
+          data: { matchStatus: entry.matchStatus },
+        })
+        throw error
+      }
+
+      return await ctx.prisma.bankStatementEntry.update({
+        where: { id: entry.id },
+        data: {
+          matchedInvoiceId: input.invoiceId,
+          paymentId: payment.id,
+          reviewedAt: new Date(),
+        },
+      })
+    }),
+
+  /**
+   * Reject a proposed match, or mark a credit as not an invoice payment
+   */
+  rejectMatch: protectedProcedure
+    .input(z.object({ entryId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const entry = await ctx.prisma.bankStatementEntry.findFirst({
+        where: { id: input.entryId, upload: { userId: ctx.session.user.id } },
+      })
+
+      if (!entry) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Bank statement entry not found',
+        })
+      }
+
+      if (entry.matchStatus === 'CONFIRMED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Delete the payment to undo a confirmed match',
+        })
+      }
+
+      return await ctx.prisma.bankStatementEntry.update({
+        where: { id: entry.id },
+        data: {
+          matchStatus: 'REJECTED',
+          matchedInvoiceId: null,
+          matchScore: null,
+          matchReasons: [],
+          reviewedAt: new Date(),
+        },
+      })
+    }),
+
+  /**
+   * Delete an upload. Payments already recorded from it are kept.
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const upload = await ctx.prisma.bankStatementUpload.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!upload) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Bank statement not found',
+        })
+      }
+
+      await ctx.prisma.bankStatementUpload.delete({ where: { id: upload.id } })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,277 @@
+/**
+ * Cash-Flow Router
+ *
+ * Week-by-week cash projection for the next 90 days: open invoices and
+ * retainers in, GST, reverse charge tax and payment vouchers out, with
+ * foreign currency valued at an assumed or current rate.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { addDays, endOfMonth, format, startOfDay, startOfMonth, subMonths } from 'date-fns'
+import { FilingFrequency, FilingType, InvoiceType } from '@prisma/client'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+import {
+  FILING_TYPE_LABELS,
+  getFilingFrequency,
+  getQuarterPeriods,
+  getReturnDueDate,
+  getReturnTypeForPeriod,
+  isFiledStatus,
+} from '@/lib/gst-filing'
+import {
+  FORECAST_DAYS,
+  buildCashFlowForecast,
+  getAverageDaysToPay,
+  getExpectedPaymentDate,
+  getUpcomingOccurrences,
+  type CashFlowItem,
+} from '@/lib/cash-flow-forecast'
+
+export const cashFlowRouter = createTRPCRouter({
+  /**
+   * Expected receipts and payments grouped by week
+   *
+   * fxRates overrides the current rate of a currency (INR per unit) to
+   * see the forecast under a different exchange rate assumption.
+   */
+  getForecast: protectedProcedure
+    .input(
+      z.object({
+        fxRates: z.record(z.string(), z.number().positive()).default({}),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const today = startOfDay(new Date())
+      const end = addDays(today, FORECAST_DAYS - 1)
+
+      const [openInvoices, retainers] = await Promise.all([
+        ctx.prisma.invoice.findMany({
+          where: {
+            userId,
+            clientId: { not: null },
+            status: { notIn: ['DRAFT', 'CANCELLED'] },
+            balanceDue: { gt: 0 },
+          },
+          include: { client: { select: { name: true } } },
+        }),
+        ctx.prisma.recurringInvoice.findMany({
+          where: { userId, isActive: true, nextRunDate: { lte: end } },
+          include: { lineItems: true, client: { select: { name: true } } },
+        }),
+      ])
+
+      // Each client's days-to-pay over the last year
+      const clientIds = [
+        ...new Set([
+          ...openInvoices.map((invoice) => invoice.clientId as string),
+          ...retainers.map((retainer) => retainer.clientId),
+        ]),
+      ]
+      const paidInvoices = await ctx.prisma.invoice.findMany({
+        where: {
+          userId,
+          clientId: { in: clientIds },
+          paymentStatus: 'PAID',
+          status: { not: 'CANCELLED' },
+          invoiceDate: { gte: subMonths(today, 12) },
+        },
+        select: {
+          clientId: true,
+          invoiceDate: true,
+          payments: { select: { paymentDate: true }, orderBy: { paymentDate: 'desc' }, take: 1 },
+        },
+      })
+      const daysToPay = new Map(
+        clientIds.map((clientId) => [
+          clientId,
+          getAverageDaysToPay(
+            paidInvoices
+              .filter((invoice) => invoice.clientId === clientId && invoice.payments.length > 0)
+              .map((invoice) => ({ invoiceDate: invoice.invoiceDate, paidDate: invoice.payments[0].paymentDate }))
+          ),
+        ])
+      )
+
+      // The assumed rate where given, otherwise the current rate
+      const currencies = [
+        ...new Set([...openInvoices, ...retainers].map((item) => item.currency).filter((currency) => currency !== 'INR')),
+      ].sort()
+      const rates: Array<{ currency: string; rate: number | null; source: 'ASSUMED' | 'CURRENT' | null }> = []
+      for (const currency of currencies) {
+        if (input.fxRates[currency]) {
+          rates.push({ currency, rate: input.fxRates[currency], source: 'ASSUMED' })
+          continue
+        }
+        const current = await getOrFetchExchangeRate(currency, today)
+        rates.push({ currency, rate: current?.rate ?? null, source: current ? 'CURRENT' : null })
+      }
+      const getRate = (currency: string) =>
+        currency === 'INR' ? 1 : rates.find((rate) => rate.currency === currency)?.rate ?? null
+
+      const items: CashFlowItem[] = []
+
+      for (const invoice of openInvoices) {
+        const amount = Number(invoice.balanceDue)
+        items.push({
+          date: getExpectedPaymentDate(invoice, daysToPay.get(invoice.clientId as string) ?? null, today),
+          category: 'INVOICE',
+          direction: 'IN',
+          description: `${invoice.invoiceNumber} · ${invoice.client?.name ?? ''}`,
+          currency: invoice.currency,
+          amount,
+          // Without a rate, fall back to the rate the invoice was booked at
+          amountInr: roundTo2Decimals(amount * (getRate(invoice.currency) ?? Number(invoice.exchangeRate))),
+          invoiceId: invoice.id,
+        })
+      }
+
+      for (const retainer of retainers) {
+        const rate = getRate(retainer.currency)
+        if (rate === null) continue
+
+        const subtotal = retainer.lineItems.reduce((total, item) => total + Number(item.quantity) * Number(item.rate), 0)
+        const gstRate = retainer.invoiceType === 'DOMESTIC' ? Number(retainer.gstRate ?? 0) : 0
+        const amount = roundTo2Decimals(subtotal * (1 + gstRate / 100))
+
+        for (const invoiceDate of getUpcomingOccurrences(retainer, end)) {
+          items.push({
+            date: getExpectedPaymentDate(
+              { invoiceDate, dueDate: addDays(invoiceDate, retainer.paymentTerms) },
+              daysToPay.get(retainer.clientId) ?? null,
+              today
+            ),
+            category: 'RETAINER',
+            direction: 'IN',
+            description: `${retainer.name} · ${retainer.client.name} (invoiced ${format(invoiceDate, 'dd MMM')})`,
+            currency: retainer.currency,
+            amount,
+            amountInr: roundTo2Decimals(amount * rate),
+          })
+        }
+      }
+
+      // GST with GSTR-3B returns (or PMT-06 payments under QRMP) generated but not yet filed
+      const [returns, frequencyHistory, user] = await Promise.all([
+        ctx.prisma.gSTFilingPeriod.findMany({
+          where: { userId, filingType: { in: [FilingType.GSTR3B, FilingType.PMT06] } },
+          select: { filingType: true, period: true, frequency: true, status: true, dueDate: true, netTaxPayable: true },
+        }),
+        ctx.prisma.filingFrequencyChange.findMany({
+          where: { userId },
+          select: { frequency: true, effectiveFrom: true },
+        }),
+        ctx.prisma.user.findUnique({ where: { id: userId }, select: { gstin: true } }),
+      ])
+      for (const filing of returns) {
+        let amount = Number(filing.netTaxPayable)
+
+        // A quarterly GSTR-3B pays only what the quarter's PMT-06 payments did not
+        if (filing.filingType === FilingType.GSTR3B && filing.frequency === FilingFrequency.QUARTERLY) {
+          const quarter = getQuarterPeriods(filing.period)
+          amount -= returns
+            .filter((payment) => payment.filingType === FilingType.PMT06 && quarter.includes(payment.period))
+            .reduce((total, payment) => total + Number(payment.netTaxPayable), 0)
+        }
+
+        if (isFiledStatus(filing.status) || filing.dueDate > end || amount <= 0) continue
+
+        items.push({
+          date: filing.dueDate < today ? today : startOfDay(filing.dueDate),
+          category: 'GST',
+          direction: 'OUT',
+          description: `${FILING_TYPE_LABELS[filing.filingType]} ${filing.period}`,
+          currency: 'INR',
+          amount,
+          amountInr: amount,
+        })
+      }
+
+      // Last and this month's tax, estimated from invoices until the return is generated
+      for (const month of [subMonths(today, 1), today]) {
+        const period = format(month, 'yyyy-MM')
+        const frequency = getFilingFrequency(frequencyHistory, period)
+        const filingType = getReturnTypeForPeriod('GSTR3B', period, frequency)
+        const dueDate = getReturnDueDate(filingType, period, { frequency, stateCode: user?.gstin?.slice(0, 2) })
+        if (dueDate < today || dueDate > end || returns.some((filing) => filing.period === period)) continue
+
+        const invoices = await ctx.prisma.invoice.findMany({
+          where: {
+            userId,
+            status: { notIn: ['DRAFT', 'CANCELLED'] },
+            invoiceDate: { gte: startOfMonth(month), lte: endOfMonth(month) },
+          },
+          select: {
+            invoiceType: true,
+            exchangeRate: true,
+            igstAmount: true,
+            cgstAmount: true,
+            sgstAmount: true,
+            rcmLiability: true,
+          },
+        })
+
+        let outputTax = 0
+        let reverseCharge = 0
+        for (const invoice of invoices) {
+          if (invoice.invoiceType === InvoiceType.SELF_INVOICE) {
+            reverseCharge += Number(invoice.rcmLiability)
+          } else {
+            const tax = Number(invoice.igstAmount) + Number(invoice.cgstAmount) + Number(invoice.sgstAmount)
+            outputTax += tax * Number(invoice.exchangeRate)
+          }
+        }
+
+        if (outputTax > 0) {
+          items.push({
+            date: dueDate,
+            category: 'GST',
+            direction: 'OUT',
+            description: `${FILING_TYPE_LABELS[filingType]} ${period} (estimated output tax)`,
+            currency: 'INR',
+            amount: roundTo2Decimals(outputTax),
+            amountInr: roundTo2Decimals(outputTax),
+          })
+        }
+        if (reverseCharge > 0) {
+          items.push({
+            date: dueDate,
+            category: 'RCM',
+            direction: 'OUT',
+            description: `Reverse charge tax ${period}`,
+            currency: 'INR',
+            amount: roundTo2Decimals(reverseCharge),
+            amountInr: roundTo2Decimals(reverseCharge),
+          })
+        }
+      }
+
+      // Supplier payments dated ahead
+      const vouchers = await ctx.prisma.paymentVoucher.findMany({
+        where: { userId, voucherDate: { gte: today, lte: end } },
+        select: { voucherNumber: true, voucherDate: true, supplierName: true, amount: true },
+      })
+      for (const voucher of vouchers) {
+        const amount = Number(voucher.amount)
+        items.push({
+          date: startOfDay(voucher.voucherDate),
+          category: 'PAYMENT_VOUCHER',
+          direction: 'OUT',
+          description: `${voucher.voucherNumber} · ${voucher.supplierName}`,
+          currency: 'INR',
+          amount,
+          amountInr: amount,
+        })
+      }
+
+      return {
+        ...buildCashFlowForecast(items, today),
+        rates,
+      }
+    }),
+})
+
+function roundTo2Decimals(value: number): number {
+  return Math.round(value * 100) / 100
+}
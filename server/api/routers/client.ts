@@ -1,6 +1,21 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
 import { TRPCError } from '@trpc/server'
+import { validateGSTIN, getStateNameFromCode } from '@/lib/validations/gst'
+
+// Domestic client fields: GSTIN (B2B) and state code (place of supply)
+const clientGstinSchema = z
+  .string()
+  .transform((val) => val.trim().toUpperCase())
+  .refine((val) => val === '' || validateGSTIN(val), { message: 'Invalid GSTIN format' })
+  .optional()
+
+const clientStateCodeSchema = z
+  .string()
+  .refine((val) => val === '' || getStateNameFromCode(val) !== null, {
+    message: 'Invalid GST state code',
+  })
+  .optional()
 
 export const clientRouter = createTRPCRouter({
   create: protectedProcedure
@@ -14,6 +29,8 @@ export const clientRouter = createTRPCRouter({
         currency: z.string().min(3).max(3),
         phone: z.string().optional(),
         taxId: z.string().optional(),
+        gstin: clientGstinSchema,
+        stateCode: clientStateCodeSchema,
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -29,6 +46,8 @@ export const clientRouter = createTRPCRouter({
         const client = await ctx.prisma.client.create({
           data: {
             ...input,
+            gstin: input.gstin || null,
+            stateCode: input.stateCode || null,
             userId: ctx.session.user.id,
           },
         })
@@ -88,11 +107,18 @@ export const clientRouter = createTRPCRouter({
         currency: z.string().min(3).max(3),
         phone: z.string().optional(),
         taxId: z.string().optional(),
+        gstin: clientGstinSchema,
+        stateCode: clientStateCodeSchema,
         isActive: z.boolean(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, ...data } = input
+      const { id, gstin, stateCode, ...rest } = input
+      const data = {
+        ...rest,
+        ...(gstin !== undefined && { gstin: gstin || null }),
+        ...(stateCode !== undefined && { stateCode: stateCode || null }),
+      }
 
       const client = await ctx.prisma.client.updateMany({
         where: {
@@ -0,0 +1,548 @@
+/**
+ * Client Credit Router
+ *
+ * Overpayments and advances held as a credit balance for the client, applied
+ * to invoices as CLIENT_CREDIT payments, the receipt voucher for advances
+ * from export clients, and the client statement.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, type PrismaClient } from '@prisma/client'
+import { getQueueService } from '@/lib/queue'
+import { getAmountReceivable, updateInvoicePaymentStatus } from '@/lib/credit-debit-notes'
+import { getCurrentFiscalYear } from '@/lib/invoice-utils'
+import { generateReceiptVoucherNumber, getNextReceiptVoucherSequence } from '@/lib/invoice-number-utils'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
+import {
+  allocateClientCredit,
+  buildClientStatement,
+  getCreditBalance,
+  statementToCSV,
+  type StatementEntry,
+} from '@/lib/client-credit'
+import { assertPeriodNotFiled } from '@/lib/gst-filing/filing-lock'
+
+const Decimal = Prisma.Decimal
+
+// Epsilon tolerance for decimal comparisons (0.01 = 1 cent)
+const EPSILON = new Decimal(0.01)
+
+const AdvanceInputSchema = z.object({
+  clientId: z.string(),
+  amount: z.number().positive(),
+  currency: z.string().min(3).max(3),
+  receivedDate: z.date(),
+  paymentMethod: z.enum(['BANK_TRANSFER', 'CREDIT_CARD', 'DEBIT_CARD', 'UPI', 'PAYPAL', 'PAYONEER', 'WISE', 'OTHER']),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  description: z.string().optional(),
+  serviceCode: z.string().optional(),
+  creditedAmount: z.number().positive().optional(),
+  actualExchangeRate: z.number().positive().optional(),
+  bankChargesInr: z.number().min(0).optional(),
+  fircNumber: z.string().optional(),
+})
+
+/**
+ * Share of an INR amount recorded on a credit for the part being applied
+ */
+function shareOf(total: Prisma.Decimal | null, part: number, whole: Prisma.Decimal): Prisma.Decimal | null {
+  if (!total) return null
+  return total.times(part).dividedBy(whole).toDecimalPlaces(2)
+}
+
+const StatementInputSchema = z.object({
+  clientId: z.string(),
+  dateFrom: z.date().optional(),
+  dateTo: z.date().optional(),
+})
+
+/**
+ * Gather a client's invoices, notes, payments and credits into statement
+ * sections, with the credit still unapplied per currency
+ */
+async function loadStatement(
+  prisma: PrismaClient,
+  userId: string,
+  input: z.infer<typeof StatementInputSchema>
+) {
+  const client = await prisma.client.findFirst({
+    where: { id: input.clientId, userId },
+  })
+
+  if (!client) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Client not found',
+    })
+  }
+
+  const [invoices, credits] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { userId, clientId: client.id, status: { notIn: ['DRAFT', 'CANCELLED'] } },
+      include: { payments: true, creditDebitNotes: true },
+    }),
+    prisma.clientCredit.findMany({
+      where: { userId, clientId: client.id },
+      include: { applications: { select: { amount: true } } },
+    }),
+  ])
+
+  const entries: StatementEntry[] = []
+
+  for (const invoice of invoices) {
+    entries.push({
+      date: invoice.invoiceDate,
+      type: 'INVOICE',
+      reference: invoice.invoiceNumber,
+      description: `Invoice due ${invoice.dueDate.toISOString().split('T')[0]}`,
+      currency: invoice.currency,
+      debit: Number(invoice.totalAmount),
+      credit: 0,
+    })
+
+    for (const note of invoice.creditDebitNotes) {
+      const isCredit = note.noteType === 'CREDIT'
+      entries.push({
+        date: note.noteDate,
+        type: isCredit ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+        reference: note.noteNumber,
+        description: `${isCredit ? 'Credit' : 'Debit'} note on ${invoice.invoiceNumber}`,
+        currency: note.currency,
+        debit: isCredit ? 0 : Number(note.totalAmount),
+        credit: isCredit ? Number(note.totalAmount) : 0,
+      })
+    }
+
+    // Credit applied to an invoice was already counted when it was received
+    for (const payment of invoice.payments.filter((candidate) => candidate.paymentMethod !== 'CLIENT_CREDIT')) {
+      entries.push({
+        date: payment.paymentDate,
+        type: 'PAYMENT',
+        reference: payment.reference ?? '',
+        description: `Payment for ${invoice.invoiceNumber}`,
+        currency: payment.currency,
+        debit: 0,
+        credit: Number(payment.amount),
+      })
+    }
+  }
+
+  const unappliedCredit = new Map<string, number>()
+
+  for (const credit of credits) {
+    entries.push({
+      date: credit.receivedDate,
+      type: 'CREDIT',
+      reference: credit.voucherNumber ?? credit.reference ?? '',
+      description: credit.source === 'ADVANCE' ? 'Advance received' : 'Overpayment held as credit',
+      currency: credit.currency,
+      debit: 0,
+      credit: Number(credit.amount),
+    })
+
+    const balance = getCreditBalance(
+      Number(credit.amount),
+      credit.applications.map((application) => ({ amount: Number(application.amount) }))
+    )
+    unappliedCredit.set(credit.currency, (unappliedCredit.get(credit.currency) ?? 0) + balance)
+  }
+
+  return {
+    client,
+    sections: buildClientStatement(entries, input.dateFrom, input.dateTo),
+    unappliedCredit: [...unappliedCredit.entries()]
+      .filter(([, balance]) => balance !== 0)
+      .map(([currency, balance]) => ({ currency, balance: Math.round(balance * 100) / 100 })),
+  }
+}
+
+export const clientCreditRouter = createTRPCRouter({
+  /**
+   * List credits with their applications and remaining balance
+   */
+  list: protectedProcedure
+    .input(z.object({ clientId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const credits = await ctx.prisma.clientCredit.findMany({
+        where: { userId: ctx.session.user.id, clientId: input?.clientId },
+        include: {
+          client: { select: { id: true, name: true, country: true } },
+          payment: { select: { invoice: { select: { id: true, invoiceNumber: true } } } },
+          applications: {
+            select: {
+              id: true,
+              amount: true,
+              createdAt: true,
+              payment: { select: { id: true, invoice: { select: { id: true, invoiceNumber: true } } } },
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+        orderBy: { receivedDate: 'desc' },
+      })
+
+      return credits.map((credit) => ({
+        ...credit,
+        balance: getCreditBalance(
+          Number(credit.amount),
+          credit.applications.map((application) => ({ amount: Number(application.amount) }))
+        ),
+      }))
+    }),
+
+  /**
+   * Unapplied credit per client and currency
+   */
+  getBalances: protectedProcedure.query(async ({ ctx }) => {
+    const credits = await ctx.prisma.clientCredit.findMany({
+      where: { userId: ctx.session.user.id },
+      select: { clientId: true, currency: true, amount: true, applications: { select: { amount: true } } },
+    })
+
+    const balances = new Map<string, { clientId: string; currency: string; balance: number }>()
+    for (const credit of credits) {
+      const balance = getCreditBalance(
+        Number(credit.amount),
+        credit.applications.map((application) => ({ amount: Number(application.amount) }))
+      )
+      if (balance === 0) continue
+
+      const key = `${credit.clientId}:${credit.currency}`
+      const existing = balances.get(key)
+      if (existing) {
+        existing.balance = Math.round((existing.balance + balance) * 100) / 100
+      } else {
+        balances.set(key, { clientId: credit.clientId, currency: credit.currency, balance })
+      }
+    }
+
+    return [...balances.values()]
+  }),
+
+  /**
+   * Record money received from a client before it is invoiced
+   */
+  recordAdvance: protectedProcedure
+    .input(AdvanceInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.clientId, userId },
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      return await ctx.prisma.clientCredit.create({
+        data: {
+          userId,
+          clientId: input.clientId,
+          source: 'ADVANCE',
+          amount: new Decimal(input.amount),
+          currency: input.currency,
+          receivedDate: input.receivedDate,
+          paymentMethod: input.paymentMethod,
+          reference: input.reference,
+          notes: input.notes,
+          description: input.description,
+          serviceCode: input.serviceCode,
+          creditedAmount: input.creditedAmount ? new Decimal(input.creditedAmount) : null,
+          actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
+          bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : null,
+          fircNumber: input.fircNumber,
+        },
+      })
+    }),
+
+  /**
+   * Apply the client's credit to an invoice, oldest credit first.
+   * With `auto`, does nothing for draft invoices or clients that have
+   * automatic application turned off.
+   */
+  applyToInvoice: protectedProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        amount: z.number().positive().optional(), // Defaults to as much as the balance due allows
+        auto: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      // Balances are read in the transaction that spends them, so two
+      // applications cannot use the same credit or overpay the invoice
+      const applied = await ctx.prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.findFirst({
+          where: { id: input.invoiceId, userId },
+          include: {
+            client: { select: { autoApplyCredit: true } },
+            payments: { select: { amount: true } },
+          },
+        })
+
+        if (!invoice) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Invoice not found',
+          })
+        }
+
+        if (input.auto && (!invoice.client?.autoApplyCredit || invoice.status === 'DRAFT')) {
+          return new Decimal(0)
+        }
+
+        if (!invoice.clientId || invoice.status === 'CANCELLED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Credit can only be applied to an open client invoice',
+          })
+        }
+
+        const totalPaid = invoice.payments.reduce((sum, payment) => sum.add(payment.amount), new Decimal(0))
+        const outstanding = getAmountReceivable(invoice).minus(totalPaid)
+
+        if (input.amount !== undefined && outstanding.minus(input.amount).lessThan(EPSILON.negated())) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Amount of ${input.amount.toFixed(2)} exceeds the balance due of ${outstanding.toFixed(2)}`,
+          })
+        }
+
+        const credits = await tx.clientCredit.findMany({
+          where: { userId, clientId: invoice.clientId, currency: invoice.currency },
+          include: { applications: { select: { amount: true } } },
+          orderBy: [{ receivedDate: 'asc' }, { createdAt: 'asc' }],
+        })
+
+        const allocations = allocateClientCredit(
+          outstanding.toNumber(),
+          credits.map((credit) => ({
+            creditId: credit.id,
+            balance: getCreditBalance(
+              Number(credit.amount),
+              credit.applications.map((application) => ({ amount: Number(application.amount) }))
+            ),
+          })),
+          input.amount
+        )
+
+        if (allocations.length === 0) {
+          if (input.auto) return new Decimal(0)
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `The client has no ${invoice.currency} credit to apply`,
+          })
+        }
+
+        const paymentDate = new Date()
+        await assertPeriodNotFiled(tx, {
+          userId,
+          document: `The payment against ${invoice.invoiceNumber}`,
+          dates: [paymentDate],
+          instead: 'Apply the credit in the next period.',
+        })
+
+        let total = new Decimal(0)
+
+        for (const allocation of allocations) {
+          const credit = credits.find((candidate) => candidate.id === allocation.creditId)!
+
+          // The INR side comes from the credit, so forex reports use the rate it was received at
+          const payment = await tx.payment.create({
+            data: {
+              invoiceId: invoice.id,
+              amount: new Decimal(allocation.amount),
+              currency: invoice.currency,
+              paymentDate,
+              paymentMethod: 'CLIENT_CREDIT',
+              reference: credit.voucherNumber ?? credit.reference,
+              notes: `Applied from ${credit.source === 'ADVANCE' ? 'advance' : 'overpayment'} received on ${credit.receivedDate.toISOString().split('T')[0]}`,
+              creditedAmount: shareOf(credit.creditedAmount, allocation.amount, credit.amount),
+              actualExchangeRate: credit.actualExchangeRate,
+              bankChargesInr: shareOf(credit.bankChargesInr, allocation.amount, credit.amount),
+              fircNumber: credit.fircNumber,
+            },
+          })
+
+          await tx.clientCreditApplication.create({
+            data: {
+              creditId: credit.id,
+              paymentId: payment.id,
+              amount: new Decimal(allocation.amount),
+            },
+          })
+
+          total = total.add(allocation.amount)
+        }
+
+        await updateInvoicePaymentStatus(tx, invoice.id)
+        return total
+      })
+
+      if (applied.isZero()) {
+        return { applied: 0 }
+      }
+
+      try {
+        await getQueueService().enqueue('PDF_GENERATION', { invoiceId: input.invoiceId, userId })
+      } catch (error) {
+        console.error('Failed to queue PDF regeneration after applying credit:', error)
+      }
+
+      return { applied: applied.toNumber() }
+    }),
+
+  /**
+   * Turn automatic application of credit to newly issued invoices on or off
+   */
+  setAutoApply: protectedProcedure
+    .input(z.object({ clientId: z.string(), autoApplyCredit: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.prisma.client.updateMany({
+        where: { id: input.clientId, userId: ctx.session.user.id },
+        data: { autoApplyCredit: input.autoApplyCredit },
+      })
+
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  /**
+   * Issue the receipt voucher for an advance from an export client.
+   * Returns the existing voucher number when one was already issued.
+   */
+  issueReceiptVoucher: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const credit = await ctx.prisma.clientCredit.findFirst({
+        where: { id: input.id, userId },
+        include: { client: { select: { country: true } } },
+      })
+
+      if (!credit) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credit not found',
+        })
+      }
+
+      if (credit.voucherNumber) {
+        return credit
+      }
+
+      if (credit.source !== 'ADVANCE') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Receipt vouchers are issued for advances only',
+        })
+      }
+
+      if (isIndianCountry(credit.client.country)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Receipt vouchers are only generated for advances from export clients',
+        })
+      }
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        const fiscalYear = getCurrentFiscalYear(credit.receivedDate)
+        const existingVouchers = await tx.clientCredit.findMany({
+          where: {
+            userId,
+            voucherNumber: { startsWith: `RV/${fiscalYear}/` },
+          },
+          select: { voucherNumber: true },
+        })
+
+        const voucherNumber = generateReceiptVoucherNumber(
+          fiscalYear,
+          getNextReceiptVoucherSequence(existingVouchers.map((voucher) => voucher.voucherNumber!))
+        )
+
+        // Rule 50 requires the voucher on receipt of the advance, so it carries that date
+        return await tx.clientCredit.update({
+          where: { id: credit.id },
+          data: { voucherNumber, voucherDate: credit.receivedDate },
+        })
+      })
+    }),
+
+  /**
+   * Delete an advance that has not been applied to any invoice
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const credit = await ctx.prisma.clientCredit.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        include: { _count: { select: { applications: true } } },
+      })
+
+      if (!credit) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credit not found',
+        })
+      }
+
+      if (credit.source !== 'ADVANCE') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This credit is the excess of a payment. Delete the payment instead',
+        })
+      }
+
+      if (credit._count.applications > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This advance has been applied to invoices. Delete those payments first',
+        })
+      }
+
+      await ctx.prisma.clientCredit.delete({ where: { id: credit.id } })
+
+      return { success: true }
+    }),
+
+  /**
+   * Statement of account for a client: invoices, notes, payments and
+   * credits received, with a running balance per currency
+   */
+  getStatement: protectedProcedure
+    .input(StatementInputSchema)
+    .query(async ({ ctx, input }) => {
+      return await loadStatement(ctx.prisma, ctx.session.user.id, input)
+    }),
+
+  /**
+   * Client statement as a CSV file
+   */
+  exportStatementCsv: protectedProcedure
+    .input(StatementInputSchema)
+    .query(async ({ ctx, input }) => {
+      const { client, sections } = await loadStatement(ctx.prisma, ctx.session.user.id, input)
+      const safeName = client.name.replace(/[^a-zA-Z0-9]+/g, '_')
+
+      return {
+        fileName: `Statement_${safeName}_${new Date().toISOString().split('T')[0]}.csv`,
+        content: statementToCSV(sections),
+      }
+    }),
+})
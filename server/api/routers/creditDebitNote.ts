@@ -0,0 +1,415 @@
+/**
+ * Credit/Debit Note Router
+ *
+ * Handles credit and debit notes issued against an original invoice
+ * (Section 34 CGST Act). Notes carry their own CN/DN number series and
+ * adjust the amount receivable on the original invoice.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { InvoiceType, NoteType, Prisma } from '@prisma/client'
+import { getCurrentFiscalYear } from '@/lib/invoice-utils'
+import {
+  generateCreditDebitNoteNumber,
+  getNextCreditDebitNoteSequence,
+} from '@/lib/invoice-number-utils'
+import {
+  calculateNoteAmounts,
+  getCreditableAmount,
+  getInvoicePaymentState,
+  getNoteSign,
+} from '@/lib/credit-debit-notes'
+import { toNoteSnapshot } from '@/lib/gst-filing/amendments'
+import { assertPeriodNotFiled, checkFiledPeriod, recordAmendment } from '@/lib/gst-filing/filing-lock'
+
+const Decimal = Prisma.Decimal
+
+/**
+ * Recompute balance and payment status of an invoice after its note adjustment changed
+ */
+async function applyNoteAdjustment(
+  tx: Prisma.TransactionClient,
+  invoice: {
+    id: string
+    status: string
+    totalAmount: Prisma.Decimal
+    amountPaid: Prisma.Decimal
+    noteAdjustment: Prisma.Decimal
+  },
+  delta: number
+) {
+  const noteAdjustment = new Decimal(invoice.noteAdjustment).add(delta)
+
+  // A credit note can settle an invoice, a debit note can reopen a paid one
+  await tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      noteAdjustment,
+      ...getInvoicePaymentState({ ...invoice, noteAdjustment }, invoice.amountPaid),
+    },
+  })
+}
+
+export const creditDebitNoteRouter = createTRPCRouter({
+  /**
+   * Issue a credit or debit note against an invoice
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        invoiceId: z.string(),
+        noteType: z.nativeEnum(NoteType),
+        noteDate: z.date(),
+        reason: z.string().min(1, 'Reason is required'),
+        description: z.string().optional(),
+        taxableAmount: z.number().positive(), // In the invoice currency
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const invoice = await ctx.prisma.invoice.findFirst({
+        where: {
+          id: input.invoiceId,
+          userId,
+        },
+        include: {
+          creditDebitNotes: {
+            select: { noteType: true, taxableAmount: true },
+          },
+        },
+      })
+
+      if (!invoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invoice not found',
+        })
+      }
+
+      if (invoice.invoiceType === InvoiceType.SELF_INVOICE) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Credit/debit notes cannot be issued against self-invoices',
+        })
+      }
+
+      if (invoice.status === 'DRAFT') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Draft invoices should be edited directly instead of issuing a note',
+        })
+      }
+
+      if (invoice.status === 'CANCELLED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cannot issue a note against a cancelled invoice',
+        })
+      }
+
+      if (input.noteDate < invoice.invoiceDate) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Note date cannot be before the original invoice date',
+        })
+      }
+
+      if (input.noteType === NoteType.CREDIT) {
+        const creditable = getCreditableAmount(
+          Number(invoice.subtotal),
+          invoice.creditDebitNotes.map((note) => ({
+            noteType: note.noteType,
+            taxableAmount: Number(note.taxableAmount),
+          }))
+        )
+
+        if (input.taxableAmount > creditable + 0.01) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `Credit note exceeds the remaining taxable value of the invoice (${creditable.toFixed(2)} ${invoice.currency})`,
+          })
+        }
+      }
+
+      const amounts = calculateNoteAmounts(
+        input.taxableAmount,
+        {
+          igstRate: Number(invoice.igstRate),
+          cgstRate: Number(invoice.cgstRate),
+          sgstRate: Number(invoice.sgstRate),
+        },
+        Number(invoice.exchangeRate)
+      )
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        // Credit and debit notes have separate series per fiscal year
+        const prefix = input.noteType === NoteType.CREDIT ? 'CN' : 'DN'
+        const currentFY = getCurrentFiscalYear(input.noteDate)
+
+        const existingNotes = await tx.creditDebitNote.findMany({
+          where: {
+            userId,
+            noteNumber: {
+              startsWith: `${prefix}/${currentFY}/`,
+            },
+          },
+          select: { noteNumber: true },
+        })
+
+        const nextSequence = getNextCreditDebitNoteSequence(existingNotes.map((n) => n.noteNumber))
+        const noteNumber = generateCreditDebitNoteNumber(prefix, currentFY, nextSequence)
+
+        const note = await tx.creditDebitNote.create({
+          data: {
+            userId,
+            invoiceId: invoice.id,
+            noteType: input.noteType,
+            noteNumber,
+            noteDate: input.noteDate,
+            reason: input.reason,
+            description: input.description,
+            currency: invoice.currency,
+            exchangeRate: invoice.exchangeRate,
+            taxableAmount: input.taxableAmount,
+            igstRate: invoice.igstRate,
+            cgstRate: invoice.cgstRate,
+            sgstRate: invoice.sgstRate,
+            ...amounts,
+          },
+        })
+
+        await applyNoteAdjustment(tx, invoice, getNoteSign(input.noteType, amounts.totalAmount))
+
+        return note
+      })
+    }),
+
+  /**
+   * List credit/debit notes, optionally for a single invoice
+   */
+  list: protectedProcedure
+    .input(
+      z.object({
+        invoiceId: z.string().optional(),
+        noteType: z.nativeEnum(NoteType).optional(),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.creditDebitNote.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          invoiceId: input?.invoiceId,
+          noteType: input?.noteType,
+        },
+        include: {
+          invoice: {
+            select: {
+              invoiceNumber: true,
+              invoiceDate: true,
+              client: {
+                select: { name: true },
+              },
+            },
+          },
+        },
+        orderBy: { noteDate: 'desc' },
+      })
+    }),
+
+  /**
+   * Get a credit/debit note by ID
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const note = await ctx.prisma.creditDebitNote.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+        include: {
+          invoice: {
+            include: {
+              client: true,
+            },
+          },
+        },
+      })
+
+      if (!note) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Credit/debit note not found',
+        })
+      }
+
+      return note
+    }),
+
+  /**
+   * Change the amount or reason of a note, taxed at the original invoice
+   * rates. Notes dated in a filed period are only changed as amendments,
+   * reported in the next GSTR-1 (Table 9C).
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.string().min(1, 'Reason is required').optional(),
+        description: z.string().nullable().optional(),
+        taxableAmount: z.number().positive().optional(), // In the invoice currency
+        // Required when the note is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        const note = await tx.creditDebitNote.findFirst({
+          where: {
+            id: input.id,
+            userId,
+          },
+          include: {
+            invoice: {
+              include: {
+                creditDebitNotes: {
+                  select: { id: true, noteType: true, taxableAmount: true },
+                },
+              },
+            },
+          },
+        })
+
+        if (!note) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Credit/debit note not found',
+          })
+        }
+
+        const returns = await checkFiledPeriod(tx, {
+          userId,
+          document: `Note ${note.noteNumber}`,
+          dates: [note.noteDate],
+          amendmentReason: input.amendmentReason,
+        })
+
+        const taxableAmount = input.taxableAmount ?? Number(note.taxableAmount)
+
+        if (note.noteType === NoteType.CREDIT) {
+          const creditable = getCreditableAmount(
+            Number(note.invoice.subtotal),
+            note.invoice.creditDebitNotes
+              .filter((other) => other.id !== note.id)
+              .map((other) => ({
+                noteType: other.noteType,
+                taxableAmount: Number(other.taxableAmount),
+              }))
+          )
+
+          if (taxableAmount > creditable + 0.01) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Credit note exceeds the remaining taxable value of the invoice (${creditable.toFixed(2)} ${note.currency})`,
+            })
+          }
+        }
+
+        const amounts = calculateNoteAmounts(
+          taxableAmount,
+          {
+            igstRate: Number(note.igstRate),
+            cgstRate: Number(note.cgstRate),
+            sgstRate: Number(note.sgstRate),
+          },
+          Number(note.exchangeRate)
+        )
+
+        const updated = await tx.creditDebitNote.update({
+          where: { id: note.id },
+          data: {
+            reason: input.reason,
+            description: input.description,
+            taxableAmount,
+            ...amounts,
+          },
+        })
+
+        await applyNoteAdjustment(
+          tx,
+          note.invoice,
+          getNoteSign(note.noteType, amounts.totalAmount) - getNoteSign(note.noteType, Number(note.totalAmount))
+        )
+
+        if (returns) {
+          await recordAmendment(tx, {
+            userId,
+            returns,
+            documentType: 'CREDIT_DEBIT_NOTE',
+            documentId: note.id,
+            documentNumber: note.noteNumber,
+            dates: [note.noteDate],
+            reason: input.amendmentReason!,
+            original: toNoteSnapshot(note),
+            amended: toNoteSnapshot(updated),
+            creditDebitNoteId: note.id,
+          })
+        }
+
+        return updated
+      })
+    }),
+
+  /**
+   * Delete a credit/debit note and reverse its effect on the invoice balance
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      await ctx.prisma.$transaction(async (tx) => {
+        const note = await tx.creditDebitNote.findFirst({
+          where: {
+            id: input.id,
+            userId,
+          },
+          include: {
+            invoice: true,
+          },
+        })
+
+        if (!note) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Credit/debit note not found',
+          })
+        }
+
+        // A filed note stays on record; it is amended or reversed by another note
+        await assertPeriodNotFiled(tx, {
+          userId,
+          document: `Note ${note.noteNumber}`,
+          dates: [note.noteDate],
+          instead: 'Amend it instead of deleting it.',
+        })
+
+        await tx.filingPlanItem.deleteMany({
+          where: { creditDebitNoteId: note.id },
+        })
+
+        await tx.creditDebitNote.delete({
+          where: { id: note.id },
+        })
+
+        await applyNoteAdjustment(tx, note.invoice, -getNoteSign(note.noteType, Number(note.totalAmount)))
+      })
+
+      return { success: true }
+    }),
+})
@@ -19,6 +19,9 @@ import {
   calculateITCHealth,
   type ITCHealthInput,
 } from '@/lib/dashboard/itc-health'
+import { getQRMPStateCategory } from '@/lib/gst-filing/due-dates'
+import { getFilingFrequency } from '@/lib/gst-filing/qrmp'
+import { FILED_STATUSES, isFiledStatus } from '@/lib/gst-filing/amendments'
 
 // Helper to get the start of the current fiscal year (April 1st)
 function getCurrentFiscalYearStart(): Date {
@@ -62,7 +65,7 @@ export const dashboardRouter = createTRPCRouter({
     const revenueAgg = await ctx.prisma.invoice.aggregate({
       where: {
         userId,
-        status: { in: ['PAID', 'SENT', 'PARTIALLY_PAID'] },
+        status: { in: ['PAID', 'SENT', 'PARTIALLY_PAID', 'OVERDUE'] },
       },
       _sum: {
         totalInINR: true,
@@ -73,7 +76,7 @@ export const dashboardRouter = createTRPCRouter({
     const pendingAgg = await ctx.prisma.invoice.aggregate({
       where: {
         userId,
-        status: { in: ['SENT', 'PARTIALLY_PAID'] },
+        status: { in: ['SENT', 'PARTIALLY_PAID', 'OVERDUE'] },
       },
       _sum: {
         totalInINR: true,
@@ -87,7 +90,7 @@ export const dashboardRouter = createTRPCRouter({
     const overdueInvoices = await ctx.prisma.invoice.findMany({
       where: {
         userId,
-        status: { in: ['SENT', 'PARTIALLY_PAID'] },
+        status: { in: ['SENT', 'PARTIALLY_PAID', 'OVERDUE'] },
         dueDate: { lt: now },
       },
       select: {
@@ -274,7 +277,7 @@ export const dashboardRouter = createTRPCRouter({
         where: {
           userId: ctx.session.user.id,
           invoiceDate: { gte: startOfMonth(startDate) },
-          status: { in: ['PAID', 'SENT', 'PARTIALLY_PAID'] },
+          status: { in: ['PAID', 'SENT', 'PARTIALLY_PAID', 'OVERDUE'] },
         },
         select: {
           invoiceDate: true,
@@ -364,7 +367,7 @@ export const dashboardRouter = createTRPCRouter({
       ctx.prisma.gSTFilingPeriod.count({
         where: {
           userId,
-          status: { notIn: ['FILED'] },
+          status: { notIn: FILED_STATUSES },
           dueDate: { lt: now },
         },
       }),
@@ -519,29 +522,41 @@ export const dashboardRouter = createTRPCRouter({
       const userId = ctx.session.user.id
       const monthsAhead = input?.monthsAhead || 3
 
-      // Get filing periods from database
-      const filings = await ctx.prisma.gSTFilingPeriod.findMany({
-        where: { userId },
-        select: {
-          period: true,
-          filingType: true,
-          status: true,
-          approvedAt: true,
-        },
-        orderBy: { period: 'desc' },
-        take: 24, // Last 2 years of filings
-      })
+      // Get filing periods, frequency history and GST state from database
+      const [filings, frequencyHistory, user] = await Promise.all([
+        ctx.prisma.gSTFilingPeriod.findMany({
+          where: { userId },
+          select: {
+            period: true,
+            filingType: true,
+            status: true,
+            approvedAt: true,
+          },
+          orderBy: { period: 'desc' },
+          take: 24, // Last 2 years of filings
+        }),
+        ctx.prisma.filingFrequencyChange.findMany({
+          where: { userId },
+          select: { frequency: true, effectiveFrom: true },
+        }),
+        ctx.prisma.user.findUnique({
+          where: { id: userId },
+          select: { gstin: true },
+        }),
+      ])
+      const stateCode = user?.gstin?.slice(0, 2) ?? null
 
       // Convert to FilingPeriodData format
       const filingData: FilingPeriodData[] = filings.map((f) => ({
         period: f.period,
         filingType: f.filingType,
         status: f.status,
-        filedAt: f.status === 'FILED' ? f.approvedAt : null,
+        filedAt: isFiledStatus(f.status) ? f.approvedAt : null,
       }))
 
-      const calendar = generateFilingCalendar(filingData, monthsAhead)
-      const nextDeadlines = getNextFilingDeadlines(filingData, 4)
+      const options = { frequencyHistory, stateCode }
+      const calendar = generateFilingCalendar(filingData, monthsAhead, options)
+      const nextDeadlines = getNextFilingDeadlines(filingData, 4, options)
       const overdueCount = calendar.filter((e) => e.isOverdue).length
 
       return {
@@ -549,6 +564,8 @@ export const dashboardRouter = createTRPCRouter({
         nextDeadlines,
         overdueCount,
         hasOverdue: overdueCount > 0,
+        frequency: getFilingFrequency(frequencyHistory, format(new Date(), 'yyyy-MM')),
+        stateCategory: getQRMPStateCategory(stateCode),
       }
     }),
 
@@ -0,0 +1,130 @@
+/**
+ * Dunning Router
+ *
+ * Payment reminder schedules: the user's default schedule, per-client
+ * overrides, and per-client opt-outs. Reminders are sent by the
+ * PAYMENT_REMINDER queue job.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { describeDunningSteps, validateDunningSteps } from '@/lib/dunning'
+
+const DunningStepsSchema = z.object({
+  offsetDays: z.array(z.number().int().min(-60).max(365)).max(10),
+  repeatEveryDays: z.number().int().min(1).max(90).nullable(),
+  maxReminders: z.number().int().min(1).max(50).nullable(),
+})
+
+export const dunningRouter = createTRPCRouter({
+  /**
+   * The default schedule and every client with its override and opt-out
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id
+    const [schedules, clients] = await Promise.all([
+      ctx.prisma.dunningSchedule.findMany({ where: { userId } }),
+      ctx.prisma.client.findMany({
+        where: { userId, isActive: true },
+        select: { id: true, name: true, company: true, remindersOptOut: true },
+        orderBy: { name: 'asc' },
+      }),
+    ])
+
+    const withDescription = (schedule: (typeof schedules)[number] | undefined) =>
+      schedule ? { ...schedule, description: describeDunningSteps(schedule) } : null
+
+    return {
+      defaultSchedule: withDescription(schedules.find((schedule) => !schedule.clientId)),
+      clients: clients.map((client) => ({
+        ...client,
+        schedule: withDescription(schedules.find((schedule) => schedule.clientId === client.id)),
+      })),
+    }
+  }),
+
+  /**
+   * Create or replace the default schedule (clientId null) or a client's override
+   */
+  save: protectedProcedure
+    .input(DunningStepsSchema.extend({ clientId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const { clientId, ...steps } = input
+
+      const error = validateDunningSteps(steps)
+      if (error) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: error,
+        })
+      }
+
+      if (clientId) {
+        const client = await ctx.prisma.client.findFirst({
+          where: { id: clientId, userId },
+        })
+
+        if (!client) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Client not found',
+          })
+        }
+
+        return ctx.prisma.dunningSchedule.upsert({
+          where: { clientId },
+          create: { userId, clientId, ...steps },
+          update: steps,
+        })
+      }
+
+      return ctx.prisma.dunningSchedule.upsert({
+        where: { defaultForUserId: userId },
+        create: { userId, defaultForUserId: userId, ...steps },
+        update: steps,
+      })
+    }),
+
+  /**
+   * Remove the default schedule, or a client's override so the default applies
+   */
+  delete: protectedProcedure
+    .input(z.object({ clientId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.prisma.dunningSchedule.deleteMany({
+        where: { userId: ctx.session.user.id, clientId: input.clientId },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Reminder schedule not found',
+        })
+      }
+
+      return { success: true }
+    }),
+
+  /**
+   * Stop or resume automatic reminders to a client
+   */
+  setClientOptOut: protectedProcedure
+    .input(z.object({ clientId: z.string(), optOut: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.prisma.client.updateMany({
+        where: { id: input.clientId, userId: ctx.session.user.id },
+        data: { remindersOptOut: input.optOut },
+      })
+
+      if (count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      return { success: true }
+    }),
+})
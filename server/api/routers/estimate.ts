@@ -0,0 +1,425 @@
+/**
+ * Estimate Router
+ *
+ * Quotations sent to export clients before work starts. Estimates have
+ * their own EST number series, a public share link for the client to
+ * accept or decline, and convert into a draft export invoice.
+ */
+
+import { z } from 'zod'
+import { addDays } from 'date-fns'
+import { createCallerFactory, createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { EstimateStatus } from '@prisma/client'
+import { getCurrentFiscalYear, calculateSubtotal } from '@/lib/invoice-utils'
+import { generateEstimateNumber, getNextEstimateSequence } from '@/lib/invoice-number-utils'
+import { exportHsnSacCodeSchema } from '@/lib/validations/gst'
+import { generateSecureToken, getTokenExpirationDate } from '@/lib/utils/token'
+import { isIndianCountry } from '@/lib/domestic-gst-calculator'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+import { getActiveLUTForInvoice } from '@/lib/lut-utils'
+import { isEstimateEditable } from '@/lib/estimates'
+import { invoiceRouter } from '@/server/api/routers/invoice'
+
+const createInvoiceCaller = createCallerFactory(invoiceRouter)
+
+const lineItemSchema = z.object({
+  description: z.string().min(1),
+  quantity: z.number().positive(),
+  rate: z.number().positive(),
+  sacCode: exportHsnSacCodeSchema,
+})
+
+const estimateSchema = z.object({
+  clientId: z.string(),
+  estimateDate: z.date(),
+  validUntil: z.date(),
+  currency: z.string().default('USD'),
+  notes: z.string().optional(),
+  terms: z.string().optional(),
+  lineItems: z.array(lineItemSchema).min(1),
+}).refine(
+  (data) => data.validUntil >= data.estimateDate,
+  {
+    message: 'Valid until date must be on or after the estimate date',
+    path: ['validUntil'],
+  }
+)
+
+export const estimateRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(
+      z.object({
+        status: z.nativeEnum(EstimateStatus).optional(),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return await ctx.prisma.estimate.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          status: input?.status,
+        },
+        include: {
+          client: {
+            select: { name: true, company: true },
+          },
+          lineItems: true,
+          convertedInvoice: {
+            select: { id: true, invoiceNumber: true },
+          },
+        },
+        orderBy: { estimateDate: 'desc' },
+      })
+    }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const estimate = await ctx.prisma.estimate.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+        include: {
+          client: true,
+          lineItems: true,
+          convertedInvoice: {
+            select: { id: true, invoiceNumber: true },
+          },
+        },
+      })
+
+      if (!estimate) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Estimate not found',
+        })
+      }
+
+      return estimate
+    }),
+
+  create: protectedProcedure
+    .input(estimateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.clientId, userId },
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      if (isIndianCountry(client.country)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Estimates are available for export clients only',
+        })
+      }
+
+      const subtotal = calculateSubtotal(input.lineItems)
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        const currentFY = getCurrentFiscalYear(input.estimateDate)
+
+        const existingEstimates = await tx.estimate.findMany({
+          where: {
+            userId,
+            estimateNumber: {
+              startsWith: `EST/${currentFY}/`,
+            },
+          },
+          select: { estimateNumber: true },
+        })
+
+        const nextSequence = getNextEstimateSequence(existingEstimates.map((e) => e.estimateNumber))
+        const estimateNumber = generateEstimateNumber(currentFY, nextSequence)
+
+        return await tx.estimate.create({
+          data: {
+            userId,
+            clientId: input.clientId,
+            estimateNumber,
+            estimateDate: input.estimateDate,
+            validUntil: input.validUntil,
+            currency: input.currency,
+            subtotal,
+            totalAmount: subtotal,
+            notes: input.notes,
+            terms: input.terms,
+            publicAccessToken: generateSecureToken(),
+            tokenExpiresAt: getTokenExpirationDate(90), // 90 days expiration
+            lineItems: {
+              create: input.lineItems.map((item) => ({
+                description: item.description,
+                quantity: item.quantity,
+                rate: item.rate,
+                amount: item.quantity * item.rate,
+                serviceCode: item.sacCode,
+              })),
+            },
+          },
+        })
+      })
+    }),
+
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      data: estimateSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const existing = await ctx.prisma.estimate.findFirst({
+        where: { id: input.id, userId },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Estimate not found',
+        })
+      }
+
+      if (!isEstimateEditable(existing.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only draft or sent estimates can be edited',
+        })
+      }
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.data.clientId, userId },
+      })
+
+      if (!client || isIndianCountry(client.country)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Estimates are available for export clients only',
+        })
+      }
+
+      const subtotal = calculateSubtotal(input.data.lineItems)
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        await tx.estimateItem.deleteMany({
+          where: { estimateId: existing.id },
+        })
+
+        return await tx.estimate.update({
+          where: { id: existing.id },
+          data: {
+            clientId: input.data.clientId,
+            estimateDate: input.data.estimateDate,
+            validUntil: input.data.validUntil,
+            currency: input.data.currency,
+            subtotal,
+            totalAmount: subtotal,
+            notes: input.data.notes ?? null,
+            terms: input.data.terms ?? null,
+            lineItems: {
+              create: input.data.lineItems.map((item) => ({
+                description: item.description,
+                quantity: item.quantity,
+                rate: item.rate,
+                amount: item.quantity * item.rate,
+                serviceCode: item.sacCode,
+              })),
+            },
+          },
+        })
+      })
+    }),
+
+  // Mark as sent and return a fresh share link if the old one expired
+  markAsSent: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.estimate.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Estimate not found',
+        })
+      }
+
+      if (!isEstimateEditable(existing.status)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The client has already responded to this estimate',
+        })
+      }
+
+      const tokenExpired = !existing.publicAccessToken || !existing.tokenExpiresAt || new Date() > existing.tokenExpiresAt
+
+      const estimate = await ctx.prisma.estimate.update({
+        where: { id: existing.id },
+        data: {
+          status: 'SENT',
+          ...(tokenExpired && {
+            publicAccessToken: generateSecureToken(),
+            tokenExpiresAt: getTokenExpirationDate(90),
+          }),
+        },
+      })
+
+      return {
+        estimate,
+        shareUrl: `${process.env.NEXTAUTH_URL}/estimate/${estimate.publicAccessToken}`,
+      }
+    }),
+
+  // Turn an accepted estimate into a draft export invoice
+  convertToInvoice: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      lutId: z.string().optional(), // Defaults to the LUT valid today
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const estimate = await ctx.prisma.estimate.findFirst({
+        where: { id: input.id, userId },
+        include: { lineItems: true },
+      })
+
+      if (!estimate) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Estimate not found',
+        })
+      }
+
+      if (estimate.status === 'CONVERTED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This estimate has already been converted to an invoice',
+        })
+      }
+
+      if (estimate.status !== 'ACCEPTED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only accepted estimates can be converted to invoices',
+        })
+      }
+
+      const issueDate = new Date()
+
+      let lutId = input.lutId
+      if (!lutId) {
+        const luts = await ctx.prisma.lUT.findMany({
+          where: { userId, isActive: true },
+          orderBy: { validTill: 'desc' },
+        })
+        lutId = getActiveLUTForInvoice(luts, issueDate)?.id
+      }
+
+      if (!lutId) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'No valid LUT found. Add or renew your LUT before converting the estimate.',
+        })
+      }
+
+      const rate = await getOrFetchExchangeRate(estimate.currency, issueDate)
+      if (!rate) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `No exchange rate available for ${estimate.currency}`,
+        })
+      }
+
+      // Claim the estimate first so a second conversion of it fails here
+      const claimed = await ctx.prisma.estimate.updateMany({
+        where: { id: estimate.id, userId, status: 'ACCEPTED' },
+        data: { status: 'CONVERTED' },
+      })
+
+      if (claimed.count !== 1) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: 'This estimate has already been converted to an invoice',
+        })
+      }
+
+      let created
+      try {
+        // Same path as the invoice form, so numbering, validation and PDF queueing match
+        created = await createInvoiceCaller(ctx).create({
+          invoiceType: 'EXPORT',
+          clientId: estimate.clientId,
+          lutId,
+          issueDate,
+          dueDate: addDays(issueDate, 30),
+          currency: estimate.currency,
+          exchangeRate: rate.rate,
+          exchangeRateSource: rate.source,
+          paymentTerms: 30,
+          notes: estimate.notes ?? undefined,
+          lineItems: estimate.lineItems.map((item) => ({
+            description: item.description,
+            quantity: Number(item.quantity),
+            rate: Number(item.rate),
+            sacCode: item.serviceCode,
+          })),
+        })
+      } catch (error) {
+        // Release the claim so the estimate can be converted again
+        await ctx.prisma.estimate.update({
+          where: { id: estimate.id },
+          data: { status: 'ACCEPTED' },
+        })
+        throw error
+      }
+
+      const { invoice } = created
+
+      await ctx.prisma.estimate.update({
+        where: { id: estimate.id },
+        data: {
+          convertedInvoiceId: invoice.id,
+          convertedAt: new Date(),
+        },
+      })
+
+      return { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.estimate.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Estimate not found',
+        })
+      }
+
+      if (existing.status === 'CONVERTED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Converted estimates cannot be deleted',
+        })
+      }
+
+      await ctx.prisma.estimate.delete({
+        where: { id: existing.id },
+      })
+
+      return { success: true }
+    }),
+})
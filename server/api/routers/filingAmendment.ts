@@ -0,0 +1,80 @@
+/**
+ * Filing Amendment Router
+ *
+ * Reads the filed period lock and the amendments log. The lock is checked and
+ * amendments are recorded by the routers changing the documents, inside the
+ * same transaction as the change (see lib/gst-filing/filing-lock).
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { AmendedDocumentType } from '@prisma/client'
+import { describeReturns, diffAmendment, getAmendmentTable, type AmendmentSnapshot } from '@/lib/gst-filing'
+import { findFiledReturns } from '@/lib/gst-filing/filing-lock'
+
+export const filingAmendmentRouter = createTRPCRouter({
+  /**
+   * Get the filed returns locking documents with these dates. A change to
+   * such a document needs a reason and is recorded as an amendment.
+   */
+  getLock: protectedProcedure
+    .input(
+      z.object({
+        dates: z.array(z.date()).min(1),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const returns = await findFiledReturns(ctx.prisma, ctx.session.user.id, input.dates)
+
+      return {
+        returns,
+        description: returns.length > 0 ? describeReturns(returns) : null,
+      }
+    }),
+
+  /**
+   * Amendments log, latest first, with the fields each amendment changed
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          documentType: z.nativeEnum(AmendedDocumentType).optional(),
+          documentId: z.string().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const amendments = await ctx.prisma.filingAmendment.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          documentType: input?.documentType,
+          documentId: input?.documentId,
+        },
+        include: {
+          reportedInPeriod: {
+            select: { id: true, filingType: true, period: true, frequency: true, status: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+
+      return amendments.map((amendment) => ({
+        id: amendment.id,
+        documentType: amendment.documentType,
+        documentId: amendment.documentId,
+        documentNumber: amendment.documentNumber,
+        documentDate: amendment.documentDate,
+        reason: amendment.reason,
+        isDeletion: amendment.amended === null,
+        amendmentTable: getAmendmentTable(amendment.originalTable),
+        reportedInPeriod: amendment.reportedInPeriod,
+        changes: diffAmendment(
+          amendment.documentType,
+          amendment.original as unknown as AmendmentSnapshot,
+          amendment.amended as unknown as AmendmentSnapshot | null
+        ),
+        createdAt: amendment.createdAt,
+      }))
+    }),
+})
@@ -0,0 +1,320 @@
+/**
+ * Forex Revaluation Router
+ *
+ * Restates open foreign currency invoices at the closing rate of a date,
+ * keeps each run as a snapshot that can be reversed, and exports it for
+ * the accountant.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { endOfDay, format, startOfDay } from 'date-fns'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+import {
+  calculateRevaluation,
+  getBalanceDueOn,
+  revaluationToCSV,
+  summarizeRevaluation,
+  type RevaluationLine,
+} from '@/lib/forex-revaluation'
+
+/**
+ * Revaluation lines for every foreign currency invoice with a balance due
+ * at the end of the date, and the currencies no rate could be found for
+ */
+async function buildRevaluationLines(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string,
+  date: Date
+): Promise<{ lines: Array<RevaluationLine & { invoiceId: string }>; missingRates: string[] }> {
+  const asOf = endOfDay(date)
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      userId,
+      clientId: { not: null },
+      currency: { not: 'INR' },
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      invoiceDate: { lte: asOf },
+    },
+    include: {
+      client: { select: { name: true } },
+      payments: { select: { amount: true, paymentDate: true } },
+      creditDebitNotes: { select: { noteType: true, totalAmount: true, noteDate: true } },
+    },
+    orderBy: [{ currency: 'asc' }, { invoiceDate: 'asc' }],
+  })
+
+  const open = invoices
+    .map((invoice) => ({
+      invoice,
+      balanceDue: getBalanceDueOn(
+        {
+          totalAmount: Number(invoice.totalAmount),
+          payments: invoice.payments.map((payment) => ({
+            amount: Number(payment.amount),
+            paymentDate: payment.paymentDate,
+          })),
+          creditDebitNotes: invoice.creditDebitNotes.map((note) => ({
+            noteType: note.noteType,
+            totalAmount: Number(note.totalAmount),
+            noteDate: note.noteDate,
+          })),
+        },
+        asOf
+      ),
+    }))
+    .filter(({ balanceDue }) => balanceDue > 0)
+
+  const rates = new Map<string, Awaited<ReturnType<typeof getOrFetchExchangeRate>>>()
+  for (const currency of new Set(open.map(({ invoice }) => invoice.currency))) {
+    rates.set(currency, await getOrFetchExchangeRate(currency, date))
+  }
+
+  const lines: Array<RevaluationLine & { invoiceId: string }> = []
+  for (const { invoice, balanceDue } of open) {
+    const rate = rates.get(invoice.currency)
+    if (!rate) continue
+
+    const bookingRate = Number(invoice.exchangeRate)
+    lines.push({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.invoiceDate,
+      clientName: invoice.client?.name ?? '',
+      currency: invoice.currency,
+      balanceDue,
+      bookingRate,
+      closingRate: rate.rate,
+      rateSource: rate.source,
+      rateDate: rate.date,
+      ...calculateRevaluation(balanceDue, bookingRate, rate.rate),
+    })
+  }
+
+  const missingRates = [...rates.entries()].filter(([, rate]) => !rate).map(([currency]) => currency)
+  return { lines, missingRates }
+}
+
+/**
+ * Convert a stored line back to numbers
+ */
+function toRevaluationLine(line: Prisma.ForexRevaluationLineGetPayload<object>): RevaluationLine & {
+  id: string
+  invoiceId: string | null
+} {
+  return {
+    id: line.id,
+    invoiceId: line.invoiceId,
+    invoiceNumber: line.invoiceNumber,
+    invoiceDate: line.invoiceDate,
+    clientName: line.clientName,
+    currency: line.currency,
+    balanceDue: Number(line.balanceDue),
+    bookingRate: Number(line.bookingRate),
+    closingRate: Number(line.closingRate),
+    rateSource: line.rateSource,
+    rateDate: line.rateDate,
+    bookedInr: Number(line.bookedInr),
+    revaluedInr: Number(line.revaluedInr),
+    gainLoss: Number(line.gainLoss),
+  }
+}
+
+export const forexRevaluationRouter = createTRPCRouter({
+  /**
+   * Preview a revaluation without saving it
+   */
+  preview: protectedProcedure
+    .input(z.object({ revaluationDate: z.date() }))
+    .query(async ({ ctx, input }) => {
+      const { lines, missingRates } = await buildRevaluationLines(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.revaluationDate
+      )
+
+      return {
+        lines,
+        summary: summarizeRevaluation(lines),
+        missingRates,
+      }
+    }),
+
+  /**
+   * Run a revaluation and store it as a snapshot
+   */
+  create: protectedProcedure
+    .input(
+      z.object({
+        revaluationDate: z.date(),
+        notes: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const existing = await ctx.prisma.forexRevaluation.findFirst({
+        where: {
+          userId,
+          status: 'POSTED',
+          revaluationDate: { gte: startOfDay(input.revaluationDate), lte: endOfDay(input.revaluationDate) },
+        },
+      })
+
+      if (existing) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message: `A revaluation is already posted for ${format(input.revaluationDate, 'dd MMM yyyy')}. Reverse it first`,
+        })
+      }
+
+      const { lines, missingRates } = await buildRevaluationLines(ctx.prisma, userId, input.revaluationDate)
+
+      if (missingRates.length > 0) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `No exchange rate available for ${missingRates.join(', ')} on this date`,
+        })
+      }
+
+      if (lines.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'No foreign currency invoices had a balance due on this date',
+        })
+      }
+
+      const summary = summarizeRevaluation(lines)
+
+      return await ctx.prisma.forexRevaluation.create({
+        data: {
+          userId,
+          revaluationDate: startOfDay(input.revaluationDate),
+          invoiceCount: summary.invoiceCount,
+          bookedInr: summary.bookedInr,
+          revaluedInr: summary.revaluedInr,
+          gainLoss: summary.gainLoss,
+          notes: input.notes || null,
+          lines: {
+            create: lines,
+          },
+        },
+      })
+    }),
+
+  /**
+   * List revaluation runs, latest date first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const revaluations = await ctx.prisma.forexRevaluation.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: [{ revaluationDate: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    return revaluations.map((revaluation) => ({
+      ...revaluation,
+      bookedInr: Number(revaluation.bookedInr),
+      revaluedInr: Number(revaluation.revaluedInr),
+      gainLoss: Number(revaluation.gainLoss),
+    }))
+  }),
+
+  /**
+   * Get a revaluation with its lines and totals by currency
+   */
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const revaluation = await ctx.prisma.forexRevaluation.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        include: {
+          lines: { orderBy: [{ currency: 'asc' }, { invoiceDate: 'asc' }] },
+        },
+      })
+
+      if (!revaluation) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Revaluation not found',
+        })
+      }
+
+      const lines = revaluation.lines.map(toRevaluationLine)
+
+      return {
+        ...revaluation,
+        bookedInr: Number(revaluation.bookedInr),
+        revaluedInr: Number(revaluation.revaluedInr),
+        gainLoss: Number(revaluation.gainLoss),
+        lines,
+        summary: summarizeRevaluation(lines),
+      }
+    }),
+
+  /**
+   * Reverse a posted revaluation. The snapshot is kept for the record.
+   */
+  reverse: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.string().max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const revaluation = await ctx.prisma.forexRevaluation.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!revaluation) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Revaluation not found',
+        })
+      }
+
+      if (revaluation.status === 'REVERSED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Revaluation is already reversed',
+        })
+      }
+
+      return await ctx.prisma.forexRevaluation.update({
+        where: { id: revaluation.id },
+        data: {
+          status: 'REVERSED',
+          reversedAt: new Date(),
+          reversalReason: input.reason || null,
+        },
+      })
+    }),
+
+  /**
+   * Export a revaluation as CSV
+   */
+  exportCsv: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const revaluation = await ctx.prisma.forexRevaluation.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        include: {
+          lines: { orderBy: [{ currency: 'asc' }, { invoiceDate: 'asc' }] },
+        },
+      })
+
+      if (!revaluation) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Revaluation not found',
+        })
+      }
+
+      return {
+        fileName: `forex-revaluation-${format(revaluation.revaluationDate, 'yyyy-MM-dd')}.csv`,
+        content: revaluationToCSV(revaluation.lines.map(toRevaluationLine)),
+      }
+    }),
+})
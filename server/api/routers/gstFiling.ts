@@ -7,28 +7,404 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
 import { TRPCError } from '@trpc/server'
-import { FilingType, FilingStatus, Prisma } from '@prisma/client'
+import {
+  FilingFrequency,
+  FilingType,
+  FilingStatus,
+  Prisma,
+  type InvoiceItem,
+  type NoteType,
+  type PrismaClient,
+} from '@prisma/client'
 import {
   classifyForGSTR1,
   classifyForGSTR3B,
   GSTR1Table,
-  getGSTR1DueDate,
-  getGSTR3BDueDate,
+  getReturnDueDate,
   getFiscalYear,
+  getFilingPeriodFromDate,
+  getQuarterPeriods,
+  isQuarterStartPeriod,
+  getQRMPStateCategory,
   getUpcomingFilingPeriods,
+  getFilingFrequency,
+  getReturnTypeForPeriod,
+  getReturnsForPeriod,
+  formatReturnPeriod,
+  FILING_TYPE_LABELS,
   formatPeriod,
   isFilingOverdue,
   getDaysUntilDue,
   validateFilingItem,
   calculateConfidenceScore,
+  getINRTaxAmounts,
+  classifyNoteForGSTR1,
+  getRateWiseAmounts,
+  getHsnWiseAmounts,
+  sumRateWiseAmounts,
+  summarizeDocuments,
+  getSeriesKey,
+  summarizeHsn,
+  DocumentNature,
+  buildGSTR1Json,
+  validateGSTR1Json,
+  getGSTR1JsonFileName,
+  buildGSTR3BComputation,
+  buildGSTR3BJson,
+  getGSTR3BJsonFileName,
+  AMENDABLE_GSTR1_TABLES,
+  FILED_STATUSES,
+  isFiledStatus,
+  describeReturns,
+  getAmendmentTable,
+  getOriginalDocument,
+  type AmendmentSnapshot,
+  type DocumentSeriesSummary,
+  type FilingFrequencyChange,
+  type HsnWiseAmounts,
+  type GSTR1Document,
   type InvoiceForClassification,
   type InvoiceForValidation,
+  type RateWiseAmounts,
 } from '@/lib/gst-filing'
+import { getNoteSign } from '@/lib/credit-debit-notes'
 
 // Input schemas
 const filingTypeSchema = z.nativeEnum(FilingType)
 const filingStatusSchema = z.nativeEnum(FilingStatus)
 
+/**
+ * Get the date range [gte, lt) covered by a YYYY-MM period
+ */
+function getPeriodDateRange(period: string) {
+  const start = new Date(`${period}-01`)
+  return {
+    gte: start,
+    lt: new Date(new Date(start).setMonth(start.getMonth() + 1)),
+  }
+}
+
+/**
+ * Get the date range [gte, lt) covered by a return: its month, or for a
+ * quarterly return the three months of the quarter ending in its period
+ */
+function getReturnDateRange(period: string, isQuarterly: boolean) {
+  if (!isQuarterly) return getPeriodDateRange(period)
+  return {
+    gte: getPeriodDateRange(getQuarterPeriods(period)[0]).gte,
+    lt: getPeriodDateRange(period).lt,
+  }
+}
+
+/**
+ * Load the user's filing frequency history (latest first) and GST state
+ * code, which decide the returns they file and when they are due
+ */
+async function loadFilingProfile(prisma: PrismaClient, userId: string) {
+  const [history, user] = await Promise.all([
+    prisma.filingFrequencyChange.findMany({
+      where: { userId },
+      orderBy: { effectiveFrom: 'desc' },
+    }),
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { gstin: true },
+    }),
+  ])
+
+  return { history, stateCode: user?.gstin?.slice(0, 2) ?? null }
+}
+
+/**
+ * Find the filing periods from a month onwards that were generated under a
+ * different frequency than a new history gives them. Filed returns cannot
+ * change frequency, so any among them is an error; the rest are stale plans.
+ */
+async function findStaleFilingPeriods(
+  prisma: PrismaClient,
+  userId: string,
+  history: FilingFrequencyChange[],
+  fromPeriod: string
+): Promise<string[]> {
+  const periods = await prisma.gSTFilingPeriod.findMany({
+    where: { userId, period: { gte: fromPeriod } },
+    select: { id: true, filingType: true, period: true, status: true, frequency: true },
+    orderBy: { period: 'asc' },
+  })
+  const changed = periods.filter((period) => getFilingFrequency(history, period.period) !== period.frequency)
+
+  const filed = changed.find((period) => isFiledStatus(period.status))
+  if (filed) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `${FILING_TYPE_LABELS[filed.filingType]} for ${formatPeriod(filed.period)} was already filed as a ${filed.frequency.toLowerCase()} return`,
+    })
+  }
+
+  return changed.map((period) => period.id)
+}
+
+/**
+ * Refuse to change a filed return. Later changes to its documents are
+ * recorded as amendments and reported in the next GSTR-1.
+ */
+function assertReturnNotFiled(filing: {
+  filingType: FilingType
+  period: string
+  frequency: FilingFrequency
+  status: FilingStatus
+}) {
+  if (isFiledStatus(filing.status)) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: `${describeReturns([filing])} has been filed and can no longer be changed`,
+    })
+  }
+}
+
+/**
+ * Find the plan items already reported in filed IFFs for the first two
+ * months of a quarter, which the quarterly GSTR-1 must not repeat
+ */
+function findIFFReportedItems(prisma: PrismaClient, userId: string, quarterEndPeriod: string) {
+  return prisma.filingPlanItem.findMany({
+    where: {
+      isIncluded: true,
+      filingPeriod: {
+        userId,
+        filingType: FilingType.IFF,
+        status: { in: FILED_STATUSES },
+        period: { in: getQuarterPeriods(quarterEndPeriod) },
+      },
+    },
+    select: {
+      invoiceId: true,
+      creditDebitNoteId: true,
+      gstrTable: true,
+      invoice: { select: { exchangeRate: true, lineItems: true } },
+    },
+  })
+}
+
+/**
+ * Get the rate-wise INR breakdown of an outward invoice from its line items.
+ * Self-invoices carry their tax on the header only, so they have no breakdown.
+ */
+function getInvoiceRateBreakdown(
+  invoice: Prisma.InvoiceGetPayload<{ include: { client: true } }> & { lineItems?: InvoiceItem[] }
+): RateWiseAmounts[] | null {
+  if (invoice.invoiceType === 'SELF_INVOICE' || !invoice.lineItems?.length) {
+    return null
+  }
+
+  return getRateWiseAmounts(
+    invoice.lineItems.map((item) => ({
+      serviceCode: item.serviceCode,
+      quantity: Number(item.quantity),
+      amount: Number(item.amount),
+      discountAmount: Number(item.discountAmount),
+      gstRate: Number(item.gstRate),
+      igstAmount: Number(item.igstAmount),
+      cgstAmount: Number(item.cgstAmount),
+      sgstAmount: Number(item.sgstAmount),
+    })),
+    Number(invoice.exchangeRate)
+  )
+}
+
+/**
+ * Build the classification input for an invoice, with amounts converted to INR.
+ * When line items are loaded, taxable value and tax are totalled from the lines.
+ */
+function toClassificationInput(
+  invoice: Prisma.InvoiceGetPayload<{ include: { client: true } }> & { lineItems?: InvoiceItem[] }
+): InvoiceForClassification & { taxableValue: number; rateBreakdown: RateWiseAmounts[] | null } {
+  const rateBreakdown = getInvoiceRateBreakdown(invoice)
+  const inr = rateBreakdown
+    ? sumRateWiseAmounts(rateBreakdown)
+    : getINRTaxAmounts({
+        invoiceType: invoice.invoiceType,
+        subtotal: Number(invoice.subtotal),
+        exchangeRate: Number(invoice.exchangeRate),
+        igstAmount: Number(invoice.igstAmount),
+        cgstAmount: Number(invoice.cgstAmount),
+        sgstAmount: Number(invoice.sgstAmount),
+      })
+
+  return {
+    invoiceType: invoice.invoiceType,
+    isRCM: invoice.isRCM,
+    rcmType: invoice.rcmType,
+    lutId: invoice.lutId,
+    exportWithPayment: invoice.exportWithPayment,
+    clientGstin: invoice.client?.gstin || null,
+    clientCountry: invoice.client?.country || null,
+    totalInINR: Number(invoice.totalInINR),
+    taxableValue: inr.taxableValue,
+    igstAmount: inr.igst,
+    cgstAmount: inr.cgst,
+    sgstAmount: inr.sgst,
+    rateBreakdown,
+  }
+}
+
+/**
+ * Get signed INR amounts of a credit/debit note (credit notes are negative)
+ */
+function getNoteINRAmounts(note: {
+  noteType: NoteType
+  taxableAmount: Prisma.Decimal
+  exchangeRate: Prisma.Decimal
+  igstAmount: Prisma.Decimal
+  cgstAmount: Prisma.Decimal
+  sgstAmount: Prisma.Decimal
+}) {
+  const inr = getINRTaxAmounts({
+    invoiceType: 'EXPORT', // Notes always carry the original invoice currency and rate
+    subtotal: Number(note.taxableAmount),
+    exchangeRate: Number(note.exchangeRate),
+    igstAmount: Number(note.igstAmount),
+    cgstAmount: Number(note.cgstAmount),
+    sgstAmount: Number(note.sgstAmount),
+  })
+
+  return {
+    taxableValue: getNoteSign(note.noteType, inr.taxableValue),
+    igst: getNoteSign(note.noteType, inr.igst),
+    cgst: getNoteSign(note.noteType, inr.cgst),
+    sgst: getNoteSign(note.noteType, inr.sgst),
+  }
+}
+
+/**
+ * Get the place of supply state code of a recipient: the client's state,
+ * or the state in their GSTIN
+ */
+function getPlaceOfSupply(client: { stateCode: string | null; gstin: string | null } | null): string | null {
+  return client?.stateCode || client?.gstin?.slice(0, 2) || null
+}
+
+/**
+ * Get the GST rate implied by an amount's tax, for invoices without line items
+ */
+function getEffectiveRate(amounts: { taxableValue: number; igst: number; cgst: number; sgst: number }): number {
+  if (amounts.taxableValue === 0) return 0
+  const rate = ((amounts.igst + amounts.cgst + amounts.sgst) / amounts.taxableValue) * 100
+  return Math.round(rate * 100) / 100
+}
+
+/**
+ * Load a GSTR-3B filing period and compute its tables from the included plan items.
+ * Interest and late fee run to the filing date, or today while the return is unfiled.
+ */
+async function loadGSTR3BComputation(prisma: PrismaClient, userId: string, periodId: string) {
+  const period = await prisma.gSTFilingPeriod.findFirst({
+    where: {
+      id: periodId,
+      userId,
+      filingType: FilingType.GSTR3B,
+    },
+    include: {
+      user: { select: { gstin: true } },
+      planItems: {
+        where: { isIncluded: true },
+        include: { invoice: { select: { invoiceType: true } } },
+        orderBy: { invoiceDate: 'asc' },
+      },
+    },
+  })
+
+  if (!period) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Filing period not found',
+    })
+  }
+
+  if (period.status === FilingStatus.DRAFT) {
+    throw new TRPCError({
+      code: 'PRECONDITION_FAILED',
+      message: 'Generate the GSTR-3B plan first',
+    })
+  }
+
+  const computation = buildGSTR3BComputation(
+    period.planItems.map((item) => ({
+      section: item.gstrTable,
+      number: item.invoiceNumber,
+      date: item.invoiceDate ?? period.createdAt,
+      partyName: item.recipientName,
+      isReverseCharge: item.invoice?.invoiceType === 'SELF_INVOICE',
+      taxableValue: Number(item.taxableValue),
+      igst: Number(item.igstAmount),
+      cgst: Number(item.cgstAmount),
+      sgst: Number(item.sgstAmount),
+    })),
+    period.dueDate,
+    period.filedAt ?? new Date()
+  )
+
+  return {
+    gstin: period.user.gstin,
+    period: period.period,
+    formattedPeriod: formatReturnPeriod(period.period, period.frequency, period.filingType),
+    fiscalYear: period.fiscalYear,
+    dueDate: period.dueDate,
+    status: period.status,
+    computation,
+  }
+}
+
+/**
+ * Get the HSN/SAC-wise INR amounts of an outward invoice from its line items
+ */
+function getInvoiceHsnAmounts(invoice: { exchangeRate: Prisma.Decimal; lineItems: InvoiceItem[] }): HsnWiseAmounts[] {
+  return getHsnWiseAmounts(
+    invoice.lineItems.map((item) => ({
+      serviceCode: item.serviceCode,
+      quantity: Number(item.quantity),
+      amount: Number(item.amount),
+      discountAmount: Number(item.discountAmount),
+      gstRate: Number(item.gstRate),
+      igstAmount: Number(item.igstAmount),
+      cgstAmount: Number(item.cgstAmount),
+      sgstAmount: Number(item.sgstAmount),
+    })),
+    Number(invoice.exchangeRate)
+  )
+}
+
+/**
+ * Build the HSN/SAC summary (Table 12) from the invoices of GSTR-1 plan items.
+ * Table 4A invoices are reported as B2B, all other supplies as B2C.
+ */
+function getPlanHsnSummary(
+  planItems: Array<{ gstrTable: string; invoice: { exchangeRate: Prisma.Decimal; lineItems: InvoiceItem[] } | null }>
+) {
+  return summarizeHsn(
+    planItems.flatMap(({ gstrTable, invoice }) => {
+      if (!invoice) return []
+      return [{ supplyType: gstrTable === '4A' ? ('B2B' as const) : ('B2C' as const), amounts: getInvoiceHsnAmounts(invoice) }]
+    })
+  )
+}
+
+/**
+ * Group amendments by the invoice or note they amend, in the order first
+ * amended. Amendments whose document has since been deleted are left out.
+ */
+function groupAmendmentsByDocument<T extends { invoiceId: string | null; creditDebitNoteId: string | null }>(
+  amendments: T[]
+): T[][] {
+  const groups = new Map<string, T[]>()
+  for (const amendment of amendments) {
+    const key = amendment.invoiceId ?? amendment.creditDebitNoteId
+    if (!key) continue
+    groups.set(key, [...(groups.get(key) ?? []), amendment])
+  }
+  return Array.from(groups.values())
+}
+
 export const gstFilingRouter = createTRPCRouter({
   /**
    * List filing periods with their status
@@ -68,7 +444,7 @@ export const gstFilingRouter = createTRPCRouter({
       return periods.map((p) => ({
         ...p,
         itemsCount: p._count.planItems,
-        formattedPeriod: formatPeriod(p.period),
+        formattedPeriod: formatReturnPeriod(p.period, p.frequency, p.filingType),
         isOverdue: isFilingOverdue(p.dueDate),
         daysUntilDue: getDaysUntilDue(p.dueDate),
       }))
@@ -125,7 +501,7 @@ export const gstFilingRouter = createTRPCRouter({
 
       return {
         ...period,
-        formattedPeriod: formatPeriod(period.period),
+        formattedPeriod: formatReturnPeriod(period.period, period.frequency, period.filingType),
         isOverdue: isFilingOverdue(period.dueDate),
         daysUntilDue: getDaysUntilDue(period.dueDate),
       }
@@ -133,6 +509,9 @@ export const gstFilingRouter = createTRPCRouter({
 
   /**
    * Generate or refresh GSTR-1 filing plan
+   *
+   * Under QRMP, months 1-2 of a quarter generate the IFF instead, and the
+   * quarter's last month covers the whole quarter less what filed IFFs reported.
    */
   generateGSTR1Plan: protectedProcedure
     .input(
@@ -142,42 +521,117 @@ export const gstFilingRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       const fiscalYear = getFiscalYear(input.period)
-      const dueDate = getGSTR1DueDate(input.period)
-
-      // Get all export invoices for this period (GSTR-1 is for outward supplies)
-      const invoices = await ctx.prisma.invoice.findMany({
+      const { history, stateCode } = await loadFilingProfile(ctx.prisma, ctx.session.user.id)
+      const frequency = getFilingFrequency(history, input.period)
+
+      // Quarterly filers report months 1-2 of a quarter by IFF (B2B only) and
+      // file GSTR-1 for the whole quarter in its last month
+      const filingType = getReturnTypeForPeriod('GSTR1', input.period, frequency)
+      const isIFF = filingType === FilingType.IFF
+      const isQuarterly = frequency === FilingFrequency.QUARTERLY && !isIFF
+      const dateRange = getReturnDateRange(input.period, isQuarterly)
+      const dueDate = getReturnDueDate(filingType, input.period, { frequency, stateCode })
+
+      // Invoices and notes already reported in this quarter's filed IFFs
+      const iffReported = isQuarterly
+        ? await findIFFReportedItems(ctx.prisma, ctx.session.user.id, input.period)
+        : []
+      const reportedIds = new Set(iffReported.flatMap((item) => [item.invoiceId, item.creditDebitNoteId]))
+
+      // Get all outward invoices for this period (exports and domestic tax invoices)
+      const issuedInvoices = await ctx.prisma.invoice.findMany({
         where: {
           userId: ctx.session.user.id,
-          invoiceType: 'EXPORT', // Only outward supplies
+          invoiceType: { in: ['EXPORT', 'DOMESTIC'] }, // Only outward supplies
           status: { not: 'DRAFT' }, // Not draft invoices
-          invoiceDate: {
-            gte: new Date(`${input.period}-01`),
-            lt: new Date(
-              new Date(`${input.period}-01`).setMonth(
-                new Date(`${input.period}-01`).getMonth() + 1
-              )
-            ),
-          },
+          invoiceDate: dateRange,
         },
         include: {
           client: true,
           lut: true,
           paymentVoucher: true,
+          lineItems: true,
         },
       })
 
+      // Cancelled invoices are only counted in the documents summary (Table 13)
+      const invoices = issuedInvoices.filter((invoice) => invoice.status !== 'CANCELLED')
+
+      // Other documents issued in the period, for Table 13 only
+      const [selfInvoices, periodNotes, vouchers] = await Promise.all([
+        ctx.prisma.invoice.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            invoiceType: 'SELF_INVOICE',
+            status: { not: 'DRAFT' },
+            invoiceDate: dateRange,
+          },
+          select: { invoiceNumber: true, numberSeriesId: true, status: true },
+        }),
+        ctx.prisma.creditDebitNote.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            noteDate: dateRange,
+          },
+          select: { noteNumber: true, noteType: true },
+        }),
+        ctx.prisma.paymentVoucher.findMany({
+          where: {
+            userId: ctx.session.user.id,
+            voucherDate: dateRange,
+          },
+          select: { voucherNumber: true },
+        }),
+      ])
+
+      const toNoteDocuments = (noteType: NoteType) =>
+        periodNotes
+          .filter((note) => note.noteType === noteType)
+          .map((note) => ({ documentNumber: note.noteNumber, seriesKey: getSeriesKey(note.noteNumber), cancelled: false }))
+
+      const documentSummary = [
+        ...summarizeDocuments(
+          DocumentNature.OUTWARD_INVOICES,
+          issuedInvoices.map((invoice) => ({
+            documentNumber: invoice.invoiceNumber,
+            seriesKey: invoice.numberSeriesId ?? 'default',
+            cancelled: invoice.status === 'CANCELLED',
+          }))
+        ),
+        ...summarizeDocuments(
+          DocumentNature.SELF_INVOICES,
+          selfInvoices.map((invoice) => ({
+            documentNumber: invoice.invoiceNumber,
+            seriesKey: invoice.numberSeriesId ?? getSeriesKey(invoice.invoiceNumber),
+            cancelled: invoice.status === 'CANCELLED',
+          }))
+        ),
+        ...summarizeDocuments(DocumentNature.DEBIT_NOTES, toNoteDocuments('DEBIT')),
+        ...summarizeDocuments(DocumentNature.CREDIT_NOTES, toNoteDocuments('CREDIT')),
+        ...summarizeDocuments(
+          DocumentNature.PAYMENT_VOUCHERS,
+          vouchers.map((voucher) => ({
+            documentNumber: voucher.voucherNumber,
+            seriesKey: getSeriesKey(voucher.voucherNumber),
+            cancelled: false,
+          }))
+        ),
+      ]
+
       // Find or create filing period
       let filingPeriod = await ctx.prisma.gSTFilingPeriod.findUnique({
         where: {
           userId_filingType_period: {
             userId: ctx.session.user.id,
-            filingType: FilingType.GSTR1,
+            filingType,
             period: input.period,
           },
         },
       })
 
       if (filingPeriod) {
+        assertReturnNotFiled(filingPeriod)
+
         // Delete existing items
         await ctx.prisma.filingPlanItem.deleteMany({
           where: { filingPeriodId: filingPeriod.id },
@@ -186,10 +640,11 @@ export const gstFilingRouter = createTRPCRouter({
         filingPeriod = await ctx.prisma.gSTFilingPeriod.create({
           data: {
             userId: ctx.session.user.id,
-            filingType: FilingType.GSTR1,
+            filingType,
             period: input.period,
             fiscalYear,
             dueDate,
+            frequency,
             status: FilingStatus.DRAFT,
           },
         })
@@ -204,23 +659,25 @@ export const gstFilingRouter = createTRPCRouter({
       const planItems: Prisma.FilingPlanItemCreateManyInput[] = []
 
       for (const invoice of invoices) {
-        const classificationInput: InvoiceForClassification = {
-          invoiceType: invoice.invoiceType,
-          isRCM: invoice.isRCM,
-          rcmType: invoice.rcmType,
-          lutId: invoice.lutId,
-          clientGstin: invoice.client?.taxId || null,
-          clientCountry: invoice.client?.country || null,
-          totalInINR: Number(invoice.totalInINR),
-          igstAmount: Number(invoice.igstAmount),
-          cgstAmount: Number(invoice.cgstAmount),
-          sgstAmount: Number(invoice.sgstAmount),
+        if (reportedIds.has(invoice.id)) {
+          continue
+        }
+
+        const classificationInput = toClassificationInput(invoice)
+        const inr = {
+          taxableValue: classificationInput.taxableValue,
+          igst: classificationInput.igstAmount,
+          cgst: classificationInput.cgstAmount,
+          sgst: classificationInput.sgstAmount,
         }
 
         const classification = classifyForGSTR1(classificationInput)
 
-        // Skip items not applicable for GSTR-1
-        if (classification.table === GSTR1Table.NOT_APPLICABLE) {
+        // Skip items not applicable for GSTR-1, and anything but B2B invoices for the IFF
+        if (
+          classification.table === GSTR1Table.NOT_APPLICABLE ||
+          (isIFF && classification.table !== GSTR1Table.B2B)
+        ) {
           continue
         }
 
@@ -229,7 +686,7 @@ export const gstFilingRouter = createTRPCRouter({
           invoiceType: invoice.invoiceType,
           isRCM: invoice.isRCM,
           clientCountry: invoice.client?.country || null,
-          clientGstin: invoice.client?.taxId || null,
+          clientGstin: invoice.client?.gstin || null,
           lutId: invoice.lutId,
           lutExpiryDate: invoice.lut?.validTill || null,
           invoiceDate: invoice.invoiceDate,
@@ -238,7 +695,10 @@ export const gstFilingRouter = createTRPCRouter({
           paymentVoucherId: invoice.paymentVoucher?.id || null,
         }
 
-        const flags = validateFilingItem(validationInput, input.period)
+        const flags = validateFilingItem(
+          validationInput,
+          isQuarterly ? getQuarterPeriods(input.period) : input.period
+        )
         const confidenceScore = calculateConfidenceScore(flags)
 
         planItems.push({
@@ -247,21 +707,162 @@ export const gstFilingRouter = createTRPCRouter({
           invoiceNumber: invoice.invoiceNumber,
           invoiceDate: invoice.invoiceDate,
           gstrTable: classification.tableCode!,
-          recipientGstin: invoice.client?.taxId || null,
+          recipientGstin: invoice.client?.gstin || null,
           recipientName: invoice.client?.name || null,
-          taxableValue: invoice.totalInINR,
-          igstAmount: invoice.igstAmount,
-          cgstAmount: invoice.cgstAmount,
-          sgstAmount: invoice.sgstAmount,
+          taxableValue: inr.taxableValue,
+          igstAmount: inr.igst,
+          cgstAmount: inr.cgst,
+          sgstAmount: inr.sgst,
+          rateBreakdown: classificationInput.rateBreakdown
+            ? (classificationInput.rateBreakdown as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
           confidenceScore,
           flags: flags.length > 0 ? (flags as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
           isIncluded: true,
         })
 
-        totalTaxableValue = totalTaxableValue.add(invoice.totalInINR)
-        totalIgst = totalIgst.add(invoice.igstAmount)
-        totalCgst = totalCgst.add(invoice.cgstAmount)
-        totalSgst = totalSgst.add(invoice.sgstAmount)
+        totalTaxableValue = totalTaxableValue.add(inr.taxableValue)
+        totalIgst = totalIgst.add(inr.igst)
+        totalCgst = totalCgst.add(inr.cgst)
+        totalSgst = totalSgst.add(inr.sgst)
+      }
+
+      // Credit/debit notes issued in this period (9B, or netted into Table 7 for B2C small)
+      const notes = await ctx.prisma.creditDebitNote.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          noteDate: dateRange,
+          invoice: { status: { not: 'CANCELLED' } },
+        },
+        include: {
+          invoice: { include: { client: true } },
+        },
+      })
+
+      for (const note of notes) {
+        const classification = classifyNoteForGSTR1(toClassificationInput(note.invoice))
+
+        if (
+          reportedIds.has(note.id) ||
+          classification.table === GSTR1Table.NOT_APPLICABLE ||
+          (isIFF && classification.table !== GSTR1Table.CREDIT_DEBIT_NOTES)
+        ) {
+          continue
+        }
+
+        const inr = getNoteINRAmounts(note)
+
+        planItems.push({
+          filingPeriodId: filingPeriod.id,
+          creditDebitNoteId: note.id,
+          invoiceNumber: note.noteNumber,
+          invoiceDate: note.noteDate,
+          gstrTable: classification.tableCode!,
+          recipientGstin: note.invoice.client?.gstin || null,
+          recipientName: note.invoice.client?.name || null,
+          taxableValue: inr.taxableValue,
+          igstAmount: inr.igst,
+          cgstAmount: inr.cgst,
+          sgstAmount: inr.sgst,
+          confidenceScore: 100,
+          flags: Prisma.JsonNull,
+          isIncluded: true,
+        })
+
+        totalTaxableValue = totalTaxableValue.add(inr.taxableValue)
+        totalIgst = totalIgst.add(inr.igst)
+        totalCgst = totalCgst.add(inr.cgst)
+        totalSgst = totalSgst.add(inr.sgst)
+      }
+
+      // Invoices and notes of filed returns (earlier months, or this quarter's
+      // IFFs) amended since, with their current details (Table 9A/9C). They
+      // revise figures already reported, so they are not added to the totals.
+      const amendments = await ctx.prisma.filingAmendment.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          originalTable: { in: AMENDABLE_GSTR1_TABLES },
+          documentDate: { lt: dateRange.lt },
+          OR: [{ reportedInPeriodId: null }, { reportedInPeriodId: filingPeriod.id }],
+        },
+        include: {
+          invoice: { include: { client: true, lineItems: true } },
+          creditDebitNote: { include: { invoice: { include: { client: true } } } },
+        },
+        orderBy: { createdAt: 'asc' },
+      })
+
+      // One row per document, however many times it was amended
+      const reportedAmendmentIds: string[] = []
+
+      for (const group of groupAmendmentsByDocument(amendments)) {
+        const { invoice, creditDebitNote } = group[0]
+
+        if (invoice) {
+          const classificationInput = toClassificationInput(invoice)
+          const classification = classifyForGSTR1(classificationInput)
+
+          if (
+            invoice.status === 'CANCELLED' ||
+            getAmendmentTable(classification.tableCode) !== '9A' ||
+            (isIFF && classification.table !== GSTR1Table.B2B)
+          ) {
+            continue
+          }
+
+          planItems.push({
+            filingPeriodId: filingPeriod.id,
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            invoiceDate: invoice.invoiceDate,
+            gstrTable: '9A',
+            recipientGstin: invoice.client?.gstin || null,
+            recipientName: invoice.client?.name || null,
+            taxableValue: classificationInput.taxableValue,
+            igstAmount: classificationInput.igstAmount,
+            cgstAmount: classificationInput.cgstAmount,
+            sgstAmount: classificationInput.sgstAmount,
+            rateBreakdown: classificationInput.rateBreakdown
+              ? (classificationInput.rateBreakdown as unknown as Prisma.InputJsonValue)
+              : Prisma.JsonNull,
+            confidenceScore: 100,
+            flags: Prisma.JsonNull,
+            isIncluded: true,
+          })
+        } else if (creditDebitNote) {
+          const classification = classifyNoteForGSTR1(toClassificationInput(creditDebitNote.invoice))
+
+          if (
+            creditDebitNote.invoice.status === 'CANCELLED' ||
+            getAmendmentTable(classification.tableCode) !== '9C' ||
+            (isIFF && classification.table !== GSTR1Table.CREDIT_DEBIT_NOTES)
+          ) {
+            continue
+          }
+
+          const inr = getNoteINRAmounts(creditDebitNote)
+
+          planItems.push({
+            filingPeriodId: filingPeriod.id,
+            creditDebitNoteId: creditDebitNote.id,
+            invoiceNumber: creditDebitNote.noteNumber,
+            invoiceDate: creditDebitNote.noteDate,
+            gstrTable: '9C',
+            recipientGstin: creditDebitNote.invoice.client?.gstin || null,
+            recipientName: creditDebitNote.invoice.client?.name || null,
+            taxableValue: inr.taxableValue,
+            igstAmount: inr.igst,
+            cgstAmount: inr.cgst,
+            sgstAmount: inr.sgst,
+            confidenceScore: 100,
+            flags: Prisma.JsonNull,
+            isIncluded: true,
+          })
+        } else {
+          continue
+        }
+
+        reportedAmendmentIds.push(...group.map((amendment) => amendment.id))
       }
 
       // Create plan items
@@ -271,6 +872,18 @@ export const gstFilingRouter = createTRPCRouter({
         })
       }
 
+      // Amendments are reported in one GSTR-1; release any this plan no longer carries
+      await ctx.prisma.filingAmendment.updateMany({
+        where: { reportedInPeriodId: filingPeriod.id, id: { notIn: reportedAmendmentIds } },
+        data: { reportedInPeriodId: null },
+      })
+      if (reportedAmendmentIds.length > 0) {
+        await ctx.prisma.filingAmendment.updateMany({
+          where: { id: { in: reportedAmendmentIds } },
+          data: { reportedInPeriodId: filingPeriod.id },
+        })
+      }
+
       // Update totals
       await ctx.prisma.gSTFilingPeriod.update({
         where: { id: filingPeriod.id },
@@ -280,6 +893,10 @@ export const gstFilingRouter = createTRPCRouter({
           totalCgstAmount: totalCgst,
           totalSgstAmount: totalSgst,
           totalTaxAmount: totalIgst.add(totalCgst).add(totalSgst),
+          // Table 13 is not part of the IFF
+          documentSummary: isIFF ? Prisma.JsonNull : (documentSummary as unknown as Prisma.InputJsonValue),
+          dueDate,
+          frequency,
           status: FilingStatus.GENERATED,
           generatedAt: new Date(),
         },
@@ -287,15 +904,20 @@ export const gstFilingRouter = createTRPCRouter({
 
       return {
         id: filingPeriod.id,
+        filingType,
         period: input.period,
         itemsCount: planItems.length,
         totalTaxableValue: Number(totalTaxableValue),
         totalTaxAmount: Number(totalIgst.add(totalCgst).add(totalSgst)),
+        documentSummary: isIFF ? [] : documentSummary,
       }
     }),
 
   /**
    * Generate or refresh GSTR-3B filing plan
+   *
+   * Under QRMP, months 1-2 of a quarter generate the PMT-06 payment instead,
+   * and the quarter's last month covers the whole quarter.
    */
   generateGSTR3BPlan: protectedProcedure
     .input(
@@ -305,26 +927,28 @@ export const gstFilingRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       const fiscalYear = getFiscalYear(input.period)
-      const dueDate = getGSTR3BDueDate(input.period)
+      const { history, stateCode } = await loadFilingProfile(ctx.prisma, ctx.session.user.id)
+      const frequency = getFilingFrequency(history, input.period)
+
+      // Quarterly filers pay the tax of months 1-2 of a quarter by PMT-06, self-assessed
+      // the same way, and file GSTR-3B for the whole quarter in its last month
+      const filingType = getReturnTypeForPeriod('GSTR3B', input.period, frequency)
+      const isQuarterly = frequency === FilingFrequency.QUARTERLY && filingType === FilingType.GSTR3B
+      const dateRange = getReturnDateRange(input.period, isQuarterly)
+      const dueDate = getReturnDueDate(filingType, input.period, { frequency, stateCode })
 
       // Get all invoices for this period (both outward and RCM)
       const invoices = await ctx.prisma.invoice.findMany({
         where: {
           userId: ctx.session.user.id,
-          status: { not: 'DRAFT' },
-          invoiceDate: {
-            gte: new Date(`${input.period}-01`),
-            lt: new Date(
-              new Date(`${input.period}-01`).setMonth(
-                new Date(`${input.period}-01`).getMonth() + 1
-              )
-            ),
-          },
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          invoiceDate: dateRange,
         },
         include: {
           client: true,
           lut: true,
           paymentVoucher: true,
+          lineItems: true,
         },
       })
 
@@ -333,13 +957,15 @@ export const gstFilingRouter = createTRPCRouter({
         where: {
           userId_filingType_period: {
             userId: ctx.session.user.id,
-            filingType: FilingType.GSTR3B,
+            filingType,
             period: input.period,
           },
         },
       })
 
       if (filingPeriod) {
+        assertReturnNotFiled(filingPeriod)
+
         await ctx.prisma.filingPlanItem.deleteMany({
           where: { filingPeriodId: filingPeriod.id },
         })
@@ -347,10 +973,11 @@ export const gstFilingRouter = createTRPCRouter({
         filingPeriod = await ctx.prisma.gSTFilingPeriod.create({
           data: {
             userId: ctx.session.user.id,
-            filingType: FilingType.GSTR3B,
+            filingType,
             period: input.period,
             fiscalYear,
             dueDate,
+            frequency,
             status: FilingStatus.DRAFT,
           },
         })
@@ -368,17 +995,12 @@ export const gstFilingRouter = createTRPCRouter({
       const planItems: Prisma.FilingPlanItemCreateManyInput[] = []
 
       for (const invoice of invoices) {
-        const classificationInput: InvoiceForClassification = {
-          invoiceType: invoice.invoiceType,
-          isRCM: invoice.isRCM,
-          rcmType: invoice.rcmType,
-          lutId: invoice.lutId,
-          clientGstin: invoice.client?.taxId || null,
-          clientCountry: invoice.client?.country || null,
-          totalInINR: Number(invoice.totalInINR),
-          igstAmount: Number(invoice.igstAmount),
-          cgstAmount: Number(invoice.cgstAmount),
-          sgstAmount: Number(invoice.sgstAmount),
+        const classificationInput = toClassificationInput(invoice)
+        const inr = {
+          taxableValue: classificationInput.taxableValue,
+          igst: classificationInput.igstAmount,
+          cgst: classificationInput.cgstAmount,
+          sgst: classificationInput.sgstAmount,
         }
 
         const classification = classifyForGSTR3B(classificationInput)
@@ -388,7 +1010,7 @@ export const gstFilingRouter = createTRPCRouter({
           invoiceType: invoice.invoiceType,
           isRCM: invoice.isRCM,
           clientCountry: invoice.client?.country || null,
-          clientGstin: invoice.client?.taxId || null,
+          clientGstin: invoice.client?.gstin || null,
           lutId: invoice.lutId,
           lutExpiryDate: invoice.lut?.validTill || null,
           invoiceDate: invoice.invoiceDate,
@@ -397,7 +1019,10 @@ export const gstFilingRouter = createTRPCRouter({
           paymentVoucherId: invoice.paymentVoucher?.id || null,
         }
 
-        const flags = validateFilingItem(validationInput, input.period)
+        const flags = validateFilingItem(
+          validationInput,
+          isQuarterly ? getQuarterPeriods(input.period) : input.period
+        )
         const confidenceScore = calculateConfidenceScore(flags)
 
         planItems.push({
@@ -406,21 +1031,24 @@ export const gstFilingRouter = createTRPCRouter({
           invoiceNumber: invoice.invoiceNumber,
           invoiceDate: invoice.invoiceDate,
           gstrTable: classification.sectionCode,
-          recipientGstin: invoice.client?.taxId || null,
+          recipientGstin: invoice.client?.gstin || null,
           recipientName: invoice.client?.name || invoice.invoiceType === 'SELF_INVOICE' ? 'Self (RCM)' : null,
-          taxableValue: invoice.totalInINR,
-          igstAmount: invoice.igstAmount,
-          cgstAmount: invoice.cgstAmount,
-          sgstAmount: invoice.sgstAmount,
+          taxableValue: inr.taxableValue,
+          igstAmount: inr.igst,
+          cgstAmount: inr.cgst,
+          sgstAmount: inr.sgst,
+          rateBreakdown: classificationInput.rateBreakdown
+            ? (classificationInput.rateBreakdown as unknown as Prisma.InputJsonValue)
+            : Prisma.JsonNull,
           confidenceScore,
           flags: flags.length > 0 ? (flags as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
           isIncluded: true,
         })
 
-        totalTaxableValue = totalTaxableValue.add(invoice.totalInINR)
-        totalIgst = totalIgst.add(invoice.igstAmount)
-        totalCgst = totalCgst.add(invoice.cgstAmount)
-        totalSgst = totalSgst.add(invoice.sgstAmount)
+        totalTaxableValue = totalTaxableValue.add(inr.taxableValue)
+        totalIgst = totalIgst.add(inr.igst)
+        totalCgst = totalCgst.add(inr.cgst)
+        totalSgst = totalSgst.add(inr.sgst)
 
         // Add ITC for RCM items
         if (classification.itcSection) {
@@ -430,6 +1058,45 @@ export const gstFilingRouter = createTRPCRouter({
         }
       }
 
+      // Credit/debit notes adjust the liability of the section of their original invoice
+      const notes = await ctx.prisma.creditDebitNote.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          noteDate: dateRange,
+          invoice: { status: { not: 'CANCELLED' } },
+        },
+        include: {
+          invoice: { include: { client: true } },
+        },
+      })
+
+      for (const note of notes) {
+        const classification = classifyForGSTR3B(toClassificationInput(note.invoice))
+        const inr = getNoteINRAmounts(note)
+
+        planItems.push({
+          filingPeriodId: filingPeriod.id,
+          creditDebitNoteId: note.id,
+          invoiceNumber: note.noteNumber,
+          invoiceDate: note.noteDate,
+          gstrTable: classification.sectionCode,
+          recipientGstin: note.invoice.client?.gstin || null,
+          recipientName: note.invoice.client?.name || null,
+          taxableValue: inr.taxableValue,
+          igstAmount: inr.igst,
+          cgstAmount: inr.cgst,
+          sgstAmount: inr.sgst,
+          confidenceScore: 100,
+          flags: Prisma.JsonNull,
+          isIncluded: true,
+        })
+
+        totalTaxableValue = totalTaxableValue.add(inr.taxableValue)
+        totalIgst = totalIgst.add(inr.igst)
+        totalCgst = totalCgst.add(inr.cgst)
+        totalSgst = totalSgst.add(inr.sgst)
+      }
+
       // Create plan items
       if (planItems.length > 0) {
         await ctx.prisma.filingPlanItem.createMany({
@@ -453,6 +1120,8 @@ export const gstFilingRouter = createTRPCRouter({
           totalItcCgst,
           totalItcSgst,
           netTaxPayable: totalTax.sub(totalItc),
+          dueDate,
+          frequency,
           status: FilingStatus.GENERATED,
           generatedAt: new Date(),
         },
@@ -460,6 +1129,7 @@ export const gstFilingRouter = createTRPCRouter({
 
       return {
         id: filingPeriod.id,
+        filingType,
         period: input.period,
         itemsCount: planItems.length,
         totalTaxableValue: Number(totalTaxableValue),
@@ -520,6 +1190,233 @@ export const gstFilingRouter = createTRPCRouter({
       }))
     }),
 
+  /**
+   * Get the HSN/SAC summary (GSTR-1 Table 12) of the included invoices.
+   * A quarterly GSTR-1 also summarises the invoices reported in the quarter's IFFs.
+   */
+  getHsnSummary: protectedProcedure
+    .input(
+      z.object({
+        periodId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const period = await ctx.prisma.gSTFilingPeriod.findFirst({
+        where: {
+          id: input.periodId,
+          userId: ctx.session.user.id,
+          filingType: FilingType.GSTR1,
+        },
+        include: {
+          planItems: {
+            where: { isIncluded: true, invoiceId: { not: null } },
+            select: {
+              gstrTable: true,
+              invoice: { select: { exchangeRate: true, lineItems: true } },
+            },
+          },
+        },
+      })
+
+      if (!period) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Filing period not found',
+        })
+      }
+
+      const iffReported =
+        period.frequency === FilingFrequency.QUARTERLY
+          ? await findIFFReportedItems(ctx.prisma, ctx.session.user.id, period.period)
+          : []
+
+      return getPlanHsnSummary([...period.planItems, ...iffReported])
+    }),
+
+  /**
+   * Export a GSTR-1 or IFF plan as the portal upload JSON
+   *
+   * Built from the included plan items and validated against the upload
+   * schema. The file content is only returned when there are no errors.
+   */
+  exportGSTR1Json: protectedProcedure
+    .input(
+      z.object({
+        periodId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const period = await ctx.prisma.gSTFilingPeriod.findFirst({
+        where: {
+          id: input.periodId,
+          userId: ctx.session.user.id,
+          filingType: { in: [FilingType.GSTR1, FilingType.IFF] },
+        },
+        include: {
+          user: { select: { gstin: true } },
+          planItems: {
+            where: { isIncluded: true },
+            include: {
+              invoice: { include: { client: true, lineItems: true } },
+              creditDebitNote: { include: { invoice: { include: { client: true } } } },
+            },
+            orderBy: { invoiceDate: 'asc' },
+          },
+        },
+      })
+
+      if (!period) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Filing period not found',
+        })
+      }
+
+      if (period.status === FilingStatus.DRAFT) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Generate the ${FILING_TYPE_LABELS[period.filingType]} plan before exporting it`,
+        })
+      }
+
+      if (!period.user.gstin) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `Add your GSTIN in settings to export ${FILING_TYPE_LABELS[period.filingType]}`,
+        })
+      }
+
+      // Number and date each amended document was first filed with (Table 9A/9C)
+      const amendments = await ctx.prisma.filingAmendment.findMany({
+        where: { reportedInPeriodId: period.id },
+        orderBy: { createdAt: 'asc' },
+      })
+      const originals = new Map(
+        groupAmendmentsByDocument(amendments).map(([first]) => [
+          first.invoiceId ?? first.creditDebitNoteId,
+          getOriginalDocument(first.documentType, first.original as unknown as AmendmentSnapshot) ?? undefined,
+        ])
+      )
+
+      const documents: GSTR1Document[] = []
+
+      for (const item of period.planItems) {
+        const amounts = {
+          taxableValue: Number(item.taxableValue),
+          igst: Number(item.igstAmount),
+          cgst: Number(item.cgstAmount),
+          sgst: Number(item.sgstAmount),
+        }
+
+        if (item.invoice) {
+          const invoice = item.invoice
+          const rateBreakdown = item.rateBreakdown as unknown as RateWiseAmounts[] | null
+          documents.push({
+            table: item.gstrTable,
+            type: 'INVOICE',
+            number: item.invoiceNumber,
+            date: item.invoiceDate ?? invoice.invoiceDate,
+            recipientGstin: item.recipientGstin,
+            placeOfSupply: getPlaceOfSupply(invoice.client),
+            value: Number(invoice.totalInINR),
+            rates: rateBreakdown ?? [{ gstRate: getEffectiveRate(amounts), ...amounts }],
+            exportWithPayment: invoice.exportWithPayment,
+            ...(item.gstrTable === '9A' && {
+              originalTable: classifyForGSTR1(toClassificationInput(invoice)).tableCode ?? undefined,
+              original: originals.get(invoice.id),
+            }),
+          })
+        } else if (item.creditDebitNote) {
+          const note = item.creditDebitNote
+          const original = classifyForGSTR1(toClassificationInput(note.invoice))
+          documents.push({
+            table: item.gstrTable,
+            type: note.noteType === 'CREDIT' ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+            number: item.invoiceNumber,
+            date: item.invoiceDate ?? note.noteDate,
+            recipientGstin: item.recipientGstin,
+            placeOfSupply: getPlaceOfSupply(note.invoice.client),
+            value: getNoteSign(note.noteType, Number(note.totalInINR)),
+            rates: [
+              {
+                gstRate: Number(note.igstRate) + Number(note.cgstRate) + Number(note.sgstRate),
+                ...amounts,
+              },
+            ],
+            exportWithPayment: note.invoice.exportWithPayment,
+            originalTable: original.tableCode ?? undefined,
+            original: item.gstrTable === '9C' ? originals.get(note.id) : undefined,
+          })
+        }
+      }
+
+      // The IFF has no HSN summary; a quarterly GSTR-1's covers the quarter's IFFs too
+      const iffReported =
+        period.filingType === FilingType.GSTR1 && period.frequency === FilingFrequency.QUARTERLY
+          ? await findIFFReportedItems(ctx.prisma, ctx.session.user.id, period.period)
+          : []
+
+      const json = buildGSTR1Json({
+        gstin: period.user.gstin,
+        period: period.period,
+        documents,
+        hsnSummary:
+          period.filingType === FilingType.IFF ? [] : getPlanHsnSummary([...period.planItems, ...iffReported]),
+        documentSummary: (period.documentSummary as unknown as DocumentSeriesSummary[] | null) ?? [],
+      })
+      const errors = validateGSTR1Json(json)
+
+      return {
+        errors,
+        fileName: getGSTR1JsonFileName(json),
+        content: errors.length === 0 ? JSON.stringify(json, null, 2) : null,
+      }
+    }),
+
+  /**
+   * GSTR-3B table-wise computation with the documents behind each figure
+   */
+  getGSTR3BComputation: protectedProcedure
+    .input(
+      z.object({
+        periodId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return loadGSTR3BComputation(ctx.prisma, ctx.session.user.id, input.periodId)
+    }),
+
+  /**
+   * Export a GSTR-3B return as the portal upload JSON
+   */
+  exportGSTR3BJson: protectedProcedure
+    .input(
+      z.object({
+        periodId: z.string(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { gstin, period, computation } = await loadGSTR3BComputation(
+        ctx.prisma,
+        ctx.session.user.id,
+        input.periodId
+      )
+
+      if (!gstin) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Add your GSTIN in settings to export GSTR-3B',
+        })
+      }
+
+      const json = buildGSTR3BJson({ gstin, period, computation })
+
+      return {
+        fileName: getGSTR3BJsonFileName(json),
+        content: JSON.stringify(json, null, 2),
+      }
+    }),
+
   /**
    * Update a plan item (manual adjustment)
    */
@@ -546,6 +1443,8 @@ export const gstFilingRouter = createTRPCRouter({
         })
       }
 
+      assertReturnNotFiled(item.filingPeriod)
+
       const updated = await ctx.prisma.filingPlanItem.update({
         where: { id: input.itemId },
         data: {
@@ -583,6 +1482,14 @@ export const gstFilingRouter = createTRPCRouter({
         })
       }
 
+      // A filed return stays filed; it can only be marked amended and back
+      if (isFiledStatus(period.status) && !isFiledStatus(input.status)) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: `${describeReturns([period])} has been filed and cannot be reopened`,
+        })
+      }
+
       const updateData: Prisma.GSTFilingPeriodUpdateInput = {
         status: input.status,
       }
@@ -591,7 +1498,7 @@ export const gstFilingRouter = createTRPCRouter({
         updateData.approvedAt = new Date()
       }
 
-      if (input.status === FilingStatus.FILED) {
+      if (input.status === FilingStatus.FILED && !isFiledStatus(period.status)) {
         updateData.filedAt = new Date()
       }
 
@@ -653,7 +1560,8 @@ export const gstFilingRouter = createTRPCRouter({
     }),
 
   /**
-   * Get upcoming due dates
+   * Get upcoming due dates: the returns due for each month under the
+   * filing frequency in effect for it
    */
   getUpcomingDueDates: protectedProcedure
     .input(
@@ -663,6 +1571,7 @@ export const gstFilingRouter = createTRPCRouter({
     )
     .query(async ({ ctx, input }) => {
       const upcoming = getUpcomingFilingPeriods(input.count)
+      const { history, stateCode } = await loadFilingProfile(ctx.prisma, ctx.session.user.id)
 
       // Get existing filings for these periods
       const existingFilings = await ctx.prisma.gSTFilingPeriod.findMany({
@@ -676,22 +1585,119 @@ export const gstFilingRouter = createTRPCRouter({
         existingFilings.map((f) => [`${f.period}-${f.filingType}`, f])
       )
 
-      return upcoming.map((period) => ({
-        period: period.period,
-        formattedPeriod: formatPeriod(period.period),
-        fiscalYear: period.fiscalYear,
-        gstr1: {
-          dueDate: period.gstr1DueDate,
-          daysUntilDue: getDaysUntilDue(period.gstr1DueDate),
-          isOverdue: isFilingOverdue(period.gstr1DueDate),
-          status: filingMap.get(`${period.period}-GSTR1`)?.status || null,
-        },
-        gstr3b: {
-          dueDate: period.gstr3bDueDate,
-          daysUntilDue: getDaysUntilDue(period.gstr3bDueDate),
-          isOverdue: isFilingOverdue(period.gstr3bDueDate),
-          status: filingMap.get(`${period.period}-GSTR3B`)?.status || null,
-        },
-      }))
+      return upcoming.map((period) => {
+        const frequency = getFilingFrequency(history, period.period)
+
+        return {
+          period: period.period,
+          formattedPeriod: formatPeriod(period.period),
+          fiscalYear: period.fiscalYear,
+          frequency,
+          returns: getReturnsForPeriod(period.period, frequency, stateCode).map((scheduled) => ({
+            filingType: scheduled.filingType,
+            label: FILING_TYPE_LABELS[scheduled.filingType],
+            formattedPeriod: formatReturnPeriod(period.period, frequency, scheduled.filingType),
+            isOptional: scheduled.isOptional,
+            dueDate: scheduled.dueDate,
+            daysUntilDue: getDaysUntilDue(scheduled.dueDate),
+            isOverdue: isFilingOverdue(scheduled.dueDate),
+            status: filingMap.get(`${period.period}-${scheduled.filingType}`)?.status || null,
+          })),
+        }
+      })
+    }),
+
+  /**
+   * The filing frequency in effect this month and the history of changes
+   */
+  getFilingFrequency: protectedProcedure.query(async ({ ctx }) => {
+    const { history, stateCode } = await loadFilingProfile(ctx.prisma, ctx.session.user.id)
+
+    return {
+      frequency: getFilingFrequency(history, getFilingPeriodFromDate(new Date())),
+      stateCategory: getQRMPStateCategory(stateCode),
+      history,
+    }
+  }),
+
+  /**
+   * Set the filing frequency from the start of a quarter onwards.
+   * Unfiled plans it affects were generated for the old frequency and are removed.
+   */
+  setFilingFrequency: protectedProcedure
+    .input(
+      z.object({
+        frequency: z.nativeEnum(FilingFrequency),
+        effectiveFrom: z.string().regex(/^\d{4}-\d{2}$/), // YYYY-MM
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      if (!isQuarterStartPeriod(input.effectiveFrom)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The filing frequency can only change from the start of a quarter (April, July, October or January)',
+        })
+      }
+
+      const { history } = await loadFilingProfile(ctx.prisma, userId)
+      const stalePeriodIds = await findStaleFilingPeriods(
+        ctx.prisma,
+        userId,
+        [...history.filter((change) => change.effectiveFrom !== input.effectiveFrom), input],
+        input.effectiveFrom
+      )
+
+      const [change] = await ctx.prisma.$transaction([
+        ctx.prisma.filingFrequencyChange.upsert({
+          where: { userId_effectiveFrom: { userId, effectiveFrom: input.effectiveFrom } },
+          create: { userId, frequency: input.frequency, effectiveFrom: input.effectiveFrom },
+          update: { frequency: input.frequency },
+        }),
+        ctx.prisma.gSTFilingPeriod.deleteMany({
+          where: { id: { in: stalePeriodIds } },
+        }),
+      ])
+
+      return change
+    }),
+
+  /**
+   * Remove a change from the frequency history
+   */
+  deleteFilingFrequencyChange: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const { history } = await loadFilingProfile(ctx.prisma, userId)
+      const change = history.find((entry) => entry.id === input.id)
+
+      if (!change) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Filing frequency change not found',
+        })
+      }
+
+      const stalePeriodIds = await findStaleFilingPeriods(
+        ctx.prisma,
+        userId,
+        history.filter((entry) => entry.id !== change.id),
+        change.effectiveFrom
+      )
+
+      await ctx.prisma.$transaction([
+        ctx.prisma.filingFrequencyChange.delete({ where: { id: change.id } }),
+        ctx.prisma.gSTFilingPeriod.deleteMany({
+          where: { id: { in: stalePeriodIds } },
+        }),
+      ])
+
+      return { success: true }
     }),
 })
@@ -467,6 +467,9 @@ function formatSourceType(type: DocumentSourceType): string {
   const labels: Record<DocumentSourceType, string> = {
     [DocumentSourceType.UPWORK]: 'Upwork',
     [DocumentSourceType.TOPTAL]: 'Toptal',
+    [DocumentSourceType.PAYONEER]: 'Payoneer',
+    [DocumentSourceType.WISE]: 'Wise',
+    [DocumentSourceType.PAYPAL]: 'PayPal',
     [DocumentSourceType.CLIENT_INVOICE]: 'Client Invoice',
     [DocumentSourceType.VENDOR_BILL]: 'Vendor Bill',
     [DocumentSourceType.BANK_STATEMENT]: 'Bank Statement',
@@ -1,20 +1,48 @@
 import { z } from 'zod'
-import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { addDays } from 'date-fns'
+import { createCallerFactory, createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
 import { TRPCError } from '@trpc/server'
 import {
-  generateInvoiceNumber,
   getCurrentFiscalYear,
-  calculateSubtotal,
   calculateTotal
 } from '@/lib/invoice-utils'
 import { generateSecureToken, getTokenExpirationDate } from '@/lib/utils/token'
-import { getNextInvoiceSequence } from '@/lib/invoice-number-utils'
+import {
+  DEFAULT_NUMBER_SERIES,
+  formatSeriesNumber,
+  getNextSeriesSequence,
+  getSeriesSearchPrefix,
+  selectNumberSeries,
+} from '@/lib/number-series'
+import { diffInvoiceSnapshots, toInvoiceSnapshot, type InvoiceSnapshot } from '@/lib/invoice-revisions'
 import { generateInvoicePDF } from '@/lib/pdf-generator'
+import { readSpreadsheet, toRecords } from '@/lib/spreadsheet'
+import { matchImportClient, parseInvoiceImport, type ImportRowError } from '@/lib/invoice-import'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
 import { GST_CONSTANTS } from '@/lib/constants'
-import { validateGSTInvoice, exportHsnSacCodeSchema } from '@/lib/validations/gst'
+import { validateGSTInvoice, getStateCodeFromGSTIN } from '@/lib/validations/gst'
 import { getQueueService, isQueueServiceAvailable } from '@/lib/queue'
 import { db } from '@/lib/prisma'
-import { isLUTValid, daysUntilLUTExpiry, getLUTExpiryWarning } from '@/lib/lut-utils'
+import { isLUTValid, lutCoversDate, daysUntilLUTExpiry, getLUTExpiryWarning } from '@/lib/lut-utils'
+import {
+  getClientStateCode,
+  getDomesticPlaceOfSupply,
+  DEFAULT_DOMESTIC_GST_RATE,
+  isIndianCountry,
+} from '@/lib/domestic-gst-calculator'
+import { EXPORT_WITH_PAYMENT_IGST_RATE } from '@/lib/export-gst-calculator'
+import { calculateLineItemTaxes, type LineItemTaxInput, type LineItemTaxSummary } from '@/lib/line-item-tax'
+import { getAmountReceivable } from '@/lib/credit-debit-notes'
+import { type InvoiceType, type Prisma } from '@prisma/client'
+import { clientCreditRouter } from '@/server/api/routers/clientCredit'
+import { assertPeriodNotFiled, checkFiledPeriod, recordAmendment } from '@/lib/gst-filing/filing-lock'
+import {
+  createInvoiceSchema,
+  invoiceTypeSchema,
+  lineItemSchema,
+  type CreateInvoiceInput,
+  type LineItemInput,
+} from '@/lib/validations/invoice'
 
 // Get queue service lazily to avoid connection during build
 const getQueue = () => {
@@ -25,191 +53,656 @@ const getQueue = () => {
   return getQueueService()
 }
 
-const lineItemSchema = z.object({
-  description: z.string().min(1),
-  quantity: z.number().positive(),
-  rate: z.number().positive(),
-  sacCode: exportHsnSacCodeSchema,
+const createClientCreditCaller = createCallerFactory(clientCreditRouter)
+
+/**
+ * Apply the client's credit balance to invoices that have just been issued.
+ * Failing to apply credit never fails issuing the invoice.
+ */
+async function applyClientCredit(ctx: Parameters<typeof createClientCreditCaller>[0], invoiceIds: string[]) {
+  const caller = createClientCreditCaller(ctx)
+  for (const invoiceId of invoiceIds) {
+    try {
+      await caller.applyToInvoice({ invoiceId, auto: true })
+    } catch (error) {
+      console.error('Failed to apply client credit to invoice:', error)
+    }
+  }
+}
+
+/**
+ * Check a change to an issued invoice against the returns filed for its date,
+ * and for its new date when it moves, returning the invoice as filed for the
+ * amendments log. Drafts were never filed, so they are not locked.
+ */
+async function checkInvoiceFiledPeriod(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  invoiceId: string,
+  newDate: Date | undefined,
+  amendmentReason: string | undefined
+) {
+  const invoice = await tx.invoice.findFirst({
+    where: { id: invoiceId, userId },
+    include: { lineItems: true, client: { select: { name: true } } },
+  })
+  if (!invoice || invoice.status === 'DRAFT') return null
+
+  const dates = newDate ? [invoice.invoiceDate, newDate] : [invoice.invoiceDate]
+  const returns = await checkFiledPeriod(tx, {
+    userId,
+    document: `Invoice ${invoice.invoiceNumber}`,
+    dates,
+    amendmentReason,
+  })
+  if (!returns) return null
+
+  return { returns, invoiceNumber: invoice.invoiceNumber, dates, original: toInvoiceSnapshot(invoice) }
+}
+
+/**
+ * Record a change to an invoice dated in a filed period in the amendments log
+ */
+async function recordInvoiceAmendment(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  invoiceId: string,
+  filed: NonNullable<Awaited<ReturnType<typeof checkInvoiceFiledPeriod>>>,
+  reason: string
+) {
+  const invoice = await tx.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: { lineItems: true, client: { select: { name: true } } },
+  })
+
+  await recordAmendment(tx, {
+    userId,
+    returns: filed.returns,
+    documentType: 'INVOICE',
+    documentId: invoiceId,
+    documentNumber: filed.invoiceNumber,
+    dates: filed.dates,
+    reason,
+    original: filed.original,
+    amended: toInvoiceSnapshot(invoice),
+    invoiceId,
+  })
+}
+
+/**
+ * Work out CGST/SGST or IGST per line for a domestic invoice from the user's
+ * GSTIN state (supplier) and the client's state (place of supply)
+ */
+async function resolveDomesticTax(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  clientId: string,
+  lineItems: LineItemTaxInput[],
+  gstRate: number
+) {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { gstin: true },
+  })
+
+  const supplierStateCode = user?.gstin ? getStateCodeFromGSTIN(user.gstin) : null
+  if (!supplierStateCode) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A valid GSTIN is required in your profile to issue domestic tax invoices',
+    })
+  }
+
+  const client = await tx.client.findFirst({
+    where: { id: clientId, userId },
+    select: { gstin: true, stateCode: true },
+  })
+
+  if (!client) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: 'Client not found',
+    })
+  }
+
+  const placeOfSupplyStateCode = getClientStateCode(client)
+  if (!placeOfSupplyStateCode) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Client GSTIN or state is required for domestic invoices',
+    })
+  }
+
+  return {
+    placeOfSupply: getDomesticPlaceOfSupply(placeOfSupplyStateCode),
+    ...calculateLineItemTaxes(lineItems, {
+      gstRate,
+      isInterstate: supplierStateCode !== placeOfSupplyStateCode,
+    }),
+  }
+}
+
+/**
+ * Work out IGST for an export invoice: nil when zero-rated under LUT,
+ * charged at the standard rate on every line when exporting with payment of IGST
+ */
+function resolveExportTax(lineItems: LineItemTaxInput[], exportWithPayment: boolean) {
+  return {
+    placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
+    ...calculateLineItemTaxes(lineItems, {
+      gstRate: exportWithPayment ? EXPORT_WITH_PAYMENT_IGST_RATE : GST_CONSTANTS.IGST_RATE_EXPORT,
+      isInterstate: true,
+      forceGstRate: true,
+    }),
+  }
+}
+
+/**
+ * Draw the next invoice number from the series that applies to the client
+ * and invoice type, or from the built-in FY series when none is configured
+ */
+async function drawInvoiceNumber(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  invoice: { clientId: string | null; invoiceType: InvoiceType; issueDate: Date }
+) {
+  const seriesList = await tx.numberSeries.findMany({
+    where: { userId, isActive: true },
+  })
+  const series = selectNumberSeries(seriesList, invoice)
+  const format = series ?? DEFAULT_NUMBER_SERIES
+  const fiscalYear = getCurrentFiscalYear(invoice.issueDate)
+
+  // Find the highest number already issued in the series
+  const existingInvoices = await tx.invoice.findMany({
+    where: {
+      userId,
+      invoiceNumber: {
+        startsWith: getSeriesSearchPrefix(format, fiscalYear),
+      },
+    },
+    select: { invoiceNumber: true },
+  })
+
+  const nextSequence = getNextSeriesSequence(format, fiscalYear, existingInvoices.map(inv => inv.invoiceNumber))
+
+  return {
+    invoiceNumber: formatSeriesNumber(format, fiscalYear, nextSequence),
+    numberSeriesId: series?.id ?? null,
+  }
+}
+
+/**
+ * Make sure the version about to be replaced is on record with its PDF.
+ * Invoices saved before history was tracked get a baseline version here.
+ */
+async function preserveCurrentRevision(tx: Prisma.TransactionClient, invoiceId: string) {
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { lineItems: true, client: { select: { name: true } } },
+  })
+  if (!invoice) return
+
+  const latest = await tx.invoiceRevision.findFirst({
+    where: { invoiceId },
+    orderBy: { version: 'desc' },
+  })
+
+  if (!latest) {
+    await tx.invoiceRevision.create({
+      data: {
+        invoiceId,
+        version: 1,
+        snapshot: toInvoiceSnapshot(invoice) as unknown as Prisma.InputJsonValue,
+        pdfUrl: invoice.pdfUrl,
+        createdAt: invoice.updatedAt,
+      },
+    })
+  } else if (!latest.pdfUrl && invoice.pdfUrl) {
+    // The PDF of the latest version is generated after it is saved
+    await tx.invoiceRevision.update({
+      where: { id: latest.id },
+      data: { pdfUrl: invoice.pdfUrl },
+    })
+  }
+}
+
+/**
+ * Snapshot the invoice as saved by a user, unless nothing changed
+ */
+async function recordInvoiceRevision(tx: Prisma.TransactionClient, invoiceId: string, changedById: string) {
+  const invoice = await tx.invoice.findUnique({
+    where: { id: invoiceId },
+    include: { lineItems: true, client: { select: { name: true } } },
+  })
+  if (!invoice) return
+
+  const latest = await tx.invoiceRevision.findFirst({
+    where: { invoiceId },
+    orderBy: { version: 'desc' },
+  })
+
+  const snapshot = toInvoiceSnapshot(invoice)
+  if (latest && diffInvoiceSnapshots(latest.snapshot as unknown as InvoiceSnapshot, snapshot).length === 0) {
+    return
+  }
+
+  await tx.invoiceRevision.create({
+    data: {
+      invoiceId,
+      version: (latest?.version ?? 0) + 1,
+      snapshot: snapshot as unknown as Prisma.InputJsonValue,
+      changedById,
+    },
+  })
+}
+
+/**
+ * Build invoice item rows from the submitted line items and their computed tax
+ */
+function toInvoiceItemData(
+  invoiceId: string,
+  lineItems: LineItemInput[],
+  tax: LineItemTaxSummary
+): Prisma.InvoiceItemCreateManyInput[] {
+  return lineItems.map((item, index) => ({
+    invoiceId,
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    amount: tax.lines[index].amount,
+    serviceCode: item.sacCode,
+    discountType: item.discountType ?? null,
+    discountValue: item.discountValue ?? 0,
+    discountAmount: tax.lines[index].discountAmount,
+    gstRate: tax.lines[index].gstRate,
+    igstAmount: tax.lines[index].igstAmount,
+    cgstAmount: tax.lines[index].cgstAmount,
+    sgstAmount: tax.lines[index].sgstAmount,
+  }))
+}
+
+/**
+ * Create an invoice with its line items and queue its PDF.
+ * Imported invoices were already issued elsewhere: they keep their original
+ * number, are recorded as sent, and may fall under an LUT since renewed.
+ */
+async function createInvoiceRecord(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  input: CreateInvoiceInput,
+  importedInvoiceNumber?: string
+) {
+  // Validate LUT if provided
+  let lutWarning: { type: 'warning' | 'error'; message: string } | null = null
+  const isDomestic = input.invoiceType === 'DOMESTIC'
+
+  if (isDomestic && input.lutId) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'LUT applies only to export invoices',
+    })
+  }
+
+  if (isDomestic && input.exportWithPayment) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'Payment of IGST on export applies only to export invoices',
+    })
+  }
+
+  if (input.lutId) {
+    const lut = await tx.lUT.findUnique({
+      where: { id: input.lutId, userId },
+    })
+
+    if (!lut) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: 'LUT not found',
+      })
+    }
+
+    // Check if LUT is valid for the invoice date
+    const lutApplies = importedInvoiceNumber ? lutCoversDate(lut, input.issueDate) : isLUTValid(lut, input.issueDate)
+    if (!lutApplies) {
+      const daysExpired = -daysUntilLUTExpiry(lut)
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Cannot create export invoice: LUT ${lut.lutNumber} is expired (expired ${daysExpired} days ago). Please renew your LUT first.`,
+      })
+    }
+
+    // Check for expiry warning (within 30 days)
+    lutWarning = getLUTExpiryWarning(lut)
+  }
+
+  // Get the next invoice number from the applicable numbering series
+  const { invoiceNumber, numberSeriesId } = importedInvoiceNumber
+    ? { invoiceNumber: importedInvoiceNumber, numberSeriesId: null }
+    : await drawInvoiceNumber(tx, userId, {
+      clientId: input.clientId,
+      invoiceType: input.invoiceType,
+      issueDate: input.issueDate,
+    })
+  
+  // Exports carry IGST only when paid under the refund route; domestic invoices split by place of supply.
+  // Discounts and tax are worked out per line and rolled up into the totals.
+  const tax = isDomestic
+    ? await resolveDomesticTax(tx, userId, input.clientId, input.lineItems, input.gstRate ?? DEFAULT_DOMESTIC_GST_RATE)
+    : resolveExportTax(input.lineItems, input.exportWithPayment)
+  const subtotal = tax.subtotal
+  const totalAmount = calculateTotal(subtotal, tax.totalTax)
+  
+  // Validate GST compliance
+  const gstValidation = validateGSTInvoice({
+    placeOfSupply: tax.placeOfSupply,
+    serviceCode: input.lineItems[0].sacCode,
+    igstRate: tax.igstRate,
+    lutId: input.lutId,
+    exportWithPayment: input.exportWithPayment,
+    currency: input.currency,
+    exchangeRate: input.exchangeRate,
+    exchangeSource: input.exchangeRateSource,
+  })
+  
+  if (!gstValidation.isValid) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `GST validation failed: ${gstValidation.errors.join(', ')}`,
+    })
+  }
+  
+  // Create invoice with public access token
+  const invoice = await tx.invoice.create({
+    data: {
+      userId,
+      clientId: input.clientId,
+      lutId: input.lutId,
+      exportWithPayment: input.exportWithPayment,
+      invoiceType: input.invoiceType,
+      invoiceNumber,
+      numberSeriesId,
+      invoiceDate: input.issueDate,
+      dueDate: input.dueDate,
+      currency: input.currency,
+      exchangeRate: input.exchangeRate,
+      exchangeSource: input.exchangeRateSource,
+      subtotal,
+      igstRate: tax.igstRate,
+      igstAmount: tax.igstAmount,
+      cgstRate: tax.cgstRate,
+      cgstAmount: tax.cgstAmount,
+      sgstRate: tax.sgstRate,
+      sgstAmount: tax.sgstAmount,
+      totalAmount,
+      totalInINR: totalAmount * input.exchangeRate,
+      status: importedInvoiceNumber ? 'SENT' : 'DRAFT',
+      placeOfSupply: tax.placeOfSupply,
+      serviceCode: input.lineItems[0].sacCode,
+      paymentTerms: input.paymentTerms?.toString(),
+      bankDetails: input.bankDetails,
+      notes: input.notes,
+      // Set payment fields for new invoice
+      paymentStatus: 'UNPAID',
+      amountPaid: 0,
+      balanceDue: totalAmount, // Set balance due to total amount for new invoice
+      // Generate public access token
+      publicAccessToken: generateSecureToken(),
+      tokenExpiresAt: getTokenExpirationDate(90), // 90 days expiration
+    },
+  })
+  
+  // Create line items
+  await tx.invoiceItem.createMany({
+    data: toInvoiceItemData(invoice.id, input.lineItems, tax),
+  })
+  
+  // Queue PDF generation for new invoice
+  try {
+    const queueService = getQueue()
+    if (queueService) {
+      const job = await queueService.enqueue('PDF_GENERATION', {
+        invoiceId: invoice.id,
+        userId,
+      })
+      
+      // Update invoice with job ID and status
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          pdfStatus: 'generating',
+          pdfJobId: job.id,
+        }
+      })
+    } else {
+      // Queue service not available, mark as pending
+      await tx.invoice.update({
+        where: { id: invoice.id },
+        data: {
+          pdfStatus: 'pending',
+          pdfError: 'Queue service temporarily unavailable',
+        }
+      })
+    }
+  } catch (error) {
+    console.error('Failed to queue PDF generation for new invoice:', error)
+    // Mark as failed but don't fail invoice creation
+    await tx.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        pdfStatus: 'failed',
+        pdfError: error instanceof Error ? error.message : 'Failed to queue PDF generation',
+      }
+    })
+  }
+  
+  return { invoice, lutWarning }
+}
+
+// Uploaded spreadsheet of invoices to import, base64 encoded
+const invoiceImportFileSchema = z.object({
+  fileName: z.string().min(1),
+  content: z.string().min(1).max(7_000_000, 'File must be smaller than 5MB'),
 })
 
+/**
+ * Read an import file and resolve each invoice against the user's clients,
+ * LUTs and existing invoice numbers. Every invoice is validated with the
+ * same schema as the invoice form.
+ */
+async function prepareInvoiceImport(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  file: z.infer<typeof invoiceImportFileSchema>
+) {
+  const spreadsheet = readSpreadsheet(file.fileName, Buffer.from(file.content, 'base64'))
+  if (!spreadsheet.success) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: spreadsheet.error || 'Failed to read the file',
+    })
+  }
+
+  const records = toRecords(spreadsheet.rows!)
+  if (records.length === 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'The file has no invoice rows below the header',
+    })
+  }
+
+  const parsed = parseInvoiceImport(records)
+  const errors: ImportRowError[] = [...parsed.errors]
+
+  const [clients, luts, existingInvoices] = await Promise.all([
+    tx.client.findMany({
+      where: { userId, isActive: true },
+      select: { id: true, name: true, email: true, country: true, currency: true },
+    }),
+    tx.lUT.findMany({ where: { userId } }),
+    tx.invoice.findMany({
+      where: { userId, invoiceNumber: { in: parsed.invoices.map((invoice) => invoice.invoiceNumber) } },
+      select: { invoiceNumber: true },
+    }),
+  ])
+  const existingNumbers = new Set(existingInvoices.map((invoice) => invoice.invoiceNumber))
+
+  // Rates are looked up once per currency and date
+  const exchangeRates = new Map<string, Awaited<ReturnType<typeof getOrFetchExchangeRate>>>()
+
+  const invoices = []
+  for (const draft of parsed.invoices) {
+    const rowNumber = draft.rowNumbers[0]
+    const addError = (message: string) => errors.push({ rowNumber, invoiceNumber: draft.invoiceNumber, message })
+
+    if (existingNumbers.has(draft.invoiceNumber)) {
+      addError(`Invoice ${draft.invoiceNumber} already exists`)
+      continue
+    }
+
+    const match = matchImportClient(clients, draft)
+    if ('error' in match) {
+      addError(match.error)
+      continue
+    }
+    const client = match.client
+
+    const invoiceType = draft.invoiceType ?? (isIndianCountry(client.country) ? 'DOMESTIC' : 'EXPORT')
+    const currency = draft.currency ?? (invoiceType === 'DOMESTIC' ? 'INR' : client.currency)
+
+    let exchangeRate = currency === 'INR' ? 1 : draft.exchangeRate
+    let exchangeRateSource = currency === 'INR' ? 'INR' : 'Manual'
+    if (exchangeRate === undefined) {
+      const key = `${currency}:${draft.issueDate.toDateString()}`
+      if (!exchangeRates.has(key)) {
+        exchangeRates.set(key, await getOrFetchExchangeRate(currency, draft.issueDate))
+      }
+      const rate = exchangeRates.get(key)
+      if (!rate) {
+        addError(`No ${currency} exchange rate is available for ${draft.issueDate.toLocaleDateString('en-IN')}; add an Exchange Rate column`)
+        continue
+      }
+      exchangeRate = rate.rate
+      exchangeRateSource = rate.source
+    }
+
+    let lutId: string | undefined
+    if (invoiceType === 'EXPORT' && !draft.exportWithPayment) {
+      const lut = luts.find((candidate) => lutCoversDate(candidate, draft.issueDate))
+      if (!lut) {
+        addError(`No LUT covers ${draft.issueDate.toLocaleDateString('en-IN')}; add the LUT or mark the invoice as export with payment`)
+        continue
+      }
+      lutId = lut.id
+    }
+
+    const result = createInvoiceSchema.safeParse({
+      invoiceType,
+      clientId: client.id,
+      lutId,
+      exportWithPayment: draft.exportWithPayment,
+      issueDate: draft.issueDate,
+      dueDate: draft.dueDate ?? addDays(draft.issueDate, draft.paymentTerms ?? 30),
+      currency,
+      exchangeRate,
+      exchangeRateSource,
+      paymentTerms: draft.paymentTerms,
+      notes: draft.notes,
+      lineItems: draft.lineItems,
+    })
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        addError(`${issue.path.join('.')}: ${issue.message}`)
+      }
+      continue
+    }
+
+    invoices.push({
+      invoiceNumber: draft.invoiceNumber,
+      rowNumbers: draft.rowNumbers,
+      clientName: client.name,
+      input: result.data,
+    })
+  }
+
+  return {
+    invoices,
+    errors: errors.sort((a, b) => a.rowNumber - b.rowNumber),
+  }
+}
+
 export const invoiceRouter = createTRPCRouter({
   create: protectedProcedure
-    .input(
-      z.object({
-        clientId: z.string(),
-        lutId: z.string().optional(),
-        issueDate: z.date(),
-        dueDate: z.date(),
-        currency: z.string().default('USD'),
-        exchangeRate: z.number(),
-        exchangeRateSource: z.string(),
-        paymentTerms: z.number().optional(),
-        bankDetails: z.string().optional(),
-        notes: z.string().optional(),
-        lineItems: z.array(lineItemSchema).min(1),
-      })
-    )
+    .input(createInvoiceSchema)
     .mutation(async ({ ctx, input }) => {
-      const db = ctx.prisma
-      const userId = ctx.session.user.id
-      
       // Use transaction for atomicity
-      return await db.$transaction(async (tx) => {
-        // Validate LUT if provided
-        let lutWarning: { type: 'warning' | 'error'; message: string } | null = null
-
-        if (input.lutId) {
-          const lut = await tx.lUT.findUnique({
-            where: { id: input.lutId, userId },
-          })
+      return await ctx.prisma.$transaction((tx) => createInvoiceRecord(tx, ctx.session.user.id, input))
+    }),
 
-          if (!lut) {
-            throw new TRPCError({
-              code: 'NOT_FOUND',
-              message: 'LUT not found',
-            })
-          }
+  /**
+   * Dry run of a bulk import: list the invoices the file would create
+   * and the errors per row, without saving anything
+   */
+  previewImport: protectedProcedure
+    .input(invoiceImportFileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { invoices, errors } = await prepareInvoiceImport(ctx.prisma, ctx.session.user.id, input)
 
-          // Check if LUT is valid for the invoice date
-          if (!isLUTValid(lut, input.issueDate)) {
-            const daysExpired = -daysUntilLUTExpiry(lut)
-            throw new TRPCError({
-              code: 'BAD_REQUEST',
-              message: `Cannot create export invoice: LUT ${lut.lutNumber} is expired (expired ${daysExpired} days ago). Please renew your LUT first.`,
-            })
-          }
+      return {
+        invoices: invoices.map(({ invoiceNumber, rowNumbers, clientName, input: invoice }) => ({
+          invoiceNumber,
+          rowNumbers,
+          clientName,
+          invoiceType: invoice.invoiceType,
+          issueDate: invoice.issueDate,
+          dueDate: invoice.dueDate,
+          currency: invoice.currency,
+          exchangeRate: invoice.exchangeRate,
+          exchangeRateSource: invoice.exchangeRateSource,
+          lineCount: invoice.lineItems.length,
+          subtotal: calculateLineItemTaxes(invoice.lineItems, { gstRate: 0, isInterstate: true }).subtotal,
+        })),
+        errors,
+      }
+    }),
 
-          // Check for expiry warning (within 30 days)
-          lutWarning = getLUTExpiryWarning(lut)
-        }
+  /**
+   * Import invoices from a CSV/XLSX file. Nothing is imported while any
+   * row has an error.
+   */
+  importInvoices: protectedProcedure
+    .input(invoiceImportFileSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const { invoices, errors } = await prepareInvoiceImport(ctx.prisma, userId, input)
 
-        // Get the current fiscal year
-        const currentFY = getCurrentFiscalYear(input.issueDate)
-        
-        // Get the next invoice number by finding the highest existing number
-        const existingInvoices = await tx.invoice.findMany({
-          where: {
-            userId,
-            invoiceNumber: {
-              startsWith: `FY${currentFY.slice(2, 4)}-${currentFY.slice(-2)}/`,
-            },
-          },
-          select: { invoiceNumber: true },
-        })
-        
-        const invoiceNumbers = existingInvoices.map(inv => inv.invoiceNumber)
-        const nextSequence = getNextInvoiceSequence(invoiceNumbers)
-        const invoiceNumber = generateInvoiceNumber(currentFY, nextSequence)
-        
-        // Calculate totals
-        const subtotal = calculateSubtotal(input.lineItems)
-        const gstAmount = 0 // Always 0 for exports under LUT
-        const totalAmount = calculateTotal(subtotal, gstAmount)
-        
-        // Validate GST compliance
-        const gstValidation = validateGSTInvoice({
-          placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
-          serviceCode: input.lineItems[0].sacCode,
-          igstRate: 0,
-          lutId: input.lutId,
-          currency: input.currency,
-          exchangeRate: input.exchangeRate,
-          exchangeSource: input.exchangeRateSource,
-        })
-        
-        if (!gstValidation.isValid) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: `GST validation failed: ${gstValidation.errors.join(', ')}`,
-          })
-        }
-        
-        // Create invoice with public access token
-        const invoice = await tx.invoice.create({
-          data: {
-            userId,
-            clientId: input.clientId,
-            lutId: input.lutId,
-            invoiceNumber,
-            invoiceDate: input.issueDate,
-            dueDate: input.dueDate,
-            currency: input.currency,
-            exchangeRate: input.exchangeRate,
-            exchangeSource: input.exchangeRateSource,
-            subtotal,
-            igstRate: 0,
-            igstAmount: gstAmount,
-            totalAmount,
-            totalInINR: totalAmount * input.exchangeRate,
-            status: 'DRAFT',
-            placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
-            serviceCode: input.lineItems[0].sacCode,
-            paymentTerms: input.paymentTerms?.toString(),
-            bankDetails: input.bankDetails,
-            notes: input.notes,
-            // Set payment fields for new invoice
-            paymentStatus: 'UNPAID',
-            amountPaid: 0,
-            balanceDue: totalAmount, // Set balance due to total amount for new invoice
-            // Generate public access token
-            publicAccessToken: generateSecureToken(),
-            tokenExpiresAt: getTokenExpirationDate(90), // 90 days expiration
-          },
-        })
-        
-        // Create line items
-        await tx.invoiceItem.createMany({
-          data: input.lineItems.map((item) => ({
-            invoiceId: invoice.id,
-            description: item.description,
-            quantity: item.quantity,
-            rate: item.rate,
-            amount: item.quantity * item.rate,
-            serviceCode: item.sacCode,
-          })),
+      if (errors.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `The file has ${errors.length} error(s). Fix them and preview the import again.`,
         })
-        
-        // Queue PDF generation for new invoice
-        try {
-          const queueService = getQueue()
-          if (queueService) {
-            const job = await queueService.enqueue('PDF_GENERATION', {
-              invoiceId: invoice.id,
-              userId: ctx.session.user.id,
-            })
-            
-            // Update invoice with job ID and status
-            await tx.invoice.update({
-              where: { id: invoice.id },
-              data: {
-                pdfStatus: 'generating',
-                pdfJobId: job.id,
-              }
-            })
-          } else {
-            // Queue service not available, mark as pending
-            await tx.invoice.update({
-              where: { id: invoice.id },
-              data: {
-                pdfStatus: 'pending',
-                pdfError: 'Queue service temporarily unavailable',
-              }
-            })
+      }
+
+      const created = await ctx.prisma.$transaction(
+        async (tx) => {
+          const results = []
+          for (const invoice of invoices) {
+            results.push(await createInvoiceRecord(tx, userId, invoice.input, invoice.invoiceNumber))
           }
-        } catch (error) {
-          console.error('Failed to queue PDF generation for new invoice:', error)
-          // Mark as failed but don't fail invoice creation
-          await tx.invoice.update({
-            where: { id: invoice.id },
-            data: {
-              pdfStatus: 'failed',
-              pdfError: error instanceof Error ? error.message : 'Failed to queue PDF generation',
-            }
-          })
-        }
-        
-        return { invoice, lutWarning }
-      })
+          return results
+        },
+        { timeout: 60_000 }
+      )
+
+      // Imported invoices are issued already
+      const invoiceIds = created.map(({ invoice }) => invoice.id)
+      await applyClientCredit(ctx, invoiceIds)
+
+      return {
+        count: created.length,
+        invoiceIds,
+      }
     }),
 
   list: protectedProcedure.query(async ({ ctx }) => {
@@ -248,7 +741,7 @@ export const invoiceRouter = createTRPCRouter({
         const totalPaid = invoice.payments.reduce((sum, payment) => 
           sum + Number(payment.amount), 0
         )
-        const balanceDue = Number(invoice.totalAmount) - totalPaid
+        const balanceDue = Number(getAmountReceivable(invoice)) - totalPaid
         
         // Update if there's a mismatch
         if (Math.abs(Number(invoice.balanceDue) - balanceDue) > 0.01) {
@@ -282,6 +775,8 @@ export const invoiceRouter = createTRPCRouter({
         id: z.string(),
         clientId: z.string().optional(),
         lutId: z.string().optional(),
+        exportWithPayment: z.boolean().optional(), // Export invoices only
+        gstRate: z.number().min(0).max(28).optional(), // Domestic invoices only
         issueDate: z.date().optional(),
         dueDate: z.date().optional(),
         currency: z.string().optional(),
@@ -291,18 +786,35 @@ export const invoiceRouter = createTRPCRouter({
         bankDetails: z.string().optional(),
         notes: z.string().optional(),
         lineItems: z.array(lineItemSchema).optional(),
+        // Required when the invoice is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, lineItems, ...updateData } = input
+      const { id, lineItems, amendmentReason, ...updateData } = input
       const db = ctx.prisma
       const userId = ctx.session.user.id
-      
+
       return await db.$transaction(async (tx) => {
+        // Invoices dated in a filed return are only changed as amendments
+        const filed = await checkInvoiceFiledPeriod(tx, userId, id, updateData.issueDate, amendmentReason)
+
         // Get current invoice to check if exchange rate is being changed and for LUT validation
         const currentInvoice = await tx.invoice.findUnique({
           where: { id, userId },
-          select: { exchangeRate: true, lutId: true, invoiceDate: true }
+          select: {
+            exchangeRate: true,
+            lutId: true,
+            exportWithPayment: true,
+            invoiceDate: true,
+            invoiceType: true,
+            clientId: true,
+            amountPaid: true,
+            igstRate: true,
+            cgstRate: true,
+            sgstRate: true,
+            status: true,
+          }
         })
 
         if (!currentInvoice) {
@@ -312,9 +824,74 @@ export const invoiceRouter = createTRPCRouter({
           })
         }
 
+        if (currentInvoice.status === 'CANCELLED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Cancelled invoices cannot be edited',
+          })
+        }
+
+        await preserveCurrentRevision(tx, id)
+
+        const isDomestic = currentInvoice.invoiceType === 'DOMESTIC'
+        const effectiveGstRate = updateData.gstRate ??
+          Number(currentInvoice.igstRate) + Number(currentInvoice.cgstRate) + Number(currentInvoice.sgstRate)
+        const effectiveClientId = updateData.clientId ?? currentInvoice.clientId
+
+        if (isDomestic && updateData.lutId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'LUT applies only to export invoices',
+          })
+        }
+
+        if (isDomestic && updateData.exportWithPayment) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Payment of IGST on export applies only to export invoices',
+          })
+        }
+
+        // The invoice type is not part of the input, so domestic currency is checked here
+        if (isDomestic && updateData.currency !== undefined && updateData.currency !== 'INR') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Domestic invoices must be in INR',
+          })
+        }
+
+        if (isDomestic && updateData.exchangeRate !== undefined && updateData.exchangeRate !== 1) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Domestic invoices must have an exchange rate of 1',
+          })
+        }
+
+        const exportWithPayment = !isDomestic && (updateData.exportWithPayment ?? currentInvoice.exportWithPayment)
+        const exportModeChanged = !isDomestic && exportWithPayment !== currentInvoice.exportWithPayment
+
+        if (exportWithPayment && updateData.lutId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'LUT cannot be used for exports with payment of IGST',
+          })
+        }
+
+        // Switching to payment of IGST drops the LUT
+        if (exportWithPayment && exportModeChanged) {
+          updateData.lutId = ''
+        }
+
         // Validate LUT if lutId or issueDate is being changed
         let lutWarning: { type: 'warning' | 'error'; message: string } | null = null
         const effectiveLutId = updateData.lutId !== undefined ? updateData.lutId : currentInvoice.lutId
+
+        if (exportModeChanged && !exportWithPayment && !effectiveLutId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'LUT is required for zero-rated supplies (0% IGST)',
+          })
+        }
         const effectiveIssueDate = updateData.issueDate !== undefined ? updateData.issueDate : currentInvoice.invoiceDate
 
         if (effectiveLutId && (updateData.lutId !== undefined || updateData.issueDate !== undefined)) {
@@ -370,12 +947,13 @@ export const invoiceRouter = createTRPCRouter({
         if (updateData.paymentTerms !== undefined) data.paymentTerms = updateData.paymentTerms?.toString()
         if (updateData.bankDetails !== undefined) data.bankDetails = updateData.bankDetails
         if (updateData.notes !== undefined) data.notes = updateData.notes
+        if (exportModeChanged) data.exportWithPayment = exportWithPayment
 
         // Handle relations
         if (updateData.clientId !== undefined) {
           data.client = { connect: { id: updateData.clientId } }
         }
-        if (updateData.lutId !== undefined) {
+        if (updateData.lutId !== undefined && !isDomestic) {
           data.lut = updateData.lutId ? { connect: { id: updateData.lutId } } : { disconnect: true }
         }
 
@@ -385,63 +963,88 @@ export const invoiceRouter = createTRPCRouter({
           data,
         })
 
-        // If exchange rate changed without line items update, recalculate totalInINR
-        if (exchangeRateChanged && !lineItems) {
-          const newExchangeRate = updateData.exchangeRate!
-          const updatedTotalInINR = Number(invoice.totalAmount) * newExchangeRate
-
-          await tx.invoice.update({
-            where: { id },
-            data: {
-              totalInINR: updatedTotalInINR,
-            }
+        // Client or rate change on a domestic invoice can flip CGST/SGST vs IGST,
+        // and switching between LUT and payment of IGST changes the export tax.
+        // Either way the line taxes are recomputed from the saved line items.
+        const domesticTaxChanged = isDomestic && (updateData.clientId !== undefined || updateData.gstRate !== undefined)
+        let itemsToSave = lineItems
+        if (!itemsToSave && (domesticTaxChanged || exportModeChanged)) {
+          const existingItems = await tx.invoiceItem.findMany({
+            where: { invoiceId: id },
           })
+          itemsToSave = existingItems.map((item) => ({
+            description: item.description,
+            quantity: Number(item.quantity),
+            rate: Number(item.rate),
+            sacCode: item.serviceCode,
+            discountType: item.discountType ?? undefined,
+            discountValue: Number(item.discountValue),
+            gstRate: updateData.gstRate ?? Number(item.gstRate),
+          }))
         }
-        
-        // Update line items if provided
-        if (lineItems) {
-          // Delete existing line items
+
+        if (itemsToSave) {
+          const exchangeRate = updateData.exchangeRate ?? Number(invoice.exchangeRate)
+
+          // Update invoice totals
+          const tax = isDomestic
+            ? await resolveDomesticTax(
+                tx,
+                userId,
+                effectiveClientId!,
+                itemsToSave,
+                effectiveGstRate
+              )
+            : resolveExportTax(itemsToSave, exportWithPayment)
+          const totalAmount = calculateTotal(tax.subtotal, tax.totalTax)
+
+          // Replace line items
           await tx.invoiceItem.deleteMany({
             where: { invoiceId: id },
           })
-          
-          // Create new line items
           await tx.invoiceItem.createMany({
-            data: lineItems.map((item) => ({
-              invoiceId: id,
-              description: item.description,
-              quantity: item.quantity,
-              rate: item.rate,
-              amount: item.quantity * item.rate,
-              serviceCode: item.sacCode,
-            })),
+            data: toInvoiceItemData(id, itemsToSave, tax),
           })
-          
-          // Update invoice totals
-          const subtotal = calculateSubtotal(lineItems)
-          const totalAmount = calculateTotal(subtotal, 0)
-          
-          // Get the current invoice to get the exchange rate and amount paid
-          const currentInvoice = await tx.invoice.findUnique({
-            where: { id },
-          })
-          
-          const exchangeRate = updateData.exchangeRate || Number(currentInvoice?.exchangeRate || 1)
-          const amountPaid = Number(currentInvoice?.amountPaid || 0)
-          const balanceDue = totalAmount - amountPaid
-          
+
+          const amountPaid = Number(currentInvoice.amountPaid)
+          const balanceDue = Number(getAmountReceivable({ totalAmount, noteAdjustment: invoice.noteAdjustment })) - amountPaid
+
           await tx.invoice.update({
             where: { id },
             data: {
-              subtotal,
+              placeOfSupply: tax.placeOfSupply,
+              subtotal: tax.subtotal,
+              igstRate: tax.igstRate,
+              igstAmount: tax.igstAmount,
+              cgstRate: tax.cgstRate,
+              cgstAmount: tax.cgstAmount,
+              sgstRate: tax.sgstRate,
+              sgstAmount: tax.sgstAmount,
               totalAmount,
               totalInINR: totalAmount * exchangeRate,
               balanceDue, // Update balance due based on new total
-              serviceCode: lineItems[0].sacCode, // Update service code from first line item
+              serviceCode: itemsToSave[0].sacCode, // Update service code from first line item
             },
           })
+        } else if (exchangeRateChanged) {
+          // If exchange rate changed without line items update, recalculate totalInINR
+          const newExchangeRate = updateData.exchangeRate!
+          const updatedTotalInINR = Number(invoice.totalAmount) * newExchangeRate
+
+          await tx.invoice.update({
+            where: { id },
+            data: {
+              totalInINR: updatedTotalInINR,
+            }
+          })
         }
         
+        await recordInvoiceRevision(tx, id, userId)
+
+        if (filed) {
+          await recordInvoiceAmendment(tx, userId, id, filed, amendmentReason!)
+        }
+
         // Queue PDF regeneration after any update
         try {
           const queueService = getQueue()
@@ -479,44 +1082,203 @@ export const invoiceRouter = createTRPCRouter({
       })
     }),
 
+  // Only drafts can be deleted; issued invoices are cancelled so the number stays accounted for
   delete: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      const invoice = await ctx.prisma.invoice.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        select: { status: true },
+      })
+
+      if (!invoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invoice not found',
+        })
+      }
+
+      if (invoice.status !== 'DRAFT') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Only draft invoices can be deleted. Cancel the invoice instead to keep its number on record.',
+        })
+      }
+
       return await ctx.prisma.invoice.delete({
         where: { id: input.id, userId: ctx.session.user.id },
       })
     }),
 
+  // Cancel an invoice, keeping the record and number for the GST document summary
+  cancel: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        reason: z.string().trim().min(3, 'Enter a reason for cancelling the invoice').max(500),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // Re-read, check and cancel in one transaction
+      const cancelled = await ctx.prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.findFirst({
+          where: { id: input.id, userId: ctx.session.user.id },
+          include: {
+            _count: {
+              select: { payments: true, creditDebitNotes: true },
+            },
+          },
+        })
+
+        if (!invoice) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Invoice not found',
+          })
+        }
+
+        if (invoice.status === 'CANCELLED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Invoice is already cancelled',
+          })
+        }
+
+        if (invoice._count.payments > 0 || invoice._count.creditDebitNotes > 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Invoices with payments or credit/debit notes cannot be cancelled. Issue a credit note instead.',
+          })
+        }
+
+        // A filed invoice stays on record; it is reversed by a credit note
+        if (invoice.status !== 'DRAFT') {
+          await assertPeriodNotFiled(tx, {
+            userId: ctx.session.user.id,
+            document: `Invoice ${invoice.invoiceNumber}`,
+            dates: [invoice.invoiceDate],
+            instead: 'Issue a credit note instead of cancelling it.',
+          })
+        }
+
+        await preserveCurrentRevision(tx, invoice.id)
+
+        const updated = await tx.invoice.update({
+          where: { id: invoice.id },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+            cancellationReason: input.reason,
+            balanceDue: 0,
+            // Revoke the public link so the client can no longer view or pay it
+            publicAccessToken: null,
+            tokenExpiresAt: null,
+          },
+        })
+
+        await recordInvoiceRevision(tx, invoice.id, ctx.session.user.id)
+        return updated
+      })
+
+      // Regenerate the PDF with the CANCELLED watermark
+      try {
+        const queueService = getQueue()
+        if (queueService) {
+          const job = await queueService.enqueue('PDF_GENERATION', {
+            invoiceId: cancelled.id,
+            userId: ctx.session.user.id,
+          })
+
+          await ctx.prisma.invoice.update({
+            where: { id: cancelled.id },
+            data: {
+              pdfStatus: 'generating',
+              pdfJobId: job.id,
+              pdfError: null,
+            }
+          })
+        } else {
+          console.warn('Queue service not available for PDF regeneration after cancellation')
+        }
+      } catch (error) {
+        console.error('Failed to queue PDF regeneration after cancellation:', error)
+        await ctx.prisma.invoice.update({
+          where: { id: cancelled.id },
+          data: {
+            pdfStatus: 'failed',
+            pdfError: error instanceof Error ? error.message : 'Failed to queue PDF regeneration',
+          }
+        })
+      }
+
+      return cancelled
+    }),
+
+  // Cancellation goes through cancel, which records the reason
   updateStatus: protectedProcedure
     .input(
       z.object({
         id: z.string(),
-        status: z.enum(['DRAFT', 'SENT', 'CANCELLED']),
+        status: z.enum(['DRAFT', 'SENT']),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      return await ctx.prisma.invoice.update({
-        where: { id: input.id, userId: ctx.session.user.id },
-        data: { status: input.status },
+      const userId = ctx.session.user.id
+
+      const { invoice, updated } = await ctx.prisma.$transaction(async (tx) => {
+        const invoice = await tx.invoice.findFirst({
+          where: { id: input.id, userId },
+          select: { status: true, invoiceNumber: true, invoiceDate: true },
+        })
+
+        if (invoice?.status === 'CANCELLED') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Cancelled invoices cannot be reopened',
+          })
+        }
+
+        // A filed invoice stays issued; changes to it go through amendments
+        if (invoice && invoice.status !== 'DRAFT' && input.status === 'DRAFT') {
+          await assertPeriodNotFiled(tx, {
+            userId,
+            document: `Invoice ${invoice.invoiceNumber}`,
+            dates: [invoice.invoiceDate],
+            instead: 'Issue a credit note instead of moving it back to draft.',
+          })
+        }
+
+        const updated = await tx.invoice.update({
+          where: { id: input.id, userId },
+          data: { status: input.status },
+        })
+
+        return { invoice, updated }
       })
+
+      if (invoice?.status === 'DRAFT' && input.status === 'SENT') {
+        await applyClientCredit(ctx, [updated.id])
+      }
+
+      return updated
     }),
 
+  // Preview of the number the next invoice will get (for a client/type when known)
   getNextInvoiceNumber: protectedProcedure
-    .query(async ({ ctx }) => {
-      const currentFY = getCurrentFiscalYear()
-      const existingInvoices = await ctx.prisma.invoice.findMany({
-        where: {
-          userId: ctx.session.user.id,
-          invoiceNumber: {
-            startsWith: `FY${currentFY.slice(2, 4)}-${currentFY.slice(-2)}/`,
-          },
-        },
-        select: { invoiceNumber: true },
+    .input(
+      z.object({
+        clientId: z.string().optional(),
+        invoiceType: invoiceTypeSchema.default('EXPORT'),
+        issueDate: z.date().optional(),
+      }).optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const { invoiceNumber } = await drawInvoiceNumber(ctx.prisma, ctx.session.user.id, {
+        clientId: input?.clientId ?? null,
+        invoiceType: input?.invoiceType ?? 'EXPORT',
+        issueDate: input?.issueDate ?? new Date(),
       })
-      
-      const invoiceNumbers = existingInvoices.map(inv => inv.invoiceNumber)
-      const nextSequence = getNextInvoiceSequence(invoiceNumbers)
-      return generateInvoiceNumber(currentFY, nextSequence)
+      return invoiceNumber
     }),
 
   generatePDF: protectedProcedure
@@ -708,6 +1470,13 @@ export const invoiceRouter = createTRPCRouter({
         })
       }
 
+      if (invoice.status === 'CANCELLED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cancelled invoices cannot be emailed',
+        })
+      }
+
       // Self-invoices don't have clients, so we can't send emails to them
       if (!invoice.client) {
         throw new TRPCError({
@@ -786,6 +1555,7 @@ export const invoiceRouter = createTRPCRouter({
           where: { id: invoice.id },
           data: { status: 'SENT' },
         })
+        await applyClientCredit(ctx, [invoice.id])
       }
 
       return {
@@ -822,6 +1592,13 @@ export const invoiceRouter = createTRPCRouter({
         })
       }
 
+      if (invoice.status === 'CANCELLED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cancelled invoices cannot be sent payment reminders',
+        })
+      }
+
       // Self-invoices don't have clients, so we can't send payment reminders
       if (!invoice.client) {
         throw new TRPCError({
@@ -898,6 +1675,7 @@ export const invoiceRouter = createTRPCRouter({
           customMessage: input.customMessage,
         },
         userId: ctx.session.user.id,
+        invoiceId: invoice.id, // Counted by the reminder schedule like scheduled sends
       })
 
       return {
@@ -906,6 +1684,51 @@ export const invoiceRouter = createTRPCRouter({
       }
     }),
 
+  // Saved versions of an invoice, newest first, with the fields changed in each
+  getRevisionHistory: protectedProcedure
+    .input(z.object({ invoiceId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const invoice = await ctx.prisma.invoice.findFirst({
+        where: { id: input.invoiceId, userId: ctx.session.user.id },
+        select: { id: true, pdfUrl: true },
+      })
+
+      if (!invoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Invoice not found',
+        })
+      }
+
+      const revisions = await ctx.prisma.invoiceRevision.findMany({
+        where: { invoiceId: invoice.id },
+        include: {
+          changedBy: { select: { name: true, email: true } },
+        },
+        orderBy: { version: 'asc' },
+      })
+
+      return revisions
+        .map((revision, index) => {
+          const snapshot = revision.snapshot as unknown as InvoiceSnapshot
+          const previous = index > 0 ? (revisions[index - 1].snapshot as unknown as InvoiceSnapshot) : null
+          const isLatest = index === revisions.length - 1
+
+          return {
+            id: revision.id,
+            version: revision.version,
+            createdAt: revision.createdAt,
+            changedBy: revision.changedBy,
+            // The latest version's PDF may not be on the revision yet
+            hasPdf: Boolean(revision.pdfUrl || (isLatest && invoice.pdfUrl)),
+            isLatest,
+            snapshot,
+            changes: previous ? diffInvoiceSnapshots(previous, snapshot) : [],
+          }
+        })
+        .reverse()
+    }),
+
   // Get email history for an invoice
   getEmailHistory: protectedProcedure
     .input(z.object({
@@ -976,7 +1799,7 @@ export const invoiceRouter = createTRPCRouter({
         sum + Number(payment.amount), 0
       )
 
-      const balanceDue = Number(invoice.totalAmount) - totalPaid
+      const balanceDue = Number(getAmountReceivable(invoice)) - totalPaid
       const paymentStatus = balanceDue <= 0 ? 'PAID' : totalPaid > 0 ? 'PARTIAL' : 'UNPAID'
 
       // Update invoice with correct values
@@ -1042,6 +1865,13 @@ export const invoiceRouter = createTRPCRouter({
           message: 'Invoice not found',
         })
       }
+
+      if (invoice.status === 'CANCELLED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Cancelled invoices cannot be shared',
+        })
+      }
       
       // Generate new token
       const updated = await ctx.prisma.invoice.update({
@@ -0,0 +1,279 @@
+/**
+ * Number Series Router
+ *
+ * Per-user invoice numbering series with a custom prefix/suffix, padding
+ * and fiscal year reset, optionally scoped to a client or invoice type.
+ * Also reports gaps in issued numbers for GST audits.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, SeriesResetRule } from '@prisma/client'
+import { getCurrentFiscalYear } from '@/lib/invoice-utils'
+import {
+  DEFAULT_NUMBER_SERIES,
+  extractSeriesSequence,
+  findSequenceGaps,
+  formatSeriesNumber,
+  getNextSeriesSequence,
+  getSeriesSearchPrefix,
+  validateSeriesFormat,
+  type NumberSeriesFormat,
+} from '@/lib/number-series'
+
+const seriesFormatSchema = z.object({
+  prefix: z.string().trim().max(16),
+  suffix: z.string().trim().max(16).default(''),
+  padding: z.number().int().min(1).max(8),
+  resetRule: z.nativeEnum(SeriesResetRule),
+})
+
+const seriesScopeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  clientId: z.string().nullable().default(null),
+  invoiceType: z.enum(['EXPORT', 'DOMESTIC']).nullable().default(null),
+})
+
+const fiscalYearSchema = z.string().regex(/^\d{4}-\d{2}$/, 'Fiscal year must look like 2024-25')
+
+/**
+ * Throw a BAD_REQUEST when the series format is invalid
+ */
+function assertValidFormat(format: NumberSeriesFormat) {
+  const error = validateSeriesFormat(format)
+  if (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error,
+    })
+  }
+}
+
+/**
+ * Map the per-user prefix/suffix unique constraint to a readable error
+ */
+function rethrowDuplicateSeries(error: unknown): never {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'A series with the same prefix and suffix already exists',
+    })
+  }
+  throw error
+}
+
+export const numberSeriesRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const series = await ctx.prisma.numberSeries.findMany({
+      where: { userId: ctx.session.user.id },
+      include: {
+        client: {
+          select: { name: true, company: true },
+        },
+        _count: {
+          select: { invoices: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const currentFY = getCurrentFiscalYear()
+    return series.map((s) => ({
+      ...s,
+      example: formatSeriesNumber(s, currentFY, 1),
+    }))
+  }),
+
+  create: protectedProcedure
+    .input(seriesScopeSchema.merge(seriesFormatSchema))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      assertValidFormat(input)
+
+      if (input.clientId) {
+        const client = await ctx.prisma.client.findFirst({
+          where: { id: input.clientId, userId },
+        })
+
+        if (!client) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Client not found',
+          })
+        }
+      }
+
+      try {
+        return await ctx.prisma.numberSeries.create({
+          data: {
+            userId,
+            ...input,
+          },
+        })
+      } catch (error) {
+        rethrowDuplicateSeries(error)
+      }
+    }),
+
+  update: protectedProcedure
+    .input(
+      seriesScopeSchema.merge(seriesFormatSchema).extend({
+        id: z.string(),
+        isActive: z.boolean(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const { id, ...data } = input
+
+      const existing = await ctx.prisma.numberSeries.findFirst({
+        where: { id, userId },
+        include: {
+          _count: {
+            select: { invoices: true },
+          },
+        },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Number series not found',
+        })
+      }
+
+      assertValidFormat(data)
+
+      // Changing the format of a used series would break its sequence
+      const formatChanged =
+        existing.prefix !== data.prefix ||
+        existing.suffix !== data.suffix ||
+        existing.padding !== data.padding ||
+        existing.resetRule !== data.resetRule
+
+      if (formatChanged && existing._count.invoices > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The format of a series cannot change once invoices use it. Deactivate it and create a new series instead.',
+        })
+      }
+
+      if (data.clientId) {
+        const client = await ctx.prisma.client.findFirst({
+          where: { id: data.clientId, userId },
+        })
+
+        if (!client) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Client not found',
+          })
+        }
+      }
+
+      try {
+        return await ctx.prisma.numberSeries.update({
+          where: { id },
+          data,
+        })
+      } catch (error) {
+        rethrowDuplicateSeries(error)
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.numberSeries.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+        include: {
+          _count: {
+            select: { invoices: true },
+          },
+        },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Number series not found',
+        })
+      }
+
+      if (existing._count.invoices > 0) {
+        throw new TRPCError({
+          code: 'PRECONDITION_FAILED',
+          message: 'Cannot delete a series that has issued invoices. Deactivate it instead.',
+        })
+      }
+
+      return await ctx.prisma.numberSeries.delete({
+        where: { id: existing.id },
+      })
+    }),
+
+  // Next number a series would issue, for the settings preview
+  previewNext: protectedProcedure
+    .input(seriesFormatSchema)
+    .query(async ({ ctx, input }) => {
+      const currentFY = getCurrentFiscalYear()
+      const existingInvoices = await ctx.prisma.invoice.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          invoiceNumber: {
+            startsWith: getSeriesSearchPrefix(input, currentFY),
+          },
+        },
+        select: { invoiceNumber: true },
+      })
+
+      const nextSequence = getNextSeriesSequence(input, currentFY, existingInvoices.map((inv) => inv.invoiceNumber))
+      return {
+        invoiceNumber: formatSeriesNumber(input, currentFY, nextSequence),
+        error: validateSeriesFormat(input),
+      }
+    }),
+
+  // Missing numbers per series (including the built-in FY series) for a fiscal year
+  getGapReport: protectedProcedure
+    .input(z.object({ fiscalYear: fiscalYearSchema }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const [seriesList, invoices] = await Promise.all([
+        ctx.prisma.numberSeries.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+        }),
+        ctx.prisma.invoice.findMany({
+          where: {
+            userId,
+            invoiceType: { not: 'SELF_INVOICE' },
+          },
+          select: { invoiceNumber: true },
+        }),
+      ])
+
+      const invoiceNumbers = invoices.map((inv) => inv.invoiceNumber)
+      const reportFor = (id: string | null, name: string, format: NumberSeriesFormat) => {
+        const sequences = invoiceNumbers
+          .map((num) => extractSeriesSequence(format, input.fiscalYear, num))
+          .filter((seq): seq is number => seq !== null)
+        const gaps = findSequenceGaps(sequences)
+
+        return {
+          id,
+          name,
+          resetRule: format.resetRule,
+          ...gaps,
+          missingNumbers: gaps.missing.map((seq) => formatSeriesNumber(format, input.fiscalYear, seq)),
+        }
+      }
+
+      return [
+        reportFor(null, 'Default', DEFAULT_NUMBER_SERIES),
+        ...seriesList.map((s) => reportFor(s.id, s.name, s)),
+      ].filter((report) => report.issued > 0)
+    }),
+})
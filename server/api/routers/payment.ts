@@ -1,8 +1,18 @@
 import { z } from 'zod'
 import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@prisma/client'
+import { Prisma, type Payment } from '@prisma/client'
 import { getQueueService } from '@/lib/queue'
+import { getAmountReceivable, getInvoicePaymentState } from '@/lib/credit-debit-notes'
+import { splitOverpayment } from '@/lib/client-credit'
+import {
+  calculatePaymentForexGainLoss,
+  groupForexGainLoss,
+  totalForexGainLoss,
+  type ForexReportRow,
+} from '@/lib/forex-gain-loss'
+import { toPaymentSnapshot } from '@/lib/gst-filing/amendments'
+import { assertPeriodNotFiled, checkFiledPeriod, recordAmendment } from '@/lib/gst-filing/filing-lock'
 
 const Decimal = Prisma.Decimal
 
@@ -30,8 +40,64 @@ const PaymentInputSchema = z.object({
   fircNumber: z.string().optional(),
   fircDate: z.date().optional(),
   fircDocumentUrl: z.string().optional(),
+  // Hold any amount above the balance due as client credit instead of rejecting the payment
+  excessAsCredit: z.boolean().optional(),
 })
 
+/**
+ * Part of an amount recorded for the whole payment that belongs to the
+ * portion settling the invoice
+ */
+function portionOf(value: number | undefined, applied: number, amount: number): Prisma.Decimal | null {
+  if (value === undefined) return null
+  return new Decimal(value).times(applied).dividedBy(amount).toDecimalPlaces(2)
+}
+
+/**
+ * Filed period lock for a payment, on its date and any new date it moves to
+ */
+async function checkPaymentFiledPeriod(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  payment: { paymentDate: Date; invoice: { invoiceNumber: string } },
+  newDate: Date | undefined,
+  amendmentReason: string | undefined
+) {
+  const dates = newDate ? [payment.paymentDate, newDate] : [payment.paymentDate]
+  const returns = await checkFiledPeriod(tx, {
+    userId,
+    document: `The payment against ${payment.invoice.invoiceNumber}`,
+    dates,
+    amendmentReason,
+  })
+
+  return returns ? { returns, dates } : null
+}
+
+/**
+ * Record a change to a payment dated in a filed period in the amendments log
+ */
+async function recordPaymentAmendment(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  payment: Payment & { invoice: { invoiceNumber: string } },
+  amended: Payment | null,
+  filed: NonNullable<Awaited<ReturnType<typeof checkPaymentFiledPeriod>>>,
+  reason: string
+) {
+  await recordAmendment(tx, {
+    userId,
+    returns: filed.returns,
+    documentType: 'PAYMENT',
+    documentId: payment.id,
+    documentNumber: payment.invoice.invoiceNumber,
+    dates: filed.dates,
+    reason,
+    original: toPaymentSnapshot(payment),
+    amended: amended ? toPaymentSnapshot(amended) : null,
+  })
+}
+
 export const paymentRouter = createTRPCRouter({
   // Record a new payment
   create: protectedProcedure
@@ -58,24 +124,48 @@ export const paymentRouter = createTRPCRouter({
         })
       }
 
+      if (invoice.status === 'CANCELLED') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Payments cannot be recorded against a cancelled invoice',
+        })
+      }
+
       // Check if payment would exceed invoice amount
       const totalPaid = invoice.payments.reduce(
         (sum, payment) => sum.add(payment.amount),
         new Decimal(0)
       )
-      const newTotalPaid = totalPaid.add(new Decimal(input.amount))
+      const outstanding = getAmountReceivable(invoice).minus(totalPaid)
+
+      // Overpayment kept as client credit: the payment settles the balance due
+      // and the excess, with its share of fees and INR, becomes a credit
+      const { applied, excess } =
+        input.excessAsCredit && invoice.clientId
+          ? splitOverpayment(input.amount, outstanding.toNumber())
+          : { applied: input.amount, excess: 0 }
+
+      if (applied <= 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This invoice has nothing due. Record the money as a client advance instead',
+        })
+      }
+
+      const newTotalPaid = totalPaid.add(new Decimal(applied))
       
       // Calculate the difference to check if payment exceeds the allowed amount
       // Using a small epsilon to handle floating-point precision issues
-      const difference = new Decimal(invoice.totalAmount).minus(newTotalPaid)
+      const difference = getAmountReceivable(invoice).minus(newTotalPaid)
       
       // Debug logging
       console.log('Payment validation:', {
         existingPayments: invoice.payments.map(p => ({ id: p.id, amount: p.amount.toString() })),
         totalAlreadyPaid: totalPaid.toString(),
-        newPaymentAmount: input.amount.toString(),
+        newPaymentAmount: applied.toString(),
         newTotalPaid: newTotalPaid.toString(),
         invoiceTotal: invoice.totalAmount.toString(),
+        amountReceivable: getAmountReceivable(invoice).toString(),
         difference: difference.toString(),
         wouldExceed: difference.lessThan(EPSILON.negated()),
       })
@@ -84,61 +174,69 @@ export const paymentRouter = createTRPCRouter({
       if (difference.lessThan(EPSILON.negated())) {
         throw new TRPCError({
           code: 'BAD_REQUEST',
-          message: `Payment amount would exceed invoice total. Invoice total: ${invoice.totalAmount}, Already paid: ${totalPaid}, New payment: ${input.amount}, Would total: ${newTotalPaid}`,
+          message: `Payment amount would exceed invoice total. Amount receivable: ${getAmountReceivable(invoice)}, Already paid: ${totalPaid}, New payment: ${input.amount}, Would total: ${newTotalPaid}`,
         })
       }
 
-      // Create payment record
-      const payment = await prisma.payment.create({
-        data: {
-          invoiceId: input.invoiceId,
-          amount: new Decimal(input.amount),
-          currency: input.currency,
-          paymentDate: input.paymentDate,
-          paymentMethod: input.paymentMethod,
-          reference: input.reference,
-          notes: input.notes,
-          amountReceivedBeforeFees: input.amountReceivedBeforeFees ? new Decimal(input.amountReceivedBeforeFees) : null,
-          platformFeesInCurrency: input.platformFeesInCurrency ? new Decimal(input.platformFeesInCurrency) : null,
-          creditedAmount: input.creditedAmount ? new Decimal(input.creditedAmount) : null,
-          actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
-          bankChargesInr: input.bankChargesInr ? new Decimal(input.bankChargesInr) : null,
-          fircNumber: input.fircNumber,
-          fircDate: input.fircDate,
-          fircDocumentUrl: input.fircDocumentUrl,
-        },
-      })
+      const creditedAmount = portionOf(input.creditedAmount, applied, input.amount)
+      const bankChargesInr = portionOf(input.bankChargesInr, applied, input.amount)
 
-      // Update invoice payment status and amounts
-      const amountPaid = newTotalPaid
-      const rawBalanceDue = new Decimal(invoice.totalAmount).minus(amountPaid)
-      
-      // Use epsilon tolerance for payment status determination
-      const isFullyPaid = rawBalanceDue.lessThanOrEqualTo(EPSILON)
-      
-      // Clamp balance due to 0 if it's negative or within epsilon
-      const balanceDue = isFullyPaid ? new Decimal(0) : rawBalanceDue
-      
-      let paymentStatus: string
-      if (isFullyPaid) {
-        paymentStatus = 'PAID'
-      } else if (amountPaid.greaterThan(0)) {
-        paymentStatus = 'PARTIALLY_PAID'
-      } else {
-        paymentStatus = 'UNPAID'
-      }
+      const payment = await prisma.$transaction(async (tx) => {
+        // Filed periods are only changed through amendments
+        await assertPeriodNotFiled(tx, {
+          userId,
+          document: `The payment against ${invoice.invoiceNumber}`,
+          dates: [input.paymentDate],
+          instead: 'Record it on a date after the filed period.',
+        })
 
-      // Also update invoice status if fully paid
-      const invoiceStatus = paymentStatus === 'PAID' ? 'PAID' : invoice.status
+        // Create payment record (and the credit for any excess)
+        const payment = await tx.payment.create({
+          data: {
+            invoiceId: input.invoiceId,
+            amount: new Decimal(applied),
+            currency: input.currency,
+            paymentDate: input.paymentDate,
+            paymentMethod: input.paymentMethod,
+            reference: input.reference,
+            notes: input.notes,
+            amountReceivedBeforeFees: input.amountReceivedBeforeFees ? portionOf(input.amountReceivedBeforeFees, applied, input.amount) : null,
+            platformFeesInCurrency: input.platformFeesInCurrency ? portionOf(input.platformFeesInCurrency, applied, input.amount) : null,
+            creditedAmount: input.creditedAmount ? creditedAmount : null,
+            actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
+            bankChargesInr: input.bankChargesInr ? bankChargesInr : null,
+            fircNumber: input.fircNumber,
+            fircDate: input.fircDate,
+            fircDocumentUrl: input.fircDocumentUrl,
+            excessCredit:
+              excess > 0 && invoice.clientId
+                ? {
+                    create: {
+                      userId,
+                      clientId: invoice.clientId,
+                      source: 'OVERPAYMENT',
+                      amount: new Decimal(excess),
+                      currency: input.currency,
+                      receivedDate: input.paymentDate,
+                      paymentMethod: input.paymentMethod,
+                      reference: input.reference,
+                      creditedAmount: creditedAmount ? new Decimal(input.creditedAmount!).minus(creditedAmount) : null,
+                      actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
+                      bankChargesInr: bankChargesInr ? new Decimal(input.bankChargesInr!).minus(bankChargesInr) : null,
+                      fircNumber: input.fircNumber,
+                    },
+                  }
+                : undefined,
+          },
+        })
 
-      await prisma.invoice.update({
-        where: { id: input.invoiceId },
-        data: {
-          paymentStatus,
-          amountPaid,
-          balanceDue,
-          status: invoiceStatus,
-        },
+        // Update invoice payment status and amounts
+        await tx.invoice.update({
+          where: { id: input.invoiceId },
+          data: getInvoicePaymentState(invoice, newTotalPaid),
+        })
+
+        return payment
       })
 
       // Queue PDF regeneration after payment
@@ -275,138 +373,130 @@ export const paymentRouter = createTRPCRouter({
         fircNumber: z.string().optional(),
         fircDate: z.date().optional(),
         fircDocumentUrl: z.string().optional(),
+        // Required when the payment is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { prisma, session } = ctx
       const userId = session.user.id
 
-      // Verify payment belongs to user's invoice
-      const payment = await prisma.payment.findFirst({
-        where: {
-          id: input.id,
-          invoice: {
-            userId,
+      const { payment, updatedPayment } = await prisma.$transaction(async (tx) => {
+        // Verify payment belongs to user's invoice
+        const payment = await tx.payment.findFirst({
+          where: {
+            id: input.id,
+            invoice: {
+              userId,
+            },
           },
-        },
-        include: {
-          invoice: {
-            include: {
-              payments: true,
+          include: {
+            invoice: {
+              include: {
+                payments: true,
+              },
             },
+            excessCredit: { select: { id: true } },
           },
-        },
-      })
-
-      if (!payment) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Payment not found',
         })
-      }
-
-      // If amount is being updated, recalculate invoice totals
-      if (input.amount !== undefined && input.amount !== Number(payment.amount)) {
-        const otherPayments = payment.invoice.payments.filter(p => p.id !== payment.id)
-        const otherPaymentsTotal = otherPayments.reduce(
-          (sum, p) => sum.add(p.amount),
-          new Decimal(0)
-        )
-        const newTotalPaid = otherPaymentsTotal.add(new Decimal(input.amount))
-        
-        // Calculate the difference with epsilon for precision handling
-        const difference = new Decimal(payment.invoice.totalAmount).minus(newTotalPaid)
 
-        // Only throw error if payment exceeds by more than epsilon
-        if (difference.lessThan(EPSILON.negated())) {
+        if (!payment) {
           throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: `Updated payment amount would exceed invoice total. Invoice total: ${payment.invoice.totalAmount}, Other payments: ${otherPaymentsTotal}, New payment: ${input.amount}, Would total: ${newTotalPaid}`,
+            code: 'NOT_FOUND',
+            message: 'Payment not found',
           })
         }
 
-        // Update payment
-        const updatedPayment = await prisma.payment.update({
-          where: { id: input.id },
-          data: {
-            amount: input.amount !== undefined ? new Decimal(input.amount) : undefined,
-            paymentDate: input.paymentDate,
-            paymentMethod: input.paymentMethod,
-            reference: input.reference,
-            notes: input.notes,
-            amountReceivedBeforeFees: input.amountReceivedBeforeFees !== undefined ? new Decimal(input.amountReceivedBeforeFees) : undefined,
-            platformFeesInCurrency: input.platformFeesInCurrency !== undefined ? new Decimal(input.platformFeesInCurrency) : undefined,
-            creditedAmount: input.creditedAmount !== undefined ? new Decimal(input.creditedAmount) : undefined,
-            actualExchangeRate: input.actualExchangeRate !== undefined ? new Decimal(input.actualExchangeRate) : undefined,
-            bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : undefined,
-            fircNumber: input.fircNumber,
-            fircDate: input.fircDate,
-            fircDocumentUrl: input.fircDocumentUrl,
-          },
-        })
+        // Payments dated in a filed return are only changed as amendments
+        const filed = await checkPaymentFiledPeriod(tx, userId, payment, input.paymentDate, input.amendmentReason)
 
-        // Update invoice payment status and amounts
-        const amountPaid = newTotalPaid
-        const rawBalanceDue = new Decimal(payment.invoice.totalAmount).minus(amountPaid)
-        
-        // Use epsilon tolerance for payment status determination
-        const epsilon = new Decimal(0.01)
-        const isFullyPaid = rawBalanceDue.lessThanOrEqualTo(epsilon)
-        
-        // Clamp balance due to 0 if it's negative or within epsilon
-        const balanceDue = isFullyPaid ? new Decimal(0) : rawBalanceDue
-        
-        let paymentStatus: string
-        if (isFullyPaid) {
-          paymentStatus = 'PAID'
-        } else if (amountPaid.greaterThan(0)) {
-          paymentStatus = 'PARTIALLY_PAID'
-        } else {
-          paymentStatus = 'UNPAID'
-        }
+        let updatedPayment: Payment
 
-        const invoiceStatus = paymentStatus === 'PAID' ? 'PAID' : payment.invoice.status
+        // If amount is being updated, recalculate invoice totals
+        if (input.amount !== undefined && input.amount !== Number(payment.amount)) {
+          if (payment.remittanceId) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'This payment is part of a remittance. Delete and re-record the remittance to change its amount',
+            })
+          }
 
-        await prisma.invoice.update({
-          where: { id: payment.invoiceId },
-          data: {
-            paymentStatus,
-            amountPaid,
-            balanceDue,
-            status: invoiceStatus,
-          },
-        })
+          if (payment.paymentMethod === 'CLIENT_CREDIT' || payment.excessCredit) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: 'This payment is linked to a client credit. Delete and re-record it to change its amount',
+            })
+          }
+
+          const otherPayments = payment.invoice.payments.filter(p => p.id !== payment.id)
+          const otherPaymentsTotal = otherPayments.reduce(
+            (sum, p) => sum.add(p.amount),
+            new Decimal(0)
+          )
+          const newTotalPaid = otherPaymentsTotal.add(new Decimal(input.amount))
+          
+          // Calculate the difference with epsilon for precision handling
+          const difference = getAmountReceivable(payment.invoice).minus(newTotalPaid)
+
+          // Only throw error if payment exceeds by more than epsilon
+          if (difference.lessThan(EPSILON.negated())) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Updated payment amount would exceed invoice total. Amount receivable: ${getAmountReceivable(payment.invoice)}, Other payments: ${otherPaymentsTotal}, New payment: ${input.amount}, Would total: ${newTotalPaid}`,
+            })
+          }
+
+          // Update payment
+          updatedPayment = await tx.payment.update({
+            where: { id: input.id },
+            data: {
+              amount: input.amount !== undefined ? new Decimal(input.amount) : undefined,
+              paymentDate: input.paymentDate,
+              paymentMethod: input.paymentMethod,
+              reference: input.reference,
+              notes: input.notes,
+              amountReceivedBeforeFees: input.amountReceivedBeforeFees !== undefined ? new Decimal(input.amountReceivedBeforeFees) : undefined,
+              platformFeesInCurrency: input.platformFeesInCurrency !== undefined ? new Decimal(input.platformFeesInCurrency) : undefined,
+              creditedAmount: input.creditedAmount !== undefined ? new Decimal(input.creditedAmount) : undefined,
+              actualExchangeRate: input.actualExchangeRate !== undefined ? new Decimal(input.actualExchangeRate) : undefined,
+              bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : undefined,
+              fircNumber: input.fircNumber,
+              fircDate: input.fircDate,
+              fircDocumentUrl: input.fircDocumentUrl,
+            },
+          })
 
-        // Queue PDF regeneration after payment update
-        try {
-          await getQueue().enqueue('PDF_GENERATION', {
-            invoiceId: payment.invoiceId,
-            userId: userId,
+          // Update invoice payment status and amounts
+          await tx.invoice.update({
+            where: { id: payment.invoiceId },
+            data: getInvoicePaymentState(payment.invoice, newTotalPaid),
+          })
+        } else {
+          // Update payment without amount change
+          updatedPayment = await tx.payment.update({
+            where: { id: input.id },
+            data: {
+              paymentDate: input.paymentDate,
+              paymentMethod: input.paymentMethod,
+              reference: input.reference,
+              notes: input.notes,
+              amountReceivedBeforeFees: input.amountReceivedBeforeFees !== undefined ? new Decimal(input.amountReceivedBeforeFees) : undefined,
+              platformFeesInCurrency: input.platformFeesInCurrency !== undefined ? new Decimal(input.platformFeesInCurrency) : undefined,
+              creditedAmount: input.creditedAmount !== undefined ? new Decimal(input.creditedAmount) : undefined,
+              actualExchangeRate: input.actualExchangeRate !== undefined ? new Decimal(input.actualExchangeRate) : undefined,
+              bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : undefined,
+              fircNumber: input.fircNumber,
+              fircDate: input.fircDate,
+              fircDocumentUrl: input.fircDocumentUrl,
+            },
           })
-        } catch (error) {
-          console.error('Failed to queue PDF regeneration after payment update:', error)
         }
 
-        return updatedPayment
-      }
+        if (filed) {
+          await recordPaymentAmendment(tx, userId, payment, updatedPayment, filed, input.amendmentReason!)
+        }
 
-      // Update payment without amount change
-      const updatedPayment = await prisma.payment.update({
-        where: { id: input.id },
-        data: {
-          paymentDate: input.paymentDate,
-          paymentMethod: input.paymentMethod,
-          reference: input.reference,
-          notes: input.notes,
-          amountReceivedBeforeFees: input.amountReceivedBeforeFees !== undefined ? new Decimal(input.amountReceivedBeforeFees) : undefined,
-          platformFeesInCurrency: input.platformFeesInCurrency !== undefined ? new Decimal(input.platformFeesInCurrency) : undefined,
-          creditedAmount: input.creditedAmount !== undefined ? new Decimal(input.creditedAmount) : undefined,
-          actualExchangeRate: input.actualExchangeRate !== undefined ? new Decimal(input.actualExchangeRate) : undefined,
-          bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : undefined,
-          fircNumber: input.fircNumber,
-          fircDate: input.fircDate,
-          fircDocumentUrl: input.fircDocumentUrl,
-        },
+        return { payment, updatedPayment }
       })
 
       // Queue PDF regeneration after any payment update
@@ -424,76 +514,81 @@ export const paymentRouter = createTRPCRouter({
 
   // Delete a payment
   delete: protectedProcedure
-    .input(z.object({ id: z.string() }))
+    .input(
+      z.object({
+        id: z.string(),
+        // Required when the payment is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
+      })
+    )
     .mutation(async ({ ctx, input }) => {
       const { prisma, session } = ctx
       const userId = session.user.id
 
-      // Verify payment belongs to user's invoice
-      const payment = await prisma.payment.findFirst({
-        where: {
-          id: input.id,
-          invoice: {
-            userId,
+      const payment = await prisma.$transaction(async (tx) => {
+        // Verify payment belongs to user's invoice
+        const payment = await tx.payment.findFirst({
+          where: {
+            id: input.id,
+            invoice: {
+              userId,
+            },
           },
-        },
-        include: {
-          invoice: {
-            include: {
-              payments: true,
+          include: {
+            invoice: {
+              include: {
+                payments: true,
+              },
             },
+            excessCredit: { include: { _count: { select: { applications: true } } } },
           },
-        },
-      })
+        })
 
-      if (!payment) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Payment not found',
+        if (!payment) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Payment not found',
+          })
+        }
+
+        if (payment.remittanceId) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'This payment is part of a remittance. Delete the remittance instead',
+          })
+        }
+
+        // The excess credit is deleted with the payment, so it must not have been used
+        if (payment.excessCredit && payment.excessCredit._count.applications > 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The excess of this payment has been applied to other invoices as client credit. Delete those payments first',
+          })
+        }
+
+        const filed = await checkPaymentFiledPeriod(tx, userId, payment, undefined, input.amendmentReason)
+
+        // Delete payment
+        await tx.payment.delete({
+          where: { id: input.id },
         })
-      }
 
-      // Delete payment
-      await prisma.payment.delete({
-        where: { id: input.id },
-      })
+        // Recalculate invoice payment status and amounts
+        const remainingPayments = payment.invoice.payments.filter(p => p.id !== payment.id)
+        const amountPaid = remainingPayments.reduce(
+          (sum, p) => sum.add(p.amount),
+          new Decimal(0)
+        )
+        await tx.invoice.update({
+          where: { id: payment.invoiceId },
+          data: getInvoicePaymentState(payment.invoice, amountPaid),
+        })
 
-      // Recalculate invoice payment status and amounts
-      const remainingPayments = payment.invoice.payments.filter(p => p.id !== payment.id)
-      const amountPaid = remainingPayments.reduce(
-        (sum, p) => sum.add(p.amount),
-        new Decimal(0)
-      )
-      const rawBalanceDue = new Decimal(payment.invoice.totalAmount).minus(amountPaid)
-      
-      // Use epsilon tolerance for payment status determination
-      const isFullyPaid = rawBalanceDue.lessThanOrEqualTo(EPSILON)
-      
-      // Clamp balance due to 0 if it's negative or within epsilon
-      const balanceDue = isFullyPaid ? new Decimal(0) : rawBalanceDue
-      
-      let paymentStatus: string
-      if (isFullyPaid) {
-        paymentStatus = 'PAID'
-      } else if (amountPaid.greaterThan(0)) {
-        paymentStatus = 'PARTIALLY_PAID'
-      } else {
-        paymentStatus = 'UNPAID'
-      }
+        if (filed) {
+          await recordPaymentAmendment(tx, userId, payment, null, filed, input.amendmentReason!)
+        }
 
-      // Update invoice status - if it was PAID and now not fully paid, set back to SENT
-      const invoiceStatus = payment.invoice.status === 'PAID' && paymentStatus !== 'PAID' 
-        ? 'SENT' 
-        : payment.invoice.status
-
-      await prisma.invoice.update({
-        where: { id: payment.invoiceId },
-        data: {
-          paymentStatus,
-          amountPaid,
-          balanceDue,
-          status: invoiceStatus,
-        },
+        return payment
       })
 
       // Queue PDF regeneration after payment deletion
@@ -565,4 +660,64 @@ export const paymentRouter = createTRPCRouter({
 
       return summary
     }),
+
+  // Get realised forex gain/loss for payments received in a period
+  getForexGainLoss: protectedProcedure
+    .input(
+      z.object({
+        dateFrom: z.date(),
+        dateTo: z.date(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const payments = await ctx.prisma.payment.findMany({
+        where: {
+          invoice: { userId: ctx.session.user.id },
+          paymentDate: { gte: input.dateFrom, lte: input.dateTo },
+        },
+        include: {
+          invoice: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              currency: true,
+              exchangeRate: true,
+              client: { select: { id: true, name: true } },
+            },
+          },
+        },
+        orderBy: { paymentDate: 'asc' },
+      })
+
+      const rows: ForexReportRow[] = payments.map((payment) => ({
+        paymentId: payment.id,
+        paymentDate: payment.paymentDate,
+        invoiceId: payment.invoice.id,
+        invoiceNumber: payment.invoice.invoiceNumber,
+        clientId: payment.invoice.client?.id ?? null,
+        clientName: payment.invoice.client?.name ?? 'Self invoices',
+        currency: payment.invoice.currency,
+        amount: Number(payment.amount),
+        ...calculatePaymentForexGainLoss(
+          {
+            amount: Number(payment.amount),
+            amountReceivedBeforeFees: payment.amountReceivedBeforeFees ? Number(payment.amountReceivedBeforeFees) : null,
+            platformFeesInCurrency: payment.platformFeesInCurrency ? Number(payment.platformFeesInCurrency) : null,
+            creditedAmount: payment.creditedAmount ? Number(payment.creditedAmount) : null,
+            actualExchangeRate: payment.actualExchangeRate ? Number(payment.actualExchangeRate) : null,
+            bankChargesInr: payment.bankChargesInr ? Number(payment.bankChargesInr) : null,
+          },
+          Number(payment.invoice.exchangeRate),
+          payment.invoice.currency
+        ),
+      }))
+
+      return {
+        payments: rows,
+        byInvoice: groupForexGainLoss(rows, 'invoice'),
+        byClientCurrency: groupForexGainLoss(rows, 'clientCurrency'),
+        byMonth: groupForexGainLoss(rows, 'month'),
+        totals: totalForexGainLoss(rows),
+      }
+    }),
 })
\ No newline at end of file
@@ -0,0 +1,258 @@
+/**
+ * Realisation Router
+ *
+ * Register of export invoices by realisation status against the FEMA
+ * nine-month limit, and bulk matching of FIRC / e-BRC certificates to the
+ * payments they evidence.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { getAmountReceivable } from '@/lib/credit-debit-notes'
+import { readSpreadsheet } from '@/lib/spreadsheet'
+import {
+  getRealisationSummary,
+  parseFircRegister,
+  proposeFircMatches,
+  toRealisedPayment,
+  type PaymentForFircMatching,
+  type RealisationStatus,
+} from '@/lib/realisation'
+
+const RealisationStatusSchema = z.enum(['REALISED', 'PARTIALLY_REALISED', 'UNREALISED', 'OVERDUE'])
+
+/**
+ * Export payments received from the client that have no FIRC or e-BRC yet,
+ * in the shape the matcher expects. Payments settled from client credit
+ * are evidenced by the credit's own receipt.
+ */
+async function getPaymentsWithoutFirc(
+  prisma: PrismaClient | Prisma.TransactionClient,
+  userId: string
+): Promise<PaymentForFircMatching[]> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      fircNumber: null,
+      paymentMethod: { not: 'CLIENT_CREDIT' },
+      invoice: { userId, invoiceType: 'EXPORT' },
+    },
+    include: {
+      invoice: { select: { invoiceNumber: true, client: { select: { name: true } } } },
+    },
+    orderBy: { paymentDate: 'asc' },
+  })
+
+  return payments.map((payment) => ({
+    id: payment.id,
+    invoiceNumber: payment.invoice.invoiceNumber,
+    clientName: payment.invoice.client?.name ?? '',
+    currency: payment.currency,
+    amount: Number(payment.amount),
+    creditedAmount: payment.creditedAmount !== null ? Number(payment.creditedAmount) : null,
+    paymentDate: payment.paymentDate,
+    reference: payment.reference,
+  }))
+}
+
+export const realisationRouter = createTRPCRouter({
+  /**
+   * Export invoices with their realisation status, days outstanding and
+   * days left to the nine-month deadline
+   */
+  getRegister: protectedProcedure
+    .input(
+      z.object({
+        status: RealisationStatusSchema.optional(),
+        clientId: z.string().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const invoices = await ctx.prisma.invoice.findMany({
+        where: {
+          userId: ctx.session.user.id,
+          invoiceType: 'EXPORT',
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          clientId: input.clientId ?? { not: null },
+        },
+        include: {
+          client: { select: { id: true, name: true } },
+          payments: {
+            include: { creditApplication: { include: { credit: { select: { receivedDate: true, fircNumber: true } } } } },
+          },
+        },
+        orderBy: { invoiceDate: 'asc' },
+      })
+
+      const now = new Date()
+      const allRows = invoices.map((invoice) => {
+        const payments = invoice.payments.map(toRealisedPayment)
+        const summary = getRealisationSummary(
+          {
+            invoiceDate: invoice.invoiceDate,
+            amountReceivable: Number(getAmountReceivable(invoice)),
+            payments,
+          },
+          now
+        )
+
+        return {
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceDate: invoice.invoiceDate,
+          client: invoice.client,
+          currency: invoice.currency,
+          exchangeRate: Number(invoice.exchangeRate),
+          amountReceivable: Number(getAmountReceivable(invoice)),
+          fircNumbers: [...new Set(payments.map((payment) => payment.fircNumber).filter((firc): firc is string => !!firc))],
+          ...summary,
+        }
+      })
+
+      const statusCounts: Record<RealisationStatus, number> = {
+        REALISED: 0,
+        PARTIALLY_REALISED: 0,
+        UNREALISED: 0,
+        OVERDUE: 0,
+      }
+      for (const row of allRows) statusCounts[row.status]++
+
+      return {
+        rows: input.status ? allRows.filter((row) => row.status === input.status) : allRows,
+        summary: {
+          statusCounts,
+          // Unrealised value at the invoice rate
+          unrealisedInr: allRows.reduce((sum, row) => sum + row.unrealisedAmount * row.exchangeRate, 0),
+          dueWithin60Days: allRows.filter((row) => row.status !== 'REALISED' && row.daysRemaining >= 0 && row.daysRemaining <= 60)
+            .length,
+          missingFircCount: allRows.filter((row) => row.missingFirc).length,
+        },
+      }
+    }),
+
+  /**
+   * Read a FIRC or e-BRC register and propose the payment each certificate
+   * evidences. Nothing is saved until the matches are applied.
+   */
+  previewFircImport: protectedProcedure
+    .input(
+      z.object({
+        fileName: z.string().min(1),
+        content: z.string().min(1).max(7_000_000, 'File must be smaller than 5MB'), // base64
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+      const spreadsheet = readSpreadsheet(input.fileName, Buffer.from(input.content, 'base64'))
+      if (!spreadsheet.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: spreadsheet.error || 'Failed to read the file',
+        })
+      }
+
+      const parseResult = parseFircRegister(spreadsheet.rows!)
+      if (!parseResult.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: parseResult.error || 'Failed to read the certificates',
+        })
+      }
+
+      const records = parseResult.records!
+
+      // Certificates already recorded against a payment are shown but not matched again
+      const recorded = await ctx.prisma.payment.findMany({
+        where: {
+          invoice: { userId },
+          fircNumber: { in: records.map((record) => record.documentNumber) },
+        },
+        select: { fircNumber: true },
+      })
+      const recordedNumbers = new Set(recorded.map((payment) => payment.fircNumber))
+
+      const payments = await getPaymentsWithoutFirc(ctx.prisma, userId)
+      const newRecords = records.filter((record) => !recordedNumbers.has(record.documentNumber))
+      const proposals = proposeFircMatches(newRecords, payments)
+
+      return {
+        records: records.map((record) => {
+          const index = newRecords.indexOf(record)
+          return {
+            ...record,
+            alreadyRecorded: index === -1,
+            proposal: index !== -1 ? proposals.get(index) ?? null : null,
+          }
+        }),
+        payments,
+      }
+    }),
+
+  /**
+   * Record confirmed certificates on their payments. The INR value
+   * certified fills in the bank credit when the payment does not have it.
+   */
+  applyFircMatches: protectedProcedure
+    .input(
+      z.object({
+        matches: z
+          .array(
+            z.object({
+              paymentId: z.string(),
+              fircNumber: z.string().min(1),
+              fircDate: z.date().optional(),
+              inrAmount: z.number().positive().optional(),
+            })
+          )
+          .min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const paymentIds = input.matches.map((match) => match.paymentId)
+      if (new Set(paymentIds).size !== paymentIds.length) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Each payment can only be matched to one certificate',
+        })
+      }
+
+      const payments = await ctx.prisma.payment.findMany({
+        where: { id: { in: paymentIds }, invoice: { userId: ctx.session.user.id } },
+      })
+      if (payments.length !== paymentIds.length) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Payment not found',
+        })
+      }
+
+      const alreadyRecorded = payments.find((payment) => payment.fircNumber)
+      if (alreadyRecorded) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `A payment already has FIRC ${alreadyRecorded.fircNumber} recorded`,
+        })
+      }
+
+      await ctx.prisma.$transaction(
+        input.matches.map((match) => {
+          const payment = payments.find((p) => p.id === match.paymentId)!
+          const fillCredit = !!match.inrAmount && payment.creditedAmount === null
+          return ctx.prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+              fircNumber: match.fircNumber,
+              fircDate: match.fircDate,
+              ...(fillCredit && {
+                creditedAmount: match.inrAmount,
+                actualExchangeRate: payment.actualExchangeRate ?? match.inrAmount! / Number(payment.amount),
+              }),
+            },
+          })
+        })
+      )
+
+      return { updated: input.matches.length }
+    }),
+})
@@ -0,0 +1,96 @@
+/**
+ * Receivables Router
+ *
+ * Aged receivables report: open invoices bucketed by age and grouped by
+ * client and currency, with a CSV export for the accountant.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import type { PrismaClient } from '@prisma/client'
+import { format } from 'date-fns'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+import {
+  agedReceivablesToCSV,
+  buildAgedReceivables,
+  type AgeingBasis,
+  type AgedReceivablesReport,
+} from '@/lib/aged-receivables'
+
+const AgeingInputSchema = z.object({
+  basis: z.enum(['INVOICE_DATE', 'DUE_DATE']).default('DUE_DATE'),
+})
+
+/**
+ * Age every invoice with a balance due, valued at today's rates
+ */
+async function loadAgedReceivables(
+  prisma: PrismaClient,
+  userId: string,
+  basis: AgeingBasis
+): Promise<AgedReceivablesReport> {
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      userId,
+      clientId: { not: null },
+      status: { notIn: ['DRAFT', 'CANCELLED'] },
+      balanceDue: { gt: 0 },
+    },
+    include: {
+      client: { select: { id: true, name: true } },
+    },
+  })
+
+  const today = new Date()
+  const currentRates = new Map<string, number>()
+  for (const currency of new Set(invoices.map((invoice) => invoice.currency))) {
+    if (currency === 'INR') continue
+    const rate = await getOrFetchExchangeRate(currency, today)
+    if (rate) currentRates.set(currency, rate.rate)
+  }
+
+  return buildAgedReceivables(
+    invoices.flatMap((invoice) =>
+      invoice.client
+        ? [
+            {
+              invoiceId: invoice.id,
+              invoiceNumber: invoice.invoiceNumber,
+              invoiceDate: invoice.invoiceDate,
+              dueDate: invoice.dueDate,
+              clientId: invoice.client.id,
+              clientName: invoice.client.name,
+              currency: invoice.currency,
+              balanceDue: Number(invoice.balanceDue),
+              bookingRate: Number(invoice.exchangeRate),
+            },
+          ]
+        : []
+    ),
+    basis,
+    currentRates,
+    today
+  )
+}
+
+export const receivablesRouter = createTRPCRouter({
+  /**
+   * Aged receivables by client and currency, with the invoices in each group
+   */
+  getAgedReceivables: protectedProcedure
+    .input(AgeingInputSchema)
+    .query(async ({ ctx, input }) => {
+      return loadAgedReceivables(ctx.prisma, ctx.session.user.id, input.basis)
+    }),
+
+  exportAgedReceivablesCsv: protectedProcedure
+    .input(AgeingInputSchema)
+    .query(async ({ ctx, input }) => {
+      const report = await loadAgedReceivables(ctx.prisma, ctx.session.user.id, input.basis)
+
+      return {
+        fileName: `Aged_Receivables_${format(report.asOf, 'yyyy-MM-dd')}.csv`,
+        content: agedReceivablesToCSV(report),
+      }
+    }),
+})
@@ -0,0 +1,293 @@
+/**
+ * Recurring Invoice Router
+ *
+ * Manages recurring invoice schedules for retainer clients. Invoices are
+ * generated by the RECURRING_INVOICE queue job, which goes through the same
+ * logic as invoiceRouter.create.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { RecurringFrequency } from '@prisma/client'
+import { lineItemSchema, type LineItemInput } from '@/lib/validations/invoice'
+import { getQueueService, isQueueServiceAvailable } from '@/lib/queue'
+import { getOccurrenceDate, isScheduleComplete } from '@/lib/recurring-invoices'
+
+const recurringInvoiceSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  clientId: z.string(),
+  invoiceType: z.enum(['EXPORT', 'DOMESTIC']).default('EXPORT'),
+  gstRate: z.number().min(0).max(28).optional(), // Domestic invoices only
+  exportWithPayment: z.boolean().default(false), // Export invoices only
+  currency: z.string().default('USD'),
+  frequency: z.nativeEnum(RecurringFrequency),
+  startDate: z.date(),
+  endDate: z.date().optional(),
+  paymentTerms: z.number().int().min(0).default(30),
+  bankDetails: z.string().optional(),
+  notes: z.string().optional(),
+  autoSend: z.boolean().default(false),
+  sendTo: z.string().email().optional(),
+  lineItems: z.array(lineItemSchema).min(1),
+}).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  }
+)
+
+/**
+ * Stored form of a schedule line, copied onto every generated invoice
+ */
+function toRecurringItemData(item: LineItemInput) {
+  return {
+    description: item.description,
+    quantity: item.quantity,
+    rate: item.rate,
+    serviceCode: item.sacCode,
+    discountType: item.discountType ?? null,
+    discountValue: item.discountType ? (item.discountValue ?? 0) : 0,
+    gstRate: item.gstRate ?? null,
+  }
+}
+
+export const recurringInvoiceRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await ctx.prisma.recurringInvoice.findMany({
+      where: { userId: ctx.session.user.id },
+      include: {
+        client: {
+          select: { name: true, company: true },
+        },
+        lineItems: true,
+        _count: {
+          select: { invoices: true },
+        },
+      },
+      orderBy: [{ isActive: 'desc' }, { nextRunDate: 'asc' }],
+    })
+  }),
+
+  getById: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const recurringInvoice = await ctx.prisma.recurringInvoice.findFirst({
+        where: {
+          id: input.id,
+          userId: ctx.session.user.id,
+        },
+        include: {
+          client: true,
+          lineItems: true,
+          invoices: {
+            select: {
+              id: true,
+              invoiceNumber: true,
+              invoiceDate: true,
+              totalAmount: true,
+              currency: true,
+              status: true,
+            },
+            orderBy: { invoiceDate: 'desc' },
+          },
+        },
+      })
+
+      if (!recurringInvoice) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring invoice not found',
+        })
+      }
+
+      return recurringInvoice
+    }),
+
+  create: protectedProcedure
+    .input(recurringInvoiceSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.clientId, userId },
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      const { lineItems, ...schedule } = input
+
+      return await ctx.prisma.recurringInvoice.create({
+        data: {
+          ...schedule,
+          userId,
+          nextRunDate: input.startDate,
+          lineItems: {
+            create: lineItems.map(toRecurringItemData),
+          },
+        },
+        include: { lineItems: true },
+      })
+    }),
+
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      data: recurringInvoiceSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const existing = await ctx.prisma.recurringInvoice.findFirst({
+        where: { id: input.id, userId },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring invoice not found',
+        })
+      }
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.data.clientId, userId },
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      const { lineItems, ...schedule } = input.data
+
+      // Keep the number of invoices already generated, re-derive the next date
+      const nextRunDate = getOccurrenceDate(schedule.startDate, schedule.frequency, existing.occurrences)
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        await tx.recurringInvoiceItem.deleteMany({
+          where: { recurringInvoiceId: existing.id },
+        })
+
+        return await tx.recurringInvoice.update({
+          where: { id: existing.id },
+          data: {
+            ...schedule,
+            endDate: schedule.endDate ?? null,
+            gstRate: schedule.gstRate ?? null,
+            sendTo: schedule.sendTo ?? null,
+            nextRunDate,
+            isActive: existing.isActive && !isScheduleComplete(nextRunDate, schedule.endDate ?? null),
+            lineItems: {
+              create: lineItems.map(toRecurringItemData),
+            },
+          },
+          include: { lineItems: true },
+        })
+      })
+    }),
+
+  // Pause or resume a schedule
+  setActive: protectedProcedure
+    .input(z.object({
+      id: z.string(),
+      isActive: z.boolean(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.recurringInvoice.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring invoice not found',
+        })
+      }
+
+      if (input.isActive && isScheduleComplete(existing.nextRunDate, existing.endDate)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This schedule has ended. Extend the end date before resuming it.',
+        })
+      }
+
+      return await ctx.prisma.recurringInvoice.update({
+        where: { id: existing.id },
+        data: { isActive: input.isActive },
+      })
+    }),
+
+  // Generate a due invoice right away instead of waiting for the daily scan
+  generateNow: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.recurringInvoice.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring invoice not found',
+        })
+      }
+
+      if (!existing.isActive) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Resume the schedule before generating invoices',
+        })
+      }
+
+      if (existing.nextRunDate > new Date()) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `The next invoice is scheduled for ${existing.nextRunDate.toISOString().split('T')[0]}`,
+        })
+      }
+
+      if (!isQueueServiceAvailable()) {
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: 'Queue service is not available',
+        })
+      }
+
+      const job = await getQueueService().enqueue('RECURRING_INVOICE', {
+        mode: 'single',
+        recurringInvoiceId: existing.id,
+      })
+
+      return { jobId: job.id }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.recurringInvoice.findFirst({
+        where: { id: input.id, userId: ctx.session.user.id },
+      })
+
+      if (!existing) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Recurring invoice not found',
+        })
+      }
+
+      // Generated invoices are kept; they just lose the link to the schedule
+      await ctx.prisma.recurringInvoice.delete({
+        where: { id: existing.id },
+      })
+
+      return { success: true }
+    }),
+})
@@ -0,0 +1,311 @@
+/**
+ * Remittance Router
+ *
+ * Records one receipt from a client that pays several invoices, as a
+ * payment on each invoice for its share of the amount, fees and FIRC.
+ */
+
+import { z } from 'zod'
+import { createTRPCRouter, protectedProcedure } from '@/server/api/trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@prisma/client'
+import { getQueueService } from '@/lib/queue'
+import { getAmountReceivable, updateInvoicePaymentStatus } from '@/lib/credit-debit-notes'
+import { apportionRemittance } from '@/lib/remittance'
+import { toPaymentSnapshot } from '@/lib/gst-filing/amendments'
+import { assertPeriodNotFiled, checkFiledPeriod, recordAmendment } from '@/lib/gst-filing/filing-lock'
+
+const Decimal = Prisma.Decimal
+
+// Epsilon tolerance for decimal comparisons (0.01 = 1 cent)
+const EPSILON = new Decimal(0.01)
+
+const RemittanceInputSchema = z.object({
+  clientId: z.string(),
+  amount: z.number().positive(), // Amount client sent, across all invoices
+  currency: z.string().min(3).max(3),
+  remittanceDate: z.date(),
+  paymentMethod: z.enum(['BANK_TRANSFER', 'CREDIT_CARD', 'DEBIT_CARD', 'UPI', 'PAYPAL', 'PAYONEER', 'WISE', 'OTHER']),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  platformFeesInCurrency: z.number().min(0).optional(),
+  creditedAmount: z.number().positive().optional(),
+  actualExchangeRate: z.number().positive().optional(),
+  bankChargesInr: z.number().min(0).optional(),
+  fircNumber: z.string().optional(),
+  fircDate: z.date().optional(),
+  fircDocumentUrl: z.string().optional(),
+  allocations: z
+    .array(
+      z.object({
+        invoiceId: z.string(),
+        amount: z.number().positive(),
+      })
+    )
+    .min(1, 'Allocate the remittance to at least one invoice'),
+})
+
+/**
+ * Queue PDF regeneration for invoices whose payments changed
+ */
+async function regeneratePdfs(invoiceIds: string[], userId: string): Promise<void> {
+  for (const invoiceId of invoiceIds) {
+    try {
+      await getQueueService().enqueue('PDF_GENERATION', { invoiceId, userId })
+    } catch (error) {
+      console.error('Failed to queue PDF regeneration after remittance:', error)
+    }
+  }
+}
+
+export const remittanceRouter = createTRPCRouter({
+  /**
+   * Record a remittance and a payment on each invoice it pays
+   */
+  create: protectedProcedure
+    .input(RemittanceInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const client = await ctx.prisma.client.findFirst({
+        where: { id: input.clientId, userId },
+      })
+
+      if (!client) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'Client not found',
+        })
+      }
+
+      const invoiceIds = input.allocations.map((allocation) => allocation.invoiceId)
+      if (new Set(invoiceIds).size !== invoiceIds.length) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Each invoice can only be allocated once',
+        })
+      }
+
+      const allocated = input.allocations.reduce((sum, allocation) => sum.add(allocation.amount), new Decimal(0))
+      if (allocated.minus(input.amount).abs().greaterThan(EPSILON)) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Allocations total ${allocated.toFixed(2)} but the remittance is ${input.amount.toFixed(2)}`,
+        })
+      }
+
+      if (input.platformFeesInCurrency !== undefined && input.platformFeesInCurrency >= input.amount) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Fees must be less than the amount sent',
+        })
+      }
+
+      const payments = apportionRemittance(
+        {
+          amount: input.amount,
+          platformFeesInCurrency: input.platformFeesInCurrency,
+          creditedAmount: input.creditedAmount,
+          bankChargesInr: input.bankChargesInr,
+        },
+        input.allocations
+      )
+
+      const remittance = await ctx.prisma.$transaction(async (tx) => {
+        // Filed periods are only changed through amendments
+        await assertPeriodNotFiled(tx, {
+          userId,
+          document: `The remittance from ${client.name}`,
+          dates: [input.remittanceDate],
+          instead: 'Record it on a date after the filed period.',
+        })
+
+        // Check balances in the same transaction that records the payments
+        const invoices = await tx.invoice.findMany({
+          where: { id: { in: invoiceIds }, userId },
+          include: { payments: { select: { amount: true } } },
+        })
+
+        for (const allocation of input.allocations) {
+          const invoice = invoices.find((candidate) => candidate.id === allocation.invoiceId)
+
+          if (!invoice) {
+            throw new TRPCError({
+              code: 'NOT_FOUND',
+              message: 'Invoice not found',
+            })
+          }
+
+          if (invoice.clientId !== input.clientId) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Invoice ${invoice.invoiceNumber} belongs to another client`,
+            })
+          }
+
+          if (invoice.currency !== input.currency) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Invoice ${invoice.invoiceNumber} is in ${invoice.currency}, not ${input.currency}`,
+            })
+          }
+
+          if (invoice.status === 'DRAFT' || invoice.status === 'CANCELLED') {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Invoice ${invoice.invoiceNumber} is ${invoice.status === 'DRAFT' ? 'a draft' : 'cancelled'}`,
+            })
+          }
+
+          const totalPaid = invoice.payments.reduce((sum, payment) => sum.add(payment.amount), new Decimal(0))
+          const outstanding = getAmountReceivable(invoice).minus(totalPaid)
+          if (outstanding.minus(allocation.amount).lessThan(EPSILON.negated())) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Allocation of ${allocation.amount.toFixed(2)} exceeds the balance due of ${outstanding.toFixed(2)} on invoice ${invoice.invoiceNumber}`,
+            })
+          }
+        }
+
+        const created = await tx.remittance.create({
+          data: {
+            userId,
+            clientId: input.clientId,
+            amount: new Decimal(input.amount),
+            currency: input.currency,
+            remittanceDate: input.remittanceDate,
+            paymentMethod: input.paymentMethod,
+            reference: input.reference,
+            notes: input.notes,
+            platformFeesInCurrency:
+              input.platformFeesInCurrency !== undefined ? new Decimal(input.platformFeesInCurrency) : null,
+            creditedAmount: input.creditedAmount ? new Decimal(input.creditedAmount) : null,
+            actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
+            bankChargesInr: input.bankChargesInr !== undefined ? new Decimal(input.bankChargesInr) : null,
+            fircNumber: input.fircNumber,
+            fircDate: input.fircDate,
+            fircDocumentUrl: input.fircDocumentUrl,
+          },
+        })
+
+        for (const payment of payments) {
+          await tx.payment.create({
+            data: {
+              invoiceId: payment.invoiceId,
+              remittanceId: created.id,
+              amount: new Decimal(payment.amount),
+              currency: input.currency,
+              paymentDate: input.remittanceDate,
+              paymentMethod: input.paymentMethod,
+              reference: input.reference,
+              notes: input.notes,
+              amountReceivedBeforeFees:
+                payment.amountReceivedBeforeFees !== null ? new Decimal(payment.amountReceivedBeforeFees) : null,
+              platformFeesInCurrency:
+                payment.platformFeesInCurrency !== null ? new Decimal(payment.platformFeesInCurrency) : null,
+              creditedAmount: payment.creditedAmount !== null ? new Decimal(payment.creditedAmount) : null,
+              actualExchangeRate: input.actualExchangeRate ? new Decimal(input.actualExchangeRate) : null,
+              bankChargesInr: payment.bankChargesInr !== null ? new Decimal(payment.bankChargesInr) : null,
+              fircNumber: input.fircNumber,
+              fircDate: input.fircDate,
+              fircDocumentUrl: input.fircDocumentUrl,
+            },
+          })
+          await updateInvoicePaymentStatus(tx, payment.invoiceId)
+        }
+
+        return created
+      })
+
+      await regeneratePdfs(invoiceIds, userId)
+
+      return remittance
+    }),
+
+  /**
+   * List remittances with the invoices each one paid
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await ctx.prisma.remittance.findMany({
+      where: { userId: ctx.session.user.id },
+      include: {
+        client: { select: { id: true, name: true } },
+        payments: {
+          select: { id: true, amount: true, invoice: { select: { id: true, invoiceNumber: true } } },
+        },
+      },
+      orderBy: { remittanceDate: 'desc' },
+    })
+  }),
+
+  /**
+   * Delete a remittance and its payments, and restore the invoice balances.
+   * A remittance dated in a filed period is deleted as an amendment of each
+   * of its payments.
+   */
+  delete: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        // Required when the remittance is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
+
+      const invoiceIds = await ctx.prisma.$transaction(async (tx) => {
+        const remittance = await tx.remittance.findFirst({
+          where: { id: input.id, userId },
+          include: {
+            client: { select: { name: true } },
+            payments: { include: { invoice: { select: { invoiceNumber: true } } } },
+          },
+        })
+
+        if (!remittance) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Remittance not found',
+          })
+        }
+
+        const returns = await checkFiledPeriod(tx, {
+          userId,
+          document: `The remittance from ${remittance.client.name}`,
+          dates: [remittance.remittanceDate],
+          amendmentReason: input.amendmentReason,
+        })
+
+        const invoiceIds = [...new Set(remittance.payments.map((payment) => payment.invoiceId))]
+
+        // Payments are deleted with the remittance
+        await tx.remittance.delete({ where: { id: remittance.id } })
+        for (const invoiceId of invoiceIds) {
+          await updateInvoicePaymentStatus(tx, invoiceId)
+        }
+
+        if (returns) {
+          for (const payment of remittance.payments) {
+            await recordAmendment(tx, {
+              userId,
+              returns,
+              documentType: 'PAYMENT',
+              documentId: payment.id,
+              documentNumber: payment.invoice.invoiceNumber,
+              dates: [payment.paymentDate],
+              reason: input.amendmentReason!,
+              original: toPaymentSnapshot(payment),
+              amended: null,
+            })
+          }
+        }
+
+        return invoiceIds
+      })
+
+      await regeneratePdfs(invoiceIds, userId)
+
+      return { success: true }
+    }),
+})
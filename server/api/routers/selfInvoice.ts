@@ -23,6 +23,8 @@ import {
   validateImportOfServicesInvoice,
 } from '@/lib/validations/gst'
 import { InvoiceType, PaymentMode, SupplierType, RcmType } from '@prisma/client'
+import { toInvoiceSnapshot } from '@/lib/invoice-revisions'
+import { checkFiledPeriod, recordAmendment } from '@/lib/gst-filing/filing-lock'
 
 const lineItemSchema = z.object({
   description: z.string().min(1),
@@ -735,28 +737,14 @@ export const selfInvoiceRouter = createTRPCRouter({
         notes: z.string().optional(),
         // Note: Changing line items or GST rate requires recalculation
         // For now, allow updating metadata fields only
+        // Required when the self-invoice is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const db = ctx.prisma
       const userId = ctx.session.user.id
 
-      // Verify ownership
-      const existingInvoice = await db.invoice.findFirst({
-        where: {
-          id: input.id,
-          userId,
-          invoiceType: InvoiceType.SELF_INVOICE,
-        },
-      })
-
-      if (!existingInvoice) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Self-invoice not found',
-        })
-      }
-
       // Validate dates if provided
       if (input.invoiceDate && input.dateOfReceiptOfSupply) {
         // Basic validation: invoice date cannot be before receipt date
@@ -768,45 +756,123 @@ export const selfInvoiceRouter = createTRPCRouter({
         }
       }
 
-      // Update the invoice
-      const updatedInvoice = await db.invoice.update({
-        where: { id: input.id },
-        data: {
-          ...(input.invoiceDate && { invoiceDate: input.invoiceDate }),
-          ...(input.dateOfReceiptOfSupply && { dateOfReceiptOfSupply: input.dateOfReceiptOfSupply }),
-          ...(input.notes !== undefined && { notes: input.notes }),
-        },
-        include: {
-          unregisteredSupplier: true,
-          lineItems: true,
-          paymentVoucher: true,
-        },
-      })
+      return await db.$transaction(async (tx) => {
+        // Verify ownership
+        const existingInvoice = await tx.invoice.findFirst({
+          where: {
+            id: input.id,
+            userId,
+            invoiceType: InvoiceType.SELF_INVOICE,
+          },
+          include: { lineItems: true },
+        })
+
+        if (!existingInvoice) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Self-invoice not found',
+          })
+        }
+
+        // Self-invoices dated in a filed return are only changed as amendments
+        const dates = input.invoiceDate ? [existingInvoice.invoiceDate, input.invoiceDate] : [existingInvoice.invoiceDate]
+        const returns = await checkFiledPeriod(tx, {
+          userId,
+          document: `Self-invoice ${existingInvoice.invoiceNumber}`,
+          dates,
+          amendmentReason: input.amendmentReason,
+        })
+
+        // Update the invoice
+        const updatedInvoice = await tx.invoice.update({
+          where: { id: input.id },
+          data: {
+            ...(input.invoiceDate && { invoiceDate: input.invoiceDate }),
+            ...(input.dateOfReceiptOfSupply && { dateOfReceiptOfSupply: input.dateOfReceiptOfSupply }),
+            ...(input.notes !== undefined && { notes: input.notes }),
+          },
+          include: {
+            unregisteredSupplier: true,
+            lineItems: true,
+            paymentVoucher: true,
+          },
+        })
+
+        if (returns) {
+          await recordAmendment(tx, {
+            userId,
+            returns,
+            documentType: 'SELF_INVOICE',
+            documentId: existingInvoice.id,
+            documentNumber: existingInvoice.invoiceNumber,
+            dates,
+            reason: input.amendmentReason!,
+            original: toInvoiceSnapshot(existingInvoice),
+            amended: toInvoiceSnapshot(updatedInvoice),
+          })
+        }
 
-      return updatedInvoice
+        return updatedInvoice
+      })
     }),
 
   /**
    * Delete a self-invoice (and its payment voucher)
    */
   delete: protectedProcedure
-    .input(z.object({ id: z.string() }))
-    .mutation(async ({ ctx, input }) => {
-      // Note: Payment voucher is automatically deleted due to cascade
-      const invoice = await ctx.prisma.invoice.deleteMany({
-        where: {
-          id: input.id,
-          userId: ctx.session.user.id,
-          invoiceType: InvoiceType.SELF_INVOICE,
-        },
+    .input(
+      z.object({
+        id: z.string(),
+        // Required when the self-invoice is dated in a filed period
+        amendmentReason: z.string().trim().min(3, 'Enter a reason for the amendment').max(500).optional(),
       })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id
 
-      if (invoice.count === 0) {
-        throw new TRPCError({
-          code: 'NOT_FOUND',
-          message: 'Self-invoice not found',
+      await ctx.prisma.$transaction(async (tx) => {
+        const existingInvoice = await tx.invoice.findFirst({
+          where: {
+            id: input.id,
+            userId,
+            invoiceType: InvoiceType.SELF_INVOICE,
+          },
+          include: { lineItems: true },
         })
-      }
+
+        if (!existingInvoice) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: 'Self-invoice not found',
+          })
+        }
+
+        const returns = await checkFiledPeriod(tx, {
+          userId,
+          document: `Self-invoice ${existingInvoice.invoiceNumber}`,
+          dates: [existingInvoice.invoiceDate],
+          amendmentReason: input.amendmentReason,
+        })
+
+        // Note: Payment voucher is automatically deleted due to cascade
+        await tx.invoice.delete({
+          where: { id: existingInvoice.id },
+        })
+
+        if (returns) {
+          await recordAmendment(tx, {
+            userId,
+            returns,
+            documentType: 'SELF_INVOICE',
+            documentId: existingInvoice.id,
+            documentNumber: existingInvoice.invoiceNumber,
+            dates: [existingInvoice.invoiceDate],
+            reason: input.amendmentReason!,
+            original: toInvoiceSnapshot(existingInvoice),
+            amended: null,
+          })
+        }
+      })
 
       return { success: true }
     }),
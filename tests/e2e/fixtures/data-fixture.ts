@@ -9,6 +9,7 @@ import type {
   DocumentUpload,
   GSTFilingPeriod,
   GSTR2BUpload,
+  Prisma,
 } from '@prisma/client'
 
 interface DataFixtures {
@@ -181,7 +182,10 @@ async function createTestPaymentVoucher(userId: string, selfInvoiceId: string, o
   })
 }
 
-async function createTestDocumentUpload(userId: string, overrides: Partial<DocumentUpload> = {}): Promise<DocumentUpload> {
+async function createTestDocumentUpload(
+  userId: string,
+  overrides: Partial<Prisma.DocumentUploadUncheckedCreateInput> = {}
+): Promise<DocumentUpload> {
   return prisma.documentUpload.create({
     data: {
       userId,
@@ -203,7 +207,10 @@ async function createTestDocumentUpload(userId: string, overrides: Partial<Docum
   })
 }
 
-async function createTestFilingPeriod(userId: string, overrides: Partial<GSTFilingPeriod> = {}): Promise<GSTFilingPeriod> {
+async function createTestFilingPeriod(
+  userId: string,
+  overrides: Partial<Prisma.GSTFilingPeriodUncheckedCreateInput> = {}
+): Promise<GSTFilingPeriod> {
   const now = new Date()
   const period = `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`
   const fiscalYear = now.getMonth() >= 3
@@ -225,7 +232,10 @@ async function createTestFilingPeriod(userId: string, overrides: Partial<GSTFili
   })
 }
 
-async function createTestGSTR2BUpload(userId: string, overrides: Partial<GSTR2BUpload> = {}): Promise<GSTR2BUpload> {
+async function createTestGSTR2BUpload(
+  userId: string,
+  overrides: Partial<Prisma.GSTR2BUploadUncheckedCreateInput> = {}
+): Promise<GSTR2BUpload> {
   const now = new Date()
   const returnPeriod = `${(now.getMonth() + 1).toString().padStart(2, '0')}${now.getFullYear()}`
 
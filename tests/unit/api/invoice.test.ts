@@ -11,6 +11,7 @@ vi.mock('@/lib/prisma', () => ({
     invoice: {
       findMany: vi.fn(),
       findUnique: vi.fn(),
+      findFirst: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
       delete: vi.fn(),
@@ -20,6 +21,18 @@ vi.mock('@/lib/prisma', () => ({
       createMany: vi.fn(),
       deleteMany: vi.fn(),
     },
+    numberSeries: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
+    invoiceRevision: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    gSTFilingPeriod: {
+      findMany: vi.fn(() => Promise.resolve([])),
+    },
     $transaction: vi.fn(),
   },
   prisma: {
@@ -48,6 +61,7 @@ vi.mock('@/lib/queue/bullmq.service', () => ({
 // Now import the modules
 import { db } from '@/lib/prisma'
 import { invoiceRouter } from '@/server/api/routers/invoice'
+import { generateInvoiceNumber, getCurrentFiscalYear } from '@/lib/invoice-utils'
 
 // Set up transaction mock implementation with all required models
 ;(db.$transaction as any).mockImplementation(async (callback: any) => {
@@ -86,6 +100,8 @@ describe('Invoice Router', () => {
       return callback({
         invoice: db.invoice,
         invoiceItem: db.invoiceItem,
+        numberSeries: db.numberSeries,
+        gSTFilingPeriod: db.gSTFilingPeriod,
         lUT: {
           findUnique: vi.fn(),
         },
@@ -232,6 +248,9 @@ describe('Invoice Router', () => {
           create: vi.fn().mockResolvedValue(mockInvoice),
           update: vi.fn().mockResolvedValue(mockInvoice), // For PDF status update
         },
+        numberSeries: {
+          findMany: vi.fn().mockResolvedValue([]),
+        },
         invoiceItem: {  // Changed from lineItem to invoiceItem
           createMany: vi.fn().mockResolvedValue({ count: 2 }),
         },
@@ -283,6 +302,94 @@ describe('Invoice Router', () => {
       const caller = createCaller()
       await expect(caller.create(input)).rejects.toThrow()
     })
+
+    it('should discount lines before rolling up the totals', async () => {
+      const mockTx = {
+        invoice: {
+          findMany: vi.fn().mockResolvedValue([]),
+          create: vi.fn().mockResolvedValue({ id: 'inv-1' }),
+          update: vi.fn().mockResolvedValue({ id: 'inv-1' }),
+        },
+        numberSeries: {
+          findMany: vi.fn().mockResolvedValue([]),
+        },
+        invoiceItem: {
+          createMany: vi.fn().mockResolvedValue({ count: 2 }),
+        },
+        lUT: {
+          findUnique: vi.fn().mockResolvedValue({
+            id: 'lut-1',
+            lutNumber: 'AD1234567890123',
+            validFrom: new Date('2024-04-01'),
+            validTill: new Date('2025-03-31'),
+            isActive: true,
+          }),
+        },
+      }
+
+      vi.mocked(db.$transaction).mockImplementation(async (callback) => {
+        return callback(mockTx as any)
+      })
+
+      const caller = createCaller()
+      await caller.create({
+        clientId: 'client-1',
+        lutId: 'lut-1',
+        issueDate: new Date('2024-04-15'),
+        dueDate: new Date('2024-05-15'),
+        currency: 'USD',
+        exchangeRate: 83.5,
+        exchangeRateSource: 'RBI',
+        lineItems: [
+          { description: 'Web Development Services', sacCode: '99831190', quantity: 10, rate: 100, discountType: 'PERCENT', discountValue: 10 },
+          { description: 'UI/UX Design', sacCode: '99831140', quantity: 5, rate: 80, discountType: 'AMOUNT', discountValue: 50 },
+        ],
+      })
+
+      expect(mockTx.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ subtotal: 1250, totalAmount: 1250 }),
+      })
+      const { data: items } = mockTx.invoiceItem.createMany.mock.calls[0][0]
+      expect(items[0]).toMatchObject({ amount: 1000, discountType: 'PERCENT', discountValue: 10, discountAmount: 100, gstRate: 0 })
+      expect(items[1]).toMatchObject({ amount: 400, discountType: 'AMOUNT', discountValue: 50, discountAmount: 50, gstRate: 0 })
+    })
+
+    it('should reject a discount larger than the line amount', async () => {
+      const caller = createCaller()
+
+      await expect(caller.create({
+        clientId: 'client-1',
+        lutId: 'lut-1',
+        issueDate: new Date('2024-04-15'),
+        dueDate: new Date('2024-05-15'),
+        currency: 'USD',
+        exchangeRate: 83.5,
+        exchangeRateSource: 'RBI',
+        lineItems: [
+          { description: 'Web Development Services', sacCode: '99831190', quantity: 1, rate: 100, discountType: 'AMOUNT', discountValue: 150 },
+        ],
+      })).rejects.toThrow('Discount cannot exceed the line amount')
+    })
+
+    it('should require domestic invoices in INR at a rate of 1', async () => {
+      const caller = createCaller()
+      const input = {
+        invoiceType: 'DOMESTIC' as const,
+        clientId: 'client-1',
+        issueDate: new Date('2024-04-15'),
+        dueDate: new Date('2024-05-15'),
+        exchangeRateSource: 'INR',
+        lineItems: [{ description: 'Consulting', sacCode: '99831190', quantity: 1, rate: 100 }],
+      }
+
+      await expect(caller.create({ ...input, currency: 'USD', exchangeRate: 83.5 })).rejects.toThrow(
+        'Domestic invoices must be in INR'
+      )
+      await expect(caller.create({ ...input, currency: 'INR', exchangeRate: 83.5 })).rejects.toThrow(
+        'Domestic invoices must have an exchange rate of 1'
+      )
+      expect(db.$transaction).not.toHaveBeenCalled()
+    })
   })
 
   describe('update', () => {
@@ -311,19 +418,42 @@ describe('Invoice Router', () => {
       const mockTx = {
         invoice: {
           update: vi.fn().mockResolvedValue(mockUpdatedInvoice),
+          findFirst: vi.fn().mockResolvedValue({
+            id: 'inv-1',
+            invoiceNumber: 'FY24-25/001',
+            invoiceDate: new Date('2024-06-01'),
+            status: 'SENT',
+            lineItems: [],
+            client: { name: 'Acme Corp' },
+          }),
           findUnique: vi.fn().mockResolvedValue({
             id: 'inv-1',
+            invoiceNumber: 'FY24-25/001',
+            invoiceDate: new Date('2024-06-01'),
+            dueDate: new Date('2024-07-01'),
+            updatedAt: new Date('2024-06-01'),
             exchangeRate: 83.5,
             amountPaid: 0,
+            notes: 'Original notes',
+            pdfUrl: null,
+            lineItems: [],
           }),
         },
         invoiceItem: {  // Changed from lineItem
           deleteMany: vi.fn(),
           createMany: vi.fn(),
         },
+        invoiceRevision: {
+          findFirst: vi.fn().mockResolvedValue(null),
+          create: vi.fn(),
+          update: vi.fn(),
+        },
         lUT: {
           findUnique: vi.fn().mockResolvedValue(null),
         },
+        gSTFilingPeriod: {
+          findMany: vi.fn().mockResolvedValue([]),
+        },
       }
 
       vi.mocked(db.$transaction).mockImplementation(async (callback) => {
@@ -338,9 +468,44 @@ describe('Invoice Router', () => {
         where: { invoiceId: 'inv-1' },
       })
       expect(mockTx.invoiceItem.createMany).toHaveBeenCalled()  // Changed from lineItem
+      // The version before the edit is kept as the history baseline
+      expect(mockTx.invoiceRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ invoiceId: 'inv-1', version: 1 }),
+      })
       // Router returns { invoice, lutWarning }
       expect(result.invoice).toEqual(mockUpdatedInvoice)
     })
+
+    it('should refuse changes to a filed invoice without an amendment reason', async () => {
+      const mockTx = {
+        invoice: {
+          update: vi.fn(),
+          findFirst: vi.fn().mockResolvedValue({
+            id: 'inv-1',
+            invoiceNumber: 'INV-001',
+            invoiceDate: new Date('2025-04-05'),
+            status: 'SENT',
+            lineItems: [],
+            client: { name: 'Acme Corp' },
+          }),
+        },
+        gSTFilingPeriod: {
+          findMany: vi.fn().mockResolvedValue([
+            { id: 'period-1', filingType: 'GSTR1', period: '2025-04', frequency: 'MONTHLY', status: 'FILED' },
+          ]),
+        },
+      }
+
+      vi.mocked(db.$transaction).mockImplementation(async (callback) => {
+        return callback(mockTx as any)
+      })
+
+      const caller = createCaller()
+      await expect(caller.update({ id: 'inv-1', notes: 'Updated notes' })).rejects.toThrow(
+        'Invoice INV-001 is dated in a filed period'
+      )
+      expect(mockTx.invoice.update).not.toHaveBeenCalled()
+    })
   })
 
   describe('delete', () => {
@@ -350,6 +515,7 @@ describe('Invoice Router', () => {
         userId: 'test-user-id',
       }
 
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({ status: 'DRAFT' } as any)
       vi.mocked(db.invoice.delete).mockResolvedValue(mockInvoice as any)
 
       const caller = createCaller()
@@ -360,6 +526,79 @@ describe('Invoice Router', () => {
       })
       expect(result).toEqual(mockInvoice)
     })
+
+    it('should refuse to delete issued invoices', async () => {
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({ status: 'SENT' } as any)
+
+      const caller = createCaller()
+      await expect(caller.delete({ id: 'inv-1' })).rejects.toThrow('Only draft invoices can be deleted')
+      expect(db.invoice.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('cancel', () => {
+    it('should keep the invoice, record the reason and revoke the public link', async () => {
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({
+        id: 'inv-1',
+        status: 'SENT',
+        invoiceDate: new Date('2025-04-05'),
+        _count: { payments: 0, creditDebitNotes: 0 },
+      } as any)
+      vi.mocked(db.invoice.update).mockResolvedValue({ id: 'inv-1', status: 'CANCELLED' } as any)
+
+      const caller = createCaller()
+      const result = await caller.cancel({ id: 'inv-1', reason: 'Raised on the wrong client' })
+
+      expect(db.invoice.delete).not.toHaveBeenCalled()
+      expect(db.invoice.update).toHaveBeenCalledWith({
+        where: { id: 'inv-1' },
+        data: expect.objectContaining({
+          status: 'CANCELLED',
+          cancellationReason: 'Raised on the wrong client',
+          cancelledAt: expect.any(Date),
+          publicAccessToken: null,
+          tokenExpiresAt: null,
+        }),
+      })
+      expect(result.status).toBe('CANCELLED')
+    })
+
+    it('should refuse invoices dated in a filed period', async () => {
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({
+        id: 'inv-1',
+        invoiceNumber: 'INV-001',
+        status: 'SENT',
+        invoiceDate: new Date('2025-04-05'),
+        _count: { payments: 0, creditDebitNotes: 0 },
+      } as any)
+      vi.mocked(db.gSTFilingPeriod.findMany).mockResolvedValueOnce([
+        { id: 'period-1', filingType: 'GSTR1', period: '2025-04', frequency: 'MONTHLY', status: 'FILED' },
+      ] as any)
+
+      const caller = createCaller()
+      await expect(caller.cancel({ id: 'inv-1', reason: 'Raised on the wrong client' })).rejects.toThrow(
+        'Issue a credit note instead'
+      )
+      expect(db.invoice.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse invoices with recorded payments', async () => {
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({
+        id: 'inv-1',
+        status: 'SENT',
+        _count: { payments: 1, creditDebitNotes: 0 },
+      } as any)
+
+      const caller = createCaller()
+      await expect(caller.cancel({ id: 'inv-1', reason: 'Duplicate invoice' })).rejects.toThrow(TRPCError)
+      expect(db.invoice.update).not.toHaveBeenCalled()
+    })
+
+    it('should require a reason', async () => {
+      const caller = createCaller()
+      await expect(caller.cancel({ id: 'inv-1', reason: ' ' })).rejects.toThrow()
+      expect(db.invoice.findFirst).not.toHaveBeenCalled()
+    })
   })
 
   describe('updateStatus', () => {
@@ -370,6 +609,7 @@ describe('Invoice Router', () => {
         status: 'SENT',
       }
 
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({ status: 'DRAFT' } as any)
       vi.mocked(db.invoice.update).mockResolvedValue(mockInvoice as any)
 
       const caller = createCaller()
@@ -381,18 +621,32 @@ describe('Invoice Router', () => {
       })
       expect(result).toEqual(mockInvoice)
     })
+
+    it('should refuse to move a filed invoice back to draft', async () => {
+      vi.mocked(db.invoice.findFirst).mockResolvedValue({
+        status: 'SENT',
+        invoiceNumber: 'INV-001',
+        invoiceDate: new Date('2025-04-05'),
+      } as any)
+      vi.mocked(db.gSTFilingPeriod.findMany).mockResolvedValueOnce([
+        { id: 'period-1', filingType: 'GSTR1', period: '2025-04', frequency: 'MONTHLY', status: 'FILED' },
+      ] as any)
+
+      const caller = createCaller()
+      await expect(caller.updateStatus({ id: 'inv-1', status: 'DRAFT' })).rejects.toThrow(
+        'Issue a credit note instead of moving it back to draft'
+      )
+      expect(db.invoice.update).not.toHaveBeenCalled()
+    })
   })
 
   describe('getNextInvoiceNumber', () => {
     it('should get next invoice number for fiscal year', async () => {
       // Router uses findMany to get existing invoice numbers, not count
-      vi.mocked(db.invoice.findMany).mockResolvedValue([
-        { invoiceNumber: 'FY24-25/001' },
-        { invoiceNumber: 'FY24-25/002' },
-        { invoiceNumber: 'FY24-25/003' },
-        { invoiceNumber: 'FY24-25/004' },
-        { invoiceNumber: 'FY24-25/005' },
-      ] as any)
+      const currentFY = getCurrentFiscalYear()
+      vi.mocked(db.invoice.findMany).mockResolvedValue(
+        [1, 2, 3, 4, 5].map((seq) => ({ invoiceNumber: generateInvoiceNumber(currentFY, seq) })) as any
+      )
 
       const caller = createCaller()
       const result = await caller.getNextInvoiceNumber()
@@ -410,5 +664,25 @@ describe('Invoice Router', () => {
 
       expect(result).toMatch(/^FY\d{2}-\d{2}\/001$/)
     })
+
+    it('should use the most specific active numbering series', async () => {
+      vi.mocked(db.numberSeries.findMany).mockResolvedValueOnce([
+        { id: 'series-general', prefix: 'INV/{FY}/', suffix: '', padding: 3, resetRule: 'FISCAL_YEAR', clientId: null, invoiceType: null, isActive: true },
+        { id: 'series-acme', prefix: 'ACME-', suffix: '', padding: 4, resetRule: 'NEVER', clientId: 'client-1', invoiceType: null, isActive: true },
+      ] as any)
+      vi.mocked(db.invoice.findMany).mockResolvedValue([
+        { invoiceNumber: 'ACME-0041' },
+        { invoiceNumber: 'ACME-0042' },
+      ] as any)
+
+      const caller = createCaller()
+      const result = await caller.getNextInvoiceNumber({ clientId: 'client-1' })
+
+      expect(db.invoice.findMany).toHaveBeenCalledWith({
+        where: { userId: 'test-user-id', invoiceNumber: { startsWith: 'ACME-' } },
+        select: { invoiceNumber: true },
+      })
+      expect(result).toBe('ACME-0043')
+    })
   })
 })
\ No newline at end of file
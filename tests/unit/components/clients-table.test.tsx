@@ -16,7 +16,11 @@ describe('ClientsTable', () => {
       currency: 'USD',
       phone: '+1-555-0123',
       taxId: 'US123456789',
+      gstin: null,
+      stateCode: null,
       isActive: true,
+      autoApplyCredit: true,
+      remindersOptOut: false,
       createdAt: new Date('2024-01-01'),
       updatedAt: new Date('2024-01-01'),
     },
@@ -31,7 +35,11 @@ describe('ClientsTable', () => {
       currency: 'USD',
       phone: '+1-555-0456',
       taxId: null,
+      gstin: null,
+      stateCode: null,
       isActive: true,
+      autoApplyCredit: true,
+      remindersOptOut: false,
       createdAt: new Date('2024-01-02'),
       updatedAt: new Date('2024-01-02'),
     },
@@ -17,7 +17,11 @@ const mockClients: Client[] = [
     currency: 'USD',
     phone: '+1234567890',
     taxId: '123456789',
+    gstin: null,
+    stateCode: null,
     isActive: true,
+    autoApplyCredit: true,
+    remindersOptOut: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   },
@@ -32,7 +36,11 @@ const mockClients: Client[] = [
     currency: 'CAD',
     phone: '+9876543210',
     taxId: '987654321',
+    gstin: null,
+    stateCode: null,
     isActive: true,
+    autoApplyCredit: true,
+    remindersOptOut: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   },
@@ -138,6 +138,54 @@ describe('GST Validation Functions', () => {
       expect(result.warnings).toContain('IGST rate should be 0% for exports under LUT')
     })
 
+    it('should validate export with payment of IGST without LUT', () => {
+      const invoice = {
+        placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
+        serviceCode: '99831130',
+        igstRate: 18,
+        lutId: null,
+        exportWithPayment: true,
+        currency: 'USD',
+        exchangeRate: 83.5,
+        exchangeSource: 'RBI'
+      }
+      const result = validateGSTInvoice(invoice)
+      expect(result.isValid).toBe(true)
+      expect(result.warnings).toHaveLength(0)
+    })
+
+    it('should reject export with payment of IGST that uses a LUT', () => {
+      const invoice = {
+        placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
+        serviceCode: '99831130',
+        igstRate: 18,
+        lutId: 'lut123',
+        exportWithPayment: true,
+        currency: 'USD',
+        exchangeRate: 83.5,
+        exchangeSource: 'RBI'
+      }
+      const result = validateGSTInvoice(invoice)
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('LUT cannot be used for exports with payment of IGST')
+    })
+
+    it('should reject export with payment of IGST at 0%', () => {
+      const invoice = {
+        placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
+        serviceCode: '99831130',
+        igstRate: 0,
+        lutId: null,
+        exportWithPayment: true,
+        currency: 'USD',
+        exchangeRate: 83.5,
+        exchangeSource: 'RBI'
+      }
+      const result = validateGSTInvoice(invoice)
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('IGST must be charged on exports with payment of tax')
+    })
+
     it('should reject export invoice with invalid service code', () => {
       const invoice = {
         placeOfSupply: GST_CONSTANTS.PLACE_OF_SUPPLY_EXPORT,
@@ -19,7 +19,11 @@ describe.skip('InvoiceForm SAC/HSN Dropdown', () => {
       country: 'USA',
       currency: 'USD',
       taxId: null,
+      gstin: null,
+      stateCode: null,
       isActive: true,
+      autoApplyCredit: true,
+      remindersOptOut: false,
       createdAt: new Date(),
       updatedAt: new Date(),
     },
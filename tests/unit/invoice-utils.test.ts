@@ -4,7 +4,9 @@ import {
   getCurrentFiscalYear,
   getFiscalYearFromDate,
   calculateDueDate,
-  formatCurrency
+  formatCurrency,
+  calculateLineDiscount,
+  calculateSubtotal
 } from '@/lib/invoice-utils'
 
 describe('Invoice Utils', () => {
@@ -104,4 +106,30 @@ describe('Invoice Utils', () => {
       expect(formatCurrency(1234567.89, 'GBP')).toBe('£1,234,567.89')
     })
   })
-})
\ No newline at end of file
+  describe('calculateLineDiscount', () => {
+    it('should apply a percentage discount', () => {
+      expect(calculateLineDiscount(1000, 'PERCENT', 10)).toBe(100)
+      expect(calculateLineDiscount(333.33, 'PERCENT', 15)).toBe(50)
+    })
+
+    it('should apply an absolute discount capped at the line amount', () => {
+      expect(calculateLineDiscount(1000, 'AMOUNT', 250)).toBe(250)
+      expect(calculateLineDiscount(1000, 'AMOUNT', 1500)).toBe(1000)
+    })
+
+    it('should return 0 without a discount', () => {
+      expect(calculateLineDiscount(1000)).toBe(0)
+      expect(calculateLineDiscount(1000, 'PERCENT', 0)).toBe(0)
+    })
+  })
+
+  describe('calculateSubtotal', () => {
+    it('should sum line amounts net of line discounts', () => {
+      expect(calculateSubtotal([
+        { quantity: 10, rate: 100 },
+        { quantity: 1, rate: 500, discountType: 'PERCENT', discountValue: 20 },
+        { quantity: 2, rate: 50, discountType: 'AMOUNT', discountValue: 25 },
+      ])).toBe(1475)
+    })
+  })
+})
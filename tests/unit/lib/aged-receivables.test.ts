@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  agedReceivablesToCSV,
+  buildAgedReceivables,
+  getAgeingBucket,
+  type ReceivableInvoice,
+} from '@/lib/aged-receivables'
+
+describe('Aged receivables', () => {
+  const asOf = new Date(2025, 5, 30)
+
+  const createInvoice = (overrides: Partial<ReceivableInvoice> = {}): ReceivableInvoice => ({
+    invoiceId: 'invoice-1',
+    invoiceNumber: 'FY25-26/001',
+    invoiceDate: new Date(2025, 4, 1),
+    dueDate: new Date(2025, 4, 31),
+    clientId: 'client-1',
+    clientName: 'Acme Corp',
+    currency: 'USD',
+    balanceDue: 1000,
+    bookingRate: 83,
+    ...overrides,
+  })
+
+  describe('getAgeingBucket', () => {
+    it('should place days outstanding in buckets', () => {
+      expect(getAgeingBucket(-1)).toBe('NOT_DUE')
+      expect(getAgeingBucket(0)).toBe('DAYS_0_30')
+      expect(getAgeingBucket(30)).toBe('DAYS_0_30')
+      expect(getAgeingBucket(31)).toBe('DAYS_31_60')
+      expect(getAgeingBucket(90)).toBe('DAYS_61_90')
+      expect(getAgeingBucket(91)).toBe('DAYS_90_PLUS')
+    })
+  })
+
+  describe('buildAgedReceivables', () => {
+    it('should age from the due date or the invoice date', () => {
+      const invoices = [createInvoice()]
+
+      const byDueDate = buildAgedReceivables(invoices, 'DUE_DATE', new Map([['USD', 85]]), asOf)
+      expect(byDueDate.groups[0].invoices[0]).toMatchObject({ daysOutstanding: 30, bucket: 'DAYS_0_30' })
+
+      const byInvoiceDate = buildAgedReceivables(invoices, 'INVOICE_DATE', new Map([['USD', 85]]), asOf)
+      expect(byInvoiceDate.groups[0].invoices[0]).toMatchObject({ daysOutstanding: 60, bucket: 'DAYS_31_60' })
+    })
+
+    it('should put invoices not yet due in their own bucket', () => {
+      const report = buildAgedReceivables(
+        [createInvoice({ dueDate: new Date(2025, 6, 15) })],
+        'DUE_DATE',
+        new Map([['USD', 85]]),
+        asOf
+      )
+
+      expect(report.groups[0].invoices[0]).toMatchObject({ daysOutstanding: -15, bucket: 'NOT_DUE' })
+      expect(report.totals.bookedInr.NOT_DUE).toBe(83000)
+    })
+
+    it('should group by client and currency with INR at booking and current rates', () => {
+      const report = buildAgedReceivables(
+        [
+          createInvoice(),
+          createInvoice({ invoiceId: 'invoice-2', invoiceNumber: 'FY25-26/002', dueDate: new Date(2025, 1, 28), balanceDue: 500, bookingRate: 82 }),
+          createInvoice({ invoiceId: 'invoice-3', invoiceNumber: 'FY25-26/003', currency: 'EUR', balanceDue: 200, bookingRate: 90 }),
+          createInvoice({ invoiceId: 'invoice-4', clientId: 'client-2', clientName: 'Beta Ltd', currency: 'INR', balanceDue: 10000, bookingRate: 1 }),
+        ],
+        'DUE_DATE',
+        new Map([['USD', 85], ['EUR', 95]]),
+        asOf
+      )
+
+      expect(report.groups.map((group) => `${group.clientName} ${group.currency}`)).toEqual([
+        'Acme Corp EUR',
+        'Acme Corp USD',
+        'Beta Ltd INR',
+      ])
+
+      const usd = report.groups[1]
+      expect(usd.buckets).toEqual({ NOT_DUE: 0, DAYS_0_30: 1000, DAYS_31_60: 0, DAYS_61_90: 0, DAYS_90_PLUS: 500 })
+      expect(usd).toMatchObject({ balanceDue: 1500, bookedInr: 124000, currentInr: 127500, currentRate: 85 })
+
+      expect(report.totals.invoiceCount).toBe(4)
+      expect(report.totals.bookedInr.total).toBe(83000 + 41000 + 18000 + 10000)
+      expect(report.totals.currentInr.total).toBe(85000 + 42500 + 19000 + 10000)
+      expect(report.totals.currentInr.DAYS_90_PLUS).toBe(42500)
+      expect(report.missingRates).toEqual([])
+    })
+
+    it('should fall back to the invoice rate in the totals when no current rate is available', () => {
+      const report = buildAgedReceivables([createInvoice({ currency: 'GBP' })], 'DUE_DATE', new Map(), asOf)
+
+      expect(report.groups[0].currentInr).toBeNull()
+      expect(report.groups[0].invoices[0].currentInr).toBeNull()
+      expect(report.totals.currentInr.total).toBe(83000)
+      expect(report.missingRates).toEqual(['GBP'])
+    })
+
+    it('should leave out settled invoices', () => {
+      const report = buildAgedReceivables([createInvoice({ balanceDue: 0 })], 'DUE_DATE', new Map(), asOf)
+
+      expect(report.groups).toEqual([])
+      expect(report.totals.invoiceCount).toBe(0)
+    })
+  })
+
+  describe('agedReceivablesToCSV', () => {
+    it('should list invoices with subtotals and INR totals', () => {
+      const report = buildAgedReceivables(
+        [createInvoice({ clientName: 'Acme, Inc.' })],
+        'DUE_DATE',
+        new Map([['USD', 85]]),
+        asOf
+      )
+
+      const lines = agedReceivablesToCSV(report).trim().split('\n')
+
+      expect(lines[0]).toBe(
+        'Client,Currency,Invoice Number,Invoice Date,Due Date,Days Outstanding,Not due,0-30 days,31-60 days,61-90 days,90+ days,Balance Due,INR at Invoice Rate,INR at Current Rate'
+      )
+      expect(lines[1]).toBe('"Acme, Inc.",USD,FY25-26/001,2025-05-01,2025-05-31,30,,1000.00,,,,1000.00,83000.00,85000.00')
+      expect(lines[2]).toBe('"Acme, Inc.",USD,Subtotal,,,,0.00,1000.00,0.00,0.00,0.00,1000.00,83000.00,85000.00')
+      expect(lines[3]).toBe('Total (INR at invoice rate),INR,,,,,0.00,83000.00,0.00,0.00,0.00,83000.00,83000.00,')
+      expect(lines[4]).toBe('Total (INR at current rate),INR,,,,,0.00,85000.00,0.00,0.00,0.00,85000.00,,85000.00')
+    })
+  })
+})
@@ -0,0 +1,284 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseBankStatement,
+  parseBankStatementCSV,
+  parseOFX,
+  parseMT940,
+  parseCAMT053,
+  proposePaymentMatches,
+  scoreCreditAgainstInvoice,
+  suggestPayment,
+  type OpenInvoiceForMatching,
+} from '@/lib/bank-statement'
+
+const invoice: OpenInvoiceForMatching = {
+  id: 'inv-1',
+  invoiceNumber: 'FY24-25/007',
+  clientName: 'Acme Corporation',
+  currency: 'USD',
+  invoiceDate: new Date(2024, 3, 1),
+  dueDate: new Date(2024, 4, 1),
+  balanceDue: 1000,
+  exchangeRate: 83,
+}
+
+describe('Bank Statement Import', () => {
+  describe('parseBankStatementCSV', () => {
+    it('should find the transaction table below account details', () => {
+      const csv = [
+        'Account Number,50100123456789',
+        'Statement Period,01/04/2024 - 30/04/2024',
+        '',
+        'Date,Narration,Chq./Ref.No.,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+        '05/04/2024,NEFT-ACME CORP-FY24-25/007,UTR123,,"82,500.00","1,00,000.00"',
+        '06/04/2024,ATM WITHDRAWAL,,5000.00,,95000.00',
+        'Closing Balance,,,,,95000.00',
+      ].join('\n')
+
+      const result = parseBankStatementCSV(csv)
+
+      expect(result.success).toBe(true)
+      expect(result.format).toBe('CSV')
+      expect(result.transactions).toHaveLength(2)
+      expect(result.transactions![0]).toMatchObject({
+        date: new Date(2024, 3, 5),
+        amount: 82500,
+        isCredit: true,
+        currency: 'INR',
+        description: 'NEFT-ACME CORP-FY24-25/007',
+        reference: 'UTR123',
+      })
+      expect(result.transactions![1]).toMatchObject({ amount: 5000, isCredit: false })
+    })
+
+    it('should read a signed amount column', () => {
+      const result = parseBankStatementCSV('Date,Description,Amount,Currency\n2024-04-05,Wire in,1000.00,USD\n2024-04-06,Fee,-25.00,USD')
+
+      expect(result.transactions).toEqual([
+        expect.objectContaining({ amount: 1000, isCredit: true, currency: 'USD' }),
+        expect.objectContaining({ amount: 25, isCredit: false }),
+      ])
+    })
+
+    it('should fail when there is no transaction table', () => {
+      const result = parseBankStatementCSV('Name,Email\nAcme,billing@acme.com')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toMatch(/transaction table/i)
+    })
+  })
+
+  describe('parseOFX', () => {
+    it('should parse SGML statements without closing tags', () => {
+      const ofx = [
+        'OFXHEADER:100',
+        '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<CURDEF>USD',
+        '<BANKACCTFROM><ACCTID>987654</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240405120000<TRNAMT>1000.00<FITID>T1<NAME>ACME CORP<MEMO>INV FY24-25/007',
+        '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240406<TRNAMT>-15.00<FITID>T2<NAME>SERVICE FEE',
+        '</BANKTRANLIST>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+      ].join('\n')
+
+      const result = parseOFX(ofx)
+
+      expect(result.success).toBe(true)
+      expect(result.accountNumber).toBe('987654')
+      expect(result.currency).toBe('USD')
+      expect(result.transactions).toEqual([
+        expect.objectContaining({
+          date: new Date(2024, 3, 5),
+          amount: 1000,
+          isCredit: true,
+          currency: 'USD',
+          description: 'ACME CORP INV FY24-25/007',
+          counterparty: 'ACME CORP',
+        }),
+        expect.objectContaining({ amount: 15, isCredit: false }),
+      ])
+    })
+  })
+
+  describe('parseMT940', () => {
+    it('should parse statement lines with their narrative', () => {
+      const mt940 = [
+        ':20:STMT240430',
+        ':25:DE89370400440532013000',
+        ':28C:1/1',
+        ':60F:C240401EUR1000,00',
+        ':61:2404050405CR950,00NTRFINV-007//BANKREF1',
+        ':86:ACME GMBH PAYMENT FY24-25/007',
+        'REMAINING TEXT',
+        ':61:240406DR20,00NCHGNONREF',
+        ':86:BANK CHARGES',
+        ':62F:C240430EUR1930,00',
+        '-',
+      ].join('\n')
+
+      const result = parseMT940(mt940)
+
+      expect(result.success).toBe(true)
+      expect(result.accountNumber).toBe('DE89370400440532013000')
+      expect(result.currency).toBe('EUR')
+      expect(result.transactions).toEqual([
+        expect.objectContaining({
+          date: new Date(2024, 3, 5),
+          amount: 950,
+          isCredit: true,
+          currency: 'EUR',
+          description: 'ACME GMBH PAYMENT FY24-25/007 REMAINING TEXT',
+          reference: 'INV-007',
+        }),
+        expect.objectContaining({ amount: 20, isCredit: false, reference: undefined }),
+      ])
+    })
+  })
+
+  describe('parseCAMT053', () => {
+    it('should parse namespaced entries', () => {
+      const camt = `<?xml version="1.0"?>
+<ns:Document xmlns:ns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <ns:BkToCstmrStmt><ns:Stmt>
+    <ns:Acct><ns:Id><ns:IBAN>GB29NWBK60161331926819</ns:IBAN></ns:Id><ns:Ccy>GBP</ns:Ccy></ns:Acct>
+    <ns:Ntry>
+      <ns:Amt Ccy="GBP">800.00</ns:Amt>
+      <ns:CdtDbtInd>CRDT</ns:CdtDbtInd>
+      <ns:BookgDt><ns:Dt>2024-04-05</ns:Dt></ns:BookgDt>
+      <ns:NtryDtls><ns:TxDtls>
+        <ns:Refs><ns:EndToEndId>E2E-1</ns:EndToEndId></ns:Refs>
+        <ns:RltdPties><ns:Dbtr><ns:Nm>Acme &amp; Sons</ns:Nm></ns:Dbtr></ns:RltdPties>
+        <ns:RmtInf><ns:Ustrd>Invoice FY24-25/007</ns:Ustrd></ns:RmtInf>
+      </ns:TxDtls></ns:NtryDtls>
+    </ns:Ntry>
+  </ns:Stmt></ns:BkToCstmrStmt>
+</ns:Document>`
+
+      const result = parseCAMT053(camt)
+
+      expect(result.success).toBe(true)
+      expect(result.accountNumber).toBe('GB29NWBK60161331926819')
+      expect(result.transactions).toEqual([
+        {
+          date: new Date(2024, 3, 5),
+          amount: 800,
+          isCredit: true,
+          currency: 'GBP',
+          description: 'Acme & Sons Invoice FY24-25/007',
+          reference: 'E2E-1',
+          counterparty: 'Acme & Sons',
+        },
+      ])
+    })
+  })
+
+  describe('parseBankStatement', () => {
+    it('should pick the parser from the file contents', () => {
+      expect(parseBankStatement('statement.xml', '<Document><BkToCstmrStmt></BkToCstmrStmt></Document>').format).toBe(
+        'CAMT053'
+      )
+      expect(parseBankStatement('export.dat', ':20:X\n:61:240405C1,00NTRFNONREF').format).toBe('MT940')
+      expect(parseBankStatement('statement.pdf', '%PDF').success).toBe(false)
+    })
+  })
+
+  describe('scoreCreditAgainstInvoice', () => {
+    it('should score a same-currency credit with the invoice number highest', () => {
+      const proposal = scoreCreditAgainstInvoice(
+        { date: new Date(2024, 3, 20), amount: 1000, currency: 'USD', description: 'ACME CORPORATION FY24-25/007' },
+        invoice
+      )
+
+      expect(proposal).toEqual({
+        invoiceId: 'inv-1',
+        score: 100,
+        reasons: [
+          'Invoice number in narration',
+          'Amount equals balance due',
+          'Client name in narration',
+          'Received within the payment window',
+        ],
+      })
+    })
+
+    it('should allow for fees deducted from the amount', () => {
+      const proposal = scoreCreditAgainstInvoice(
+        { date: new Date(2024, 3, 20), amount: 970, currency: 'USD', description: 'WIRE IN' },
+        invoice
+      )
+
+      expect(proposal?.score).toBe(35)
+      expect(proposal?.reasons).toContain('Amount within fees of balance due')
+    })
+
+    it('should compare INR credits at the invoice rate', () => {
+      const proposal = scoreCreditAgainstInvoice(
+        { date: new Date(2024, 3, 20), amount: 84000, currency: 'INR', description: 'INWARD REMITTANCE ACME' },
+        invoice
+      )
+
+      expect(proposal?.score).toBe(40)
+    })
+
+    it('should rule out credits in another foreign currency', () => {
+      expect(
+        scoreCreditAgainstInvoice(
+          { date: new Date(2024, 3, 20), amount: 1000, currency: 'EUR', description: 'FY24-25/007' },
+          invoice
+        )
+      ).toBeNull()
+    })
+
+    it('should rule out unrelated amounts without a reference', () => {
+      expect(
+        scoreCreditAgainstInvoice(
+          { date: new Date(2024, 3, 20), amount: 400, currency: 'USD', description: 'ACME CORPORATION' },
+          invoice
+        )
+      ).toBeNull()
+    })
+  })
+
+  describe('proposePaymentMatches', () => {
+    it('should propose each invoice for its best credit only', () => {
+      const second = { ...invoice, id: 'inv-2', invoiceNumber: 'FY24-25/008', clientName: 'Globex' }
+      const proposals = proposePaymentMatches(
+        [
+          { date: new Date(2024, 3, 20), amount: 1000, currency: 'USD', description: 'WIRE IN' },
+          { date: new Date(2024, 3, 21), amount: 1000, currency: 'USD', description: 'ACME FY24-25/007' },
+          { date: new Date(2024, 3, 22), amount: 12, currency: 'USD', description: 'INTEREST' },
+        ],
+        [invoice, second]
+      )
+
+      expect(proposals.get(1)?.invoiceId).toBe('inv-1')
+      expect(proposals.get(0)?.invoiceId).toBe('inv-2')
+      expect(proposals.has(2)).toBe(false)
+    })
+  })
+
+  describe('suggestPayment', () => {
+    it('should use the foreign amount from the narration for INR credits', () => {
+      expect(
+        suggestPayment({ amount: 82500, currency: 'INR', description: 'IRM USD 1,000.00 ACME' }, invoice)
+      ).toEqual({ amount: 1000, creditedAmount: 82500, actualExchangeRate: 82.5 })
+    })
+
+    it('should assume the balance due was settled when the narration has no foreign amount', () => {
+      expect(suggestPayment({ amount: 83100, currency: 'INR', description: 'NEFT ACME' }, invoice)).toEqual({
+        amount: 1000,
+        creditedAmount: 83100,
+        actualExchangeRate: 83.1,
+      })
+    })
+
+    it('should leave INR values empty for credits to a foreign currency account', () => {
+      expect(suggestPayment({ amount: 990, currency: 'USD', description: 'WIRE' }, invoice)).toEqual({
+        amount: 990,
+        creditedAmount: null,
+        actualExchangeRate: null,
+      })
+    })
+  })
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCashFlowForecast,
+  getAverageDaysToPay,
+  getExpectedPaymentDate,
+  getUpcomingOccurrences,
+  type CashFlowItem,
+} from '@/lib/cash-flow-forecast'
+
+describe('Cash-flow forecast', () => {
+  const today = new Date(2025, 5, 2)
+
+  describe('getAverageDaysToPay', () => {
+    it('should average days from invoice date to final payment', () => {
+      expect(
+        getAverageDaysToPay([
+          { invoiceDate: new Date(2025, 0, 1), paidDate: new Date(2025, 0, 31) },
+          { invoiceDate: new Date(2025, 1, 1), paidDate: new Date(2025, 2, 18) },
+        ])
+      ).toBe(38)
+    })
+
+    it('should return null without history', () => {
+      expect(getAverageDaysToPay([])).toBeNull()
+    })
+  })
+
+  describe('getExpectedPaymentDate', () => {
+    const invoice = { invoiceDate: new Date(2025, 4, 20), dueDate: new Date(2025, 5, 19) }
+
+    it('should use the client days-to-pay', () => {
+      expect(getExpectedPaymentDate(invoice, 45, today)).toEqual(new Date(2025, 6, 4))
+    })
+
+    it('should fall back to the due date without history', () => {
+      expect(getExpectedPaymentDate(invoice, null, today)).toEqual(new Date(2025, 5, 19))
+    })
+
+    it('should expect late invoices today', () => {
+      expect(getExpectedPaymentDate(invoice, 5, today)).toEqual(new Date(2025, 5, 2))
+    })
+  })
+
+  describe('getUpcomingOccurrences', () => {
+    it('should list the invoice dates still to be generated', () => {
+      const schedule = { startDate: new Date(2025, 0, 31), frequency: 'MONTHLY' as const, occurrences: 4, endDate: null }
+
+      expect(getUpcomingOccurrences(schedule, new Date(2025, 7, 31))).toEqual([
+        new Date(2025, 4, 31),
+        new Date(2025, 5, 30),
+        new Date(2025, 6, 31),
+        new Date(2025, 7, 31),
+      ])
+    })
+
+    it('should stop at the end date', () => {
+      const schedule = {
+        startDate: new Date(2025, 5, 1),
+        frequency: 'WEEKLY' as const,
+        occurrences: 0,
+        endDate: new Date(2025, 5, 10),
+      }
+
+      expect(getUpcomingOccurrences(schedule, new Date(2025, 7, 31))).toEqual([
+        new Date(2025, 5, 1),
+        new Date(2025, 5, 8),
+      ])
+    })
+  })
+
+  describe('buildCashFlowForecast', () => {
+    const item = (overrides: Partial<CashFlowItem>): CashFlowItem => ({
+      date: today,
+      category: 'INVOICE',
+      direction: 'IN',
+      description: 'FY25-26/001',
+      currency: 'INR',
+      amount: 1000,
+      amountInr: 1000,
+      ...overrides,
+    })
+
+    it('should split 90 days into weeks with a running net', () => {
+      const forecast = buildCashFlowForecast(
+        [
+          item({ date: new Date(2025, 5, 3), amountInr: 50000 }),
+          item({ date: new Date(2025, 5, 9), category: 'RETAINER', amountInr: 20000 }),
+          item({ date: new Date(2025, 5, 20), category: 'GST', direction: 'OUT', amountInr: 30000 }),
+          item({ date: new Date(2025, 5, 20), category: 'RCM', direction: 'OUT', amountInr: 5000 }),
+        ],
+        today
+      )
+
+      expect(forecast.weeks).toHaveLength(13)
+      expect(forecast.weeks[12].weekEnd).toEqual(new Date(2025, 7, 30))
+      expect(forecast.weeks.slice(0, 3).map((week) => [week.inflows, week.outflows, week.cumulative])).toEqual([
+        [50000, 0, 50000],
+        [20000, 0, 70000],
+        [0, 35000, 35000],
+      ])
+      expect(forecast.totals).toEqual({
+        inflows: 70000,
+        outflows: 35000,
+        net: 35000,
+        byCategory: { INVOICE: 50000, RETAINER: 20000, GST: 30000, RCM: 5000, PAYMENT_VOUCHER: 0 },
+      })
+    })
+
+    it('should leave out items outside the forecast window', () => {
+      const forecast = buildCashFlowForecast(
+        [item({ date: new Date(2025, 5, 1) }), item({ date: new Date(2025, 7, 31) })],
+        today
+      )
+
+      expect(forecast.totals.inflows).toBe(0)
+    })
+  })
+})
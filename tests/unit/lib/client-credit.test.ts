@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  allocateClientCredit,
+  buildClientStatement,
+  getCreditBalance,
+  splitOverpayment,
+  statementToCSV,
+  type StatementEntry,
+} from '@/lib/client-credit'
+
+describe('Client Credit', () => {
+  describe('splitOverpayment', () => {
+    it('should keep the excess over the balance due as credit', () => {
+      expect(splitOverpayment(1050, 1000)).toEqual({ applied: 1000, excess: 50 })
+    })
+
+    it('should apply the whole payment when it does not exceed the balance', () => {
+      expect(splitOverpayment(400, 1000)).toEqual({ applied: 400, excess: 0 })
+    })
+  })
+
+  describe('getCreditBalance', () => {
+    it('should subtract what has been applied', () => {
+      expect(getCreditBalance(500, [{ amount: 200 }, { amount: 120.5 }])).toBe(179.5)
+      expect(getCreditBalance(500, [{ amount: 500 }])).toBe(0)
+    })
+
+    it('should report a credit applied beyond its amount as negative', () => {
+      expect(getCreditBalance(500, [{ amount: 300 }, { amount: 300 }])).toBe(-100)
+    })
+  })
+
+  describe('allocateClientCredit', () => {
+    const credits = [
+      { creditId: 'credit-1', balance: 300 },
+      { creditId: 'credit-2', balance: 0 },
+      { creditId: 'credit-3', balance: 500 },
+    ]
+
+    it('should use the oldest credit first, up to the balance due', () => {
+      expect(allocateClientCredit(600, credits)).toEqual([
+        { creditId: 'credit-1', amount: 300 },
+        { creditId: 'credit-3', amount: 300 },
+      ])
+    })
+
+    it('should stop at the amount requested', () => {
+      expect(allocateClientCredit(600, credits, 200)).toEqual([{ creditId: 'credit-1', amount: 200 }])
+    })
+  })
+
+  describe('buildClientStatement', () => {
+    const entries: StatementEntry[] = [
+      {
+        date: new Date('2025-05-10'),
+        type: 'PAYMENT',
+        reference: 'WIRE-1',
+        description: 'Payment for INV-1',
+        currency: 'USD',
+        debit: 0,
+        credit: 1000,
+      },
+      {
+        date: new Date('2025-05-10'),
+        type: 'CREDIT',
+        reference: 'WIRE-1',
+        description: 'Overpayment held as credit',
+        currency: 'USD',
+        debit: 0,
+        credit: 50,
+      },
+      {
+        date: new Date('2025-04-01'),
+        type: 'INVOICE',
+        reference: 'INV-1',
+        description: 'Invoice due 2025-05-01',
+        currency: 'USD',
+        debit: 1000,
+        credit: 0,
+      },
+      {
+        date: new Date('2025-06-01'),
+        type: 'INVOICE',
+        reference: 'INV-2',
+        description: 'Invoice due 2025-07-01',
+        currency: 'EUR',
+        debit: 800,
+        credit: 0,
+      },
+    ]
+
+    it('should run a balance per currency in date order', () => {
+      const [eur, usd] = buildClientStatement(entries)
+
+      expect(eur.currency).toBe('EUR')
+      expect(eur.closingBalance).toBe(800)
+
+      expect(usd.lines.map((line) => line.reference)).toEqual(['INV-1', 'WIRE-1', 'WIRE-1'])
+      expect(usd.lines.map((line) => line.balance)).toEqual([1000, 0, -50])
+      expect(usd.totalDebits).toBe(1000)
+      expect(usd.totalCredits).toBe(1050)
+      expect(usd.closingBalance).toBe(-50)
+    })
+
+    it('should roll earlier entries into the opening balance', () => {
+      const [, usd] = buildClientStatement(entries, new Date('2025-05-01'))
+
+      expect(usd.openingBalance).toBe(1000)
+      expect(usd.lines).toHaveLength(2)
+      expect(usd.totalDebits).toBe(0)
+      expect(usd.closingBalance).toBe(-50)
+    })
+
+    it('should export opening, lines and closing balance to CSV', () => {
+      const csv = statementToCSV(buildClientStatement(entries.filter((entry) => entry.currency === 'USD')))
+      const lines = csv.split('\n')
+
+      expect(lines[0]).toBe('Date,Type,Reference,Description,Currency,Debit,Credit,Balance')
+      expect(lines[1]).toBe(',Opening balance,,,USD,,,0.00')
+      expect(lines[2]).toBe('2025-04-01,INVOICE,INV-1,Invoice due 2025-05-01,USD,1000.00,,1000.00')
+      expect(lines[lines.length - 1]).toBe(',Closing balance,,,USD,1000.00,1050.00,-50.00')
+    })
+  })
+})
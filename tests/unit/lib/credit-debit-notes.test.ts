@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import {
+  calculateNoteAmounts,
+  getAmountReceivable,
+  getCreditableAmount,
+  getInvoicePaymentState,
+  getNoteSign,
+} from '@/lib/credit-debit-notes'
+import {
+  generateCreditDebitNoteNumber,
+  getNextCreditDebitNoteSequence,
+} from '@/lib/invoice-number-utils'
+
+describe('Credit/Debit Notes', () => {
+  describe('calculateNoteAmounts', () => {
+    it('should apply the original IGST rate', () => {
+      expect(calculateNoteAmounts(1000, { igstRate: 18, cgstRate: 0, sgstRate: 0 }, 1)).toEqual({
+        igstAmount: 180,
+        cgstAmount: 0,
+        sgstAmount: 0,
+        totalAmount: 1180,
+        totalInINR: 1180,
+      })
+    })
+
+    it('should split CGST and SGST for intra-state invoices', () => {
+      const result = calculateNoteAmounts(333.33, { igstRate: 0, cgstRate: 9, sgstRate: 9 }, 1)
+      expect(result.cgstAmount).toBe(30)
+      expect(result.sgstAmount).toBe(30)
+      expect(result.totalAmount).toBe(393.33)
+    })
+
+    it('should convert zero-rated export notes at the original exchange rate', () => {
+      const result = calculateNoteAmounts(250, { igstRate: 0, cgstRate: 0, sgstRate: 0 }, 83.456)
+      expect(result.totalAmount).toBe(250)
+      expect(result.totalInINR).toBe(20864)
+    })
+  })
+
+  describe('getNoteSign', () => {
+    it('should make credit notes negative and debit notes positive', () => {
+      expect(getNoteSign('CREDIT', 100)).toBe(-100)
+      expect(getNoteSign('DEBIT', 100)).toBe(100)
+    })
+  })
+
+  describe('getCreditableAmount', () => {
+    it('should return the full subtotal when no notes exist', () => {
+      expect(getCreditableAmount(5000, [])).toBe(5000)
+    })
+
+    it('should net earlier credit and debit notes', () => {
+      expect(getCreditableAmount(5000, [
+        { noteType: 'CREDIT', taxableAmount: 2000 },
+        { noteType: 'DEBIT', taxableAmount: 500 },
+      ])).toBe(3500)
+    })
+
+    it('should never go below zero', () => {
+      expect(getCreditableAmount(1000, [{ noteType: 'CREDIT', taxableAmount: 1000.004 }])).toBe(0)
+    })
+  })
+
+  describe('getAmountReceivable', () => {
+    it('should add the note adjustment to the invoice total', () => {
+      const result = getAmountReceivable({
+        totalAmount: new Prisma.Decimal(1180),
+        noteAdjustment: new Prisma.Decimal(-236),
+      })
+      expect(result.toNumber()).toBe(944)
+    })
+
+    it('should treat a missing adjustment as zero', () => {
+      expect(getAmountReceivable({ totalAmount: 1000, noteAdjustment: null }).toNumber()).toBe(1000)
+    })
+  })
+
+  describe('getInvoicePaymentState', () => {
+    const invoice = { totalAmount: new Prisma.Decimal(1000), noteAdjustment: new Prisma.Decimal(0), status: 'SENT' }
+
+    it('should mark the invoice paid within a cent of the amount receivable', () => {
+      const state = getInvoicePaymentState(invoice, 999.995)
+      expect(state.paymentStatus).toBe('PAID')
+      expect(state.status).toBe('PAID')
+      expect(state.balanceDue.toNumber()).toBe(0)
+    })
+
+    it('should mark part payments and unpaid invoices', () => {
+      expect(getInvoicePaymentState(invoice, 400).paymentStatus).toBe('PARTIALLY_PAID')
+      expect(getInvoicePaymentState(invoice, 400).balanceDue.toNumber()).toBe(600)
+      expect(getInvoicePaymentState(invoice, 0).paymentStatus).toBe('UNPAID')
+    })
+
+    it('should reopen a paid invoice that is no longer fully paid', () => {
+      const state = getInvoicePaymentState({ ...invoice, status: 'PAID', noteAdjustment: new Prisma.Decimal(200) }, 1000)
+      expect(state.paymentStatus).toBe('PARTIALLY_PAID')
+      expect(state.status).toBe('SENT')
+      expect(getInvoicePaymentState({ ...invoice, status: 'DRAFT' }, 0).status).toBe('DRAFT')
+    })
+  })
+
+  describe('note numbering', () => {
+    it('should format numbers per prefix and fiscal year', () => {
+      expect(generateCreditDebitNoteNumber('CN', '2025-26', 1)).toBe('CN/2025-26/0001')
+      expect(generateCreditDebitNoteNumber('DN', '2025-26', 12)).toBe('DN/2025-26/0012')
+    })
+
+    it('should continue from the highest existing sequence', () => {
+      expect(getNextCreditDebitNoteSequence([])).toBe(1)
+      expect(getNextCreditDebitNoteSequence(['CN/2025-26/0002', 'CN/2025-26/0010', 'bogus'])).toBe(11)
+    })
+  })
+})
@@ -67,6 +67,25 @@ describe('Filing Calendar', () => {
       expect(decGstr1?.status).toBe('FILED')
     })
 
+    it('should keep amended returns filed', () => {
+      const filingData: FilingPeriodData[] = [
+        {
+          period: '2025-12',
+          filingType: 'GSTR1',
+          status: 'AMENDED',
+          filedAt: new Date('2026-01-10'),
+        },
+      ]
+
+      const calendar = generateFilingCalendar(filingData, 2)
+
+      const decGstr1 = calendar.find(
+        (e) => e.filingType === 'GSTR1' && e.period === '2025-12'
+      )
+      expect(decGstr1?.status).toBe('FILED')
+      expect(decGstr1?.isOverdue).toBe(false)
+    })
+
     it('should calculate correct due dates (GSTR-1: 11th, GSTR-3B: 20th)', () => {
       const filingData: FilingPeriodData[] = []
 
@@ -165,6 +184,44 @@ describe('Filing Calendar', () => {
     })
   })
 
+  describe('QRMP', () => {
+    const options = {
+      frequencyHistory: [{ frequency: 'QUARTERLY' as const, effectiveFrom: '2025-10' }],
+      stateCode: '27', // Maharashtra, Category I
+    }
+
+    it('should list the quarterly returns and monthly IFF and PMT-06', () => {
+      // Current date: January 15, 2026; December closes the October-December quarter
+      const calendar = generateFilingCalendar([], 2, options)
+
+      expect(calendar.map((e) => [e.period, e.filingType, e.periodLabel])).toEqual([
+        ['2025-12', 'GSTR1', 'October–December 2025'],
+        ['2025-12', 'GSTR3B', 'October–December 2025'],
+        ['2026-01', 'IFF', 'January 2026'],
+        ['2026-01', 'PMT06', 'January 2026'],
+      ])
+      expect(calendar[0].dueDate).toEqual(new Date(2026, 0, 13))
+      expect(calendar[1].dueDate).toEqual(new Date(2026, 0, 22))
+      // Quarterly GSTR-1 was due January 13
+      expect(calendar.map((e) => e.isOverdue)).toEqual([true, false, false, false])
+    })
+
+    it('should never mark the optional IFF overdue, and drop it once missed', () => {
+      vi.setSystemTime(new Date('2025-12-20'))
+
+      const calendar = generateFilingCalendar([], 1, options)
+      const iff = calendar.find((e) => e.filingType === 'IFF')
+      const pmt06 = calendar.find((e) => e.filingType === 'PMT06')
+
+      // November IFF was due December 13
+      expect(iff?.isOptional).toBe(true)
+      expect(iff?.isOverdue).toBe(false)
+      expect(pmt06?.isOverdue).toBe(false)
+      const deadlines = getNextFilingDeadlines([], 4, options)
+      expect(deadlines.find((d) => d.filingType === 'IFF' && d.period === '2025-11')).toBeUndefined()
+    })
+  })
+
   describe('Edge Cases', () => {
     it('should handle fiscal year boundary (March/April)', () => {
       // Set date to March 25, 2026
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateDomesticGST,
+  getClientStateCode,
+  getDomesticPlaceOfSupply,
+} from '@/lib/domestic-gst-calculator'
+
+describe('Domestic GST Calculations', () => {
+  describe('calculateDomesticGST', () => {
+    it('should split into CGST + SGST for intra-state supplies', () => {
+      const result = calculateDomesticGST({
+        amount: 100000,
+        gstRate: 18,
+        supplierStateCode: '29',
+        placeOfSupplyStateCode: '29',
+      })
+
+      expect(result).toEqual({
+        isInterstate: false,
+        igstRate: 0,
+        igst: 0,
+        cgstRate: 9,
+        cgst: 9000,
+        sgstRate: 9,
+        sgst: 9000,
+        totalTax: 18000,
+      })
+    })
+
+    it('should charge IGST for inter-state supplies', () => {
+      const result = calculateDomesticGST({
+        amount: 100000,
+        gstRate: 18,
+        supplierStateCode: '29',
+        placeOfSupplyStateCode: '27',
+      })
+
+      expect(result).toEqual({
+        isInterstate: true,
+        igstRate: 18,
+        igst: 18000,
+        cgstRate: 0,
+        cgst: 0,
+        sgstRate: 0,
+        sgst: 0,
+        totalTax: 18000,
+      })
+    })
+
+    it('should round tax amounts to 2 decimals', () => {
+      const result = calculateDomesticGST({
+        amount: 333.33,
+        gstRate: 18,
+        supplierStateCode: '07',
+        placeOfSupplyStateCode: '07',
+      })
+
+      expect(result.cgst).toBe(30)
+      expect(result.sgst).toBe(30)
+      expect(result.totalTax).toBe(60)
+    })
+
+    it('should return zero tax for nil-rated supplies', () => {
+      const result = calculateDomesticGST({
+        amount: 5000,
+        gstRate: 0,
+        supplierStateCode: '29',
+        placeOfSupplyStateCode: '33',
+      })
+
+      expect(result.totalTax).toBe(0)
+    })
+  })
+
+  describe('getClientStateCode', () => {
+    it('should prefer the state from the client GSTIN', () => {
+      expect(getClientStateCode({ gstin: '27AAAAA0000A1Z5', stateCode: '29' })).toBe('27')
+    })
+
+    it('should fall back to the selected state code', () => {
+      expect(getClientStateCode({ gstin: null, stateCode: '29' })).toBe('29')
+    })
+
+    it('should return null for unknown state codes', () => {
+      expect(getClientStateCode({ stateCode: '00' })).toBeNull()
+      expect(getClientStateCode({})).toBeNull()
+    })
+  })
+
+  describe('getDomesticPlaceOfSupply', () => {
+    it('should format state code with state name', () => {
+      expect(getDomesticPlaceOfSupply('27')).toBe('27 - Maharashtra')
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_DUNNING_STEPS,
+  describeDunningSteps,
+  getDueReminder,
+  getLatestReminderDate,
+  validateDunningSteps,
+} from '@/lib/dunning'
+
+describe('Dunning schedules', () => {
+  const dueDate = new Date(2025, 9, 10)
+
+  describe('getLatestReminderDate', () => {
+    it('should return null before the first reminder day', () => {
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 6))).toBeNull()
+    })
+
+    it('should return the offset days as they pass', () => {
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 7))).toEqual(new Date(2025, 9, 7))
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 12))).toEqual(new Date(2025, 9, 10))
+    })
+
+    it('should repeat after the last offset day', () => {
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 16))).toEqual(new Date(2025, 9, 10))
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 17))).toEqual(new Date(2025, 9, 17))
+      expect(getLatestReminderDate(dueDate, DEFAULT_DUNNING_STEPS, new Date(2025, 9, 30))).toEqual(new Date(2025, 9, 24))
+    })
+
+    it('should start repeats on the due date when there are no offsets', () => {
+      const steps = { offsetDays: [], repeatEveryDays: 7, maxReminders: null }
+
+      expect(getLatestReminderDate(dueDate, steps, new Date(2025, 9, 9))).toBeNull()
+      expect(getLatestReminderDate(dueDate, steps, new Date(2025, 9, 10))).toEqual(new Date(2025, 9, 10))
+      expect(getLatestReminderDate(dueDate, steps, new Date(2025, 9, 18))).toEqual(new Date(2025, 9, 17))
+    })
+  })
+
+  describe('getDueReminder', () => {
+    it('should send the first reminder before the due date', () => {
+      expect(getDueReminder(dueDate, DEFAULT_DUNNING_STEPS, 0, null, new Date(2025, 9, 7, 8))).toEqual({
+        reminderNumber: 1,
+        scheduledFor: new Date(2025, 9, 7),
+      })
+    })
+
+    it('should not send twice for the same step', () => {
+      const lastSentAt = new Date(2025, 9, 10, 8)
+
+      expect(getDueReminder(dueDate, DEFAULT_DUNNING_STEPS, 2, lastSentAt, new Date(2025, 9, 10, 20))).toBeNull()
+      expect(getDueReminder(dueDate, DEFAULT_DUNNING_STEPS, 2, lastSentAt, new Date(2025, 9, 16, 8))).toBeNull()
+      expect(getDueReminder(dueDate, DEFAULT_DUNNING_STEPS, 2, lastSentAt, new Date(2025, 9, 17, 8))).toEqual({
+        reminderNumber: 3,
+        scheduledFor: new Date(2025, 9, 17),
+      })
+    })
+
+    it('should send only the latest step after missed runs', () => {
+      const lastSentAt = new Date(2025, 9, 7, 8)
+
+      expect(getDueReminder(dueDate, DEFAULT_DUNNING_STEPS, 1, lastSentAt, new Date(2025, 9, 30, 8))).toEqual({
+        reminderNumber: 2,
+        scheduledFor: new Date(2025, 9, 24),
+      })
+    })
+
+    it('should stop at the maximum number of reminders', () => {
+      const steps = { ...DEFAULT_DUNNING_STEPS, maxReminders: 2 }
+
+      expect(getDueReminder(dueDate, steps, 2, new Date(2025, 9, 10), new Date(2025, 9, 30))).toBeNull()
+    })
+
+    it('should stop after the last offset when there is no repeat', () => {
+      const steps = { offsetDays: [-3, 0], repeatEveryDays: null, maxReminders: null }
+
+      expect(getDueReminder(dueDate, steps, 2, new Date(2025, 9, 10), new Date(2025, 10, 30))).toBeNull()
+    })
+  })
+
+  describe('validateDunningSteps', () => {
+    it('should accept the default schedule', () => {
+      expect(validateDunningSteps(DEFAULT_DUNNING_STEPS)).toBeNull()
+    })
+
+    it('should reject empty and duplicate schedules', () => {
+      expect(validateDunningSteps({ offsetDays: [], repeatEveryDays: null, maxReminders: null })).toBe(
+        'Add at least one reminder day or a repeat interval'
+      )
+      expect(validateDunningSteps({ offsetDays: [0, 0], repeatEveryDays: null, maxReminders: null })).toBe(
+        'Reminder days must be different'
+      )
+    })
+  })
+
+  describe('describeDunningSteps', () => {
+    it('should describe offsets, repeats and the limit', () => {
+      expect(describeDunningSteps(DEFAULT_DUNNING_STEPS)).toBe('3 days before, on the due date, then every 7 days')
+      expect(describeDunningSteps({ offsetDays: [1], repeatEveryDays: null, maxReminders: 1 })).toBe(
+        '1 day after (at most 1)'
+      )
+      expect(describeDunningSteps({ offsetDays: [], repeatEveryDays: 14, maxReminders: null })).toBe('every 14 days')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getEstimateResponseError,
+  isEstimateEditable,
+  isEstimateExpired,
+} from '@/lib/estimates'
+import {
+  extractEstimateSequence,
+  generateEstimateNumber,
+  getNextEstimateSequence,
+} from '@/lib/invoice-number-utils'
+
+describe('Estimates', () => {
+  describe('generateEstimateNumber', () => {
+    it('should use the EST series with a padded sequence', () => {
+      expect(generateEstimateNumber('2025-26', 1)).toBe('EST/2025-26/0001')
+      expect(generateEstimateNumber('2025-26', 123)).toBe('EST/2025-26/0123')
+    })
+  })
+
+  describe('extractEstimateSequence', () => {
+    it('should extract the sequence from a valid number', () => {
+      expect(extractEstimateSequence('EST/2025-26/0042')).toBe(42)
+    })
+
+    it('should return null for other series', () => {
+      expect(extractEstimateSequence('SI/2025-26/0042')).toBeNull()
+      expect(extractEstimateSequence('FY25-26/42')).toBeNull()
+    })
+  })
+
+  describe('getNextEstimateSequence', () => {
+    it('should start at 1', () => {
+      expect(getNextEstimateSequence([])).toBe(1)
+    })
+
+    it('should continue after the highest sequence', () => {
+      expect(getNextEstimateSequence(['EST/2025-26/0001', 'EST/2025-26/0007', 'EST/2025-26/0003'])).toBe(8)
+    })
+
+    it('should ignore invalid numbers', () => {
+      expect(getNextEstimateSequence(['INVALID', 'EST/2025-26/0002'])).toBe(3)
+    })
+  })
+
+  describe('isEstimateEditable', () => {
+    it('should allow changes until the client responds', () => {
+      expect(isEstimateEditable('DRAFT')).toBe(true)
+      expect(isEstimateEditable('SENT')).toBe(true)
+      expect(isEstimateEditable('ACCEPTED')).toBe(false)
+      expect(isEstimateEditable('DECLINED')).toBe(false)
+      expect(isEstimateEditable('CONVERTED')).toBe(false)
+    })
+  })
+
+  describe('isEstimateExpired', () => {
+    const validUntil = new Date(2025, 5, 30)
+
+    it('should stay valid through the whole last day', () => {
+      expect(isEstimateExpired(validUntil, new Date(2025, 5, 30, 23, 0))).toBe(false)
+    })
+
+    it('should expire the day after', () => {
+      expect(isEstimateExpired(validUntil, new Date(2025, 6, 1, 0, 1))).toBe(true)
+    })
+  })
+
+  describe('getEstimateResponseError', () => {
+    const now = new Date(2025, 5, 15)
+
+    it('should allow a response to a sent estimate within validity', () => {
+      expect(getEstimateResponseError({ status: 'SENT', validUntil: new Date(2025, 5, 30) }, now)).toBeNull()
+    })
+
+    it('should reject a second response', () => {
+      expect(getEstimateResponseError({ status: 'ACCEPTED', validUntil: new Date(2025, 5, 30) }, now))
+        .toContain('already been responded to')
+    })
+
+    it('should reject a response to an estimate that was never sent', () => {
+      expect(getEstimateResponseError({ status: 'DRAFT', validUntil: new Date(2025, 5, 30) }, now))
+        .toContain('not been sent')
+    })
+
+    it('should reject a response after expiry', () => {
+      expect(getEstimateResponseError({ status: 'SENT', validUntil: new Date(2025, 5, 1) }, now))
+        .toContain('expired')
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateExportGST,
+  getExportDeclaration,
+  EXPORT_WITH_PAYMENT_IGST_RATE,
+} from '@/lib/export-gst-calculator'
+
+describe('Export GST Calculator', () => {
+  describe('calculateExportGST', () => {
+    it('should charge no IGST for exports under LUT', () => {
+      const result = calculateExportGST({ amount: 1000, exchangeRate: 83.5, withPayment: false })
+
+      expect(result.igstRate).toBe(0)
+      expect(result.igst).toBe(0)
+      expect(result.igstINR).toBe(0)
+      expect(result.totalTax).toBe(0)
+      expect(result.taxableValueINR).toBe(83500)
+    })
+
+    it('should charge 18% IGST for exports with payment of tax', () => {
+      const result = calculateExportGST({ amount: 1000, exchangeRate: 83.5, withPayment: true })
+
+      expect(result.igstRate).toBe(EXPORT_WITH_PAYMENT_IGST_RATE)
+      expect(result.igst).toBe(180)
+      expect(result.totalTax).toBe(180)
+    })
+
+    it('should compute the INR IGST on the INR taxable value', () => {
+      const result = calculateExportGST({ amount: 1234.56, exchangeRate: 83.4567, withPayment: true })
+
+      expect(result.taxableValueINR).toBe(103032.3)
+      expect(result.igstINR).toBe(18545.81)
+      expect(result.igst).toBe(222.22)
+    })
+  })
+
+  describe('getExportDeclaration', () => {
+    it('should reference the LUT for zero-rated exports', () => {
+      const declaration = getExportDeclaration({ lutNumber: 'AD290324000001A', lutDate: new Date(2024, 3, 1) })
+
+      expect(declaration).toContain('UNDER LUT NO AD290324000001A')
+      expect(declaration).toContain('TAX NOT PAYABLE')
+    })
+
+    it('should declare payment of integrated tax without a LUT', () => {
+      expect(getExportDeclaration(null)).toBe('SUPPLY MEANT FOR EXPORT ON PAYMENT OF INTEGRATED TAX')
+    })
+  })
+})
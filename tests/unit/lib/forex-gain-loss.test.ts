@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculatePaymentForexGainLoss,
+  groupForexGainLoss,
+  totalForexGainLoss,
+  type ForexReportRow,
+  type PaymentForForex,
+} from '@/lib/forex-gain-loss'
+
+const payment: PaymentForForex = {
+  amount: 1000,
+  amountReceivedBeforeFees: null,
+  platformFeesInCurrency: null,
+  creditedAmount: null,
+  actualExchangeRate: null,
+  bankChargesInr: null,
+}
+
+function row(overrides: Partial<ForexReportRow> & Pick<ForexReportRow, 'paymentId'>): ForexReportRow {
+  const base = calculatePaymentForexGainLoss({ ...payment, actualExchangeRate: 84 }, 83, 'USD')
+  return {
+    ...base,
+    paymentDate: new Date(2024, 4, 10),
+    invoiceId: 'inv-1',
+    invoiceNumber: 'FY24-25/001',
+    clientId: 'client-1',
+    clientName: 'Acme Corp',
+    currency: 'USD',
+    amount: 1000,
+    ...overrides,
+  }
+}
+
+describe('Forex Gain/Loss', () => {
+  describe('calculatePaymentForexGainLoss', () => {
+    it('should use the recorded exchange rate', () => {
+      const result = calculatePaymentForexGainLoss({ ...payment, actualExchangeRate: 84 }, 83, 'USD')
+
+      expect(result.settlementRate).toBe(84)
+      expect(result.bookedInr).toBe(83000)
+      expect(result.settledInr).toBe(84000)
+      expect(result.exchangeGainLoss).toBe(1000)
+      expect(result.netGainLoss).toBe(1000)
+    })
+
+    it('should report a loss when the rate fell', () => {
+      const result = calculatePaymentForexGainLoss({ ...payment, actualExchangeRate: 82.5 }, 83, 'USD')
+
+      expect(result.exchangeGainLoss).toBe(-500)
+      expect(result.netGainLoss).toBe(-500)
+    })
+
+    it('should derive the rate from the INR credited and deduct fees and charges', () => {
+      const result = calculatePaymentForexGainLoss(
+        {
+          ...payment,
+          amountReceivedBeforeFees: 950,
+          platformFeesInCurrency: 50,
+          creditedAmount: 79325,
+          bankChargesInr: 475,
+        },
+        83,
+        'USD'
+      )
+
+      // (79,325 + 475) / 950
+      expect(result.settlementRate).toBe(84)
+      expect(result.exchangeGainLoss).toBe(1000)
+      expect(result.platformFeesInr).toBe(4200)
+      expect(result.bankChargesInr).toBe(475)
+      expect(result.creditedInr).toBe(79325)
+      expect(result.netGainLoss).toBe(-3675)
+    })
+
+    it('should value the payment at the invoice rate when no rate is recorded', () => {
+      const result = calculatePaymentForexGainLoss({ ...payment, platformFeesInCurrency: 30 }, 83, 'USD')
+
+      expect(result.settlementRate).toBeNull()
+      expect(result.settledInr).toBe(83000)
+      expect(result.exchangeGainLoss).toBe(0)
+      expect(result.platformFeesInr).toBe(2490)
+      expect(result.creditedInr).toBeNull()
+      expect(result.netGainLoss).toBe(-2490)
+    })
+
+    it('should only deduct bank charges on INR invoices', () => {
+      const result = calculatePaymentForexGainLoss({ ...payment, amount: 50000, bankChargesInr: 100 }, 1, 'INR')
+
+      expect(result.settlementRate).toBe(1)
+      expect(result.exchangeGainLoss).toBe(0)
+      expect(result.netGainLoss).toBe(-100)
+    })
+  })
+
+  describe('grouping', () => {
+    const rows = [
+      row({ paymentId: 'p1' }),
+      row({ paymentId: 'p2', paymentDate: new Date(2024, 5, 2) }),
+      row({
+        paymentId: 'p3',
+        invoiceId: 'inv-2',
+        invoiceNumber: 'FY24-25/002',
+        currency: 'EUR',
+        paymentDate: new Date(2024, 5, 20),
+        ...calculatePaymentForexGainLoss({ ...payment, amount: 500 }, 90, 'EUR'),
+        amount: 500,
+      }),
+    ]
+
+    it('should total gain/loss and count payments without a rate', () => {
+      const totals = totalForexGainLoss(rows)
+
+      expect(totals.paymentCount).toBe(3)
+      expect(totals.exchangeGainLoss).toBe(2000)
+      expect(totals.bookedInr).toBe(83000 + 83000 + 45000)
+      expect(totals.missingRateCount).toBe(1)
+    })
+
+    it('should group by client and currency', () => {
+      const groups = groupForexGainLoss(rows, 'clientCurrency')
+
+      expect(groups).toHaveLength(2)
+      expect(groups[0]).toMatchObject({ label: 'Acme Corp', currency: 'USD', amount: 2000, paymentCount: 2 })
+      expect(groups[1]).toMatchObject({ currency: 'EUR', amount: 500, missingRateCount: 1 })
+    })
+
+    it('should group by invoice and by month', () => {
+      expect(groupForexGainLoss(rows, 'invoice').map((group) => group.label)).toEqual(['FY24-25/001', 'FY24-25/002'])
+
+      const months = groupForexGainLoss(rows, 'month')
+      expect(months.map((group) => group.key)).toEqual(['2024-05', '2024-06'])
+      expect(months[1]).toMatchObject({ label: 'Jun 2024', paymentCount: 2, currency: undefined, amount: undefined })
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateRevaluation,
+  getBalanceDueOn,
+  revaluationToCSV,
+  summarizeRevaluation,
+  type RevaluationLine,
+} from '@/lib/forex-revaluation'
+
+const yearEnd = new Date(2025, 2, 31, 23, 59, 59)
+
+function line(overrides: Partial<RevaluationLine>): RevaluationLine {
+  return {
+    invoiceNumber: 'FY24-25/001',
+    invoiceDate: new Date(2025, 0, 15),
+    clientName: 'Acme Corp',
+    currency: 'USD',
+    balanceDue: 1000,
+    bookingRate: 83,
+    closingRate: 85.5,
+    rateSource: 'RBI',
+    rateDate: new Date(2025, 2, 31),
+    ...calculateRevaluation(overrides.balanceDue ?? 1000, overrides.bookingRate ?? 83, overrides.closingRate ?? 85.5),
+    ...overrides,
+  }
+}
+
+describe('Forex Revaluation', () => {
+  describe('getBalanceDueOn', () => {
+    it('should count only payments and notes up to the date', () => {
+      const balance = getBalanceDueOn(
+        {
+          totalAmount: 5000,
+          payments: [
+            { amount: 2000, paymentDate: new Date(2025, 1, 10) },
+            { amount: 2500, paymentDate: new Date(2025, 3, 5) },
+          ],
+          creditDebitNotes: [
+            { noteType: 'CREDIT', totalAmount: 300, noteDate: new Date(2025, 2, 20) },
+            { noteType: 'DEBIT', totalAmount: 100, noteDate: new Date(2025, 3, 2) },
+          ],
+        },
+        yearEnd
+      )
+
+      expect(balance).toBe(2700)
+    })
+
+    it('should include payments received on the date', () => {
+      const balance = getBalanceDueOn(
+        {
+          totalAmount: 1000,
+          payments: [{ amount: 1000, paymentDate: new Date(2025, 2, 31) }],
+          creditDebitNotes: [],
+        },
+        yearEnd
+      )
+
+      expect(balance).toBe(0)
+    })
+  })
+
+  describe('calculateRevaluation', () => {
+    it('should report a gain when the rupee weakened', () => {
+      expect(calculateRevaluation(1000, 83, 85.5)).toEqual({ bookedInr: 83000, revaluedInr: 85500, gainLoss: 2500 })
+    })
+
+    it('should report a loss when the rupee strengthened', () => {
+      expect(calculateRevaluation(2000, 90, 89.25).gainLoss).toBe(-1500)
+    })
+  })
+
+  describe('summarizeRevaluation', () => {
+    it('should total overall and by currency', () => {
+      const summary = summarizeRevaluation([
+        line({ invoiceNumber: 'FY24-25/001' }),
+        line({ invoiceNumber: 'FY24-25/002', balanceDue: 500 }),
+        line({ invoiceNumber: 'FY24-25/003', currency: 'EUR', balanceDue: 2000, bookingRate: 90, closingRate: 89.25 }),
+      ])
+
+      expect(summary.invoiceCount).toBe(3)
+      expect(summary.gainLoss).toBe(2500 + 1250 - 1500)
+      expect(summary.byCurrency).toEqual([
+        { currency: 'EUR', invoiceCount: 1, balanceDue: 2000, bookedInr: 180000, revaluedInr: 178500, gainLoss: -1500 },
+        { currency: 'USD', invoiceCount: 2, balanceDue: 1500, bookedInr: 124500, revaluedInr: 128250, gainLoss: 3750 },
+      ])
+    })
+  })
+
+  describe('revaluationToCSV', () => {
+    it('should write one row per invoice and a total row', () => {
+      const csv = revaluationToCSV([line({ clientName: 'Acme, Inc.' })])
+      const rows = csv.trim().split('\n')
+
+      expect(rows).toHaveLength(3)
+      expect(rows[0]).toContain('Unrealised Gain/Loss (INR)')
+      expect(rows[1]).toBe(
+        'FY24-25/001,2025-01-15,"Acme, Inc.",USD,1000.00,83.0000,85.5000,2025-03-31,RBI,83000.00,85500.00,2500.00'
+      )
+      expect(rows[2]).toBe('Total,,,,,,,,,83000.00,85500.00,2500.00')
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import type { CreditDebitNote, Payment } from '@prisma/client'
+import {
+  isFiledStatus,
+  getReturnMonths,
+  getCoveringReturnPeriods,
+  findLockingReturns,
+  describeReturns,
+  getFiledPeriodMessage,
+  getAmendmentTable,
+  getOriginalDocument,
+  toPaymentSnapshot,
+  toNoteSnapshot,
+  diffAmendment,
+  type FiledReturn,
+} from '@/lib/gst-filing/amendments'
+import type { InvoiceSnapshot } from '@/lib/invoice-revisions'
+
+describe('Filed Period Locking and Amendments', () => {
+  const monthlyGSTR1: FiledReturn = { filingType: 'GSTR1', period: '2025-04', frequency: 'MONTHLY', status: 'FILED' }
+  const quarterlyGSTR3B: FiledReturn = {
+    filingType: 'GSTR3B',
+    period: '2025-09',
+    frequency: 'QUARTERLY',
+    status: 'AMENDED',
+  }
+  const iff: FiledReturn = { filingType: 'IFF', period: '2025-07', frequency: 'QUARTERLY', status: 'FILED' }
+
+  describe('isFiledStatus', () => {
+    it('should treat filed and amended returns as filed', () => {
+      expect(isFiledStatus('FILED')).toBe(true)
+      expect(isFiledStatus('AMENDED')).toBe(true)
+      expect(isFiledStatus('APPROVED')).toBe(false)
+      expect(isFiledStatus('DRAFT')).toBe(false)
+    })
+  })
+
+  describe('getReturnMonths', () => {
+    it('should cover the quarter for quarterly GSTR-1 and GSTR-3B only', () => {
+      expect(getReturnMonths(monthlyGSTR1)).toEqual(['2025-04'])
+      expect(getReturnMonths(quarterlyGSTR3B)).toEqual(['2025-07', '2025-08', '2025-09'])
+      expect(getReturnMonths(iff)).toEqual(['2025-07'])
+    })
+  })
+
+  describe('getCoveringReturnPeriods', () => {
+    it('should include each month and the last month of its quarter', () => {
+      expect(getCoveringReturnPeriods([new Date(2025, 6, 15), new Date(2025, 7, 1)])).toEqual([
+        '2025-07',
+        '2025-08',
+        '2025-09',
+      ])
+    })
+  })
+
+  describe('findLockingReturns', () => {
+    const returns: FiledReturn[] = [
+      monthlyGSTR1,
+      quarterlyGSTR3B,
+      iff,
+      { filingType: 'GSTR3B', period: '2025-04', frequency: 'MONTHLY', status: 'APPROVED' },
+    ]
+
+    it('should find filed returns covering the date', () => {
+      expect(findLockingReturns(returns, [new Date(2025, 3, 10)])).toEqual([monthlyGSTR1])
+    })
+
+    it('should lock every month of a filed quarterly return', () => {
+      expect(findLockingReturns(returns, [new Date(2025, 7, 20)])).toEqual([quarterlyGSTR3B])
+      expect(findLockingReturns(returns, [new Date(2025, 6, 1)])).toEqual([quarterlyGSTR3B, iff])
+    })
+
+    it('should check every date, e.g. an invoice moved out of a filed month', () => {
+      expect(findLockingReturns(returns, [new Date(2025, 4, 2)])).toEqual([])
+      expect(findLockingReturns(returns, [new Date(2025, 4, 2), new Date(2025, 3, 30)])).toEqual([monthlyGSTR1])
+    })
+  })
+
+  describe('describeReturns', () => {
+    it('should name each return with the period it covers', () => {
+      expect(describeReturns([monthlyGSTR1, quarterlyGSTR3B])).toBe('GSTR-1 for April 2025, GSTR-3B for July–September 2025')
+      expect(getFiledPeriodMessage('Invoice INV-001', [iff])).toBe(
+        'Invoice INV-001 is dated in a filed period (IFF for July 2025). Give a reason to record the change as an amendment.'
+      )
+    })
+  })
+
+  describe('getAmendmentTable', () => {
+    it('should report invoices in 9A and notes in 9C', () => {
+      expect(getAmendmentTable('4A')).toBe('9A')
+      expect(getAmendmentTable('5')).toBe('9A')
+      expect(getAmendmentTable('6A')).toBe('9A')
+      expect(getAmendmentTable('9B')).toBe('9C')
+    })
+
+    it('should not report B2C small supplies or documents never filed in GSTR-1', () => {
+      expect(getAmendmentTable('7')).toBeNull()
+      expect(getAmendmentTable(null)).toBeNull()
+    })
+  })
+
+  const payment = {
+    id: 'payment-1',
+    amount: 1000,
+    currency: 'USD',
+    paymentDate: new Date('2025-04-10T00:00:00.000Z'),
+    paymentMethod: 'WISE',
+    reference: 'TXN-1',
+    notes: null,
+    creditedAmount: 83000,
+    actualExchangeRate: 83,
+    bankChargesInr: null,
+    fircNumber: null,
+    fircDate: null,
+  } as unknown as Payment
+
+  const note = {
+    noteType: 'CREDIT',
+    noteNumber: 'CN/25-26/001',
+    noteDate: new Date('2025-04-20T00:00:00.000Z'),
+    reason: 'Discount',
+    description: null,
+    currency: 'USD',
+    exchangeRate: 83,
+    taxableAmount: 100,
+    igstAmount: 0,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    totalAmount: 100,
+    totalInINR: 8300,
+  } as unknown as CreditDebitNote
+
+  describe('getOriginalDocument', () => {
+    it('should read the number and date as filed from the snapshot', () => {
+      const invoice = { invoiceNumber: 'INV-001', invoiceDate: '2025-04-05T00:00:00.000Z' } as InvoiceSnapshot
+
+      expect(getOriginalDocument('INVOICE', invoice)).toEqual({
+        number: 'INV-001',
+        date: new Date('2025-04-05T00:00:00.000Z'),
+      })
+      expect(getOriginalDocument('CREDIT_DEBIT_NOTE', toNoteSnapshot(note))).toEqual({
+        number: 'CN/25-26/001',
+        date: new Date('2025-04-20T00:00:00.000Z'),
+      })
+      expect(getOriginalDocument('PAYMENT', toPaymentSnapshot(payment))).toBeNull()
+    })
+  })
+
+  describe('diffAmendment', () => {
+    it('should list changed payment fields with labels', () => {
+      const original = toPaymentSnapshot(payment)
+      const amended = toPaymentSnapshot({ ...payment, amount: 1200, reference: null } as unknown as Payment)
+
+      expect(diffAmendment('PAYMENT', original, amended)).toEqual([
+        { field: 'amount', label: 'Amount', from: 1000, to: 1200 },
+        { field: 'reference', label: 'Reference', from: 'TXN-1', to: null },
+      ])
+    })
+
+    it('should list changed note fields', () => {
+      const original = toNoteSnapshot(note)
+      const amended = toNoteSnapshot({ ...note, taxableAmount: 80, totalAmount: 80 } as unknown as CreditDebitNote)
+
+      expect(diffAmendment('CREDIT_DEBIT_NOTE', original, amended).map((change) => change.field)).toEqual([
+        'taxableAmount',
+        'totalAmount',
+      ])
+    })
+
+    it('should have no changed fields for a deletion', () => {
+      expect(diffAmendment('PAYMENT', toPaymentSnapshot(payment), null)).toEqual([])
+    })
+  })
+})
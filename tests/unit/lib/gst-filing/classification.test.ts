@@ -2,8 +2,10 @@ import { describe, it, expect } from 'vitest'
 import {
   classifyForGSTR1,
   classifyForGSTR3B,
+  classifyNoteForGSTR1,
   GSTR1Table,
   GSTR3BSection,
+  getINRTaxAmounts,
   type InvoiceForClassification,
 } from '@/lib/gst-filing/classification'
 
@@ -123,6 +125,28 @@ describe('GSTR-1 Table Classification', () => {
       expect(result.table).toBe(GSTR1Table.EXPORTS_WITH_PAYMENT)
       expect(result.tableCode).toBe('6A')
     })
+
+    it('should classify export marked with payment as Table 6A with payment even if a LUT is linked', () => {
+      const invoice: InvoiceForClassification = {
+        invoiceType: 'EXPORT',
+        isRCM: false,
+        rcmType: null,
+        lutId: 'lut-123',
+        exportWithPayment: true,
+        clientGstin: null,
+        clientCountry: 'US',
+        totalInINR: 118000,
+        taxableValue: 100000,
+        igstAmount: 18000,
+        cgstAmount: 0,
+        sgstAmount: 0,
+      }
+
+      const result = classifyForGSTR1(invoice)
+      expect(result.table).toBe(GSTR1Table.EXPORTS_WITH_PAYMENT)
+      expect(result.taxableValue).toBe(100000)
+      expect(result.igst).toBe(18000)
+    })
   })
 })
 
@@ -386,3 +410,125 @@ describe('Edge Cases', () => {
     expect(classifyForGSTR1(invoice2).table).toBe(GSTR1Table.B2C_SMALL)
   })
 })
+
+describe('Domestic Invoices', () => {
+  const domesticInvoice: InvoiceForClassification = {
+    invoiceType: 'DOMESTIC',
+    isRCM: false,
+    rcmType: null,
+    lutId: null,
+    clientGstin: null,
+    clientCountry: 'India',
+    totalInINR: 118000,
+    taxableValue: 100000,
+    igstAmount: 18000,
+    cgstAmount: 0,
+    sgstAmount: 0,
+  }
+
+  it('should classify domestic invoice to registered client as Table 4A', () => {
+    const result = classifyForGSTR1({ ...domesticInvoice, clientGstin: '27AAAAA0000A1Z5' })
+    expect(result.table).toBe(GSTR1Table.B2B)
+    expect(result.taxableValue).toBe(100000)
+    expect(result.igst).toBe(18000)
+  })
+
+  it('should classify large inter-state B2C invoice as Table 5', () => {
+    const result = classifyForGSTR1({ ...domesticInvoice, totalInINR: 295000, taxableValue: 250000, igstAmount: 45000 })
+    expect(result.table).toBe(GSTR1Table.B2C_LARGE)
+  })
+
+  it('should classify large intra-state B2C invoice as Table 7', () => {
+    const result = classifyForGSTR1({
+      ...domesticInvoice,
+      totalInINR: 295000,
+      taxableValue: 250000,
+      igstAmount: 0,
+      cgstAmount: 22500,
+      sgstAmount: 22500,
+    })
+    expect(result.table).toBe(GSTR1Table.B2C_SMALL)
+  })
+
+  it('should not treat domestic invoice as export even without a country', () => {
+    const result = classifyForGSTR1({ ...domesticInvoice, clientCountry: null })
+    expect(result.table).toBe(GSTR1Table.B2C_SMALL)
+  })
+
+  it('should report domestic outward supplies under 3.1(a)', () => {
+    const result = classifyForGSTR3B(domesticInvoice)
+    expect(result.section).toBe(GSTR3BSection.OUTWARD_TAXABLE)
+    expect(result.taxableValue).toBe(100000)
+  })
+
+  describe('getINRTaxAmounts', () => {
+    it('should convert invoice currency amounts using the exchange rate', () => {
+      expect(getINRTaxAmounts({
+        invoiceType: 'EXPORT',
+        subtotal: 1000,
+        exchangeRate: 83.456,
+        igstAmount: 0,
+        cgstAmount: 0,
+        sgstAmount: 0,
+      })).toEqual({ taxableValue: 83456, igst: 0, cgst: 0, sgst: 0 })
+    })
+
+    it('should keep self-invoice amounts as stored (already in INR)', () => {
+      expect(getINRTaxAmounts({
+        invoiceType: 'SELF_INVOICE',
+        subtotal: 50000,
+        exchangeRate: 83,
+        igstAmount: 9000,
+        cgstAmount: 0,
+        sgstAmount: 0,
+      })).toEqual({ taxableValue: 50000, igst: 9000, cgst: 0, sgst: 0 })
+    })
+  })
+})
+
+describe('Credit/Debit Note Classification', () => {
+  const original: InvoiceForClassification = {
+    invoiceType: 'DOMESTIC',
+    isRCM: false,
+    rcmType: null,
+    lutId: null,
+    clientGstin: '27AAAAA0000A1Z5',
+    clientCountry: 'India',
+    totalInINR: 118000,
+    taxableValue: 100000,
+    igstAmount: 18000,
+    cgstAmount: 0,
+    sgstAmount: 0,
+  }
+
+  it('should report notes on B2B invoices as CDNR (9B)', () => {
+    expect(classifyNoteForGSTR1(original)).toEqual({
+      table: GSTR1Table.CREDIT_DEBIT_NOTES,
+      tableCode: '9B',
+    })
+  })
+
+  it('should report notes on export invoices as CDNUR (9B)', () => {
+    const result = classifyNoteForGSTR1({
+      ...original,
+      invoiceType: 'EXPORT',
+      clientGstin: null,
+      clientCountry: 'US',
+      lutId: 'lut-123',
+      igstAmount: 0,
+    })
+    expect(result.table).toBe(GSTR1Table.CREDIT_DEBIT_NOTES_UNREGISTERED)
+    expect(result.tableCode).toBe('9B')
+  })
+
+  it('should report notes on large inter-state B2C invoices as CDNUR (9B)', () => {
+    const result = classifyNoteForGSTR1({ ...original, clientGstin: null, totalInINR: 295000 })
+    expect(result.table).toBe(GSTR1Table.CREDIT_DEBIT_NOTES_UNREGISTERED)
+  })
+
+  it('should net notes on small B2C invoices into Table 7', () => {
+    const result = classifyNoteForGSTR1({ ...original, clientGstin: null })
+    expect(result.table).toBe(GSTR1Table.B2C_SMALL)
+    expect(result.tableCode).toBe('7')
+  })
+})
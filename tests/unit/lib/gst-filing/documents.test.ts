@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { summarizeDocuments, getSeriesKey, DocumentNature } from '@/lib/gst-filing/documents'
+
+describe('Documents Issued Summary', () => {
+  describe('summarizeDocuments', () => {
+    it('should report the number range and cancelled count per series', () => {
+      const result = summarizeDocuments(DocumentNature.OUTWARD_INVOICES, [
+        { documentNumber: 'FY24-25/010', seriesKey: 'default', cancelled: false },
+        { documentNumber: 'FY24-25/008', seriesKey: 'default', cancelled: false },
+        { documentNumber: 'FY24-25/009', seriesKey: 'default', cancelled: true },
+        { documentNumber: 'ACME-0042', seriesKey: 'series-acme', cancelled: false },
+      ])
+
+      expect(result).toEqual([
+        {
+          nature: DocumentNature.OUTWARD_INVOICES,
+          from: 'ACME-0042',
+          to: 'ACME-0042',
+          totalIssued: 1,
+          cancelled: 0,
+          netIssued: 1,
+        },
+        {
+          nature: DocumentNature.OUTWARD_INVOICES,
+          from: 'FY24-25/008',
+          to: 'FY24-25/010',
+          totalIssued: 3,
+          cancelled: 1,
+          netIssued: 2,
+        },
+      ])
+    })
+
+    it('should order numbers numerically within a series', () => {
+      const [series] = summarizeDocuments(DocumentNature.OUTWARD_INVOICES, [
+        { documentNumber: 'FY24-25/1000', seriesKey: 'default', cancelled: false },
+        { documentNumber: 'FY24-25/999', seriesKey: 'default', cancelled: false },
+      ])
+
+      expect(series.from).toBe('FY24-25/999')
+      expect(series.to).toBe('FY24-25/1000')
+    })
+
+    it('should return no rows when nothing was issued', () => {
+      expect(summarizeDocuments(DocumentNature.OUTWARD_INVOICES, [])).toEqual([])
+    })
+  })
+
+  describe('getSeriesKey', () => {
+    it('should group numbers by their prefix', () => {
+      expect(getSeriesKey('CN/2025-26/0001')).toBe('CN/2025-26/')
+      expect(getSeriesKey('PV/2025-26/0012')).toBe(getSeriesKey('PV/2025-26/0001'))
+    })
+  })
+})
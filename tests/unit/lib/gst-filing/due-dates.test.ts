@@ -7,6 +7,13 @@ import {
   isFilingOverdue,
   getDaysUntilDue,
   getUpcomingFilingPeriods,
+  getIFFDueDate,
+  getPMT06DueDate,
+  getQRMPStateCategory,
+  getQuarterEndPeriod,
+  getQuarterPeriods,
+  isQuarterStartPeriod,
+  formatQuarter,
 } from '@/lib/gst-filing/due-dates'
 
 describe('Due Date Calculations', () => {
@@ -244,3 +251,44 @@ describe('Period Parsing', () => {
     })
   })
 })
+
+describe('QRMP Due Dates', () => {
+  describe('quarters', () => {
+    it('should find the quarter of a period on the April-March fiscal year', () => {
+      expect(getQuarterPeriods('2024-05')).toEqual(['2024-04', '2024-05', '2024-06'])
+      expect(getQuarterPeriods('2025-01')).toEqual(['2025-01', '2025-02', '2025-03'])
+      expect(getQuarterEndPeriod('2024-11')).toBe('2024-12')
+      expect(isQuarterStartPeriod('2024-07')).toBe(true)
+      expect(isQuarterStartPeriod('2024-08')).toBe(false)
+      expect(formatQuarter('2024-12')).toBe('October–December 2024')
+    })
+  })
+
+  describe('getGSTR1DueDate', () => {
+    it('should return 13th of the month after the quarter for quarterly filers', () => {
+      expect(getGSTR1DueDate('2024-06', 'QUARTERLY')).toEqual(new Date(2024, 6, 13))
+      expect(getGSTR1DueDate('2024-12', 'QUARTERLY')).toEqual(new Date(2025, 0, 13))
+    })
+  })
+
+  describe('getGSTR3BDueDate', () => {
+    it('should return 22nd or 24th of the month after the quarter by state category', () => {
+      // Karnataka is Category I, Delhi Category II
+      expect(getQRMPStateCategory('29')).toBe(1)
+      expect(getQRMPStateCategory('07')).toBe(2)
+      expect(getGSTR3BDueDate('2024-06', 'QUARTERLY', '29')).toEqual(new Date(2024, 6, 22))
+      expect(getGSTR3BDueDate('2024-06', 'QUARTERLY', '07')).toEqual(new Date(2024, 6, 24))
+    })
+
+    it('should use the earlier Category I date when the state is unknown', () => {
+      expect(getGSTR3BDueDate('2025-03', 'QUARTERLY', null)).toEqual(new Date(2025, 3, 22))
+    })
+  })
+
+  describe('IFF and PMT-06', () => {
+    it('should be due on 13th and 25th of the following month', () => {
+      expect(getIFFDueDate('2024-04')).toEqual(new Date(2024, 4, 13))
+      expect(getPMT06DueDate('2024-11')).toEqual(new Date(2024, 11, 25))
+    })
+  })
+})
@@ -0,0 +1,304 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGSTR1Json,
+  validateGSTR1Json,
+  getGSTR1JsonFileName,
+  toReturnPeriod,
+  type GSTR1Document,
+} from '@/lib/gst-filing/gstr1-json'
+import { DocumentNature } from '@/lib/gst-filing/documents'
+
+describe('GSTR-1 JSON Export', () => {
+  const gstin = '29ABCDE1234F1Z5'
+
+  const document = (overrides: Partial<GSTR1Document>): GSTR1Document => ({
+    table: '4A',
+    type: 'INVOICE',
+    number: 'FY25-26/001',
+    date: new Date(2025, 3, 5),
+    recipientGstin: '27AAACB1234C1Z2',
+    placeOfSupply: '27',
+    value: 118000,
+    rates: [{ gstRate: 18, taxableValue: 100000, igst: 18000, cgst: 0, sgst: 0 }],
+    ...overrides,
+  })
+
+  const build = (documents: GSTR1Document[]) =>
+    buildGSTR1Json({ gstin, period: '2025-04', documents, hsnSummary: [], documentSummary: [] })
+
+  describe('buildGSTR1Json', () => {
+    it('should set the GSTIN and MMYYYY period headers', () => {
+      const json = build([])
+
+      expect(json).toMatchObject({ gstin, fp: '042025' })
+      expect(json.b2b).toBeUndefined()
+      expect(toReturnPeriod('2025-11')).toBe('112025')
+    })
+
+    it('should group B2B invoices by recipient with rate-wise items', () => {
+      const json = build([
+        document({}),
+        document({
+          number: 'FY25-26/002',
+          value: 10500.456,
+          rates: [
+            { gstRate: 5, taxableValue: 5000, igst: 250, cgst: 0, sgst: 0 },
+            { gstRate: 18, taxableValue: 4500.123, igst: 810.022, cgst: 0, sgst: 0 },
+          ],
+        }),
+      ])
+
+      expect(json.b2b).toHaveLength(1)
+      expect(json.b2b![0].ctin).toBe('27AAACB1234C1Z2')
+      expect(json.b2b![0].inv[1]).toEqual({
+        inum: 'FY25-26/002',
+        idt: '05-04-2025',
+        val: 10500.46,
+        pos: '27',
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: [
+          { num: 1, itm_det: { txval: 5000, rt: 5, iamt: 250, camt: 0, samt: 0, csamt: 0 } },
+          { num: 2, itm_det: { txval: 4500.12, rt: 18, iamt: 810.02, camt: 0, samt: 0, csamt: 0 } },
+        ],
+      })
+    })
+
+    it('should net B2C small notes into b2cs by place of supply and rate', () => {
+      const json = build([
+        document({
+          table: '7',
+          recipientGstin: null,
+          placeOfSupply: null,
+          rates: [{ gstRate: 18, taxableValue: 10000, igst: 0, cgst: 900, sgst: 900 }],
+        }),
+        document({
+          table: '7',
+          type: 'CREDIT_NOTE',
+          number: 'CN/25-26/001',
+          recipientGstin: null,
+          placeOfSupply: '29',
+          rates: [{ gstRate: 18, taxableValue: -2000, igst: 0, cgst: -180, sgst: -180 }],
+        }),
+      ])
+
+      expect(json.b2cs).toEqual([
+        { sply_ty: 'INTRA', pos: '29', typ: 'OE', rt: 18, txval: 8000, iamt: 0, camt: 720, samt: 720, csamt: 0 },
+      ])
+    })
+
+    it('should split exports by payment of IGST', () => {
+      const json = build([
+        document({ table: '6A', recipientGstin: null, placeOfSupply: null, rates: [{ gstRate: 0, taxableValue: 80000, igst: 0, cgst: 0, sgst: 0 }] }),
+        document({ table: '6A', number: 'FY25-26/003', recipientGstin: null, placeOfSupply: null, exportWithPayment: true }),
+      ])
+
+      expect(json.exp!.map((group) => group.exp_typ)).toEqual(['WOPAY', 'WPAY'])
+      expect(json.exp![1].inv[0].itms).toEqual([{ txval: 100000, rt: 18, iamt: 18000, csamt: 0 }])
+    })
+
+    it('should report notes as cdnr or cdnur with positive amounts', () => {
+      const credit = {
+        table: '9B',
+        type: 'CREDIT_NOTE' as const,
+        value: -11800,
+        rates: [{ gstRate: 18, taxableValue: -10000, igst: -1800, cgst: 0, sgst: 0 }],
+      }
+      const json = build([
+        document({ ...credit, number: 'CN/25-26/001', originalTable: '4A' }),
+        document({ ...credit, number: 'CN/25-26/002', originalTable: '6A', recipientGstin: null }),
+      ])
+
+      expect(json.cdnr![0].nt[0]).toMatchObject({ ntty: 'C', nt_num: 'CN/25-26/001', val: 11800, pos: '27' })
+      expect(json.cdnr![0].nt[0].itms[0].itm_det.txval).toBe(10000)
+      expect(json.cdnur).toEqual([
+        expect.objectContaining({ ntty: 'C', nt_num: 'CN/25-26/002', typ: 'EXPWOP' }),
+      ])
+    })
+
+    it('should report amended invoices and notes with their original number and date', () => {
+      const original = { number: 'FY25-26/001', date: new Date(2025, 2, 28) }
+      const json = build([
+        document({ table: '9A', originalTable: '4A', number: 'FY25-26/001A', original }),
+        document({ table: '9A', originalTable: '6A', recipientGstin: null, original }),
+        document({
+          table: '9C',
+          type: 'CREDIT_NOTE',
+          number: 'CN/25-26/001',
+          originalTable: '4A',
+          value: -11800,
+          rates: [{ gstRate: 18, taxableValue: -10000, igst: -1800, cgst: 0, sgst: 0 }],
+          original: { number: 'CN/25-26/001', date: new Date(2025, 2, 30) },
+        }),
+      ])
+
+      expect(json.b2b).toBeUndefined()
+      expect(json.b2ba![0]).toMatchObject({ ctin: '27AAACB1234C1Z2' })
+      expect(json.b2ba![0].inv[0]).toMatchObject({
+        oinum: 'FY25-26/001',
+        oidt: '28-03-2025',
+        inum: 'FY25-26/001A',
+        idt: '05-04-2025',
+        pos: '27',
+      })
+      expect(json.expa![0]).toMatchObject({ exp_typ: 'WOPAY', inv: [expect.objectContaining({ oinum: 'FY25-26/001' })] })
+      expect(json.cdnra![0].nt[0]).toMatchObject({
+        ont_num: 'CN/25-26/001',
+        ont_dt: '30-03-2025',
+        nt_num: 'CN/25-26/001',
+        val: 11800,
+      })
+      expect(json.b2cla).toBeUndefined()
+      expect(json.cdnura).toBeUndefined()
+    })
+
+    it('should report HSN/SAC rows per tab and documents issued per nature', () => {
+      const row = {
+        serviceCode: '998314',
+        description: 'IT design and development services',
+        uqc: 'NA',
+        quantity: 0,
+        gstRate: 18,
+        taxableValue: 200000,
+        igst: 36000,
+        cgst: 0,
+        sgst: 0,
+      }
+      const json = buildGSTR1Json({
+        gstin,
+        period: '2025-04',
+        documents: [],
+        hsnSummary: [
+          { ...row, supplyType: 'B2B' },
+          { ...row, supplyType: 'B2C', taxableValue: 5000, igst: 900 },
+        ],
+        documentSummary: [
+          {
+            nature: DocumentNature.CREDIT_NOTES,
+            from: 'CN/25-26/001',
+            to: 'CN/25-26/002',
+            totalIssued: 2,
+            cancelled: 0,
+            netIssued: 2,
+          },
+          {
+            nature: DocumentNature.OUTWARD_INVOICES,
+            from: 'FY25-26/001',
+            to: 'FY25-26/003',
+            totalIssued: 3,
+            cancelled: 1,
+            netIssued: 2,
+          },
+        ],
+      })
+
+      expect(json.hsn).toEqual({
+        hsn_b2b: [
+          {
+            num: 1,
+            hsn_sc: '998314',
+            desc: 'IT design and development services',
+            uqc: 'NA',
+            qty: 0,
+            rt: 18,
+            txval: 200000,
+            iamt: 36000,
+            camt: 0,
+            samt: 0,
+            csamt: 0,
+          },
+        ],
+        hsn_b2c: [expect.objectContaining({ num: 1, txval: 5000, iamt: 900 })],
+      })
+      expect(json.doc_issue!.doc_det).toEqual([
+        {
+          doc_num: 1,
+          doc_typ: 'Invoices for outward supply',
+          docs: [{ num: 1, from: 'FY25-26/001', to: 'FY25-26/003', totnum: 3, cancel: 1, net_issue: 2 }],
+        },
+        {
+          doc_num: 5,
+          doc_typ: 'Credit note',
+          docs: [{ num: 1, from: 'CN/25-26/001', to: 'CN/25-26/002', totnum: 2, cancel: 0, net_issue: 2 }],
+        },
+      ])
+    })
+  })
+
+  describe('validateGSTR1Json', () => {
+    it('should accept a well-formed return', () => {
+      expect(validateGSTR1Json(build([document({})]))).toEqual([])
+    })
+
+    it('should reject invalid recipient GSTINs, places of supply and rates', () => {
+      const json = build([
+        document({
+          recipientGstin: 'NOT-A-GSTIN',
+          placeOfSupply: null,
+          rates: [{ gstRate: 17, taxableValue: 1000, igst: 170, cgst: 0, sgst: 0 }],
+        }),
+      ])
+
+      expect(validateGSTR1Json(json).map((error) => error.message)).toEqual([
+        'Recipient GSTIN is not valid',
+        '17% is not a valid GST rate',
+        'Place of supply is missing or not a valid state code',
+      ])
+    })
+
+    it('should reject duplicate and over-long document numbers', () => {
+      const json = build([document({}), document({}), document({ number: 'INVOICE/2025-26/00001' })])
+
+      expect(validateGSTR1Json(json)).toEqual([
+        { section: 'b2b', reference: 'FY25-26/001', message: 'Document number is reported more than once' },
+        {
+          section: 'b2b',
+          reference: 'INVOICE/2025-26/00001',
+          message: 'Document number must be up to 16 letters, digits, "/" or "-"',
+        },
+      ])
+    })
+
+    it('should reject IGST on intra-state supplies', () => {
+      const json = build([document({ placeOfSupply: '29' })])
+
+      expect(validateGSTR1Json(json).map((error) => error.message)).toEqual([
+        'Intra-state supply must carry CGST and SGST, not IGST',
+      ])
+    })
+
+    it('should check amended invoices like the originals, including the original number', () => {
+      const json = build([
+        document({
+          table: '9A',
+          originalTable: '4A',
+          recipientGstin: 'NOT-A-GSTIN',
+          original: { number: 'INVOICE/2024-25/00001', date: new Date(2025, 2, 28) },
+        }),
+      ])
+
+      expect(validateGSTR1Json(json)).toEqual([
+        { section: 'b2ba', reference: 'NOT-A-GSTIN', message: 'Recipient GSTIN is not valid' },
+        {
+          section: 'b2ba',
+          reference: 'FY25-26/001',
+          message: 'Original document number must be up to 16 letters, digits, "/" or "-"',
+        },
+      ])
+    })
+
+    it('should reject IGST on exports without payment', () => {
+      const json = build([document({ table: '6A', recipientGstin: null })])
+
+      expect(validateGSTR1Json(json)).toEqual([
+        { section: 'exp', reference: 'FY25-26/001', message: 'Exports without payment cannot carry IGST' },
+      ])
+    })
+  })
+
+  describe('getGSTR1JsonFileName', () => {
+    it('should name the file after the period and GSTIN', () => {
+      expect(getGSTR1JsonFileName({ gstin, fp: '042025' })).toBe('GSTR1_042025_29ABCDE1234F1Z5.json')
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildGSTR3BComputation,
+  buildGSTR3BJson,
+  getGSTR3BJsonFileName,
+  type GSTR3BDocument,
+} from '@/lib/gst-filing/gstr3b-json'
+
+describe('GSTR-3B Computation and JSON Export', () => {
+  const dueDate = new Date(2025, 4, 20)
+
+  const document = (overrides: Partial<GSTR3BDocument>): GSTR3BDocument => ({
+    section: '3.1(a)',
+    number: 'FY25-26/001',
+    date: new Date(2025, 3, 5),
+    partyName: 'Acme',
+    isReverseCharge: false,
+    taxableValue: 100000,
+    igst: 0,
+    cgst: 9000,
+    sgst: 9000,
+    ...overrides,
+  })
+
+  const documents = [
+    document({}),
+    document({ number: 'CN/25-26/001', taxableValue: -10000, cgst: -900, sgst: -900 }),
+    document({ section: '3.1(b)', number: 'FY25-26/002', taxableValue: 500000, cgst: 0, sgst: 0 }),
+    document({
+      section: '3.1(d)',
+      number: 'SI/25-26/001',
+      partyName: 'Self (RCM)',
+      isReverseCharge: true,
+      taxableValue: 20000,
+      cgst: 1800,
+      sgst: 1800,
+    }),
+  ]
+
+  describe('buildGSTR3BComputation', () => {
+    it('should total each table with the documents behind it', () => {
+      const computation = buildGSTR3BComputation(documents, dueDate, dueDate)
+
+      expect(computation.supplies.map((table) => [table.code, table.totals, table.documents.length])).toEqual([
+        ['3.1(a)', { taxableValue: 90000, igst: 0, cgst: 8100, sgst: 8100 }, 2],
+        ['3.1(b)', { taxableValue: 500000, igst: 0, cgst: 0, sgst: 0 }, 1],
+        ['3.1(d)', { taxableValue: 20000, igst: 0, cgst: 1800, sgst: 1800 }, 1],
+      ])
+    })
+
+    it('should claim reverse charge tax as ITC in 4A(3) and net it off', () => {
+      const computation = buildGSTR3BComputation(documents, dueDate, dueDate)
+
+      expect(computation.itc.code).toBe('4A(3)')
+      expect(computation.itc.totals).toEqual({ taxableValue: 20000, igst: 0, cgst: 1800, sgst: 1800 })
+      expect(computation.netTaxPayable).toEqual({ igst: 0, cgst: 8100, sgst: 8100, total: 16200 })
+    })
+
+    it('should charge no interest or late fee on time', () => {
+      const computation = buildGSTR3BComputation(documents, dueDate, dueDate)
+
+      expect(computation.daysLate).toBe(0)
+      expect(computation.interest).toEqual({ igst: 0, cgst: 0, sgst: 0 })
+      expect(computation.lateFee).toEqual({ cgst: 0, sgst: 0 })
+    })
+
+    it('should charge 18% interest and a daily late fee when filed late', () => {
+      const computation = buildGSTR3BComputation(documents, dueDate, new Date(2025, 4, 30))
+
+      expect(computation.daysLate).toBe(10)
+      expect(computation.interest).toEqual({ igst: 0, cgst: 39.95, sgst: 39.95 })
+      expect(computation.lateFee).toEqual({ cgst: 250, sgst: 250 })
+    })
+
+    it('should cap the late fee, lower for nil returns', () => {
+      expect(buildGSTR3BComputation(documents, dueDate, new Date(2025, 8, 30)).lateFee.cgst).toBe(1000)
+      expect(buildGSTR3BComputation([], dueDate, new Date(2025, 4, 30)).lateFee.cgst).toBe(100)
+      expect(buildGSTR3BComputation([], dueDate, new Date(2025, 8, 30)).lateFee.cgst).toBe(250)
+    })
+  })
+
+  describe('buildGSTR3BJson', () => {
+    it('should fill sup_details, itc_elg and intr_ltfee', () => {
+      const computation = buildGSTR3BComputation(documents, dueDate, new Date(2025, 4, 30))
+      const json = buildGSTR3BJson({ gstin: '29ABCDE1234F1Z5', period: '2025-04', computation })
+
+      expect(json.ret_period).toBe('042025')
+      expect(json.sup_details).toEqual({
+        osup_det: { txval: 90000, iamt: 0, camt: 8100, samt: 8100, csamt: 0 },
+        osup_zero: { txval: 500000, iamt: 0, csamt: 0 },
+        osup_nil_exmp: { txval: 0 },
+        isup_rev: { txval: 20000, iamt: 0, camt: 1800, samt: 1800, csamt: 0 },
+        osup_nongst: { txval: 0 },
+      })
+      expect(json.itc_elg.itc_avl.find((row) => row.ty === 'ISRC')).toEqual({
+        ty: 'ISRC',
+        iamt: 0,
+        camt: 1800,
+        samt: 1800,
+        csamt: 0,
+      })
+      expect(json.itc_elg.itc_net).toEqual({ iamt: 0, camt: 1800, samt: 1800, csamt: 0 })
+      expect(json.intr_ltfee).toEqual({
+        intr_details: { iamt: 0, camt: 39.95, samt: 39.95, csamt: 0 },
+        ltfee_details: { iamt: 0, camt: 250, samt: 250, csamt: 0 },
+      })
+      expect(getGSTR3BJsonFileName(json)).toBe('GSTR3B_042025_29ABCDE1234F1Z5.json')
+    })
+  })
+})
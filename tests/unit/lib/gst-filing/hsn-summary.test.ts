@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { summarizeHsn, getUQC } from '@/lib/gst-filing/hsn-summary'
+import type { HsnWiseAmounts } from '@/lib/gst-filing/line-items'
+
+const amounts = (overrides: Partial<HsnWiseAmounts>): HsnWiseAmounts => ({
+  serviceCode: '998314',
+  gstRate: 18,
+  quantity: 1,
+  taxableValue: 1000,
+  igst: 180,
+  cgst: 0,
+  sgst: 0,
+  ...overrides,
+})
+
+describe('HSN/SAC Summary', () => {
+  describe('getUQC', () => {
+    it('should report services without a unit and goods as others', () => {
+      expect(getUQC('998314')).toBe('NA')
+      expect(getUQC('84713010')).toBe('OTH')
+    })
+  })
+
+  describe('summarizeHsn', () => {
+    it('should total invoices by supply type, code and rate', () => {
+      const result = summarizeHsn([
+        { supplyType: 'B2C', amounts: [amounts({ taxableValue: 500.255, igst: 90.05 })] },
+        { supplyType: 'B2B', amounts: [amounts({}), amounts({ gstRate: 5, igst: 50 })] },
+        { supplyType: 'B2B', amounts: [amounts({ taxableValue: 2000, igst: 360 })] },
+      ])
+
+      expect(result.map((row) => [row.supplyType, row.serviceCode, row.gstRate, row.taxableValue, row.igst])).toEqual([
+        ['B2B', '998314', 5, 1000, 50],
+        ['B2B', '998314', 18, 3000, 540],
+        ['B2C', '998314', 18, 500.26, 90.05],
+      ])
+      expect(result[0].description).toBe('IT design and development services')
+    })
+
+    it('should carry quantity only for goods', () => {
+      const [goods, services] = summarizeHsn([
+        {
+          supplyType: 'B2C',
+          amounts: [amounts({ serviceCode: '84713010', quantity: 2 }), amounts({ quantity: 3 })],
+        },
+        { supplyType: 'B2C', amounts: [amounts({ serviceCode: '84713010', quantity: 1.5 })] },
+      ])
+
+      expect(goods).toMatchObject({ serviceCode: '84713010', uqc: 'OTH', quantity: 3.5 })
+      expect(services).toMatchObject({ serviceCode: '998314', uqc: 'NA', quantity: 0 })
+    })
+  })
+})
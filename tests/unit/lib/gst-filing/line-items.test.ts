@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getRateWiseAmounts,
+  getHsnWiseAmounts,
+  sumRateWiseAmounts,
+  type FilingLineItem,
+} from '@/lib/gst-filing/line-items'
+
+const line = (overrides: Partial<FilingLineItem>): FilingLineItem => ({
+  serviceCode: '998314',
+  quantity: 1,
+  amount: 1000,
+  discountAmount: 0,
+  gstRate: 18,
+  igstAmount: 180,
+  cgstAmount: 0,
+  sgstAmount: 0,
+  ...overrides,
+})
+
+describe('Filing line item aggregation', () => {
+  const lineItems = [
+    line({ amount: 1000, discountAmount: 100, igstAmount: 162 }),
+    line({ serviceCode: '998313', amount: 500, igstAmount: 90 }),
+    line({ serviceCode: '998313', amount: 200, gstRate: 5, igstAmount: 10 }),
+  ]
+
+  describe('getRateWiseAmounts', () => {
+    it('should group taxable value and tax by rate, net of discounts', () => {
+      expect(getRateWiseAmounts(lineItems, 1)).toEqual([
+        { gstRate: 5, taxableValue: 200, igst: 10, cgst: 0, sgst: 0 },
+        { gstRate: 18, taxableValue: 1400, igst: 252, cgst: 0, sgst: 0 },
+      ])
+    })
+
+    it('should convert each group to INR', () => {
+      const [entry] = getRateWiseAmounts([line({ amount: 1234.56, igstAmount: 222.22 })], 83.45)
+
+      expect(entry.taxableValue).toBe(103024.03)
+      expect(entry.igst).toBe(18544.26)
+    })
+  })
+
+  describe('getHsnWiseAmounts', () => {
+    it('should group by HSN/SAC code and rate with quantities', () => {
+      const summary = getHsnWiseAmounts(lineItems, 1)
+
+      expect(summary.map((entry) => [entry.serviceCode, entry.gstRate, entry.taxableValue])).toEqual([
+        ['998313', 5, 200],
+        ['998313', 18, 500],
+        ['998314', 18, 900],
+      ])
+      expect(summary[2].quantity).toBe(1)
+    })
+  })
+
+  describe('sumRateWiseAmounts', () => {
+    it('should total the breakdown', () => {
+      expect(sumRateWiseAmounts(getRateWiseAmounts(lineItems, 1))).toEqual({
+        taxableValue: 1600,
+        igst: 262,
+        cgst: 0,
+        sgst: 0,
+      })
+    })
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getFilingFrequency,
+  getReturnTypeForPeriod,
+  getReturnsForPeriod,
+  formatReturnPeriod,
+  type FilingFrequencyChange,
+} from '@/lib/gst-filing/qrmp'
+
+describe('QRMP Scheme', () => {
+  const history: FilingFrequencyChange[] = [
+    { frequency: 'MONTHLY', effectiveFrom: '2025-10' },
+    { frequency: 'QUARTERLY', effectiveFrom: '2025-04' },
+  ]
+
+  describe('getFilingFrequency', () => {
+    it('should use the latest change effective on or before the period', () => {
+      expect(getFilingFrequency(history, '2025-03')).toBe('MONTHLY')
+      expect(getFilingFrequency(history, '2025-04')).toBe('QUARTERLY')
+      expect(getFilingFrequency(history, '2025-09')).toBe('QUARTERLY')
+      expect(getFilingFrequency(history, '2025-10')).toBe('MONTHLY')
+    })
+
+    it('should default to monthly without history', () => {
+      expect(getFilingFrequency([], '2025-06')).toBe('MONTHLY')
+    })
+  })
+
+  describe('getReturnTypeForPeriod', () => {
+    it('should file IFF and PMT-06 for months 1-2 of a quarter', () => {
+      expect(getReturnTypeForPeriod('GSTR1', '2025-04', 'QUARTERLY')).toBe('IFF')
+      expect(getReturnTypeForPeriod('GSTR3B', '2025-05', 'QUARTERLY')).toBe('PMT06')
+    })
+
+    it('should file GSTR-1 and GSTR-3B in the last month of a quarter and every month for monthly filers', () => {
+      expect(getReturnTypeForPeriod('GSTR1', '2025-06', 'QUARTERLY')).toBe('GSTR1')
+      expect(getReturnTypeForPeriod('GSTR3B', '2025-06', 'QUARTERLY')).toBe('GSTR3B')
+      expect(getReturnTypeForPeriod('GSTR1', '2025-04', 'MONTHLY')).toBe('GSTR1')
+    })
+  })
+
+  describe('getReturnsForPeriod', () => {
+    it('should schedule the optional IFF and PMT-06 for months 1-2', () => {
+      expect(getReturnsForPeriod('2025-07', 'QUARTERLY', '27')).toEqual([
+        {
+          filingType: 'IFF',
+          period: '2025-07',
+          frequency: 'QUARTERLY',
+          dueDate: new Date(2025, 7, 13),
+          isOptional: true,
+        },
+        {
+          filingType: 'PMT06',
+          period: '2025-07',
+          frequency: 'QUARTERLY',
+          dueDate: new Date(2025, 7, 25),
+          isOptional: false,
+        },
+      ])
+    })
+
+    it('should schedule the quarterly returns by state category', () => {
+      const returns = getReturnsForPeriod('2025-09', 'QUARTERLY', '09') // Uttar Pradesh, Category II
+
+      expect(returns.map((r) => [r.filingType, r.dueDate])).toEqual([
+        ['GSTR1', new Date(2025, 9, 13)],
+        ['GSTR3B', new Date(2025, 9, 24)],
+      ])
+    })
+
+    it('should schedule monthly returns on the 11th and 20th', () => {
+      const returns = getReturnsForPeriod('2025-09', 'MONTHLY', '09')
+
+      expect(returns.map((r) => [r.filingType, r.dueDate])).toEqual([
+        ['GSTR1', new Date(2025, 9, 11)],
+        ['GSTR3B', new Date(2025, 9, 20)],
+      ])
+    })
+  })
+
+  describe('formatReturnPeriod', () => {
+    it('should show the quarter for quarterly GSTR-1 and GSTR-3B', () => {
+      expect(formatReturnPeriod('2025-06', 'QUARTERLY', 'GSTR3B')).toBe('April–June 2025')
+      expect(formatReturnPeriod('2025-05', 'QUARTERLY', 'PMT06')).toBe('May 2025')
+      expect(formatReturnPeriod('2025-06', 'MONTHLY', 'GSTR1')).toBe('June 2025')
+    })
+  })
+})
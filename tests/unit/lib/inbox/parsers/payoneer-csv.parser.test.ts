@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { parsePayoneerCSV } from '@/lib/inbox/parsers/payoneer-csv.parser'
+
+describe('Payoneer CSV Parser', () => {
+  it('should attach separate fee rows to the payment they were charged on', () => {
+    const csvContent = [
+      'Transaction Date,Transaction ID,Description,Amount,Currency,Status',
+      '"Apr 05, 2024",P-1,Payment from Acme Corp,"1,000.00",USD,Completed',
+      '"Apr 05, 2024",P-2,Fee for payment from Acme Corp,-10.00,USD,Completed',
+      '"Apr 06, 2024",P-3,Card annual fee,-29.95,USD,Completed',
+    ].join('\n')
+
+    const result = parsePayoneerCSV(csvContent)
+
+    expect(result.success).toBe(true)
+    expect(result.payments).toEqual([
+      {
+        date: new Date(2024, 3, 5),
+        description: 'Payment from Acme Corp',
+        payerName: 'Acme Corp',
+        reference: 'P-1',
+        currency: 'USD',
+        grossAmount: 1000,
+        fee: 10,
+        netAmount: 990,
+      },
+    ])
+  })
+
+  it('should value payments at the rate of the withdrawal to INR', () => {
+    const csvContent = [
+      'Date,Description,Amount,Currency,Fee,Status,Target Amount,Target Currency',
+      '2024-04-05,Payment from Acme Corp - Invoice 7,500.00,USD,5.00,Completed,,',
+      '2024-04-06,Payment from Globex,300.00,USD,3.00,Completed,,',
+      '2024-04-10,Withdrawal to HDFC Bank,-792.00,USD,,Completed,"65,736.00",INR',
+    ].join('\n')
+
+    const result = parsePayoneerCSV(csvContent)
+
+    expect(result.payments).toEqual([
+      expect.objectContaining({ payerName: 'Acme Corp', netAmount: 495, exchangeRate: 83, inrCredited: 41085 }),
+      expect.objectContaining({ payerName: 'Globex', netAmount: 297, exchangeRate: 83, inrCredited: 24651 }),
+    ])
+  })
+
+  it('should reject files without the transaction columns', () => {
+    expect(parsePayoneerCSV('Name,Email\nAcme,billing@acme.com').success).toBe(false)
+  })
+})
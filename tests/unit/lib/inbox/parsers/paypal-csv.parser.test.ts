@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parsePayPalCSV } from '@/lib/inbox/parsers/paypal-csv.parser'
+
+const HEADER =
+  '"Date","Time","TimeZone","Name","Type","Status","Currency","Gross","Fee","Net","From Email Address","Transaction ID","Reference Txn ID","Invoice Number"'
+
+describe('PayPal CSV Parser', () => {
+  it('should read received payments with their fees', () => {
+    const csvContent = [
+      HEADER,
+      '"05/04/2024","10:15:00","IST","Acme Corp","Express Checkout Payment","Completed","USD","1,000.00","-44.40","955.60","billing@acme.com","TX1","","FY24-25/007"',
+      '"06/04/2024","09:00:00","IST","Globex","Payment Received","Pending","USD","200.00","-9.00","191.00","ap@globex.com","TX2","",""',
+    ].join('\n')
+
+    const result = parsePayPalCSV(csvContent)
+
+    expect(result.success).toBe(true)
+    expect(result.payments).toEqual([
+      {
+        date: new Date(2024, 3, 5),
+        description: 'Express Checkout Payment · Invoice FY24-25/007',
+        payerName: 'Acme Corp',
+        reference: 'TX1',
+        currency: 'USD',
+        grossAmount: 1000,
+        fee: 44.4,
+        netAmount: 955.6,
+      },
+    ])
+  })
+
+  it('should apply the rate of the conversion to INR that followed', () => {
+    const csvContent = [
+      HEADER,
+      '"05/04/2024","10:15:00","IST","Acme Corp","Express Checkout Payment","Completed","USD","1,000.00","-44.40","955.60","billing@acme.com","TX1","",""',
+      '"05/04/2024","10:15:05","IST","","General Currency Conversion","Completed","USD","-955.60","0.00","-955.60","","TX3","TX1",""',
+      '"05/04/2024","10:15:05","IST","","General Currency Conversion","Completed","INR","78,359.20","0.00","78,359.20","","TX4","TX1",""',
+      '"06/04/2024","08:00:00","IST","","General Withdrawal","Completed","INR","-78,359.20","0.00","-78,359.20","","TX5","",""',
+    ].join('\n')
+
+    const result = parsePayPalCSV(csvContent)
+
+    expect(result.payments).toHaveLength(1)
+    expect(result.payments![0]).toMatchObject({ exchangeRate: 82, inrCredited: 78359.2 })
+  })
+
+  it('should reject files without the activity columns', () => {
+    const result = parsePayPalCSV('Date,Description\n05/04/2024,Payment')
+
+    expect(result.success).toBe(false)
+    expect(result.error).toMatch(/Gross/)
+  })
+})
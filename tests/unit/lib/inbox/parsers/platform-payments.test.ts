@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyConversions,
+  summarizePlatformPayments,
+  toPaymentPrefill,
+  type PlatformPayment,
+} from '@/lib/inbox/parsers/platform-payments'
+
+function payment(overrides: Partial<PlatformPayment>): PlatformPayment {
+  return {
+    date: new Date(2024, 3, 5),
+    description: 'Payment',
+    currency: 'USD',
+    grossAmount: 100,
+    fee: 2,
+    netAmount: 98,
+    ...overrides,
+  }
+}
+
+describe('Platform Payments', () => {
+  describe('applyConversions', () => {
+    it('should allocate payments to the next conversion in their currency, oldest first', () => {
+      const payments = applyConversions(
+        [
+          payment({ date: new Date(2024, 3, 12), netAmount: 50 }),
+          payment({ date: new Date(2024, 3, 1), netAmount: 100 }),
+          payment({ date: new Date(2024, 3, 2), currency: 'EUR', netAmount: 100 }),
+        ],
+        [
+          { date: new Date(2024, 3, 10), currency: 'USD', amount: 100, exchangeRate: 83 },
+          { date: new Date(2024, 3, 15), currency: 'USD', amount: 50, exchangeRate: 84 },
+        ]
+      )
+
+      expect(payments[0]).toMatchObject({ exchangeRate: 84, inrCredited: 4200 })
+      expect(payments[1]).toMatchObject({ exchangeRate: 83, inrCredited: 8300 })
+      expect(payments[2].exchangeRate).toBeUndefined()
+    })
+  })
+
+  describe('summarizePlatformPayments', () => {
+    it('should total the payments in the main currency', () => {
+      const summary = summarizePlatformPayments([
+        payment({ payerName: 'Acme', inrCredited: 8134 }),
+        payment({ date: new Date(2024, 3, 9), payerName: 'Acme', grossAmount: 50, fee: 1, netAmount: 49 }),
+        payment({ currency: 'EUR', payerName: 'Globex' }),
+      ])
+
+      expect(summary).toEqual({
+        currency: 'USD',
+        totalGross: 150,
+        totalFees: 3,
+        totalNet: 147,
+        totalInrCredited: 8134,
+        payerNames: ['Acme', 'Globex'],
+        startDate: new Date(2024, 3, 5),
+        endDate: new Date(2024, 3, 9),
+        paymentCount: 3,
+      })
+    })
+  })
+
+  describe('toPaymentPrefill', () => {
+    it('should map a stored payment to payment form values', () => {
+      expect(
+        toPaymentPrefill({
+          date: '2024-04-05',
+          description: 'Payment from Acme',
+          reference: 'TX1',
+          currency: 'USD',
+          grossAmount: 1000,
+          fee: 44.4,
+          netAmount: 955.6,
+          exchangeRate: 82,
+          inrCredited: 78359.2,
+        })
+      ).toEqual({
+        amount: 1000,
+        paymentDate: new Date(2024, 3, 5),
+        reference: 'TX1',
+        amountReceivedBeforeFees: 955.6,
+        platformFeesInCurrency: 44.4,
+        creditedAmount: 78359.2,
+        actualExchangeRate: 82,
+      })
+    })
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { parseWiseCSV } from '@/lib/inbox/parsers/wise-csv.parser'
+
+describe('Wise CSV Parser', () => {
+  it('should read received money and conversions from a balance statement', () => {
+    const csvContent = [
+      '"TransferWise ID","Date","Amount","Currency","Description","Payment Reference","Running Balance","Exchange From","Exchange To","Exchange Rate","Payer Name","Payee Name","Total fees"',
+      '"TRANSFER-1","05-04-2024","995.86","USD","Received money from ACME CORP with reference INV-7","INV-7","995.86","","","","ACME CORP","","4.14"',
+      '"TRANSFER-2","08-04-2024","-995.86","USD","Sent money to My Bank","","0.00","USD","INR","83.05","","My Bank","5.86"',
+    ].join('\n')
+
+    const result = parseWiseCSV(csvContent)
+
+    expect(result.success).toBe(true)
+    expect(result.payments).toEqual([
+      {
+        date: new Date(2024, 3, 5),
+        description: 'Received money from ACME CORP with reference INV-7',
+        payerName: 'ACME CORP',
+        reference: 'INV-7',
+        currency: 'USD',
+        grossAmount: 1000,
+        fee: 4.14,
+        netAmount: 995.86,
+        exchangeRate: 83.05,
+        inrCredited: 82706.17,
+      },
+    ])
+  })
+
+  it('should read incoming transfers from the transaction history export', () => {
+    const csvContent = [
+      'ID,Status,Direction,Created on,Finished on,Source fee amount,Source fee currency,Target fee amount,Target fee currency,Source name,Source amount (after fees),Source currency,Target name,Target amount (after fees),Target currency,Exchange rate,Reference',
+      'T-1,COMPLETED,IN,2024-04-05 10:00:00,2024-04-05 10:05:00,,,6.20,EUR,Globex GmbH,800,EUR,Me,793.80,EUR,1,RE-2024-11',
+      'T-2,COMPLETED,OUT,2024-04-09 11:00:00,2024-04-09 11:01:00,3.80,EUR,,,Me,793.80,EUR,My Bank,71442.00,INR,90.00,',
+      'T-3,CANCELLED,IN,2024-04-10 11:00:00,,,,,,Initech,50,EUR,Me,50,EUR,1,',
+    ].join('\n')
+
+    const result = parseWiseCSV(csvContent)
+
+    expect(result.payments).toEqual([
+      expect.objectContaining({
+        date: new Date(2024, 3, 5),
+        payerName: 'Globex GmbH',
+        reference: 'RE-2024-11',
+        currency: 'EUR',
+        grossAmount: 800,
+        fee: 6.2,
+        netAmount: 793.8,
+        exchangeRate: 90,
+        inrCredited: 71442,
+      }),
+    ])
+  })
+
+  it('should reject unrecognised files', () => {
+    expect(parseWiseCSV('Name,Email\nAcme,billing@acme.com').success).toBe(false)
+  })
+})
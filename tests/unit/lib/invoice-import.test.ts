@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { matchImportClient, parseImportDate, parseInvoiceImport } from '@/lib/invoice-import'
+import type { SpreadsheetRecord } from '@/lib/spreadsheet'
+
+function record(rowNumber: number, values: Record<string, string>): SpreadsheetRecord {
+  return {
+    rowNumber,
+    values: {
+      invoice_number: 'FY24-25/001',
+      invoice_date: '2024-04-15',
+      client_email: 'billing@acme.com',
+      description: 'Development',
+      sac_code: '99831190',
+      quantity: '10',
+      rate: '100',
+      ...values,
+    },
+  }
+}
+
+describe('Invoice Import', () => {
+  describe('parseInvoiceImport', () => {
+    it('should group rows with the same invoice number into one invoice', () => {
+      const result = parseInvoiceImport([
+        record(2, { currency: 'USD', exchange_rate: '83.25' }),
+        record(3, { description: 'Support', quantity: '2', rate: '1,250.50' }),
+        record(4, { invoice_number: 'FY24-25/002', invoice_date: '02/05/2024', export_with_payment: 'Yes' }),
+      ])
+
+      expect(result.errors).toEqual([])
+      expect(result.invoices).toHaveLength(2)
+      expect(result.invoices[0]).toMatchObject({
+        invoiceNumber: 'FY24-25/001',
+        rowNumbers: [2, 3],
+        currency: 'USD',
+        exchangeRate: 83.25,
+        exportWithPayment: false,
+      })
+      expect(result.invoices[0].lineItems).toEqual([
+        { description: 'Development', sacCode: '99831190', quantity: 10, rate: 100 },
+        { description: 'Support', sacCode: '99831190', quantity: 2, rate: 1250.5 },
+      ])
+      expect(result.invoices[1].issueDate).toEqual(new Date(2024, 4, 2))
+      expect(result.invoices[1].exportWithPayment).toBe(true)
+    })
+
+    it('should report errors per row and leave the invoice out', () => {
+      const result = parseInvoiceImport([
+        record(2, {}),
+        record(3, { sac_code: '12345', quantity: '0' }),
+        record(4, { invoice_number: 'FY24-25/002', client_email: '', invoice_date: '31/02/2024' }),
+        record(5, { invoice_number: '' }),
+      ])
+
+      expect(result.invoices).toEqual([])
+      expect(result.errors.map((error) => error.rowNumber)).toEqual([3, 3, 4, 4, 5])
+      expect(result.errors[0].message).toMatch(/^(SAC Code|Quantity):/)
+      expect(result.errors.find((error) => error.rowNumber === 4 && /Invoice date/.test(error.message))).toBeDefined()
+      expect(result.errors.find((error) => error.rowNumber === 5)?.message).toBe('Invoice number is required')
+    })
+
+    it('should flag invoice columns that disagree between rows', () => {
+      const result = parseInvoiceImport([record(2, {}), record(3, { invoice_date: '2024-04-16' })])
+
+      expect(result.errors).toEqual([
+        {
+          rowNumber: 3,
+          invoiceNumber: 'FY24-25/001',
+          message: 'Invoice Date differs from row 2 of the same invoice',
+        },
+      ])
+    })
+
+    it('should report missing columns once', () => {
+      const result = parseInvoiceImport([{ rowNumber: 2, values: { invoice_number: 'FY24-25/001' } }])
+
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].message).toBe('Missing columns: Invoice Date, Description, SAC Code, Quantity, Rate')
+    })
+  })
+
+  describe('matchImportClient', () => {
+    const clients = [
+      { id: 'acme', name: 'Acme Corp', email: 'billing@acme.com' },
+      { id: 'globex-1', name: 'Globex', email: 'ap@globex.com' },
+      { id: 'globex-2', name: 'Globex', email: 'finance@globex.com' },
+    ]
+
+    it('should match by email before name', () => {
+      expect(matchImportClient(clients, { clientEmail: 'BILLING@acme.com ', clientName: 'Other' })).toEqual({
+        client: clients[0],
+      })
+      expect(matchImportClient(clients, { clientEmail: '', clientName: 'acme corp' })).toEqual({ client: clients[0] })
+    })
+
+    it('should refuse ambiguous and unknown clients', () => {
+      expect(matchImportClient(clients, { clientEmail: '', clientName: 'Globex' })).toEqual({
+        error: expect.stringMatching(/More than one client/),
+      })
+      expect(matchImportClient(clients, { clientEmail: 'new@client.com', clientName: '' })).toEqual({
+        error: expect.stringMatching(/No client found/),
+      })
+    })
+  })
+
+  describe('parseImportDate', () => {
+    it('should read ISO, Indian and Excel serial dates', () => {
+      expect(parseImportDate('2024-04-15')).toEqual(new Date(2024, 3, 15))
+      expect(parseImportDate('15-04-2024')).toEqual(new Date(2024, 3, 15))
+      expect(parseImportDate('15/04/24')).toEqual(new Date(2024, 3, 15))
+      expect(parseImportDate('15-Apr-2024')).toEqual(new Date(2024, 3, 15))
+      expect(parseImportDate('45397')).toEqual(new Date(2024, 3, 15))
+      expect(parseImportDate('April 15')).toBeUndefined()
+    })
+  })
+})
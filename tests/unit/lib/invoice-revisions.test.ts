@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { diffInvoiceSnapshots, toInvoiceSnapshot, type InvoiceSnapshot } from '@/lib/invoice-revisions'
+
+const baseSnapshot: InvoiceSnapshot = {
+  invoiceNumber: 'FY24-25/001',
+  invoiceDate: '2024-06-01T00:00:00.000Z',
+  dueDate: '2024-07-01T00:00:00.000Z',
+  status: 'SENT',
+  clientId: 'client-1',
+  clientName: 'Acme Corp',
+  currency: 'USD',
+  exchangeRate: 83.5,
+  exchangeSource: 'RBI',
+  lutId: 'lut-1',
+  exportWithPayment: false,
+  placeOfSupply: 'Outside India (Section 2-6)',
+  subtotal: 1500,
+  igstRate: 0,
+  igstAmount: 0,
+  cgstRate: 0,
+  cgstAmount: 0,
+  sgstRate: 0,
+  sgstAmount: 0,
+  totalAmount: 1500,
+  totalInINR: 125250,
+  paymentTerms: 'Net 30',
+  bankDetails: null,
+  notes: null,
+  cancellationReason: null,
+  lineItems: [
+    {
+      description: 'Consulting',
+      serviceCode: '99831190',
+      quantity: 10,
+      rate: 150,
+      amount: 1500,
+      discountType: null,
+      discountValue: 0,
+      discountAmount: 0,
+      gstRate: 0,
+    },
+  ],
+}
+
+describe('Invoice Revisions', () => {
+  describe('toInvoiceSnapshot', () => {
+    it('should store dates as ISO strings and decimals as numbers', () => {
+      const snapshot = toInvoiceSnapshot({
+        invoiceNumber: 'FY24-25/001',
+        invoiceDate: new Date('2024-06-01T00:00:00.000Z'),
+        dueDate: new Date('2024-07-01T00:00:00.000Z'),
+        exchangeRate: new Prisma.Decimal('83.5'),
+        subtotal: new Prisma.Decimal('1500'),
+        client: { name: 'Acme Corp' },
+        lineItems: [
+          {
+            description: 'Consulting',
+            serviceCode: '99831190',
+            quantity: new Prisma.Decimal('10'),
+            rate: new Prisma.Decimal('150'),
+            amount: new Prisma.Decimal('1500'),
+            discountType: null,
+            discountValue: new Prisma.Decimal('0'),
+            discountAmount: new Prisma.Decimal('0'),
+            gstRate: new Prisma.Decimal('0'),
+          },
+        ],
+      } as unknown as Parameters<typeof toInvoiceSnapshot>[0])
+
+      expect(snapshot.invoiceDate).toBe('2024-06-01T00:00:00.000Z')
+      expect(snapshot.exchangeRate).toBe(83.5)
+      expect(snapshot.subtotal).toBe(1500)
+      expect(snapshot.clientName).toBe('Acme Corp')
+      expect(snapshot.lineItems[0]).toMatchObject({ quantity: 10, rate: 150, amount: 1500 })
+    })
+  })
+
+  describe('diffInvoiceSnapshots', () => {
+    it('should return no changes for identical versions', () => {
+      expect(diffInvoiceSnapshots(baseSnapshot, { ...baseSnapshot })).toEqual([])
+    })
+
+    it('should list changed header fields with labels', () => {
+      const changes = diffInvoiceSnapshots(baseSnapshot, {
+        ...baseSnapshot,
+        clientId: 'client-2',
+        clientName: 'Globex',
+        exchangeRate: 84,
+      })
+
+      expect(changes).toEqual([
+        { field: 'clientName', label: 'Client', from: 'Acme Corp', to: 'Globex' },
+        { field: 'exchangeRate', label: 'Exchange rate', from: 83.5, to: 84 },
+      ])
+    })
+
+    it('should compare line items field by field', () => {
+      const changes = diffInvoiceSnapshots(baseSnapshot, {
+        ...baseSnapshot,
+        lineItems: [{ ...baseSnapshot.lineItems[0], quantity: 12, amount: 1800 }],
+      })
+
+      expect(changes).toEqual([
+        { field: 'lineItems.0.quantity', label: 'Line 1 quantity', from: 10, to: 12 },
+        { field: 'lineItems.0.amount', label: 'Line 1 amount', from: 1500, to: 1800 },
+      ])
+    })
+
+    it('should report added and removed line items', () => {
+      const extraLine = { ...baseSnapshot.lineItems[0], description: 'Support', quantity: 2, rate: 100 }
+      const withExtraLine = { ...baseSnapshot, lineItems: [...baseSnapshot.lineItems, extraLine] }
+
+      expect(diffInvoiceSnapshots(baseSnapshot, withExtraLine)).toEqual([
+        { field: 'lineItems.1', label: 'Line 2 added', from: null, to: 'Support (2 x 100)' },
+      ])
+      expect(diffInvoiceSnapshots(withExtraLine, baseSnapshot)).toEqual([
+        { field: 'lineItems.1', label: 'Line 2 removed', from: 'Support (2 x 100)', to: null },
+      ])
+    })
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  calculateLineItemTaxes,
+  getHeaderGstRate,
+  hasMixedGstRates,
+} from '@/lib/line-item-tax'
+
+describe('Line Item Tax', () => {
+  describe('calculateLineItemTaxes', () => {
+    it('should discount each line before tax and roll up the totals', () => {
+      const result = calculateLineItemTaxes(
+        [
+          { quantity: 10, rate: 100, discountType: 'PERCENT', discountValue: 10 },
+          { quantity: 1, rate: 500, discountType: 'AMOUNT', discountValue: 50 },
+        ],
+        { gstRate: 18, isInterstate: true }
+      )
+
+      expect(result.lines[0]).toMatchObject({ amount: 1000, discountAmount: 100, taxableValue: 900, igstAmount: 162 })
+      expect(result.lines[1]).toMatchObject({ amount: 500, discountAmount: 50, taxableValue: 450, igstAmount: 81 })
+      expect(result.subtotal).toBe(1350)
+      expect(result.discountAmount).toBe(150)
+      expect(result.igstAmount).toBe(243)
+      expect(result.totalTax).toBe(243)
+    })
+
+    it('should use line rates and fall back to the invoice rate', () => {
+      const result = calculateLineItemTaxes(
+        [
+          { quantity: 1, rate: 1000, gstRate: 5 },
+          { quantity: 1, rate: 1000 },
+        ],
+        { gstRate: 18, isInterstate: false }
+      )
+
+      expect(result.lines.map((line) => line.gstRate)).toEqual([5, 18])
+      expect(result.lines[0]).toMatchObject({ cgstAmount: 25, sgstAmount: 25, igstAmount: 0 })
+      expect(result.lines[1]).toMatchObject({ cgstAmount: 90, sgstAmount: 90, igstAmount: 0 })
+      expect(result.cgstAmount).toBe(115)
+      expect(result.sgstAmount).toBe(115)
+      expect(result.totalTax).toBe(230)
+      // Header shows the highest rate when lines differ
+      expect(result.cgstRate).toBe(9)
+      expect(result.igstRate).toBe(0)
+    })
+
+    it('should force the invoice rate on every line when asked (exports)', () => {
+      const result = calculateLineItemTaxes(
+        [
+          { quantity: 1, rate: 1000, gstRate: 5 },
+          { quantity: 2, rate: 250 },
+        ],
+        { gstRate: 0, isInterstate: true, forceGstRate: true }
+      )
+
+      expect(result.lines.map((line) => line.gstRate)).toEqual([0, 0])
+      expect(result.subtotal).toBe(1500)
+      expect(result.totalTax).toBe(0)
+      expect(result.igstRate).toBe(0)
+    })
+
+    it('should round tax per line', () => {
+      const result = calculateLineItemTaxes(
+        [
+          { quantity: 1, rate: 0.05 },
+          { quantity: 1, rate: 0.05 },
+        ],
+        { gstRate: 18, isInterstate: false }
+      )
+
+      // 0.05 x 9% = 0.0045 rounds to 0 on each line
+      expect(result.cgstAmount).toBe(0)
+      expect(result.subtotal).toBe(0.1)
+    })
+  })
+
+  describe('getHeaderGstRate', () => {
+    it('should return the common rate or the highest rate', () => {
+      expect(getHeaderGstRate([18, 18])).toBe(18)
+      expect(getHeaderGstRate([5, 18, 12])).toBe(18)
+      expect(getHeaderGstRate([])).toBeNull()
+    })
+  })
+
+  describe('hasMixedGstRates', () => {
+    it('should detect lines with different rates', () => {
+      expect(hasMixedGstRates([18, 18])).toBe(false)
+      expect(hasMixedGstRates([5, 18])).toBe(true)
+      expect(hasMixedGstRates([])).toBe(false)
+    })
+  })
+})
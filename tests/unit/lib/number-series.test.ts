@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_NUMBER_SERIES,
+  extractSeriesSequence,
+  findSequenceGaps,
+  formatSeriesNumber,
+  getNextSeriesSequence,
+  getSeriesSearchPrefix,
+  renderSeriesTemplate,
+  selectNumberSeries,
+  validateSeriesFormat,
+  type NumberSeriesFormat,
+} from '@/lib/number-series'
+
+const clientSeries: NumberSeriesFormat = {
+  prefix: 'ACME-',
+  suffix: '',
+  padding: 4,
+  resetRule: 'NEVER',
+}
+
+const suffixSeries: NumberSeriesFormat = {
+  prefix: 'INV-',
+  suffix: '/{FYYYY}',
+  padding: 2,
+  resetRule: 'FISCAL_YEAR',
+}
+
+describe('Number Series', () => {
+  describe('formatSeriesNumber', () => {
+    it('should keep the existing format for the default series', () => {
+      expect(formatSeriesNumber(DEFAULT_NUMBER_SERIES, '2024-25', 1)).toBe('FY24-25/001')
+      expect(formatSeriesNumber(DEFAULT_NUMBER_SERIES, '2024-25', 1234)).toBe('FY24-25/1234')
+    })
+
+    it('should render fiscal year tokens in the prefix and suffix', () => {
+      expect(renderSeriesTemplate('{FY}/{FYYYY}', '2025-26')).toBe('25-26/2025-26')
+      expect(formatSeriesNumber(suffixSeries, '2025-26', 7)).toBe('INV-07/2025-26')
+      expect(formatSeriesNumber(clientSeries, '2025-26', 42)).toBe('ACME-0042')
+    })
+  })
+
+  describe('extractSeriesSequence', () => {
+    it('should only match numbers of the same fiscal year when the series resets', () => {
+      expect(extractSeriesSequence(DEFAULT_NUMBER_SERIES, '2024-25', 'FY24-25/015')).toBe(15)
+      expect(extractSeriesSequence(DEFAULT_NUMBER_SERIES, '2024-25', 'FY23-24/015')).toBeNull()
+      expect(extractSeriesSequence(suffixSeries, '2025-26', 'INV-03/2025-26')).toBe(3)
+      expect(extractSeriesSequence(suffixSeries, '2025-26', 'INV-03/2024-25')).toBeNull()
+    })
+
+    it('should match any fiscal year when the series never resets', () => {
+      const yearly: NumberSeriesFormat = { ...suffixSeries, resetRule: 'NEVER' }
+      expect(extractSeriesSequence(yearly, '2025-26', 'INV-03/2024-25')).toBe(3)
+      expect(extractSeriesSequence(clientSeries, '2025-26', 'ACME-0042')).toBe(42)
+      expect(extractSeriesSequence(clientSeries, '2025-26', 'ACME-42-X')).toBeNull()
+    })
+  })
+
+  describe('getNextSeriesSequence', () => {
+    it('should continue after the highest number and ignore other series', () => {
+      const numbers = ['INV-01/2025-26', 'INV-05/2025-26', 'INV-09/2024-25', 'SI/2025-26/0001']
+      expect(getNextSeriesSequence(suffixSeries, '2025-26', numbers)).toBe(6)
+      expect(getNextSeriesSequence(suffixSeries, '2026-27', numbers)).toBe(1)
+    })
+  })
+
+  describe('getSeriesSearchPrefix', () => {
+    it('should return the fixed leading text of the series', () => {
+      expect(getSeriesSearchPrefix(DEFAULT_NUMBER_SERIES, '2024-25')).toBe('FY24-25/')
+      expect(getSeriesSearchPrefix({ ...DEFAULT_NUMBER_SERIES, resetRule: 'NEVER' }, '2024-25')).toBe('FY')
+      expect(getSeriesSearchPrefix(suffixSeries, '2025-26')).toBe('INV-')
+    })
+  })
+
+  describe('selectNumberSeries', () => {
+    const series = [
+      { id: 'general', clientId: null, invoiceType: null, isActive: true },
+      { id: 'domestic', clientId: null, invoiceType: 'DOMESTIC' as const, isActive: true },
+      { id: 'acme', clientId: 'client-acme', invoiceType: null, isActive: true },
+      { id: 'acme-export', clientId: 'client-acme', invoiceType: 'EXPORT' as const, isActive: false },
+    ]
+
+    it('should prefer client and type specific series over general ones', () => {
+      expect(selectNumberSeries(series, { clientId: 'client-acme', invoiceType: 'EXPORT' })?.id).toBe('acme')
+      expect(selectNumberSeries(series, { clientId: 'client-other', invoiceType: 'DOMESTIC' })?.id).toBe('domestic')
+      expect(selectNumberSeries(series, { clientId: 'client-other', invoiceType: 'EXPORT' })?.id).toBe('general')
+    })
+
+    it('should return null when no active series applies', () => {
+      expect(selectNumberSeries([series[3]], { clientId: 'client-acme', invoiceType: 'EXPORT' })).toBeNull()
+    })
+  })
+
+  describe('validateSeriesFormat', () => {
+    it('should accept valid formats', () => {
+      expect(validateSeriesFormat(DEFAULT_NUMBER_SERIES)).toBeNull()
+      expect(validateSeriesFormat(clientSeries)).toBeNull()
+      expect(validateSeriesFormat(suffixSeries)).toBeNull()
+    })
+
+    it('should reject formats that cannot be numbered reliably', () => {
+      expect(validateSeriesFormat({ ...clientSeries, prefix: 'ACME_' })).toMatch(/may only contain/)
+      expect(validateSeriesFormat({ ...clientSeries, prefix: 'ACME2' })).toMatch(/Separate the sequence/)
+      expect(validateSeriesFormat({ ...clientSeries, resetRule: 'FISCAL_YEAR' })).toMatch(/\{FY\}/)
+      expect(validateSeriesFormat({ ...clientSeries, prefix: 'SI/' })).toMatch(/reserved/)
+    })
+
+    it('should reject numbers longer than 16 characters', () => {
+      expect(validateSeriesFormat({ ...suffixSeries, prefix: 'INVOICE-', padding: 3 })).toMatch(/16 characters/)
+    })
+  })
+
+  describe('findSequenceGaps', () => {
+    it('should list numbers never issued below the highest number', () => {
+      expect(findSequenceGaps([1, 2, 5, 3, 8])).toEqual({
+        first: 1,
+        last: 8,
+        issued: 5,
+        missing: [4, 6, 7],
+      })
+    })
+
+    it('should report missing numbers before the first issued number', () => {
+      expect(findSequenceGaps([3, 4]).missing).toEqual([1, 2])
+    })
+
+    it('should handle an empty series', () => {
+      expect(findSequenceGaps([])).toEqual({ first: null, last: null, issued: 0, missing: [] })
+    })
+  })
+})
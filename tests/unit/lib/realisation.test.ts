@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getRealisationAlertLevel,
+  getRealisationDeadline,
+  getRealisationSummary,
+  parseFircRegister,
+  proposeFircMatches,
+  scoreFircAgainstPayment,
+  toRealisedPayment,
+  type FircRecord,
+  type PaymentForFircMatching,
+} from '@/lib/realisation'
+
+describe('Export Realisation', () => {
+  const invoiceDate = new Date(2025, 0, 15)
+
+  describe('getRealisationDeadline', () => {
+    it('should fall nine months after the invoice date', () => {
+      expect(getRealisationDeadline(invoiceDate)).toEqual(new Date(2025, 9, 15))
+    })
+  })
+
+  describe('getRealisationSummary', () => {
+    const asOf = new Date(2025, 8, 1)
+
+    it('should report an unpaid invoice as unrealised with days to the deadline', () => {
+      const summary = getRealisationSummary({ invoiceDate, amountReceivable: 1000, payments: [] }, asOf)
+
+      expect(summary.status).toBe('UNREALISED')
+      expect(summary.unrealisedAmount).toBe(1000)
+      expect(summary.daysOutstanding).toBe(229)
+      expect(summary.daysRemaining).toBe(44)
+    })
+
+    it('should report part payment as partially realised', () => {
+      const summary = getRealisationSummary(
+        {
+          invoiceDate,
+          amountReceivable: 1000,
+          payments: [{ amount: 400, realisedOn: new Date(2025, 2, 1), fircNumber: 'FIRC-1' }],
+        },
+        asOf
+      )
+
+      expect(summary.status).toBe('PARTIALLY_REALISED')
+      expect(summary.realisedAmount).toBe(400)
+      expect(summary.unrealisedAmount).toBe(600)
+      expect(summary.missingFirc).toBe(false)
+    })
+
+    it('should report an open invoice past the deadline as overdue', () => {
+      const summary = getRealisationSummary(
+        {
+          invoiceDate,
+          amountReceivable: 1000,
+          payments: [{ amount: 400, realisedOn: new Date(2025, 2, 1) }],
+        },
+        new Date(2025, 9, 20)
+      )
+
+      expect(summary.status).toBe('OVERDUE')
+      expect(summary.daysRemaining).toBe(-5)
+    })
+
+    it('should measure days outstanding to the payment that completed realisation', () => {
+      const summary = getRealisationSummary(
+        {
+          invoiceDate,
+          amountReceivable: 1000,
+          payments: [
+            { amount: 600, realisedOn: new Date(2025, 10, 1) },
+            { amount: 400, realisedOn: new Date(2025, 1, 14), fircNumber: 'FIRC-1' },
+          ],
+        },
+        new Date(2026, 0, 1)
+      )
+
+      expect(summary.status).toBe('REALISED')
+      expect(summary.realisedDate).toEqual(new Date(2025, 10, 1))
+      expect(summary.daysOutstanding).toBe(290)
+      expect(summary.realisedLate).toBe(true)
+      expect(summary.fircCoveredAmount).toBe(400)
+      expect(summary.missingFirc).toBe(true)
+    })
+
+    it('should date credit applied to the invoice from when the advance was received', () => {
+      const payment = toRealisedPayment({
+        amount: 500,
+        paymentDate: new Date(2025, 2, 1),
+        fircNumber: null,
+        creditApplication: { credit: { receivedDate: new Date(2024, 11, 1), fircNumber: 'FIRC-ADV' } },
+      })
+
+      expect(payment).toEqual({ amount: 500, realisedOn: new Date(2024, 11, 1), fircNumber: 'FIRC-ADV' })
+    })
+  })
+
+  describe('getRealisationAlertLevel', () => {
+    it('should step up at 60 days, 15 days and once overdue', () => {
+      expect(getRealisationAlertLevel(90)).toBe(0)
+      expect(getRealisationAlertLevel(60)).toBe(1)
+      expect(getRealisationAlertLevel(15)).toBe(2)
+      expect(getRealisationAlertLevel(0)).toBe(2)
+      expect(getRealisationAlertLevel(-1)).toBe(3)
+    })
+  })
+
+  describe('parseFircRegister', () => {
+    it('should read an e-BRC download below its title rows', () => {
+      const result = parseFircRegister([
+        ['e-BRC Details for IEC 0123456789'],
+        [],
+        ['eBRC No', 'eBRC Date', 'Invoice No', 'FCC', 'Realised Value in FCC', 'Realised Value in INR', 'Remitter Name'],
+        ['EBRC0001', '20/02/2025', 'FY24-25/001', 'usd', '1,000.00', '83,250.00', 'Acme Corp'],
+        ['Total', '', '', '', '1,000.00', '83,250.00', ''],
+      ])
+
+      expect(result.success).toBe(true)
+      expect(result.records).toHaveLength(2)
+      expect(result.records![0]).toEqual({
+        rowNumber: 4,
+        documentNumber: 'EBRC0001',
+        documentDate: new Date(2025, 1, 20),
+        currency: 'USD',
+        foreignAmount: 1000,
+        inrAmount: 83250,
+        remitter: 'Acme Corp',
+        reference: 'FY24-25/001',
+      })
+    })
+
+    it('should fail without a certificate number column', () => {
+      const result = parseFircRegister([['Date', 'Amount'], ['2025-02-20', '1000']])
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('certificate table')
+    })
+  })
+
+  describe('FIRC matching', () => {
+    const record: FircRecord = {
+      rowNumber: 2,
+      documentNumber: 'EBRC0001',
+      documentDate: new Date(2025, 1, 20),
+      currency: 'USD',
+      foreignAmount: 1000,
+      inrAmount: 83250,
+      remitter: 'ACME CORPORATION',
+      reference: 'FY24-25/001',
+    }
+
+    const payments: PaymentForFircMatching[] = [
+      {
+        id: 'payment-1',
+        invoiceNumber: 'FY24-25/001',
+        clientName: 'Acme Corp',
+        currency: 'USD',
+        amount: 1000,
+        creditedAmount: 83250,
+        paymentDate: new Date(2025, 1, 18),
+      },
+      {
+        id: 'payment-2',
+        invoiceNumber: 'FY24-25/002',
+        clientName: 'Globex',
+        currency: 'USD',
+        amount: 1000,
+        creditedAmount: null,
+        paymentDate: new Date(2025, 1, 18),
+      },
+    ]
+
+    it('should score invoice number, amount, remitter and date', () => {
+      const proposal = scoreFircAgainstPayment(record, payments[0])
+
+      expect(proposal?.score).toBe(100)
+      expect(proposal?.reasons).toEqual([
+        'Invoice or remittance reference matches',
+        'Amount equals payment',
+        'Remitter is the client',
+        'Issued after the payment was received',
+      ])
+    })
+
+    it('should not match a certificate in another currency', () => {
+      expect(scoreFircAgainstPayment({ ...record, currency: 'EUR' }, payments[0])).toBeNull()
+    })
+
+    it('should propose each payment for one certificate only', () => {
+      const proposals = proposeFircMatches([record, { ...record, rowNumber: 3, reference: '' }], payments)
+
+      expect(proposals.get(0)?.paymentId).toBe('payment-1')
+      expect(proposals.get(1)?.paymentId).toBe('payment-2')
+    })
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getOccurrenceDate,
+  getRecurringDueDate,
+  isRecurringInvoiceDue,
+  isScheduleComplete,
+} from '@/lib/recurring-invoices'
+
+describe('Recurring Invoices', () => {
+  describe('getOccurrenceDate', () => {
+    it('should return the start date for the first occurrence', () => {
+      const start = new Date(2025, 0, 15)
+      expect(getOccurrenceDate(start, 'MONTHLY', 0)).toEqual(start)
+    })
+
+    it('should step by the schedule frequency', () => {
+      const start = new Date(2025, 0, 15)
+      expect(getOccurrenceDate(start, 'WEEKLY', 2)).toEqual(new Date(2025, 0, 29))
+      expect(getOccurrenceDate(start, 'MONTHLY', 3)).toEqual(new Date(2025, 3, 15))
+      expect(getOccurrenceDate(start, 'QUARTERLY', 1)).toEqual(new Date(2025, 3, 15))
+      expect(getOccurrenceDate(start, 'YEARLY', 1)).toEqual(new Date(2026, 0, 15))
+    })
+
+    it('should keep month-end schedules on month-end after February', () => {
+      const start = new Date(2025, 0, 31)
+      expect(getOccurrenceDate(start, 'MONTHLY', 1)).toEqual(new Date(2025, 1, 28))
+      expect(getOccurrenceDate(start, 'MONTHLY', 2)).toEqual(new Date(2025, 2, 31))
+    })
+  })
+
+  describe('isScheduleComplete', () => {
+    it('should never complete open-ended schedules', () => {
+      expect(isScheduleComplete(new Date(2030, 0, 1), null)).toBe(false)
+    })
+
+    it('should complete once the next run is past the end date', () => {
+      const end = new Date(2025, 5, 30)
+      expect(isScheduleComplete(new Date(2025, 5, 30), end)).toBe(false)
+      expect(isScheduleComplete(new Date(2025, 6, 1), end)).toBe(true)
+    })
+  })
+
+  describe('isRecurringInvoiceDue', () => {
+    const now = new Date(2025, 3, 15, 12)
+
+    it('should be due when active and the next run date has passed', () => {
+      expect(isRecurringInvoiceDue({ isActive: true, nextRunDate: new Date(2025, 3, 15), endDate: null }, now)).toBe(true)
+    })
+
+    it('should not be due for paused, future or ended schedules', () => {
+      expect(isRecurringInvoiceDue({ isActive: false, nextRunDate: new Date(2025, 3, 1), endDate: null }, now)).toBe(false)
+      expect(isRecurringInvoiceDue({ isActive: true, nextRunDate: new Date(2025, 3, 16), endDate: null }, now)).toBe(false)
+      expect(isRecurringInvoiceDue({
+        isActive: true,
+        nextRunDate: new Date(2025, 3, 1),
+        endDate: new Date(2025, 2, 31),
+      }, now)).toBe(false)
+    })
+  })
+
+  describe('getRecurringDueDate', () => {
+    it('should add payment terms in days', () => {
+      expect(getRecurringDueDate(new Date(2025, 0, 15), 30)).toEqual(new Date(2025, 1, 14))
+      expect(getRecurringDueDate(new Date(2025, 0, 15), 0)).toEqual(new Date(2025, 0, 15))
+    })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { allocateRemittance, apportionRemittance } from '@/lib/remittance'
+
+describe('Remittance', () => {
+  describe('allocateRemittance', () => {
+    it('should pay invoices in order and the last one in part', () => {
+      const allocations = allocateRemittance(2500, [
+        { invoiceId: 'inv-1', balanceDue: 1000 },
+        { invoiceId: 'inv-2', balanceDue: 1000 },
+        { invoiceId: 'inv-3', balanceDue: 1000 },
+      ])
+
+      expect(allocations).toEqual([
+        { invoiceId: 'inv-1', amount: 1000 },
+        { invoiceId: 'inv-2', amount: 1000 },
+        { invoiceId: 'inv-3', amount: 500 },
+      ])
+    })
+
+    it('should stop when the amount runs out', () => {
+      const allocations = allocateRemittance(800, [
+        { invoiceId: 'inv-1', balanceDue: 1000 },
+        { invoiceId: 'inv-2', balanceDue: 1000 },
+      ])
+
+      expect(allocations).toEqual([{ invoiceId: 'inv-1', amount: 800 }])
+    })
+
+    it('should skip invoices with nothing due', () => {
+      const allocations = allocateRemittance(300, [
+        { invoiceId: 'inv-1', balanceDue: 0 },
+        { invoiceId: 'inv-2', balanceDue: 500 },
+      ])
+
+      expect(allocations).toEqual([{ invoiceId: 'inv-2', amount: 300 }])
+    })
+  })
+
+  describe('apportionRemittance', () => {
+    it('should split fees, INR credited and bank charges by amount allocated', () => {
+      const payments = apportionRemittance(
+        { amount: 3000, platformFeesInCurrency: 30, creditedAmount: 247500, bankChargesInr: 600 },
+        [
+          { invoiceId: 'inv-1', amount: 1500 },
+          { invoiceId: 'inv-2', amount: 1000 },
+          { invoiceId: 'inv-3', amount: 500 },
+        ]
+      )
+
+      expect(payments).toEqual([
+        {
+          invoiceId: 'inv-1',
+          amount: 1500,
+          platformFeesInCurrency: 15,
+          amountReceivedBeforeFees: 1485,
+          creditedAmount: 123750,
+          bankChargesInr: 300,
+        },
+        {
+          invoiceId: 'inv-2',
+          amount: 1000,
+          platformFeesInCurrency: 10,
+          amountReceivedBeforeFees: 990,
+          creditedAmount: 82500,
+          bankChargesInr: 200,
+        },
+        {
+          invoiceId: 'inv-3',
+          amount: 500,
+          platformFeesInCurrency: 5,
+          amountReceivedBeforeFees: 495,
+          creditedAmount: 41250,
+          bankChargesInr: 100,
+        },
+      ])
+    })
+
+    it('should put the rounding difference on the last invoice', () => {
+      const payments = apportionRemittance({ amount: 300, platformFeesInCurrency: 10, creditedAmount: 25000.01 }, [
+        { invoiceId: 'inv-1', amount: 100 },
+        { invoiceId: 'inv-2', amount: 100 },
+        { invoiceId: 'inv-3', amount: 100 },
+      ])
+
+      expect(payments.map((payment) => payment.platformFeesInCurrency)).toEqual([3.33, 3.33, 3.34])
+      expect(payments.map((payment) => payment.creditedAmount)).toEqual([8333.34, 8333.34, 8333.33])
+      expect(payments.reduce((sum, payment) => sum + (payment.creditedAmount ?? 0), 0)).toBeCloseTo(25000.01, 2)
+    })
+
+    it('should leave amounts that were not recorded empty', () => {
+      const [payment] = apportionRemittance({ amount: 1000 }, [{ invoiceId: 'inv-1', amount: 1000 }])
+
+      expect(payment).toEqual({
+        invoiceId: 'inv-1',
+        amount: 1000,
+        platformFeesInCurrency: null,
+        amountReceivedBeforeFees: null,
+        creditedAmount: null,
+        bankChargesInr: null,
+      })
+    })
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRawSync } from 'node:zlib'
+import { parseCSV, readSpreadsheet, toRecords } from '@/lib/spreadsheet'
+
+/**
+ * Build a minimal ZIP archive with deflated entries
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name)
+    const data = deflateRawSync(Buffer.from(content))
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(Buffer.byteLength(content), 22)
+    local.writeUInt16LE(nameBuffer.length, 26)
+    localParts.push(local, nameBuffer, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(Buffer.byteLength(content), 24)
+    central.writeUInt16LE(nameBuffer.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralParts.push(central, nameBuffer)
+
+    offset += local.length + nameBuffer.length + data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+describe('Spreadsheet Reader', () => {
+  describe('parseCSV', () => {
+    it('should handle quoted values, escaped quotes and line breaks', () => {
+      const csv = 'Name,Notes\r\n"Acme, Inc.","Said ""hello""\nthen left"\r\n\r\nGlobex,'
+
+      expect(parseCSV(csv)).toEqual([
+        ['Name', 'Notes'],
+        ['Acme, Inc.', 'Said "hello"\nthen left'],
+        ['Globex', ''],
+      ])
+    })
+
+    it('should strip the byte order mark', () => {
+      expect(parseCSV('\uFEFFInvoice Number\nFY24-25/001')[0]).toEqual(['Invoice Number'])
+    })
+  })
+
+  describe('readSpreadsheet', () => {
+    it('should read the first worksheet of an XLSX workbook', () => {
+      const xlsx = buildZip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Invoices" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels':
+          '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+        'xl/sharedStrings.xml':
+          '<sst><si><t>Invoice Number</t></si><si><t>Rate</t></si><si><r><t>FY24-25/</t></r><r><t>001</t></r></si></sst>',
+        'xl/worksheets/sheet1.xml':
+          '<worksheet><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+          '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="inlineStr"><is><t>R&amp;D</t></is></c><c r="C2"><v>150.5</v></c></row>' +
+          '</sheetData></worksheet>',
+      })
+
+      const result = readSpreadsheet('invoices.xlsx', xlsx)
+
+      expect(result.success).toBe(true)
+      expect(result.rows).toEqual([
+        ['Invoice Number', '', 'Rate'],
+        ['FY24-25/001', 'R&D', '150.5'],
+      ])
+    })
+
+    it('should reject other file types and broken workbooks', () => {
+      expect(readSpreadsheet('invoices.pdf', Buffer.from('')).error).toMatch(/Unsupported file type/)
+      expect(readSpreadsheet('invoices.xlsx', Buffer.from('not a zip')).success).toBe(false)
+    })
+  })
+
+  describe('toRecords', () => {
+    it('should key values by normalized header with spreadsheet row numbers', () => {
+      expect(toRecords([['Invoice Number', 'SAC Code'], ['FY24-25/001']])).toEqual([
+        { rowNumber: 2, values: { invoice_number: 'FY24-25/001', sac_code: '' } },
+      ])
+    })
+  })
+})
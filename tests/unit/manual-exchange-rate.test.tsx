@@ -16,7 +16,11 @@ describe('Manual Exchange Rate Entry', () => {
       country: 'USA',
       currency: 'USD',
       taxId: null,
+      gstin: null,
+      stateCode: null,
       isActive: true,
+      autoApplyCredit: true,
+      remindersOptOut: false,
       createdAt: new Date(),
       updatedAt: new Date(),
     },
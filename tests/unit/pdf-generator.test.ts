@@ -49,7 +49,11 @@ describe('PDF Invoice Generator', () => {
     currency: 'USD',
     phone: '+1-555-0123',
     taxId: 'US-TAX-123',
+    gstin: null,
+    stateCode: null,
     isActive: true,
+    autoApplyCredit: true,
+    remindersOptOut: false,
     createdAt: new Date(),
     updatedAt: new Date(),
   }
@@ -85,8 +89,10 @@ describe('PDF Invoice Generator', () => {
     placeOfSupply: 'Outside India (Section 2-6)',
     serviceCode: '99831000',
     lutId: 'lut-1',
+    exportWithPayment: false,
     unregisteredSupplierId: null,
     dateOfReceiptOfSupply: null,
+    recurringInvoiceId: null,
     igstRate: new Decimal(0),
     cgstRate: new Decimal(0),
     sgstRate: new Decimal(0),
@@ -111,10 +117,16 @@ describe('PDF Invoice Generator', () => {
     pdfJobId: null,
     publicAccessToken: null,
     tokenExpiresAt: null,
+    numberSeriesId: null,
+    cancelledAt: null,
+    cancellationReason: null,
     notes: 'Thank you for your business',
     paymentStatus: 'UNPAID',
     amountPaid: new Decimal(0),
     balanceDue: new Decimal(5000),
+    noteAdjustment: new Decimal(0),
+    realisationAlertLevel: 0,
+    realisationAlertSentAt: null,
     rcmType: null,
     foreignCurrency: null,
     foreignAmount: null,
@@ -132,6 +144,13 @@ describe('PDF Invoice Generator', () => {
         quantity: new Decimal(1),
         rate: new Decimal(3000),
         amount: new Decimal(3000),
+        discountType: null,
+        discountValue: new Decimal(0),
+        discountAmount: new Decimal(0),
+        gstRate: new Decimal(0),
+        igstAmount: new Decimal(0),
+        cgstAmount: new Decimal(0),
+        sgstAmount: new Decimal(0),
       },
       {
         id: 'item-2',
@@ -141,6 +160,13 @@ describe('PDF Invoice Generator', () => {
         quantity: new Decimal(40),
         rate: new Decimal(50),
         amount: new Decimal(2000),
+        discountType: null,
+        discountValue: new Decimal(0),
+        discountAmount: new Decimal(0),
+        gstRate: new Decimal(0),
+        igstAmount: new Decimal(0),
+        cgstAmount: new Decimal(0),
+        sgstAmount: new Decimal(0),
       },
     ],
     client: mockClient,
@@ -209,6 +235,29 @@ describe('PDF Invoice Generator', () => {
     expect(capturedHtml).toContain('₹4,17,500.00')
   })
 
+  it('should watermark cancelled invoices with the reason', async () => {
+    await generateInvoicePDF(
+      {
+        ...mockInvoice,
+        status: 'CANCELLED',
+        cancelledAt: new Date('2024-04-20'),
+        cancellationReason: 'Raised on the wrong client',
+      },
+      mockUser
+    )
+
+    expect(capturedHtml).toContain('<div class="watermark">CANCELLED</div>')
+    expect(capturedHtml).toContain('Reason: Raised on the wrong client')
+    // The invoice number is kept
+    expect(capturedHtml).toContain('Invoice #FY24-25/001')
+  })
+
+  it('should not watermark active invoices', async () => {
+    await generateInvoicePDF(mockInvoice, mockUser)
+
+    expect(capturedHtml).not.toContain('class="watermark"')
+  })
+
   it('should handle invoice without LUT', async () => {
     const invoiceWithoutLUT = {
       ...mockInvoice,
@@ -226,6 +275,24 @@ describe('PDF Invoice Generator', () => {
     expect(capturedHtml).not.toContain('LUT NO')
   })
 
+  it('should declare export with payment of IGST', async () => {
+    const invoiceWithPayment = {
+      ...mockInvoice,
+      lutId: null,
+      lut: null,
+      exportWithPayment: true,
+      igstRate: new Decimal(18),
+      igstAmount: new Decimal(900),
+      totalAmount: new Decimal(5900),
+    }
+
+    await generateInvoicePDF(invoiceWithPayment, mockUser)
+
+    expect(capturedHtml).toContain('SUPPLY MEANT FOR EXPORT ON PAYMENT OF INTEGRATED TAX')
+    expect(capturedHtml).toContain('IGST @ 18%')
+    expect(capturedHtml).not.toContain('LUT NO')
+  })
+
   it('should include all line items with proper formatting', async () => {
     await generateInvoicePDF(mockInvoice, mockUser)
 
@@ -311,13 +311,13 @@ describe('BullMQService', () => {
       const stats = await bullmqService.getStats()
 
       expect(Queue.prototype.getJobCounts).toHaveBeenCalled()
-      // The service creates 6 queues (one per job type), so stats are multiplied by 6
+      // The service creates 9 queues (one per job type), so stats are multiplied by 9
       expect(stats).toEqual({
-        pending: 60,  // 10 * 6 queues
-        active: 12,   // 2 * 6 queues
-        completed: 900, // 150 * 6 queues
-        failed: 18,   // 3 * 6 queues
-        delayed: 30,  // 5 * 6 queues
+        pending: 90,  // 10 * 9 queues
+        active: 18,   // 2 * 9 queues
+        completed: 1350, // 150 * 9 queues
+        failed: 27,   // 3 * 9 queues
+        delayed: 45,  // 5 * 9 queues
         paused: false,
       })
     })
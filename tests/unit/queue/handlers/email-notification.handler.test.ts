@@ -2,8 +2,16 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { emailNotificationHandler } from '@/lib/queue/handlers/email-notification.handler'
 import type { Job, EmailNotificationJobData } from '@/lib/queue/types'
 import * as emailService from '@/lib/email/service'
+import { prisma } from '@/lib/prisma'
 
 vi.mock('@/lib/email/service')
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    emailHistory: {
+      create: vi.fn(),
+    },
+  },
+}))
 
 describe('Email Notification Handler', () => {
   beforeEach(() => {
@@ -114,6 +122,42 @@ describe('Email Notification Handler', () => {
         template: 'payment-reminder',
         to: 'client@example.com',
       })
+      // Not sent for an invoice, so nothing is recorded
+      expect(prisma.emailHistory.create).not.toHaveBeenCalled()
+    })
+
+    it('should record a reminder sent for an invoice in its email history', async () => {
+      const sentAt = new Date('2024-02-08T10:00:00Z')
+      vi.mocked(emailService.sendEmail).mockResolvedValue({
+        messageId: 'msg-125',
+        accepted: ['client@example.com'],
+        rejected: [],
+        timestamp: sentAt,
+      } as any)
+
+      await emailNotificationHandler({ ...mockJob, data: { ...mockJob.data, invoiceId: 'invoice-123' } })
+
+      expect(prisma.emailHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-456',
+          invoiceId: 'invoice-123',
+          type: 'payment-reminder',
+          messageId: 'msg-125',
+          status: 'SENT',
+          sentAt,
+        }),
+      })
+    })
+
+    it('should record a failed reminder and rethrow', async () => {
+      vi.mocked(emailService.sendEmail).mockRejectedValue(new Error('SMTP connection failed'))
+
+      await expect(
+        emailNotificationHandler({ ...mockJob, data: { ...mockJob.data, invoiceId: 'invoice-123' } })
+      ).rejects.toThrow('SMTP connection failed')
+      expect(prisma.emailHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ invoiceId: 'invoice-123', status: 'FAILED' }),
+      })
     })
   })
 
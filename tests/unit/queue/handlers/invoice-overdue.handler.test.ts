@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Job, InvoiceOverdueJobData } from '@/lib/queue/types'
+
+// Mock the prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    invoice: {
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+// Import after mocks
+import { invoiceOverdueHandler } from '@/lib/queue/handlers/invoice-overdue.handler'
+import { prisma } from '@/lib/prisma'
+
+describe('Invoice Overdue Handler', () => {
+  const job: Job<InvoiceOverdueJobData> = {
+    id: 'job-1',
+    type: 'INVOICE_OVERDUE',
+    data: { mode: 'scan' },
+    status: 'active',
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 30, 0, 5))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should mark unpaid invoices past their due date as overdue', async () => {
+    vi.mocked(prisma.invoice.updateMany).mockResolvedValueOnce({ count: 3 }).mockResolvedValueOnce({ count: 0 })
+
+    const result = await invoiceOverdueHandler(job)
+
+    expect(result).toEqual({ success: true, mode: 'scan', markedOverdue: 3, reopened: 0 })
+    expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: {
+        status: 'SENT',
+        balanceDue: { gt: 0 },
+        dueDate: { lt: new Date(2025, 5, 30) },
+      },
+      data: { status: 'OVERDUE' },
+    })
+  })
+
+  it('should reopen overdue invoices whose due date was moved later', async () => {
+    vi.mocked(prisma.invoice.updateMany).mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 })
+
+    const result = await invoiceOverdueHandler(job)
+
+    expect(result.reopened).toBe(1)
+    expect(prisma.invoice.updateMany).toHaveBeenLastCalledWith({
+      where: {
+        status: 'OVERDUE',
+        dueDate: { gte: new Date(2025, 5, 30) },
+      },
+      data: { status: 'SENT' },
+    })
+  })
+})
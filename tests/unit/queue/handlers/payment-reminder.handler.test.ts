@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Job, PaymentReminderJobData } from '@/lib/queue/types'
+
+// Mock the prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    dunningSchedule: {
+      findMany: vi.fn(),
+    },
+    invoice: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    emailHistory: {
+      create: vi.fn(),
+    },
+  },
+}))
+
+// Mock the email service
+vi.mock('@/lib/email/service', () => ({
+  sendEmail: vi.fn(),
+}))
+
+// Import after mocks
+import { paymentReminderHandler } from '@/lib/queue/handlers/payment-reminder.handler'
+import { prisma } from '@/lib/prisma'
+import { sendEmail } from '@/lib/email/service'
+
+describe('Payment Reminder Handler', () => {
+  const job: Job<PaymentReminderJobData> = {
+    id: 'job-1',
+    type: 'PAYMENT_REMINDER',
+    data: { mode: 'scan' },
+    status: 'active',
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  const defaultSchedule = {
+    id: 'schedule-1',
+    userId: 'user-1',
+    clientId: null,
+    offsetDays: [-3, 0],
+    repeatEveryDays: 7,
+    maxReminders: null,
+  }
+
+  const createInvoice = (overrides: Record<string, unknown> = {}) => ({
+    id: 'invoice-1',
+    userId: 'user-1',
+    invoiceNumber: 'FY25-26/001',
+    invoiceDate: new Date(2025, 8, 10),
+    dueDate: new Date(2025, 9, 10),
+    currency: 'USD',
+    balanceDue: 1000,
+    bankDetails: null,
+    publicAccessToken: 'token-1',
+    tokenExpiresAt: new Date(2026, 0, 1),
+    client: { id: 'client-1', name: 'Acme Corp', email: 'billing@acme.com' },
+    user: { name: 'Test User', email: 'test@example.com', gstin: null, address: null },
+    emailHistory: [],
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 9, 10, 8))
+    vi.mocked(prisma.dunningSchedule.findMany).mockResolvedValue([defaultSchedule] as any)
+    vi.mocked(sendEmail).mockResolvedValue({ messageId: 'msg-1', timestamp: new Date(2025, 9, 10, 8) })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should do nothing when no user has a schedule', async () => {
+    vi.mocked(prisma.dunningSchedule.findMany).mockResolvedValue([])
+
+    const result = await paymentReminderHandler(job)
+
+    expect(result).toEqual({ success: true, mode: 'scan', invoicesChecked: 0, remindersSent: 0, errors: [] })
+    expect(prisma.invoice.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should send due reminders and record them in email history', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      createInvoice({ emailHistory: [{ sentAt: new Date(2025, 9, 7, 8) }] }),
+    ] as any)
+
+    const result = await paymentReminderHandler(job)
+
+    expect(result).toMatchObject({ success: true, invoicesChecked: 1, remindersSent: 1 })
+    expect(prisma.invoice.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: { in: ['user-1'] },
+          status: { notIn: ['DRAFT', 'CANCELLED'] },
+          balanceDue: { gt: 0 },
+          client: { remindersOptOut: false },
+        },
+      })
+    )
+    expect(sendEmail).toHaveBeenCalledWith({
+      to: 'billing@acme.com',
+      subject: 'Payment Reminder: Invoice FY25-26/001',
+      template: 'payment-reminder',
+      data: expect.objectContaining({ clientName: 'Acme Corp', amount: 1000, daysOverdue: 0 }),
+    })
+    expect(prisma.emailHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        invoiceId: 'invoice-1',
+        type: 'payment-reminder',
+        messageId: 'msg-1',
+        status: 'SENT',
+      }),
+    })
+    expect(prisma.invoice.update).not.toHaveBeenCalled()
+  })
+
+  it('should skip invoices already reminded for the current step', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      createInvoice({ emailHistory: [{ sentAt: new Date(2025, 9, 10, 7) }, { sentAt: new Date(2025, 9, 7, 8) }] }),
+    ] as any)
+
+    const result = await paymentReminderHandler(job)
+
+    expect(result.remindersSent).toBe(0)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('should use the client schedule over the default', async () => {
+    vi.mocked(prisma.dunningSchedule.findMany).mockResolvedValue([
+      defaultSchedule,
+      { ...defaultSchedule, id: 'schedule-2', clientId: 'client-1', offsetDays: [5], repeatEveryDays: null },
+    ] as any)
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([createInvoice()] as any)
+
+    const result = await paymentReminderHandler(job)
+
+    expect(result.remindersSent).toBe(0)
+    expect(sendEmail).not.toHaveBeenCalled()
+  })
+
+  it('should renew an expired public link before sending', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([createInvoice({ tokenExpiresAt: new Date(2025, 0, 1) })] as any)
+
+    await paymentReminderHandler(job)
+
+    expect(prisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'invoice-1' },
+      data: { publicAccessToken: expect.any(String), tokenExpiresAt: expect.any(Date) },
+    })
+    expect(sendEmail).toHaveBeenCalledTimes(1)
+  })
+
+  it('should record failed sends', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([createInvoice()] as any)
+    vi.mocked(sendEmail).mockRejectedValue(new Error('SMTP down'))
+
+    const result = await paymentReminderHandler(job)
+
+    expect(result.remindersSent).toBe(0)
+    expect(result.errors).toEqual([{ invoiceId: 'invoice-1', error: 'SMTP down' }])
+    expect(prisma.emailHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ status: 'FAILED', messageId: '' }),
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { Job, RealisationAlertJobData } from '@/lib/queue/types'
+
+// Mock the prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    invoice: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}))
+
+// Mock the queue service
+const mockEnqueue = vi.fn()
+vi.mock('@/lib/queue', () => ({
+  getQueueService: () => ({ enqueue: mockEnqueue }),
+}))
+
+// Import after mocks
+import { realisationAlertHandler } from '@/lib/queue/handlers/realisation-alert.handler'
+import { prisma } from '@/lib/prisma'
+
+describe('Realisation Alert Handler', () => {
+  const job: Job<RealisationAlertJobData> = {
+    id: 'job-1',
+    type: 'REALISATION_ALERT',
+    data: { mode: 'scan' },
+    status: 'active',
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  const createInvoice = (overrides: Record<string, unknown> = {}) => ({
+    id: 'invoice-1',
+    userId: 'user-1',
+    invoiceNumber: 'FY24-25/001',
+    invoiceDate: new Date(2025, 0, 15),
+    currency: 'USD',
+    totalAmount: 1000,
+    noteAdjustment: 0,
+    realisationAlertLevel: 0,
+    user: { email: 'test@example.com', name: 'Test User' },
+    client: { name: 'Acme Corp' },
+    payments: [],
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 8, 1))
+    mockEnqueue.mockResolvedValue({ id: 'email-job-1' })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should send one digest per user and record the alert level', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      createInvoice(),
+      createInvoice({
+        id: 'invoice-2',
+        invoiceNumber: 'FY24-25/002',
+        invoiceDate: new Date(2024, 10, 20),
+        payments: [{ amount: 400, paymentDate: new Date(2025, 0, 10), fircNumber: null, creditApplication: null }],
+      }),
+    ] as any)
+
+    const result = await realisationAlertHandler(job)
+
+    expect(result).toMatchObject({ success: true, invoicesFound: 2, alertsSent: 1, invoicesAlerted: 2 })
+    expect(mockEnqueue).toHaveBeenCalledTimes(1)
+    expect(mockEnqueue).toHaveBeenCalledWith('EMAIL_NOTIFICATION', {
+      to: 'test@example.com',
+      subject: 'Action required: 1 export invoice(s) past the realisation deadline',
+      template: 'realisation-deadline',
+      data: expect.objectContaining({
+        userName: 'Test User',
+        realisationInvoices: [
+          expect.objectContaining({ invoiceNumber: 'FY24-25/001', daysRemaining: 44, unrealisedAmount: 1000 }),
+          expect.objectContaining({ invoiceNumber: 'FY24-25/002', daysRemaining: -12, unrealisedAmount: 600 }),
+        ],
+      }),
+      userId: 'user-1',
+    })
+    expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['invoice-1'] } },
+      data: { realisationAlertLevel: 1, realisationAlertSentAt: expect.any(Date) },
+    })
+    expect(prisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['invoice-2'] } },
+      data: { realisationAlertLevel: 3, realisationAlertSentAt: expect.any(Date) },
+    })
+  })
+
+  it('should not repeat an alert already sent at the same level', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([createInvoice({ realisationAlertLevel: 1 })] as any)
+
+    const result = await realisationAlertHandler(job)
+
+    expect(result.alertsSent).toBe(0)
+    expect(mockEnqueue).not.toHaveBeenCalled()
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled()
+  })
+
+  it('should skip invoices realised from client credit', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([
+      createInvoice({
+        payments: [
+          {
+            amount: 1000,
+            paymentDate: new Date(2025, 1, 1),
+            fircNumber: null,
+            creditApplication: { credit: { receivedDate: new Date(2024, 11, 1), fircNumber: 'FIRC-ADV' } },
+          },
+        ],
+      }),
+    ] as any)
+
+    const result = await realisationAlertHandler(job)
+
+    expect(result.alertsSent).toBe(0)
+    expect(mockEnqueue).not.toHaveBeenCalled()
+  })
+
+  it('should report enqueue failures per user', async () => {
+    vi.mocked(prisma.invoice.findMany).mockResolvedValue([createInvoice()] as any)
+    mockEnqueue.mockRejectedValue(new Error('Redis unavailable'))
+
+    const result = await realisationAlertHandler(job)
+
+    expect(result.alertsSent).toBe(0)
+    expect(result.errors).toEqual([{ userId: 'user-1', error: 'Redis unavailable' }])
+    expect(prisma.invoice.updateMany).not.toHaveBeenCalled()
+  })
+})
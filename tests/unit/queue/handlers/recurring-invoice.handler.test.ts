@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Prisma } from '@prisma/client'
+import type { Job, RecurringInvoiceJobData } from '@/lib/queue/types'
+
+const { mockCreate, mockSendInvoiceEmail } = vi.hoisted(() => ({
+  mockCreate: vi.fn(),
+  mockSendInvoiceEmail: vi.fn(),
+}))
+
+// Mock the prisma client
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    recurringInvoice: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    invoice: {
+      update: vi.fn(),
+    },
+    lUT: {
+      findFirst: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/exchange-rates', () => ({
+  getOrFetchExchangeRate: vi.fn(),
+}))
+
+// Invoices are created through the invoice router
+vi.mock('@/server/api/trpc', () => ({
+  createCallerFactory: () => () => ({
+    create: mockCreate,
+    sendInvoiceEmail: mockSendInvoiceEmail,
+  }),
+}))
+
+vi.mock('@/server/api/routers/invoice', () => ({
+  invoiceRouter: {},
+}))
+
+// Import after mocks
+import { recurringInvoiceHandler } from '@/lib/queue/handlers/recurring-invoice.handler'
+import { prisma } from '@/lib/prisma'
+import { getOrFetchExchangeRate } from '@/lib/exchange-rates'
+
+describe('Recurring Invoice Handler', () => {
+  const createMockSchedule = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rec-1',
+    userId: 'user-1',
+    clientId: 'client-1',
+    name: 'Acme retainer',
+    invoiceType: 'EXPORT',
+    gstRate: null,
+    exportWithPayment: false,
+    currency: 'USD',
+    frequency: 'MONTHLY',
+    startDate: new Date('2025-01-01'),
+    endDate: null,
+    nextRunDate: new Date('2025-03-01'),
+    lastRunAt: null,
+    occurrences: 2,
+    isActive: true,
+    paymentTerms: 15,
+    bankDetails: null,
+    notes: null,
+    autoSend: false,
+    sendTo: null,
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    client: { id: 'client-1', email: 'billing@acme.com' },
+    lineItems: [
+      {
+        id: 'item-1',
+        recurringInvoiceId: 'rec-1',
+        description: 'Monthly retainer',
+        quantity: new Prisma.Decimal(1),
+        rate: new Prisma.Decimal(5000),
+        serviceCode: '99831400',
+        discountType: null,
+        discountValue: new Prisma.Decimal(0),
+        gstRate: null,
+      },
+    ],
+    ...overrides,
+  })
+
+  const createJob = (data: RecurringInvoiceJobData): Job<RecurringInvoiceJobData> => ({
+    id: 'job-1',
+    type: 'RECURRING_INVOICE',
+    data,
+    status: 'active',
+    attempts: 0,
+    maxAttempts: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-03-01T06:00:00Z'))
+
+    vi.mocked(getOrFetchExchangeRate).mockResolvedValue({
+      rate: 86.5,
+      source: 'RBI',
+      date: new Date('2025-03-01'),
+    })
+    vi.mocked(prisma.lUT.findFirst).mockResolvedValue({ id: 'lut-1' } as any)
+    vi.mocked(prisma.recurringInvoice.updateMany).mockResolvedValue({ count: 1 })
+    mockCreate.mockResolvedValue({
+      invoice: { id: 'inv-1', invoiceNumber: 'FY24-25/010' },
+      lutWarning: null,
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should create due invoices with the exchange rate of the invoice date', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([createMockSchedule()] as any)
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.invoicesCreated).toBe(1)
+    expect(getOrFetchExchangeRate).toHaveBeenCalledWith('USD', new Date('2025-03-01'))
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceType: 'EXPORT',
+      clientId: 'client-1',
+      lutId: 'lut-1',
+      issueDate: new Date('2025-03-01'),
+      dueDate: new Date('2025-03-16'),
+      exchangeRate: 86.5,
+      exchangeRateSource: 'RBI',
+      lineItems: [{ description: 'Monthly retainer', quantity: 1, rate: 5000, sacCode: '99831400' }],
+    }))
+    expect(prisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: 'inv-1' },
+      data: { recurringInvoiceId: 'rec-1' },
+    })
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'rec-1', occurrences: 2 },
+      data: expect.objectContaining({
+        occurrences: 3,
+        nextRunDate: new Date('2025-04-01'),
+        lastError: null,
+        isActive: true,
+      }),
+    }))
+    expect(mockSendInvoiceEmail).not.toHaveBeenCalled()
+  })
+
+  it('should email the invoice when auto-send is on', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([
+      createMockSchedule({ autoSend: true }),
+    ] as any)
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.invoicesSent).toBe(1)
+    expect(mockSendInvoiceEmail).toHaveBeenCalledWith({ id: 'inv-1', to: 'billing@acme.com' })
+  })
+
+  it('should deactivate the schedule after its last occurrence', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([
+      createMockSchedule({ endDate: new Date('2025-03-15') }),
+    ] as any)
+
+    await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ isActive: false }),
+    }))
+  })
+
+  it('should skip an occurrence another run already generated', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([createMockSchedule()] as any)
+    vi.mocked(prisma.recurringInvoice.updateMany).mockResolvedValue({ count: 0 })
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.invoicesCreated).toBe(0)
+    expect(result.errors).toHaveLength(0)
+    expect(mockCreate).not.toHaveBeenCalled()
+  })
+
+  it('should release the occurrence when the invoice cannot be created', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([createMockSchedule()] as any)
+    mockCreate.mockRejectedValue(new Error('GST validation failed'))
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.errors).toEqual([{ recurringInvoiceId: 'rec-1', error: 'GST validation failed' }])
+    expect(prisma.recurringInvoice.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'rec-1', occurrences: 3 },
+      data: expect.objectContaining({ occurrences: 2, nextRunDate: new Date('2025-03-01') }),
+    })
+    expect(prisma.invoice.update).not.toHaveBeenCalled()
+  })
+
+  it('should record an error and keep the schedule when no exchange rate is available', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([createMockSchedule()] as any)
+    vi.mocked(getOrFetchExchangeRate).mockResolvedValue(null)
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.invoicesCreated).toBe(0)
+    expect(result.errors).toHaveLength(1)
+    expect(mockCreate).not.toHaveBeenCalled()
+    expect(prisma.recurringInvoice.update).toHaveBeenCalledWith({
+      where: { id: 'rec-1' },
+      data: { lastError: expect.stringContaining('No exchange rate') },
+    })
+  })
+
+  it('should skip the LUT and exchange rate for domestic INR schedules', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([
+      createMockSchedule({ invoiceType: 'DOMESTIC', currency: 'INR', gstRate: new Prisma.Decimal(18) }),
+    ] as any)
+
+    await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(getOrFetchExchangeRate).not.toHaveBeenCalled()
+    expect(prisma.lUT.findFirst).not.toHaveBeenCalled()
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceType: 'DOMESTIC',
+      gstRate: 18,
+      exchangeRate: 1,
+      exchangeRateSource: 'INR',
+    }))
+  })
+
+  it('should carry line discounts and GST rates onto the invoice', async () => {
+    const [item] = createMockSchedule().lineItems
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([
+      createMockSchedule({
+        invoiceType: 'DOMESTIC',
+        currency: 'INR',
+        gstRate: new Prisma.Decimal(18),
+        lineItems: [
+          { ...item, discountType: 'PERCENT', discountValue: new Prisma.Decimal(10), gstRate: new Prisma.Decimal(12) },
+        ],
+      }),
+    ] as any)
+
+    await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      lineItems: [
+        {
+          description: 'Monthly retainer',
+          quantity: 1,
+          rate: 5000,
+          sacCode: '99831400',
+          discountType: 'PERCENT',
+          discountValue: 10,
+          gstRate: 12,
+        },
+      ],
+    }))
+  })
+
+  it('should not need an LUT for exports with payment of IGST', async () => {
+    vi.mocked(prisma.recurringInvoice.findMany).mockResolvedValue([
+      createMockSchedule({ exportWithPayment: true }),
+    ] as any)
+    vi.mocked(prisma.lUT.findFirst).mockResolvedValue(null)
+
+    const result = await recurringInvoiceHandler(createJob({ mode: 'scan' }))
+
+    expect(result.invoicesCreated).toBe(1)
+    expect(prisma.lUT.findFirst).not.toHaveBeenCalled()
+    expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceType: 'EXPORT',
+      lutId: undefined,
+      exportWithPayment: true,
+    }))
+  })
+
+  it('should require an id in single mode', async () => {
+    const result = await recurringInvoiceHandler(createJob({ mode: 'single' }))
+
+    expect(result.success).toBe(false)
+    expect(prisma.recurringInvoice.findMany).not.toHaveBeenCalled()
+  })
+})